@@ -0,0 +1,163 @@
+// backend/src/constants/AIFeatures.ts
+
+/**
+ * LLMを利用する機能のキー
+ * code_review / ai_chat は UsageLimit.feature_key と同じ値を使う
+ */
+export enum AIFeature {
+  CODE_REVIEW = "code_review",
+  AI_CHAT = "ai_chat",
+  LEARNING_CHAT = "learning_chat",
+  CRITERIA_GENERATION = "criteria_generation",
+  ANALYTICS_INSIGHTS = "analytics_insights",
+}
+
+/**
+ * 利用可能なLLMプロバイダー
+ * - openai_compatible: OpenAI互換APIを提供するローカルエンドポイント（Ollama, vLLM など）
+ * - fake: 決められた応答を順番に返すテスト用プロバイダー（外部通信なし）
+ */
+export const LLM_PROVIDER_NAMES = [
+  "openai",
+  "anthropic",
+  "openai_compatible",
+  "fake",
+] as const;
+
+export type LLMProviderName = (typeof LLM_PROVIDER_NAMES)[number];
+
+/**
+ * 機能ごとのモデル設定
+ */
+export interface LLMFeatureConfig {
+  provider: LLMProviderName;
+  model: string;
+  temperature: number;
+  timeoutMs: number;
+  maxTokens?: number;
+}
+
+/**
+ * 管理画面で設定される機能ごとのルーティングルール
+ * 主モデルが失敗した場合は fallbacks を先頭から順に試す
+ */
+export interface LLMRoutingRule extends LLMFeatureConfig {
+  feature: AIFeature;
+  fallbacks: LLMFeatureConfig[];
+}
+
+/**
+ * 機能の表示名（管理画面用）
+ */
+export const AI_FEATURE_LABELS: Record<AIFeature, string> = {
+  [AIFeature.CODE_REVIEW]: "AIコードレビュー",
+  [AIFeature.AI_CHAT]: "AIチャット",
+  [AIFeature.LEARNING_CHAT]: "学習チャット",
+  [AIFeature.CRITERIA_GENERATION]: "評価基準生成",
+  [AIFeature.ANALYTICS_INSIGHTS]: "分析インサイト",
+};
+
+/**
+ * 機能ごとのデフォルト設定（環境変数で上書き可能）
+ */
+export const DEFAULT_AI_FEATURE_CONFIGS: Record<AIFeature, LLMFeatureConfig> = {
+  [AIFeature.CODE_REVIEW]: {
+    provider: "anthropic",
+    model: "claude-3-7-sonnet-20250219",
+    temperature: 0.1, // 一貫性のため低い温度を設定
+    timeoutMs: 120000,
+  },
+  [AIFeature.AI_CHAT]: {
+    provider: "openai",
+    model: "gpt-4o",
+    temperature: 0.7,
+    timeoutMs: 60000,
+  },
+  [AIFeature.LEARNING_CHAT]: {
+    provider: "openai",
+    model: "gpt-4o",
+    temperature: 0.2,
+    timeoutMs: 60000,
+    maxTokens: 5000,
+  },
+  [AIFeature.CRITERIA_GENERATION]: {
+    provider: "openai",
+    model: "gpt-4o",
+    temperature: 0.7, // 創造性のため少し高めの温度設定
+    timeoutMs: 60000,
+  },
+  [AIFeature.ANALYTICS_INSIGHTS]: {
+    provider: "anthropic",
+    model: "claude-3-7-sonnet-20250219",
+    temperature: 0.3, // レポート生成では一貫性が重要なので低い温度設定
+    timeoutMs: 120000,
+  },
+};
+
+/**
+ * fakeプロバイダーが機能ごとに返すデフォルト応答
+ * 各サービスの出力パーサーがそのまま解釈できる形式にしておく
+ * 1回のレビューで複数回呼び出す機能は、呼び出す順番に並べる（応答は先頭から順に繰り返し返される）
+ */
+export const DEFAULT_FAKE_RESPONSES: Record<AIFeature, string[]> = {
+  [AIFeature.CODE_REVIEW]: [
+    // 1. 評価基準に照らしたコードの分析（フィードバック）
+    JSON.stringify([
+      {
+        category: "code_quality",
+        problem_point: "テスト用の指摘です",
+        suggestion: "テスト用の改善提案です",
+        priority: "low",
+        is_checked: false,
+      },
+    ]),
+    // 2. 評価基準ごとの採点（初期データの評価基準と、fakeプロバイダーで生成した評価基準のキー）
+    JSON.stringify(
+      [
+        "code_quality",
+        "readability",
+        "efficiency",
+        "best_practices",
+        ...[1, 2, 3, 4, 5].map((index) => `test_criteria_${index}`),
+      ].map((key) => ({
+        key,
+        score: 5,
+        rationale: "テスト用の採点の根拠です。",
+      }))
+    ),
+  ],
+  [AIFeature.AI_CHAT]: ["テスト用の応答です。"],
+  [AIFeature.LEARNING_CHAT]: [
+    JSON.stringify({
+      response_intro: "テスト用の応答です。",
+      teaching_points: [],
+      search_and_reference: {
+        main_concepts: [],
+        explanation: "テスト用の説明です。",
+        search_queries: [],
+        programming_language: null,
+        frameworks: null,
+        difficulty_level: "beginner",
+        recommended_resources: [],
+      },
+      guidance_steps: [],
+      response_conclusion: "テスト用の結論です。",
+    }),
+  ],
+  [AIFeature.CRITERIA_GENERATION]: [
+    JSON.stringify(
+      [1, 2, 3, 4, 5].map((index) => ({
+        key: `test_criteria_${index}`,
+        name: `テスト用の評価基準${index}`,
+        description: "テスト用の評価基準の説明です。",
+      }))
+    ),
+  ],
+  [AIFeature.ANALYTICS_INSIGHTS]: [
+    JSON.stringify({
+      summary: "テスト用の要約です。",
+      keyFindings: [],
+      recommendations: [],
+    }),
+  ],
+};
@@ -0,0 +1,78 @@
+// backend/src/constants/LLMPricing.ts
+
+/**
+ * モデルごとの料金（USD / 100万トークン）
+ */
+export interface LLMModelPricing {
+  input: number;
+  output: number;
+}
+
+/**
+ * モデル名の前方一致で料金を決定する（より具体的なモデル名を先に記述する）
+ * 一覧にないモデル（ローカルモデルなど）は 0 として扱う
+ * 料金改定や独自モデルは環境変数 LLM_MODEL_PRICING（JSON）で上書きできる
+ *   例: LLM_MODEL_PRICING={"gpt-4o":{"input":2.5,"output":10}}
+ */
+export const DEFAULT_LLM_MODEL_PRICING: Array<[string, LLMModelPricing]> = [
+  ["gpt-4o-mini", { input: 0.15, output: 0.6 }],
+  ["gpt-4o", { input: 2.5, output: 10 }],
+  ["gpt-4.1-nano", { input: 0.1, output: 0.4 }],
+  ["gpt-4.1-mini", { input: 0.4, output: 1.6 }],
+  ["gpt-4.1", { input: 2, output: 8 }],
+  ["gpt-4-turbo", { input: 10, output: 30 }],
+  ["gpt-3.5-turbo", { input: 0.5, output: 1.5 }],
+  ["o3-mini", { input: 1.1, output: 4.4 }],
+  ["claude-3-7-sonnet", { input: 3, output: 15 }],
+  ["claude-3-5-sonnet", { input: 3, output: 15 }],
+  ["claude-3-5-haiku", { input: 0.8, output: 4 }],
+  ["claude-3-haiku", { input: 0.25, output: 1.25 }],
+  ["claude-3-opus", { input: 15, output: 75 }],
+  ["claude-sonnet-4", { input: 3, output: 15 }],
+  ["claude-opus-4", { input: 15, output: 75 }],
+];
+
+/**
+ * モデルの料金を取得
+ */
+export function getLLMModelPricing(model: string): LLMModelPricing | null {
+  if (process.env.LLM_MODEL_PRICING) {
+    try {
+      const overrides: Record<string, LLMModelPricing> = JSON.parse(
+        process.env.LLM_MODEL_PRICING
+      );
+      const override = Object.keys(overrides)
+        .sort((a, b) => b.length - a.length)
+        .find((key) => model.startsWith(key));
+      if (override) {
+        return overrides[override];
+      }
+    } catch (error) {
+      console.warn("LLM_MODEL_PRICING のJSONが不正なため無視します:", error);
+    }
+  }
+
+  const entry = DEFAULT_LLM_MODEL_PRICING.find(([prefix]) =>
+    model.startsWith(prefix)
+  );
+  return entry ? entry[1] : null;
+}
+
+/**
+ * トークン数から推定コスト（USD）を計算
+ */
+export function estimateLLMCost(
+  model: string,
+  promptTokens: number,
+  completionTokens: number
+): number {
+  const pricing = getLLMModelPricing(model);
+  if (!pricing) {
+    return 0;
+  }
+
+  return (
+    (promptTokens * pricing.input + completionTokens * pricing.output) /
+    1_000_000
+  );
+}
@@ -58,7 +58,8 @@ export class AIChatController {
       const aiResponse = await this.aiAssistantService.getResponse(
         validatedData.message,
         validatedData.reviewId || 0,
-        validatedData.context || {}
+        validatedData.context || {},
+        userId
       );
 
       res.status(200).json({
@@ -148,7 +149,10 @@ export class AIChatStreamController {
       if (!canUseChat.canUse) {
         res.status(403).json({
           success: false,
-          message: "本日の利用制限に達しました",
+          message:
+            canUseChat.reason === "budget_exceeded"
+              ? "利用予算の上限に達しました"
+              : "本日の利用制限に達しました",
           data: canUseChat,
         });
         return;
@@ -195,7 +199,8 @@ export class AIChatStreamController {
       const streamGenerator = this.aiAssistantService.getStreamingResponse(
         validatedData.message,
         validatedData.reviewId || 0,
-        validatedData.context || {}
+        validatedData.context || {},
+        userId
       );
 
       // 完全なAI応答を保存するための変数
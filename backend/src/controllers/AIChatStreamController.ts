@@ -61,7 +61,10 @@ export class AIChatStreamController {
       if (!canUseChat.canUse) {
         res.status(403).json({
           success: false,
-          message: "本日の利用制限に達しました",
+          message:
+            canUseChat.reason === "budget_exceeded"
+              ? "利用予算の上限に達しました"
+              : "本日の利用制限に達しました",
           data: canUseChat,
         });
         return;
@@ -96,7 +99,8 @@ export class AIChatStreamController {
         const completion = await this.aiAssistantService.getStreamingResponse(
           validatedData.message,
           validatedData.reviewId,
-          validatedData.context || {}
+          validatedData.context || {},
+          userId
         );
 
         // 生成されたテキストをチャンクで送信
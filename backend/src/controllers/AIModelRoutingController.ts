@@ -0,0 +1,121 @@
+// backend/src/controllers/AIModelRoutingController.ts
+import { Request, Response } from "express";
+import { z } from "zod";
+import { AIModelRoutingService } from "../services/AIModelRoutingService";
+import { AIFeature, LLM_PROVIDER_NAMES } from "../constants/AIFeatures";
+
+const modelConfigSchema = z.object({
+  provider: z.enum(LLM_PROVIDER_NAMES),
+  model: z.string().min(1).max(255),
+  temperature: z.number().min(0).max(2),
+  max_tokens: z.number().int().positive().nullable().optional(),
+  timeout_ms: z.number().int().positive().nullable().optional(),
+});
+
+export class AIModelRoutingController {
+  private aiModelRoutingService: AIModelRoutingService;
+
+  constructor() {
+    this.aiModelRoutingService = new AIModelRoutingService();
+  }
+
+  /**
+   * 全機能のAIモデル設定を取得（管理者のみ）
+   */
+  getRoutes = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const routes = await this.aiModelRoutingService.getAllRoutes();
+      res.status(200).json({
+        success: true,
+        data: {
+          providers: LLM_PROVIDER_NAMES,
+          routes,
+        },
+      });
+    } catch (error) {
+      console.error("AIモデル設定取得エラー:", error);
+      res.status(500).json({
+        success: false,
+        message: "AIモデル設定の取得中にエラーが発生しました",
+      });
+    }
+  };
+
+  /**
+   * 機能のAIモデル設定を更新（管理者のみ）
+   */
+  updateRoute = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const featureKey = z.nativeEnum(AIFeature).parse(req.params.featureKey);
+
+      const updateSchema = modelConfigSchema.extend({
+        fallbacks: z
+          .array(
+            modelConfigSchema.extend({
+              temperature: z.number().min(0).max(2).optional(),
+            })
+          )
+          .max(3)
+          .optional(),
+        is_active: z.boolean().optional(),
+      });
+
+      const validatedData = updateSchema.parse(req.body);
+      const route = await this.aiModelRoutingService.upsertRoute(
+        featureKey,
+        validatedData,
+        req.user?.id
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "AIモデル設定を更新しました",
+        data: route,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: "バリデーションエラー",
+          errors: error.errors,
+        });
+        return;
+      }
+
+      console.error("AIモデル設定更新エラー:", error);
+      res.status(500).json({
+        success: false,
+        message: "AIモデル設定の更新中にエラーが発生しました",
+      });
+    }
+  };
+
+  /**
+   * 機能のAIモデル設定を削除してデフォルトに戻す（管理者のみ）
+   */
+  deleteRoute = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const featureKey = z.nativeEnum(AIFeature).parse(req.params.featureKey);
+      await this.aiModelRoutingService.deleteRoute(featureKey);
+
+      res.status(200).json({
+        success: true,
+        message: "AIモデル設定をデフォルトに戻しました",
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: "無効な機能キーです",
+        });
+        return;
+      }
+
+      console.error("AIモデル設定削除エラー:", error);
+      res.status(500).json({
+        success: false,
+        message: "AIモデル設定の削除中にエラーが発生しました",
+      });
+    }
+  };
+}
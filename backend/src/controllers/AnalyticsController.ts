@@ -1,12 +1,17 @@
 // backend/src/controllers/AnalyticsController.ts
 import { Request, Response } from "express";
+import { z } from "zod";
 import { AnalyticsService } from "../services/AnalyticsService";
+import { LLMUsageService } from "../services/LLMUsageService";
+import { AIFeature } from "../constants/AIFeatures";
 
 export class AnalyticsController {
   private analyticsService: AnalyticsService;
+  private llmUsageService: LLMUsageService;
 
   constructor() {
     this.analyticsService = new AnalyticsService();
+    this.llmUsageService = new LLMUsageService();
   }
 
   /**
@@ -204,4 +209,57 @@ export class AnalyticsController {
       });
     }
   };
+
+  /**
+   * LLMのトークン数・推定コストのレポートを取得
+   * groupBy: user（新入社員別）/ group / project / month / feature
+   */
+  getLLMCostReport = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const querySchema = z.object({
+        groupBy: z
+          .enum(["user", "group", "project", "month", "feature"])
+          .default("month"),
+        startDate: z.coerce.date().optional(),
+        endDate: z.coerce.date().optional(),
+        featureKey: z.nativeEnum(AIFeature).optional(),
+      });
+
+      const query = querySchema.parse(req.query);
+
+      // 終了日はその日の終わりまでを含める
+      const endDate = query.endDate ? new Date(query.endDate) : undefined;
+      endDate?.setHours(23, 59, 59, 999);
+
+      const report = await this.llmUsageService.getCostReport(query.groupBy, {
+        startDate: query.startDate,
+        endDate,
+        featureKey: query.featureKey,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          groupBy: query.groupBy,
+          currency: "USD",
+          ...report,
+        },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: "バリデーションエラー",
+          errors: error.errors,
+        });
+        return;
+      }
+
+      console.error("LLMコストレポート取得エラー:", error);
+      res.status(500).json({
+        success: false,
+        message: "LLMコストレポートの取得中にエラーが発生しました",
+      });
+    }
+  };
 }
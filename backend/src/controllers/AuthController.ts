@@ -1,7 +1,12 @@
 import { Request, Response } from "express";
 import { z } from "zod";
-import { AuthService } from "../services/AuthService";
+import {
+  AuthService,
+  ClientInfo,
+  InvalidResetTokenError,
+} from "../services/AuthService";
 import { UserService } from "../services/UserService";
+import { AuthSecurityService } from "../services/AuthSecurityService";
 
 declare global {
   namespace Express {
@@ -35,7 +40,10 @@ export class AuthController {
       const validatedData = registerSchema.parse(req.body);
 
       // ユーザー登録処理
-      const result = await this.authService.register(validatedData);
+      const result = await this.authService.register(
+        validatedData,
+        this.getClientInfo(req)
+      );
 
       res.status(201).json({
         success: true,
@@ -79,7 +87,8 @@ export class AuthController {
       // ログイン処理
       const result = await this.authService.login(
         validatedData.email,
-        validatedData.password
+        validatedData.password,
+        this.getClientInfo(req)
       );
 
       res.status(200).json({
@@ -179,4 +188,240 @@ export class AuthController {
       });
     }
   };
+
+  /**
+   * パスワード再設定用のリンクをメールで送信
+   * 登録されていないメールアドレスでも同じ応答を返す
+   */
+  requestPasswordReset = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const requestSchema = z.object({
+        email: z.string().email("有効なメールアドレスを入力してください"),
+      });
+
+      const validatedData = requestSchema.parse(req.body);
+
+      // 登録の有無にかかわらず同じ応答をすぐに返す（送信はバックグラウンドで行う）
+      this.authService.requestPasswordReset(
+        validatedData.email,
+        this.getClientInfo(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        message:
+          "登録されているメールアドレスの場合、パスワード再設定用のリンクを送信しました",
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: "バリデーションエラー",
+          errors: error.errors,
+        });
+      } else {
+        console.error("パスワード再設定リクエストエラー:", error);
+        res.status(500).json({
+          success: false,
+          message: "パスワード再設定の受付中にエラーが発生しました",
+        });
+      }
+    }
+  };
+
+  /**
+   * パスワード再設定用のトークンで新しいパスワードを設定
+   */
+  resetPassword = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const resetSchema = z.object({
+        token: z.string().min(1, "トークンは必須です"),
+        new_password: z.string().min(6, "新しいパスワードは6文字以上必要です"),
+      });
+
+      const validatedData = resetSchema.parse(req.body);
+
+      await this.authService.resetPassword(
+        validatedData.token,
+        validatedData.new_password
+      );
+
+      res.status(200).json({
+        success: true,
+        message:
+          "パスワードを再設定しました。新しいパスワードでログインしてください",
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: "バリデーションエラー",
+          errors: error.errors,
+        });
+      } else if (error instanceof InvalidResetTokenError) {
+        res.status(400).json({
+          success: false,
+          message: error.message,
+        });
+      } else {
+        console.error("パスワード再設定エラー:", error);
+        res.status(500).json({
+          success: false,
+          message: "パスワードの再設定中にエラーが発生しました",
+        });
+      }
+    }
+  };
+
+  /**
+   * ログイン中の端末（有効なセッション）の一覧
+   */
+  getSessions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: "認証されていません",
+        });
+        return;
+      }
+
+      const sessions = await this.authService.getActiveSessions(
+        req.user.id,
+        req.sessionToken
+      );
+
+      res.status(200).json({
+        success: true,
+        data: sessions,
+      });
+    } catch (error) {
+      console.error("セッション一覧取得エラー:", error);
+      res.status(500).json({
+        success: false,
+        message: "ログイン中の端末の取得中にエラーが発生しました",
+      });
+    }
+  };
+
+  /**
+   * 指定した端末のセッションを無効化
+   */
+  revokeSession = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: "認証されていません",
+        });
+        return;
+      }
+
+      const sessionId = parseInt(req.params.id);
+      if (isNaN(sessionId)) {
+        res.status(400).json({
+          success: false,
+          message: "無効なセッションIDです",
+        });
+        return;
+      }
+
+      const revoked = await this.authService.revokeSession(
+        req.user.id,
+        sessionId
+      );
+      if (!revoked) {
+        res.status(404).json({
+          success: false,
+          message: "セッションが見つかりません",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: "端末をログアウトしました",
+      });
+    } catch (error) {
+      console.error("セッション無効化エラー:", error);
+      res.status(500).json({
+        success: false,
+        message: "端末のログアウト中にエラーが発生しました",
+      });
+    }
+  };
+
+  /**
+   * 現在の端末以外のセッションをすべて無効化
+   */
+  revokeOtherSessions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.user || !req.sessionToken) {
+        res.status(401).json({
+          success: false,
+          message: "認証されていません",
+        });
+        return;
+      }
+
+      const count = await this.authService.revokeOtherSessions(
+        req.user.id,
+        req.sessionToken
+      );
+
+      res.status(200).json({
+        success: true,
+        message: `${count}台の端末をログアウトしました`,
+        data: { count },
+      });
+    } catch (error) {
+      console.error("セッション一括無効化エラー:", error);
+      res.status(500).json({
+        success: false,
+        message: "端末のログアウト中にエラーが発生しました",
+      });
+    }
+  };
+
+  /**
+   * 本人のログイン履歴
+   */
+  getLoginHistory = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: "認証されていません",
+        });
+        return;
+      }
+
+      const attempts = await this.authService.getLoginHistory(req.user.id);
+
+      res.status(200).json({
+        success: true,
+        data: attempts.map((attempt) => ({
+          id: attempt.id,
+          succeeded: attempt.succeeded,
+          failure_reason: attempt.failure_reason,
+          ip_address: attempt.ip_address,
+          device: AuthSecurityService.describeDevice(attempt.user_agent),
+          created_at: attempt.created_at,
+        })),
+      });
+    } catch (error) {
+      console.error("ログイン履歴取得エラー:", error);
+      res.status(500).json({
+        success: false,
+        message: "ログイン履歴の取得中にエラーが発生しました",
+      });
+    }
+  };
+
+  private getClientInfo(req: Request): ClientInfo {
+    return {
+      ipAddress: req.ip || null,
+      userAgent: req.headers["user-agent"] || null,
+    };
+  }
 }
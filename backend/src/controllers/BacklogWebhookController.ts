@@ -7,12 +7,17 @@ import { MentionDetectionService } from "../services/MentionDetectionService";
 import { AutomaticReviewCreator } from "../services/AutomaticReviewCreator";
 import { AppDataSource } from "../index";
 import { Review } from "../models/Review";
+import { WebhookVerificationService } from "../services/WebhookVerificationService";
+import { WebhookDeliveryService } from "../services/WebhookDeliveryService";
+import { WebhookSource } from "../models/WebhookDelivery";
 export class BacklogWebhookController {
   private pullRequestMonitoringService: PullRequestMonitoringService;
   private webhookUrlService: WebhookUrlService;
   private backlogService: BacklogService;
   private mentionDetectionService: MentionDetectionService;
   private automaticReviewCreator: AutomaticReviewCreator;
+  private webhookVerificationService: WebhookVerificationService;
+  private webhookDeliveryService: WebhookDeliveryService;
   private reviewRepository = AppDataSource.getRepository(Review);
 
   constructor() {
@@ -21,6 +26,8 @@ export class BacklogWebhookController {
     this.backlogService = new BacklogService();
     this.mentionDetectionService = new MentionDetectionService();
     this.automaticReviewCreator = new AutomaticReviewCreator();
+    this.webhookVerificationService = new WebhookVerificationService();
+    this.webhookDeliveryService = new WebhookDeliveryService();
   }
 
   /**
@@ -31,6 +38,16 @@ export class BacklogWebhookController {
       console.log("Backlogからのwebhookを受信しました:", req.body.type);
       const event = req.body;
 
+      // Webhookの検証（共有トークン・配信時刻・配信IDの重複）
+      const rejection = await this.verifyWebhookRequest(req);
+      if (rejection) {
+        res.status(rejection.status).json({
+          success: false,
+          message: rejection.message,
+        });
+        return;
+      }
+
       // プルリクエストコメントイベントかチェック
       if (event.type === "pull_request_comment") {
         const content = event.content;
@@ -104,6 +121,7 @@ export class BacklogWebhookController {
             `PR #${pullRequestId} の詳細取得中にエラーが発生しました:`,
             prError
           );
+          await this.releaseDelivery(event);
           res.status(500).json({
             success: false,
             message: "PRの詳細取得中にエラーが発生しました",
@@ -186,6 +204,7 @@ export class BacklogWebhookController {
               `PR #${pullRequestId} の詳細取得中にエラーが発生しました:`,
               prError
             );
+            await this.releaseDelivery(event);
             res.status(500).json({
               success: false,
               message: "PRの詳細取得中にエラーが発生しました",
@@ -203,6 +222,7 @@ export class BacklogWebhookController {
       });
     } catch (error) {
       console.error("Webhook処理エラー:", error);
+      await this.releaseDelivery(req.body);
       res.status(500).json({
         success: false,
         message: "Webhook処理中にエラーが発生しました",
@@ -211,6 +231,71 @@ export class BacklogWebhookController {
     }
   };
 
+  /**
+   * Webhookリクエストを検証し、拒否する場合はステータスとメッセージを返す
+   * Backlogは署名を送信できないため、Webhook URLに付与した共有トークン（?token=）で送信元を確認する
+   */
+  private verifyWebhookRequest = async (
+    req: Request
+  ): Promise<{ status: number; message: string } | null> => {
+    const secret = process.env.BACKLOG_WEBHOOK_SECRET;
+    if (!secret) {
+      console.warn(
+        "BACKLOG_WEBHOOK_SECRET が設定されていないため、Webhookを受け付けません"
+      );
+      return {
+        status: 401,
+        message: "Webhookシークレットが設定されていません",
+      };
+    }
+
+    const token = typeof req.query.token === "string" ? req.query.token : "";
+    if (!this.webhookVerificationService.verifySharedToken(token, secret)) {
+      console.warn("Backlog Webhookのトークン検証に失敗しました");
+      return { status: 401, message: "トークンの検証に失敗しました" };
+    }
+
+    const event = req.body;
+    if (this.webhookVerificationService.isStale(event.created)) {
+      console.warn(
+        `古いBacklog Webhook配信を拒否しました: ${event.id} (イベント時刻: ${event.created})`
+      );
+      return { status: 400, message: "Webhookの配信期限を過ぎています" };
+    }
+
+    if (!event.id) {
+      console.warn("Backlog Webhookに配信IDがありません");
+      return { status: 400, message: "配信IDがありません" };
+    }
+
+    const isNewDelivery = await this.webhookDeliveryService.registerDelivery(
+      WebhookSource.BACKLOG,
+      String(event.id),
+      event.type !== undefined ? String(event.type) : undefined
+    );
+    if (!isNewDelivery) {
+      console.warn(`処理済みのBacklog Webhook配信を拒否しました: ${event.id}`);
+      return {
+        status: 409,
+        message: "このWebhook配信は既に処理されています",
+      };
+    }
+
+    return null;
+  };
+
+  /**
+   * 処理に失敗した配信の記録を取り消し、再送時に改めて処理できるようにする
+   */
+  private releaseDelivery = async (event: any): Promise<void> => {
+    if (event?.id) {
+      await this.webhookDeliveryService.releaseDelivery(
+        WebhookSource.BACKLOG,
+        String(event.id)
+      );
+    }
+  };
+
   /**
    * 既存のプルリクエストをチェック（手動または起動時）
    */
@@ -254,7 +339,7 @@ export class BacklogWebhookController {
         data: {
           webhook_url: webhookUrl,
           setup_instructions:
-            "Backlogのプロジェクト設定 > Webhooks で上記URLを登録してください。",
+            "Backlogのプロジェクト設定 > Webhooks で、上記URLの末尾に ?token=（BACKLOG_WEBHOOK_SECRET の値）を付けて登録してください。",
           triggers: [
             "プルリクエスト作成",
             "プルリクエスト更新",
@@ -143,7 +143,10 @@ export class ChatController {
       if (!canUseChat.canUse) {
         res.status(403).json({
           success: false,
-          message: "本日の利用制限に達しました",
+          message:
+            canUseChat.reason === "budget_exceeded"
+              ? "利用予算の上限に達しました"
+              : "本日の利用制限に達しました",
           data: canUseChat,
         });
         return;
@@ -178,7 +181,8 @@ export class ChatController {
       const aiResponse = await this.aiAssistantService.getResponse(
         validatedData.message,
         validatedData.reviewId || 0,
-        validatedData.context || {}
+        validatedData.context || {},
+        userId
       );
 
       // AIの応答を保存
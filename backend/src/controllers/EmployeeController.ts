@@ -2,14 +2,17 @@
 import { Request, Response } from "express";
 import { z } from "zod";
 import { UserService } from "../services/UserService";
+import { RecurringMistakeService } from "../services/RecurringMistakeService";
 import { In, Like } from "typeorm";
 import { UserRole } from "../models/User";
 
 export class EmployeeController {
   private userService: UserService;
+  private recurringMistakeService: RecurringMistakeService;
 
   constructor() {
     this.userService = new UserService();
+    this.recurringMistakeService = new RecurringMistakeService();
   }
 
   /**
@@ -75,6 +78,38 @@ export class EmployeeController {
     }
   };
 
+  /**
+   * 社員が繰り返し指摘されている問題を取得
+   */
+  getRecurringMistakes = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const employeeId = parseInt(req.params.id);
+      const employee = await this.userService.findById(employeeId);
+
+      if (!employee) {
+        res.status(404).json({
+          success: false,
+          message: "社員が見つかりません",
+        });
+        return;
+      }
+
+      const recurringMistakes =
+        await this.recurringMistakeService.getRecurringMistakes(employeeId);
+
+      res.status(200).json({
+        success: true,
+        data: recurringMistakes,
+      });
+    } catch (error) {
+      console.error("繰り返し指摘取得エラー:", error);
+      res.status(500).json({
+        success: false,
+        message: "繰り返し指摘の取得中にエラーが発生しました",
+      });
+    }
+  };
+
   /**
    * 社員情報を更新
    */
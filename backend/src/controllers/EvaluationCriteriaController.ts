@@ -2,12 +2,15 @@
 import { Request, Response } from "express";
 import { z } from "zod";
 import { EvaluationCriteriaService } from "../services/EvaluationCriteriaService";
+import { CriteriaVersionService } from "../services/CriteriaVersionService";
 
 export class EvaluationCriteriaController {
   private evaluationCriteriaService: EvaluationCriteriaService;
+  private criteriaVersionService: CriteriaVersionService;
 
   constructor() {
     this.evaluationCriteriaService = EvaluationCriteriaService.getInstance();
+    this.criteriaVersionService = new CriteriaVersionService();
   }
 
   /**
@@ -116,13 +119,16 @@ export class EvaluationCriteriaController {
         weight: z.number().min(0).default(1.0),
         is_active: z.boolean().default(true),
         display_order: z.number().default(0),
+        change_note: z.string().max(500).optional(),
       });
 
-      const validatedData = criteriaSchema.parse(req.body);
+      const { change_note, ...validatedData } = criteriaSchema.parse(req.body);
 
       // 評価基準の作成
       const criteria = await this.evaluationCriteriaService.createCriteria(
-        validatedData
+        validatedData,
+        req.user?.id,
+        change_note
       );
 
       res.status(201).json({
@@ -177,13 +183,19 @@ export class EvaluationCriteriaController {
         weight: z.number().min(0).optional(),
         is_active: z.boolean().optional(),
         display_order: z.number().optional(),
+        change_note: z.string().max(500).optional(),
       });
 
-      const validatedData = updateSchema.parse(req.body);
+      const { change_note, ...validatedData } = updateSchema.parse(req.body);
 
       // 評価基準の更新
       const updatedCriteria =
-        await this.evaluationCriteriaService.updateCriteria(key, validatedData);
+        await this.evaluationCriteriaService.updateCriteria(
+          key,
+          validatedData,
+          req.user?.id,
+          change_note
+        );
 
       if (!updatedCriteria) {
         res.status(404).json({
@@ -238,7 +250,8 @@ export class EvaluationCriteriaController {
 
       // 評価基準の無効化
       const result = await this.evaluationCriteriaService.deactivateCriteria(
-        key
+        key,
+        req.user?.id
       );
 
       if (!result) {
@@ -290,7 +303,8 @@ export class EvaluationCriteriaController {
 
       // 一括更新
       const result = await this.evaluationCriteriaService.bulkUpdateCriteria(
-        validatedData
+        validatedData,
+        req.user?.id
       );
 
       res.status(200).json({
@@ -349,7 +363,8 @@ export class EvaluationCriteriaController {
           validatedData.academic_year,
           validatedData.name,
           validatedData.is_current,
-          validatedData.description
+          validatedData.description,
+          req.user?.id
         );
 
       res.status(200).json({
@@ -421,6 +436,7 @@ export class EvaluationCriteriaController {
             is_active: z.boolean(),
           })
         ),
+        change_note: z.string().max(500).optional(),
       });
 
       const validatedData = updateSchema.parse(req.body);
@@ -429,7 +445,9 @@ export class EvaluationCriteriaController {
       const result =
         await this.evaluationCriteriaService.updateYearlyCriteriaSettings(
           validatedData.settings,
-          validatedData.academic_year
+          validatedData.academic_year,
+          req.user?.id,
+          validatedData.change_note
         );
 
       res.status(200).json({
@@ -491,7 +509,8 @@ export class EvaluationCriteriaController {
         await this.evaluationCriteriaService.generateCriteriaWithAI(
           validatedData.category,
           validatedData.referenceUrls,
-          validatedData.count
+          validatedData.count,
+          req.user?.id
         );
 
       res.status(200).json({
@@ -547,7 +566,8 @@ export class EvaluationCriteriaController {
       // AI改善
       const improvedCriteria =
         await this.evaluationCriteriaService.improveCriteriaDescriptionWithAI(
-          criteriaId
+          criteriaId,
+          req.user?.id
         );
 
       if (!improvedCriteria) {
@@ -571,4 +591,258 @@ export class EvaluationCriteriaController {
       });
     }
   };
+
+  /**
+   * 年度の評価基準セットのバージョン一覧を取得
+   */
+  getCriteriaVersions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const year = parseInt(req.query.year as string);
+
+      if (isNaN(year)) {
+        res.status(400).json({
+          success: false,
+          message: "有効な年度を指定してください",
+        });
+        return;
+      }
+
+      const versions = await this.criteriaVersionService.getVersions(year);
+
+      res.status(200).json({
+        success: true,
+        data: versions,
+      });
+    } catch (error) {
+      console.error("評価基準バージョン一覧取得エラー:", error);
+      res.status(500).json({
+        success: false,
+        message: "評価基準のバージョン一覧の取得中にエラーが発生しました",
+      });
+    }
+  };
+
+  /**
+   * 評価基準セットのバージョンを取得
+   */
+  getCriteriaVersion = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const versionId = parseInt(req.params.id);
+
+      if (isNaN(versionId)) {
+        res.status(400).json({
+          success: false,
+          message: "有効なバージョンIDを指定してください",
+        });
+        return;
+      }
+
+      const version = await this.criteriaVersionService.getVersion(versionId);
+
+      if (!version) {
+        res.status(404).json({
+          success: false,
+          message: "指定されたバージョンが見つかりません",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: version,
+      });
+    } catch (error) {
+      console.error("評価基準バージョン取得エラー:", error);
+      res.status(500).json({
+        success: false,
+        message: "評価基準のバージョンの取得中にエラーが発生しました",
+      });
+    }
+  };
+
+  /**
+   * 2つのバージョンの差分を取得
+   */
+  diffCriteriaVersions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const diffSchema = z.object({
+        from: z.coerce.number().int().positive(),
+        to: z.coerce.number().int().positive(),
+      });
+
+      const { from, to } = diffSchema.parse(req.query);
+      const result = await this.criteriaVersionService.diffVersions(from, to);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      this.handleVersionError(res, error, "評価基準バージョンの差分取得");
+    }
+  };
+
+  /**
+   * 公開済みのバージョンにロールバック
+   */
+  rollbackCriteriaVersion = async (
+    req: Request,
+    res: Response
+  ): Promise<void> => {
+    try {
+      const versionId = parseInt(req.params.id);
+      const { change_note } = z
+        .object({ change_note: z.string().max(500).optional() })
+        .parse(req.body);
+
+      const version = await this.criteriaVersionService.rollbackToVersion(
+        versionId,
+        req.user?.id,
+        change_note
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "評価基準セットをロールバックしました",
+        data: version,
+      });
+    } catch (error) {
+      this.handleVersionError(res, error, "評価基準のロールバック");
+    }
+  };
+
+  /**
+   * 年度の評価基準セットを別の年度の下書きとして複製
+   */
+  cloneCriteriaVersion = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const cloneSchema = z.object({
+        source_year: z.number().int().min(2000).max(2100),
+        target_year: z.number().int().min(2000).max(2100),
+        change_note: z.string().max(500).optional(),
+      });
+
+      const validatedData = cloneSchema.parse(req.body);
+
+      const draft = await this.criteriaVersionService.cloneYearAsDraft(
+        validatedData.source_year,
+        validatedData.target_year,
+        req.user?.id,
+        validatedData.change_note
+      );
+
+      res.status(201).json({
+        success: true,
+        message: `${validatedData.source_year}年度の評価基準セットを${validatedData.target_year}年度の下書きとして複製しました`,
+        data: draft,
+      });
+    } catch (error) {
+      this.handleVersionError(res, error, "評価基準セットの複製");
+    }
+  };
+
+  /**
+   * 下書きの重み・有効状態を更新
+   */
+  updateCriteriaDraft = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const versionId = parseInt(req.params.id);
+      const draftSchema = z.object({
+        criteria: z.array(
+          z.object({
+            criteria_id: z.number(),
+            weight: z.number().min(0),
+            is_active: z.boolean(),
+          })
+        ),
+        change_note: z.string().max(500).optional(),
+      });
+
+      const validatedData = draftSchema.parse(req.body);
+
+      const draft = await this.criteriaVersionService.updateDraft(
+        versionId,
+        validatedData.criteria,
+        validatedData.change_note
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "下書きを更新しました",
+        data: draft,
+      });
+    } catch (error) {
+      this.handleVersionError(res, error, "下書きの更新");
+    }
+  };
+
+  /**
+   * 下書きを公開
+   */
+  publishCriteriaDraft = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const versionId = parseInt(req.params.id);
+      const { change_note } = z
+        .object({ change_note: z.string().max(500).optional() })
+        .parse(req.body);
+
+      const version = await this.criteriaVersionService.publishDraft(
+        versionId,
+        req.user?.id,
+        change_note
+      );
+
+      res.status(200).json({
+        success: true,
+        message: `${version.academic_year}年度の評価基準セットを公開しました`,
+        data: version,
+      });
+    } catch (error) {
+      this.handleVersionError(res, error, "下書きの公開");
+    }
+  };
+
+  /**
+   * 下書きを破棄
+   */
+  discardCriteriaDraft = async (req: Request, res: Response): Promise<void> => {
+    try {
+      await this.criteriaVersionService.discardDraft(parseInt(req.params.id));
+
+      res.status(200).json({
+        success: true,
+        message: "下書きを破棄しました",
+      });
+    } catch (error) {
+      this.handleVersionError(res, error, "下書きの破棄");
+    }
+  };
+
+  /**
+   * バージョン操作のエラーレスポンス
+   */
+  private handleVersionError(
+    res: Response,
+    error: unknown,
+    operation: string
+  ): void {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        message: "入力データが不正です",
+        errors: error.errors,
+      });
+    } else if (error instanceof Error) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    } else {
+      console.error(`${operation}エラー:`, error);
+      res.status(500).json({
+        success: false,
+        message: `${operation}中にエラーが発生しました`,
+      });
+    }
+  }
 }
@@ -4,17 +4,24 @@ import { FeedbackService } from "../services/FeedbackService";
 import { SubmissionService } from "../services/SubmissionService";
 import { FeedbackCategory } from "../models/Feedback";
 import { ReviewService } from "../services/ReviewService";
-import { ReviewStatus } from "../models/Review";
+import { Review, ReviewStatus } from "../models/Review";
+import { NotificationService } from "../services/NotificationService";
+import { NotificationType } from "../models/Notification";
+import { UserService } from "../services/UserService";
 
 export class FeedbackController {
   private feedbackService: FeedbackService;
   private submissionService: SubmissionService;
   private reviewService: ReviewService;
+  private notificationService: NotificationService;
+  private userService: UserService;
 
   constructor() {
     this.feedbackService = new FeedbackService();
     this.submissionService = new SubmissionService();
     this.reviewService = new ReviewService();
+    this.notificationService = new NotificationService();
+    this.userService = new UserService();
   }
 
   /**
@@ -263,6 +270,14 @@ export class FeedbackController {
         );
       }
 
+      // 提出者・グループにチェック状態の変更を通知
+      this.notifyCheckStatusChanged(
+        review,
+        userId,
+        checklistRate,
+        isAllChecked
+      );
+
       res.status(200).json({
         success: true,
         message: "フィードバックのチェック状態を更新しました",
@@ -395,6 +410,14 @@ export class FeedbackController {
         );
       }
 
+      // 提出者・グループにチェック状態の変更を通知
+      this.notifyCheckStatusChanged(
+        review,
+        userId,
+        checklistRate,
+        isAllChecked
+      );
+
       res.status(200).json({
         success: true,
         message: `${feedback_ids.length}件のフィードバックのチェック状態を更新しました`,
@@ -504,4 +527,40 @@ export class FeedbackController {
       }
     }
   };
+
+  /**
+   * フィードバックのチェック状態の変更を通知（バックグラウンド実行）
+   * 本人以外（管理者）が変更した場合は本人に、チェックが完了した場合や本人以外が変更した場合はグループに通知する
+   */
+  private notifyCheckStatusChanged(
+    review: Review,
+    actorId: number,
+    checklistRate: { total: number; checked: number },
+    isAllChecked: boolean
+  ): void {
+    const changedByOther = review.user_id !== actorId;
+    if (!changedByOther && !isAllChecked) {
+      return;
+    }
+
+    (async () => {
+      const actor = changedByOther
+        ? await this.userService.findById(actorId)
+        : null;
+      await this.notificationService.notify(
+        review.user_id,
+        {
+          type: NotificationType.FEEDBACK_RECEIVED,
+          reviewId: review.id,
+          reviewTitle: review.title,
+          checkedCount: checklistRate.checked,
+          totalCount: checklistRate.total,
+          actorName: actor?.name || null,
+        },
+        { personal: changedByOther }
+      );
+    })().catch((error) => {
+      console.error("フィードバックのチェック状態の通知に失敗しました:", error);
+    });
+  }
 }
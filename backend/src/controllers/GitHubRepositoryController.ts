@@ -3,6 +3,7 @@ import { Request, Response } from "express";
 import { z } from "zod";
 import { GitHubRepositoryService } from "../services/GitHubRepositoryService";
 import { GitHubService } from "../services/GitHubService";
+import { GitHubCheckGatingPolicy } from "../models/GitHubRepository";
 
 export class GitHubRepositoryController {
   private githubRepositoryService: GitHubRepositoryService;
@@ -101,6 +102,9 @@ export class GitHubRepositoryController {
         webhook_secret: z.string().optional(),
         is_active: z.boolean().optional(),
         allow_auto_review: z.boolean().optional(),
+        review_on_push: z.boolean().optional(),
+        checks_enabled: z.boolean().optional(),
+        check_gating_policy: z.nativeEnum(GitHubCheckGatingPolicy).optional(),
       });
 
       const validatedData = repositorySchema.parse(req.body);
@@ -162,6 +166,9 @@ export class GitHubRepositoryController {
         webhook_secret: z.string().optional(),
         is_active: z.boolean().optional(),
         allow_auto_review: z.boolean().optional(),
+        review_on_push: z.boolean().optional(),
+        checks_enabled: z.boolean().optional(),
+        check_gating_policy: z.nativeEnum(GitHubCheckGatingPolicy).optional(),
       });
 
       const validatedData = updateSchema.parse(req.body);
@@ -4,11 +4,21 @@ import { AppDataSource } from "../index";
 import { GitHubRepository } from "../models/GitHubRepository";
 import { GitHubPullRequestTracker } from "../models/GitHubPullRequestTracker";
 import { MentionDetectionService } from "../services/MentionDetectionService";
-import { GitHubPullRequestMonitoringService } from "../services/GitHubPullRequestMonitoringService";
+import { WebhookVerificationService } from "../services/WebhookVerificationService";
+import { WebhookDeliveryService } from "../services/WebhookDeliveryService";
+import { WebhookSource } from "../models/WebhookDelivery";
+import { GitHubRepositoryService } from "../services/GitHubRepositoryService";
+import {
+  GitHubPullRequestMonitoringService,
+  githubPushReviewScheduler,
+} from "../services/GitHubPullRequestMonitoringService";
 
 export class GitHubWebhookController {
   private githubService: GitHubService;
   private mentionDetectionService: MentionDetectionService;
+  private webhookVerificationService: WebhookVerificationService;
+  private webhookDeliveryService: WebhookDeliveryService;
+  private githubRepositoryService: GitHubRepositoryService;
   private githubRepositoryRepository =
     AppDataSource.getRepository(GitHubRepository);
   private githubPullRequestTrackerRepository = AppDataSource.getRepository(
@@ -18,6 +28,9 @@ export class GitHubWebhookController {
   constructor() {
     this.githubService = new GitHubService();
     this.mentionDetectionService = new MentionDetectionService();
+    this.webhookVerificationService = new WebhookVerificationService();
+    this.webhookDeliveryService = new WebhookDeliveryService();
+    this.githubRepositoryService = new GitHubRepositoryService();
   }
 
   /**
@@ -27,7 +40,8 @@ export class GitHubWebhookController {
     try {
       // Event typeを取得
       const eventType = req.headers["x-github-event"] as string;
-      console.log(`GitHub Webhook受信: ${eventType}`);
+      const deliveryId = req.headers["x-github-delivery"] as string;
+      console.log(`GitHub Webhook受信: ${eventType} (配信ID: ${deliveryId})`);
 
       // Webhookの整合性チェック
       const verified = await this.verifyWebhookSignature(req);
@@ -42,22 +56,74 @@ export class GitHubWebhookController {
 
       const payload = req.body;
 
+      // 古いイベントの配信はリプレイとみなして拒否
+      const eventTime = this.webhookVerificationService.getGitHubEventTime(
+        eventType,
+        payload
+      );
+      if (this.webhookVerificationService.isStale(eventTime)) {
+        console.warn(
+          `古いWebhook配信を拒否しました: ${deliveryId} (イベント時刻: ${eventTime})`
+        );
+        res.status(400).json({
+          success: false,
+          message: "Webhookの配信期限を過ぎています",
+        });
+        return;
+      }
+
+      // 同じ配信IDの再送・リプレイを拒否
+      if (!deliveryId) {
+        console.warn("x-github-delivery ヘッダーがありません");
+        res.status(400).json({
+          success: false,
+          message: "配信IDがありません",
+        });
+        return;
+      }
+
+      const isNewDelivery = await this.webhookDeliveryService.registerDelivery(
+        WebhookSource.GITHUB,
+        deliveryId,
+        eventType
+      );
+      if (!isNewDelivery) {
+        console.warn(`処理済みのWebhook配信を拒否しました: ${deliveryId}`);
+        res.status(409).json({
+          success: false,
+          message: "このWebhook配信は既に処理されています",
+        });
+        return;
+      }
+
       // イベントタイプに応じた処理
-      switch (eventType) {
-        case "pull_request":
-          await this.processPullRequestEvent(payload);
-          break;
-        case "issue_comment":
-          if (payload.issue && payload.issue.pull_request) {
-            // PRへのコメントの場合
-            await this.processIssueCommentEvent(payload);
-          }
-          break;
-        case "pull_request_review_comment":
-          await this.processPRReviewCommentEvent(payload);
-          break;
-        default:
-          console.log(`サポートされていないイベントタイプ: ${eventType}`);
+      try {
+        switch (eventType) {
+          case "pull_request":
+            await this.processPullRequestEvent(payload);
+            break;
+          case "issue_comment":
+            if (payload.issue && payload.issue.pull_request) {
+              // PRへのコメントの場合
+              await this.processIssueCommentEvent(payload);
+            }
+            break;
+          case "pull_request_review_comment":
+            await this.processPRReviewCommentEvent(payload);
+            break;
+          case "push":
+            await this.processPushEvent(payload);
+            break;
+          default:
+            console.log(`サポートされていないイベントタイプ: ${eventType}`);
+        }
+      } catch (processError) {
+        // 処理に失敗した配信はGitHubからの再送で再処理できるようにする
+        await this.webhookDeliveryService.releaseDelivery(
+          WebhookSource.GITHUB,
+          deliveryId
+        );
+        throw processError;
       }
 
       res.status(200).json({
@@ -76,11 +142,17 @@ export class GitHubWebhookController {
 
   /**
    * Webhookの署名を検証
+   * 署名はGitHubが送信したバイト列に対して計算されるため、生のリクエストボディを使用する
    */
   private verifyWebhookSignature = async (req: Request): Promise<boolean> => {
-    const signature = req.headers["x-hub-signature"] as string;
+    const signature = req.headers["x-hub-signature-256"] as string;
     if (!signature) {
-      console.warn("x-hub-signature ヘッダーがありません");
+      console.warn("x-hub-signature-256 ヘッダーがありません");
+      return false;
+    }
+
+    if (!req.rawBody) {
+      console.warn("Webhookの生のリクエストボディを取得できませんでした");
       return false;
     }
 
@@ -107,9 +179,8 @@ export class GitHubWebhookController {
       }
 
       // 署名を検証
-      const rawBody = JSON.stringify(req.body);
       return this.githubService.verifyWebhookSignature(
-        rawBody,
+        req.rawBody,
         signature,
         repository.webhook_secret
       );
@@ -132,6 +203,11 @@ export class GitHubWebhookController {
       `PR #${prNumber} (${owner}/${repo}) ${action}イベントを処理します`
     );
 
+    // クローズされたPRは予約中の差分レビューを取り消す
+    if (action === "closed") {
+      githubPushReviewScheduler.cancel(owner, repo, prNumber);
+    }
+
     // PR作成/更新イベントだけ処理（closed/mergedは無視）
     if (
       action !== "opened" &&
@@ -162,6 +238,17 @@ export class GitHubWebhookController {
         return;
       }
 
+      // プッシュ時の差分レビューが有効な場合は、連続したプッシュをまとめてから再レビュー
+      if (action === "synchronize" && repositoryConfig.review_on_push) {
+        githubPushReviewScheduler.schedule(
+          owner,
+          repo,
+          prNumber,
+          pull_request.head.sha
+        );
+        return;
+      }
+
       // APIクライアントを初期化
       this.githubService.initializeWithToken(repositoryConfig.access_token);
 
@@ -207,6 +294,43 @@ export class GitHubWebhookController {
     }
   };
 
+  /**
+   * Pushイベントを処理
+   * デフォルトブランチへのプッシュでリポジトリのベクトルインデックスを更新する
+   */
+  private processPushEvent = async (payload: any): Promise<void> => {
+    const { ref, repository } = payload;
+    const owner = repository.owner.login || repository.owner.name;
+    const repo = repository.name;
+    const defaultBranch = repository.default_branch;
+
+    if (!defaultBranch || ref !== `refs/heads/${defaultBranch}`) {
+      console.log(
+        `デフォルトブランチ以外へのプッシュはスキップします: ${owner}/${repo} ${ref}`
+      );
+      return;
+    }
+
+    const repositoryConfig = await this.githubRepositoryRepository.findOne({
+      where: { owner, name: repo },
+    });
+
+    if (!repositoryConfig || !repositoryConfig.is_active) {
+      console.log(
+        `リポジトリ ${owner}/${repo} は登録されていないか、非アクティブです`
+      );
+      return;
+    }
+
+    console.log(
+      `${owner}/${repo} のデフォルトブランチ (${defaultBranch}) へのプッシュを検出しました。インデックスを更新します`
+    );
+    this.githubRepositoryService.triggerBackgroundVectorization(
+      repositoryConfig,
+      defaultBranch
+    );
+  };
+
   // processIssueCommentEvent メソッドを強化します
   private processIssueCommentEvent = async (payload: any): Promise<void> => {
     const { action, comment, issue, repository } = payload;
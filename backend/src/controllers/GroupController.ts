@@ -2,6 +2,7 @@
 import { Request, Response } from "express";
 import { UserGroupService } from "../services/UserGroupService";
 import { GroupMemberRole } from "../models/UserGroupMember";
+import { UserGroup } from "../models/UserGroup";
 import { z } from "zod";
 
 export class GroupController {
@@ -100,9 +101,17 @@ export class GroupController {
         return;
       }
 
+      if (!(await this.canAccessGroup(req, groupId))) {
+        res.status(403).json({
+          success: false,
+          message: "このグループにアクセスする権限がありません",
+        });
+        return;
+      }
+
       res.status(200).json({
         success: true,
-        data: group,
+        data: this.hideWebhook(group, req.user?.role === "admin"),
       });
     } catch (error) {
       res.status(500).json({
@@ -131,6 +140,16 @@ export class GroupController {
         name: z.string().min(1).optional(),
         description: z.string().optional(),
         is_active: z.boolean().optional(),
+        webhook_url: z
+          .string()
+          .url()
+          .regex(/^https:\/\//, "Webhook URLはhttpsで指定してください")
+          .nullable()
+          .optional(),
+        webhook_format: z.enum(["slack", "teams"]).optional(),
+        webhook_review_completed: z.boolean().optional(),
+        webhook_feedback_received: z.boolean().optional(),
+        webhook_level_changed: z.boolean().optional(),
       });
 
       const validatedData = groupSchema.parse(req.body);
@@ -378,6 +397,14 @@ export class GroupController {
         return;
       }
 
+      if (!(await this.canAccessGroup(req, groupId))) {
+        res.status(403).json({
+          success: false,
+          message: "このグループにアクセスする権限がありません",
+        });
+        return;
+      }
+
       const members = await this.groupService.getGroupMembers(groupId);
 
       res.status(200).json({
@@ -411,7 +438,9 @@ export class GroupController {
 
       res.status(200).json({
         success: true,
-        data: groups,
+        data: groups.map((group) =>
+          this.hideWebhook(group, req.user?.role === "admin")
+        ),
       });
     } catch (error) {
       res.status(500).json({
@@ -449,4 +478,31 @@ export class GroupController {
       });
     }
   };
+
+  /**
+   * グループの詳細・メンバーを参照できるのは管理者とそのグループのメンバーだけ
+   */
+  private async canAccessGroup(
+    req: Request,
+    groupId: number
+  ): Promise<boolean> {
+    if (!req.user) {
+      return false;
+    }
+    return (
+      req.user.role === "admin" ||
+      this.groupService.isUserInGroup(req.user.id, groupId)
+    );
+  }
+
+  /**
+   * Webhook URLは投稿用の秘密情報のため、管理者以外には設定有無だけを返す
+   */
+  private hideWebhook(group: UserGroup, isAdmin: boolean) {
+    if (isAdmin) {
+      return group;
+    }
+    const { webhook_url, ...rest } = group;
+    return { ...rest, webhook_url: null, has_webhook: !!webhook_url };
+  }
 }
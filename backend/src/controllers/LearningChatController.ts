@@ -177,7 +177,10 @@ export class LearningChatController {
       if (!canUseChat.canUse) {
         res.status(403).json({
           success: false,
-          message: "本日の利用制限に達しました",
+          message:
+            canUseChat.reason === "budget_exceeded"
+              ? "利用予算の上限に達しました"
+              : "本日の利用制限に達しました",
           data: canUseChat,
         });
         return;
@@ -206,7 +209,8 @@ export class LearningChatController {
       // 学習AIサービスから教育的な応答を取得
       const aiResponse = await this.learningAIService.getEducationalResponse(
         validatedData.message,
-        validatedData.chatMode
+        validatedData.chatMode,
+        userId
       );
 
       // AIの応答を保存
@@ -0,0 +1,172 @@
+// backend/src/controllers/NotificationController.ts
+import { Request, Response } from "express";
+import { z } from "zod";
+import { NotificationService } from "../services/NotificationService";
+
+export class NotificationController {
+  private notificationService: NotificationService;
+
+  constructor() {
+    this.notificationService = new NotificationService();
+  }
+
+  /**
+   * 受信箱の通知一覧を取得
+   */
+  getNotifications = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: "認証されていません",
+        });
+        return;
+      }
+
+      const querySchema = z.object({
+        unread: z.enum(["true", "false"]).optional(),
+        limit: z.coerce.number().int().min(1).max(100).optional(),
+        offset: z.coerce.number().int().min(0).optional(),
+      });
+      const query = querySchema.parse(req.query);
+
+      const result = await this.notificationService.getNotifications(userId, {
+        unreadOnly: query.unread === "true",
+        limit: query.limit,
+        offset: query.offset,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: "バリデーションエラー",
+          errors: error.errors,
+        });
+      } else {
+        console.error("通知一覧取得エラー:", error);
+        res.status(500).json({
+          success: false,
+          message: "通知の取得中にエラーが発生しました",
+        });
+      }
+    }
+  };
+
+  /**
+   * 未読の通知の件数を取得
+   */
+  getUnreadCount = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: "認証されていません",
+        });
+        return;
+      }
+
+      const count = await this.notificationService.getUnreadCount(userId);
+
+      res.status(200).json({
+        success: true,
+        data: { count },
+      });
+    } catch (error) {
+      console.error("未読件数取得エラー:", error);
+      res.status(500).json({
+        success: false,
+        message: "未読件数の取得中にエラーが発生しました",
+      });
+    }
+  };
+
+  /**
+   * 通知を既読にする
+   */
+  markAsRead = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.id;
+      const notificationId = parseInt(req.params.id);
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: "認証されていません",
+        });
+        return;
+      }
+
+      if (isNaN(notificationId)) {
+        res.status(400).json({
+          success: false,
+          message: "無効な通知IDです",
+        });
+        return;
+      }
+
+      const found = await this.notificationService.markAsRead(
+        userId,
+        notificationId
+      );
+
+      if (!found) {
+        res.status(404).json({
+          success: false,
+          message: "通知が見つかりません",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: "通知を既読にしました",
+      });
+    } catch (error) {
+      console.error("通知既読エラー:", error);
+      res.status(500).json({
+        success: false,
+        message: "通知の更新中にエラーが発生しました",
+      });
+    }
+  };
+
+  /**
+   * すべての通知を既読にする
+   */
+  markAllAsRead = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: "認証されていません",
+        });
+        return;
+      }
+
+      const updated = await this.notificationService.markAllAsRead(userId);
+
+      res.status(200).json({
+        success: true,
+        message: "すべての通知を既読にしました",
+        data: { updated },
+      });
+    } catch (error) {
+      console.error("通知一括既読エラー:", error);
+      res.status(500).json({
+        success: false,
+        message: "通知の更新中にエラーが発生しました",
+      });
+    }
+  };
+}
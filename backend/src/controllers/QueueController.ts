@@ -0,0 +1,109 @@
+// backend/src/controllers/QueueController.ts
+import { Request, Response } from "express";
+import { z } from "zod";
+import { ReviewQueueService } from "../services/ReviewQueueService";
+import { ReviewJobStatus } from "../models/ReviewJob";
+
+export class QueueController {
+  /**
+   * キューの状態を取得（ワーカーIDとエラー内容は管理者のみ）
+   */
+  getQueueStatus = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const status = await ReviewQueueService.getInstance().getQueueStatus(
+        req.user?.role === "admin"
+      );
+
+      res.status(200).json({
+        success: true,
+        data: status,
+      });
+    } catch (error) {
+      console.error("キュー状態取得エラー:", error);
+      res.status(500).json({
+        success: false,
+        message: "キュー状態の取得中にエラーが発生しました",
+      });
+    }
+  };
+
+  /**
+   * ジョブ一覧を取得（管理者のみ）
+   */
+  getJobs = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const querySchema = z.object({
+        status: z.nativeEnum(ReviewJobStatus).optional(),
+        submission_id: z.coerce.number().int().positive().optional(),
+        limit: z.coerce.number().int().min(1).max(200).optional(),
+      });
+
+      const query = querySchema.parse(req.query);
+      const jobs = await ReviewQueueService.getInstance().getJobs({
+        status: query.status,
+        submissionId: query.submission_id,
+        limit: query.limit,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: jobs,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: "バリデーションエラー",
+          errors: error.errors,
+        });
+        return;
+      }
+
+      console.error("ジョブ一覧取得エラー:", error);
+      res.status(500).json({
+        success: false,
+        message: "ジョブ一覧の取得中にエラーが発生しました",
+      });
+    }
+  };
+
+  /**
+   * デッドレターのジョブを再実行（管理者のみ）
+   */
+  retryJob = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const jobId = parseInt(req.params.id);
+      if (isNaN(jobId)) {
+        res.status(400).json({
+          success: false,
+          message: "無効なジョブIDです",
+        });
+        return;
+      }
+
+      const job = await ReviewQueueService.getInstance().retryDeadJob(jobId);
+      if (!job) {
+        res.status(404).json({
+          success: false,
+          message: "ジョブが見つかりません",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: "ジョブを再実行キューに戻しました",
+        data: job,
+      });
+    } catch (error) {
+      console.error("ジョブ再実行エラー:", error);
+      res.status(400).json({
+        success: false,
+        message:
+          error instanceof Error
+            ? error.message
+            : "ジョブの再実行中にエラーが発生しました",
+      });
+    }
+  };
+}
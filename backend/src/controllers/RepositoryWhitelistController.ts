@@ -19,7 +19,8 @@ export class RepositoryWhitelistController {
    */
   getWhitelist = async (req: Request, res: Response): Promise<void> => {
     try {
-      const whitelist = await this.whitelistService.getWhitelist();
+      const whitelist =
+        await this.whitelistService.getWhitelistWithIndexStatus();
 
       res.status(200).json({
         success: true,
@@ -205,6 +206,39 @@ export class RepositoryWhitelistController {
     }
   };
 
+  /**
+   * リポジトリのベクトルインデックスを更新
+   */
+  reindexRepository = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { projectKey, repositoryName } = req.params;
+
+      const started = await this.whitelistService.reindexRepository(
+        projectKey,
+        repositoryName
+      );
+
+      if (!started) {
+        res.status(404).json({
+          success: false,
+          message: "指定されたリポジトリはホワイトリストに登録されていません",
+        });
+        return;
+      }
+
+      res.status(202).json({
+        success: true,
+        message: "インデックスの更新を開始しました",
+      });
+    } catch (error) {
+      console.error("インデックス更新エラー:", error);
+      res.status(500).json({
+        success: false,
+        message: "インデックスの更新中にエラーが発生しました",
+      });
+    }
+  };
+
   /**
    * リポジトリのホワイトリスト状態を確認
    */
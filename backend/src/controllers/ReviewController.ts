@@ -3,14 +3,18 @@ import { Request, Response } from "express";
 import { z } from "zod";
 import { ReviewService } from "../services/ReviewService";
 import { ProjectService } from "../services/ProjectService"; // 新規追加
+import { SimilarReviewService } from "../services/SimilarReviewService";
+import { Review } from "../models/Review";
 
 export class ReviewController {
   private reviewService: ReviewService;
   private projectService: ProjectService;
+  private similarReviewService: SimilarReviewService;
 
   constructor() {
     this.reviewService = new ReviewService();
     this.projectService = new ProjectService();
+    this.similarReviewService = new SimilarReviewService();
   }
 
   /**
@@ -167,15 +171,7 @@ export class ReviewController {
       }
 
       // アクセス権限チェック
-      // 管理者 OR 自分のレビュー OR 自分が所属するプロジェクトのレビュー
-      const hasAccess =
-        isAdmin ||
-        review.user_id === userId ||
-        (review.project_id &&
-          (await this.reviewService.isUserProjectMember(
-            review.project_id,
-            userId
-          )));
+      const hasAccess = await this.canAccessReview(review, userId, isAdmin);
 
       if (!hasAccess) {
         res.status(403).json({
@@ -197,4 +193,94 @@ export class ReviewController {
       });
     }
   };
+
+  /**
+   * レビューに類似する過去のレビューを取得
+   * - scope=project: 同じプロジェクトのレビューから検索
+   * - scope=organization: 閲覧できるすべてのレビューから検索
+   */
+  getSimilarReviews = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const reviewId = parseInt(req.params.id);
+      const userId = req.user?.id;
+      const isAdmin = req.user?.role === "admin";
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: "認証されていません",
+        });
+        return;
+      }
+
+      const querySchema = z.object({
+        scope: z.enum(["project", "organization"]).default("project"),
+        limit: z.coerce.number().int().min(1).max(20).default(5),
+      });
+      const { scope, limit } = querySchema.parse(req.query);
+
+      const review = await this.reviewService.getReviewById(reviewId);
+      if (!review) {
+        res.status(404).json({
+          success: false,
+          message: "レビューが見つかりません",
+        });
+        return;
+      }
+
+      if (!(await this.canAccessReview(review, userId, isAdmin))) {
+        res.status(403).json({
+          success: false,
+          message: "このレビューにアクセスする権限がありません",
+        });
+        return;
+      }
+
+      const result = await this.similarReviewService.findSimilarReviews(
+        review,
+        { id: userId, isAdmin },
+        scope,
+        limit
+      );
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: "バリデーションエラー",
+          errors: error.errors,
+        });
+        return;
+      }
+      console.error("類似レビュー取得エラー:", error);
+      res.status(500).json({
+        success: false,
+        message: "類似レビューの取得中にエラーが発生しました",
+      });
+    }
+  };
+
+  /**
+   * レビューへのアクセス権限を確認
+   * 管理者 OR 自分のレビュー OR 自分が所属するプロジェクトのレビュー
+   */
+  private async canAccessReview(
+    review: Review,
+    userId: number,
+    isAdmin: boolean
+  ): Promise<boolean> {
+    return (
+      isAdmin ||
+      review.user_id === userId ||
+      (!!review.project_id &&
+        (await this.reviewService.isUserProjectMember(
+          review.project_id,
+          userId
+        )))
+    );
+  }
 }
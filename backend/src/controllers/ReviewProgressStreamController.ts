@@ -0,0 +1,127 @@
+// backend/src/controllers/ReviewProgressStreamController.ts
+import { Request, Response } from "express";
+import { z } from "zod";
+import { ReviewProgressService } from "../services/ReviewProgressService";
+import {
+  ReviewProgressEvent,
+  ReviewProgressRelay,
+} from "../services/ReviewProgressRelay";
+
+// 接続を維持するためのコメントを送る間隔（プロキシのアイドルタイムアウト対策）
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+export class ReviewProgressStreamController {
+  private progressService: ReviewProgressService;
+
+  constructor() {
+    this.progressService = ReviewProgressService.getInstance();
+  }
+
+  /**
+   * レビュー処理の進捗をServer-Sent Eventsで配信
+   * 研修生には自分のレビューの進捗だけを、管理者にはすべての進捗を配信する
+   * reviewId を指定した場合は、そのレビューの直近の経過を最初に送信する
+   */
+  streamProgress = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: "認証されていません",
+        });
+        return;
+      }
+
+      const querySchema = z.object({
+        reviewId: z.coerce.number().int().positive().optional(),
+      });
+      const { reviewId } = querySchema.parse(req.query);
+      const parsedLastEventId = parseInt(
+        (req.headers["last-event-id"] as string) || "0"
+      );
+      const lastEventId = isNaN(parsedLastEventId) ? 0 : parsedLastEventId;
+      const subscriberId = req.user?.role === "admin" ? null : userId;
+
+      // ストリーミングレスポンスのヘッダーを設定
+      res.setHeader("Content-Type", "text/event-stream; charset=utf-8");
+      res.setHeader("Cache-Control", "no-cache");
+      res.setHeader("Connection", "keep-alive");
+      res.setHeader("X-Accel-Buffering", "no");
+      res.flushHeaders();
+
+      // 切断時に再接続するまでの待機時間
+      res.write("retry: 3000\n\n");
+
+      const send = (event: ReviewProgressEvent) => {
+        if (!res.writableEnded && (!reviewId || event.review_id === reviewId)) {
+          res.write(ReviewProgressRelay.formatSse(event));
+        }
+      };
+
+      let closed = false;
+      let unsubscribe: (() => void) | null = null;
+      const heartbeat = setInterval(() => {
+        if (!res.writableEnded) {
+          res.write(": ping\n\n");
+        }
+      }, HEARTBEAT_INTERVAL_MS);
+
+      // クライアント切断を検出
+      req.on("close", () => {
+        closed = true;
+        clearInterval(heartbeat);
+        if (unsubscribe) {
+          unsubscribe();
+        }
+        if (!res.writableEnded) {
+          res.end();
+        }
+      });
+
+      // 再接続時は Last-Event-ID の続きから、初回は接続時点の最新から配信する
+      let cursor =
+        lastEventId > 0
+          ? lastEventId
+          : await this.progressService.getLatestEventId();
+
+      // 接続前の経過を送信してから購読を開始
+      if (reviewId) {
+        const history = await this.progressService.getHistory(
+          reviewId,
+          subscriberId,
+          lastEventId
+        );
+        history.forEach(send);
+        history.forEach((event) => {
+          cursor = Math.max(cursor, event.id);
+        });
+      }
+
+      if (!closed) {
+        unsubscribe = this.progressService.subscribe(
+          subscriberId,
+          cursor,
+          send
+        );
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: "バリデーションエラー",
+          errors: error.errors,
+        });
+      } else if (!res.headersSent) {
+        console.error("レビュー進捗ストリームエラー:", error);
+        res.status(500).json({
+          success: false,
+          message: "レビューの進捗の配信中にエラーが発生しました",
+        });
+      } else if (!res.writableEnded) {
+        res.end();
+      }
+    }
+  };
+}
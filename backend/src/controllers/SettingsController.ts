@@ -3,14 +3,18 @@ import { Request, Response } from "express";
 import { z } from "zod";
 import { UserService } from "../services/UserService";
 import { NotificationService } from "../services/NotificationService";
+import { AuthService } from "../services/AuthService";
+import { NotificationScheduleService } from "../services/NotificationScheduleService";
 
 export class SettingsController {
   private userService: UserService;
   private notificationService: NotificationService;
+  private authService: AuthService;
 
   constructor() {
     this.userService = new UserService();
     this.notificationService = new NotificationService();
+    this.authService = new AuthService();
   }
 
   /**
@@ -139,6 +143,9 @@ export class SettingsController {
       // パスワードを更新
       await this.userService.updatePassword(userId, validatedData.new_password);
 
+      // 他の端末のセッションは無効にする（この端末はログインしたまま）
+      await this.authService.revokeOtherSessions(userId, req.sessionToken);
+
       res.status(200).json({
         success: true,
         message: "パスワードが変更されました",
@@ -227,6 +234,34 @@ export class SettingsController {
         feedback_received: z.boolean(),
         level_changed: z.boolean(),
         system_notifications: z.boolean(),
+        language: z.enum(["ja", "en"]).optional(),
+        delivery_mode: z
+          .enum(["immediate", "daily_digest", "weekly_digest"])
+          .optional(),
+        digest_hour: z.number().int().min(0).max(23).optional(),
+        quiet_hours_start: z
+          .string()
+          .regex(
+            /^([01]\d|2[0-3]):[0-5]\d$/,
+            "時刻はHH:MMの形式で入力してください"
+          )
+          .nullable()
+          .optional(),
+        quiet_hours_end: z
+          .string()
+          .regex(
+            /^([01]\d|2[0-3]):[0-5]\d$/,
+            "時刻はHH:MMの形式で入力してください"
+          )
+          .nullable()
+          .optional(),
+        timezone: z
+          .string()
+          .refine(
+            NotificationScheduleService.isValidTimeZone,
+            "有効なタイムゾーンを指定してください"
+          )
+          .optional(),
       });
 
       const validatedData = notificationSchema.parse(req.body);
@@ -0,0 +1,241 @@
+// backend/src/controllers/SsoController.ts
+import { timingSafeEqual } from "crypto";
+import { Request, Response } from "express";
+import { z } from "zod";
+import { SsoService } from "../services/SsoService";
+
+// ログインを開始したブラウザに保存する state（IdPから戻ってきたときに照合する）
+const STATE_COOKIE = "sso_state";
+const STATE_COOKIE_PATH = "/api/auth/sso";
+const STATE_COOKIE_MAX_AGE_MS = 10 * 60 * 1000;
+
+export class SsoController {
+  private ssoService: SsoService;
+
+  constructor() {
+    this.ssoService = new SsoService();
+  }
+
+  /**
+   * ログイン画面に表示するSSOプロバイダーの一覧
+   */
+  getProviders = async (req: Request, res: Response): Promise<void> => {
+    res.status(200).json({
+      success: true,
+      data: this.ssoService.getProviders(),
+    });
+  };
+
+  /**
+   * IdPへリダイレクトしてログインを開始
+   */
+  startLogin = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const redirectPath =
+        typeof req.query.redirect === "string" ? req.query.redirect : undefined;
+      const { url, state } = await this.ssoService.startLogin(
+        req.params.providerId,
+        redirectPath
+      );
+      res.cookie(STATE_COOKIE, state, {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: req.secure || process.env.NODE_ENV === "production",
+        path: STATE_COOKIE_PATH,
+        maxAge: STATE_COOKIE_MAX_AGE_MS,
+      });
+      res.redirect(url);
+    } catch (error) {
+      this.redirectWithError(res, error);
+    }
+  };
+
+  /**
+   * OIDCのコールバック
+   */
+  oidcCallback = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (req.query.error) {
+        console.warn(
+          `SSO（${req.params.providerId}）のIdPがエラーを返しました:`,
+          req.query.error,
+          req.query.error_description
+        );
+        throw new Error("IdPでのログインがキャンセルされたか、失敗しました");
+      }
+
+      const state = String(req.query.state || "");
+      this.verifyStateCookie(req, res, state);
+      await this.ssoService.handleOidcCallback(
+        req.params.providerId,
+        String(req.query.code || ""),
+        state
+      );
+      const ticket = await this.ssoService.issueTicket(
+        req.params.providerId,
+        state
+      );
+      this.redirectWithTicket(res, ticket);
+    } catch (error) {
+      this.redirectWithError(res, error);
+    }
+  };
+
+  /**
+   * SAMLのアサーションコンシューマーサービス（ACS）
+   * IdPからのPOSTには SameSite=Lax のクッキーが送られないため、検証後に同じサイトへのGETでクッキーを照合する
+   */
+  samlAssertionConsumer = async (
+    req: Request,
+    res: Response
+  ): Promise<void> => {
+    try {
+      const relayState = String(req.body?.RelayState || "");
+      await this.ssoService.handleSamlResponse(
+        req.params.providerId,
+        String(req.body?.SAMLResponse || ""),
+        relayState
+      );
+      res.redirect(
+        303,
+        `${STATE_COOKIE_PATH}/${encodeURIComponent(
+          req.params.providerId
+        )}/acs/complete?state=${encodeURIComponent(relayState)}`
+      );
+    } catch (error) {
+      this.redirectWithError(res, error);
+    }
+  };
+
+  /**
+   * SAMLのログインの完了（state をクッキーと照合してチケットを発行）
+   */
+  samlComplete = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const state = String(req.query.state || "");
+      this.verifyStateCookie(req, res, state);
+      const ticket = await this.ssoService.issueTicket(
+        req.params.providerId,
+        state
+      );
+      this.redirectWithTicket(res, ticket);
+    } catch (error) {
+      this.redirectWithError(res, error);
+    }
+  };
+
+  /**
+   * SAMLのサービスプロバイダーのメタデータ（IdPへの登録用）
+   */
+  samlMetadata = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const metadata = this.ssoService.getSamlMetadata(req.params.providerId);
+      res.type("application/xml").send(metadata);
+    } catch (error) {
+      res.status(404).json({
+        success: false,
+        message:
+          error instanceof Error
+            ? error.message
+            : "メタデータの取得に失敗しました",
+      });
+    }
+  };
+
+  /**
+   * ログイン後に発行したチケットをセッションに交換
+   */
+  exchangeTicket = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const exchangeSchema = z.object({
+        ticket: z.string().min(1, "チケットは必須です"),
+      });
+
+      const { ticket } = exchangeSchema.parse(req.body);
+      const result = await this.ssoService.exchangeTicket(ticket, {
+        ipAddress: req.ip || null,
+        userAgent: req.headers["user-agent"] || null,
+      });
+
+      res.status(200).json({
+        success: true,
+        message: "ログインに成功しました",
+        data: result,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: "バリデーションエラー",
+          errors: error.errors,
+        });
+      } else if (error instanceof Error) {
+        res.status(401).json({
+          success: false,
+          message: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          message: "予期せぬエラーが発生しました",
+        });
+      }
+    }
+  };
+
+  /**
+   * IdPから戻ってきた state が、ログインを開始したブラウザのクッキーと一致することを確認（確認後はクッキーを削除）
+   */
+  private verifyStateCookie(req: Request, res: Response, state: string): void {
+    const cookie = (req.headers.cookie || "")
+      .split(";")
+      .map((part) => part.trim())
+      .find((part) => part.startsWith(`${STATE_COOKIE}=`));
+    const expected = Buffer.from(
+      cookie
+        ? decodeURIComponent(cookie.substring(STATE_COOKIE.length + 1))
+        : ""
+    );
+    const actual = Buffer.from(state);
+
+    res.clearCookie(STATE_COOKIE, { path: STATE_COOKIE_PATH });
+    if (
+      expected.length === 0 ||
+      expected.length !== actual.length ||
+      !timingSafeEqual(expected, actual)
+    ) {
+      throw new Error(
+        "ログインを開始したブラウザと異なるため、ログインできません。もう一度ログインしてください"
+      );
+    }
+  }
+
+  private redirectWithTicket(res: Response, ticket: string): void {
+    res.redirect(
+      `${this.getFrontendUrl()}/sso/callback?ticket=${encodeURIComponent(
+        ticket
+      )}`
+    );
+  }
+
+  /**
+   * エラーの内容をログイン画面に表示する
+   */
+  private redirectWithError(res: Response, error: unknown): void {
+    console.error("SSOログインエラー:", error);
+    const message =
+      error instanceof Error
+        ? error.message
+        : "シングルサインオンでのログインに失敗しました";
+    res.redirect(
+      `${this.getFrontendUrl()}/login?sso_error=${encodeURIComponent(message)}`
+    );
+  }
+
+  private getFrontendUrl(): string {
+    return (process.env.FRONTEND_URL || "http://localhost:3000").replace(
+      /\/+$/,
+      ""
+    );
+  }
+}
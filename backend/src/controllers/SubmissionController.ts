@@ -5,14 +5,17 @@ import { SubmissionService } from "../services/SubmissionService";
 import { ReviewService } from "../services/ReviewService";
 import { ReviewStatus } from "../models/Review";
 import { ReviewQueueService } from "../services/ReviewQueueService";
+import { SimilarReviewService } from "../services/SimilarReviewService";
 
 export class SubmissionController {
   private submissionService: SubmissionService;
   private reviewService: ReviewService;
+  private similarReviewService: SimilarReviewService;
 
   constructor() {
     this.submissionService = new SubmissionService();
     this.reviewService = new ReviewService();
+    this.similarReviewService = new SimilarReviewService();
   }
 
   /**
@@ -96,6 +99,9 @@ export class SubmissionController {
       console.log(`AIレビューキューに追加します: 提出ID ${submission.id}`);
       await ReviewQueueService.getInstance().addToQueue(submission.id);
 
+      // 類似レビューの検索対象に追加
+      this.similarReviewService.indexSubmissionInBackground(submission);
+
       res.status(201).json({
         success: true,
         message: "コードが提出されました",
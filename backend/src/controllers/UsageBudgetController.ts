@@ -0,0 +1,284 @@
+// backend/src/controllers/UsageBudgetController.ts
+import { Request, Response } from "express";
+import { z } from "zod";
+import { UsageBudgetService } from "../services/UsageBudgetService";
+import {
+  UsageBudgetMetric,
+  UsageBudgetPeriod,
+  UsageBudgetScope,
+} from "../models/UsageBudget";
+
+const budgetSchema = z.object({
+  scope: z.nativeEnum(UsageBudgetScope),
+  scope_id: z.number().int().positive(),
+  feature_key: z.string().max(50).nullable().optional(),
+  metric: z.nativeEnum(UsageBudgetMetric),
+  period: z.nativeEnum(UsageBudgetPeriod),
+  limit_value: z.number().positive(),
+  warning_threshold: z.number().min(0).max(1).optional(),
+  description: z.string().max(255).optional(),
+  is_active: z.boolean().optional(),
+});
+
+export class UsageBudgetController {
+  private usageBudgetService: UsageBudgetService;
+
+  constructor() {
+    this.usageBudgetService = new UsageBudgetService();
+  }
+
+  /**
+   * 予算一覧の取得（管理者のみ）
+   */
+  getAllBudgets = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const budgets = await this.usageBudgetService.getAllBudgets();
+      res.status(200).json({
+        success: true,
+        data: budgets,
+      });
+    } catch (error) {
+      console.error("予算一覧取得エラー:", error);
+      res.status(500).json({
+        success: false,
+        message: "予算一覧の取得中にエラーが発生しました",
+      });
+    }
+  };
+
+  /**
+   * 予算の適用範囲の選択肢を取得（管理者のみ）
+   */
+  getScopeOptions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const options = await this.usageBudgetService.getScopeOptions();
+      res.status(200).json({
+        success: true,
+        data: options,
+      });
+    } catch (error) {
+      console.error("予算の適用範囲取得エラー:", error);
+      res.status(500).json({
+        success: false,
+        message: "予算の適用範囲の取得中にエラーが発生しました",
+      });
+    }
+  };
+
+  /**
+   * 予算を作成（管理者のみ）
+   */
+  createBudget = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const validatedData = budgetSchema.parse(req.body);
+      const budget = await this.usageBudgetService.createBudget(validatedData);
+
+      res.status(201).json({
+        success: true,
+        message: "予算を作成しました",
+        data: budget,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: "バリデーションエラー",
+          errors: error.errors,
+        });
+        return;
+      }
+
+      console.error("予算作成エラー:", error);
+      res.status(500).json({
+        success: false,
+        message: "予算の作成中にエラーが発生しました",
+      });
+    }
+  };
+
+  /**
+   * 予算を更新（管理者のみ）
+   */
+  updateBudget = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const budgetId = parseInt(req.params.id);
+      if (isNaN(budgetId)) {
+        res.status(400).json({
+          success: false,
+          message: "無効な予算IDです",
+        });
+        return;
+      }
+
+      const validatedData = budgetSchema.partial().parse(req.body);
+      const budget = await this.usageBudgetService.updateBudget(
+        budgetId,
+        validatedData
+      );
+
+      if (!budget) {
+        res.status(404).json({
+          success: false,
+          message: "指定された予算が見つかりません",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: "予算を更新しました",
+        data: budget,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: "バリデーションエラー",
+          errors: error.errors,
+        });
+        return;
+      }
+
+      console.error("予算更新エラー:", error);
+      res.status(500).json({
+        success: false,
+        message: "予算の更新中にエラーが発生しました",
+      });
+    }
+  };
+
+  /**
+   * 予算を削除（管理者のみ）
+   */
+  deleteBudget = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const budgetId = parseInt(req.params.id);
+      const deleted = isNaN(budgetId)
+        ? false
+        : await this.usageBudgetService.deleteBudget(budgetId);
+
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          message: "指定された予算が見つかりません",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: "予算を削除しました",
+      });
+    } catch (error) {
+      console.error("予算削除エラー:", error);
+      res.status(500).json({
+        success: false,
+        message: "予算の削除中にエラーが発生しました",
+      });
+    }
+  };
+
+  /**
+   * 有効な一時解除の一覧を取得（管理者のみ）
+   */
+  getOverrides = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const overrides = await this.usageBudgetService.getActiveOverrides();
+      res.status(200).json({
+        success: true,
+        data: overrides.map((override) => ({
+          ...override,
+          user: override.user
+            ? { id: override.user.id, name: override.user.name }
+            : null,
+        })),
+      });
+    } catch (error) {
+      console.error("一時解除一覧取得エラー:", error);
+      res.status(500).json({
+        success: false,
+        message: "一時解除一覧の取得中にエラーが発生しました",
+      });
+    }
+  };
+
+  /**
+   * 新入社員に一時的な制限解除を付与（管理者のみ）
+   */
+  grantOverride = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const overrideSchema = z.object({
+        user_id: z.number().int().positive(),
+        feature_key: z.string().max(50).nullable().optional(),
+        expires_at: z.coerce.date(),
+        reason: z.string().max(255).optional(),
+      });
+
+      const validatedData = overrideSchema.parse(req.body);
+      const override = await this.usageBudgetService.grantOverride(
+        validatedData.user_id,
+        {
+          featureKey: validatedData.feature_key,
+          expiresAt: validatedData.expires_at,
+          reason: validatedData.reason,
+        },
+        req.user?.id
+      );
+
+      res.status(201).json({
+        success: true,
+        message: "一時的な制限解除を付与しました",
+        data: override,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: "バリデーションエラー",
+          errors: error.errors,
+        });
+      } else if (error instanceof Error) {
+        res.status(400).json({
+          success: false,
+          message: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          message: "一時解除の付与中にエラーが発生しました",
+        });
+      }
+    }
+  };
+
+  /**
+   * 一時解除を取り消す（管理者のみ）
+   */
+  revokeOverride = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const overrideId = parseInt(req.params.id);
+      const revoked = isNaN(overrideId)
+        ? false
+        : await this.usageBudgetService.revokeOverride(overrideId);
+
+      if (!revoked) {
+        res.status(404).json({
+          success: false,
+          message: "指定された一時解除が見つかりません",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: "一時解除を取り消しました",
+      });
+    } catch (error) {
+      console.error("一時解除取り消しエラー:", error);
+      res.status(500).json({
+        success: false,
+        message: "一時解除の取り消し中にエラーが発生しました",
+      });
+    }
+  };
+}
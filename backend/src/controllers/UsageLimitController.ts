@@ -247,16 +247,20 @@ export class UsageLimitController {
       const validatedData = logSchema.parse(req.body);
 
       // まず利用可能かチェック
-      const { canUse, remaining } = await this.usageLimitService.canUseFeature(
-        userId,
-        validatedData.feature_key
-      );
+      const { canUse, remaining, reason } =
+        await this.usageLimitService.canUseFeature(
+          userId,
+          validatedData.feature_key
+        );
 
       if (!canUse) {
         res.status(403).json({
           success: false,
-          message: "今日の利用制限に達しました",
-          data: { remaining: 0 },
+          message:
+            reason === "budget_exceeded"
+              ? "利用予算の上限に達しました"
+              : "今日の利用制限に達しました",
+          data: { remaining: 0, reason },
         });
         return;
       }
@@ -158,6 +158,7 @@ export class WebhookController {
 
       // 簡易的なテスト用のデータを作成
       const testData = {
+        id: `test-${Date.now()}`, // 配信IDの重複チェックを通過させるため毎回異なるIDにする
         type: "test",
         created: new Date().toISOString(),
         content: {
@@ -168,7 +169,13 @@ export class WebhookController {
       try {
         // ローカルのエンドポイントを直接呼び出す
         // 注: 実際にはngrokなどの外部URLを使用する場合、直接ローカルのエンドポイントを叩く
-        await axios.post("http://localhost:3001/api/backlog/webhook", testData);
+        await axios.post(
+          "http://localhost:3001/api/backlog/webhook",
+          testData,
+          {
+            params: { token: process.env.BACKLOG_WEBHOOK_SECRET },
+          }
+        );
 
         res.status(200).json({
           success: true,
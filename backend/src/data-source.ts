@@ -23,6 +23,23 @@ import { YearlyCriteriaSetting } from "./models/YearlyCriteriaSetting";
 import { AcademicYearSetting } from "./models/AcademicYearSetting";
 import { GitHubRepository } from "./models/GitHubRepository";
 import { GitHubPullRequestTracker } from "./models/GitHubPullRequestTracker";
+import { ReviewJob } from "./models/ReviewJob";
+import { AIModelRoute } from "./models/AIModelRoute";
+import { LLMUsageLog } from "./models/LLMUsageLog";
+import { UsageBudget } from "./models/UsageBudget";
+import { UsageLimitOverride } from "./models/UsageLimitOverride";
+import { WebhookDelivery } from "./models/WebhookDelivery";
+import { CriteriaSetVersion } from "./models/CriteriaSetVersion";
+import { FeedbackEmbedding } from "./models/FeedbackEmbedding";
+import { RepositoryIndexState } from "./models/RepositoryIndexState";
+import { RepositoryIndexedFile } from "./models/RepositoryIndexedFile";
+import { VectorDocument } from "./models/VectorDocument";
+import { Notification } from "./models/Notification";
+import { PasswordResetToken } from "./models/PasswordResetToken";
+import { LoginAttempt } from "./models/LoginAttempt";
+import { UserSsoIdentity } from "./models/UserSsoIdentity";
+import { SsoLoginRequest } from "./models/SsoLoginRequest";
+import { ReviewProgressEntry } from "./models/ReviewProgressEntry";
 
 import { InitialSchema1625000000000 } from "./migrations/1625000000000-InitialSchema";
 import { AddSessionsTable1625000000100 } from "./migrations/1625000000100-AddSessionsTable";
@@ -48,6 +65,27 @@ import { AddDescriptionProcessedToPullRequestTrackers1625000002000 } from "./mig
 import { CreateGitHubRepositoryTable1625000002100 } from "./migrations/1625000002100-CreateGitHubRepositoryTable";
 import { CreateGitHubPullRequestTracker1625000002200 } from "./migrations/1625000002200-CreateGitHubPullRequestTracker";
 import { AddAIReviewCommentIds1625000002300 } from "./migrations/1625000002300-AddAIReviewCommentIds";
+import { CreateReviewJobsTable1625000002400 } from "./migrations/1625000002400-CreateReviewJobsTable";
+import { CreateAIModelRoutesTable1625000002500 } from "./migrations/1625000002500-CreateAIModelRoutesTable";
+import { CreateLLMUsageLogsTable1625000002600 } from "./migrations/1625000002600-CreateLLMUsageLogsTable";
+import { CreateUsageBudgetTables1625000002700 } from "./migrations/1625000002700-CreateUsageBudgetTables";
+import { AddCheckSettingsToGitHubRepositories1625000002800 } from "./migrations/1625000002800-AddCheckSettingsToGitHubRepositories";
+import { AddPushReviewSettings1625000002900 } from "./migrations/1625000002900-AddPushReviewSettings";
+import { CreateWebhookDeliveriesTable1625000003000 } from "./migrations/1625000003000-CreateWebhookDeliveriesTable";
+import { AddCriteriaScoresToEvaluations1625000003100 } from "./migrations/1625000003100-AddCriteriaScoresToEvaluations";
+import { AddReviewCriteriaToCodeSubmissions1625000003200 } from "./migrations/1625000003200-AddReviewCriteriaToCodeSubmissions";
+import { CreateCriteriaSetVersionsTable1625000003300 } from "./migrations/1625000003300-CreateCriteriaSetVersionsTable";
+import { CreateFeedbackEmbeddingsTable1625000003400 } from "./migrations/1625000003400-CreateFeedbackEmbeddingsTable";
+import { CreateRepositoryIndexTables1625000003500 } from "./migrations/1625000003500-CreateRepositoryIndexTables";
+import { AddChunkingVersionToRepositoryIndexStates1625000003600 } from "./migrations/1625000003600-AddChunkingVersionToRepositoryIndexStates";
+import { CreateVectorDocumentsAndEmbeddingModel1625000003700 } from "./migrations/1625000003700-CreateVectorDocumentsAndEmbeddingModel";
+import { CreateNotificationsTable1625000003800 } from "./migrations/1625000003800-CreateNotificationsTable";
+import { AddNotificationDigestSettings1625000003900 } from "./migrations/1625000003900-AddNotificationDigestSettings";
+import { AddPasswordResetAndLoginSecurity1625000004000 } from "./migrations/1625000004000-AddPasswordResetAndLoginSecurity";
+import { CreateSsoTables1625000004100 } from "./migrations/1625000004100-CreateSsoTables";
+import { AddAIInlineCommentIds1625000004200 } from "./migrations/1625000004200-AddAIInlineCommentIds";
+import { AddGroupWebhookEventSettings1625000004300 } from "./migrations/1625000004300-AddGroupWebhookEventSettings";
+import { CreateReviewProgressEventsTable1625000004400 } from "./migrations/1625000004400-CreateReviewProgressEventsTable";
 // 環境変数の読み込み
 dotenv.config();
 
@@ -83,6 +121,23 @@ export const AppDataSource = new DataSource({
     AcademicYearSetting,
     GitHubRepository,
     GitHubPullRequestTracker,
+    ReviewJob,
+    AIModelRoute,
+    LLMUsageLog,
+    UsageBudget,
+    UsageLimitOverride,
+    WebhookDelivery,
+    CriteriaSetVersion,
+    FeedbackEmbedding,
+    RepositoryIndexState,
+    RepositoryIndexedFile,
+    VectorDocument,
+    Notification,
+    PasswordResetToken,
+    LoginAttempt,
+    UserSsoIdentity,
+    SsoLoginRequest,
+    ReviewProgressEntry,
   ],
   migrations: [
     InitialSchema1625000000000,
@@ -109,6 +164,27 @@ export const AppDataSource = new DataSource({
     CreateGitHubRepositoryTable1625000002100,
     CreateGitHubPullRequestTracker1625000002200,
     AddAIReviewCommentIds1625000002300,
+    CreateReviewJobsTable1625000002400,
+    CreateAIModelRoutesTable1625000002500,
+    CreateLLMUsageLogsTable1625000002600,
+    CreateUsageBudgetTables1625000002700,
+    AddCheckSettingsToGitHubRepositories1625000002800,
+    AddPushReviewSettings1625000002900,
+    CreateWebhookDeliveriesTable1625000003000,
+    AddCriteriaScoresToEvaluations1625000003100,
+    AddReviewCriteriaToCodeSubmissions1625000003200,
+    CreateCriteriaSetVersionsTable1625000003300,
+    CreateFeedbackEmbeddingsTable1625000003400,
+    CreateRepositoryIndexTables1625000003500,
+    AddChunkingVersionToRepositoryIndexStates1625000003600,
+    CreateVectorDocumentsAndEmbeddingModel1625000003700,
+    CreateNotificationsTable1625000003800,
+    AddNotificationDigestSettings1625000003900,
+    AddPasswordResetAndLoginSecurity1625000004000,
+    CreateSsoTables1625000004100,
+    AddAIInlineCommentIds1625000004200,
+    AddGroupWebhookEventSettings1625000004300,
+    CreateReviewProgressEventsTable1625000004400,
   ],
   subscribers: [],
 
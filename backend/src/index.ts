@@ -11,6 +11,11 @@ import { BacklogService } from "./services/BacklogService";
 import { MentionDetectionService } from "./services/MentionDetectionService";
 import { GitHubRepository } from "./models/GitHubRepository";
 import { GitHubPullRequestMonitoringService } from "./services/GitHubPullRequestMonitoringService";
+import { ReviewQueueService } from "./services/ReviewQueueService";
+import { NotificationDigestService } from "./services/NotificationDigestService";
+import { AIModelRoutingService } from "./services/AIModelRoutingService";
+import { SimilarReviewService } from "./services/SimilarReviewService";
+import { captureWebhookRawBody } from "./middlewares/webhookMiddleware";
 // 環境変数の読み込み
 dotenv.config();
 
@@ -58,7 +63,7 @@ app.get("/health", (req, res) => {
 
 // ミドルウェアの設定
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ verify: captureWebhookRawBody }));
 app.use(morgan("dev"));
 
 /**
@@ -168,7 +173,7 @@ async function initializeGitHubIntegration() {
       setInterval(async () => {
         try {
           console.log(
-            "定期チェック実行: GitHub PRの未処理@codereviewをスキャン中..."
+            "定期チェック実行: GitHub PRの未処理@codereviewとプッシュをスキャン中..."
           );
           // TODO: ここに定期チェック処理を実装
           await githubPullRequestMonitoringService.checkExistingPullRequests();
@@ -341,6 +346,37 @@ async function startServer() {
       console.error("リポジトリホワイトリスト初期化エラー:", whitelistError);
     }
 
+    // 管理画面で設定されたAIモデルのルーティングを読み込み
+    // 複数インスタンス構成でも他インスタンスの変更が反映されるよう定期的に再読み込みする
+    if (AppDataSource.isInitialized) {
+      const aiModelRoutingService = new AIModelRoutingService();
+      try {
+        await aiModelRoutingService.refreshRegistry();
+      } catch (routingError) {
+        console.error("AIモデルルーティング読み込みエラー:", routingError);
+      }
+
+      setInterval(() => {
+        aiModelRoutingService.refreshRegistry().catch((error) => {
+          console.error("AIモデルルーティング再読み込みエラー:", error);
+        });
+      }, 60 * 1000);
+    }
+
+    // 永続化レビューキューのワーカーを起動（中断されたジョブの回収を含む）
+    if (AppDataSource.isInitialized) {
+      try {
+        await ReviewQueueService.getInstance().start();
+      } catch (queueError) {
+        console.error("レビューキュー起動エラー:", queueError);
+      }
+    }
+
+    // 通知のダイジェストと、通知しない時間帯に保留したメールの定期送信を開始
+    if (AppDataSource.isInitialized) {
+      NotificationDigestService.getInstance().start();
+    }
+
     // サーバー起動
     app.listen(PORT, () => {
       console.log(`サーバー起動: http://localhost:${PORT}`);
@@ -358,6 +394,16 @@ async function startServer() {
         initializeGitHubIntegration().catch((error) => {
           console.error("GitHub連携初期化でエラーが発生しました:", error);
         });
+
+        // 類似レビュー検索のため、まだベクトル化されていない過去の提出をベクトル化
+        if (AppDataSource.isInitialized) {
+          new SimilarReviewService().backfillEmbeddings().catch((error) => {
+            console.error(
+              "過去のコード提出のベクトル化でエラーが発生しました:",
+              error
+            );
+          });
+        }
       }, 2000);
     });
   } catch (error) {
@@ -448,6 +494,7 @@ import chatRoutes from "./routes/chatRoutes";
 import learningChatRoutes from "./routes/learningChatRoutes";
 import evaluationCriteriaRoutes from "./routes/evaluationCriteriaRoutes";
 import githubRoutes from "./routes/githubRoutes";
+import notificationRoutes from "./routes/notificationRoutes";
 // ルートの登録
 app.use("/api/auth", authRoutes);
 app.use("/api/reviews", reviewRoutes);
@@ -471,6 +518,7 @@ app.use("/api/chat", chatRoutes);
 app.use("/api/learning-chat", learningChatRoutes);
 app.use("/api/evaluation-criteria", evaluationCriteriaRoutes);
 app.use("/api/github", githubRoutes);
+app.use("/api/notifications", notificationRoutes);
 // エラーハンドリング強化
 app.use(
   (
@@ -28,17 +28,22 @@ export function checkUsageLimit(featureKey: string) {
       }
 
       // 利用可能かチェック
-      const { canUse, remaining, limit } =
+      const { canUse, remaining, limit, reason, warning, budgets } =
         await usageLimitService.canUseFeature(userId, featureKey);
 
       if (!canUse) {
         return res.status(403).json({
           success: false,
-          message: "今日の利用制限に達しました",
+          message:
+            reason === "budget_exceeded"
+              ? "利用予算の上限に達しました"
+              : "今日の利用制限に達しました",
           data: {
             feature_key: featureKey,
             remaining: 0,
             limit,
+            reason,
+            budgets,
           },
         });
       }
@@ -48,6 +53,7 @@ export function checkUsageLimit(featureKey: string) {
         feature_key: featureKey,
         remaining,
         limit,
+        warning,
       };
 
       // 次のミドルウェアまたはコントローラーに進む
@@ -130,6 +136,7 @@ declare global {
         feature_key: string;
         remaining: number;
         limit: number;
+        warning?: boolean;
       };
     }
   }
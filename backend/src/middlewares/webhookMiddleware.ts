@@ -0,0 +1,26 @@
+// backend/src/middlewares/webhookMiddleware.ts
+import { Request, Response } from "express";
+
+/**
+ * express.json の verify オプションで使用し、Webhookの生のリクエストボディを保持する
+ * 署名はGitHubが送信したバイト列そのものに対して計算されるため、パース後のJSONからは再現できない
+ */
+export const captureWebhookRawBody = (
+  req: Request,
+  res: Response,
+  buf: Buffer
+): void => {
+  // GitHub・BacklogのWebhookエンドポイント（/api/github/webhook など）のみ対象
+  const path = (req.originalUrl || req.url || "").split("?")[0];
+  if (path.endsWith("/webhook")) {
+    req.rawBody = Buffer.from(buf);
+  }
+};
+
+declare global {
+  namespace Express {
+    interface Request {
+      rawBody?: Buffer;
+    }
+  }
+}
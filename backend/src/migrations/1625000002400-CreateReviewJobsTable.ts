@@ -0,0 +1,118 @@
+// backend/src/migrations/1625000002400-CreateReviewJobsTable.ts
+import { MigrationInterface, QueryRunner, Table } from "typeorm";
+
+export class CreateReviewJobsTable1625000002400 implements MigrationInterface {
+  name = "CreateReviewJobsTable1625000002400";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    console.log("レビュージョブテーブルを作成します");
+
+    await queryRunner.createTable(
+      new Table({
+        name: "review_jobs",
+        columns: [
+          {
+            name: "id",
+            type: "int",
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: "increment",
+          },
+          {
+            name: "submission_id",
+            type: "int",
+            isNullable: false,
+            comment: "レビュー対象のコード提出ID",
+          },
+          {
+            name: "status",
+            type: "enum",
+            enum: ["pending", "processing", "completed", "dead"],
+            default: "'pending'",
+            comment: "ジョブの状態",
+          },
+          {
+            name: "attempts",
+            type: "int",
+            default: 0,
+            comment: "これまでの試行回数",
+          },
+          {
+            name: "max_attempts",
+            type: "int",
+            default: 5,
+            comment: "デッドレターに移すまでの最大試行回数",
+          },
+          {
+            name: "next_run_at",
+            type: "timestamp",
+            default: "CURRENT_TIMESTAMP",
+            comment: "次に実行可能になる日時（バックオフ用）",
+          },
+          {
+            name: "last_error",
+            type: "text",
+            isNullable: true,
+            comment: "直近の失敗理由",
+          },
+          {
+            name: "locked_by",
+            type: "varchar",
+            length: "100",
+            isNullable: true,
+            comment: "リースを保持しているワーカーID",
+          },
+          {
+            name: "locked_at",
+            type: "timestamp",
+            isNullable: true,
+            comment: "リース取得日時",
+          },
+          {
+            name: "completed_at",
+            type: "timestamp",
+            isNullable: true,
+          },
+          {
+            name: "created_at",
+            type: "timestamp",
+            default: "CURRENT_TIMESTAMP",
+          },
+          {
+            name: "updated_at",
+            type: "timestamp",
+            default: "CURRENT_TIMESTAMP",
+            onUpdate: "CURRENT_TIMESTAMP",
+          },
+        ],
+        indices: [
+          {
+            name: "idx_review_jobs_status_next_run",
+            columnNames: ["status", "next_run_at"],
+          },
+          {
+            name: "idx_review_jobs_submission_id",
+            columnNames: ["submission_id"],
+          },
+        ],
+        foreignKeys: [
+          {
+            columnNames: ["submission_id"],
+            referencedTableName: "code_submissions",
+            referencedColumnNames: ["id"],
+            onDelete: "CASCADE",
+          },
+        ],
+      }),
+      true
+    );
+
+    console.log("レビュージョブテーブルの作成が完了しました");
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    console.log("レビュージョブテーブルを削除します");
+    await queryRunner.dropTable("review_jobs");
+    console.log("レビュージョブテーブルの削除が完了しました");
+  }
+}
@@ -0,0 +1,108 @@
+// backend/src/migrations/1625000002500-CreateAIModelRoutesTable.ts
+import { MigrationInterface, QueryRunner, Table } from "typeorm";
+
+export class CreateAIModelRoutesTable1625000002500
+  implements MigrationInterface
+{
+  name = "CreateAIModelRoutesTable1625000002500";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    console.log("AIモデルルーティング設定テーブルを作成します");
+
+    await queryRunner.createTable(
+      new Table({
+        name: "ai_model_routes",
+        columns: [
+          {
+            name: "id",
+            type: "int",
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: "increment",
+          },
+          {
+            name: "feature_key",
+            type: "varchar",
+            length: "50",
+            isNullable: false,
+            comment: "機能を識別するキー (例: 'code_review', 'ai_chat')",
+          },
+          {
+            name: "provider",
+            type: "varchar",
+            length: "30",
+            isNullable: false,
+            comment:
+              "LLMプロバイダー (openai / anthropic / openai_compatible / fake)",
+          },
+          {
+            name: "model",
+            type: "varchar",
+            length: "255",
+            isNullable: false,
+            comment: "モデル名",
+          },
+          {
+            name: "temperature",
+            type: "float",
+            default: 0.2,
+          },
+          {
+            name: "max_tokens",
+            type: "int",
+            isNullable: true,
+          },
+          {
+            name: "timeout_ms",
+            type: "int",
+            isNullable: true,
+          },
+          {
+            name: "fallbacks",
+            type: "text",
+            isNullable: true,
+            comment: "フォールバック先の設定（JSON形式の配列）",
+          },
+          {
+            name: "is_active",
+            type: "boolean",
+            default: true,
+          },
+          {
+            name: "updated_by",
+            type: "int",
+            isNullable: true,
+            comment: "最後に更新した管理者のユーザーID",
+          },
+          {
+            name: "created_at",
+            type: "timestamp",
+            default: "CURRENT_TIMESTAMP",
+          },
+          {
+            name: "updated_at",
+            type: "timestamp",
+            default: "CURRENT_TIMESTAMP",
+            onUpdate: "CURRENT_TIMESTAMP",
+          },
+        ],
+        indices: [
+          {
+            name: "idx_ai_model_routes_feature_key",
+            columnNames: ["feature_key"],
+            isUnique: true,
+          },
+        ],
+      }),
+      true
+    );
+
+    console.log("AIモデルルーティング設定テーブルの作成が完了しました");
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    console.log("AIモデルルーティング設定テーブルを削除します");
+    await queryRunner.dropTable("ai_model_routes");
+    console.log("AIモデルルーティング設定テーブルの削除が完了しました");
+  }
+}
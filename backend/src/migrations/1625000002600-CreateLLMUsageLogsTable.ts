@@ -0,0 +1,148 @@
+// backend/src/migrations/1625000002600-CreateLLMUsageLogsTable.ts
+import { MigrationInterface, QueryRunner, Table } from "typeorm";
+
+export class CreateLLMUsageLogsTable1625000002600
+  implements MigrationInterface
+{
+  name = "CreateLLMUsageLogsTable1625000002600";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    console.log("LLM利用ログテーブルを作成します");
+
+    await queryRunner.createTable(
+      new Table({
+        name: "llm_usage_logs",
+        columns: [
+          {
+            name: "id",
+            type: "int",
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: "increment",
+          },
+          {
+            name: "user_id",
+            type: "int",
+            isNullable: true,
+            comment: "呼び出しを行ったユーザーID（バッチ処理などではNULL）",
+          },
+          {
+            name: "review_id",
+            type: "int",
+            isNullable: true,
+            comment: "関連するレビューID",
+          },
+          {
+            name: "submission_id",
+            type: "int",
+            isNullable: true,
+            comment: "関連するコード提出ID",
+          },
+          {
+            name: "feature_key",
+            type: "varchar",
+            length: "50",
+            isNullable: false,
+            comment: "機能を識別するキー (例: 'code_review', 'ai_chat')",
+          },
+          {
+            name: "provider",
+            type: "varchar",
+            length: "30",
+            isNullable: true,
+            comment: "LLMプロバイダー",
+          },
+          {
+            name: "model",
+            type: "varchar",
+            length: "255",
+            isNullable: false,
+            comment: "モデル名",
+          },
+          {
+            name: "prompt_tokens",
+            type: "int",
+            default: 0,
+          },
+          {
+            name: "completion_tokens",
+            type: "int",
+            default: 0,
+          },
+          {
+            name: "total_tokens",
+            type: "int",
+            default: 0,
+          },
+          {
+            name: "latency_ms",
+            type: "int",
+            default: 0,
+            comment: "呼び出しにかかった時間（ミリ秒）",
+          },
+          {
+            name: "estimated_cost",
+            type: "decimal",
+            precision: 12,
+            scale: 6,
+            default: 0,
+            comment: "推定コスト（USD）",
+          },
+          {
+            name: "status",
+            type: "enum",
+            enum: ["success", "error"],
+            default: "'success'",
+          },
+          {
+            name: "error_message",
+            type: "text",
+            isNullable: true,
+          },
+          {
+            name: "created_at",
+            type: "timestamp",
+            default: "CURRENT_TIMESTAMP",
+          },
+        ],
+        indices: [
+          {
+            name: "idx_llm_usage_logs_feature_created",
+            columnNames: ["feature_key", "created_at"],
+          },
+          {
+            name: "idx_llm_usage_logs_user_created",
+            columnNames: ["user_id", "created_at"],
+          },
+          {
+            name: "idx_llm_usage_logs_review_id",
+            columnNames: ["review_id"],
+          },
+        ],
+        foreignKeys: [
+          {
+            columnNames: ["user_id"],
+            referencedTableName: "users",
+            referencedColumnNames: ["id"],
+            onDelete: "SET NULL",
+          },
+          {
+            columnNames: ["review_id"],
+            referencedTableName: "reviews",
+            referencedColumnNames: ["id"],
+            onDelete: "SET NULL",
+          },
+        ],
+      }),
+      true
+    );
+
+    console.log("LLM利用ログテーブルの作成が完了しました");
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    console.log("LLM利用ログテーブルを削除します");
+    await queryRunner.dropTable("llm_usage_logs");
+    console.log("LLM利用ログテーブルの削除が完了しました");
+  }
+}
@@ -0,0 +1,180 @@
+// backend/src/migrations/1625000002700-CreateUsageBudgetTables.ts
+import { MigrationInterface, QueryRunner, Table } from "typeorm";
+
+export class CreateUsageBudgetTables1625000002700
+  implements MigrationInterface
+{
+  name = "CreateUsageBudgetTables1625000002700";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    console.log("利用予算テーブルを作成します");
+
+    // 利用予算テーブルの作成
+    await queryRunner.createTable(
+      new Table({
+        name: "usage_budgets",
+        columns: [
+          {
+            name: "id",
+            type: "int",
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: "increment",
+          },
+          {
+            name: "scope",
+            type: "enum",
+            enum: ["user", "group", "project"],
+            isNullable: false,
+            comment: "予算の適用範囲",
+          },
+          {
+            name: "scope_id",
+            type: "int",
+            isNullable: false,
+            comment: "適用範囲のID（ユーザー / グループ / プロジェクト）",
+          },
+          {
+            name: "feature_key",
+            type: "varchar",
+            length: "50",
+            isNullable: true,
+            comment: "対象機能のキー（NULLは全機能の合計）",
+          },
+          {
+            name: "metric",
+            type: "enum",
+            enum: ["tokens", "cost"],
+            isNullable: false,
+            comment: "予算の単位（トークン数 / 推定コスト）",
+          },
+          {
+            name: "period",
+            type: "enum",
+            enum: ["daily", "weekly", "monthly"],
+            isNullable: false,
+            comment: "集計期間",
+          },
+          {
+            name: "limit_value",
+            type: "decimal",
+            precision: 14,
+            scale: 6,
+            isNullable: false,
+            comment: "期間内の上限値",
+          },
+          {
+            name: "warning_threshold",
+            type: "float",
+            default: 0.8,
+            comment: "警告を表示する割合",
+          },
+          {
+            name: "description",
+            type: "varchar",
+            length: "255",
+            isNullable: true,
+          },
+          {
+            name: "is_active",
+            type: "boolean",
+            default: true,
+          },
+          {
+            name: "created_at",
+            type: "timestamp",
+            default: "CURRENT_TIMESTAMP",
+          },
+          {
+            name: "updated_at",
+            type: "timestamp",
+            default: "CURRENT_TIMESTAMP",
+            onUpdate: "CURRENT_TIMESTAMP",
+          },
+        ],
+        indices: [
+          {
+            name: "idx_usage_budgets_scope",
+            columnNames: ["scope", "scope_id"],
+          },
+        ],
+      }),
+      true
+    );
+
+    // 一時的な制限解除テーブルの作成
+    await queryRunner.createTable(
+      new Table({
+        name: "usage_limit_overrides",
+        columns: [
+          {
+            name: "id",
+            type: "int",
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: "increment",
+          },
+          {
+            name: "user_id",
+            type: "int",
+            isNullable: false,
+          },
+          {
+            name: "feature_key",
+            type: "varchar",
+            length: "50",
+            isNullable: true,
+            comment: "対象機能のキー（NULLは全機能）",
+          },
+          {
+            name: "expires_at",
+            type: "timestamp",
+            isNullable: false,
+            comment: "制限解除の有効期限",
+          },
+          {
+            name: "reason",
+            type: "varchar",
+            length: "255",
+            isNullable: true,
+          },
+          {
+            name: "granted_by",
+            type: "int",
+            isNullable: true,
+            comment: "付与した管理者のユーザーID",
+          },
+          {
+            name: "created_at",
+            type: "timestamp",
+            default: "CURRENT_TIMESTAMP",
+          },
+        ],
+        indices: [
+          {
+            name: "idx_usage_limit_overrides_user_expires",
+            columnNames: ["user_id", "expires_at"],
+          },
+        ],
+        foreignKeys: [
+          {
+            columnNames: ["user_id"],
+            referencedTableName: "users",
+            referencedColumnNames: ["id"],
+            onDelete: "CASCADE",
+          },
+        ],
+      }),
+      true
+    );
+
+    console.log("利用予算テーブルの作成が完了しました");
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    console.log("利用予算テーブルを削除します");
+    await queryRunner.dropTable("usage_limit_overrides");
+    await queryRunner.dropTable("usage_budgets");
+    console.log("利用予算テーブルの削除が完了しました");
+  }
+}
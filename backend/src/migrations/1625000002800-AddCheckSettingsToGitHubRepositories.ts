@@ -0,0 +1,49 @@
+// backend/src/migrations/1625000002800-AddCheckSettingsToGitHubRepositories.ts
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddCheckSettingsToGitHubRepositories1625000002800
+  implements MigrationInterface
+{
+  name = "AddCheckSettingsToGitHubRepositories1625000002800";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    console.log(
+      "github_repositoriesテーブルにチェック設定のカラムを追加します"
+    );
+
+    try {
+      await queryRunner.query(`
+        ALTER TABLE github_repositories
+        ADD COLUMN checks_enabled TINYINT NOT NULL DEFAULT 0 COMMENT 'PRのヘッドコミットにAIレビューのチェックを作成するか',
+        ADD COLUMN check_gating_policy ENUM('none', 'high_security', 'high_priority', 'any_improvement') NOT NULL DEFAULT 'high_security' COMMENT 'チェック結果をマージ可否に反映する方針'
+      `);
+
+      console.log("チェック設定のカラムの追加が完了しました");
+    } catch (error) {
+      console.error("マイグレーション実行中にエラーが発生しました:", error);
+      throw error;
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    console.log(
+      "github_repositoriesテーブルからチェック設定のカラムを削除します"
+    );
+
+    try {
+      await queryRunner.query(`
+        ALTER TABLE github_repositories
+        DROP COLUMN check_gating_policy,
+        DROP COLUMN checks_enabled
+      `);
+
+      console.log("チェック設定のカラムの削除が完了しました");
+    } catch (error) {
+      console.error(
+        "マイグレーションロールバック中にエラーが発生しました:",
+        error
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,51 @@
+// backend/src/migrations/1625000002900-AddPushReviewSettings.ts
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddPushReviewSettings1625000002900 implements MigrationInterface {
+  name = "AddPushReviewSettings1625000002900";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    console.log("プッシュ時の差分レビュー用のカラムを追加します");
+
+    try {
+      await queryRunner.query(`
+        ALTER TABLE github_repositories
+        ADD COLUMN review_on_push TINYINT NOT NULL DEFAULT 0 COMMENT 'PRへのプッシュで前回レビュー以降の差分を自動で再レビューするか'
+      `);
+
+      await queryRunner.query(`
+        ALTER TABLE github_pull_request_trackers
+        ADD COLUMN last_reviewed_sha VARCHAR(40) NULL COMMENT '最後にレビューしたヘッドコミットのSHA'
+      `);
+
+      console.log("プッシュ時の差分レビュー用のカラムの追加が完了しました");
+    } catch (error) {
+      console.error("マイグレーション実行中にエラーが発生しました:", error);
+      throw error;
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    console.log("プッシュ時の差分レビュー用のカラムを削除します");
+
+    try {
+      await queryRunner.query(`
+        ALTER TABLE github_pull_request_trackers
+        DROP COLUMN last_reviewed_sha
+      `);
+
+      await queryRunner.query(`
+        ALTER TABLE github_repositories
+        DROP COLUMN review_on_push
+      `);
+
+      console.log("プッシュ時の差分レビュー用のカラムの削除が完了しました");
+    } catch (error) {
+      console.error(
+        "マイグレーションロールバック中にエラーが発生しました:",
+        error
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,74 @@
+// backend/src/migrations/1625000003000-CreateWebhookDeliveriesTable.ts
+import { MigrationInterface, QueryRunner, Table } from "typeorm";
+
+export class CreateWebhookDeliveriesTable1625000003000
+  implements MigrationInterface
+{
+  name = "CreateWebhookDeliveriesTable1625000003000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    console.log("Webhook配信記録テーブルを作成します");
+
+    await queryRunner.createTable(
+      new Table({
+        name: "webhook_deliveries",
+        columns: [
+          {
+            name: "id",
+            type: "int",
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: "increment",
+          },
+          {
+            name: "source",
+            type: "enum",
+            enum: ["github", "backlog"],
+            isNullable: false,
+            comment: "Webhookの送信元",
+          },
+          {
+            name: "delivery_id",
+            type: "varchar",
+            length: "100",
+            isNullable: false,
+            comment:
+              "配信ID (GitHubはX-GitHub-Delivery、Backlogはアクティビティ ID)",
+          },
+          {
+            name: "event_type",
+            type: "varchar",
+            length: "100",
+            isNullable: true,
+            comment: "イベント種別",
+          },
+          {
+            name: "received_at",
+            type: "timestamp",
+            default: "CURRENT_TIMESTAMP",
+          },
+        ],
+        indices: [
+          {
+            name: "uq_webhook_deliveries_source_delivery",
+            columnNames: ["source", "delivery_id"],
+            isUnique: true,
+          },
+          {
+            name: "idx_webhook_deliveries_received_at",
+            columnNames: ["received_at"],
+          },
+        ],
+      }),
+      true
+    );
+
+    console.log("Webhook配信記録テーブルの作成が完了しました");
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    console.log("Webhook配信記録テーブルを削除します");
+    await queryRunner.dropTable("webhook_deliveries");
+    console.log("Webhook配信記録テーブルの削除が完了しました");
+  }
+}
@@ -0,0 +1,45 @@
+// backend/src/migrations/1625000003100-AddCriteriaScoresToEvaluations.ts
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddCriteriaScoresToEvaluations1625000003100
+  implements MigrationInterface
+{
+  name = "AddCriteriaScoresToEvaluations1625000003100";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    console.log("評価テーブルに評価基準ごとのスコア用カラムを追加します");
+
+    try {
+      await queryRunner.query(`
+        ALTER TABLE evaluations
+        ADD COLUMN overall_score FLOAT NULL COMMENT '評価基準の重みを反映した総合スコア（0〜10）',
+        ADD COLUMN criteria_scores TEXT NULL COMMENT '評価基準ごとのスコアと根拠（JSON）'
+      `);
+
+      console.log("評価基準ごとのスコア用カラムの追加が完了しました");
+    } catch (error) {
+      console.error("マイグレーション実行中にエラーが発生しました:", error);
+      throw error;
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    console.log("評価基準ごとのスコア用カラムを削除します");
+
+    try {
+      await queryRunner.query(`
+        ALTER TABLE evaluations
+        DROP COLUMN criteria_scores,
+        DROP COLUMN overall_score
+      `);
+
+      console.log("評価基準ごとのスコア用カラムの削除が完了しました");
+    } catch (error) {
+      console.error(
+        "マイグレーションロールバック中にエラーが発生しました:",
+        error
+      );
+      throw error;
+    }
+  }
+}
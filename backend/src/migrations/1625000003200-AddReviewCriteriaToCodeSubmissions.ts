@@ -0,0 +1,47 @@
+// backend/src/migrations/1625000003200-AddReviewCriteriaToCodeSubmissions.ts
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddReviewCriteriaToCodeSubmissions1625000003200
+  implements MigrationInterface
+{
+  name = "AddReviewCriteriaToCodeSubmissions1625000003200";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    console.log("コード提出にレビューで使用した評価基準のカラムを追加します");
+
+    try {
+      await queryRunner.query(`
+        ALTER TABLE code_submissions
+        ADD COLUMN criteria_academic_year INT NULL COMMENT 'レビューに使用した評価基準の年度',
+        ADD COLUMN criteria_version VARCHAR(64) NULL COMMENT 'レビューに使用した評価基準のバージョン',
+        ADD COLUMN criteria_snapshot TEXT NULL COMMENT 'レビューに使用した評価基準の内容（JSON）'
+      `);
+
+      console.log("評価基準のカラムの追加が完了しました");
+    } catch (error) {
+      console.error("マイグレーション実行中にエラーが発生しました:", error);
+      throw error;
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    console.log("コード提出の評価基準のカラムを削除します");
+
+    try {
+      await queryRunner.query(`
+        ALTER TABLE code_submissions
+        DROP COLUMN criteria_snapshot,
+        DROP COLUMN criteria_version,
+        DROP COLUMN criteria_academic_year
+      `);
+
+      console.log("評価基準のカラムの削除が完了しました");
+    } catch (error) {
+      console.error(
+        "マイグレーションロールバック中にエラーが発生しました:",
+        error
+      );
+      throw error;
+    }
+  }
+}
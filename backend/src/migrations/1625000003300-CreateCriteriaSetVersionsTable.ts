@@ -0,0 +1,115 @@
+// backend/src/migrations/1625000003300-CreateCriteriaSetVersionsTable.ts
+import { MigrationInterface, QueryRunner, Table } from "typeorm";
+
+export class CreateCriteriaSetVersionsTable1625000003300
+  implements MigrationInterface
+{
+  name = "CreateCriteriaSetVersionsTable1625000003300";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    console.log("評価基準セットのバージョンテーブルを作成します");
+
+    await queryRunner.createTable(
+      new Table({
+        name: "criteria_set_versions",
+        columns: [
+          {
+            name: "id",
+            type: "int",
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: "increment",
+          },
+          {
+            name: "academic_year",
+            type: "int",
+            isNullable: false,
+            comment: "対象の年度",
+          },
+          {
+            name: "version_number",
+            type: "int",
+            isNullable: true,
+            comment: "年度内のバージョン番号（下書きはNULL）",
+          },
+          {
+            name: "status",
+            type: "enum",
+            enum: ["draft", "published"],
+            default: "'published'",
+            comment: "下書き・公開済み",
+          },
+          {
+            name: "criteria",
+            type: "text",
+            isNullable: false,
+            comment: "評価基準セットの内容（JSON）",
+          },
+          {
+            name: "content_hash",
+            type: "varchar",
+            length: "64",
+            isNullable: false,
+            comment: "有効な評価基準から計算したハッシュ",
+          },
+          {
+            name: "change_note",
+            type: "text",
+            isNullable: true,
+            comment: "変更内容のメモ",
+          },
+          {
+            name: "source_version_id",
+            type: "int",
+            isNullable: true,
+            comment: "ロールバック・複製元のバージョンID",
+          },
+          {
+            name: "created_by",
+            type: "int",
+            isNullable: true,
+            comment: "変更したユーザー",
+          },
+          {
+            name: "created_at",
+            type: "timestamp",
+            default: "CURRENT_TIMESTAMP",
+          },
+          {
+            name: "published_at",
+            type: "timestamp",
+            isNullable: true,
+          },
+        ],
+        indices: [
+          {
+            name: "uq_criteria_set_versions_year_number",
+            columnNames: ["academic_year", "version_number"],
+            isUnique: true,
+          },
+          {
+            name: "idx_criteria_set_versions_year_status",
+            columnNames: ["academic_year", "status"],
+          },
+        ],
+        foreignKeys: [
+          {
+            columnNames: ["created_by"],
+            referencedTableName: "users",
+            referencedColumnNames: ["id"],
+            onDelete: "SET NULL",
+          },
+        ],
+      }),
+      true
+    );
+
+    console.log("評価基準セットのバージョンテーブルの作成が完了しました");
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    console.log("評価基準セットのバージョンテーブルを削除します");
+    await queryRunner.dropTable("criteria_set_versions");
+    console.log("評価基準セットのバージョンテーブルの削除が完了しました");
+  }
+}
@@ -0,0 +1,91 @@
+// backend/src/migrations/1625000003400-CreateFeedbackEmbeddingsTable.ts
+import { MigrationInterface, QueryRunner, Table } from "typeorm";
+
+export class CreateFeedbackEmbeddingsTable1625000003400
+  implements MigrationInterface
+{
+  name = "CreateFeedbackEmbeddingsTable1625000003400";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    console.log("フィードバックのベクトルテーブルを作成します");
+
+    await queryRunner.createTable(
+      new Table({
+        name: "feedback_embeddings",
+        columns: [
+          {
+            name: "id",
+            type: "int",
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: "increment",
+          },
+          {
+            name: "feedback_id",
+            type: "int",
+            isNullable: false,
+          },
+          {
+            name: "user_id",
+            type: "int",
+            isNullable: false,
+            comment: "フィードバックを受けたユーザー",
+          },
+          {
+            name: "content_hash",
+            type: "varchar",
+            length: "64",
+            isNullable: false,
+            comment: "ベクトル化したテキストのハッシュ",
+          },
+          {
+            name: "embedding",
+            type: "longtext",
+            isNullable: false,
+            comment: "ベクトル（JSON）",
+          },
+          {
+            name: "model",
+            type: "varchar",
+            length: "100",
+            isNullable: false,
+            comment: "ベクトル化に使用したモデル",
+          },
+          {
+            name: "created_at",
+            type: "timestamp",
+            default: "CURRENT_TIMESTAMP",
+          },
+        ],
+        indices: [
+          {
+            name: "uq_feedback_embeddings_feedback",
+            columnNames: ["feedback_id"],
+            isUnique: true,
+          },
+          {
+            name: "idx_feedback_embeddings_user",
+            columnNames: ["user_id"],
+          },
+        ],
+        foreignKeys: [
+          {
+            columnNames: ["feedback_id"],
+            referencedTableName: "feedback",
+            referencedColumnNames: ["id"],
+            onDelete: "CASCADE",
+          },
+        ],
+      }),
+      true
+    );
+
+    console.log("フィードバックのベクトルテーブルの作成が完了しました");
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    console.log("フィードバックのベクトルテーブルを削除します");
+    await queryRunner.dropTable("feedback_embeddings");
+    console.log("フィードバックのベクトルテーブルの削除が完了しました");
+  }
+}
@@ -0,0 +1,197 @@
+// backend/src/migrations/1625000003500-CreateRepositoryIndexTables.ts
+import { MigrationInterface, QueryRunner, Table } from "typeorm";
+
+export class CreateRepositoryIndexTables1625000003500
+  implements MigrationInterface
+{
+  name = "CreateRepositoryIndexTables1625000003500";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    console.log("リポジトリのインデックス管理テーブルを作成します");
+
+    await queryRunner.createTable(
+      new Table({
+        name: "repository_index_states",
+        columns: [
+          {
+            name: "id",
+            type: "int",
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: "increment",
+          },
+          {
+            name: "collection_name",
+            type: "varchar",
+            length: "255",
+            isNullable: false,
+          },
+          {
+            name: "project_key",
+            type: "varchar",
+            length: "50",
+            isNullable: false,
+          },
+          {
+            name: "repository_name",
+            type: "varchar",
+            length: "255",
+            isNullable: false,
+          },
+          {
+            name: "branch",
+            type: "varchar",
+            length: "100",
+            isNullable: false,
+          },
+          {
+            name: "last_commit_sha",
+            type: "varchar",
+            length: "64",
+            isNullable: true,
+            comment: "最後にインデックスを作成したコミット",
+          },
+          {
+            name: "file_count",
+            type: "int",
+            default: 0,
+          },
+          {
+            name: "chunk_count",
+            type: "int",
+            default: 0,
+          },
+          {
+            name: "status",
+            type: "enum",
+            enum: ["running", "succeeded", "failed"],
+            default: "'running'",
+          },
+          {
+            name: "last_added_files",
+            type: "int",
+            default: 0,
+          },
+          {
+            name: "last_updated_files",
+            type: "int",
+            default: 0,
+          },
+          {
+            name: "last_removed_files",
+            type: "int",
+            default: 0,
+          },
+          {
+            name: "last_error",
+            type: "text",
+            isNullable: true,
+          },
+          {
+            name: "last_run_at",
+            type: "timestamp",
+            isNullable: true,
+          },
+          {
+            name: "last_succeeded_at",
+            type: "timestamp",
+            isNullable: true,
+          },
+          {
+            name: "created_at",
+            type: "timestamp",
+            default: "CURRENT_TIMESTAMP",
+          },
+          {
+            name: "updated_at",
+            type: "timestamp",
+            default: "CURRENT_TIMESTAMP",
+            onUpdate: "CURRENT_TIMESTAMP",
+          },
+        ],
+        indices: [
+          {
+            name: "uq_repository_index_states_collection",
+            columnNames: ["collection_name"],
+            isUnique: true,
+          },
+        ],
+      }),
+      true
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: "repository_indexed_files",
+        columns: [
+          {
+            name: "id",
+            type: "int",
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: "increment",
+          },
+          {
+            name: "collection_name",
+            type: "varchar",
+            length: "255",
+            isNullable: false,
+          },
+          {
+            name: "file_path",
+            type: "varchar",
+            length: "500",
+            isNullable: false,
+          },
+          {
+            name: "content_hash",
+            type: "varchar",
+            length: "64",
+            isNullable: false,
+            comment: "ファイル内容のハッシュ",
+          },
+          {
+            name: "chunk_count",
+            type: "int",
+            default: 0,
+          },
+          {
+            name: "vector_ids",
+            type: "text",
+            isNullable: false,
+            comment: "ベクトルストアのドキュメントID（JSON）",
+          },
+          {
+            name: "commit_sha",
+            type: "varchar",
+            length: "64",
+            isNullable: false,
+          },
+          {
+            name: "updated_at",
+            type: "timestamp",
+            default: "CURRENT_TIMESTAMP",
+            onUpdate: "CURRENT_TIMESTAMP",
+          },
+        ],
+        indices: [
+          {
+            name: "uq_repository_indexed_files_collection_path",
+            columnNames: ["collection_name", "file_path"],
+            isUnique: true,
+          },
+        ],
+      }),
+      true
+    );
+
+    console.log("リポジトリのインデックス管理テーブルの作成が完了しました");
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    console.log("リポジトリのインデックス管理テーブルを削除します");
+    await queryRunner.dropTable("repository_indexed_files");
+    await queryRunner.dropTable("repository_index_states");
+    console.log("リポジトリのインデックス管理テーブルの削除が完了しました");
+  }
+}
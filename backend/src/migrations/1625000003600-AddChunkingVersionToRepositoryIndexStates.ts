@@ -0,0 +1,48 @@
+// backend/src/migrations/1625000003600-AddChunkingVersionToRepositoryIndexStates.ts
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddChunkingVersionToRepositoryIndexStates1625000003600
+  implements MigrationInterface
+{
+  name = "AddChunkingVersionToRepositoryIndexStates1625000003600";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    console.log(
+      "リポジトリのインデックス状態にチャンク分割方式のカラムを追加します"
+    );
+
+    try {
+      // 既存のインデックスは固定長で分割したもの（バージョン1）として扱う
+      await queryRunner.query(`
+        ALTER TABLE repository_index_states
+        ADD COLUMN chunking_version INT NOT NULL DEFAULT 1 COMMENT 'インデックス作成時のチャンク分割方式のバージョン'
+      `);
+
+      console.log("チャンク分割方式のカラムの追加が完了しました");
+    } catch (error) {
+      console.error("マイグレーション実行中にエラーが発生しました:", error);
+      throw error;
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    console.log(
+      "リポジトリのインデックス状態のチャンク分割方式のカラムを削除します"
+    );
+
+    try {
+      await queryRunner.query(`
+        ALTER TABLE repository_index_states
+        DROP COLUMN chunking_version
+      `);
+
+      console.log("チャンク分割方式のカラムの削除が完了しました");
+    } catch (error) {
+      console.error(
+        "マイグレーションロールバック中にエラーが発生しました:",
+        error
+      );
+      throw error;
+    }
+  }
+}
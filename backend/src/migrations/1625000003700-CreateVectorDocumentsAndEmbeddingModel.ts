@@ -0,0 +1,127 @@
+// backend/src/migrations/1625000003700-CreateVectorDocumentsAndEmbeddingModel.ts
+import { MigrationInterface, QueryRunner, Table } from "typeorm";
+
+export class CreateVectorDocumentsAndEmbeddingModel1625000003700
+  implements MigrationInterface
+{
+  name = "CreateVectorDocumentsAndEmbeddingModel1625000003700";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    console.log(
+      "ベクトル保存テーブルを作成し、埋め込みモデルのカラムを追加します"
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: "vector_documents",
+        columns: [
+          {
+            name: "id",
+            type: "int",
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: "increment",
+          },
+          {
+            name: "collection_name",
+            type: "varchar",
+            length: "255",
+            isNullable: false,
+          },
+          {
+            name: "document_id",
+            type: "varchar",
+            length: "500",
+            isNullable: false,
+            comment: "ベクトルストア上のドキュメントID",
+          },
+          {
+            name: "content",
+            type: "longtext",
+            isNullable: false,
+          },
+          {
+            name: "metadata",
+            type: "text",
+            isNullable: false,
+            comment: "メタデータ（JSON）",
+          },
+          {
+            name: "embedding",
+            type: "longtext",
+            isNullable: false,
+            comment: "ベクトル（JSON）",
+          },
+          {
+            name: "embedding_model",
+            type: "varchar",
+            length: "100",
+            isNullable: false,
+          },
+          {
+            name: "created_at",
+            type: "timestamp",
+            default: "CURRENT_TIMESTAMP",
+          },
+        ],
+        indices: [
+          {
+            name: "uq_vector_documents_collection_document",
+            columnNames: ["collection_name", "document_id"],
+            isUnique: true,
+          },
+          {
+            name: "idx_vector_documents_collection_model",
+            columnNames: ["collection_name", "embedding_model"],
+          },
+        ],
+      }),
+      true
+    );
+
+    try {
+      await queryRunner.query(`
+        ALTER TABLE repository_index_states
+        ADD COLUMN embedding_model VARCHAR(100) NULL COMMENT 'インデックスを作成した埋め込みモデル',
+        ADD COLUMN vector_store VARCHAR(20) NOT NULL DEFAULT 'chroma' COMMENT 'ベクトルの保存先'
+      `);
+
+      // 既存のインデックスはすべてOpenAIの text-embedding-ada-002 で作成されている
+      await queryRunner.query(`
+        UPDATE repository_index_states
+        SET embedding_model = 'text-embedding-ada-002'
+        WHERE last_succeeded_at IS NOT NULL
+      `);
+
+      console.log(
+        "ベクトル保存テーブルの作成と埋め込みモデルのカラムの追加が完了しました"
+      );
+    } catch (error) {
+      console.error("マイグレーション実行中にエラーが発生しました:", error);
+      throw error;
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    console.log("ベクトル保存テーブルと埋め込みモデルのカラムを削除します");
+
+    try {
+      await queryRunner.query(`
+        ALTER TABLE repository_index_states
+        DROP COLUMN vector_store,
+        DROP COLUMN embedding_model
+      `);
+      await queryRunner.dropTable("vector_documents");
+
+      console.log(
+        "ベクトル保存テーブルと埋め込みモデルのカラムの削除が完了しました"
+      );
+    } catch (error) {
+      console.error(
+        "マイグレーションロールバック中にエラーが発生しました:",
+        error
+      );
+      throw error;
+    }
+  }
+}
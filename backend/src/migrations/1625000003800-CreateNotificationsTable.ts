@@ -0,0 +1,134 @@
+// backend/src/migrations/1625000003800-CreateNotificationsTable.ts
+import { MigrationInterface, QueryRunner, Table } from "typeorm";
+
+export class CreateNotificationsTable1625000003800
+  implements MigrationInterface
+{
+  name = "CreateNotificationsTable1625000003800";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    console.log("通知テーブルを作成し、通知の配信設定のカラムを追加します");
+
+    await queryRunner.createTable(
+      new Table({
+        name: "notifications",
+        columns: [
+          {
+            name: "id",
+            type: "int",
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: "increment",
+          },
+          {
+            name: "user_id",
+            type: "int",
+            isNullable: false,
+          },
+          {
+            name: "type",
+            type: "enum",
+            enum: [
+              "review_completed",
+              "feedback_received",
+              "level_changed",
+              "system",
+            ],
+            isNullable: false,
+          },
+          {
+            name: "title",
+            type: "varchar",
+            length: "255",
+            isNullable: false,
+          },
+          {
+            name: "message",
+            type: "text",
+            isNullable: false,
+          },
+          {
+            name: "link",
+            type: "varchar",
+            length: "500",
+            isNullable: true,
+            comment: "通知から開く画面のパス",
+          },
+          {
+            name: "is_read",
+            type: "boolean",
+            default: false,
+          },
+          {
+            name: "read_at",
+            type: "timestamp",
+            isNullable: true,
+          },
+          {
+            name: "created_at",
+            type: "timestamp",
+            default: "CURRENT_TIMESTAMP",
+          },
+        ],
+        foreignKeys: [
+          {
+            columnNames: ["user_id"],
+            referencedTableName: "users",
+            referencedColumnNames: ["id"],
+            onDelete: "CASCADE",
+          },
+        ],
+        indices: [
+          {
+            name: "idx_notifications_user_read",
+            columnNames: ["user_id", "is_read"],
+          },
+        ],
+      }),
+      true
+    );
+
+    try {
+      await queryRunner.query(`
+        ALTER TABLE notification_settings
+        ADD COLUMN language VARCHAR(5) NOT NULL DEFAULT 'ja' COMMENT 'メール通知の言語'
+      `);
+
+      await queryRunner.query(`
+        ALTER TABLE user_groups
+        ADD COLUMN webhook_url VARCHAR(500) NULL COMMENT 'チャットのIncoming Webhook URL',
+        ADD COLUMN webhook_format VARCHAR(10) NOT NULL DEFAULT 'slack' COMMENT 'Webhookの形式（slack / teams）'
+      `);
+
+      console.log("通知テーブルの作成と配信設定のカラムの追加が完了しました");
+    } catch (error) {
+      console.error("マイグレーション実行中にエラーが発生しました:", error);
+      throw error;
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    console.log("通知テーブルと配信設定のカラムを削除します");
+
+    try {
+      await queryRunner.query(`
+        ALTER TABLE user_groups
+        DROP COLUMN webhook_format,
+        DROP COLUMN webhook_url
+      `);
+      await queryRunner.query(`
+        ALTER TABLE notification_settings
+        DROP COLUMN language
+      `);
+      await queryRunner.dropTable("notifications");
+
+      console.log("通知テーブルと配信設定のカラムの削除が完了しました");
+    } catch (error) {
+      console.error(
+        "マイグレーションロールバック中にエラーが発生しました:",
+        error
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,70 @@
+// backend/src/migrations/1625000003900-AddNotificationDigestSettings.ts
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddNotificationDigestSettings1625000003900
+  implements MigrationInterface
+{
+  name = "AddNotificationDigestSettings1625000003900";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    console.log("通知設定にダイジェスト・通知しない時間帯のカラムを追加します");
+
+    try {
+      await queryRunner.query(`
+        ALTER TABLE notification_settings
+        ADD COLUMN delivery_mode VARCHAR(20) NOT NULL DEFAULT 'immediate' COMMENT 'メール通知の送り方（immediate / daily_digest / weekly_digest）',
+        ADD COLUMN digest_hour TINYINT NOT NULL DEFAULT 9 COMMENT 'ダイジェストを送信する時刻（時）',
+        ADD COLUMN quiet_hours_start VARCHAR(5) NULL COMMENT '通知しない時間帯の開始（HH:MM）',
+        ADD COLUMN quiet_hours_end VARCHAR(5) NULL COMMENT '通知しない時間帯の終了（HH:MM）',
+        ADD COLUMN timezone VARCHAR(64) NOT NULL DEFAULT 'Asia/Tokyo' COMMENT 'タイムゾーン',
+        ADD COLUMN last_digest_sent_at TIMESTAMP NULL COMMENT '最後にダイジェストを送信した日時'
+      `);
+
+      await queryRunner.query(`
+        ALTER TABLE notifications
+        ADD COLUMN email_pending BOOLEAN NOT NULL DEFAULT FALSE COMMENT '通知しない時間帯のためメールの送信を保留している',
+        ADD INDEX idx_notifications_email_pending (email_pending)
+      `);
+
+      console.log(
+        "通知設定へのダイジェスト・通知しない時間帯のカラムの追加が完了しました"
+      );
+    } catch (error) {
+      console.error("マイグレーション実行中にエラーが発生しました:", error);
+      throw error;
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    console.log(
+      "通知設定からダイジェスト・通知しない時間帯のカラムを削除します"
+    );
+
+    try {
+      await queryRunner.query(`
+        ALTER TABLE notifications
+        DROP INDEX idx_notifications_email_pending,
+        DROP COLUMN email_pending
+      `);
+      await queryRunner.query(`
+        ALTER TABLE notification_settings
+        DROP COLUMN last_digest_sent_at,
+        DROP COLUMN timezone,
+        DROP COLUMN quiet_hours_end,
+        DROP COLUMN quiet_hours_start,
+        DROP COLUMN digest_hour,
+        DROP COLUMN delivery_mode
+      `);
+
+      console.log(
+        "通知設定からダイジェスト・通知しない時間帯のカラムの削除が完了しました"
+      );
+    } catch (error) {
+      console.error(
+        "マイグレーションロールバック中にエラーが発生しました:",
+        error
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,206 @@
+// backend/src/migrations/1625000004000-AddPasswordResetAndLoginSecurity.ts
+import { MigrationInterface, QueryRunner, Table } from "typeorm";
+
+export class AddPasswordResetAndLoginSecurity1625000004000
+  implements MigrationInterface
+{
+  name = "AddPasswordResetAndLoginSecurity1625000004000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    console.log(
+      "パスワード再設定・ログイン試行のテーブルと、アカウントロック・セッション管理のカラムを追加します"
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: "password_reset_tokens",
+        columns: [
+          {
+            name: "id",
+            type: "int",
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: "increment",
+          },
+          {
+            name: "user_id",
+            type: "int",
+            isNullable: false,
+          },
+          {
+            name: "token_hash",
+            type: "varchar",
+            length: "64",
+            isNullable: false,
+            comment: "トークンのSHA-256ハッシュ",
+          },
+          {
+            name: "expires_at",
+            type: "timestamp",
+            isNullable: false,
+          },
+          {
+            name: "used_at",
+            type: "timestamp",
+            isNullable: true,
+          },
+          {
+            name: "requested_ip",
+            type: "varchar",
+            length: "45",
+            isNullable: true,
+          },
+          {
+            name: "created_at",
+            type: "timestamp",
+            default: "CURRENT_TIMESTAMP",
+          },
+        ],
+        foreignKeys: [
+          {
+            columnNames: ["user_id"],
+            referencedTableName: "users",
+            referencedColumnNames: ["id"],
+            onDelete: "CASCADE",
+          },
+        ],
+        indices: [
+          {
+            name: "idx_password_reset_tokens_hash",
+            columnNames: ["token_hash"],
+            isUnique: true,
+          },
+        ],
+      }),
+      true
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: "login_attempts",
+        columns: [
+          {
+            name: "id",
+            type: "int",
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: "increment",
+          },
+          {
+            name: "email",
+            type: "varchar",
+            length: "255",
+            isNullable: false,
+          },
+          {
+            name: "user_id",
+            type: "int",
+            isNullable: true,
+            comment: "登録されていないメールアドレスの場合はNULL",
+          },
+          {
+            name: "succeeded",
+            type: "boolean",
+            isNullable: false,
+          },
+          {
+            name: "failure_reason",
+            type: "enum",
+            enum: ["unknown_email", "invalid_password", "locked"],
+            isNullable: true,
+          },
+          {
+            name: "ip_address",
+            type: "varchar",
+            length: "45",
+            isNullable: true,
+          },
+          {
+            name: "user_agent",
+            type: "varchar",
+            length: "500",
+            isNullable: true,
+          },
+          {
+            name: "created_at",
+            type: "timestamp",
+            default: "CURRENT_TIMESTAMP",
+          },
+        ],
+        foreignKeys: [
+          {
+            columnNames: ["user_id"],
+            referencedTableName: "users",
+            referencedColumnNames: ["id"],
+            onDelete: "CASCADE",
+          },
+        ],
+        indices: [
+          {
+            name: "idx_login_attempts_email_created",
+            columnNames: ["email", "created_at"],
+          },
+          {
+            name: "idx_login_attempts_user_created",
+            columnNames: ["user_id", "created_at"],
+          },
+        ],
+      }),
+      true
+    );
+
+    try {
+      await queryRunner.query(`
+        ALTER TABLE users
+        ADD COLUMN failed_login_count INT NOT NULL DEFAULT 0 COMMENT '連続したログイン失敗の回数',
+        ADD COLUMN locked_until TIMESTAMP NULL COMMENT 'アカウントロックの期限'
+      `);
+
+      await queryRunner.query(`
+        ALTER TABLE sessions
+        ADD COLUMN last_active_at TIMESTAMP NULL COMMENT '最後に利用された日時',
+        ADD COLUMN ip_address VARCHAR(45) NULL COMMENT 'ログイン時のIPアドレス',
+        ADD COLUMN user_agent VARCHAR(500) NULL COMMENT 'ログイン時のUser-Agent'
+      `);
+
+      console.log(
+        "パスワード再設定・ログイン試行のテーブルと、アカウントロック・セッション管理のカラムの追加が完了しました"
+      );
+    } catch (error) {
+      console.error("マイグレーション実行中にエラーが発生しました:", error);
+      throw error;
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    console.log(
+      "パスワード再設定・ログイン試行のテーブルと、アカウントロック・セッション管理のカラムを削除します"
+    );
+
+    try {
+      await queryRunner.query(`
+        ALTER TABLE sessions
+        DROP COLUMN user_agent,
+        DROP COLUMN ip_address,
+        DROP COLUMN last_active_at
+      `);
+      await queryRunner.query(`
+        ALTER TABLE users
+        DROP COLUMN locked_until,
+        DROP COLUMN failed_login_count
+      `);
+      await queryRunner.dropTable("login_attempts");
+      await queryRunner.dropTable("password_reset_tokens");
+
+      console.log(
+        "パスワード再設定・ログイン試行のテーブルと、アカウントロック・セッション管理のカラムの削除が完了しました"
+      );
+    } catch (error) {
+      console.error(
+        "マイグレーションロールバック中にエラーが発生しました:",
+        error
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,192 @@
+// backend/src/migrations/1625000004100-CreateSsoTables.ts
+import { MigrationInterface, QueryRunner, Table } from "typeorm";
+
+export class CreateSsoTables1625000004100 implements MigrationInterface {
+  name = "CreateSsoTables1625000004100";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    console.log("シングルサインオンのテーブルを作成します");
+
+    try {
+      await queryRunner.createTable(
+        new Table({
+          name: "user_sso_identities",
+          columns: [
+            {
+              name: "id",
+              type: "int",
+              isPrimary: true,
+              isGenerated: true,
+              generationStrategy: "increment",
+            },
+            {
+              name: "user_id",
+              type: "int",
+              isNullable: false,
+            },
+            {
+              name: "provider_id",
+              type: "varchar",
+              length: "50",
+              isNullable: false,
+              comment: "SSOプロバイダーの設定のID",
+            },
+            {
+              name: "subject",
+              type: "varchar",
+              length: "255",
+              isNullable: false,
+              comment: "IdPのユーザー識別子（OIDCの sub・SAMLの NameID）",
+            },
+            {
+              name: "email",
+              type: "varchar",
+              length: "255",
+              isNullable: false,
+            },
+            {
+              name: "last_login_at",
+              type: "timestamp",
+              isNullable: true,
+            },
+            {
+              name: "created_at",
+              type: "timestamp",
+              default: "CURRENT_TIMESTAMP",
+            },
+          ],
+          foreignKeys: [
+            {
+              columnNames: ["user_id"],
+              referencedTableName: "users",
+              referencedColumnNames: ["id"],
+              onDelete: "CASCADE",
+            },
+          ],
+          indices: [
+            {
+              name: "idx_user_sso_identities_subject",
+              columnNames: ["provider_id", "subject"],
+              isUnique: true,
+            },
+          ],
+        }),
+        true
+      );
+
+      await queryRunner.createTable(
+        new Table({
+          name: "sso_login_requests",
+          columns: [
+            {
+              name: "id",
+              type: "int",
+              isPrimary: true,
+              isGenerated: true,
+              generationStrategy: "increment",
+            },
+            {
+              name: "provider_id",
+              type: "varchar",
+              length: "50",
+              isNullable: false,
+            },
+            {
+              name: "state_hash",
+              type: "varchar",
+              length: "64",
+              isNullable: false,
+              comment: "state（SAMLの場合は RelayState）のSHA-256ハッシュ",
+            },
+            {
+              name: "code_verifier",
+              type: "varchar",
+              length: "128",
+              isNullable: true,
+            },
+            {
+              name: "nonce",
+              type: "varchar",
+              length: "64",
+              isNullable: true,
+            },
+            {
+              name: "saml_request_id",
+              type: "varchar",
+              length: "64",
+              isNullable: true,
+            },
+            {
+              name: "redirect_path",
+              type: "varchar",
+              length: "500",
+              isNullable: true,
+            },
+            {
+              name: "completed_at",
+              type: "timestamp",
+              isNullable: true,
+            },
+            {
+              name: "user_id",
+              type: "int",
+              isNullable: true,
+            },
+            {
+              name: "ticket_hash",
+              type: "varchar",
+              length: "64",
+              isNullable: true,
+              comment: "セッションと交換するチケットのSHA-256ハッシュ",
+            },
+            {
+              name: "expires_at",
+              type: "timestamp",
+              isNullable: false,
+            },
+            {
+              name: "created_at",
+              type: "timestamp",
+              default: "CURRENT_TIMESTAMP",
+            },
+          ],
+          indices: [
+            {
+              name: "idx_sso_login_requests_state",
+              columnNames: ["state_hash"],
+              isUnique: true,
+            },
+            {
+              name: "idx_sso_login_requests_ticket",
+              columnNames: ["ticket_hash"],
+              isUnique: true,
+            },
+          ],
+        }),
+        true
+      );
+
+      console.log("シングルサインオンのテーブルの作成が完了しました");
+    } catch (error) {
+      console.error("マイグレーション実行中にエラーが発生しました:", error);
+      throw error;
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    console.log("シングルサインオンのテーブルを削除します");
+
+    try {
+      await queryRunner.dropTable("sso_login_requests", true);
+      await queryRunner.dropTable("user_sso_identities", true);
+
+      console.log("シングルサインオンのテーブルの削除が完了しました");
+    } catch (error) {
+      console.error(
+        "マイグレーションロールバック中にエラーが発生しました:",
+        error
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,92 @@
+// backend/src/migrations/1625000004200-AddAIInlineCommentIds.ts
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddAIInlineCommentIds1625000004200 implements MigrationInterface {
+  name = "AddAIInlineCommentIds1625000004200";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    console.log(
+      "github_pull_request_trackersテーブルにai_inline_comment_idsカラムを追加します"
+    );
+
+    try {
+      await queryRunner.query(`
+        ALTER TABLE github_pull_request_trackers
+        ADD COLUMN ai_inline_comment_ids TEXT NULL COMMENT 'AIが投稿したコード行へのレビューコメントIDのリスト（JSON形式）'
+      `);
+
+      // これまで ai_review_comment_ids に混在していたインラインコメントのIDを移す
+      // （インラインコメントのIDはレビュー履歴の inline_comment_ids に記録されている）
+      const trackers: {
+        id: number;
+        ai_review_comment_ids: string | null;
+        review_history: string | null;
+      }[] = await queryRunner.query(`
+        SELECT id, ai_review_comment_ids, review_history
+        FROM github_pull_request_trackers
+      `);
+
+      for (const tracker of trackers) {
+        let commentIds: number[] = [];
+        let inlineCommentIds: number[] = [];
+        try {
+          commentIds = JSON.parse(tracker.ai_review_comment_ids || "[]");
+          const history: { inline_comment_ids?: number[] }[] = JSON.parse(
+            tracker.review_history || "[]"
+          );
+          inlineCommentIds = history.reduce(
+            (ids: number[], entry) =>
+              ids.concat(entry.inline_comment_ids || []),
+            []
+          );
+        } catch (parseError) {
+          console.warn(
+            `トラッカー #${tracker.id} のコメントIDを解析できないため移行をスキップします`
+          );
+          continue;
+        }
+
+        await queryRunner.query(
+          `
+          UPDATE github_pull_request_trackers
+          SET ai_review_comment_ids = ?, ai_inline_comment_ids = ?
+          WHERE id = ?
+          `,
+          [
+            JSON.stringify(
+              commentIds.filter((id) => !inlineCommentIds.includes(id))
+            ),
+            JSON.stringify(inlineCommentIds),
+            tracker.id,
+          ]
+        );
+      }
+
+      console.log("ai_inline_comment_idsカラムの追加が完了しました");
+    } catch (error) {
+      console.error("マイグレーション実行中にエラーが発生しました:", error);
+      throw error;
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    console.log(
+      "github_pull_request_trackersテーブルからai_inline_comment_idsカラムを削除します"
+    );
+
+    try {
+      await queryRunner.query(`
+        ALTER TABLE github_pull_request_trackers
+        DROP COLUMN ai_inline_comment_ids
+      `);
+
+      console.log("ai_inline_comment_idsカラムの削除が完了しました");
+    } catch (error) {
+      console.error(
+        "マイグレーションロールバック中にエラーが発生しました:",
+        error
+      );
+      throw error;
+    }
+  }
+}
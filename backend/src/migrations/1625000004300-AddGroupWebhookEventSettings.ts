@@ -0,0 +1,51 @@
+// backend/src/migrations/1625000004300-AddGroupWebhookEventSettings.ts
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddGroupWebhookEventSettings1625000004300
+  implements MigrationInterface
+{
+  name = "AddGroupWebhookEventSettings1625000004300";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    console.log(
+      "user_groupsテーブルにチャットへ投稿する通知の種類のカラムを追加します"
+    );
+
+    try {
+      await queryRunner.query(`
+        ALTER TABLE user_groups
+        ADD COLUMN webhook_review_completed TINYINT NOT NULL DEFAULT 1 COMMENT 'レビュー完了をチャットに投稿する',
+        ADD COLUMN webhook_feedback_received TINYINT NOT NULL DEFAULT 1 COMMENT 'フィードバックのチェックをチャットに投稿する',
+        ADD COLUMN webhook_level_changed TINYINT NOT NULL DEFAULT 1 COMMENT 'スキルレベルの変化をチャットに投稿する'
+      `);
+
+      console.log("チャットへ投稿する通知の種類のカラムの追加が完了しました");
+    } catch (error) {
+      console.error("マイグレーション実行中にエラーが発生しました:", error);
+      throw error;
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    console.log(
+      "user_groupsテーブルからチャットへ投稿する通知の種類のカラムを削除します"
+    );
+
+    try {
+      await queryRunner.query(`
+        ALTER TABLE user_groups
+        DROP COLUMN webhook_level_changed,
+        DROP COLUMN webhook_feedback_received,
+        DROP COLUMN webhook_review_completed
+      `);
+
+      console.log("チャットへ投稿する通知の種類のカラムの削除が完了しました");
+    } catch (error) {
+      console.error(
+        "マイグレーションロールバック中にエラーが発生しました:",
+        error
+      );
+      throw error;
+    }
+  }
+}
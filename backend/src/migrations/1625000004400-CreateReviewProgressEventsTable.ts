@@ -0,0 +1,121 @@
+// backend/src/migrations/1625000004400-CreateReviewProgressEventsTable.ts
+import { MigrationInterface, QueryRunner, Table } from "typeorm";
+
+export class CreateReviewProgressEventsTable1625000004400
+  implements MigrationInterface
+{
+  name = "CreateReviewProgressEventsTable1625000004400";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    console.log("レビュー進捗イベントのテーブルを作成します");
+
+    try {
+      await queryRunner.createTable(
+        new Table({
+          name: "review_progress_events",
+          columns: [
+            {
+              name: "id",
+              type: "int",
+              isPrimary: true,
+              isGenerated: true,
+              generationStrategy: "increment",
+            },
+            {
+              name: "user_id",
+              type: "int",
+              isNullable: true,
+              comment: "レビューの提出者（GitHubのPRレビューではNULL）",
+            },
+            {
+              name: "review_id",
+              type: "int",
+              isNullable: true,
+            },
+            {
+              name: "submission_id",
+              type: "int",
+              isNullable: true,
+            },
+            {
+              name: "pull_request",
+              type: "varchar",
+              length: "255",
+              isNullable: true,
+              comment: "GitHubのプルリクエスト（owner/repo#番号）",
+            },
+            {
+              name: "stage",
+              type: "varchar",
+              length: "30",
+              isNullable: false,
+            },
+            {
+              name: "message",
+              type: "varchar",
+              length: "255",
+              isNullable: false,
+            },
+            {
+              name: "feedback_count",
+              type: "int",
+              isNullable: true,
+            },
+            {
+              name: "attempt",
+              type: "int",
+              isNullable: true,
+            },
+            {
+              name: "will_retry",
+              type: "boolean",
+              isNullable: true,
+            },
+            {
+              name: "error",
+              type: "varchar",
+              length: "500",
+              isNullable: true,
+            },
+            {
+              name: "created_at",
+              type: "timestamp",
+              default: "CURRENT_TIMESTAMP",
+            },
+          ],
+          indices: [
+            {
+              name: "idx_review_progress_events_review",
+              columnNames: ["review_id", "id"],
+            },
+            {
+              name: "idx_review_progress_events_created",
+              columnNames: ["created_at"],
+            },
+          ],
+        }),
+        true
+      );
+
+      console.log("レビュー進捗イベントのテーブルの作成が完了しました");
+    } catch (error) {
+      console.error("マイグレーション実行中にエラーが発生しました:", error);
+      throw error;
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    console.log("レビュー進捗イベントのテーブルを削除します");
+
+    try {
+      await queryRunner.dropTable("review_progress_events", true);
+      console.log("レビュー進捗イベントのテーブルの削除が完了しました");
+    } catch (error) {
+      console.error(
+        "マイグレーションロールバック中にエラーが発生しました:",
+        error
+      );
+      throw error;
+    }
+  }
+}
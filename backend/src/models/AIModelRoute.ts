@@ -0,0 +1,51 @@
+// backend/src/models/AIModelRoute.ts
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from "typeorm";
+
+/**
+ * 機能ごとのAIモデルのルーティング設定
+ * 管理画面から編集され、サーバーを再起動せずに LLMProviderRegistry に反映される
+ */
+@Entity("ai_model_routes")
+export class AIModelRoute {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ length: 50, unique: true })
+  feature_key: string; // UsageLimit.feature_key と同じキー（code_review, ai_chat など）
+
+  @Column({ length: 30 })
+  provider: string;
+
+  @Column({ length: 255 })
+  model: string;
+
+  @Column({ type: "float", default: 0.2 })
+  temperature: number;
+
+  @Column({ type: "int", nullable: true })
+  max_tokens: number | null;
+
+  @Column({ type: "int", nullable: true })
+  timeout_ms: number | null;
+
+  @Column({ type: "text", nullable: true })
+  fallbacks: string; // JSON形式のフォールバック設定の配列
+
+  @Column({ default: true })
+  is_active: boolean;
+
+  @Column({ type: "int", nullable: true })
+  updated_by: number | null;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @UpdateDateColumn()
+  updated_at: Date;
+}
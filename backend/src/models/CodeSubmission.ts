@@ -42,6 +42,16 @@ export class CodeSubmission {
   @Column({ default: 1 })
   version: number;
 
+  // レビューに使用した評価基準の年度・バージョン・内容（CriteriaSnapshot のJSON文字列）
+  @Column({ type: "int", nullable: true })
+  criteria_academic_year: number | null;
+
+  @Column({ length: 64, nullable: true })
+  criteria_version: string;
+
+  @Column({ type: "text", nullable: true })
+  criteria_snapshot: string;
+
   @CreateDateColumn()
   created_at: Date;
 
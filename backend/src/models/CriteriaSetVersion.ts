@@ -0,0 +1,74 @@
+// backend/src/models/CriteriaSetVersion.ts
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from "typeorm";
+import { User } from "./User";
+
+export enum CriteriaSetVersionStatus {
+  DRAFT = "draft",
+  PUBLISHED = "published",
+}
+
+/**
+ * 年度ごとの評価基準セットのバージョン
+ * 公開済みのバージョンは変更せず、変更のたびに新しいバージョンを追加する
+ */
+@Entity("criteria_set_versions")
+@Index(
+  "uq_criteria_set_versions_year_number",
+  ["academic_year", "version_number"],
+  { unique: true }
+)
+@Index("idx_criteria_set_versions_year_status", ["academic_year", "status"])
+export class CriteriaSetVersion {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  academic_year: number;
+
+  // 公開時に年度内で採番する（下書きは null）
+  @Column({ type: "int", nullable: true })
+  version_number: number | null;
+
+  @Column({
+    type: "enum",
+    enum: CriteriaSetVersionStatus,
+    default: CriteriaSetVersionStatus.PUBLISHED,
+  })
+  status: CriteriaSetVersionStatus;
+
+  // 評価基準セットの内容（CriteriaSetItem[] のJSON文字列）
+  @Column({ type: "text" })
+  criteria: string;
+
+  // 有効な評価基準から計算したハッシュ（コード提出の criteria_version と対応する）
+  @Column({ length: 64 })
+  content_hash: string;
+
+  @Column({ type: "text", nullable: true })
+  change_note: string | null;
+
+  // ロールバック・複製元のバージョン
+  @Column({ type: "int", nullable: true })
+  source_version_id: number | null;
+
+  @Column({ type: "int", nullable: true })
+  created_by: number | null;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @Column({ type: "timestamp", nullable: true })
+  published_at: Date | null;
+
+  @ManyToOne(() => User, { onDelete: "SET NULL" })
+  @JoinColumn({ name: "created_by" })
+  author: User;
+}
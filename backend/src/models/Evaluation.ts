@@ -39,6 +39,14 @@ export class Evaluation {
   })
   overall_level: SkillLevel;
 
+  // 評価基準ごとの重みを反映した総合スコア（0〜10）
+  @Column({ type: 'float', nullable: true })
+  overall_score: number;
+
+  // 評価基準ごとのスコアと根拠（CriteriaScore[] のJSON文字列）
+  @Column({ type: 'text', nullable: true })
+  criteria_scores: string;
+
   @CreateDateColumn()
   created_at: Date;
 
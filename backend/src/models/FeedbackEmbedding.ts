@@ -0,0 +1,47 @@
+// backend/src/models/FeedbackEmbedding.ts
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from "typeorm";
+import { Feedback } from "./Feedback";
+
+/**
+ * フィードバック本文のベクトル（繰り返し指摘の検出に使用する）
+ * 内容が変わらない限り再計算しないよう、ハッシュと一緒に保存する
+ */
+@Entity("feedback_embeddings")
+export class FeedbackEmbedding {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index("uq_feedback_embeddings_feedback", { unique: true })
+  @Column()
+  feedback_id: number;
+
+  @Index("idx_feedback_embeddings_user")
+  @Column()
+  user_id: number;
+
+  // ベクトル化したテキストのハッシュ
+  @Column({ length: 64 })
+  content_hash: string;
+
+  // ベクトル（number[] のJSON文字列）
+  @Column({ type: "longtext" })
+  embedding: string;
+
+  @Column({ length: 100 })
+  model: string;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @ManyToOne(() => Feedback, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "feedback_id" })
+  feedback: Feedback;
+}
@@ -44,9 +44,15 @@ export class GitHubPullRequestTracker {
   @Column({ type: "text", nullable: true, default: "[]" })
   ai_review_comment_ids: string; // 新規追加: AIが投稿したレビューコメントのID
 
+  @Column({ type: "text", nullable: true, default: "[]" })
+  ai_inline_comment_ids: string; // AIが投稿したコード行へのレビューコメント（PRレビューコメント）のID
+
   @Column({ default: false })
   description_processed: boolean;
 
+  @Column({ length: 40, nullable: true })
+  last_reviewed_sha: string; // 最後にレビューしたヘッドコミットのSHA（プッシュ時の差分レビューの起点）
+
   @CreateDateColumn()
   created_at: Date;
 
@@ -9,6 +9,14 @@ import {
 } from "typeorm";
 import { GitHubPullRequestTracker } from "./GitHubPullRequestTracker";
 
+// AIレビューのチェック結果をマージ可否に反映する方針
+export enum GitHubCheckGatingPolicy {
+  NONE = "none", // 結果を表示するのみ（常に neutral）
+  HIGH_SECURITY = "high_security", // 優先度「高」のセキュリティ指摘が残っていれば失敗
+  HIGH_PRIORITY = "high_priority", // 優先度「高」の指摘が残っていれば失敗
+  ANY_IMPROVEMENT = "any_improvement", // 改善提案が1件でも残っていれば失敗
+}
+
 @Entity("github_repositories")
 export class GitHubRepository {
   @PrimaryGeneratedColumn()
@@ -32,6 +40,21 @@ export class GitHubRepository {
   @Column({ default: true })
   allow_auto_review: boolean;
 
+  // オープン中のPRへのプッシュで前回レビュー以降の差分を自動で再レビューするか
+  @Column({ default: false })
+  review_on_push: boolean;
+
+  // PRのヘッドコミットにAIレビューのチェックを作成するか
+  @Column({ default: false })
+  checks_enabled: boolean;
+
+  @Column({
+    type: "enum",
+    enum: GitHubCheckGatingPolicy,
+    default: GitHubCheckGatingPolicy.HIGH_SECURITY,
+  })
+  check_gating_policy: GitHubCheckGatingPolicy;
+
   @CreateDateColumn()
   created_at: Date;
 
@@ -0,0 +1,84 @@
+// backend/src/models/LLMUsageLog.ts
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from "typeorm";
+import { User } from "./User";
+import { Review } from "./Review";
+
+export enum LLMUsageStatus {
+  SUCCESS = "success",
+  ERROR = "error",
+}
+
+/**
+ * LLM呼び出し1回ごとのトークン数・レイテンシ・推定コストの記録
+ */
+@Entity("llm_usage_logs")
+@Index("idx_llm_usage_logs_feature_created", ["feature_key", "created_at"])
+@Index("idx_llm_usage_logs_user_created", ["user_id", "created_at"])
+@Index("idx_llm_usage_logs_review_id", ["review_id"])
+export class LLMUsageLog {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: "int", nullable: true })
+  user_id: number | null;
+
+  @Column({ type: "int", nullable: true })
+  review_id: number | null;
+
+  @Column({ type: "int", nullable: true })
+  submission_id: number | null;
+
+  @Column({ length: 50 })
+  feature_key: string; // AIFeature の値（code_review, ai_chat など）
+
+  @Column({ length: 30, nullable: true })
+  provider: string | null;
+
+  @Column({ length: 255 })
+  model: string;
+
+  @Column({ type: "int", default: 0 })
+  prompt_tokens: number;
+
+  @Column({ type: "int", default: 0 })
+  completion_tokens: number;
+
+  @Column({ type: "int", default: 0 })
+  total_tokens: number;
+
+  @Column({ type: "int", default: 0 })
+  latency_ms: number;
+
+  // 推定コスト（USD）。decimal は文字列で返るため集計時に数値へ変換する
+  @Column({ type: "decimal", precision: 12, scale: 6, default: 0 })
+  estimated_cost: string;
+
+  @Column({
+    type: "enum",
+    enum: LLMUsageStatus,
+    default: LLMUsageStatus.SUCCESS,
+  })
+  status: LLMUsageStatus;
+
+  @Column({ type: "text", nullable: true })
+  error_message: string | null;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @ManyToOne(() => User, { onDelete: "SET NULL" })
+  @JoinColumn({ name: "user_id" })
+  user: User;
+
+  @ManyToOne(() => Review, { onDelete: "SET NULL" })
+  @JoinColumn({ name: "review_id" })
+  review: Review;
+}
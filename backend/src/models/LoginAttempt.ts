@@ -0,0 +1,51 @@
+// backend/src/models/LoginAttempt.ts
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from "typeorm";
+
+export enum LoginFailureReason {
+  UNKNOWN_EMAIL = "unknown_email",
+  INVALID_PASSWORD = "invalid_password",
+  LOCKED = "locked",
+}
+
+/**
+ * ログイン試行の監査ログ
+ */
+@Entity("login_attempts")
+@Index("idx_login_attempts_email_created", ["email", "created_at"])
+@Index("idx_login_attempts_user_created", ["user_id", "created_at"])
+export class LoginAttempt {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ length: 255 })
+  email: string;
+
+  // 登録されていないメールアドレスの場合は null
+  @Column({ type: "int", nullable: true })
+  user_id: number | null;
+
+  @Column()
+  succeeded: boolean;
+
+  @Column({
+    type: "enum",
+    enum: LoginFailureReason,
+    nullable: true,
+  })
+  failure_reason: LoginFailureReason | null;
+
+  @Column({ type: "varchar", length: 45, nullable: true })
+  ip_address: string | null;
+
+  @Column({ type: "varchar", length: 500, nullable: true })
+  user_agent: string | null;
+
+  @CreateDateColumn()
+  created_at: Date;
+}
@@ -0,0 +1,65 @@
+// backend/src/models/Notification.ts
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from "typeorm";
+import { User } from "./User";
+
+export enum NotificationType {
+  REVIEW_COMPLETED = "review_completed",
+  FEEDBACK_RECEIVED = "feedback_received",
+  LEVEL_CHANGED = "level_changed",
+  SYSTEM = "system",
+}
+
+/**
+ * アプリ内の通知（受信箱）
+ */
+@Entity("notifications")
+@Index("idx_notifications_user_read", ["user_id", "is_read"])
+@Index("idx_notifications_email_pending", ["email_pending"])
+export class Notification {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  user_id: number;
+
+  @Column({
+    type: "enum",
+    enum: NotificationType,
+  })
+  type: NotificationType;
+
+  @Column({ length: 255 })
+  title: string;
+
+  @Column({ type: "text" })
+  message: string;
+
+  // 通知から開く画面のパス（例: /dashboard/reviews/1）
+  @Column({ type: "varchar", length: 500, nullable: true })
+  link: string | null;
+
+  @Column({ default: false })
+  is_read: boolean;
+
+  @Column({ type: "timestamp", nullable: true })
+  read_at: Date | null;
+
+  // 通知しない時間帯のため、メールの送信を保留している
+  @Column({ default: false })
+  email_pending: boolean;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: "user_id" })
+  user: User;
+}
@@ -10,6 +10,14 @@ import {
 } from "typeorm";
 import { User } from "./User";
 
+export type NotificationLanguage = "ja" | "en";
+
+// メール通知の送り方（都度送信 / 1日ごと・1週間ごとのダイジェスト）
+export type NotificationDeliveryMode =
+  | "immediate"
+  | "daily_digest"
+  | "weekly_digest";
+
 @Entity("notification_settings")
 export class NotificationSettings {
   @PrimaryGeneratedColumn()
@@ -33,6 +41,31 @@ export class NotificationSettings {
   @Column({ default: true })
   system_notifications: boolean;
 
+  // メール通知の言語
+  @Column({ type: "varchar", length: 5, default: "ja" })
+  language: NotificationLanguage;
+
+  @Column({ type: "varchar", length: 20, default: "immediate" })
+  delivery_mode: NotificationDeliveryMode;
+
+  // ダイジェストを送信する時刻（timezone の時、0〜23。週次は月曜日に送信）
+  @Column({ type: "tinyint", default: 9 })
+  digest_hour: number;
+
+  // メールを送らない時間帯（HH:MM、timezone の時刻。終了が開始より前の場合は日をまたぐ）
+  @Column({ type: "varchar", length: 5, nullable: true })
+  quiet_hours_start: string | null;
+
+  @Column({ type: "varchar", length: 5, nullable: true })
+  quiet_hours_end: string | null;
+
+  // IANAのタイムゾーン名（例: Asia/Tokyo）
+  @Column({ type: "varchar", length: 64, default: "Asia/Tokyo" })
+  timezone: string;
+
+  @Column({ type: "timestamp", nullable: true })
+  last_digest_sent_at: Date | null;
+
   @CreateDateColumn()
   created_at: Date;
 
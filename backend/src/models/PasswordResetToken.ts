@@ -0,0 +1,44 @@
+// backend/src/models/PasswordResetToken.ts
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from "typeorm";
+import { User } from "./User";
+
+/**
+ * パスワード再設定用のトークン（一度だけ使用でき、有効期限がある）
+ * トークン自体は保存せず、SHA-256のハッシュだけを保存する
+ */
+@Entity("password_reset_tokens")
+export class PasswordResetToken {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  user_id: number;
+
+  @Index("idx_password_reset_tokens_hash", { unique: true })
+  @Column({ length: 64 })
+  token_hash: string;
+
+  @Column({ type: "timestamp" })
+  expires_at: Date;
+
+  @Column({ type: "timestamp", nullable: true })
+  used_at: Date | null;
+
+  @Column({ type: "varchar", length: 45, nullable: true })
+  requested_ip: string | null;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @ManyToOne(() => User, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "user_id" })
+  user: User;
+}
@@ -0,0 +1,90 @@
+// backend/src/models/RepositoryIndexState.ts
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from "typeorm";
+
+export enum RepositoryIndexStatus {
+  RUNNING = "running",
+  SUCCEEDED = "succeeded",
+  FAILED = "failed",
+}
+
+/**
+ * リポジトリのベクトルインデックスの状態（コレクションごと）
+ */
+@Entity("repository_index_states")
+export class RepositoryIndexState {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index("uq_repository_index_states_collection", { unique: true })
+  @Column({ length: 255 })
+  collection_name: string;
+
+  @Column({ length: 50 })
+  project_key: string;
+
+  @Column({ length: 255 })
+  repository_name: string;
+
+  @Column({ length: 100 })
+  branch: string;
+
+  // 最後にインデックスを作成したコミット
+  @Column({ type: "varchar", length: 64, nullable: true })
+  last_commit_sha: string | null;
+
+  @Column({ type: "int", default: 0 })
+  file_count: number;
+
+  @Column({ type: "int", default: 0 })
+  chunk_count: number;
+
+  // インデックス作成時のチャンク分割方式のバージョン
+  @Column({ type: "int", default: 1 })
+  chunking_version: number;
+
+  // インデックスを作成した埋め込みモデルとベクトルの保存先
+  @Column({ type: "varchar", length: 100, nullable: true })
+  embedding_model: string | null;
+
+  @Column({ length: 20, default: "chroma" })
+  vector_store: string;
+
+  @Column({
+    type: "enum",
+    enum: RepositoryIndexStatus,
+    default: RepositoryIndexStatus.RUNNING,
+  })
+  status: RepositoryIndexStatus;
+
+  // 直近の実行で追加・更新・削除したファイル数
+  @Column({ type: "int", default: 0 })
+  last_added_files: number;
+
+  @Column({ type: "int", default: 0 })
+  last_updated_files: number;
+
+  @Column({ type: "int", default: 0 })
+  last_removed_files: number;
+
+  @Column({ type: "text", nullable: true })
+  last_error: string | null;
+
+  @Column({ type: "timestamp", nullable: true })
+  last_run_at: Date | null;
+
+  @Column({ type: "timestamp", nullable: true })
+  last_succeeded_at: Date | null;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @UpdateDateColumn()
+  updated_at: Date;
+}
@@ -0,0 +1,46 @@
+// backend/src/models/RepositoryIndexedFile.ts
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  UpdateDateColumn,
+  Index,
+} from "typeorm";
+
+/**
+ * ベクトルインデックスに登録済みのファイル
+ * 内容のハッシュが変わったファイルだけを再登録し、削除されたファイルのベクトルを消すために使用する
+ */
+@Entity("repository_indexed_files")
+@Index(
+  "uq_repository_indexed_files_collection_path",
+  ["collection_name", "file_path"],
+  { unique: true }
+)
+export class RepositoryIndexedFile {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ length: 255 })
+  collection_name: string;
+
+  @Column({ length: 500 })
+  file_path: string;
+
+  @Column({ length: 64 })
+  content_hash: string;
+
+  @Column({ type: "int", default: 0 })
+  chunk_count: number;
+
+  // ベクトルストアに登録したドキュメントID（string[] のJSON文字列）
+  @Column({ type: "text" })
+  vector_ids: string;
+
+  // このファイルを登録したときのコミット
+  @Column({ length: 64 })
+  commit_sha: string;
+
+  @UpdateDateColumn()
+  updated_at: Date;
+}
@@ -0,0 +1,68 @@
+// backend/src/models/ReviewJob.ts
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from "typeorm";
+import { CodeSubmission } from "./CodeSubmission";
+
+export enum ReviewJobStatus {
+  PENDING = "pending", // 実行待ち（リトライ待ちを含む）
+  PROCESSING = "processing", // ワーカーがリースを取得して処理中
+  COMPLETED = "completed", // 正常終了
+  DEAD = "dead", // 最大試行回数を超えたため処理を断念（デッドレター）
+}
+
+@Entity("review_jobs")
+@Index("idx_review_jobs_status_next_run", ["status", "next_run_at"])
+export class ReviewJob {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index("idx_review_jobs_submission_id")
+  @Column()
+  submission_id: number;
+
+  @Column({
+    type: "enum",
+    enum: ReviewJobStatus,
+    default: ReviewJobStatus.PENDING,
+  })
+  status: ReviewJobStatus;
+
+  @Column({ default: 0 })
+  attempts: number;
+
+  @Column({ default: 5 })
+  max_attempts: number;
+
+  @Column()
+  next_run_at: Date;
+
+  @Column({ type: "text", nullable: true })
+  last_error: string | null;
+
+  @Column({ type: "varchar", length: 100, nullable: true })
+  locked_by: string | null;
+
+  @Column({ type: "timestamp", nullable: true })
+  locked_at: Date | null;
+
+  @Column({ type: "timestamp", nullable: true })
+  completed_at: Date | null;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @UpdateDateColumn()
+  updated_at: Date;
+
+  @ManyToOne(() => CodeSubmission, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "submission_id" })
+  submission: CodeSubmission;
+}
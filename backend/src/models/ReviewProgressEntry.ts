@@ -0,0 +1,56 @@
+// backend/src/models/ReviewProgressEntry.ts
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from "typeorm";
+
+/**
+ * レビュー処理の進捗イベント
+ * ワーカーが書き込み、各プロセスのSSEエンドポイントがポーリングして配信する
+ */
+@Entity("review_progress_events")
+@Index("idx_review_progress_events_review", ["review_id", "id"])
+@Index("idx_review_progress_events_created", ["created_at"])
+export class ReviewProgressEntry {
+  // SSEのイベントIDとしても使う
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  // レビューの提出者（GitHubのPRレビューなど提出者がいない場合はnull）
+  @Column({ type: "int", nullable: true })
+  user_id: number | null;
+
+  @Column({ type: "int", nullable: true })
+  review_id: number | null;
+
+  @Column({ type: "int", nullable: true })
+  submission_id: number | null;
+
+  // GitHubのプルリクエスト（例: owner/repo#12）
+  @Column({ type: "varchar", length: 255, nullable: true })
+  pull_request: string | null;
+
+  @Column({ length: 30 })
+  stage: string;
+
+  @Column({ length: 255 })
+  message: string;
+
+  @Column({ type: "int", nullable: true })
+  feedback_count: number | null;
+
+  @Column({ type: "int", nullable: true })
+  attempt: number | null;
+
+  @Column({ type: "boolean", nullable: true })
+  will_retry: boolean | null;
+
+  @Column({ type: "varchar", length: 500, nullable: true })
+  error: string | null;
+
+  @CreateDateColumn()
+  created_at: Date;
+}
@@ -22,6 +22,16 @@ export class Session {
   @Column()
   expires_at: Date;
 
+  // 最後に利用された日時（有効期限の延長に合わせて更新）
+  @Column({ type: "timestamp", nullable: true })
+  last_active_at: Date | null;
+
+  @Column({ type: "varchar", length: 45, nullable: true })
+  ip_address: string | null;
+
+  @Column({ type: "varchar", length: 500, nullable: true })
+  user_agent: string | null;
+
   @CreateDateColumn()
   created_at: Date;
 
@@ -0,0 +1,59 @@
+// backend/src/models/SsoLoginRequest.ts
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from "typeorm";
+
+/**
+ * IdPへのログイン要求（IdPから戻ってきたときの照合用、一度だけ使用できる）
+ *
+ * IdPでの認証が済むと、フロントエンドがセッションと交換するためのチケットを発行する。
+ * state・チケットは保存せず、SHA-256のハッシュだけを保存する。
+ */
+@Entity("sso_login_requests")
+export class SsoLoginRequest {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ length: 50 })
+  provider_id: string;
+
+  @Index("idx_sso_login_requests_state", { unique: true })
+  @Column({ length: 64 })
+  state_hash: string;
+
+  // OIDC: PKCEのコード検証子とIDトークンの nonce
+  @Column({ type: "varchar", length: 128, nullable: true })
+  code_verifier: string | null;
+
+  @Column({ type: "varchar", length: 64, nullable: true })
+  nonce: string | null;
+
+  // SAML: 認証要求のID（レスポンスの InResponseTo と照合）
+  @Column({ type: "varchar", length: 64, nullable: true })
+  saml_request_id: string | null;
+
+  // ログイン後に表示するフロントエンドのパス
+  @Column({ type: "varchar", length: 500, nullable: true })
+  redirect_path: string | null;
+
+  // IdPから戻ってきた日時（この時点で state は使用済み）
+  @Column({ type: "timestamp", nullable: true })
+  completed_at: Date | null;
+
+  @Column({ type: "int", nullable: true })
+  user_id: number | null;
+
+  @Index("idx_sso_login_requests_ticket", { unique: true })
+  @Column({ type: "varchar", length: 64, nullable: true })
+  ticket_hash: string | null;
+
+  @Column({ type: "timestamp" })
+  expires_at: Date;
+
+  @CreateDateColumn()
+  created_at: Date;
+}
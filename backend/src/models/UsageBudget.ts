@@ -0,0 +1,71 @@
+// backend/src/models/UsageBudget.ts
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from "typeorm";
+
+export enum UsageBudgetScope {
+  USER = "user",
+  GROUP = "group",
+  PROJECT = "project",
+}
+
+export enum UsageBudgetMetric {
+  TOKENS = "tokens",
+  COST = "cost", // 推定コスト（USD）
+}
+
+export enum UsageBudgetPeriod {
+  DAILY = "daily",
+  WEEKLY = "weekly",
+  MONTHLY = "monthly",
+}
+
+/**
+ * トークン数または推定コストによる利用予算
+ * 呼び出し回数の上限（UsageLimit）に加えて適用される
+ */
+@Entity("usage_budgets")
+@Index("idx_usage_budgets_scope", ["scope", "scope_id"])
+export class UsageBudget {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: "enum", enum: UsageBudgetScope })
+  scope: UsageBudgetScope;
+
+  @Column()
+  scope_id: number; // users.id / user_groups.id / projects.id
+
+  @Column({ type: "varchar", length: 50, nullable: true })
+  feature_key: string | null; // NULLの場合は全機能の合計に適用
+
+  @Column({ type: "enum", enum: UsageBudgetMetric })
+  metric: UsageBudgetMetric;
+
+  @Column({ type: "enum", enum: UsageBudgetPeriod })
+  period: UsageBudgetPeriod;
+
+  // decimal は文字列で返るため利用時に数値へ変換する
+  @Column({ type: "decimal", precision: 14, scale: 6 })
+  limit_value: string;
+
+  @Column({ type: "float", default: 0.8 })
+  warning_threshold: number; // 上限に対してこの割合を超えたら警告を表示
+
+  @Column({ length: 255, nullable: true })
+  description: string;
+
+  @Column({ default: true })
+  is_active: boolean;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @UpdateDateColumn()
+  updated_at: Date;
+}
@@ -0,0 +1,44 @@
+// backend/src/models/UsageLimitOverride.ts
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from "typeorm";
+import { User } from "./User";
+
+/**
+ * 管理者が特定の新入社員に一時的に付与する利用制限の解除
+ * 有効期限まで呼び出し回数の上限と予算の上限の両方を適用しない
+ */
+@Entity("usage_limit_overrides")
+@Index("idx_usage_limit_overrides_user_expires", ["user_id", "expires_at"])
+export class UsageLimitOverride {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  user_id: number;
+
+  @Column({ type: "varchar", length: 50, nullable: true })
+  feature_key: string | null; // NULLの場合は全機能に適用
+
+  @Column({ type: "timestamp" })
+  expires_at: Date;
+
+  @Column({ length: 255, nullable: true })
+  reason: string;
+
+  @Column({ type: "int", nullable: true })
+  granted_by: number | null;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @ManyToOne(() => User, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "user_id" })
+  user: User;
+}
@@ -46,6 +46,14 @@ export class User {
   @Column({ nullable: true })
   join_year: number;
 
+  // 連続したログイン失敗の回数（ログインに成功するとリセット）
+  @Column({ default: 0 })
+  failed_login_count: number;
+
+  // ログイン失敗が続いたためにロックしている期限
+  @Column({ type: "timestamp", nullable: true })
+  locked_until: Date | null;
+
   @CreateDateColumn()
   created_at: Date;
 
@@ -9,6 +9,8 @@ import {
 } from "typeorm";
 import { UserGroupMember } from "./UserGroupMember";
 
+export type ChatWebhookFormat = "slack" | "teams";
+
 @Entity("user_groups")
 export class UserGroup {
   @PrimaryGeneratedColumn()
@@ -23,6 +25,23 @@ export class UserGroup {
   @Column({ default: true })
   is_active: boolean;
 
+  // メンバーへの通知を投稿するチャットのIncoming Webhook URL
+  @Column({ type: "varchar", length: 500, nullable: true })
+  webhook_url: string | null;
+
+  @Column({ type: "varchar", length: 10, default: "slack" })
+  webhook_format: ChatWebhookFormat;
+
+  // チャットに投稿する通知の種類（メンバー個人の通知設定とは別にグループで設定する）
+  @Column({ default: true })
+  webhook_review_completed: boolean;
+
+  @Column({ default: true })
+  webhook_feedback_received: boolean;
+
+  @Column({ default: true })
+  webhook_level_changed: boolean;
+
   @CreateDateColumn()
   created_at: Date;
 
@@ -0,0 +1,48 @@
+// backend/src/models/UserSsoIdentity.ts
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from "typeorm";
+import { User } from "./User";
+
+/**
+ * シングルサインオンのIdPのアカウントとユーザーの紐付け
+ * 2回目以降のログインはメールアドレスではなく、IdPのユーザー識別子（sub・NameID）で照合する
+ */
+@Entity("user_sso_identities")
+@Index("idx_user_sso_identities_subject", ["provider_id", "subject"], {
+  unique: true,
+})
+export class UserSsoIdentity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  user_id: number;
+
+  // SSOプロバイダーの設定のID
+  @Column({ length: 50 })
+  provider_id: string;
+
+  @Column({ length: 255 })
+  subject: string;
+
+  // 最後にログインしたときのIdPのメールアドレス
+  @Column({ length: 255 })
+  email: string;
+
+  @Column({ type: "timestamp", nullable: true })
+  last_login_at: Date | null;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @ManyToOne(() => User, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "user_id" })
+  user: User;
+}
@@ -0,0 +1,52 @@
+// backend/src/models/VectorDocument.ts
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from "typeorm";
+
+/**
+ * アプリのDBに保存したベクトル（VECTOR_STORE=mysql のときに使用する）
+ * 外部のベクトルDBを使えない環境でも類似検索ができるよう、ドキュメントと一緒に保存する
+ */
+@Entity("vector_documents")
+@Index(
+  "uq_vector_documents_collection_document",
+  ["collection_name", "document_id"],
+  { unique: true }
+)
+@Index("idx_vector_documents_collection_model", [
+  "collection_name",
+  "embedding_model",
+])
+export class VectorDocument {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ length: 255 })
+  collection_name: string;
+
+  // ベクトルストア上のドキュメントID
+  @Column({ length: 500 })
+  document_id: string;
+
+  @Column({ type: "longtext" })
+  content: string;
+
+  // メタデータ（JSON文字列）
+  @Column({ type: "text" })
+  metadata: string;
+
+  // ベクトル（number[] のJSON文字列）
+  @Column({ type: "longtext" })
+  embedding: string;
+
+  // ベクトルを作成した埋め込みモデル
+  @Column({ length: 100 })
+  embedding_model: string;
+
+  @CreateDateColumn()
+  created_at: Date;
+}
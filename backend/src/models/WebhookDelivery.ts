@@ -0,0 +1,38 @@
+// backend/src/models/WebhookDelivery.ts
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from "typeorm";
+
+export enum WebhookSource {
+  GITHUB = "github",
+  BACKLOG = "backlog",
+}
+
+/**
+ * 受信済みのWebhook配信（同じ配信の再送・リプレイを検出するために記録）
+ */
+@Entity("webhook_deliveries")
+@Index("uq_webhook_deliveries_source_delivery", ["source", "delivery_id"], {
+  unique: true,
+})
+@Index("idx_webhook_deliveries_received_at", ["received_at"])
+export class WebhookDelivery {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: "enum", enum: WebhookSource })
+  source: WebhookSource;
+
+  @Column({ length: 100 })
+  delivery_id: string; // GitHubは X-GitHub-Delivery、Backlogはアクティビティ ID
+
+  @Column({ type: "varchar", length: 100, nullable: true })
+  event_type: string | null;
+
+  @CreateDateColumn()
+  received_at: Date;
+}
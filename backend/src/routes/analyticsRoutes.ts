@@ -31,4 +31,7 @@ router.get("/export", analyticsExportController.exportReport);
 // 新入社員ランキングを取得
 router.get("/trainee-ranking", analyticsController.getTraineeRanking);
 
+// LLMのトークン数・推定コストのレポートを取得
+router.get("/llm-costs", analyticsController.getLLMCostReport);
+
 export default router;
@@ -1,9 +1,11 @@
 import express from "express";
 import { AuthController } from "../controllers/AuthController";
+import { SsoController } from "../controllers/SsoController";
 import { authenticate } from "../middlewares/authMiddleware";
 
 const router = express.Router();
 const authController = new AuthController();
+const ssoController = new SsoController();
 
 // ユーザー登録
 router.post("/register", authController.register);
@@ -17,4 +19,33 @@ router.get("/me", authenticate, authController.getCurrentUser);
 // ログアウト（認証が必要）
 router.post("/logout", authenticate, authController.logout);
 
+// パスワード再設定
+router.post("/password-reset/request", authController.requestPasswordReset);
+router.post("/password-reset/confirm", authController.resetPassword);
+
+// ログイン中の端末の管理（認証が必要）
+router.get("/sessions", authenticate, authController.getSessions);
+router.post(
+  "/sessions/revoke-others",
+  authenticate,
+  authController.revokeOtherSessions
+);
+router.delete("/sessions/:id", authenticate, authController.revokeSession);
+
+// ログイン履歴（認証が必要）
+router.get("/login-history", authenticate, authController.getLoginHistory);
+
+// シングルサインオン（OIDC・SAML）
+router.get("/sso/providers", ssoController.getProviders);
+router.post("/sso/exchange", ssoController.exchangeTicket);
+router.get("/sso/:providerId/login", ssoController.startLogin);
+router.get("/sso/:providerId/callback", ssoController.oidcCallback);
+router.post(
+  "/sso/:providerId/acs",
+  express.urlencoded({ extended: false, limit: "1mb" }),
+  ssoController.samlAssertionConsumer
+);
+router.get("/sso/:providerId/acs/complete", ssoController.samlComplete);
+router.get("/sso/:providerId/metadata", ssoController.samlMetadata);
+
 export default router;
@@ -22,6 +22,9 @@ router.get("/departments", employeeController.getDepartments);
 // 特定の社員を取得
 router.get("/:id", employeeController.getEmployeeById);
 
+// 社員が繰り返し指摘されている問題を取得
+router.get("/:id/recurring-mistakes", employeeController.getRecurringMistakes);
+
 // 社員情報を更新
 router.patch("/:id", employeeController.updateEmployee);
 
@@ -22,6 +22,59 @@ router.get("/year/:year", evaluationCriteriaController.getCriteriaForYear);
 router.get("/years", evaluationCriteriaController.getAllAcademicYears);
 
 // 以下は管理者専用ルート
+// 評価基準セットのバージョン履歴
+router.get(
+  "/versions",
+  requireAdmin,
+  evaluationCriteriaController.getCriteriaVersions
+);
+
+// 2つのバージョンの差分
+router.get(
+  "/versions/diff",
+  requireAdmin,
+  evaluationCriteriaController.diffCriteriaVersions
+);
+
+router.get(
+  "/versions/:id",
+  requireAdmin,
+  evaluationCriteriaController.getCriteriaVersion
+);
+
+// 年度の評価基準セットを別の年度の下書きとして複製
+router.post(
+  "/versions/clone",
+  requireAdmin,
+  evaluationCriteriaController.cloneCriteriaVersion
+);
+
+// 公開済みのバージョンにロールバック
+router.post(
+  "/versions/:id/rollback",
+  requireAdmin,
+  evaluationCriteriaController.rollbackCriteriaVersion
+);
+
+// 下書きの更新・公開・破棄
+router.put(
+  "/versions/:id",
+  requireAdmin,
+  evaluationCriteriaController.updateCriteriaDraft
+);
+
+router.post(
+  "/versions/:id/publish",
+  requireAdmin,
+  evaluationCriteriaController.publishCriteriaDraft
+);
+
+router.delete(
+  "/versions/:id",
+  requireAdmin,
+  evaluationCriteriaController.discardCriteriaDraft
+);
+
 // 新しい評価基準を作成
 router.post("/", requireAdmin, evaluationCriteriaController.createCriteria);
 
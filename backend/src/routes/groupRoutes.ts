@@ -1,89 +1,41 @@
-// backend/src/routes/githubRoutes.ts
+// backend/src/routes/groupRoutes.ts
 import express from "express";
-import { GitHubWebhookController } from "../controllers/GitHubWebhookController";
-import { GitHubRepositoryController } from "../controllers/GitHubRepositoryController";
+import { GroupController } from "../controllers/GroupController";
 import { authenticate, requireAdmin } from "../middlewares/authMiddleware";
 
 const router = express.Router();
-const githubWebhookController = new GitHubWebhookController();
-const githubRepositoryController = new GitHubRepositoryController();
+const groupController = new GroupController();
 
-// Webhookエンドポイント (認証なし)
-router.post("/webhook", githubWebhookController.handleWebhook);
+// 全てのユーザーがアクセス可能なエンドポイント
+router.get("/my", authenticate, groupController.getMyGroups);
+router.get("/mates", authenticate, groupController.getGroupMates);
+router.get("/:id", authenticate, groupController.getGroupById);
+router.get("/:id/members", authenticate, groupController.getGroupMembers);
 
-// GitHub情報取得
-router.get("/info", authenticate, githubWebhookController.getGitHubInfo);
+// 管理者専用エンドポイント
+router.get("/", authenticate, requireAdmin, groupController.getAllGroups);
+router.post("/", authenticate, requireAdmin, groupController.createGroup);
+router.patch("/:id", authenticate, requireAdmin, groupController.updateGroup);
+router.delete("/:id", authenticate, requireAdmin, groupController.deleteGroup);
 
-// PR関連エンドポイント
+// グループメンバー管理（管理者のみ）
 router.post(
-  "/check-prs",
+  "/:id/members",
   authenticate,
   requireAdmin,
-  githubWebhookController.checkExistingPRs
+  groupController.addGroupMember
 );
-
-// リポジトリテスト
-router.get(
-  "/test-repository/:id",
-  authenticate,
-  requireAdmin,
-  githubWebhookController.testRepository
-);
-
-// リポジトリ関連API (認証あり)
-router.get(
-  "/repositories",
-  authenticate,
-  githubRepositoryController.getAllRepositories
-);
-
-router.get(
-  "/repositories/:id",
-  authenticate,
-  githubRepositoryController.getRepositoryById
-);
-
-router.post(
-  "/repositories",
-  authenticate,
-  requireAdmin,
-  githubRepositoryController.createRepository
-);
-
-router.put(
-  "/repositories/:id",
-  authenticate,
-  requireAdmin,
-  githubRepositoryController.updateRepository
-);
-
-router.patch(
-  "/repositories/:id",
-  authenticate,
-  requireAdmin,
-  githubRepositoryController.updateRepository
-);
-
 router.delete(
-  "/repositories/:id",
+  "/:id/members/:userId",
   authenticate,
   requireAdmin,
-  githubRepositoryController.deleteRepository
+  groupController.removeGroupMember
 );
-
-// リポジトリ検証
-router.post(
-  "/validate-repository",
+router.patch(
+  "/:id/members/:userId/role",
   authenticate,
   requireAdmin,
-  githubRepositoryController.validateRepository
-);
-
-// オーナー別リポジトリ取得
-router.get(
-  "/owners/:owner/repositories",
-  authenticate,
-  githubRepositoryController.getRepositoriesByOwner
+  groupController.updateMemberRole
 );
 
 export default router;
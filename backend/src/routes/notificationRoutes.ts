@@ -0,0 +1,24 @@
+// backend/src/routes/notificationRoutes.ts
+import express from "express";
+import { NotificationController } from "../controllers/NotificationController";
+import { authenticate } from "../middlewares/authMiddleware";
+
+const router = express.Router();
+const notificationController = new NotificationController();
+
+// 認証ミドルウェアを適用
+router.use(authenticate);
+
+// 受信箱の通知一覧
+router.get("/", notificationController.getNotifications);
+
+// 未読件数
+router.get("/unread-count", notificationController.getUnreadCount);
+
+// すべて既読にする
+router.post("/read-all", notificationController.markAllAsRead);
+
+// 既読にする
+router.patch("/:id/read", notificationController.markAsRead);
+
+export default router;
@@ -1,19 +1,23 @@
 // backend/src/routes/queueRoutes.ts
 import express from "express";
-import { authenticate } from "../middlewares/authMiddleware";
-import { ReviewQueueService } from "../services/ReviewQueueService";
+import { authenticate, requireAdmin } from "../middlewares/authMiddleware";
+import { QueueController } from "../controllers/QueueController";
 
 const router = express.Router();
+const queueController = new QueueController();
 
 // キューの状態を取得
-router.get("/status", authenticate, (req, res) => {
-  const queueService = ReviewQueueService.getInstance();
-  const status = queueService.getQueueStatus();
+router.get("/status", authenticate, queueController.getQueueStatus);
 
-  res.status(200).json({
-    success: true,
-    data: status,
-  });
-});
+// ジョブ一覧を取得（管理者のみ）
+router.get("/jobs", authenticate, requireAdmin, queueController.getJobs);
+
+// デッドレターのジョブを再実行（管理者のみ）
+router.post(
+  "/jobs/:id/retry",
+  authenticate,
+  requireAdmin,
+  queueController.retryJob
+);
 
 export default router;
@@ -27,6 +27,12 @@ router.delete(
   repositoryWhitelistController.removeFromWhitelist
 );
 
+// リポジトリのベクトルインデックスを更新
+router.post(
+  "/:projectKey/:repositoryName/reindex",
+  repositoryWhitelistController.reindexRepository
+);
+
 // リポジトリのホワイトリスト状態を確認
 router.get(
   "/:projectKey/:repositoryName",
@@ -1,11 +1,13 @@
 // backend/src/routes/reviewRoutes.ts (更新版)
 import express from "express";
 import { ReviewController } from "../controllers/ReviewController";
+import { ReviewProgressStreamController } from "../controllers/ReviewProgressStreamController";
 import { authenticate } from "../middlewares/authMiddleware";
 import { checkUsageLimit, logUsage } from "../middlewares/usageLimitMiddleware";
 
 const router = express.Router();
 const reviewController = new ReviewController();
+const reviewProgressStreamController = new ReviewProgressStreamController();
 
 // 新規レビュー作成 (利用制限チェックと記録を追加)
 router.post(
@@ -19,7 +21,17 @@ router.post(
 // レビュー一覧取得
 router.get("/", authenticate, reviewController.getReviews);
 
+// レビュー処理の進捗（Server-Sent Events）
+router.get(
+  "/progress/stream",
+  authenticate,
+  reviewProgressStreamController.streamProgress
+);
+
 // 特定のレビュー取得
 router.get("/:id", authenticate, reviewController.getReviewById);
 
+// 類似する過去のレビューを取得
+router.get("/:id/similar", authenticate, reviewController.getSimilarReviews);
+
 export default router;
@@ -1,10 +1,12 @@
 // backend/src/routes/settingsRoutes.ts
 import express from "express";
 import { SettingsController } from "../controllers/SettingsController";
-import { authenticate } from "../middlewares/authMiddleware";
+import { AIModelRoutingController } from "../controllers/AIModelRoutingController";
+import { authenticate, requireAdmin } from "../middlewares/authMiddleware";
 
 const router = express.Router();
 const settingsController = new SettingsController();
+const aiModelRoutingController = new AIModelRoutingController();
 
 // 認証ミドルウェアを適用
 router.use(authenticate);
@@ -21,4 +23,17 @@ router.get("/notifications", settingsController.getNotificationSettings);
 // 通知設定更新
 router.patch("/notifications", settingsController.updateNotificationSettings);
 
+// AIモデルのルーティング設定（管理者のみ）
+router.get("/ai-models", requireAdmin, aiModelRoutingController.getRoutes);
+router.put(
+  "/ai-models/:featureKey",
+  requireAdmin,
+  aiModelRoutingController.updateRoute
+);
+router.delete(
+  "/ai-models/:featureKey",
+  requireAdmin,
+  aiModelRoutingController.deleteRoute
+);
+
 export default router;
@@ -1,10 +1,12 @@
 // backend/src/routes/usageLimitRoutes.ts
 import express from "express";
 import { UsageLimitController } from "../controllers/UsageLimitController";
+import { UsageBudgetController } from "../controllers/UsageBudgetController";
 import { authenticate, requireAdmin } from "../middlewares/authMiddleware";
 
 const router = express.Router();
 const usageLimitController = new UsageLimitController();
+const usageBudgetController = new UsageBudgetController();
 
 // 認証が必要なルート
 router.use(authenticate);
@@ -21,6 +23,18 @@ router.post("/log", usageLimitController.logUsage);
 // 以下は管理者権限が必要
 router.use(requireAdmin);
 
+// トークン数・推定コストの予算（/:featureKey より先に定義する）
+router.get("/budgets", usageBudgetController.getAllBudgets);
+router.get("/budgets/scopes", usageBudgetController.getScopeOptions);
+router.post("/budgets", usageBudgetController.createBudget);
+router.patch("/budgets/:id", usageBudgetController.updateBudget);
+router.delete("/budgets/:id", usageBudgetController.deleteBudget);
+
+// 新入社員への一時的な制限解除
+router.get("/overrides", usageBudgetController.getOverrides);
+router.post("/overrides", usageBudgetController.grantOverride);
+router.delete("/overrides/:id", usageBudgetController.revokeOverride);
+
 // 全ての制限を取得
 router.get("/", usageLimitController.getAllLimits);
 
@@ -1,5 +1,4 @@
 // backend/src/services/AIAssistantService.ts
-import { ChatOpenAI } from "@langchain/openai";
 import { StringOutputParser } from "@langchain/core/output_parsers";
 import { PromptTemplate } from "@langchain/core/prompts";
 import { ReviewService } from "./ReviewService";
@@ -7,54 +6,43 @@ import { SubmissionService } from "./SubmissionService";
 import { FeedbackService } from "./FeedbackService";
 import { BacklogService } from "./BacklogService";
 import { RepositoryVectorSearchService } from "./RepositoryVectorSearchService";
+import { ChatModelRunnable, LLMProviderRegistry } from "./LLMProviderRegistry";
+import { AIFeature } from "../constants/AIFeatures";
+import { LLMUsageService } from "./LLMUsageService";
 
 export class AIAssistantService {
-  private model: ChatOpenAI;
-  private streamingModel: ChatOpenAI;
   private outputParser: StringOutputParser;
   private reviewService: ReviewService;
   private submissionService: SubmissionService;
   private feedbackService: FeedbackService;
   private backlogService: BacklogService;
   private repositoryVectorService: RepositoryVectorSearchService;
+  private llmUsageService: LLMUsageService;
 
   constructor() {
-    // APIキーの存在確認
-    if (!process.env.OPENAI_API_KEY) {
-      console.warn("警告: OPENAI_API_KEY が環境変数に設定されていません");
-    }
-
-    // 適切なモデル名を確保
-    const modelName = process.env.OPENAI_MODEL || "gpt-4o";
-    console.log(`OpenAI モデルを使用: ${modelName}`);
-
-    try {
-      // 通常の応答用モデル
-      this.model = new ChatOpenAI({
-        modelName: modelName,
-        temperature: 0.7,
-        openAIApiKey: process.env.OPENAI_API_KEY,
-        timeout: 60000, // タイムアウトを60秒に設定
-      });
-
-      // ストリーミング応答用モデル
-      this.streamingModel = new ChatOpenAI({
-        modelName: modelName,
-        temperature: 0.7,
-        openAIApiKey: process.env.OPENAI_API_KEY,
-        streaming: true, // ストリーミングモードを有効化
-        timeout: 60000, // タイムアウトを60秒に設定
-      });
-    } catch (error) {
-      console.error("OpenAIモデル初期化エラー:", error);
-    }
-
     this.outputParser = new StringOutputParser();
     this.reviewService = new ReviewService();
     this.submissionService = new SubmissionService();
     this.feedbackService = new FeedbackService();
     this.backlogService = new BacklogService();
     this.repositoryVectorService = new RepositoryVectorSearchService();
+    this.llmUsageService = new LLMUsageService();
+  }
+
+  /**
+   * 通常の応答用モデル（管理画面のルーティング設定を即時反映するため都度解決する）
+   */
+  private get model(): ChatModelRunnable {
+    return LLMProviderRegistry.getInstance().getChatModel(AIFeature.AI_CHAT);
+  }
+
+  /**
+   * ストリーミング応答用モデル
+   */
+  private get streamingModel(): ChatModelRunnable {
+    return LLMProviderRegistry.getInstance().getChatModel(AIFeature.AI_CHAT, {
+      streaming: true, // ストリーミングモードを有効化
+    });
   }
 
   /**
@@ -71,7 +59,8 @@ export class AIAssistantService {
         suggestion: string;
         priority: string;
       }>;
-    }
+    },
+    userId?: number
   ): Promise<string> {
     try {
       console.log(
@@ -164,7 +153,13 @@ export class AIAssistantService {
 
       // プロンプトに変数を設定
       const chain = promptTemplate.pipe(this.model).pipe(this.outputParser);
-      const response = await chain.invoke(promptVariables);
+      const response = await chain.invoke(promptVariables, {
+        callbacks: this.llmUsageService.createCallbacks({
+          feature: AIFeature.AI_CHAT,
+          userId,
+          reviewId: reviewId || null,
+        }),
+      });
 
       console.log(`応答の生成が完了しました (${response.length} 文字)`);
       return response;
@@ -196,7 +191,8 @@ export class AIAssistantService {
         suggestion: string;
         priority: string;
       }>;
-    }
+    },
+    userId?: number
   ): AsyncGenerator<string> {
     try {
       console.log(`ストリーミングメッセージを処理中 (レビューID: ${reviewId})`);
@@ -278,7 +274,13 @@ export class AIAssistantService {
 
         // ストリーミングレスポンスを生成
         let bufferText = "";
-        const stream = await chain.stream(input);
+        const stream = await chain.stream(input, {
+          callbacks: this.llmUsageService.createCallbacks({
+            feature: AIFeature.AI_CHAT,
+            userId,
+            reviewId: reviewId || null,
+          }),
+        });
 
         // チャンクの最小サイズ（バイト）
         const MIN_CHUNK_SIZE = 4;
@@ -0,0 +1,154 @@
+// backend/src/services/AIModelRoutingService.ts
+import { AppDataSource } from "../index";
+import { AIModelRoute } from "../models/AIModelRoute";
+import {
+  AIFeature,
+  AI_FEATURE_LABELS,
+  LLMFeatureConfig,
+  LLMProviderName,
+  LLMRoutingRule,
+} from "../constants/AIFeatures";
+import { LLMProviderRegistry } from "./LLMProviderRegistry";
+
+export interface AIModelRouteInput {
+  provider: LLMProviderName;
+  model: string;
+  temperature: number;
+  max_tokens?: number | null;
+  timeout_ms?: number | null;
+  fallbacks?: Array<{
+    provider: LLMProviderName;
+    model: string;
+    temperature?: number;
+    max_tokens?: number | null;
+    timeout_ms?: number | null;
+  }>;
+  is_active?: boolean;
+}
+
+export class AIModelRoutingService {
+  private routeRepository = AppDataSource.getRepository(AIModelRoute);
+
+  /**
+   * 全機能のルーティング設定を取得（未設定の機能は現在の有効設定のみ返す）
+   */
+  async getAllRoutes(): Promise<
+    Array<{
+      feature_key: AIFeature;
+      label: string;
+      route: AIModelRoute | null;
+      effective: LLMFeatureConfig;
+      fallbacks: LLMFeatureConfig[];
+    }>
+  > {
+    const routes = await this.routeRepository.find();
+    const registry = LLMProviderRegistry.getInstance();
+
+    return Object.values(AIFeature).map((feature) => {
+      const route = routes.find((r) => r.feature_key === feature) || null;
+      return {
+        feature_key: feature,
+        label: AI_FEATURE_LABELS[feature],
+        route,
+        effective: registry.getFeatureConfig(feature),
+        fallbacks: registry.getRoutingRule(feature)?.fallbacks || [],
+      };
+    });
+  }
+
+  /**
+   * ルーティング設定を作成または更新し、即座に反映する
+   */
+  async upsertRoute(
+    featureKey: AIFeature,
+    input: AIModelRouteInput,
+    userId?: number
+  ): Promise<AIModelRoute> {
+    let route = await this.routeRepository.findOne({
+      where: { feature_key: featureKey },
+    });
+
+    if (!route) {
+      route = this.routeRepository.create({ feature_key: featureKey });
+    }
+
+    route.provider = input.provider;
+    route.model = input.model;
+    route.temperature = input.temperature;
+    route.max_tokens = input.max_tokens ?? null;
+    route.timeout_ms = input.timeout_ms ?? null;
+    route.fallbacks = JSON.stringify(input.fallbacks || []);
+    route.is_active = input.is_active ?? true;
+    route.updated_by = userId ?? null;
+
+    const saved = await this.routeRepository.save(route);
+    await this.refreshRegistry();
+    return saved;
+  }
+
+  /**
+   * ルーティング設定を削除（デフォルト設定に戻す）
+   */
+  async deleteRoute(featureKey: AIFeature): Promise<boolean> {
+    const result = await this.routeRepository.delete({
+      feature_key: featureKey,
+    });
+    await this.refreshRegistry();
+    return (result.affected || 0) > 0;
+  }
+
+  /**
+   * 有効なルーティング設定をDBから読み込み、レジストリに反映する
+   */
+  async refreshRegistry(): Promise<void> {
+    const routes = await this.routeRepository.find({
+      where: { is_active: true },
+    });
+
+    const rules = routes
+      .filter((route) =>
+        Object.values(AIFeature).includes(route.feature_key as AIFeature)
+      )
+      .map((route) => this.toRoutingRule(route));
+
+    LLMProviderRegistry.getInstance().setRoutingRules(rules);
+  }
+
+  /**
+   * DBの行をレジストリ用のルールに変換
+   */
+  private toRoutingRule(route: AIModelRoute): LLMRoutingRule {
+    const feature = route.feature_key as AIFeature;
+    const defaults =
+      LLMProviderRegistry.getInstance().getEnvironmentConfig(feature);
+
+    const primary: LLMFeatureConfig = {
+      provider: route.provider as LLMProviderName,
+      model: route.model,
+      temperature: route.temperature,
+      timeoutMs: route.timeout_ms ?? defaults.timeoutMs,
+      maxTokens: route.max_tokens ?? undefined,
+    };
+
+    let fallbacks: LLMFeatureConfig[] = [];
+    try {
+      const parsed: AIModelRouteInput["fallbacks"] = JSON.parse(
+        route.fallbacks || "[]"
+      );
+      fallbacks = (parsed || []).map((fallback) => ({
+        provider: fallback.provider,
+        model: fallback.model,
+        temperature: fallback.temperature ?? primary.temperature,
+        timeoutMs: fallback.timeout_ms ?? primary.timeoutMs,
+        maxTokens: fallback.max_tokens ?? primary.maxTokens,
+      }));
+    } catch (error) {
+      console.error(
+        `フォールバック設定の解析に失敗しました (${route.feature_key}):`,
+        error
+      );
+    }
+
+    return { ...primary, feature, fallbacks };
+  }
+}
@@ -1,6 +1,4 @@
 // backend/src/services/AIService.ts
-import { ChatOpenAI } from "@langchain/openai";
-import { ChatAnthropic } from "@langchain/anthropic";
 import { StringOutputParser } from "@langchain/core/output_parsers";
 import { PromptTemplate } from "@langchain/core/prompts";
 import { StructuredOutputParser } from "langchain/output_parsers";
@@ -20,8 +18,24 @@ import {
 } from "../constants/CodeEvaluationCriteria";
 import { BacklogService } from "./BacklogService";
 import { RepositoryVectorSearchService } from "./RepositoryVectorSearchService";
+import {
+  RepositoryChangedFile,
+  RepositoryContextBuilder,
+} from "./RepositoryContextBuilder";
 import { GitHubService } from "./GitHubService";
 import { GitHubRepository } from "../models/GitHubRepository";
+import { ChatModelRunnable, LLMProviderRegistry } from "./LLMProviderRegistry";
+import { AIFeature } from "../constants/AIFeatures";
+import { LLMUsageContext, LLMUsageService } from "./LLMUsageService";
+import { EvaluationService } from "./EvaluationService";
+import { EvaluationCriteriaService } from "./EvaluationCriteriaService";
+import {
+  EvaluationScoringService,
+  ScoringCriteria,
+} from "./EvaluationScoringService";
+import { CriteriaScoringService } from "./CriteriaScoringService";
+import { RecurringMistakeService } from "./RecurringMistakeService";
+import { ReviewProgressStage } from "./ReviewProgressRelay";
 
 // プルリクエストレビューのコンテキスト型
 interface PullRequestReviewContext {
@@ -34,6 +48,8 @@ interface PullRequestReviewContext {
   isPrUpdate?: boolean; // PR更新かどうかを追加
   previousFeedbacks?: any[]; // 前回のフィードバック情報を追加
   codeChangeSummary?: string; // コード変更サマリー
+  reviewId?: number; // LLM利用ログの紐付け用
+  userId?: number; // LLM利用ログの紐付け用
 }
 
 // GitHubプルリクエストレビューのコンテキスト型を定義
@@ -48,57 +64,54 @@ interface GitHubPullRequestReviewContext {
   previousFeedbacks?: any[];
   previousComments?: any[]; // 追加: 前回のコメント情報
   codeChangeSummary?: string;
+  incrementalBaseSha?: string; // 指定時はこのコミット以降の差分のみをレビュー
 }
+
 export class AIService {
-  // private model: ChatOpenAI;
-  private model: ChatAnthropic;
   private outputParser: StringOutputParser;
   private feedbackService: FeedbackService;
   private submissionService: SubmissionService;
   private backlogService: BacklogService;
   private githubService: GitHubService;
   private repositoryVectorService: RepositoryVectorSearchService;
+  private llmUsageService: LLMUsageService;
+  private scoringService: EvaluationScoringService;
+  private criteriaScoringService: CriteriaScoringService;
+  private recurringMistakeService: RecurringMistakeService;
 
   constructor() {
-    // APIキーの存在確認
-    if (!process.env.OPENAI_API_KEY) {
-      console.warn("OpenAI APIキーが環境変数に設定されていません");
-    }
-
-    // モデルの初期化
-    // const modelName = process.env.OPENAI_MODEL || "gpt-4o";
-    // console.log(`OpenAIモデルを初期化します: ${modelName}`);
-    const modelName = "claude-3-7-sonnet-20250219";
-    console.log(`OpenAIモデルを初期化します: ${modelName}`);
-
-    try {
-      // this.model = new ChatOpenAI({
-      //   modelName: modelName,
-      //   temperature: 0.1, // 一貫性のため低い温度を設定
-      //   openAIApiKey: process.env.OPENAI_API_KEY,
-      //   timeout: 120000, // タイムアウトを120秒に設定
-      // });
-      this.model = new ChatAnthropic({
-        modelName: modelName,
-        temperature: 0.1, // 一貫性のため低い温度を設定
-        anthropicApiKey: process.env.ANTHROPIC_API_KEY,
-      });
-    } catch (error) {
-      console.error("OpenAIモデルの初期化に失敗しました:", error);
-      throw new Error("AIサービスの初期化に失敗しました");
-    }
-
     this.outputParser = new StringOutputParser();
     this.feedbackService = new FeedbackService();
     this.submissionService = new SubmissionService();
     this.backlogService = new BacklogService();
     this.repositoryVectorService = new RepositoryVectorSearchService();
+    this.llmUsageService = new LLMUsageService();
+    this.scoringService = new EvaluationScoringService();
+    this.criteriaScoringService = new CriteriaScoringService(
+      () => this.model,
+      new EvaluationService(),
+      this.scoringService
+    );
+    this.recurringMistakeService = new RecurringMistakeService();
+  }
+
+  /**
+   * モデルを取得（管理画面のルーティング設定を即時反映するため都度解決する）
+   */
+  private get model(): ChatModelRunnable {
+    return LLMProviderRegistry.getInstance().getChatModel(
+      AIFeature.CODE_REVIEW
+    );
   }
 
   /**
    * コードレビューの実行
+   * @param onProgress 分析・フィードバック保存の各段階が完了したときに呼び出される
    */
-  async reviewCode(submission: CodeSubmission): Promise<void> {
+  async reviewCode(
+    submission: CodeSubmission,
+    onProgress?: (stage: ReviewProgressStage, feedbackCount: number) => void
+  ): Promise<void> {
     console.log(`コード提出 #${submission.id} のレビューを開始します`);
 
     try {
@@ -113,10 +126,52 @@ export class AIService {
         await AppDataSource.getRepository(Feedback).remove(existingFeedbacks);
       }
 
+      // LLM利用ログをレビューと提出者に紐付ける
+      const review = await this.submissionService.getReviewBySubmissionId(
+        submission.id
+      );
+
+      const usageContext: LLMUsageContext = {
+        feature: AIFeature.CODE_REVIEW,
+        userId: review?.user_id,
+        reviewId: submission.review_id,
+        submissionId: submission.id,
+      };
+
+      // 受講者の年度の評価基準を取得し、使用した基準を提出に記録
+      const { academicYear, criteria } =
+        await EvaluationCriteriaService.getInstance().getReviewCriteriaForUser(
+          review?.user_id
+        );
+      const criteriaSnapshot = this.scoringService.createCriteriaSnapshot(
+        academicYear,
+        criteria
+      );
+      if (criteriaSnapshot.criteria.length > 0) {
+        await this.submissionService.recordReviewCriteria(
+          submission.id,
+          criteriaSnapshot
+        );
+        console.log(
+          `評価基準 ${criteriaSnapshot.criteria.length} 件 (${
+            academicYear ?? "年度未設定"
+          }, バージョン ${criteriaSnapshot.version}) でレビューします`
+        );
+      }
+
+      // 過去のレビューで繰り返し指摘されている問題を取得
+      const recurringMistakes = review?.user_id
+        ? await this.recurringMistakeService.getPromptContext(review.user_id)
+        : "";
+
       // 評価基準とコードの分析結果を取得
       const evaluationResult = await this.evaluateCodeAgainstCriteria(
-        submission.code_content
+        submission.code_content,
+        criteriaSnapshot.criteria,
+        usageContext,
+        recurringMistakes
       );
+      onProgress?.("criteria_evaluated", evaluationResult.length);
 
       // フィードバックの生成
       const generatedFeedbacks = await this.generateFeedbackFromEvaluation(
@@ -127,6 +182,17 @@ export class AIService {
       console.log(
         `フィードバック ${generatedFeedbacks.length} 件を生成しました`
       );
+      onProgress?.("feedback_saved", generatedFeedbacks.length);
+
+      // 年度の評価基準による採点とスキルレベルの評価を保存
+      if (review?.user_id) {
+        await this.criteriaScoringService.saveCriteriaEvaluation(
+          submission,
+          review.user_id,
+          criteriaSnapshot.criteria,
+          this.llmUsageService.createCallbacks(usageContext)
+        );
+      }
 
       // コード提出ステータスを更新
       await this.submissionService.updateSubmissionStatus(
@@ -144,7 +210,12 @@ export class AIService {
   /**
    * コードを評価基準に照らして評価
    */
-  private async evaluateCodeAgainstCriteria(code: string): Promise<
+  private async evaluateCodeAgainstCriteria(
+    code: string,
+    criteria: ScoringCriteria[],
+    usageContext: LLMUsageContext,
+    recurringMistakes: string = ""
+  ): Promise<
     Array<{
       category: FeedbackCategory;
       problem_point: string;
@@ -184,30 +255,22 @@ export class AIService {
         )
       );
 
-      // 評価基準からプロンプトを構築
-      let criteriaPrompt = "";
-
-      Object.entries(CodeEvaluationCriteria).forEach(([category, criteria]) => {
-        criteriaPrompt += `\n## ${this.getCategoryDisplayName(
-          category as FeedbackCategory
-        )}\n`;
-        criteria.forEach((item, index) => {
-          criteriaPrompt += `${index + 1}. ${item}\n`;
-        });
-      });
+      // 管理画面で設定された評価基準からプロンプトを構築
+      const criteriaPrompt = this.buildCriteriaPrompt(criteria);
 
       // プロンプトテンプレートを作成
+      // 評価基準の説明やコード内の波括弧がテンプレート変数として解釈されないよう、変数として渡す
       const promptTemplate = PromptTemplate.fromTemplate(`
 あなたはプロフェッショナルなコードレビュアーとして、与えられたコードを評価します。
 以下の評価基準に沿って詳細かつ具体的なフィードバックを生成してください。
 
 # 評価基準
-${criteriaPrompt}
+{criteria}
 
 # 評価方法
 
 各評価基準について、以下の情報を含むフィードバックを生成してください：
-1. カテゴリ: 該当する評価基準のカテゴリ
+1. カテゴリ: 指摘内容に最も近いカテゴリ
 2. 問題点: 具体的な問題の説明（問題がない場合は遵守されている点を説明）
 3. 改善提案: 問題の解決方法（問題がない場合は現状維持のアドバイス）
 4. 優先度: high（重要）、medium（中程度）、low（軽微）
@@ -216,7 +279,8 @@ ${criteriaPrompt}
 7. 基準評価: コードがこの基準を満たしているかどうか（true/false）
 
 # 注意事項
-- 各カテゴリから最低1つ以上のフィードバックを生成してください。
+- 各評価基準について最低1つ以上のフィードバックを生成してください。
+- 重みの大きい評価基準ほど重点的に確認してください。
 - 一般的なプログラミングのベストプラクティスに基づいて評価してください。
 - 具体的で実用的なフィードバックを心がけてください。
 - 優先度の高い問題や重要なベストプラクティスを重視してください。
@@ -224,17 +288,30 @@ ${criteriaPrompt}
   - true = コードがこの基準を満たしている（問題なし）
   - false = コードがこの基準を満たしていない（問題あり）
 
+# この研修生が過去のレビューで繰り返し指摘されている問題
+{recurring_mistakes}
+
+上記と同じ問題が今回のコードにも見つかった場合は、優先度を high とし、問題点に過去にも繰り返し指摘されていることを明記してください。
+
 # 対象コード
 \`\`\`
-${code}
+{code}
 \`\`\`
 
-${outputParser.getFormatInstructions()}
+{format_instructions}
 `);
 
       // モデルにクエリを送信
       const chain = promptTemplate.pipe(this.model).pipe(outputParser);
-      const result = await chain.invoke({});
+      const result = await chain.invoke(
+        {
+          criteria: criteriaPrompt,
+          recurring_mistakes: recurringMistakes || "（なし）",
+          code,
+          format_instructions: outputParser.getFormatInstructions(),
+        },
+        { callbacks: this.llmUsageService.createCallbacks(usageContext) }
+      );
 
       console.log(
         `評価結果: ${result.length} 件のフィードバックが生成されました`
@@ -247,6 +324,37 @@ ${outputParser.getFormatInstructions()}
     }
   }
 
+  /**
+   * 評価基準をプロンプト用の文字列に変換
+   * 有効な評価基準が登録されていない場合は固定の観点を使用する
+   */
+  private buildCriteriaPrompt(criteria: ScoringCriteria[]): string {
+    let criteriaPrompt = "";
+
+    if (criteria.length > 0) {
+      criteria.forEach((c) => {
+        criteriaPrompt += `\n## ${c.name} (重み: ${c.weight})\n`;
+        if (c.description) {
+          criteriaPrompt += `${c.description}\n`;
+        }
+      });
+    } else {
+      console.warn(
+        "有効な評価基準が登録されていないため、固定の評価基準でレビューします"
+      );
+      Object.entries(CodeEvaluationCriteria).forEach(([category, items]) => {
+        criteriaPrompt += `\n## ${this.getCategoryDisplayName(
+          category as FeedbackCategory
+        )}\n`;
+        items.forEach((item, index) => {
+          criteriaPrompt += `${index + 1}. ${item}\n`;
+        });
+      });
+    }
+
+    return criteriaPrompt;
+  }
+
   /**
    * フィードバックカテゴリの表示名を取得
    */
@@ -598,7 +706,12 @@ ${outputParser.getFormatInstructions()}
               // 問題が解決されたかどうかを評価
               const isResolved = await this.evaluateFeedbackResolution(
                 feedback,
-                currentCode
+                currentCode,
+                {
+                  feature: AIFeature.CODE_REVIEW,
+                  userId: context?.userId,
+                  reviewId: context?.reviewId,
+                }
               );
 
               if (isResolved) {
@@ -885,7 +998,13 @@ ${outputParser.getFormatInstructions()}
       ];
 
       // OpenAIモデルを直接呼び出す
-      const result = await this.model.invoke(messages);
+      const result = await this.model.invoke(messages, {
+        callbacks: this.llmUsageService.createCallbacks({
+          feature: AIFeature.CODE_REVIEW,
+          userId: context?.userId,
+          reviewId: context?.reviewId,
+        }),
+      });
 
       // 結果をパースする - エラーハンドリングを強化
       let parsedResult;
@@ -999,7 +1118,8 @@ ${outputParser.getFormatInstructions()}
    */
   private async evaluateFeedbackResolution(
     feedback: any,
-    currentCode: string
+    currentCode: string,
+    usageContext: LLMUsageContext
   ): Promise<boolean> {
     try {
       // 問題のあるコードスニペットがある場合は特に注目
@@ -1037,7 +1157,10 @@ ${outputParser.getFormatInstructions()}
 
       // モデルにクエリを送信
       const chain = prompt.pipe(this.model).pipe(new StringOutputParser());
-      const result = await chain.invoke({});
+      const result = await chain.invoke(
+        {},
+        { callbacks: this.llmUsageService.createCallbacks(usageContext) }
+      );
 
       // 結果を解析 - より寛容に判断
       // "ある程度" "部分的" などの言葉があっても解決とみなす
@@ -1218,6 +1341,8 @@ ${outputParser.getFormatInstructions()}
       point: string;
       suggestion?: string;
       code_snippet?: string;
+      suggested_code?: string;
+      priority?: FeedbackPriority;
       reference_url?: string;
       review_token?: string;
     }>
@@ -1252,7 +1377,8 @@ ${outputParser.getFormatInstructions()}
       const diffData = await this.githubService.getPullRequestDiff(
         owner,
         repo,
-        pullRequestId
+        pullRequestId,
+        { sinceSha: context?.incrementalBaseSha }
       );
 
       // 差分からコードを抽出
@@ -1277,6 +1403,8 @@ ${outputParser.getFormatInstructions()}
             point: z.string(),
             suggestion: z.string().optional(),
             code_snippet: z.string().optional(),
+            suggested_code: z.string().optional(),
+            priority: z.nativeEnum(FeedbackPriority).optional(),
             reference_url: z.string().optional(),
           })
         )
@@ -1301,6 +1429,22 @@ ${outputParser.getFormatInstructions()}
         };
       }
 
+      // 管理画面で設定された現在の年度の評価基準を使用（PRの作成者は受講者と紐付かないため）
+      const { academicYear, criteria } =
+        await EvaluationCriteriaService.getInstance().getReviewCriteriaForUser();
+      const criteriaPrompt = this.buildCriteriaPrompt(
+        this.scoringService.createCriteriaSnapshot(academicYear, criteria)
+          .criteria
+      );
+
+      // ベースブランチのインデックスから変更内容に関連するコードを取得
+      const repositoryContext = await this.buildGitHubRepositoryContext(
+        owner,
+        repo,
+        prInfo.base,
+        diffData
+      );
+
       // 過去のレビュー履歴処理の改善
       let historyContext = "";
       let previousFeedbacksContext = "";
@@ -1369,7 +1513,7 @@ ${outputParser.getFormatInstructions()}
         {
           role: "system",
           content:
-            "あなたはIT企業における新入社員の成長を支援する教育担当メンターです。新入社員がコードレビューを通じて学べるよう、励ましながらも具体的な改善点を提示します。完璧さよりも成長を重視し、良い部分を積極的に評価するとともに、すべての問題に公平に向き合う姿勢を教えてください。指定された形式で結果を返し、必ず以下のルールを守ってください:\n\n1. 応答は純粋なJSONのみを含めること\n2. マークダウンのコードブロック (```) で囲まないこと\n3. 最初から最後まで有効なJSON配列のみを返すこと\n4. JSON配列は必ず [ で始まり ] で終わること\n5. JSONの前後に他のテキストを含めないこと\n6. JSONコメント(// や /* */)を含めないこと\n7. 決して解答例を提示せず、改善案と参考資料のみを提示すること",
+            "あなたはIT企業における新入社員の成長を支援する教育担当メンターです。新入社員がコードレビューを通じて学べるよう、励ましながらも具体的な改善点を提示します。完璧さよりも成長を重視し、良い部分を積極的に評価するとともに、すべての問題に公平に向き合う姿勢を教えてください。指定された形式で結果を返し、必ず以下のルールを守ってください:\n\n1. 応答は純粋なJSONのみを含めること\n2. マークダウンのコードブロック (```) で囲まないこと\n3. 最初から最後まで有効なJSON配列のみを返すこと\n4. JSON配列は必ず [ で始まり ] で終わること\n5. JSONの前後に他のテキストを含めないこと\n6. JSONコメント(// や /* */)を含めないこと\n7. 決して解答例を提示せず、改善案と参考資料のみを提示すること（機械的な修正に限り suggested_code で修正後のコードを示してよい）",
         },
         {
           role: "user",
@@ -1405,17 +1549,36 @@ ${previousFeedbacksContext}
     : ""
 }
 
+${
+  context?.incrementalBaseSha
+    ? `
+# 差分レビュー指示
+以下のコード内容は、前回レビューしたコミット（${context.incrementalBaseSha.substring(
+        0,
+        7
+      )}）以降にプッシュされた変更のみです。
+今回の変更に含まれるコードだけを対象にフィードバックし、変更されていない部分への指摘は繰り返さないでください。
+`
+    : ""
+}
+
+${
+  repositoryContext
+    ? `
+# リポジトリ内の関連コード
+以下はベースブランチ（${prInfo.base}）から変更内容に類似するコードを抽出したものです。
+既存コードの命名・設計・書き方との一貫性を確認する参考にしてください（これらのコード自体はレビュー対象ではありません）。
+関連コードに言及する場合は、見出しの「ファイル:行範囲」で参照元を示してください。
+
+${repositoryContext}
+`
+    : ""
+}
+
 # 評価基準（新入社員向け）
 教育目的のレビューのため、すべての問題に対して公平に問題意識を持たせるよう指導してください：
 
-${Object.entries(CodeEvaluationCriteria)
-  .map(([category, criteria]) => {
-    return (
-      `\n## ${this.getCategoryDisplayName(category as FeedbackCategory)}\n` +
-      criteria.map((item, index) => `${index + 1}. ${item}`).join("\n")
-    );
-  })
-  .join("\n")}
+${criteriaPrompt}
 
 # 評価方法
 以下の情報を含むフィードバックを JSON 配列形式で生成してください。良い点と改善点を明確に区別して記述します：
@@ -1425,15 +1588,19 @@ ${Object.entries(CodeEvaluationCriteria)
 3. point: 良い点または改善点の説明（具体的に何が良いか、何を改善すべきか）
 4. suggestion: 改善点の場合の具体的なアドバイス（良い点の場合は省略可）
 5. code_snippet: 問題点となっているコード(解答コードではない)
-6. reference_url: 学習に役立つ参考資料へのリンク（省略可）
+6. suggested_code: 機械的な修正の場合のみ、code_snippet の行を置き換える修正後のコード（省略可）
+7. priority: 改善点の重大度 ("high" = 脆弱性や動作不良などマージ前に必ず修正すべき問題, "medium", "low")
+8. reference_url: 学習に役立つ参考資料へのリンク（省略可）
 
 # 評価の重要ポイント
 - 良い点は必ず "strength" タイプ、改善点は必ず "improvement" タイプとして区別すること
 - 各カテゴリに対して少なくとも1つの良い点を見つけるよう努めてください
-- すべての問題は公平に扱い、優先度による区別はしないでください
+- すべての問題は公平に扱い、優先度による区別はしないでください（priority はマージ可否の自動判定にのみ使われるため、伝え方を変える必要はありません）
 - 特に初心者が躓きやすい点については、詳細な説明と具体的な改善例を示してください
 - 新入社員が自発的に学ぶための参考資料へのリンクを積極的に提案してください
 - 再レビュー時は、前回からの成長を積極的に評価し、次のステップを明確に示してください
+- suggested_code はタイプミス・不要なデバッグ出力の削除・インデントや命名の統一など、考える余地のない機械的な修正に限って使用してください
+- suggested_code を使う場合、code_snippet には置き換え対象の行をPRのコードから改行・インデントを含めてそのまま(行単位で)写してください
 
 # 出力形式
 必ず以下の JSON 配列形式のみで回答してください：
@@ -1474,8 +1641,12 @@ ${formatInstructions}`,
         },
       ];
 
-      // モデルを呼び出す
-      const result = await this.model.invoke(messages);
+      // モデルを呼び出す（GitHub PRはレビューと紐付かないため機能単位で記録）
+      const result = await this.model.invoke(messages, {
+        callbacks: this.llmUsageService.createCallbacks({
+          feature: AIFeature.CODE_REVIEW,
+        }),
+      });
 
       // 結果をパースする - エラーハンドリングを強化
       let parsedResult;
@@ -1529,6 +1700,12 @@ ${formatInstructions}`,
         point: item.point,
         suggestion: item.suggestion,
         code_snippet: item.code_snippet,
+        suggested_code:
+          item.feedback_type === "improvement"
+            ? item.suggested_code
+            : undefined,
+        priority:
+          item.feedback_type === "improvement" ? item.priority : undefined,
         reference_url: item.reference_url,
         review_token: reviewToken,
       }));
@@ -1555,6 +1732,40 @@ ${formatInstructions}`,
     }
   }
 
+  /**
+   * GitHub PRの変更内容に類似するコードをリポジトリのインデックスから取得
+   * インデックスが未作成の場合や検索に失敗した場合は空文字を返す
+   */
+  private async buildGitHubRepositoryContext(
+    owner: string,
+    repo: string,
+    branch: string,
+    diffData: any
+  ): Promise<string> {
+    try {
+      const collectionName =
+        this.repositoryVectorService.getGitHubCollectionName(
+          owner,
+          repo,
+          branch
+        );
+      const changedFiles: RepositoryChangedFile[] =
+        diffData && typeof diffData === "object" && diffData.changedFiles
+          ? diffData.changedFiles
+          : [];
+
+      return await new RepositoryContextBuilder(
+        this.repositoryVectorService
+      ).build(collectionName, changedFiles);
+    } catch (error) {
+      console.error(
+        `リポジトリの関連コード取得エラー (${owner}/${repo}):`,
+        error
+      );
+      return "";
+    }
+  }
+
   /**
    * GitHub PR差分からコード内容を抽出
    */
@@ -1671,10 +1882,13 @@ ${formatInstructions}`,
    * AIモデルを使用してメッセージを処理する
    */
   async processMessages(
-    messages: Array<{ role: string; content: string }>
+    messages: Array<{ role: string; content: string }>,
+    usageContext: LLMUsageContext = { feature: AIFeature.CODE_REVIEW }
   ): Promise<any> {
     try {
-      return await this.model.invoke(messages);
+      return await this.model.invoke(messages, {
+        callbacks: this.llmUsageService.createCallbacks(usageContext),
+      });
     } catch (error) {
       console.error("AIモデルの処理中にエラーが発生しました:", error);
       throw error;
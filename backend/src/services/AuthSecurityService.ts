@@ -0,0 +1,214 @@
+// backend/src/services/AuthSecurityService.ts
+import { createHash, randomBytes } from "crypto";
+
+export interface AuthSecurityOptions {
+  maxFailedAttempts: number; // この回数続けてログインに失敗したらロックする
+  lockoutMinutes: number; // ロックする時間
+  sessionIdleDays: number; // 最後に利用されてからセッションが失効するまでの日数
+  sessionMaxDays: number; // 延長しても超えないセッションの最長日数（ログインからの日数）
+  sessionRenewIntervalMinutes: number; // 有効期限を延長する間隔（リクエストごとの書き込みを避ける）
+  passwordResetTokenMinutes: number; // パスワード再設定用トークンの有効期限
+}
+
+export interface LockoutState {
+  failed_login_count: number;
+  locked_until: Date | null;
+}
+
+export interface SessionTimes {
+  created_at: Date;
+  expires_at: Date;
+  last_active_at: Date | null;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const DEFAULT_OPTIONS: AuthSecurityOptions = {
+  maxFailedAttempts: 5,
+  lockoutMinutes: 15,
+  sessionIdleDays: 7,
+  sessionMaxDays: 30,
+  sessionRenewIntervalMinutes: 5,
+  passwordResetTokenMinutes: 60,
+};
+
+/**
+ * 認証のセキュリティポリシー（アカウントロック・セッションの延長・パスワード再設定トークン）
+ *
+ *   LOGIN_MAX_FAILED_ATTEMPTS       アカウントをロックするまでのログイン失敗回数（既定: 5）
+ *   LOGIN_LOCKOUT_MINUTES           ロックする時間（既定: 15分）
+ *   SESSION_IDLE_DAYS               利用がない場合にセッションが失効するまでの日数（既定: 7日）
+ *   SESSION_MAX_DAYS                ログインしてからセッションを延長できる最長日数（既定: 30日）
+ *   PASSWORD_RESET_TOKEN_MINUTES    パスワード再設定用リンクの有効期限（既定: 60分）
+ */
+export class AuthSecurityService {
+  private options: AuthSecurityOptions;
+
+  constructor(options: Partial<AuthSecurityOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * 環境変数から設定を読み込む
+   */
+  static fromEnv(): AuthSecurityService {
+    const envNames: [keyof AuthSecurityOptions, string][] = [
+      ["maxFailedAttempts", "LOGIN_MAX_FAILED_ATTEMPTS"],
+      ["lockoutMinutes", "LOGIN_LOCKOUT_MINUTES"],
+      ["sessionIdleDays", "SESSION_IDLE_DAYS"],
+      ["sessionMaxDays", "SESSION_MAX_DAYS"],
+      ["passwordResetTokenMinutes", "PASSWORD_RESET_TOKEN_MINUTES"],
+    ];
+    const options: Partial<AuthSecurityOptions> = {};
+    envNames.forEach(([key, name]) => {
+      // 未設定・不正な値の場合は既定値を使う
+      const value = parseInt(process.env[name] || "");
+      if (!isNaN(value) && value > 0) {
+        options[key] = value;
+      }
+    });
+
+    return new AuthSecurityService(options);
+  }
+
+  get passwordResetTokenMinutes(): number {
+    return this.options.passwordResetTokenMinutes;
+  }
+
+  /**
+   * アカウントがロックされているかどうか
+   */
+  isLocked(state: Pick<LockoutState, "locked_until">, now: Date): boolean {
+    return (
+      !!state.locked_until &&
+      new Date(state.locked_until).getTime() > now.getTime()
+    );
+  }
+
+  /**
+   * ログインに失敗した後の状態
+   * 失敗回数が上限に達したらロックし、ロックが解けた後は改めて上限まで試行できるよう回数をリセットする
+   */
+  registerFailure(state: LockoutState, now: Date): LockoutState {
+    const lockExpired = !!state.locked_until && !this.isLocked(state, now);
+    const failedCount = (lockExpired ? 0 : state.failed_login_count) + 1;
+
+    if (failedCount >= this.options.maxFailedAttempts) {
+      return {
+        failed_login_count: 0,
+        locked_until: new Date(
+          now.getTime() + this.options.lockoutMinutes * MINUTE_MS
+        ),
+      };
+    }
+    return {
+      failed_login_count: failedCount,
+      locked_until: lockExpired ? null : state.locked_until,
+    };
+  }
+
+  /**
+   * 新しいセッションの有効期限
+   */
+  getSessionExpiry(now: Date): Date {
+    return new Date(
+      now.getTime() +
+        Math.min(this.options.sessionIdleDays, this.options.sessionMaxDays) *
+          DAY_MS
+    );
+  }
+
+  /**
+   * 利用されたセッションの有効期限を延長（スライディング方式）
+   * 前回の延長から間隔が空いていない場合は null を返す
+   */
+  getSessionRenewal(
+    session: SessionTimes,
+    now: Date
+  ): Pick<SessionTimes, "expires_at" | "last_active_at"> | null {
+    const lastActiveAt = session.last_active_at
+      ? new Date(session.last_active_at).getTime()
+      : null;
+    if (
+      lastActiveAt !== null &&
+      now.getTime() - lastActiveAt <
+        this.options.sessionRenewIntervalMinutes * MINUTE_MS
+    ) {
+      return null;
+    }
+
+    const maxExpiry =
+      new Date(session.created_at).getTime() +
+      this.options.sessionMaxDays * DAY_MS;
+    return {
+      expires_at: new Date(
+        Math.min(
+          now.getTime() + this.options.sessionIdleDays * DAY_MS,
+          maxExpiry
+        )
+      ),
+      last_active_at: now,
+    };
+  }
+
+  /**
+   * パスワード再設定用トークンの有効期限
+   */
+  getPasswordResetExpiry(now: Date): Date {
+    return new Date(
+      now.getTime() + this.options.passwordResetTokenMinutes * MINUTE_MS
+    );
+  }
+
+  /**
+   * URLに載せるランダムなトークンを生成
+   */
+  static generateToken(): string {
+    return randomBytes(32).toString("hex");
+  }
+
+  /**
+   * 保存用のトークンのハッシュ
+   */
+  static hashToken(token: string): string {
+    return createHash("sha256").update(token).digest("hex");
+  }
+
+  /**
+   * User-Agent から端末の表示名を作成（例: Chrome（Windows））
+   */
+  static describeDevice(userAgent: string | null | undefined): string {
+    if (!userAgent) {
+      return "不明な端末";
+    }
+
+    const browser = /Edg(e|A|iOS)?\//.test(userAgent)
+      ? "Edge"
+      : /OPR\/|Opera/.test(userAgent)
+      ? "Opera"
+      : /Firefox\/|FxiOS\//.test(userAgent)
+      ? "Firefox"
+      : /Chrome\/|CriOS\//.test(userAgent)
+      ? "Chrome"
+      : /Safari\//.test(userAgent)
+      ? "Safari"
+      : null;
+    const os = /iPhone|iPad|iPod/.test(userAgent)
+      ? "iOS"
+      : /Android/.test(userAgent)
+      ? "Android"
+      : /Windows/.test(userAgent)
+      ? "Windows"
+      : /Mac OS X|Macintosh/.test(userAgent)
+      ? "macOS"
+      : /Linux/.test(userAgent)
+      ? "Linux"
+      : null;
+
+    if (browser && os) {
+      return `${browser}（${os}）`;
+    }
+    return browser || os || "不明な端末";
+  }
+}
@@ -1,34 +1,88 @@
 import { randomBytes } from "crypto";
+import { IsNull, MoreThan, Not } from "typeorm";
 import { UserService } from "./UserService";
 import { User } from "../models/User";
 import { Session } from "../models/Session";
+import { PasswordResetToken } from "../models/PasswordResetToken";
+import { LoginAttempt, LoginFailureReason } from "../models/LoginAttempt";
+import { NotificationSettings } from "../models/NotificationSettings";
 import { AppDataSource } from "../index";
+import { AuthSecurityService, LockoutState } from "./AuthSecurityService";
+import { NotificationTemplateService } from "./NotificationTemplateService";
+import { SmtpMailer } from "./SmtpMailer";
+
+/**
+ * ログイン・セッション作成時のクライアント情報
+ */
+export interface ClientInfo {
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+export interface ActiveSession {
+  id: number;
+  device: string;
+  ip_address: string | null;
+  created_at: Date;
+  last_active_at: Date | null;
+  expires_at: Date;
+  is_current: boolean;
+}
+
+const INVALID_CREDENTIALS_MESSAGE =
+  "メールアドレスまたはパスワードが正しくありません";
+const ACCOUNT_LOCKED_MESSAGE =
+  "ログインの失敗が続いたため、アカウントを一時的にロックしています。しばらくしてから再度お試しください";
+const INVALID_RESET_TOKEN_MESSAGE =
+  "パスワード再設定用のリンクが無効か、有効期限が切れています";
+
+// パスワード再設定メールを続けて送信しない間隔
+const PASSWORD_RESET_THROTTLE_MS = 60 * 1000;
+
+/**
+ * パスワード再設定用のトークンが無効・期限切れの場合のエラー（メッセージは利用者に表示してよい）
+ */
+export class InvalidResetTokenError extends Error {
+  constructor() {
+    super(INVALID_RESET_TOKEN_MESSAGE);
+    this.name = "InvalidResetTokenError";
+  }
+}
 
 export class AuthService {
   private userService: UserService;
+  private userRepository = AppDataSource.getRepository(User);
   private sessionRepository = AppDataSource.getRepository(Session);
-  private sessionExpiryDays: number;
+  private passwordResetTokenRepository =
+    AppDataSource.getRepository(PasswordResetToken);
+  private loginAttemptRepository = AppDataSource.getRepository(LoginAttempt);
+  private notificationSettingsRepository =
+    AppDataSource.getRepository(NotificationSettings);
+  private security: AuthSecurityService;
 
   constructor() {
     this.userService = new UserService();
-    this.sessionExpiryDays = 7; // セッション有効期限（日数）
+    this.security = AuthSecurityService.fromEnv();
   }
 
   /**
    * ユーザー登録
    */
-  async register(userData: {
-    name: string;
-    email: string;
-    password: string;
-    department?: string;
-    join_year?: number;
-  }): Promise<{ user: Omit<User, "password">; sessionToken: string }> {
+  async register(
+    userData: {
+      name: string;
+      email: string;
+      password: string;
+      department?: string;
+      join_year?: number;
+    },
+    client: ClientInfo = {}
+  ): Promise<{ user: Omit<User, "password">; sessionToken: string }> {
     // ユーザーを作成
     const user = await this.userService.createUser(userData);
 
     // セッショントークンを生成
-    const sessionToken = await this.createSession(user);
+    const sessionToken = await this.createSession(user, client);
 
     // パスワードを除外したユーザー情報を返す
     const { password, ...userWithoutPassword } = user;
@@ -41,15 +95,37 @@ export class AuthService {
 
   /**
    * ログイン認証
+   * 失敗が続いた場合はアカウントを一時的にロックし、試行はすべて監査ログに記録する
+   * 他の端末のセッションはそのまま残す（端末ごとの無効化は設定画面から行う）
    */
   async login(
     email: string,
-    password: string
+    password: string,
+    client: ClientInfo = {}
   ): Promise<{ user: Omit<User, "password">; sessionToken: string }> {
+    const now = new Date();
+
     // メールアドレスでユーザーを検索
     const user = await this.userService.findByEmail(email);
     if (!user) {
-      throw new Error("メールアドレスまたはパスワードが正しくありません");
+      await this.recordLoginAttempt(
+        email,
+        null,
+        LoginFailureReason.UNKNOWN_EMAIL,
+        client
+      );
+      throw new Error(INVALID_CREDENTIALS_MESSAGE);
+    }
+
+    // ロック中は正しいパスワードでもログインさせない
+    if (this.security.isLocked(user, now)) {
+      await this.recordLoginAttempt(
+        email,
+        user.id,
+        LoginFailureReason.LOCKED,
+        client
+      );
+      throw new Error(ACCOUNT_LOCKED_MESSAGE);
     }
 
     // パスワードの検証
@@ -58,14 +134,36 @@ export class AuthService {
       password
     );
     if (!isPasswordValid) {
-      throw new Error("メールアドレスまたはパスワードが正しくありません");
+      const lockout = await this.registerLoginFailure(user.id, now);
+      await this.recordLoginAttempt(
+        email,
+        user.id,
+        LoginFailureReason.INVALID_PASSWORD,
+        client
+      );
+
+      if (this.security.isLocked(lockout, now)) {
+        console.warn(
+          `ログインの失敗が続いたため、ユーザー ${user.id} をロックしました`
+        );
+        throw new Error(ACCOUNT_LOCKED_MESSAGE);
+      }
+      throw new Error(INVALID_CREDENTIALS_MESSAGE);
     }
 
-    // 既存のセッションがあれば削除（オプション：複数デバイスログインを許可する場合は不要）
-    await this.invalidateUserSessions(user.id);
+    // ログインに成功したら失敗回数をリセット
+    if (user.failed_login_count > 0 || user.locked_until) {
+      user.failed_login_count = 0;
+      user.locked_until = null;
+      await this.userRepository.update(user.id, {
+        failed_login_count: 0,
+        locked_until: null,
+      });
+    }
+    await this.recordLoginAttempt(email, user.id, null, client);
 
     // 新しいセッションを作成
-    const sessionToken = await this.createSession(user);
+    const sessionToken = await this.createSession(user, client);
 
     // パスワードを除外したユーザー情報を返す
     const { password: _, ...userWithoutPassword } = user;
@@ -76,8 +174,27 @@ export class AuthService {
     };
   }
 
+  /**
+   * シングルサインオンで本人確認が済んだユーザーのセッションを作成
+   * IdPで認証済みのため、パスワードの失敗によるロックは適用しない
+   */
+  async loginWithSso(
+    user: User,
+    client: ClientInfo = {}
+  ): Promise<{ user: Omit<User, "password">; sessionToken: string }> {
+    await this.recordLoginAttempt(user.email, user.id, null, client);
+    const sessionToken = await this.createSession(user, client);
+
+    const { password, ...userWithoutPassword } = user;
+    return {
+      user: userWithoutPassword as Omit<User, "password">,
+      sessionToken,
+    };
+  }
+
   /**
    * トークンからユーザー情報を取得
+   * 利用されたセッションは有効期限を延長する
    */
   async validateSession(
     sessionToken: string
@@ -95,12 +212,18 @@ export class AuthService {
       }
 
       // セッションの有効期限をチェック
-      if (new Date() > session.expires_at) {
+      const now = new Date();
+      if (now > session.expires_at) {
         // 期限切れのセッションを削除
         await this.sessionRepository.remove(session);
         return null;
       }
 
+      const renewal = this.security.getSessionRenewal(session, now);
+      if (renewal) {
+        await this.sessionRepository.update(session.id, renewal);
+      }
+
       // パスワードを除外したユーザー情報を返す
       const { password, ...userWithoutPassword } = session.user;
       return userWithoutPassword as Omit<User, "password">;
@@ -130,22 +253,240 @@ export class AuthService {
     }
   }
 
+  /**
+   * ユーザーの有効なセッション（ログイン中の端末）の一覧
+   */
+  async getActiveSessions(
+    userId: number,
+    currentSessionToken?: string
+  ): Promise<ActiveSession[]> {
+    const sessions = await this.sessionRepository.find({
+      where: { user_id: userId, expires_at: MoreThan(new Date()) },
+      order: { created_at: "DESC" },
+    });
+
+    return sessions
+      .map((session) => ({
+        id: session.id,
+        device: AuthSecurityService.describeDevice(session.user_agent),
+        ip_address: session.ip_address,
+        created_at: session.created_at,
+        last_active_at: session.last_active_at,
+        expires_at: session.expires_at,
+        is_current: session.session_token === currentSessionToken,
+      }))
+      .sort(
+        (a, b) =>
+          Number(b.is_current) - Number(a.is_current) ||
+          new Date(b.last_active_at || b.created_at).getTime() -
+            new Date(a.last_active_at || a.created_at).getTime()
+      );
+  }
+
+  /**
+   * 指定したセッションを無効化（本人のセッションのみ）
+   * @returns セッションが見つかった場合は true
+   */
+  async revokeSession(userId: number, sessionId: number): Promise<boolean> {
+    const result = await this.sessionRepository.delete({
+      id: sessionId,
+      user_id: userId,
+    });
+    return (result.affected || 0) > 0;
+  }
+
+  /**
+   * 現在のセッション以外をすべて無効化（現在のセッションを指定しない場合はすべて無効化）
+   * @returns 無効化したセッションの数
+   */
+  async revokeOtherSessions(
+    userId: number,
+    currentSessionToken?: string
+  ): Promise<number> {
+    const result = await this.sessionRepository.delete(
+      currentSessionToken
+        ? { user_id: userId, session_token: Not(currentSessionToken) }
+        : { user_id: userId }
+    );
+    return result.affected || 0;
+  }
+
+  /**
+   * 本人のログイン履歴（新しい順）
+   */
+  async getLoginHistory(
+    userId: number,
+    limit: number = 20
+  ): Promise<LoginAttempt[]> {
+    return this.loginAttemptRepository.find({
+      where: { user_id: userId },
+      order: { created_at: "DESC", id: "DESC" },
+      take: limit,
+    });
+  }
+
+  /**
+   * パスワード再設定用のリンクをメールで送信
+   * 登録されていないメールアドレスかどうかが応答内容や応答時間からわからないよう、
+   * ユーザーの検索とメールの送信はバックグラウンドで行い、すぐに戻る
+   */
+  requestPasswordReset(email: string, client: ClientInfo = {}): void {
+    this.sendPasswordResetLink(email, client).catch((error) => {
+      console.error("パスワード再設定の処理中にエラーが発生しました:", error);
+    });
+  }
+
+  /**
+   * パスワード再設定用のトークンを発行してメールで送信
+   */
+  private async sendPasswordResetLink(
+    email: string,
+    client: ClientInfo
+  ): Promise<void> {
+    const user = await this.userService.findByEmail(email);
+    if (!user) {
+      return;
+    }
+
+    // 短時間に何度も送信しない
+    const recent = await this.passwordResetTokenRepository.findOne({
+      where: {
+        user_id: user.id,
+        used_at: IsNull(),
+        created_at: MoreThan(new Date(Date.now() - PASSWORD_RESET_THROTTLE_MS)),
+      },
+    });
+    if (recent) {
+      return;
+    }
+
+    const mailer = SmtpMailer.fromEnv();
+    if (!mailer) {
+      console.warn(
+        "SMTPが設定されていないため、パスワード再設定のメールを送信できません"
+      );
+      return;
+    }
+
+    // 以前に発行した未使用のトークンは無効にする
+    await this.passwordResetTokenRepository.delete({
+      user_id: user.id,
+      used_at: IsNull(),
+    });
+
+    const now = new Date();
+    const token = AuthSecurityService.generateToken();
+    await this.passwordResetTokenRepository.save(
+      this.passwordResetTokenRepository.create({
+        user_id: user.id,
+        token_hash: AuthSecurityService.hashToken(token),
+        expires_at: this.security.getPasswordResetExpiry(now),
+        requested_ip: client.ipAddress || null,
+      })
+    );
+
+    const settings = await this.notificationSettingsRepository.findOne({
+      where: { user_id: user.id },
+    });
+    const baseUrl = (
+      process.env.FRONTEND_URL || "http://localhost:3000"
+    ).replace(/\/+$/, "");
+    const rendered = new NotificationTemplateService(
+      baseUrl
+    ).renderPasswordReset(
+      `${baseUrl}/reset-password?token=${token}`,
+      this.security.passwordResetTokenMinutes,
+      settings?.language || "ja",
+      user.name
+    );
+
+    try {
+      await mailer.send({
+        to: user.email,
+        subject: rendered.emailSubject,
+        text: rendered.emailText,
+      });
+    } catch (error) {
+      console.error(
+        `ユーザー ${user.id} へのパスワード再設定メールの送信に失敗しました:`,
+        error
+      );
+    }
+  }
+
+  /**
+   * パスワード再設定用のトークンで新しいパスワードを設定
+   * 再設定後はすべての端末からログアウトし、アカウントのロックも解除する
+   */
+  async resetPassword(token: string, newPassword: string): Promise<void> {
+    const now = new Date();
+    const resetToken = await this.passwordResetTokenRepository.findOne({
+      where: { token_hash: AuthSecurityService.hashToken(token) },
+    });
+
+    if (!resetToken || resetToken.used_at || now > resetToken.expires_at) {
+      throw new InvalidResetTokenError();
+    }
+
+    // 同時に使われた場合も一度だけ有効になるよう、未使用の場合だけ使用済みにする
+    const result = await this.passwordResetTokenRepository.update(
+      { id: resetToken.id, used_at: IsNull() },
+      { used_at: now }
+    );
+    if (!result.affected) {
+      throw new InvalidResetTokenError();
+    }
+
+    await this.userService.updatePassword(resetToken.user_id, newPassword);
+    await this.userRepository.update(resetToken.user_id, {
+      failed_login_count: 0,
+      locked_until: null,
+    });
+    await this.revokeOtherSessions(resetToken.user_id);
+  }
+
+  /**
+   * ログインの失敗を記録し、失敗後のロック状態を返す
+   * 同時に失敗したログインで回数を取りこぼさないよう、行をロックして読み込んでから更新する
+   */
+  private async registerLoginFailure(
+    userId: number,
+    now: Date
+  ): Promise<LockoutState> {
+    return AppDataSource.transaction(async (manager) => {
+      const userRepository = manager.getRepository(User);
+      const current = await userRepository.findOne({
+        where: { id: userId },
+        lock: { mode: "pessimistic_write" },
+      });
+      const lockout = this.security.registerFailure(
+        current || { failed_login_count: 0, locked_until: null },
+        now
+      );
+      await userRepository.update(userId, lockout);
+      return lockout;
+    });
+  }
+
   /**
    * セッションを作成してトークンを返す
    */
-  private async createSession(user: User): Promise<string> {
+  private async createSession(
+    user: User,
+    client: ClientInfo = {}
+  ): Promise<string> {
     // ランダムなトークンを生成
     const sessionToken = randomBytes(64).toString("hex");
-
-    // 有効期限を設定
-    const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + this.sessionExpiryDays);
+    const now = new Date();
 
     // セッションをデータベースに保存
     const session = this.sessionRepository.create({
       user_id: user.id,
       session_token: sessionToken,
-      expires_at: expiresAt,
+      expires_at: this.security.getSessionExpiry(now),
+      last_active_at: now,
+      ip_address: client.ipAddress || null,
+      user_agent: client.userAgent?.substring(0, 500) || null,
     });
 
     await this.sessionRepository.save(session);
@@ -154,15 +495,27 @@ export class AuthService {
   }
 
   /**
-   * ユーザーの全セッションを無効化
+   * ログイン試行を監査ログに記録（記録の失敗でログイン処理を止めない）
    */
-  private async invalidateUserSessions(userId: number): Promise<void> {
-    const sessions = await this.sessionRepository.find({
-      where: { user_id: userId },
-    });
-
-    if (sessions.length > 0) {
-      await this.sessionRepository.remove(sessions);
+  private async recordLoginAttempt(
+    email: string,
+    userId: number | null,
+    failureReason: LoginFailureReason | null,
+    client: ClientInfo
+  ): Promise<void> {
+    try {
+      await this.loginAttemptRepository.save(
+        this.loginAttemptRepository.create({
+          email: email.substring(0, 255),
+          user_id: userId,
+          succeeded: failureReason === null,
+          failure_reason: failureReason,
+          ip_address: client.ipAddress || null,
+          user_agent: client.userAgent?.substring(0, 500) || null,
+        })
+      );
+    } catch (error) {
+      console.error("ログイン試行の記録エラー:", error);
     }
   }
 }
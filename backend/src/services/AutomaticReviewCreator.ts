@@ -321,6 +321,8 @@ export class AutomaticReviewCreator {
               isPrUpdate: context?.isPrUpdate,
               previousFeedbacks: context?.previousFeedbacks || [], // 前回のフィードバック情報を確実に渡す
               codeChangeSummary: codeChangeSummary || undefined, // コード変更サマリーを追加
+              reviewId: review.id,
+              userId: review.user_id,
             }
           );
 
@@ -570,6 +570,14 @@ export class BacklogService {
     }
   }
 
+  /**
+   * クローンしたリポジトリのHEADのコミットSHAを取得
+   */
+  async getHeadCommitSha(repoDir: string): Promise<string> {
+    const { stdout } = await execPromise(`cd ${repoDir} && git rev-parse HEAD`);
+    return stdout.trim();
+  }
+
   /**
    * コード変更をプルリクエストとして提出
    */
@@ -0,0 +1,93 @@
+// backend/src/services/ChatWebhookService.ts
+import axios from "axios";
+import { ChatWebhookFormat, UserGroup } from "../models/UserGroup";
+import { NotificationType } from "../models/Notification";
+
+export interface ChatWebhookMessage {
+  title: string;
+  message: string;
+  url: string | null;
+}
+
+// Webhookの送信タイムアウト
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+/**
+ * グループのチャット（Slack / Microsoft Teams のIncoming Webhook）に通知を投稿するサービス
+ */
+export class ChatWebhookService {
+  /**
+   * グループのチャットに投稿する種類の通知か判定
+   * システムからのお知らせは個人宛てのため投稿しない
+   */
+  isEventEnabled(
+    group: Pick<
+      UserGroup,
+      | "webhook_review_completed"
+      | "webhook_feedback_received"
+      | "webhook_level_changed"
+    >,
+    type: NotificationType
+  ): boolean {
+    switch (type) {
+      case NotificationType.REVIEW_COMPLETED:
+        return group.webhook_review_completed;
+      case NotificationType.FEEDBACK_RECEIVED:
+        return group.webhook_feedback_received;
+      case NotificationType.LEVEL_CHANGED:
+        return group.webhook_level_changed;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * チャットの形式に合わせたペイロードを作成
+   */
+  buildPayload(
+    format: ChatWebhookFormat,
+    notification: ChatWebhookMessage
+  ): Record<string, unknown> {
+    if (format === "teams") {
+      return {
+        "@type": "MessageCard",
+        "@context": "https://schema.org/extensions",
+        summary: notification.title,
+        themeColor: "0076D7",
+        title: notification.title,
+        text: notification.message,
+        ...(notification.url
+          ? {
+              potentialAction: [
+                {
+                  "@type": "OpenUri",
+                  name: "開く",
+                  targets: [{ os: "default", uri: notification.url }],
+                },
+              ],
+            }
+          : {}),
+      };
+    }
+
+    // Slack（mrkdwn のリンク記法）
+    const text = `*${notification.title}*\n${notification.message}`;
+    return {
+      text: notification.url ? `${text}\n<${notification.url}|開く>` : text,
+    };
+  }
+
+  /**
+   * Webhookに投稿
+   */
+  async send(
+    webhookUrl: string,
+    format: ChatWebhookFormat,
+    notification: ChatWebhookMessage
+  ): Promise<void> {
+    await axios.post(webhookUrl, this.buildPayload(format, notification), {
+      headers: { "Content-Type": "application/json" },
+      timeout: WEBHOOK_TIMEOUT_MS,
+    });
+  }
+}
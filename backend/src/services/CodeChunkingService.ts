@@ -0,0 +1,755 @@
+// backend/src/services/CodeChunkingService.ts
+
+// チャンク分割方式のバージョン（変更時は既存のインデックスを再登録する）
+// 1: 固定長での分割, 2: 関数・クラス単位での分割
+export const CODE_CHUNKING_VERSION = 2;
+
+// チャンクの最大文字数
+const DEFAULT_MAX_CHUNK_SIZE = 6000;
+// これより小さいチャンクは後続の宣言とまとめる
+const DEFAULT_MIN_CHUNK_SIZE = 800;
+
+/**
+ * ベクトルストアに登録するコードのチャンク
+ */
+export interface CodeChunk {
+  content: string;
+  startLine: number; // 1始まり
+  endLine: number; // 1始まり（この行を含む）
+  symbols: string[]; // チャンクに含まれる関数・クラスなどの名前
+  strategy: "syntax" | "size"; // 宣言単位で分割したか、文字数で分割したか
+}
+
+type LanguageFamily = "brace" | "python";
+
+/**
+ * 宣言の検出ルール
+ * topLevel はモジュール直下（深さ0）、member はクラスなどの内側でのみ判定する
+ */
+interface LanguageRule {
+  family: LanguageFamily;
+  lineComments: string[];
+  regexLiterals?: boolean; // / で始まる正規表現リテラルがあるか
+  topLevel: RegExp[];
+  member: RegExp[];
+}
+
+/**
+ * 検出した宣言（行番号は0始まり）
+ */
+interface Declaration {
+  name: string;
+  start: number;
+  end: number;
+  depth: number;
+  container: boolean; // クラスなど、内側の宣言で分割できるか
+  children: Declaration[];
+}
+
+/**
+ * 分割の単位となる行範囲（行番号は0始まり）
+ */
+interface ChunkUnit {
+  start: number;
+  end: number;
+  symbols: string[];
+  strategy: "syntax" | "size";
+}
+
+// メソッドと誤認しやすい制御構文などのキーワード
+const NON_DECLARATION_KEYWORDS = new Set([
+  "if",
+  "for",
+  "foreach",
+  "while",
+  "switch",
+  "catch",
+  "return",
+  "new",
+  "throw",
+  "else",
+  "case",
+  "do",
+  "try",
+  "function",
+  "await",
+  "typeof",
+  "using",
+  "lock",
+  "synchronized",
+  "super",
+  "this",
+]);
+
+const JS_RULE: LanguageRule = {
+  family: "brace",
+  lineComments: ["//"],
+  regexLiterals: true,
+  topLevel: [
+    /^\s*(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?:function\*?|class|interface|enum|type|namespace)\s+([A-Za-z_$][\w$]*)/,
+    /^\s*(?:export\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)/,
+  ],
+  member: [
+    // メソッド（呼び出し文と区別するため、行内に ; を含まないものに限る）
+    /^\s*(?:(?:public|private|protected|static|readonly|abstract|override|async|get|set)\s+)*([A-Za-z_$][\w$]*)\s*(?:<[^>]*>)?\s*\([^;]*$/,
+    // アロー関数のプロパティ
+    /^\s*(?:(?:public|private|protected|static|readonly)\s+)*([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*(?:async\s*)?(?:\([^)]*\)|[A-Za-z_$][\w$]*)\s*(?::[^=]+)?=>/,
+  ],
+};
+
+const JAVA_LIKE_RULE: LanguageRule = {
+  family: "brace",
+  lineComments: ["//"],
+  topLevel: [
+    /^\s*(?:(?:public|private|protected|internal|static|final|abstract|sealed|partial|open|data|inline|enum|annotation)\s+)*(?:class|interface|enum|record|struct|object|fun)\s+([A-Za-z_]\w*)/,
+  ],
+  member: [
+    /^\s*(?:(?:public|private|protected|internal|static|final|abstract|sealed|partial|open|data)\s+)*(?:class|interface|enum|record|struct|object)\s+([A-Za-z_]\w*)/,
+    /^\s*(?:(?:public|private|protected|internal|static|final|abstract|override|suspend|open|inline|operator)\s+)*fun\s+(?:<[^>]*>\s*)?(?:[\w.]+\.)?([A-Za-z_]\w*)\s*\(/,
+    /^\s*(?:(?:public|private|protected|internal|static|final|abstract|synchronized|override|virtual|async|extern|unsafe|default|native)\s+)*(?:<[^>]*>\s*)?[\w<>[\],.?]+\s+([A-Za-z_]\w*)\s*\([^;]*$/,
+  ],
+};
+
+const GO_RULE: LanguageRule = {
+  family: "brace",
+  lineComments: ["//"],
+  topLevel: [
+    /^func\s+(?:\([^)]*\)\s*)?([A-Za-z_]\w*)/,
+    /^type\s+([A-Za-z_]\w*)/,
+    /^(?:var|const)\s+([A-Za-z_]\w*)/,
+  ],
+  member: [],
+};
+
+const PHP_RULE: LanguageRule = {
+  family: "brace",
+  lineComments: ["//", "#"],
+  topLevel: [
+    /^\s*(?:(?:abstract|final|readonly)\s+)*(?:function|class|interface|trait|enum)\s+&?([A-Za-z_]\w*)/,
+  ],
+  member: [
+    /^\s*(?:(?:abstract|final|public|private|protected|static)\s+)*function\s+&?([A-Za-z_]\w*)/,
+  ],
+};
+
+const PYTHON_RULE: LanguageRule = {
+  family: "python",
+  lineComments: ["#"],
+  topLevel: [/^\s*(?:async\s+def|def|class)\s+([A-Za-z_]\w*)/],
+  member: [/^\s*(?:async\s+def|def|class)\s+([A-Za-z_]\w*)/],
+};
+
+const LANGUAGE_RULES: Record<string, LanguageRule> = {
+  ".ts": JS_RULE,
+  ".tsx": JS_RULE,
+  ".js": JS_RULE,
+  ".jsx": JS_RULE,
+  ".java": JAVA_LIKE_RULE,
+  ".cs": JAVA_LIKE_RULE,
+  ".kt": JAVA_LIKE_RULE,
+  ".go": GO_RULE,
+  ".php": PHP_RULE,
+  ".py": PYTHON_RULE,
+};
+
+// 内側にメソッドなどの宣言を持つ宣言
+const CONTAINER_PATTERN =
+  /\b(?:class|interface|enum|namespace|struct|record|object|trait)\s/;
+// 正規表現リテラルの直前に現れる文字（これ以外の後ろの / は除算とみなす）
+const REGEX_PRECEDING_CHARS = "(,=:[!&|?{};+-*%<>~^";
+
+// 行末がこれらで終わる場合は宣言が次の行へ続く
+const CONTINUATION_ENDINGS = [
+  "(",
+  "[",
+  "<",
+  ",",
+  "=",
+  "=>",
+  "+",
+  "|",
+  "&",
+  "?",
+  ":",
+];
+// 行頭がこれらで始まる場合は前の行の宣言の続き（{ は次の行に本体を書くスタイル）
+const CONTINUATION_STARTS = ["{", ">", "|", "&", ".", "?", ":", "+", "=>"];
+
+/**
+ * ソースコードを関数・クラスなどの宣言の境界で分割するサービス
+ * 対応していない言語や宣言の大きすぎるものは文字数で分割する
+ */
+export class CodeChunkingService {
+  constructor(
+    private maxChunkSize: number = DEFAULT_MAX_CHUNK_SIZE,
+    private minChunkSize: number = DEFAULT_MIN_CHUNK_SIZE
+  ) {}
+
+  /**
+   * 宣言単位での分割に対応した拡張子か
+   */
+  supportsSyntax(extension: string): boolean {
+    return extension.toLowerCase() in LANGUAGE_RULES;
+  }
+
+  /**
+   * ソースコードをチャンクに分割
+   */
+  chunk(content: string, extension: string): CodeChunk[] {
+    const lines = content.split("\n");
+    const rule = LANGUAGE_RULES[extension.toLowerCase()];
+
+    const units = rule
+      ? this.buildSyntaxUnits(lines, rule)
+      : this.splitBySize(lines, 0, lines.length - 1, []);
+
+    return this.mergeUnits(lines, units);
+  }
+
+  /**
+   * 宣言を検出し、ファイル全体を分割単位に分ける
+   */
+  private buildSyntaxUnits(lines: string[], rule: LanguageRule): ChunkUnit[] {
+    const declarations =
+      rule.family === "python"
+        ? this.findPythonDeclarations(lines, rule)
+        : this.findBraceDeclarations(lines, rule);
+
+    return this.coverRange(
+      lines,
+      0,
+      lines.length - 1,
+      this.buildTree(declarations),
+      []
+    );
+  }
+
+  /**
+   * 波括弧で構造を表す言語の宣言を検出
+   */
+  private findBraceDeclarations(
+    lines: string[],
+    rule: LanguageRule
+  ): Declaration[] {
+    const depths = this.scanBracketDepths(lines, rule);
+    const declarations: Declaration[] = [];
+
+    lines.forEach((line, index) => {
+      const depth = depths[index].start;
+      const name = this.matchDeclaration(
+        line,
+        depth === 0 ? rule.topLevel : rule.member
+      );
+      if (!name) {
+        return;
+      }
+
+      declarations.push({
+        name,
+        start: this.attachLeadingLines(lines, index, rule),
+        end: this.findBraceDeclarationEnd(lines, depths, index),
+        depth,
+        container: CONTAINER_PATTERN.test(line),
+        children: [],
+      });
+    });
+
+    return declarations;
+  }
+
+  /**
+   * 宣言の終わりの行を探す
+   * 宣言の開始時の深さに戻り、次の行へ続かない行で終わりとする
+   */
+  private findBraceDeclarationEnd(
+    lines: string[],
+    depths: { start: number; end: number; max: number }[],
+    startIndex: number
+  ): number {
+    const depth = depths[startIndex].start;
+
+    for (let i = startIndex; i < lines.length; i++) {
+      if (depths[i].end > depth) {
+        continue;
+      }
+
+      const trimmed = lines[i].trim();
+      const nextLine = lines.slice(i + 1).find((l) => l.trim() !== "");
+      const continues =
+        CONTINUATION_ENDINGS.some((ending) => trimmed.endsWith(ending)) ||
+        (!!nextLine &&
+          CONTINUATION_STARTS.some((start) =>
+            nextLine.trim().startsWith(start)
+          ));
+      if (!continues) {
+        return i;
+      }
+    }
+
+    return lines.length - 1;
+  }
+
+  /**
+   * 各行の開始時・終了時・行内での最大の括弧の深さを計算
+   * 文字列とコメント内の括弧は数えない
+   */
+  private scanBracketDepths(
+    lines: string[],
+    rule: LanguageRule
+  ): { start: number; end: number; max: number }[] {
+    const result: { start: number; end: number; max: number }[] = [];
+    let depth = 0;
+    let inBlockComment = false;
+    let quote: string | null = null;
+
+    for (const line of lines) {
+      const start = depth;
+      let max = depth;
+
+      for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        const rest = line.substring(i);
+
+        if (inBlockComment) {
+          if (rest.startsWith("*/")) {
+            inBlockComment = false;
+            i++;
+          }
+          continue;
+        }
+
+        if (quote) {
+          if (char === "\\") {
+            i++;
+          } else if (char === quote) {
+            quote = null;
+          }
+          continue;
+        }
+
+        if (rest.startsWith("/*")) {
+          inBlockComment = true;
+          i++;
+        } else if (rule.lineComments.some((c) => rest.startsWith(c))) {
+          break;
+        } else if (char === '"' || char === "'" || char === "`") {
+          quote = char;
+        } else if (
+          char === "/" &&
+          rule.regexLiterals &&
+          this.isRegexStart(line, i)
+        ) {
+          i = this.findRegexEnd(line, i);
+        } else if (char === "{" || char === "(" || char === "[") {
+          depth++;
+          max = Math.max(max, depth);
+        } else if (char === "}" || char === ")" || char === "]") {
+          depth = Math.max(0, depth - 1);
+        }
+      }
+
+      // テンプレート文字列以外の文字列は行をまたがない
+      if (quote && quote !== "`") {
+        quote = null;
+      }
+
+      result.push({ start, end: depth, max });
+    }
+
+    return result;
+  }
+
+  /**
+   * 位置 index の / が正規表現リテラルの開始か
+   */
+  private isRegexStart(line: string, index: number): boolean {
+    const before = line.substring(0, index).trimEnd();
+    return (
+      before === "" ||
+      REGEX_PRECEDING_CHARS.includes(before[before.length - 1]) ||
+      /\b(?:return|typeof|case)$/.test(before)
+    );
+  }
+
+  /**
+   * 正規表現リテラルの終わりの位置を返す（行内で閉じていなければ開始位置）
+   */
+  private findRegexEnd(line: string, start: number): number {
+    let inClass = false;
+    for (let i = start + 1; i < line.length; i++) {
+      const char = line[i];
+      if (char === "\\") {
+        i++;
+      } else if (char === "[") {
+        inClass = true;
+      } else if (char === "]") {
+        inClass = false;
+      } else if (char === "/" && !inClass) {
+        return i;
+      }
+    }
+    return start;
+  }
+
+  /**
+   * Pythonの宣言を検出（インデントで範囲を判定）
+   */
+  private findPythonDeclarations(
+    lines: string[],
+    rule: LanguageRule
+  ): Declaration[] {
+    const logicalStarts = this.findPythonLogicalLineStarts(lines);
+    const indentOf = (line: string) => line.length - line.trimStart().length;
+    const declarations: Declaration[] = [];
+
+    lines.forEach((line, index) => {
+      if (!logicalStarts[index]) {
+        return;
+      }
+      const indent = indentOf(line);
+      const name = this.matchDeclaration(
+        line,
+        indent === 0 ? rule.topLevel : rule.member
+      );
+      if (!name) {
+        return;
+      }
+
+      // インデントが宣言と同じかそれより浅い行の手前までを宣言の範囲とする
+      let end = index;
+      for (let i = index + 1; i < lines.length; i++) {
+        if (lines[i].trim() === "") {
+          continue;
+        }
+        if (logicalStarts[i] && indentOf(lines[i]) <= indent) {
+          break;
+        }
+        end = i;
+      }
+
+      declarations.push({
+        name,
+        start: this.attachLeadingLines(lines, index, rule),
+        end,
+        depth: indent,
+        container: CONTAINER_PATTERN.test(line),
+        children: [],
+      });
+    });
+
+    return declarations;
+  }
+
+  /**
+   * 括弧や複数行文字列の途中でない（論理行の先頭である）行を判定
+   */
+  private findPythonLogicalLineStarts(lines: string[]): boolean[] {
+    const result: boolean[] = [];
+    let depth = 0;
+    let tripleQuote: string | null = null;
+
+    for (const line of lines) {
+      result.push(depth === 0 && tripleQuote === null);
+
+      for (let i = 0; i < line.length; i++) {
+        const rest = line.substring(i);
+
+        if (tripleQuote) {
+          if (rest.startsWith(tripleQuote)) {
+            tripleQuote = null;
+            i += 2;
+          }
+          continue;
+        }
+
+        if (rest.startsWith('"""') || rest.startsWith("'''")) {
+          tripleQuote = rest.substring(0, 3);
+          i += 2;
+        } else if (line[i] === "#") {
+          break;
+        } else if (line[i] === '"' || line[i] === "'") {
+          // 1行の文字列は読み飛ばす
+          const close = line.indexOf(line[i], i + 1);
+          i = close === -1 ? line.length : close;
+        } else if ("([{".includes(line[i])) {
+          depth++;
+        } else if (")]}".includes(line[i])) {
+          depth = Math.max(0, depth - 1);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 行が宣言であればその名前を返す
+   */
+  private matchDeclaration(line: string, patterns: RegExp[]): string | null {
+    for (const pattern of patterns) {
+      const match = line.match(pattern);
+      if (match && !NON_DECLARATION_KEYWORDS.has(match[1])) {
+        return match[1];
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 宣言の直前のコメント・デコレーター・アノテーションを宣言に含める
+   */
+  private attachLeadingLines(
+    lines: string[],
+    index: number,
+    rule: LanguageRule
+  ): number {
+    let start = index;
+    while (start > 0) {
+      const previous = lines[start - 1].trim();
+      const isLeading =
+        previous.startsWith("@") ||
+        previous.startsWith("/*") ||
+        previous.startsWith("*") ||
+        rule.lineComments.some((c) => previous.startsWith(c));
+      if (!isLeading) {
+        break;
+      }
+      start--;
+    }
+    return start;
+  }
+
+  /**
+   * 宣言を包含関係の木にする（重なった宣言は内側として扱う）
+   */
+  private buildTree(declarations: Declaration[]): Declaration[] {
+    const roots: Declaration[] = [];
+    const stack: Declaration[] = [];
+
+    [...declarations]
+      .sort((a, b) => a.start - b.start || b.end - a.end)
+      .forEach((declaration) => {
+        while (
+          stack.length > 0 &&
+          stack[stack.length - 1].end < declaration.start
+        ) {
+          stack.pop();
+        }
+
+        const parent = stack[stack.length - 1];
+        if (parent) {
+          // 関数の本体などは内側の宣言で分割しない
+          if (!parent.container) {
+            return;
+          }
+          // 親の範囲からはみ出す部分は切り詰める
+          declaration.end = Math.min(declaration.end, parent.end);
+          parent.children.push(declaration);
+        } else if (declaration.depth > 0) {
+          // 宣言の外側にある関数呼び出しなどの誤検出は無視する
+          return;
+        } else {
+          roots.push(declaration);
+        }
+        stack.push(declaration);
+      });
+
+    return roots;
+  }
+
+  /**
+   * 行範囲を宣言と宣言の間の行で隙間なく分割単位に分ける
+   * 大きすぎる宣言は内側の宣言で、それもなければ文字数で分割する
+   */
+  private coverRange(
+    lines: string[],
+    start: number,
+    end: number,
+    declarations: Declaration[],
+    parentSymbols: string[]
+  ): ChunkUnit[] {
+    const units: ChunkUnit[] = [];
+    let cursor = start;
+
+    const pushGap = (gapEnd: number) => {
+      if (gapEnd >= cursor) {
+        units.push({
+          start: cursor,
+          end: gapEnd,
+          symbols: parentSymbols,
+          strategy: "syntax",
+        });
+      }
+    };
+
+    declarations
+      .filter(
+        (declaration) => declaration.start >= start && declaration.end <= end
+      )
+      .forEach((declaration) => {
+        if (declaration.start < cursor) {
+          return;
+        }
+        pushGap(declaration.start - 1);
+
+        const symbol = [...parentSymbols.slice(-1), declaration.name].join(".");
+        const size = this.rangeSize(lines, declaration.start, declaration.end);
+
+        if (size <= this.maxChunkSize) {
+          units.push({
+            start: declaration.start,
+            end: declaration.end,
+            symbols: [symbol],
+            strategy: "syntax",
+          });
+        } else if (declaration.children.length > 0) {
+          units.push(
+            ...this.coverRange(
+              lines,
+              declaration.start,
+              declaration.end,
+              declaration.children,
+              [symbol]
+            )
+          );
+        } else {
+          units.push(
+            ...this.splitBySize(lines, declaration.start, declaration.end, [
+              symbol,
+            ])
+          );
+        }
+
+        cursor = declaration.end + 1;
+      });
+
+    pushGap(end);
+
+    // 宣言の間の行が大きすぎる場合は文字数で分割する
+    return units.flatMap((unit) =>
+      this.rangeSize(lines, unit.start, unit.end) > this.maxChunkSize &&
+      unit.strategy === "syntax"
+        ? this.splitBySize(lines, unit.start, unit.end, unit.symbols)
+        : [unit]
+    );
+  }
+
+  /**
+   * 行範囲を文字数で分割（1行が長すぎる場合も上限を超えないよう行単位で区切る）
+   */
+  private splitBySize(
+    lines: string[],
+    start: number,
+    end: number,
+    symbols: string[]
+  ): ChunkUnit[] {
+    const units: ChunkUnit[] = [];
+    let unitStart = start;
+    let size = 0;
+
+    for (let i = start; i <= end; i++) {
+      const lineSize = lines[i].length + 1;
+      if (size > 0 && size + lineSize > this.maxChunkSize) {
+        units.push({ start: unitStart, end: i - 1, symbols, strategy: "size" });
+        unitStart = i;
+        size = 0;
+      }
+      size += lineSize;
+    }
+
+    if (end >= unitStart) {
+      units.push({ start: unitStart, end, symbols, strategy: "size" });
+    }
+
+    return units;
+  }
+
+  /**
+   * 小さな分割単位を隣とまとめてチャンクにする
+   */
+  private mergeUnits(lines: string[], units: ChunkUnit[]): CodeChunk[] {
+    const chunks: CodeChunk[] = [];
+    let current: ChunkUnit | null = null;
+
+    const flush = () => {
+      if (current) {
+        const chunk = this.toChunk(lines, current);
+        if (chunk) {
+          chunks.push(chunk);
+        }
+        current = null;
+      }
+    };
+
+    units.forEach((unit) => {
+      if (current) {
+        const currentSize = this.rangeSize(lines, current.start, current.end);
+        const mergedSize = this.rangeSize(lines, current.start, unit.end);
+        if (
+          current.strategy === "syntax" &&
+          unit.strategy === "syntax" &&
+          (currentSize < this.minChunkSize ||
+            this.isTrailing(lines, unit.start, unit.end)) &&
+          mergedSize <= this.maxChunkSize
+        ) {
+          current = {
+            start: current.start,
+            end: unit.end,
+            symbols: [...new Set([...current.symbols, ...unit.symbols])],
+            strategy: "syntax",
+          };
+          return;
+        }
+        flush();
+      }
+      current = { ...unit };
+    });
+    flush();
+
+    return chunks;
+  }
+
+  /**
+   * 分割単位の前後の空行を除いてチャンクにする
+   */
+  private toChunk(lines: string[], unit: ChunkUnit): CodeChunk | null {
+    let start = unit.start;
+    let end = unit.end;
+    while (start <= end && lines[start].trim() === "") start++;
+    while (end >= start && lines[end].trim() === "") end--;
+    if (start > end) {
+      return null;
+    }
+
+    let content = lines.slice(start, end + 1).join("\n");
+    // 1行だけで上限を超える場合（圧縮されたファイルなど）は切り詰める
+    if (content.length > this.maxChunkSize) {
+      content = content.substring(0, this.maxChunkSize);
+    }
+
+    return {
+      content,
+      startLine: start + 1,
+      endLine: end + 1,
+      symbols: unit.symbols,
+      strategy: unit.strategy,
+    };
+  }
+
+  private rangeSize(lines: string[], start: number, end: number): number {
+    let size = 0;
+    for (let i = start; i <= end; i++) {
+      size += lines[i].length + 1;
+    }
+    return size;
+  }
+
+  /**
+   * 空行と閉じ括弧だけの範囲か（クラスの末尾など、直前のチャンクに含める）
+   */
+  private isTrailing(lines: string[], start: number, end: number): boolean {
+    return lines
+      .slice(start, end + 1)
+      .every((line) => /^[\]})]*[;,]?$/.test(line.trim()));
+  }
+}
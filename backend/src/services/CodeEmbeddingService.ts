@@ -3,21 +3,32 @@ import { AppDataSource } from "../index";
 import { CodeEmbedding } from "../models/CodeEmbedding";
 import { CodeSubmission } from "../models/CodeSubmission";
 import { Document } from "@langchain/core/documents";
-import { OpenAIEmbeddings } from "@langchain/openai";
-import { Chroma } from "@langchain/community/vectorstores/chroma";
+import { VectorStore } from "@langchain/core/vectorstores";
+import { EmbeddingProviderRegistry } from "./EmbeddingProviderRegistry";
+import { VectorStoreFactory } from "./VectorStoreFactory";
 
 export class CodeEmbeddingService {
   private embedRepository = AppDataSource.getRepository(CodeEmbedding);
-  private embeddings: OpenAIEmbeddings;
-  private chromaClient: Map<string, Chroma> = new Map();
+  private embeddingRegistry = EmbeddingProviderRegistry.getInstance();
+  private vectorStoreFactory = new VectorStoreFactory();
+  private vectorStores: Map<string, VectorStore> = new Map();
   private defaultCollectionName = "code_review_submissions";
 
-  constructor() {
-    // OpenAI Embeddingsを初期化
-    this.embeddings = new OpenAIEmbeddings({
-      openAIApiKey: process.env.OPENAI_API_KEY,
-      modelName: "text-embedding-ada-002",
-    });
+  /**
+   * ベクトル化に使用しているモデル名
+   */
+  getEmbeddingModelName(): string {
+    return this.embeddingRegistry.getModelId();
+  }
+
+  /**
+   * テキストをベクトル化（ベクトルストアには保存しない）
+   */
+  async embedTexts(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+    return this.embeddingRegistry.getEmbeddings().embedDocuments(texts);
   }
 
   /**
@@ -25,9 +36,9 @@ export class CodeEmbeddingService {
    */
   async createEmbedding(submission: CodeSubmission): Promise<CodeEmbedding> {
     try {
-      // Chromaクライアントの初期化（初回のみ）
-      if (!this.chromaClient.has(this.defaultCollectionName)) {
-        await this.initChromaClient(this.defaultCollectionName);
+      // ベクトルストアの初期化（初回のみ）
+      if (!this.vectorStores.has(this.defaultCollectionName)) {
+        await this.initVectorStore(this.defaultCollectionName);
       }
 
       // コードをドキュメントとして準備
@@ -41,8 +52,8 @@ export class CodeEmbeddingService {
       });
 
       // ベクトルストアに追加
-      const chromaClient = this.chromaClient.get(this.defaultCollectionName);
-      const ids = await chromaClient!.addDocuments([document]);
+      const vectorStore = this.vectorStores.get(this.defaultCollectionName);
+      const ids = (await vectorStore!.addDocuments([document])) as string[];
       const embeddingId = ids[0];
 
       // DBにエンベディング情報を保存
@@ -66,9 +77,9 @@ export class CodeEmbeddingService {
     metadata: Record<string, any> = {}
   ): Promise<string> {
     try {
-      // Chromaクライアントの初期化（初回のみ）
-      if (!this.chromaClient.has(collectionName)) {
-        await this.initChromaClient(collectionName);
+      // ベクトルストアの初期化（初回のみ）
+      if (!this.vectorStores.has(collectionName)) {
+        await this.initVectorStore(collectionName);
       }
 
       // コードをドキュメントとして準備
@@ -78,8 +89,8 @@ export class CodeEmbeddingService {
       });
 
       // ベクトルストアに追加
-      const chromaClient = this.chromaClient.get(collectionName);
-      const ids = await chromaClient!.addDocuments([document]);
+      const vectorStore = this.vectorStores.get(collectionName);
+      const ids = (await vectorStore!.addDocuments([document])) as string[];
       return ids[0];
     } catch (error) {
       console.error("Error creating code embedding from content:", error);
@@ -96,12 +107,12 @@ export class CodeEmbeddingService {
     collectionName: string = this.defaultCollectionName
   ): Promise<{ document: Document; score: number }[]> {
     try {
-      if (!this.chromaClient.has(collectionName)) {
-        await this.initChromaClient(collectionName);
+      if (!this.vectorStores.has(collectionName)) {
+        await this.initVectorStore(collectionName);
       }
 
-      const chromaClient = this.chromaClient.get(collectionName);
-      const results = await chromaClient!.similaritySearchWithScore(
+      const vectorStore = this.vectorStores.get(collectionName);
+      const results = await vectorStore!.similaritySearchWithScore(
         query,
         limit
       );
@@ -131,19 +142,19 @@ export class CodeEmbeddingService {
    */
   async clearCollection(collectionName: string): Promise<void> {
     try {
-      if (!this.chromaClient.has(collectionName)) {
-        await this.initChromaClient(collectionName);
+      if (!this.vectorStores.has(collectionName)) {
+        await this.initVectorStore(collectionName);
       }
 
-      const chromaClient = this.chromaClient.get(collectionName);
+      const vectorStore = this.vectorStores.get(collectionName);
       // 空のオブジェクトを渡して全てのドキュメントを削除
-      await chromaClient!.delete({
+      await vectorStore!.delete({
         ids: [], // 空の配列を渡すと全てのドキュメントが対象になる
       });
 
       // クライアントキャッシュも更新
-      this.chromaClient.delete(collectionName);
-      await this.initChromaClient(collectionName);
+      this.vectorStores.delete(collectionName);
+      await this.initVectorStore(collectionName);
 
       console.log(`Collection ${collectionName} has been cleared`);
     } catch (error) {
@@ -153,57 +164,22 @@ export class CodeEmbeddingService {
   }
 
   /**
-   * Chromaクライアントの初期化
+   * ベクトルストアの初期化
    */
-  private async initChromaClient(collectionName: string): Promise<void> {
+  private async initVectorStore(collectionName: string): Promise<void> {
     try {
-      const chromaUrl = `http://${process.env.CHROMA_HOST || "localhost"}:${
-        process.env.CHROMA_PORT || "8000"
-      }`;
-      const persistDirectory =
-        process.env.CHROMA_PERSIST_DIR || "./vector-db/data";
-
+      const vectorStore = await this.vectorStoreFactory.open(collectionName, {
+        collectionMetadata: {
+          "hnsw:space": "cosine",
+        },
+      });
+      this.vectorStores.set(collectionName, vectorStore);
       console.log(
-        `Connecting to Chroma at ${chromaUrl} for collection ${collectionName}`
+        `ベクトルストアに接続しました: ${collectionName} (${vectorStore._vectorstoreType()})`
       );
-      console.log(`Using persist directory: ${persistDirectory}`);
-
-      try {
-        // 既存のコレクションに接続 - 永続ディレクトリを指定
-        const client = await Chroma.fromExistingCollection(this.embeddings, {
-          collectionName: collectionName,
-          url: chromaUrl,
-          collectionMetadata: {
-            "hnsw:space": "cosine",
-          },
-        });
-        this.chromaClient.set(collectionName, client);
-        console.log(
-          `Successfully connected to existing collection: ${collectionName}`
-        );
-      } catch (error) {
-        console.error(
-          `Failed to connect to existing collection ${collectionName}, creating new one.`
-        );
-
-        // コレクションが存在しない場合は新規作成 - 永続ディレクトリを指定
-        const client = await Chroma.fromDocuments(
-          [], // 空のドキュメント配列
-          this.embeddings,
-          {
-            collectionName: collectionName,
-            url: chromaUrl,
-            collectionMetadata: {
-              "hnsw:space": "cosine",
-            },
-          }
-        );
-        this.chromaClient.set(collectionName, client);
-        console.log(`Successfully created new collection: ${collectionName}`);
-      }
     } catch (error) {
       console.error(
-        `Error initializing Chroma client for ${collectionName}:`,
+        `Error initializing vector store for ${collectionName}:`,
         error
       );
       throw error;
@@ -1,46 +1,32 @@
 // backend/src/services/CriteriaGenerationService.ts
-import { ChatOpenAI } from "@langchain/openai";
 import { StringOutputParser } from "@langchain/core/output_parsers";
 import { PromptTemplate } from "@langchain/core/prompts";
 import { StructuredOutputParser } from "langchain/output_parsers";
 import { z } from "zod";
+import { ChatModelRunnable, LLMProviderRegistry } from "./LLMProviderRegistry";
+import { AIFeature } from "../constants/AIFeatures";
+import { LLMUsageService } from "./LLMUsageService";
 
 /**
  * 評価基準生成サービス
  * AIを使用して評価基準の生成を支援します
  */
 export class CriteriaGenerationService {
-  private model: ChatOpenAI;
   private outputParser: StringOutputParser;
+  private llmUsageService: LLMUsageService;
 
   constructor() {
-    // OpenAI APIキーの存在確認
-    if (!process.env.OPENAI_API_KEY) {
-      console.warn("OpenAI APIキーが環境変数に設定されていません");
-    }
+    this.outputParser = new StringOutputParser();
+    this.llmUsageService = new LLMUsageService();
+  }
 
-    // モデルの初期化
-    const modelName = process.env.OPENAI_MODEL || "gpt-4o";
-    console.log(
-      `評価基準生成サービス: OpenAIモデルを初期化します: ${modelName}`
+  /**
+   * モデルを取得（管理画面のルーティング設定を即時反映するため都度解決する）
+   */
+  private get model(): ChatModelRunnable {
+    return LLMProviderRegistry.getInstance().getChatModel(
+      AIFeature.CRITERIA_GENERATION
     );
-
-    try {
-      this.model = new ChatOpenAI({
-        modelName: modelName,
-        temperature: 0.7, // 創造性のため少し高めの温度設定
-        openAIApiKey: process.env.OPENAI_API_KEY,
-        timeout: 60000, // タイムアウトを60秒に設定
-      });
-    } catch (error) {
-      console.error(
-        "評価基準生成サービス: OpenAIモデルの初期化に失敗しました:",
-        error
-      );
-      throw new Error("AIサービスの初期化に失敗しました");
-    }
-
-    this.outputParser = new StringOutputParser();
   }
 
   /**
@@ -48,12 +34,14 @@ export class CriteriaGenerationService {
    * @param category カテゴリ名（例: コード品質、セキュリティ）
    * @param referenceUrls 参考となるURL（任意）
    * @param count 生成する基準数（デフォルト: 5）
+   * @param userId 実行したユーザーID（LLM利用ログ用）
    * @returns 生成された評価基準のリスト
    */
   async generateCriteriaList(
     category: string,
     referenceUrls: string[] = [],
-    count: number = 5
+    count: number = 5,
+    userId?: number
   ): Promise<
     Array<{
       key: string;
@@ -122,7 +110,15 @@ ${outputParser.getFormatInstructions()}
 
       // モデルにクエリを送信
       const chain = promptTemplate.pipe(this.model).pipe(outputParser);
-      const result = await chain.invoke({});
+      const result = await chain.invoke(
+        {},
+        {
+          callbacks: this.llmUsageService.createCallbacks({
+            feature: AIFeature.CRITERIA_GENERATION,
+            userId,
+          }),
+        }
+      );
 
       console.log(
         `評価基準生成サービス: ${result.length} 件の評価基準を生成しました`
@@ -188,12 +184,14 @@ ${outputParser.getFormatInstructions()}
    * @param key 評価基準のキー
    * @param name 評価基準の名称
    * @param currentDescription 現在の説明
+   * @param userId 実行したユーザーID（LLM利用ログ用）
    * @returns 改善された説明
    */
   async improveDescription(
     key: string,
     name: string,
-    currentDescription: string
+    currentDescription: string,
+    userId?: number
   ): Promise<string> {
     console.log(`評価基準生成サービス: '${name}' の説明を改善します`);
 
@@ -218,7 +216,15 @@ ${outputParser.getFormatInstructions()}
 
       // モデルにクエリを送信
       const chain = promptTemplate.pipe(this.model).pipe(this.outputParser);
-      const result = await chain.invoke({});
+      const result = await chain.invoke(
+        {},
+        {
+          callbacks: this.llmUsageService.createCallbacks({
+            feature: AIFeature.CRITERIA_GENERATION,
+            userId,
+          }),
+        }
+      );
 
       console.log(`評価基準生成サービス: 説明を改善しました`);
 
@@ -0,0 +1,153 @@
+// backend/src/services/CriteriaScoringService.ts
+import { Callbacks } from "@langchain/core/callbacks/manager";
+import { PromptTemplate } from "@langchain/core/prompts";
+import { StructuredOutputParser } from "langchain/output_parsers";
+import { z } from "zod";
+import { CodeSubmission } from "../models/CodeSubmission";
+import { SkillLevel } from "../models/Evaluation";
+import { ChatModelRunnable } from "./LLMProviderRegistry";
+import {
+  AICriteriaScore,
+  CriteriaScore,
+  EvaluationScoringService,
+  ScoringCriteria,
+} from "./EvaluationScoringService";
+
+/**
+ * 採点結果の保存先（EvaluationService、テストではメモリ上）
+ */
+export interface CriteriaEvaluationStore {
+  saveReviewEvaluation(evaluationData: {
+    user_id: number;
+    submission_id: number;
+    criteria_scores: CriteriaScore[];
+  }): Promise<{ overall_level: SkillLevel; overall_score: number }>;
+}
+
+/**
+ * レビューしたコードを年度の評価基準ごとにAIで採点し、評価を保存するサービス
+ * モデルはレビューと同じもの（code_review 機能）を使う
+ */
+export class CriteriaScoringService {
+  constructor(
+    private getModel: () => ChatModelRunnable,
+    private store: CriteriaEvaluationStore,
+    private scoringService: EvaluationScoringService = new EvaluationScoringService()
+  ) {}
+
+  /**
+   * 年度の評価基準でコードを採点し、評価（スキルレベル）を保存
+   * 採点に失敗してもフィードバックは生成済みのため、レビュー自体は失敗させない
+   */
+  async saveCriteriaEvaluation(
+    submission: Pick<CodeSubmission, "id" | "code_content">,
+    userId: number,
+    criteria: ScoringCriteria[],
+    callbacks?: Callbacks
+  ): Promise<void> {
+    try {
+      if (criteria.length === 0) {
+        console.log("有効な評価基準がないため、採点をスキップします");
+        return;
+      }
+
+      const aiScores = await this.scoreCode(
+        submission.code_content,
+        criteria,
+        callbacks
+      );
+      const criteriaScores = this.scoringService.buildCriteriaScores(
+        criteria,
+        aiScores
+      );
+
+      if (criteriaScores.length === 0) {
+        console.warn(
+          `コード提出 #${submission.id} の採点結果が得られなかったため、評価を保存しません`
+        );
+        return;
+      }
+
+      const evaluation = await this.store.saveReviewEvaluation({
+        user_id: userId,
+        submission_id: submission.id,
+        criteria_scores: criteriaScores,
+      });
+
+      console.log(
+        `コード提出 #${submission.id} の評価を保存しました: レベル${evaluation.overall_level} (${evaluation.overall_score})`
+      );
+    } catch (error) {
+      console.error(
+        `コード提出 #${submission.id} の採点中にエラーが発生しました:`,
+        error
+      );
+    }
+  }
+
+  /**
+   * 評価基準ごとにコードを採点
+   */
+  async scoreCode(
+    code: string,
+    criteria: ScoringCriteria[],
+    callbacks?: Callbacks
+  ): Promise<AICriteriaScore[]> {
+    console.log(`評価基準 ${criteria.length} 件でコードを採点します`);
+
+    const outputParser = StructuredOutputParser.fromZodSchema(
+      z.array(
+        z.object({
+          key: z.string().describe("評価基準のキー"),
+          score: z.number().describe("評価基準のスコア範囲内の点数"),
+          rationale: z
+            .string()
+            .describe("その点数とした根拠（1〜2文の簡潔な説明）"),
+        })
+      )
+    );
+
+    const criteriaPrompt = criteria
+      .map(
+        (c) =>
+          `- key: ${c.key}\n  名前: ${c.name}\n  説明: ${
+            c.description || "なし"
+          }\n  スコア範囲: ${c.min_score}〜${c.max_score}`
+      )
+      .join("\n");
+
+    // コード内の波括弧がテンプレート変数として解釈されないよう、変数として渡す
+    const promptTemplate = PromptTemplate.fromTemplate(`
+あなたはプロフェッショナルなコードレビュアーとして、新入社員が提出したコードを採点します。
+以下の評価基準それぞれについて、スコア範囲内の点数と、その点数とした根拠を簡潔に示してください。
+
+# 評価基準
+{criteria}
+
+# 注意事項
+- すべての評価基準について、指定されたkeyをそのまま使って1件ずつ採点してください。
+- 点数はスコア範囲の最小値（不十分）から最大値（模範的）までの数値で返してください。
+- 根拠はコードの具体的な箇所や特徴に触れ、1〜2文で記述してください。
+
+# 対象コード
+\`\`\`
+{code}
+\`\`\`
+
+{format_instructions}
+`);
+
+    const chain = promptTemplate.pipe(this.getModel()).pipe(outputParser);
+    const result = await chain.invoke(
+      {
+        criteria: criteriaPrompt,
+        code,
+        format_instructions: outputParser.getFormatInstructions(),
+      },
+      { callbacks }
+    );
+
+    console.log(`採点結果: ${result.length} 件の評価基準を採点しました`);
+    return result;
+  }
+}
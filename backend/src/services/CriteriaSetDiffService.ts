@@ -0,0 +1,91 @@
+// backend/src/services/CriteriaSetDiffService.ts
+
+/**
+ * 評価基準セットのバージョンに含まれる評価基準1件分
+ */
+export interface CriteriaSetItem {
+  criteria_id: number;
+  key: string;
+  name: string;
+  description: string;
+  min_score: number;
+  max_score: number;
+  weight: number;
+  is_active: boolean;
+  display_order: number;
+}
+
+export interface CriteriaFieldChange {
+  field: keyof CriteriaSetItem;
+  before: string | number | boolean;
+  after: string | number | boolean;
+}
+
+export interface CriteriaSetDiff {
+  added: CriteriaSetItem[];
+  removed: CriteriaSetItem[];
+  changed: Array<{
+    key: string;
+    name: string;
+    changes: CriteriaFieldChange[];
+  }>;
+}
+
+// 差分として比較する項目（criteria_id と key は同一性の判定に使用する）
+const COMPARED_FIELDS: Array<keyof CriteriaSetItem> = [
+  "name",
+  "description",
+  "min_score",
+  "max_score",
+  "weight",
+  "is_active",
+  "display_order",
+];
+
+/**
+ * 評価基準セットの2つのバージョンを比較するサービス
+ */
+export class CriteriaSetDiffService {
+  /**
+   * 評価基準キーごとに追加・削除・変更された項目を求める
+   */
+  diff(from: CriteriaSetItem[], to: CriteriaSetItem[]): CriteriaSetDiff {
+    const fromByKey = new Map(from.map((item) => [item.key, item]));
+    const toByKey = new Map(to.map((item) => [item.key, item]));
+
+    const added = to.filter((item) => !fromByKey.has(item.key));
+    const removed = from.filter((item) => !toByKey.has(item.key));
+    const changed = to.flatMap((item) => {
+      const before = fromByKey.get(item.key);
+      if (!before) {
+        return [];
+      }
+
+      const changes = COMPARED_FIELDS.filter(
+        (field) => (before[field] ?? "") !== (item[field] ?? "")
+      ).map((field) => ({
+        field,
+        before: before[field],
+        after: item[field],
+      }));
+
+      return changes.length > 0
+        ? [{ key: item.key, name: item.name, changes }]
+        : [];
+    });
+
+    return { added, removed, changed };
+  }
+
+  /**
+   * 内容に違いがあるかどうか
+   */
+  hasChanges(from: CriteriaSetItem[], to: CriteriaSetItem[]): boolean {
+    const result = this.diff(from, to);
+    return (
+      result.added.length > 0 ||
+      result.removed.length > 0 ||
+      result.changed.length > 0
+    );
+  }
+}
@@ -0,0 +1,516 @@
+// backend/src/services/CriteriaVersionService.ts
+import { AppDataSource } from "../index";
+import {
+  CriteriaSetVersion,
+  CriteriaSetVersionStatus,
+} from "../models/CriteriaSetVersion";
+import { EvaluationCriteria } from "../models/EvaluationCriteria";
+import { YearlyCriteriaSetting } from "../models/YearlyCriteriaSetting";
+import { AcademicYearSetting } from "../models/AcademicYearSetting";
+import {
+  CriteriaSetDiff,
+  CriteriaSetDiffService,
+  CriteriaSetItem,
+} from "./CriteriaSetDiffService";
+import { EvaluationScoringService } from "./EvaluationScoringService";
+
+/**
+ * 評価基準セットのバージョン（APIで返す形式）
+ */
+export interface CriteriaSetVersionDetail {
+  id: number;
+  academic_year: number;
+  version_number: number | null;
+  status: CriteriaSetVersionStatus;
+  criteria: CriteriaSetItem[];
+  content_hash: string;
+  change_note: string | null;
+  source_version_id: number | null;
+  author: { id: number; name: string } | null;
+  created_at: Date;
+  published_at: Date | null;
+}
+
+/**
+ * 年度ごとの評価基準セットの変更履歴を管理するサービス
+ * 評価基準や年度別設定が変更されるたびに、変更のあった年度の新しいバージョンを記録する
+ */
+export class CriteriaVersionService {
+  private versionRepository = AppDataSource.getRepository(CriteriaSetVersion);
+  private yearlySettingsRepository = AppDataSource.getRepository(
+    YearlyCriteriaSetting
+  );
+  private academicYearRepository =
+    AppDataSource.getRepository(AcademicYearSetting);
+  private diffService = new CriteriaSetDiffService();
+  private scoringService = new EvaluationScoringService();
+
+  /**
+   * 現在の評価基準・年度別設定に変更がある年度について、公開済みバージョンを記録
+   */
+  async recordPublishedVersions(
+    changedBy?: number,
+    changeNote?: string
+  ): Promise<CriteriaSetVersion[]> {
+    const recorded: CriteriaSetVersion[] = [];
+
+    try {
+      const years = await this.academicYearRepository.find({
+        order: { academic_year: "ASC" },
+      });
+
+      for (const year of years) {
+        const items = await this.getCurrentItems(year.academic_year);
+        if (items.length === 0) {
+          continue;
+        }
+
+        const latest = await this.getLatestPublishedVersion(year.academic_year);
+        if (
+          latest &&
+          !this.diffService.hasChanges(this.parseItems(latest), items)
+        ) {
+          continue;
+        }
+
+        recorded.push(
+          await this.createPublishedVersion(year.academic_year, items, {
+            changedBy,
+            changeNote: latest ? changeNote : "初期バージョン",
+          })
+        );
+      }
+
+      if (recorded.length > 0) {
+        console.log(
+          `評価基準セットのバージョンを記録しました: ${recorded
+            .map((v) => `${v.academic_year}年度 v${v.version_number}`)
+            .join(", ")}`
+        );
+      }
+    } catch (error) {
+      // 履歴の記録に失敗しても評価基準の変更自体は取り消さない
+      console.error("評価基準セットのバージョン記録エラー:", error);
+    }
+
+    return recorded;
+  }
+
+  /**
+   * 年度のバージョン一覧を取得（下書きを含む）
+   */
+  async getVersions(academicYear: number): Promise<CriteriaSetVersionDetail[]> {
+    const versions = await this.versionRepository.find({
+      where: { academic_year: academicYear },
+      relations: ["author"],
+      order: { created_at: "DESC", id: "DESC" },
+    });
+
+    return versions.map((version) => this.toDetail(version));
+  }
+
+  /**
+   * IDでバージョンを取得
+   */
+  async getVersion(id: number): Promise<CriteriaSetVersionDetail | null> {
+    const version = await this.versionRepository.findOne({
+      where: { id },
+      relations: ["author"],
+    });
+
+    return version ? this.toDetail(version) : null;
+  }
+
+  /**
+   * 2つのバージョンの差分を取得
+   */
+  async diffVersions(
+    fromId: number,
+    toId: number
+  ): Promise<{
+    from: CriteriaSetVersionDetail;
+    to: CriteriaSetVersionDetail;
+    diff: CriteriaSetDiff;
+  }> {
+    const [from, to] = await Promise.all([
+      this.getVersion(fromId),
+      this.getVersion(toId),
+    ]);
+
+    if (!from || !to) {
+      throw new Error("指定されたバージョンが見つかりません");
+    }
+
+    return {
+      from,
+      to,
+      diff: this.diffService.diff(from.criteria, to.criteria),
+    };
+  }
+
+  /**
+   * 公開済みのバージョンの内容に戻す
+   * 戻した内容は新しいバージョンとして記録する
+   */
+  async rollbackToVersion(
+    id: number,
+    changedBy?: number,
+    changeNote?: string
+  ): Promise<CriteriaSetVersionDetail> {
+    const version = await this.versionRepository.findOne({ where: { id } });
+
+    if (!version) {
+      throw new Error("指定されたバージョンが見つかりません");
+    }
+    if (version.status !== CriteriaSetVersionStatus.PUBLISHED) {
+      throw new Error("ロールバックできるのは公開済みのバージョンのみです");
+    }
+
+    const items = this.parseItems(version);
+    if (
+      !this.diffService.hasChanges(
+        await this.getCurrentItems(version.academic_year),
+        items
+      )
+    ) {
+      throw new Error("現在の評価基準セットと同じ内容のため、変更はありません");
+    }
+
+    await this.applyItemsToYear(version.academic_year, items);
+
+    const note =
+      changeNote ||
+      `バージョン${version.version_number}の内容にロールバックしました`;
+    const rolledBack = await this.createPublishedVersion(
+      version.academic_year,
+      await this.getCurrentItems(version.academic_year),
+      { changedBy, changeNote: note, sourceVersionId: version.id }
+    );
+
+    // 評価基準の定義は年度間で共有しているため、他の年度の変更も記録する
+    await this.recordPublishedVersions(
+      changedBy,
+      `${version.academic_year}年度のロールバックに伴う変更: ${note}`
+    );
+
+    return (await this.getVersion(rolledBack.id))!;
+  }
+
+  /**
+   * 年度の評価基準セットを別の年度の下書きとして複製
+   */
+  async cloneYearAsDraft(
+    sourceYear: number,
+    targetYear: number,
+    changedBy?: number,
+    changeNote?: string
+  ): Promise<CriteriaSetVersionDetail> {
+    if (sourceYear === targetYear) {
+      throw new Error("複製元と複製先に同じ年度は指定できません");
+    }
+
+    const sourceVersion = await this.getLatestPublishedVersion(sourceYear);
+    const items = sourceVersion
+      ? this.parseItems(sourceVersion)
+      : await this.getCurrentItems(sourceYear);
+
+    if (items.length === 0) {
+      throw new Error(`${sourceYear}年度の評価基準が設定されていません`);
+    }
+
+    const draft = await this.versionRepository.save(
+      this.versionRepository.create({
+        academic_year: targetYear,
+        version_number: null,
+        status: CriteriaSetVersionStatus.DRAFT,
+        criteria: JSON.stringify(items),
+        content_hash: this.computeContentHash(targetYear, items),
+        change_note: changeNote || `${sourceYear}年度の評価基準セットを複製`,
+        source_version_id: sourceVersion?.id ?? null,
+        created_by: changedBy ?? null,
+      })
+    );
+
+    return (await this.getVersion(draft.id))!;
+  }
+
+  /**
+   * 下書きの重み・有効状態を更新
+   */
+  async updateDraft(
+    id: number,
+    updates: Array<{ criteria_id: number; weight: number; is_active: boolean }>,
+    changeNote?: string
+  ): Promise<CriteriaSetVersionDetail> {
+    const draft = await this.getDraft(id);
+
+    const items = this.parseItems(draft).map((item) => {
+      const update = updates.find((u) => u.criteria_id === item.criteria_id);
+      return update
+        ? { ...item, weight: update.weight, is_active: update.is_active }
+        : item;
+    });
+
+    draft.criteria = JSON.stringify(items);
+    draft.content_hash = this.computeContentHash(draft.academic_year, items);
+    if (changeNote !== undefined) {
+      draft.change_note = changeNote;
+    }
+    await this.versionRepository.save(draft);
+
+    return (await this.getVersion(id))!;
+  }
+
+  /**
+   * 下書きを公開し、年度の評価基準に反映
+   */
+  async publishDraft(
+    id: number,
+    changedBy?: number,
+    changeNote?: string
+  ): Promise<CriteriaSetVersionDetail> {
+    const draft = await this.getDraft(id);
+    const items = this.parseItems(draft);
+
+    await this.ensureAcademicYear(draft.academic_year);
+    await this.applyItemsToYear(draft.academic_year, items);
+
+    const latest = await this.getLatestPublishedVersion(draft.academic_year);
+    const currentItems = await this.getCurrentItems(draft.academic_year);
+
+    draft.status = CriteriaSetVersionStatus.PUBLISHED;
+    draft.version_number = (latest?.version_number ?? 0) + 1;
+    draft.criteria = JSON.stringify(currentItems);
+    draft.content_hash = this.computeContentHash(
+      draft.academic_year,
+      currentItems
+    );
+    draft.published_at = new Date();
+    if (changeNote) {
+      draft.change_note = changeNote;
+    }
+    await this.versionRepository.save(draft);
+
+    await this.recordPublishedVersions(
+      changedBy,
+      `${draft.academic_year}年度の下書き公開に伴う変更`
+    );
+
+    return (await this.getVersion(id))!;
+  }
+
+  /**
+   * 下書きを破棄
+   */
+  async discardDraft(id: number): Promise<void> {
+    const draft = await this.getDraft(id);
+    await this.versionRepository.remove(draft);
+  }
+
+  /**
+   * 年度の現在の評価基準セットを取得
+   */
+  private async getCurrentItems(
+    academicYear: number
+  ): Promise<CriteriaSetItem[]> {
+    const settings = await this.yearlySettingsRepository.find({
+      where: { academic_year: academicYear },
+      relations: ["criteria"],
+    });
+
+    return settings
+      .filter((setting) => setting.criteria)
+      .map((setting) => ({
+        criteria_id: setting.criteria.id,
+        key: setting.criteria.key,
+        name: setting.criteria.name,
+        description: setting.criteria.description || "",
+        min_score: setting.criteria.min_score,
+        max_score: setting.criteria.max_score,
+        weight: setting.weight,
+        is_active: setting.is_active && setting.criteria.is_active,
+        display_order: setting.criteria.display_order,
+      }))
+      .sort(
+        (a, b) =>
+          a.display_order - b.display_order || a.key.localeCompare(b.key)
+      );
+  }
+
+  /**
+   * 評価基準セットの内容を年度の評価基準・年度別設定に反映
+   */
+  private async applyItemsToYear(
+    academicYear: number,
+    items: CriteriaSetItem[]
+  ): Promise<void> {
+    await AppDataSource.transaction(async (manager) => {
+      const appliedCriteriaIds: number[] = [];
+
+      for (const item of items) {
+        const criteria =
+          (await manager.findOne(EvaluationCriteria, {
+            where: { id: item.criteria_id },
+          })) ||
+          (await manager.findOne(EvaluationCriteria, {
+            where: { key: item.key },
+          }));
+
+        if (!criteria) {
+          console.warn(`評価基準 ${item.key} が見つからないためスキップします`);
+          continue;
+        }
+
+        // 評価基準の定義は年度間で共有している
+        Object.assign(criteria, {
+          name: item.name,
+          description: item.description,
+          min_score: item.min_score,
+          max_score: item.max_score,
+          display_order: item.display_order,
+        });
+        if (item.is_active) {
+          criteria.is_active = true;
+        }
+        await manager.save(criteria);
+
+        const setting =
+          (await manager.findOne(YearlyCriteriaSetting, {
+            where: { criteria_id: criteria.id, academic_year: academicYear },
+          })) ||
+          manager.create(YearlyCriteriaSetting, {
+            criteria_id: criteria.id,
+            academic_year: academicYear,
+          });
+        setting.weight = item.weight;
+        setting.is_active = item.is_active;
+        await manager.save(setting);
+
+        appliedCriteriaIds.push(criteria.id);
+      }
+
+      // セットに含まれない評価基準はこの年度では無効にする
+      const otherSettings = await manager.find(YearlyCriteriaSetting, {
+        where: { academic_year: academicYear },
+      });
+      for (const setting of otherSettings) {
+        if (!appliedCriteriaIds.includes(setting.criteria_id)) {
+          setting.is_active = false;
+          await manager.save(setting);
+        }
+      }
+    });
+  }
+
+  private async createPublishedVersion(
+    academicYear: number,
+    items: CriteriaSetItem[],
+    options: {
+      changedBy?: number;
+      changeNote?: string;
+      sourceVersionId?: number;
+    }
+  ): Promise<CriteriaSetVersion> {
+    const latest = await this.getLatestPublishedVersion(academicYear);
+
+    return this.versionRepository.save(
+      this.versionRepository.create({
+        academic_year: academicYear,
+        version_number: (latest?.version_number ?? 0) + 1,
+        status: CriteriaSetVersionStatus.PUBLISHED,
+        criteria: JSON.stringify(items),
+        content_hash: this.computeContentHash(academicYear, items),
+        change_note: options.changeNote || null,
+        source_version_id: options.sourceVersionId ?? null,
+        created_by: options.changedBy ?? null,
+        published_at: new Date(),
+      })
+    );
+  }
+
+  private async getLatestPublishedVersion(
+    academicYear: number
+  ): Promise<CriteriaSetVersion | null> {
+    return this.versionRepository.findOne({
+      where: {
+        academic_year: academicYear,
+        status: CriteriaSetVersionStatus.PUBLISHED,
+      },
+      order: { version_number: "DESC" },
+    });
+  }
+
+  private async getDraft(id: number): Promise<CriteriaSetVersion> {
+    const draft = await this.versionRepository.findOne({ where: { id } });
+
+    if (!draft) {
+      throw new Error("指定されたバージョンが見つかりません");
+    }
+    if (draft.status !== CriteriaSetVersionStatus.DRAFT) {
+      throw new Error("公開済みのバージョンは変更できません");
+    }
+
+    return draft;
+  }
+
+  /**
+   * 年度設定がない年度に公開する場合は年度を作成
+   */
+  private async ensureAcademicYear(academicYear: number): Promise<void> {
+    const existing = await this.academicYearRepository.findOne({
+      where: { academic_year: academicYear },
+    });
+
+    if (!existing) {
+      await this.academicYearRepository.save(
+        this.academicYearRepository.create({
+          academic_year: academicYear,
+          name: `${academicYear}年度`,
+          is_current: false,
+          is_active: true,
+        })
+      );
+      console.log(`${academicYear}年度の年度設定を作成しました`);
+    }
+  }
+
+  /**
+   * 有効な評価基準のハッシュ（レビュー時に提出へ記録する criteria_version と同じ計算方法）
+   */
+  private computeContentHash(
+    academicYear: number,
+    items: CriteriaSetItem[]
+  ): string {
+    return this.scoringService.createCriteriaSnapshot(
+      academicYear,
+      items.filter((item) => item.is_active)
+    ).version;
+  }
+
+  private parseItems(version: CriteriaSetVersion): CriteriaSetItem[] {
+    try {
+      return JSON.parse(version.criteria);
+    } catch (error) {
+      console.error(`バージョン #${version.id} の内容の解析エラー:`, error);
+      return [];
+    }
+  }
+
+  private toDetail(version: CriteriaSetVersion): CriteriaSetVersionDetail {
+    return {
+      id: version.id,
+      academic_year: version.academic_year,
+      version_number: version.version_number,
+      status: version.status,
+      criteria: this.parseItems(version),
+      content_hash: version.content_hash,
+      change_note: version.change_note,
+      source_version_id: version.source_version_id,
+      author: version.author
+        ? { id: version.author.id, name: version.author.name }
+        : null,
+      created_at: version.created_at,
+      published_at: version.published_at,
+    };
+  }
+}
@@ -0,0 +1,219 @@
+// backend/src/services/EmbeddingProviderRegistry.ts
+import { Embeddings } from "@langchain/core/embeddings";
+import { OpenAIEmbeddings } from "@langchain/openai";
+import { LocalHashingEmbeddings } from "./LocalHashingEmbeddings";
+
+export const EMBEDDING_PROVIDER_NAMES = [
+  "openai",
+  "openai_compatible",
+  "local",
+] as const;
+export type EmbeddingProviderName = (typeof EMBEDDING_PROVIDER_NAMES)[number];
+
+export const VECTOR_STORE_BACKENDS = ["chroma", "mysql"] as const;
+export type VectorStoreBackend = (typeof VECTOR_STORE_BACKENDS)[number];
+
+export interface EmbeddingConfig {
+  provider: EmbeddingProviderName;
+  model: string;
+}
+
+export type EmbeddingProviderFactory = (config: EmbeddingConfig) => Embeddings;
+
+const DEFAULT_LOCAL_DIMENSIONS = 512;
+
+/**
+ * 埋め込み（ベクトル化）プロバイダーのレジストリ
+ *
+ * 各サービスは埋め込みモデルを直接生成せず、ここから取得する。
+ * プロバイダーとベクトルの保存先は環境変数で切り替えられる。
+ *
+ *   EMBEDDING_PROVIDER=local               openai / openai_compatible / local
+ *   EMBEDDING_MODEL=text-embedding-3-small プロバイダーのモデル名
+ *   EMBEDDING_LOCAL_BASE_URL=...           openai_compatible のエンドポイント
+ *   EMBEDDING_LOCAL_DIMENSIONS=512         local の次元数
+ *   VECTOR_STORE=mysql                     chroma（外部サーバー）/ mysql（アプリのDB）
+ *
+ * local と mysql を組み合わせると、外部への通信なしで類似検索が動作する。
+ */
+export class EmbeddingProviderRegistry {
+  private static instance: EmbeddingProviderRegistry;
+  private factories: Map<EmbeddingProviderName, EmbeddingProviderFactory> =
+    new Map();
+  private embeddingsCache: Map<string, Embeddings> = new Map();
+
+  private constructor() {
+    this.register("openai", (config) => this.createOpenAIEmbeddings(config));
+    this.register("openai_compatible", (config) =>
+      this.createOpenAICompatibleEmbeddings(config)
+    );
+    this.register("local", () => this.createLocalEmbeddings());
+  }
+
+  /**
+   * シングルトンインスタンスを取得
+   */
+  public static getInstance(): EmbeddingProviderRegistry {
+    if (!EmbeddingProviderRegistry.instance) {
+      EmbeddingProviderRegistry.instance = new EmbeddingProviderRegistry();
+    }
+    return EmbeddingProviderRegistry.instance;
+  }
+
+  /**
+   * プロバイダーを登録（既存の登録は上書き）
+   */
+  public register(
+    provider: EmbeddingProviderName,
+    factory: EmbeddingProviderFactory
+  ) {
+    this.factories.set(provider, factory);
+    this.embeddingsCache.clear();
+  }
+
+  /**
+   * 環境変数から埋め込みの設定を解決
+   */
+  public getConfig(): EmbeddingConfig {
+    const provider =
+      this.parseOption(
+        process.env.EMBEDDING_PROVIDER,
+        EMBEDDING_PROVIDER_NAMES,
+        "埋め込みプロバイダー"
+      ) || "openai";
+
+    switch (provider) {
+      case "openai":
+        return {
+          provider,
+          model: process.env.EMBEDDING_MODEL || "text-embedding-ada-002",
+        };
+      case "openai_compatible":
+        return {
+          provider,
+          model: process.env.EMBEDDING_MODEL || "nomic-embed-text",
+        };
+      case "local":
+        // 次元数が変わるとベクトルを比較できないため、モデル名に含める
+        return {
+          provider,
+          model: `hashing-${this.getLocalDimensions()}`,
+        };
+    }
+  }
+
+  /**
+   * 埋め込みモデルを取得（設定ごとにキャッシュ）
+   */
+  public getEmbeddings(): Embeddings {
+    const config = this.getConfig();
+    const cacheKey = this.getModelId(config);
+    const cached = this.embeddingsCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const factory = this.factories.get(config.provider);
+    if (!factory) {
+      throw new Error(`未登録の埋め込みプロバイダーです: ${config.provider}`);
+    }
+
+    console.log(
+      `埋め込みモデルを初期化します: provider=${config.provider}, model=${config.model}`
+    );
+    const embeddings = factory(config);
+    this.embeddingsCache.set(cacheKey, embeddings);
+    return embeddings;
+  }
+
+  /**
+   * ベクトルを作成したモデルの識別子（インデックスやベクトルと一緒に保存する）
+   * 既存データとの互換性のため、OpenAIはモデル名のみとする
+   */
+  public getModelId(config: EmbeddingConfig = this.getConfig()): string {
+    return config.provider === "openai"
+      ? config.model
+      : `${config.provider}/${config.model}`;
+  }
+
+  /**
+   * ベクトルの保存先
+   */
+  public getVectorStoreBackend(): VectorStoreBackend {
+    return (
+      this.parseOption(
+        process.env.VECTOR_STORE,
+        VECTOR_STORE_BACKENDS,
+        "ベクトルストア"
+      ) || "chroma"
+    );
+  }
+
+  /**
+   * OpenAIの埋め込みモデルを生成
+   */
+  private createOpenAIEmbeddings(config: EmbeddingConfig): Embeddings {
+    if (!process.env.OPENAI_API_KEY) {
+      console.warn("OpenAI APIキーが環境変数に設定されていません");
+    }
+
+    return new OpenAIEmbeddings({
+      openAIApiKey: process.env.OPENAI_API_KEY,
+      modelName: config.model,
+    });
+  }
+
+  /**
+   * OpenAI互換のローカルエンドポイント用の埋め込みモデルを生成
+   */
+  private createOpenAICompatibleEmbeddings(
+    config: EmbeddingConfig
+  ): Embeddings {
+    const baseURL =
+      process.env.EMBEDDING_LOCAL_BASE_URL || process.env.LLM_LOCAL_BASE_URL;
+    if (!baseURL) {
+      console.warn("EMBEDDING_LOCAL_BASE_URL が環境変数に設定されていません");
+    }
+
+    return new OpenAIEmbeddings({
+      modelName: config.model,
+      // ローカルエンドポイントはキー不要なことが多いが、SDKは空文字を許容しない
+      openAIApiKey:
+        process.env.EMBEDDING_LOCAL_API_KEY ||
+        process.env.LLM_LOCAL_API_KEY ||
+        "not-needed",
+      configuration: { baseURL },
+    });
+  }
+
+  /**
+   * CPUだけで計算する埋め込みモデルを生成
+   */
+  private createLocalEmbeddings(): Embeddings {
+    return new LocalHashingEmbeddings({
+      dimensions: this.getLocalDimensions(),
+    });
+  }
+
+  private getLocalDimensions(): number {
+    const parsed = Number(process.env.EMBEDDING_LOCAL_DIMENSIONS);
+    return Number.isInteger(parsed) && parsed > 0
+      ? parsed
+      : DEFAULT_LOCAL_DIMENSIONS;
+  }
+
+  private parseOption<T extends string>(
+    value: string | undefined,
+    options: readonly T[],
+    label: string
+  ): T | undefined {
+    if (!value) {
+      return undefined;
+    }
+    if (!options.includes(value as T)) {
+      console.warn(`不明な${label}が指定されました: ${value}`);
+      return undefined;
+    }
+    return value as T;
+  }
+}
@@ -5,9 +5,24 @@ import * as path from "path";
 import { EvaluationCriteria } from "../models/EvaluationCriteria";
 import { YearlyCriteriaSetting } from "../models/YearlyCriteriaSetting";
 import { AcademicYearSetting } from "../models/AcademicYearSetting";
+import { User } from "../models/User";
 import { CriteriaGenerationService } from "./CriteriaGenerationService";
+import { CriteriaVersionService } from "./CriteriaVersionService";
 import { In } from "typeorm";
 
+/**
+ * 年度別の設定（重み・有効フラグ）を反映した評価基準
+ * 年度が設定されていない場合は年度別の項目を持たない
+ */
+export type ActiveEvaluationCriteria = Omit<
+  EvaluationCriteria,
+  "yearlySettings"
+> & {
+  yearWeight?: number;
+  yearActive?: boolean;
+  yearSettingId?: number;
+};
+
 /**
  * 評価基準を管理するサービス
  * このサービスにより、評価基準の追加・変更・削除が容易になります
@@ -19,8 +34,10 @@ export class EvaluationCriteriaService {
   );
   private academicYearRepository =
     AppDataSource.getRepository(AcademicYearSetting);
+  private userRepository = AppDataSource.getRepository(User);
   private static instance: EvaluationCriteriaService;
   private criteriaGenerationService: CriteriaGenerationService;
+  private criteriaVersionService: CriteriaVersionService;
 
   // システムデフォルトの評価基準
   private DEFAULT_CRITERIA = [
@@ -76,6 +93,7 @@ export class EvaluationCriteriaService {
 
   constructor() {
     this.criteriaGenerationService = new CriteriaGenerationService();
+    this.criteriaVersionService = new CriteriaVersionService();
   }
 
   /**
@@ -100,6 +118,12 @@ export class EvaluationCriteriaService {
       // 年度設定を確認・初期化
       await this.ensureAcademicYearSettings();
 
+      // 履歴のない年度や、画面以外で変更された内容をバージョンとして記録
+      await this.criteriaVersionService.recordPublishedVersions(
+        undefined,
+        "起動時に検出した評価基準の変更"
+      );
+
       console.log("評価基準の初期化が完了しました");
     } catch (error) {
       console.error("評価基準の初期化中にエラーが発生しました:", error);
@@ -264,7 +288,9 @@ export class EvaluationCriteriaService {
   /**
    * 特定の年度の有効な評価基準を取得
    */
-  async getActiveCriteriaForYear(year: number): Promise<any[]> {
+  async getActiveCriteriaForYear(
+    year: number
+  ): Promise<ActiveEvaluationCriteria[]> {
     // 年度別の設定を考慮した評価基準を取得
     const yearlySettings = await this.yearlySettingsRepository.find({
       where: { academic_year: year, is_active: true },
@@ -285,7 +311,7 @@ export class EvaluationCriteriaService {
   /**
    * 現在の年度の有効な評価基準を取得
    */
-  async getActiveCriteriaForCurrentYear(): Promise<any[]> {
+  async getActiveCriteriaForCurrentYear(): Promise<ActiveEvaluationCriteria[]> {
     // 現在の年度を取得
     const currentYear = await this.academicYearRepository.findOne({
       where: { is_current: true },
@@ -299,11 +325,47 @@ export class EvaluationCriteriaService {
     return this.getActiveCriteriaForYear(currentYear.academic_year);
   }
 
+  /**
+   * 受講者のレビューに使用する年度と評価基準を取得
+   * 入社年度の年度設定があればその年度、なければ現在の年度の評価基準を使用する
+   */
+  async getReviewCriteriaForUser(userId?: number): Promise<{
+    academicYear: number | null;
+    criteria: ActiveEvaluationCriteria[];
+  }> {
+    const user = userId
+      ? await this.userRepository.findOne({ where: { id: userId } })
+      : null;
+
+    if (user?.join_year) {
+      const joinYearSetting = await this.academicYearRepository.findOne({
+        where: { academic_year: user.join_year, is_active: true },
+      });
+
+      if (joinYearSetting) {
+        const criteria = await this.getActiveCriteriaForYear(
+          joinYearSetting.academic_year
+        );
+        if (criteria.length > 0) {
+          return { academicYear: joinYearSetting.academic_year, criteria };
+        }
+      }
+    }
+
+    const currentYear = await this.getCurrentAcademicYear();
+    return {
+      academicYear: currentYear?.academic_year ?? null,
+      criteria: await this.getActiveCriteriaForCurrentYear(),
+    };
+  }
+
   /**
    * 評価基準を新規追加
    */
   async createCriteria(
-    criteriaData: Partial<EvaluationCriteria>
+    criteriaData: Partial<EvaluationCriteria>,
+    changedBy?: number,
+    changeNote?: string
   ): Promise<EvaluationCriteria> {
     // キーの重複チェック
     const existingCriteria = await this.criteriaRepository.findOne({
@@ -334,6 +396,11 @@ export class EvaluationCriteriaService {
       await this.yearlySettingsRepository.save(yearlySettings);
     }
 
+    await this.criteriaVersionService.recordPublishedVersions(
+      changedBy,
+      changeNote || `評価基準「${savedCriteria.name}」を追加`
+    );
+
     return savedCriteria;
   }
 
@@ -342,7 +409,9 @@ export class EvaluationCriteriaService {
    */
   async updateCriteria(
     key: string,
-    criteriaData: Partial<EvaluationCriteria>
+    criteriaData: Partial<EvaluationCriteria>,
+    changedBy?: number,
+    changeNote?: string
   ): Promise<EvaluationCriteria | null> {
     const criteria = await this.criteriaRepository.findOne({
       where: { key },
@@ -356,13 +425,20 @@ export class EvaluationCriteriaService {
     delete criteriaData.key;
 
     Object.assign(criteria, criteriaData);
-    return this.criteriaRepository.save(criteria);
+    const savedCriteria = await this.criteriaRepository.save(criteria);
+
+    await this.criteriaVersionService.recordPublishedVersions(
+      changedBy,
+      changeNote || `評価基準「${savedCriteria.name}」を更新`
+    );
+
+    return savedCriteria;
   }
 
   /**
    * 評価基準を無効化（削除ではなく無効化することで、過去のデータとの整合性を保つ）
    */
-  async deactivateCriteria(key: string): Promise<boolean> {
+  async deactivateCriteria(key: string, changedBy?: number): Promise<boolean> {
     const criteria = await this.criteriaRepository.findOne({
       where: { key },
     });
@@ -373,6 +449,12 @@ export class EvaluationCriteriaService {
 
     criteria.is_active = false;
     await this.criteriaRepository.save(criteria);
+
+    await this.criteriaVersionService.recordPublishedVersions(
+      changedBy,
+      `評価基準「${criteria.name}」を無効化`
+    );
+
     return true;
   }
 
@@ -385,7 +467,8 @@ export class EvaluationCriteriaService {
       display_order: number;
       weight?: number;
       is_active?: boolean;
-    }>
+    }>,
+    changedBy?: number
   ): Promise<boolean> {
     try {
       // トランザクション内で一括更新
@@ -404,6 +487,11 @@ export class EvaluationCriteriaService {
         }
       });
 
+      await this.criteriaVersionService.recordPublishedVersions(
+        changedBy,
+        "評価基準の表示順・重みを一括更新"
+      );
+
       return true;
     } catch (error) {
       console.error("評価基準の一括更新中にエラーが発生しました:", error);
@@ -468,7 +556,8 @@ export class EvaluationCriteriaService {
     year: number,
     name: string,
     isCurrent: boolean = false,
-    description?: string
+    description?: string,
+    changedBy?: number
   ): Promise<AcademicYearSetting> {
     // 既存の年度を確認
     let yearSetting = await this.academicYearRepository.findOne({
@@ -522,6 +611,11 @@ export class EvaluationCriteriaService {
       }
     }
 
+    await this.criteriaVersionService.recordPublishedVersions(
+      changedBy,
+      `${year}年度の年度設定を作成・更新`
+    );
+
     return savedYear;
   }
 
@@ -534,7 +628,9 @@ export class EvaluationCriteriaService {
       weight: number;
       is_active: boolean;
     }>,
-    academicYear: number
+    academicYear: number,
+    changedBy?: number,
+    changeNote?: string
   ): Promise<boolean> {
     try {
       // 更新対象のIDリスト
@@ -569,6 +665,11 @@ export class EvaluationCriteriaService {
         }
       });
 
+      await this.criteriaVersionService.recordPublishedVersions(
+        changedBy,
+        changeNote || `${academicYear}年度の評価基準設定を更新`
+      );
+
       return true;
     } catch (error) {
       console.error("年度別評価基準設定の更新中にエラーが発生しました:", error);
@@ -582,7 +683,8 @@ export class EvaluationCriteriaService {
   async generateCriteriaWithAI(
     category: string,
     referenceUrls: string[] = [],
-    count: number = 5
+    count: number = 5,
+    userId?: number
   ): Promise<
     Array<{
       key: string;
@@ -593,7 +695,8 @@ export class EvaluationCriteriaService {
     return this.criteriaGenerationService.generateCriteriaList(
       category,
       referenceUrls,
-      count
+      count,
+      userId
     );
   }
 
@@ -601,7 +704,8 @@ export class EvaluationCriteriaService {
    * 評価基準の説明をAIで改善
    */
   async improveCriteriaDescriptionWithAI(
-    criteriaId: number
+    criteriaId: number,
+    userId?: number
   ): Promise<EvaluationCriteria | null> {
     // 評価基準を取得
     const criteria = await this.criteriaRepository.findOne({
@@ -618,12 +722,20 @@ export class EvaluationCriteriaService {
         await this.criteriaGenerationService.improveDescription(
           criteria.key,
           criteria.name,
-          criteria.description || ""
+          criteria.description || "",
+          userId
         );
 
       // 説明を更新
       criteria.description = improvedDescription;
-      return this.criteriaRepository.save(criteria);
+      const savedCriteria = await this.criteriaRepository.save(criteria);
+
+      await this.criteriaVersionService.recordPublishedVersions(
+        userId,
+        `評価基準「${criteria.name}」の説明をAIで改善`
+      );
+
+      return savedCriteria;
     } catch (error) {
       console.error("評価基準の説明改善中にエラーが発生しました:", error);
       return criteria; // 元の基準を返す
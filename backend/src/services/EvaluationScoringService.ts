@@ -0,0 +1,190 @@
+// backend/src/services/EvaluationScoringService.ts
+import crypto from "crypto";
+
+// 総合スコアとスキルレベル判定に使用する尺度（determineLevel は 0〜10 を前提としている）
+const OVERALL_SCORE_SCALE = 10;
+
+// Evaluation の固定スコアカラムに対応する評価基準キー
+const LEGACY_SCORE_KEYS = [
+  "code_quality",
+  "readability",
+  "efficiency",
+  "best_practices",
+] as const;
+
+/**
+ * 採点に使用する評価基準（getActiveCriteriaForCurrentYear の戻り値）
+ */
+export interface ScoringCriteria {
+  key: string;
+  name: string;
+  description?: string;
+  min_score: number;
+  max_score: number;
+  weight: number;
+  yearWeight?: number;
+  display_order?: number;
+}
+
+/**
+ * レビュー時に使用した評価基準の記録（基準が変更されても過去のレビューを再現できるようにする）
+ */
+export interface CriteriaSnapshot {
+  academic_year: number | null;
+  version: string;
+  criteria: ScoringCriteria[];
+}
+
+/**
+ * AIが返した評価基準ごとの採点
+ */
+export interface AICriteriaScore {
+  key: string;
+  score: number;
+  rationale: string;
+}
+
+/**
+ * Evaluation に保存する評価基準ごとのスコア
+ */
+export interface CriteriaScore {
+  key: string;
+  name: string;
+  score: number;
+  min_score: number;
+  max_score: number;
+  weight: number;
+  rationale: string;
+}
+
+/**
+ * レビューに使用する評価基準を記録し、AIの採点結果から総合スコアを計算するサービス
+ */
+export class EvaluationScoringService {
+  /**
+   * レビューに使用する評価基準のスナップショットを作成
+   * 重みは年度別の設定を反映し、内容が同じであれば同じバージョンになる
+   */
+  createCriteriaSnapshot(
+    academicYear: number | null,
+    criteria: ScoringCriteria[]
+  ): CriteriaSnapshot {
+    const snapshotCriteria = [...criteria]
+      .sort(
+        (a, b) =>
+          (a.display_order ?? 0) - (b.display_order ?? 0) ||
+          a.key.localeCompare(b.key)
+      )
+      .map((c) => ({
+        key: c.key,
+        name: c.name,
+        description: c.description || "",
+        min_score: c.min_score ?? 0,
+        max_score: c.max_score ?? OVERALL_SCORE_SCALE,
+        weight: c.yearWeight ?? c.weight ?? 1,
+      }));
+
+    const version = crypto
+      .createHash("sha256")
+      .update(
+        JSON.stringify({
+          academic_year: academicYear,
+          criteria: snapshotCriteria,
+        })
+      )
+      .digest("hex")
+      .substring(0, 12);
+
+    return { academic_year: academicYear, version, criteria: snapshotCriteria };
+  }
+
+  /**
+   * AIの採点結果を評価基準と突き合わせる
+   * 範囲外のスコアは最小・最大に丸め、AIが採点しなかった基準は除外する
+   */
+  buildCriteriaScores(
+    criteria: ScoringCriteria[],
+    aiScores: AICriteriaScore[]
+  ): CriteriaScore[] {
+    const scoresByKey = new Map(aiScores.map((s) => [s.key, s]));
+
+    return criteria.flatMap((c) => {
+      const aiScore = scoresByKey.get(c.key);
+      if (!aiScore || !Number.isFinite(aiScore.score)) {
+        console.warn(`評価基準 ${c.key} のスコアがAIから返されませんでした`);
+        return [];
+      }
+
+      const minScore = c.min_score ?? 0;
+      const maxScore = c.max_score ?? OVERALL_SCORE_SCALE;
+
+      return [
+        {
+          key: c.key,
+          name: c.name,
+          score: Math.min(maxScore, Math.max(minScore, aiScore.score)),
+          min_score: minScore,
+          max_score: maxScore,
+          // 年度別の重みを優先
+          weight: c.yearWeight ?? c.weight ?? 1,
+          rationale: aiScore.rationale.trim(),
+        },
+      ];
+    });
+  }
+
+  /**
+   * スコアを 0〜10 に正規化
+   */
+  normalizeScore(score: CriteriaScore): number {
+    const range = score.max_score - score.min_score;
+    if (range <= 0) {
+      return 0;
+    }
+    return ((score.score - score.min_score) / range) * OVERALL_SCORE_SCALE;
+  }
+
+  /**
+   * 総合スコアの計算（正規化したスコアの重み付け平均）
+   */
+  calculateOverallScore(scores: CriteriaScore[]): number {
+    let totalScore = 0;
+    let totalWeight = 0;
+
+    scores.forEach((score) => {
+      totalScore += this.normalizeScore(score) * score.weight;
+      totalWeight += score.weight;
+    });
+
+    return totalWeight > 0
+      ? Math.round((totalScore / totalWeight) * 100) / 100
+      : 0;
+  }
+
+  /**
+   * Evaluation の固定スコアカラムの値を作成
+   * 対応する評価基準が採点されていないカラムは 0 とする
+   */
+  toLegacyScoreColumns(scores: CriteriaScore[]): {
+    code_quality_score: number;
+    readability_score: number;
+    efficiency_score: number;
+    best_practices_score: number;
+  } {
+    const columns = {
+      code_quality_score: 0,
+      readability_score: 0,
+      efficiency_score: 0,
+      best_practices_score: 0,
+    };
+
+    LEGACY_SCORE_KEYS.forEach((key) => {
+      const score = scores.find((s) => s.key === key);
+      if (score) {
+        columns[`${key}_score`] = Math.round(this.normalizeScore(score));
+      }
+    });
+
+    return columns;
+  }
+}
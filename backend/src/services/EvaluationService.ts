@@ -4,12 +4,20 @@ import { Evaluation, SkillLevel } from "../models/Evaluation";
 import { User } from "../models/User";
 import { CodeSubmission } from "../models/CodeSubmission";
 import { EvaluationCriteriaService } from "./EvaluationCriteriaService";
+import {
+  CriteriaScore,
+  EvaluationScoringService,
+} from "./EvaluationScoringService";
+import { NotificationService } from "./NotificationService";
+import { NotificationType } from "../models/Notification";
 
 export class EvaluationService {
   private evaluationRepository = AppDataSource.getRepository(Evaluation);
   private userRepository = AppDataSource.getRepository(User);
   private submissionRepository = AppDataSource.getRepository(CodeSubmission);
   private criteriaService: EvaluationCriteriaService;
+  private scoringService = new EvaluationScoringService();
+  private notificationService = new NotificationService();
 
   constructor() {
     // 評価基準サービスのインスタンスを取得
@@ -62,6 +70,60 @@ export class EvaluationService {
     }
   }
 
+  /**
+   * AIレビューの採点結果から評価を保存（再レビュー時は同じ提出の評価を上書き）
+   */
+  async saveReviewEvaluation(evaluationData: {
+    user_id: number;
+    submission_id: number;
+    criteria_scores: CriteriaScore[];
+  }): Promise<Evaluation> {
+    try {
+      const { user_id, submission_id, criteria_scores } = evaluationData;
+
+      const overallScore =
+        this.scoringService.calculateOverallScore(criteria_scores);
+      const overallLevel = await this.criteriaService.determineLevel(
+        overallScore
+      );
+
+      const evaluation =
+        (await this.getEvaluationBySubmissionId(submission_id)) ||
+        this.evaluationRepository.create({ user_id, submission_id });
+
+      // 保存前の最新の評価（レベルの変化の判定用）
+      const previousEvaluation = await this.getLatestEvaluationByUserId(
+        user_id
+      );
+
+      Object.assign(evaluation, {
+        ...this.scoringService.toLegacyScoreColumns(criteria_scores),
+        overall_score: overallScore,
+        overall_level: overallLevel as SkillLevel,
+        criteria_scores: JSON.stringify(criteria_scores),
+      });
+
+      const saved = await this.evaluationRepository.save(evaluation);
+
+      // レベルが変わった場合は通知（配信の完了は待たない）
+      if (
+        previousEvaluation &&
+        previousEvaluation.overall_level !== saved.overall_level
+      ) {
+        this.notificationService.notify(user_id, {
+          type: NotificationType.LEVEL_CHANGED,
+          previousLevel: previousEvaluation.overall_level,
+          newLevel: saved.overall_level,
+        });
+      }
+
+      return saved;
+    } catch (error) {
+      console.error("AIレビューの評価保存エラー:", error);
+      throw error;
+    }
+  }
+
   /**
    * IDで評価を取得
    */
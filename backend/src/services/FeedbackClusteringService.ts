@@ -0,0 +1,174 @@
+// backend/src/services/FeedbackClusteringService.ts
+
+// 同じ指摘とみなすコサイン類似度のしきい値
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.88;
+// 繰り返しとみなすために必要な異なるレビューの数（同じレビューの再提出は繰り返しに数えない）
+export const DEFAULT_MIN_REVIEWS = 2;
+// AIプロンプトに含める繰り返し指摘の最大件数
+const MAX_PROMPT_ISSUES = 5;
+
+/**
+ * クラスタリング対象のフィードバック
+ */
+export interface ClusterableFeedback {
+  feedback_id: number;
+  submission_id: number;
+  review_id: number;
+  category: string | null;
+  priority: string;
+  problem_point: string;
+  created_at: Date;
+  embedding: number[];
+}
+
+/**
+ * 繰り返し指摘されている問題
+ */
+export interface RecurringIssue {
+  // 最も新しい指摘の問題点を代表として使用する
+  summary: string;
+  category: string | null;
+  occurrences: number;
+  review_count: number;
+  feedback_ids: number[];
+  review_ids: number[];
+  first_seen: Date;
+  last_seen: Date;
+}
+
+interface FeedbackCluster {
+  centroid: number[];
+  members: ClusterableFeedback[];
+}
+
+/**
+ * フィードバックのベクトルをクラスタリングし、繰り返し指摘されている問題を検出するサービス
+ */
+export class FeedbackClusteringService {
+  /**
+   * 類似したフィードバックをまとめ、複数のレビューにまたがるものを繰り返し指摘として返す
+   * 古い順に各クラスタの重心と比較し、しきい値以上で最も近いクラスタに追加する
+   */
+  findRecurringIssues(
+    feedbacks: ClusterableFeedback[],
+    options: { similarityThreshold?: number; minReviews?: number } = {}
+  ): RecurringIssue[] {
+    const threshold =
+      options.similarityThreshold ?? DEFAULT_SIMILARITY_THRESHOLD;
+    const minReviews = options.minReviews ?? DEFAULT_MIN_REVIEWS;
+    const clusters: FeedbackCluster[] = [];
+
+    [...feedbacks]
+      .sort((a, b) => a.created_at.getTime() - b.created_at.getTime())
+      .forEach((feedback) => {
+        let bestCluster: FeedbackCluster | null = null;
+        let bestSimilarity = threshold;
+
+        for (const cluster of clusters) {
+          const similarity = this.cosineSimilarity(
+            cluster.centroid,
+            feedback.embedding
+          );
+          if (similarity >= bestSimilarity) {
+            bestCluster = cluster;
+            bestSimilarity = similarity;
+          }
+        }
+
+        if (bestCluster) {
+          this.addToCluster(bestCluster, feedback);
+        } else {
+          clusters.push({
+            centroid: [...feedback.embedding],
+            members: [feedback],
+          });
+        }
+      });
+
+    return clusters
+      .map((cluster) => this.toRecurringIssue(cluster))
+      .filter((issue) => issue.review_count >= minReviews)
+      .sort(
+        (a, b) =>
+          b.review_count - a.review_count ||
+          b.occurrences - a.occurrences ||
+          b.last_seen.getTime() - a.last_seen.getTime()
+      );
+  }
+
+  /**
+   * AIレビューのプロンプトに含める繰り返し指摘の説明を作成
+   */
+  formatPromptContext(issues: RecurringIssue[]): string {
+    if (issues.length === 0) {
+      return "";
+    }
+
+    return issues
+      .slice(0, MAX_PROMPT_ISSUES)
+      .map(
+        (issue, index) =>
+          `${index + 1}. ${issue.summary}（${
+            issue.review_count
+          }件のレビューで計${issue.occurrences}回指摘、初回: ${this.formatDate(
+            issue.first_seen
+          )}、直近: ${this.formatDate(issue.last_seen)}）`
+      )
+      .join("\n");
+  }
+
+  /**
+   * コサイン類似度
+   */
+  cosineSimilarity(a: number[], b: number[]): number {
+    if (a.length === 0 || a.length !== b.length) {
+      return 0;
+    }
+
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+
+    return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+  }
+
+  private addToCluster(
+    cluster: FeedbackCluster,
+    feedback: ClusterableFeedback
+  ): void {
+    const count = cluster.members.length;
+    cluster.centroid = cluster.centroid.map(
+      (value, i) => (value * count + feedback.embedding[i]) / (count + 1)
+    );
+    cluster.members.push(feedback);
+  }
+
+  private toRecurringIssue(cluster: FeedbackCluster): RecurringIssue {
+    // メンバーは古い順に追加されている
+    const first = cluster.members[0];
+    const last = cluster.members[cluster.members.length - 1];
+    const reviewIds = Array.from(
+      new Set(cluster.members.map((m) => m.review_id))
+    );
+
+    return {
+      summary: last.problem_point,
+      category: last.category,
+      occurrences: cluster.members.length,
+      review_count: reviewIds.length,
+      feedback_ids: cluster.members.map((m) => m.feedback_id),
+      review_ids: reviewIds,
+      first_seen: first.created_at,
+      last_seen: last.created_at,
+    };
+  }
+
+  private formatDate(date: Date): string {
+    return date.toLocaleDateString("ja-JP");
+  }
+}
@@ -10,6 +10,13 @@ import { In } from "typeorm";
 import { Feedback } from "../models/Feedback";
 import { ExtractedFeedback } from "../interfaces/ExtractedFeedback";
 import { ImprovementEvaluationService } from "./ImprovementEvaluationService";
+import {
+  GitHubReviewCheckService,
+  ReviewCheckHandle,
+} from "./GitHubReviewCheckService";
+import { GitHubPushReviewScheduler } from "./GitHubPushReviewScheduler";
+import { ReviewProgressService } from "./ReviewProgressService";
+import { ReviewProgressInput } from "./ReviewProgressRelay";
 /**
  * GitHub PRの監視と自動レビュー処理を行うサービス
  */
@@ -19,6 +26,8 @@ export class GitHubPullRequestMonitoringService {
   private aiService: AIService;
   private feedbackSenderService: GitHubReviewFeedbackSenderService;
   private evaluationService: ImprovementEvaluationService;
+  private reviewCheckService: GitHubReviewCheckService;
+  private progressService = ReviewProgressService.getInstance();
   private githubRepositoryRepository =
     AppDataSource.getRepository(GitHubRepository);
   private trackerRepository = AppDataSource.getRepository(
@@ -31,6 +40,7 @@ export class GitHubPullRequestMonitoringService {
     this.aiService = new AIService();
     this.feedbackSenderService = new GitHubReviewFeedbackSenderService();
     this.evaluationService = new ImprovementEvaluationService();
+    this.reviewCheckService = new GitHubReviewCheckService();
   }
 
   /**
@@ -204,6 +214,11 @@ export class GitHubPullRequestMonitoringService {
                 }
               }
 
+              // プッシュ時の差分レビュー（Webhookの取りこぼしを定期チェックで補う）
+              if (repo.review_on_push) {
+                await this.schedulePushReviewIfNeeded(repo, pr);
+              }
+
               // 1つのPRにつき処理するのは最大1つのコメント（説明文か最新のコメント）
               if (commentProcessed) {
                 console.log(
@@ -241,21 +256,131 @@ export class GitHubPullRequestMonitoringService {
     );
     return { processed, skipped };
   }
+  /**
+   * 前回レビューしたコミットから最新のヘッドコミットまでの差分を再レビュー
+   * まだ一度もレビューされていないPRは対象外（初回レビューは@codereviewメンションで依頼する）
+   */
+  async reviewPushedCommits(
+    owner: string,
+    repo: string,
+    prNumber: number
+  ): Promise<boolean> {
+    console.log(`PR #${prNumber} (${owner}/${repo}) のプッシュ差分をチェック`);
+
+    const repository = await this.githubRepositoryRepository.findOne({
+      where: { owner, name: repo, is_active: true },
+    });
+
+    if (
+      !repository ||
+      !repository.allow_auto_review ||
+      !repository.review_on_push ||
+      !repository.access_token
+    ) {
+      console.log(
+        `リポジトリ ${owner}/${repo} ではプッシュ時の差分レビューが無効です`
+      );
+      return false;
+    }
+
+    const tracker = await this.trackerRepository.findOne({
+      where: { owner, repo, pull_request_id: prNumber },
+    });
+
+    if (!tracker || !tracker.last_reviewed_sha) {
+      console.log(
+        `PR #${prNumber} はまだレビューされていないため、差分レビューをスキップします`
+      );
+      return false;
+    }
+
+    const githubService = new GitHubService();
+    if (!githubService.initializeWithToken(repository.access_token)) {
+      console.log(
+        `リポジトリ ${owner}/${repo} のGitHub API初期化に失敗しました`
+      );
+      return false;
+    }
+
+    const prDetails = await githubService.getPullRequestDetails(
+      owner,
+      repo,
+      prNumber
+    );
+
+    if (prDetails.state !== "open") {
+      console.log(`PR #${prNumber} はクローズされているためスキップします`);
+      return false;
+    }
+
+    const headSha: string = prDetails.head.sha;
+    if (headSha === tracker.last_reviewed_sha) {
+      console.log(
+        `PR #${prNumber} のヘッドコミット ${headSha.substring(
+          0,
+          7
+        )} は既にレビュー済みです`
+      );
+      return false;
+    }
+
+    let incrementalBaseSha: string | undefined = tracker.last_reviewed_sha;
+    try {
+      const comparison = await githubService.compareCommits(
+        owner,
+        repo,
+        tracker.last_reviewed_sha,
+        headSha
+      );
+
+      // リベースのみなどで変更がない場合はレビューせず、起点だけを進める
+      if (!comparison.files || comparison.files.length === 0) {
+        console.log(
+          `PR #${prNumber} の前回レビュー以降の変更はありません (${comparison.status})`
+        );
+        tracker.last_reviewed_sha = headSha;
+        await this.trackerRepository.save(tracker);
+        return false;
+      }
+    } catch (compareError) {
+      // force push で前回のコミットが存在しない場合など
+      console.warn(
+        `PR #${prNumber} は前回レビューしたコミットと比較できないため、PR全体を再レビューします:`,
+        compareError instanceof Error ? compareError.message : compareError
+      );
+      incrementalBaseSha = undefined;
+    }
+
+    return this.checkSinglePullRequest(owner, repo, prNumber, undefined, {
+      isPushReview: true,
+      incrementalBaseSha,
+    });
+  }
+
   /**
    * 単一のプルリクエストをチェックしてAIレビューを実行
+   * @param options.isPushReview プッシュによる再レビュー（処理済みチェックを行わない）
+   * @param options.incrementalBaseSha 指定時はこのコミット以降の差分のみをレビュー
    */
   async checkSinglePullRequest(
     owner: string,
     repo: string,
     prNumber: number,
-    commentId?: number
+    commentId?: number,
+    options: { isPushReview?: boolean; incrementalBaseSha?: string } = {}
   ): Promise<boolean> {
     console.log(
       `PR #${prNumber} (${owner}/${repo}) をチェック${
         commentId ? ` (コメント#${commentId})` : ""
-      }`
+      }${options.isPushReview ? " (プッシュ)" : ""}`
     );
 
+    // レビュー処理が途中で失敗した場合にチェックを終了させるため保持する
+    let reviewCheck: {
+      handle: ReviewCheckHandle;
+      repository: GitHubRepository;
+    } | null = null;
+
     try {
       // リポジトリ設定を取得
       const repository = await this.githubRepositoryRepository.findOne({
@@ -309,6 +434,7 @@ export class GitHubPullRequestMonitoringService {
       }
 
       // コメントIDを考慮して、既に処理済みかチェック
+      // プッシュによる再レビューは呼び出し元でヘッドコミットを確認済み
       let isAlreadyProcessed = false;
       if (commentId) {
         isAlreadyProcessed = await this.isCommentProcessed(
@@ -317,7 +443,7 @@ export class GitHubPullRequestMonitoringService {
           prNumber,
           commentId
         );
-      } else {
+      } else if (!options.isPushReview) {
         isAlreadyProcessed = await this.isPRDescriptionProcessed(
           owner,
           repo,
@@ -442,9 +568,21 @@ export class GitHubPullRequestMonitoringService {
         }
       }
 
+      // ヘッドコミットにチェックを作成（リポジトリで有効な場合のみ）
+      const checkHandle = await this.reviewCheckService.startReviewCheck(
+        this.githubService,
+        repository,
+        prDetails.head?.sha
+      );
+      if (checkHandle) {
+        reviewCheck = { handle: checkHandle, repository };
+      }
+
       // レビュートークンを生成
       const reviewToken = `github-review-${owner}-${repo}-${prNumber}-${Date.now()}`;
 
+      this.publishProgress(owner, repo, prNumber, { stage: "started" });
+
       // AIレビューを実行（AIServiceに必要なパラメータを渡す）
       const aiService = new AIService(); // 新しいインスタンスを作成
       const reviewResult = await aiService.reviewGitHubPullRequest(
@@ -455,15 +593,30 @@ export class GitHubPullRequestMonitoringService {
           isReReview,
           reviewToken,
           sourceCommentId: commentId,
-          isDescriptionRequest: commentId === undefined,
+          isDescriptionRequest:
+            commentId === undefined && !options.isPushReview,
+          isPrUpdate: options.isPushReview,
           previousFeedbacks: previousFeedbacks || [],
           previousComments: previousComments, // 前回のコメント情報を渡す
+          incrementalBaseSha: options.incrementalBaseSha,
         }
       );
 
       // レビュー結果が正しく生成されたか確認
       if (!reviewResult || reviewResult.length === 0) {
         console.warn(`PR #${prNumber} のレビュー結果が空です`);
+        if (reviewCheck) {
+          await this.reviewCheckService.failReviewCheck(
+            this.githubService,
+            reviewCheck.repository,
+            reviewCheck.handle,
+            "AIレビューの結果が空でした。"
+          );
+        }
+        this.publishProgress(owner, repo, prNumber, {
+          stage: "failed",
+          error: "AIレビューの結果が空でした",
+        });
         return false;
       }
 
@@ -482,15 +635,45 @@ export class GitHubPullRequestMonitoringService {
           {
             isReReview,
             sourceCommentId: commentId,
+            headSha: prDetails.head?.sha,
+            incrementalBaseSha: options.incrementalBaseSha,
           }
         );
 
       if (!sendResult) {
         console.error(`PR #${prNumber} へのレビュー結果送信に失敗しました`);
+        if (reviewCheck) {
+          await this.reviewCheckService.failReviewCheck(
+            this.githubService,
+            reviewCheck.repository,
+            reviewCheck.handle,
+            "レビュー結果をPRに送信できませんでした。"
+          );
+        }
+        this.publishProgress(owner, repo, prNumber, {
+          stage: "failed",
+          error: "レビュー結果をPRに送信できませんでした",
+        });
         return false;
       }
 
-      // 処理済みとしてマーク
+      this.publishProgress(owner, repo, prNumber, {
+        stage: "sent_to_github",
+        feedback_count: reviewResult.length,
+      });
+
+      // チェックをレビュー結果で完了させる
+      if (reviewCheck) {
+        await this.reviewCheckService.completeReviewCheck(
+          this.githubService,
+          reviewCheck.repository,
+          reviewCheck.handle,
+          prNumber,
+          reviewResult
+        );
+      }
+
+      // 処理済みとしてマーク（プッシュによる再レビューは送信時に記録したヘッドコミットで管理）
       if (commentId) {
         await this.markCommentAsProcessed(
           owner,
@@ -499,7 +682,7 @@ export class GitHubPullRequestMonitoringService {
           commentId,
           repository.id
         );
-      } else {
+      } else if (!options.isPushReview) {
         await this.markPRDescriptionAsProcessed(
           owner,
           repo,
@@ -511,16 +694,55 @@ export class GitHubPullRequestMonitoringService {
       console.log(
         `PR #${prNumber} (${owner}/${repo}) のレビューが完了しました`
       );
+      this.publishProgress(owner, repo, prNumber, { stage: "completed" });
       return true;
     } catch (error) {
       console.error(
         `PR #${prNumber} (${owner}/${repo}) のレビュー中にエラーが発生しました:`,
         error
       );
+      if (reviewCheck) {
+        await this.reviewCheckService.failReviewCheck(
+          this.githubService,
+          reviewCheck.repository,
+          reviewCheck.handle,
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+      this.publishProgress(owner, repo, prNumber, {
+        stage: "failed",
+        error: error instanceof Error ? error.message : String(error),
+      });
       return false;
     }
   }
 
+  /**
+   * PRレビューの進捗を配信（提出者がいないため管理者にだけ配信される）
+   * 進捗の保存に失敗してもレビュー処理は続ける
+   */
+  private publishProgress(
+    owner: string,
+    repo: string,
+    prNumber: number,
+    progress: Pick<ReviewProgressInput, "stage" | "feedback_count" | "error">
+  ): void {
+    this.progressService
+      .publish({
+        user_id: null,
+        review_id: null,
+        submission_id: null,
+        pull_request: `${owner}/${repo}#${prNumber}`,
+        ...progress,
+      })
+      .catch((error) =>
+        console.error(
+          `PR #${prNumber} (${owner}/${repo}) の進捗の保存に失敗しました:`,
+          error
+        )
+      );
+  }
+
   /**
    * コメントからフィードバック項目を抽出して構造化する
    * @param commentBody コメント本文
@@ -956,6 +1178,40 @@ export class GitHubPullRequestMonitoringService {
     }
   }
 
+  /**
+   * 前回レビュー以降にプッシュされたPRの差分レビューを予約
+   */
+  private async schedulePushReviewIfNeeded(
+    repository: GitHubRepository,
+    pr: any
+  ): Promise<void> {
+    const headSha = pr.head?.sha;
+    if (!headSha) {
+      return;
+    }
+
+    const tracker = await this.trackerRepository.findOne({
+      where: {
+        owner: repository.owner,
+        repo: repository.name,
+        pull_request_id: pr.number,
+      },
+    });
+
+    if (
+      tracker &&
+      tracker.last_reviewed_sha &&
+      tracker.last_reviewed_sha !== headSha
+    ) {
+      githubPushReviewScheduler.schedule(
+        repository.owner,
+        repository.name,
+        pr.number,
+        headSha
+      );
+    }
+  }
+
   /**
    * チェックリストの進捗状況を取得
    */
@@ -1654,3 +1910,14 @@ ${commentBody}
     return categoryMap[category] || category;
   }
 }
+
+// Webhookと定期チェックで共有する、プッシュ時の差分レビューのスケジューラ
+export const githubPushReviewScheduler = new GitHubPushReviewScheduler(
+  (owner, repo, prNumber) =>
+    new GitHubPullRequestMonitoringService().reviewPushedCommits(
+      owner,
+      repo,
+      prNumber
+    ),
+  parseInt(process.env.GITHUB_PUSH_REVIEW_DEBOUNCE_SECONDS || "120") * 1000
+);
@@ -0,0 +1,117 @@
+// backend/src/services/GitHubPushReviewScheduler.ts
+
+// プッシュ後にレビューを開始するまでの待機時間（連続したプッシュを1回のレビューにまとめる）
+const DEFAULT_DEBOUNCE_MS = 2 * 60 * 1000;
+
+type PushReviewRunner = (
+  owner: string,
+  repo: string,
+  prNumber: number
+) => Promise<unknown>;
+
+interface PendingPushReview {
+  headSha: string;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * PRへのプッシュによる再レビューをデバウンスするスケジューラ
+ * 同じPRへのプッシュが続いた場合は最後のプッシュから待機時間が経過した時点で1回だけレビューを実行する
+ */
+export class GitHubPushReviewScheduler {
+  private pending = new Map<string, PendingPushReview>();
+  private running = new Set<string>();
+
+  constructor(
+    private runner: PushReviewRunner,
+    private debounceMs: number = DEFAULT_DEBOUNCE_MS
+  ) {}
+
+  /**
+   * プッシュされたヘッドコミットのレビューを予約
+   * 同じヘッドコミットで予約済みの場合は待機時間を延長しない（定期チェックからの再予約対策）
+   * @returns 新たに予約（または予約を更新）した場合は true
+   */
+  schedule(
+    owner: string,
+    repo: string,
+    prNumber: number,
+    headSha: string
+  ): boolean {
+    const key = this.getKey(owner, repo, prNumber);
+    const existing = this.pending.get(key);
+
+    if (existing && existing.headSha === headSha) {
+      return false;
+    }
+    if (existing) {
+      clearTimeout(existing.timer);
+    }
+
+    const timer = setTimeout(
+      () => this.run(key, owner, repo, prNumber, headSha),
+      this.debounceMs
+    );
+    this.pending.set(key, { headSha, timer });
+
+    console.log(
+      `PR #${prNumber} (${owner}/${repo}) の差分レビューを予約しました: ${headSha.substring(
+        0,
+        7
+      )} (${Math.round(this.debounceMs / 1000)}秒後)`
+    );
+    return true;
+  }
+
+  /**
+   * 予約中またはレビュー実行中かどうか
+   */
+  isScheduled(owner: string, repo: string, prNumber: number): boolean {
+    const key = this.getKey(owner, repo, prNumber);
+    return this.pending.has(key) || this.running.has(key);
+  }
+
+  /**
+   * 予約を取り消す（PRがクローズされた場合など）
+   */
+  cancel(owner: string, repo: string, prNumber: number): void {
+    const key = this.getKey(owner, repo, prNumber);
+    const existing = this.pending.get(key);
+    if (existing) {
+      clearTimeout(existing.timer);
+      this.pending.delete(key);
+    }
+  }
+
+  private async run(
+    key: string,
+    owner: string,
+    repo: string,
+    prNumber: number,
+    headSha: string
+  ): Promise<void> {
+    this.pending.delete(key);
+
+    // 前回のレビューが実行中の場合は、終了後に改めてレビューするよう予約し直す
+    if (this.running.has(key)) {
+      this.schedule(owner, repo, prNumber, headSha);
+      return;
+    }
+
+    this.running.add(key);
+    try {
+      await this.runner(owner, repo, prNumber);
+    } catch (error) {
+      console.error(
+        `PR #${prNumber} (${owner}/${repo}) の差分レビュー実行エラー:`,
+        error
+      );
+    } finally {
+      this.running.delete(key);
+    }
+  }
+
+  private getKey(owner: string, repo: string, prNumber: number): string {
+    return `${owner}/${repo}#${prNumber}`;
+  }
+}
@@ -1,7 +1,11 @@
 // backend/src/services/GitHubRepositoryService.ts
 import { AppDataSource } from "../index";
-import { GitHubRepository } from "../models/GitHubRepository";
+import {
+  GitHubRepository,
+  GitHubCheckGatingPolicy,
+} from "../models/GitHubRepository";
 import { GitHubService } from "./GitHubService";
+import { RepositoryVectorSearchService } from "./RepositoryVectorSearchService";
 import { Not, IsNull } from "typeorm";
 
 /**
@@ -11,9 +15,11 @@ export class GitHubRepositoryService {
   private githubRepositoryRepository =
     AppDataSource.getRepository(GitHubRepository);
   private githubService: GitHubService;
+  private repositoryVectorService: RepositoryVectorSearchService;
 
   constructor() {
     this.githubService = new GitHubService();
+    this.repositoryVectorService = new RepositoryVectorSearchService();
   }
 
   /**
@@ -78,6 +84,9 @@ export class GitHubRepositoryService {
     webhook_secret?: string;
     is_active?: boolean;
     allow_auto_review?: boolean;
+    review_on_push?: boolean;
+    checks_enabled?: boolean;
+    check_gating_policy?: GitHubCheckGatingPolicy;
   }): Promise<GitHubRepository> {
     console.log(`新しいGitHubリポジトリを登録: ${data.owner}/${data.name}`);
 
@@ -93,6 +102,7 @@ export class GitHubRepositoryService {
     }
 
     // リポジトリの有効性を確認
+    let defaultBranch = "main";
     try {
       // APIクライアントを初期化
       this.githubService.initializeWithToken(data.access_token);
@@ -112,6 +122,7 @@ export class GitHubRepositoryService {
       console.log(
         `GitHub APIでリポジトリを確認: ${repoInfo.full_name} (${repoInfo.visibility})`
       );
+      defaultBranch = repoInfo.default_branch || defaultBranch;
     } catch (error) {
       console.error(
         `リポジトリ確認エラー (${data.owner}/${data.name}):`,
@@ -133,10 +144,53 @@ export class GitHubRepositoryService {
       is_active: data.is_active !== undefined ? data.is_active : true,
       allow_auto_review:
         data.allow_auto_review !== undefined ? data.allow_auto_review : true,
+      review_on_push: data.review_on_push || false,
+      checks_enabled: data.checks_enabled || false,
+      check_gating_policy:
+        data.check_gating_policy || GitHubCheckGatingPolicy.HIGH_SECURITY,
     });
 
     // リポジトリを保存
-    return this.githubRepositoryRepository.save(repository);
+    const savedRepository = await this.githubRepositoryRepository.save(
+      repository
+    );
+
+    // バックグラウンドでデフォルトブランチのベクトル化を開始
+    this.triggerBackgroundVectorization(savedRepository, defaultBranch);
+
+    return savedRepository;
+  }
+
+  /**
+   * バックグラウンドでベクトル化処理を開始
+   * レビュー時にリポジトリ内の関連コードを参照できるようにする
+   */
+  triggerBackgroundVectorization(
+    repository: GitHubRepository,
+    branch: string
+  ): void {
+    if (!repository.is_active || !repository.access_token) {
+      return;
+    }
+
+    this.repositoryVectorService
+      .vectorizeGitHubRepository(
+        repository.owner,
+        repository.name,
+        branch,
+        repository.access_token
+      )
+      .then(() =>
+        console.log(
+          `GitHubリポジトリ ${repository.owner}/${repository.name} (${branch}) のベクトル化が完了しました`
+        )
+      )
+      .catch((error) =>
+        console.error(
+          `バックグラウンドベクトル化エラー ${repository.owner}/${repository.name}:`,
+          error
+        )
+      );
   }
 
   /**
@@ -149,6 +203,9 @@ export class GitHubRepositoryService {
       webhook_secret?: string;
       is_active?: boolean;
       allow_auto_review?: boolean;
+      review_on_push?: boolean;
+      checks_enabled?: boolean;
+      check_gating_policy?: GitHubCheckGatingPolicy;
     }
   ): Promise<GitHubRepository | null> {
     console.log(`GitHubリポジトリを更新: ID ${id}`);
@@ -172,6 +229,15 @@ export class GitHubRepositoryService {
     if (data.allow_auto_review !== undefined) {
       repository.allow_auto_review = data.allow_auto_review;
     }
+    if (data.review_on_push !== undefined) {
+      repository.review_on_push = data.review_on_push;
+    }
+    if (data.checks_enabled !== undefined) {
+      repository.checks_enabled = data.checks_enabled;
+    }
+    if (data.check_gating_policy !== undefined) {
+      repository.check_gating_policy = data.check_gating_policy;
+    }
 
     // アクセストークンが変更された場合、有効性をチェック
     if (data.access_token && data.access_token !== repository.access_token) {
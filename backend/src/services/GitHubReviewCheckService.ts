@@ -0,0 +1,325 @@
+// backend/src/services/GitHubReviewCheckService.ts
+import { GitHubService } from "./GitHubService";
+import { PullRequestDiffAnchorService } from "./PullRequestDiffAnchorService";
+import {
+  GitHubCheckGatingPolicy,
+  GitHubRepository,
+} from "../models/GitHubRepository";
+import { FeedbackCategory, FeedbackPriority } from "../models/Feedback";
+
+// ブランチ保護の必須チェックに指定する名前
+export const AI_REVIEW_CHECK_NAME = "AIコードレビュー";
+
+/**
+ * 作成したチェックの参照
+ * checkRunId がない場合は Checks API の代わりにコミットステータスを使用している
+ */
+export interface ReviewCheckHandle {
+  owner: string;
+  repo: string;
+  headSha: string;
+  checkRunId?: number;
+}
+
+export interface ReviewCheckResult {
+  conclusion: "success" | "failure" | "neutral";
+  title: string;
+  summary: string;
+  blockingCount: number;
+}
+
+const GATING_POLICY_LABELS: Record<GitHubCheckGatingPolicy, string> = {
+  [GitHubCheckGatingPolicy.NONE]: "結果の表示のみ（マージをブロックしない）",
+  [GitHubCheckGatingPolicy.HIGH_SECURITY]:
+    "優先度「高」のセキュリティ指摘が残っている場合に失敗",
+  [GitHubCheckGatingPolicy.HIGH_PRIORITY]:
+    "優先度「高」の指摘が残っている場合に失敗",
+  [GitHubCheckGatingPolicy.ANY_IMPROVEMENT]:
+    "改善提案が1件でも残っている場合に失敗",
+};
+
+/**
+ * PRのヘッドコミットにAIレビューのチェックを作成し、レビュー結果からマージ可否を判定するサービス
+ */
+export class GitHubReviewCheckService {
+  private diffAnchorService = new PullRequestDiffAnchorService();
+
+  /**
+   * レビュー開始時にチェックを「実行中」で作成
+   * Checks API が使えないトークンの場合はコミットステータスで代替する
+   */
+  async startReviewCheck(
+    githubService: GitHubService,
+    repository: GitHubRepository,
+    headSha: string
+  ): Promise<ReviewCheckHandle | null> {
+    if (!repository.checks_enabled || !headSha) {
+      return null;
+    }
+
+    const handle: ReviewCheckHandle = {
+      owner: repository.owner,
+      repo: repository.name,
+      headSha,
+    };
+
+    try {
+      const checkRun = await githubService.createCheckRun(
+        handle.owner,
+        handle.repo,
+        {
+          name: AI_REVIEW_CHECK_NAME,
+          headSha,
+          title: "AIレビューを実行中です",
+          summary: "レビューが完了すると結果がここに表示されます。",
+        }
+      );
+      return { ...handle, checkRunId: checkRun.id };
+    } catch (checkRunError) {
+      console.warn(
+        `チェックランを作成できないため、コミットステータスで代替します (${handle.owner}/${handle.repo}):`,
+        checkRunError instanceof Error ? checkRunError.message : checkRunError
+      );
+    }
+
+    try {
+      await githubService.createCommitStatus(
+        handle.owner,
+        handle.repo,
+        headSha,
+        {
+          state: "pending",
+          context: AI_REVIEW_CHECK_NAME,
+          description: "AIレビューを実行中です",
+        }
+      );
+      return handle;
+    } catch (statusError) {
+      console.error(
+        `コミットステータスの作成に失敗しました (${handle.owner}/${handle.repo}):`,
+        statusError instanceof Error ? statusError.message : statusError
+      );
+      return null;
+    }
+  }
+
+  /**
+   * レビュー結果からチェックを完了させる
+   * チェックランの場合は各フィードバックを差分の行にアノテーションとして付与する
+   */
+  async completeReviewCheck(
+    githubService: GitHubService,
+    repository: GitHubRepository,
+    handle: ReviewCheckHandle,
+    pullRequestId: number,
+    feedbacks: Array<any>
+  ): Promise<ReviewCheckResult> {
+    const policy =
+      repository.check_gating_policy || GitHubCheckGatingPolicy.HIGH_SECURITY;
+    const result = this.evaluateFeedbacks(feedbacks, policy);
+
+    try {
+      if (handle.checkRunId) {
+        const annotations = await this.buildAnnotations(
+          githubService,
+          handle,
+          pullRequestId,
+          feedbacks,
+          policy
+        );
+        await githubService.completeCheckRun(
+          handle.owner,
+          handle.repo,
+          handle.checkRunId,
+          { ...result, annotations }
+        );
+      } else {
+        await githubService.createCommitStatus(
+          handle.owner,
+          handle.repo,
+          handle.headSha,
+          {
+            state: result.conclusion === "failure" ? "failure" : "success",
+            context: AI_REVIEW_CHECK_NAME,
+            description: result.title,
+          }
+        );
+      }
+      console.log(
+        `PR #${pullRequestId} のチェックを完了しました: ${result.conclusion}`
+      );
+    } catch (error) {
+      console.error(`PR #${pullRequestId} のチェック更新エラー:`, error);
+    }
+
+    return result;
+  }
+
+  /**
+   * レビュー処理が失敗した場合にチェックを終了させる
+   * ブロックする方針のリポジトリでは未レビューのままマージされないよう失敗にする
+   */
+  async failReviewCheck(
+    githubService: GitHubService,
+    repository: GitHubRepository,
+    handle: ReviewCheckHandle,
+    reason: string
+  ): Promise<void> {
+    const isGating =
+      repository.check_gating_policy !== GitHubCheckGatingPolicy.NONE;
+    const title = "AIレビューを完了できませんでした";
+
+    try {
+      if (handle.checkRunId) {
+        await githubService.completeCheckRun(
+          handle.owner,
+          handle.repo,
+          handle.checkRunId,
+          {
+            conclusion: isGating ? "failure" : "neutral",
+            title,
+            summary: `${reason}\n\n時間をおいて再度レビューを依頼してください。`,
+          }
+        );
+      } else {
+        await githubService.createCommitStatus(
+          handle.owner,
+          handle.repo,
+          handle.headSha,
+          {
+            state: isGating ? "error" : "success",
+            context: AI_REVIEW_CHECK_NAME,
+            description: title,
+          }
+        );
+      }
+    } catch (error) {
+      console.error("チェックの失敗状態への更新エラー:", error);
+    }
+  }
+
+  /**
+   * フィードバックとゲーティング方針からチェックの結論を判定
+   */
+  evaluateFeedbacks(
+    feedbacks: Array<any>,
+    policy: GitHubCheckGatingPolicy
+  ): ReviewCheckResult {
+    const improvements = feedbacks.filter(
+      (f) => f.feedback_type === "improvement"
+    );
+    const strengths = feedbacks.filter((f) => f.feedback_type === "strength");
+    const blocking = improvements.filter((f) => this.isBlocking(f, policy));
+
+    const conclusion =
+      policy === GitHubCheckGatingPolicy.NONE
+        ? "neutral"
+        : blocking.length > 0
+        ? "failure"
+        : "success";
+
+    const title =
+      conclusion === "failure"
+        ? `マージ前に対応が必要な指摘が${blocking.length}件あります`
+        : `改善提案${improvements.length}件・良い点${strengths.length}件`;
+
+    let summary = `## 判定方針\n\n${GATING_POLICY_LABELS[policy]}\n\n`;
+    summary += `## 結果\n\n`;
+    summary += `- 良い点: **${strengths.length}件**\n`;
+    summary += `- 改善提案: **${improvements.length}件**\n`;
+    if (policy !== GitHubCheckGatingPolicy.NONE) {
+      summary += `- マージ前に対応が必要な指摘: **${blocking.length}件**\n`;
+    }
+
+    if (blocking.length > 0) {
+      summary += `\n## 対応が必要な指摘\n\n`;
+      blocking.forEach((feedback, index) => {
+        summary += `${index + 1}. ${feedback.point}\n`;
+      });
+    }
+
+    return { conclusion, title, summary, blockingCount: blocking.length };
+  }
+
+  /**
+   * ゲーティング方針に照らしてマージをブロックする指摘かどうか
+   */
+  private isBlocking(feedback: any, policy: GitHubCheckGatingPolicy): boolean {
+    if (feedback.feedback_type !== "improvement" || feedback.is_resolved) {
+      return false;
+    }
+
+    switch (policy) {
+      case GitHubCheckGatingPolicy.HIGH_SECURITY:
+        return (
+          feedback.priority === FeedbackPriority.HIGH &&
+          feedback.category === FeedbackCategory.SECURITY
+        );
+      case GitHubCheckGatingPolicy.HIGH_PRIORITY:
+        return feedback.priority === FeedbackPriority.HIGH;
+      case GitHubCheckGatingPolicy.ANY_IMPROVEMENT:
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * コードスニペットを差分の行に紐づけてアノテーションを作成
+   */
+  private async buildAnnotations(
+    githubService: GitHubService,
+    handle: ReviewCheckHandle,
+    pullRequestId: number,
+    feedbacks: Array<any>,
+    policy: GitHubCheckGatingPolicy
+  ) {
+    const targetFeedbacks = feedbacks.filter((f) => f.code_snippet);
+    if (targetFeedbacks.length === 0) {
+      return [];
+    }
+
+    try {
+      const diffData = await githubService.getPullRequestDiff(
+        handle.owner,
+        handle.repo,
+        pullRequestId,
+        { includeContent: false }
+      );
+
+      return targetFeedbacks.flatMap((feedback) => {
+        const anchor = this.diffAnchorService.findAnchor(
+          feedback.code_snippet,
+          diffData.changedFiles || []
+        );
+        if (!anchor) {
+          return [];
+        }
+
+        const isStrength = feedback.feedback_type === "strength";
+        return [
+          {
+            path: anchor.path,
+            start_line: anchor.startLine || anchor.line,
+            end_line: anchor.line,
+            annotation_level: isStrength
+              ? ("notice" as const)
+              : this.isBlocking(feedback, policy)
+              ? ("failure" as const)
+              : ("warning" as const),
+            title: isStrength ? "良い点" : "改善提案",
+            message: feedback.suggestion
+              ? `${feedback.point}\n\n改善案: ${feedback.suggestion}`
+              : feedback.point,
+          },
+        ];
+      });
+    } catch (error) {
+      console.warn(
+        `アノテーション用の差分取得に失敗しました (PR #${pullRequestId}):`,
+        error instanceof Error ? error.message : error
+      );
+      return [];
+    }
+  }
+}
@@ -11,6 +11,18 @@ import {
 } from "../models/Feedback";
 import { GitHubPullRequestTracker } from "../models/GitHubPullRequestTracker";
 import { GitHubRepository } from "../models/GitHubRepository";
+import { PullRequestDiffAnchorService } from "./PullRequestDiffAnchorService";
+
+/**
+ * 差分上の行に紐づけて投稿したフィードバックのコメント
+ */
+interface InlineFeedbackComment {
+  id: number;
+  path: string;
+  line: number;
+  startLine?: number;
+  htmlUrl?: string;
+}
 
 /**
  * GitHubのPRにAIレビュー結果をコメントとして送信するサービス
@@ -18,6 +30,7 @@ import { GitHubRepository } from "../models/GitHubRepository";
 export class GitHubReviewFeedbackSenderService {
   private githubService: GitHubService;
   private feedbackService: FeedbackService;
+  private diffAnchorService = new PullRequestDiffAnchorService();
   private reviewRepository = AppDataSource.getRepository(Review);
   private submissionRepository = AppDataSource.getRepository(CodeSubmission);
   private feedbackRepository = AppDataSource.getRepository(Feedback);
@@ -44,6 +57,8 @@ export class GitHubReviewFeedbackSenderService {
       isReReview?: boolean;
       sourceCommentId?: number;
       isDescriptionRequest?: boolean;
+      headSha?: string; // レビュー対象のヘッドコミット
+      incrementalBaseSha?: string; // 差分レビューの場合の起点コミット
     }
   ): Promise<boolean> {
     console.log(
@@ -83,11 +98,30 @@ export class GitHubReviewFeedbackSenderService {
           reference_url: imp.reference_url,
         }));
 
-      // フィードバックをマークダウン形式に変換
+      // コードスニペットを差分上の行に紐づけてインラインコメントとして投稿
+      const inlineComments = await this.postInlineReviewComments(
+        owner,
+        repo,
+        pullRequestId,
+        reviewToken,
+        feedbacks
+      );
+      const inlineCommentIds = Array.from(inlineComments.values()).map(
+        (comment) => comment.id
+      );
+
+      // フィードバックをマークダウン形式に変換（インライン化できなかった項目の詳細を含むサマリー）
       const markdownFeedback = this.formatFeedbacksToMarkdown(
         feedbacks,
         reviewContext?.isReReview || false,
-        reviewToken
+        reviewToken,
+        inlineComments,
+        reviewContext?.incrementalBaseSha && reviewContext.headSha
+          ? {
+              baseSha: reviewContext.incrementalBaseSha,
+              headSha: reviewContext.headSha,
+            }
+          : undefined
       );
 
       // 埋め込みデータを追加（GitHubのUIでは見えない）
@@ -154,11 +188,16 @@ ${JSON.stringify(embeddedData, null, 0)}
         );
         tracker.description_processed =
           reviewContext?.isDescriptionRequest || false;
+        if (reviewContext?.headSha) {
+          tracker.last_reviewed_sha = reviewContext.headSha;
+        }
 
         // AIレビューコメントIDを初期化
+        // 再レビュー時は最後のIDからサマリーの埋め込みデータを読むため、インラインコメントは別に記録する
         tracker.ai_review_comment_ids = JSON.stringify(
           commentResponse && commentResponse.id ? [commentResponse.id] : []
         );
+        tracker.ai_inline_comment_ids = JSON.stringify(inlineCommentIds);
 
         // レビュー履歴を初期化
         tracker.review_history = JSON.stringify([
@@ -171,6 +210,8 @@ ${JSON.stringify(embeddedData, null, 0)}
             source_comment_id: reviewContext?.sourceCommentId,
             educational_focus: true,
             comment_id: commentResponse ? commentResponse.id : null,
+            inline_comment_ids: inlineCommentIds,
+            head_sha: reviewContext?.headSha,
           },
         ]);
 
@@ -199,6 +240,16 @@ ${JSON.stringify(embeddedData, null, 0)}
         );
       }
 
+      // インラインコメントのIDはサマリーコメントの有無に関わらず別に記録する
+      let aiInlineCommentIds = [];
+      try {
+        aiInlineCommentIds = JSON.parse(tracker.ai_inline_comment_ids || "[]");
+      } catch (e) {
+        console.warn("AIインラインコメントIDのパースエラー:", e);
+      }
+      aiInlineCommentIds.push(...inlineCommentIds);
+      tracker.ai_inline_comment_ids = JSON.stringify(aiInlineCommentIds);
+
       // レビュー履歴を更新（教育目的要素を追加）
       let reviewHistory = [];
       try {
@@ -235,10 +286,16 @@ ${JSON.stringify(embeddedData, null, 0)}
         growth_indicator: growthIndicator,
         educational_focus: true,
         comment_id: commentResponse ? commentResponse.id : null, // コメントIDを履歴に追加
+        inline_comment_ids: inlineCommentIds,
+        head_sha: reviewContext?.headSha,
+        incremental_base_sha: reviewContext?.incrementalBaseSha,
       });
 
       tracker.review_history = JSON.stringify(reviewHistory);
       tracker.last_review_at = now;
+      if (reviewContext?.headSha) {
+        tracker.last_reviewed_sha = reviewContext.headSha;
+      }
       tracker.review_count = tracker.review_count + 1;
 
       await this.trackerRepository.save(tracker);
@@ -267,7 +324,9 @@ ${JSON.stringify(embeddedData, null, 0)}
   private formatFeedbacksToMarkdown(
     feedbacks: Array<any>,
     isReReview: boolean,
-    reviewToken: string
+    reviewToken: string,
+    inlineComments: Map<any, InlineFeedbackComment> = new Map(),
+    reviewedRange?: { baseSha: string; headSha: string }
   ): string {
     // 良い点と改善点を分類
     const strengths = feedbacks.filter((f) => f.feedback_type === "strength");
@@ -305,12 +364,25 @@ ${JSON.stringify(embeddedData, null, 0)}
       markdown += `> 🔄 これは再レビューの結果です\n\n`;
     }
 
+    if (reviewedRange) {
+      markdown += `> 📌 前回のレビュー以降にプッシュされた変更（\`${reviewedRange.baseSha.substring(
+        0,
+        7
+      )}\`...\`${reviewedRange.headSha.substring(
+        0,
+        7
+      )}\`）のみを対象にしています\n\n`;
+    }
+
     markdown += `${new Date().toLocaleString("ja-JP")} に生成されました\n\n`;
 
     // サマリー
     markdown += `## 📊 レビューサマリー\n\n`;
     markdown += `- 良い点: **${strengths.length}件**\n`;
     markdown += `- 改善提案: **${improvements.length}件**\n`;
+    if (inlineComments.size > 0) {
+      markdown += `- うちコード上へのコメント: **${inlineComments.size}件**（「Files changed」タブで該当行を確認できます）\n`;
+    }
     markdown += `\n`;
 
     // 再レビューの場合は成長に関するコメントを追加
@@ -339,8 +411,12 @@ ${JSON.stringify(embeddedData, null, 0)}
         categoryFeedbacks.forEach((feedback, index) => {
           markdown += `**${index + 1}. ${feedback.point}**\n\n`;
 
-          // コードスニペットがあれば表示
-          if (feedback.code_snippet) {
+          // インラインコメント済みの項目は該当行へのリンクのみ表示
+          const inlineComment = inlineComments.get(feedback);
+          if (inlineComment) {
+            markdown += this.formatInlineCommentLink(inlineComment);
+          } else if (feedback.code_snippet) {
+            // コードスニペットがあれば表示
             markdown += "```\n";
             markdown += feedback.code_snippet + "\n";
             markdown += "```\n\n";
@@ -378,6 +454,16 @@ ${JSON.stringify(embeddedData, null, 0)}
         categoryFeedbacks.forEach((feedback, index) => {
           markdown += `#### ${index + 1}. ${feedback.point}\n\n`;
 
+          // インラインコメント済みの項目は詳細をコード上のコメントに任せる
+          const inlineComment = inlineComments.get(feedback);
+          if (inlineComment) {
+            markdown += this.formatInlineCommentLink(inlineComment);
+            if (index < categoryFeedbacks.length - 1) {
+              markdown += `---\n\n`;
+            }
+            return;
+          }
+
           if (feedback.suggestion) {
             markdown += `**改善案**: ${feedback.suggestion}\n\n`;
           }
@@ -389,6 +475,12 @@ ${JSON.stringify(embeddedData, null, 0)}
             markdown += "```\n\n";
           }
 
+          // 行に紐づけられなかった修正例は通常のコードブロックで表示
+          if (feedback.suggested_code) {
+            markdown += `**修正例**\n\n`;
+            markdown += this.wrapCodeBlock(feedback.suggested_code);
+          }
+
           // 参考URLがあれば表示
           if (feedback.reference_url) {
             markdown += `📚 **参考資料**: [${feedback.reference_url}](${feedback.reference_url})\n\n`;
@@ -438,6 +530,189 @@ ${JSON.stringify(embeddedData, null, 0)}
     return markdown;
   }
 
+  /**
+   * コードスニペットを持つフィードバックを差分の行に紐づけ、PRレビューコメントとして投稿
+   * 行を特定できなかった項目や投稿に失敗した場合はサマリーコメントに含める
+   */
+  private async postInlineReviewComments(
+    owner: string,
+    repo: string,
+    pullRequestId: number,
+    reviewToken: string,
+    feedbacks: Array<any>
+  ): Promise<Map<any, InlineFeedbackComment>> {
+    const inlineComments = new Map<any, InlineFeedbackComment>();
+    const targetFeedbacks = feedbacks.filter((f) => f.code_snippet);
+    if (targetFeedbacks.length === 0) {
+      return inlineComments;
+    }
+
+    try {
+      const diffData = await this.githubService.getPullRequestDiff(
+        owner,
+        repo,
+        pullRequestId,
+        { includeContent: false }
+      );
+
+      const changedFiles = diffData.changedFiles || [];
+      const anchored = targetFeedbacks
+        .map((feedback, index) => {
+          // 修正後のコードは置き換え範囲が差分と完全に一致する場合のみ提案ブロックにする
+          const exactRange =
+            feedback.feedback_type === "improvement" && feedback.suggested_code
+              ? this.diffAnchorService.findExactRange(
+                  feedback.code_snippet,
+                  changedFiles
+                )
+              : null;
+
+          return {
+            feedback,
+            index,
+            anchor:
+              exactRange ||
+              this.diffAnchorService.findAnchor(
+                feedback.code_snippet,
+                changedFiles
+              ),
+            suggestedChange: exactRange
+              ? this.diffAnchorService.alignIndentation(
+                  feedback.suggested_code,
+                  exactRange.lines
+                )
+              : undefined,
+          };
+        })
+        .filter((item) => item.anchor !== null);
+
+      console.log(
+        `インラインコメント対象: ${anchored.length}/${targetFeedbacks.length}件のフィードバックを差分の行に紐づけました`
+      );
+      if (anchored.length === 0) {
+        return inlineComments;
+      }
+
+      const review = await this.githubService.createPullRequestReview(
+        owner,
+        repo,
+        pullRequestId,
+        {
+          commitId: diffData.pullRequest?.headSha,
+          comments: anchored.map(
+            ({ feedback, index, anchor, suggestedChange }) => ({
+              path: anchor!.path,
+              line: anchor!.line,
+              startLine: anchor!.startLine,
+              body: this.formatInlineComment(
+                feedback,
+                index,
+                reviewToken,
+                suggestedChange
+              ),
+            })
+          ),
+        }
+      );
+
+      // 本文の識別子から投稿されたコメントとフィードバックを対応付ける
+      anchored.forEach(({ feedback, index, anchor }) => {
+        const marker = this.getInlineCommentMarker(index);
+        const comment = review.comments.find(
+          (c: any) => typeof c.body === "string" && c.body.includes(marker)
+        );
+        if (comment) {
+          inlineComments.set(feedback, {
+            id: comment.id,
+            path: anchor!.path,
+            line: anchor!.line,
+            startLine: anchor!.startLine,
+            htmlUrl: comment.html_url,
+          });
+        }
+      });
+    } catch (error) {
+      console.warn(
+        `インラインコメントの投稿に失敗したため、サマリーコメントのみ送信します (${owner}/${repo}#${pullRequestId}):`,
+        error instanceof Error ? error.message : error
+      );
+    }
+
+    return inlineComments;
+  }
+
+  /**
+   * 差分の行に付与するレビューコメント本文を作成
+   */
+  private formatInlineComment(
+    feedback: any,
+    index: number,
+    reviewToken: string,
+    suggestedChange?: string
+  ): string {
+    const categoryDisplayName = this.getCategoryDisplayName(
+      feedback.category as FeedbackCategory
+    );
+    const isStrength = feedback.feedback_type === "strength";
+
+    let body = `**${
+      isStrength ? "✅ 良い点" : "🔧 改善提案"
+    }（${categoryDisplayName}）**\n\n`;
+    body += `${feedback.point}\n\n`;
+
+    if (!isStrength && feedback.suggestion) {
+      body += `**改善案**: ${feedback.suggestion}\n\n`;
+    }
+
+    // 検証済みの範囲は「Commit suggestion」で反映できる提案ブロックにする
+    if (suggestedChange !== undefined) {
+      body += `**修正の提案**（「Commit suggestion」でそのまま反映できます）\n\n`;
+      body += this.wrapCodeBlock(suggestedChange, "suggestion");
+    } else if (!isStrength && feedback.suggested_code) {
+      body += `**修正例**\n\n`;
+      body += this.wrapCodeBlock(feedback.suggested_code);
+    }
+
+    if (feedback.reference_url) {
+      body += `📚 **参考資料**: [${feedback.reference_url}](${feedback.reference_url})\n\n`;
+    }
+
+    body += `> レビューID: \`${reviewToken}\`\n`;
+    body += this.getInlineCommentMarker(index);
+
+    return body;
+  }
+
+  /**
+   * コードをマークダウンのコードブロックで囲む
+   * コード内にバッククォート3つが含まれる場合はフェンスを長くする
+   */
+  private wrapCodeBlock(code: string, language: string = ""): string {
+    const fence = code.includes("```") ? "````" : "```";
+    return `${fence}${language}\n${code}\n${fence}\n\n`;
+  }
+
+  /**
+   * インラインコメントを識別するための埋め込みマーカー（GitHubのUIでは見えない）
+   */
+  private getInlineCommentMarker(index: number): string {
+    return `<!-- AI_REVIEW_INLINE:${index} -->`;
+  }
+
+  /**
+   * サマリーコメントに載せるインラインコメントへのリンク
+   */
+  private formatInlineCommentLink(comment: InlineFeedbackComment): string {
+    const lineLabel = comment.startLine
+      ? `L${comment.startLine}-L${comment.line}`
+      : `L${comment.line}`;
+    const location = `\`${comment.path}\` ${lineLabel}`;
+
+    return comment.htmlUrl
+      ? `💬 [${location}](${comment.htmlUrl}) にコメントしました\n\n`
+      : `💬 ${location} にコメントしました\n\n`;
+  }
+
   /**
    * フィードバックカテゴリの表示名を取得
    */
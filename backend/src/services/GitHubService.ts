@@ -1,10 +1,10 @@
 // backend/src/services/GitHubService.ts
 import axios, { AxiosInstance, AxiosRequestConfig } from "axios";
-import crypto from "crypto";
 import { createWriteStream, promises as fs } from "fs";
 import path from "path";
 import { promisify } from "util";
 import { exec } from "child_process";
+import { WebhookVerificationService } from "./WebhookVerificationService";
 
 const execPromise = promisify(exec);
 
@@ -12,6 +12,7 @@ export class GitHubService {
   private axiosInstance: AxiosInstance | null = null;
   private baseUrl: string = "https://api.github.com";
   private accessToken: string | null = null;
+  private webhookVerificationService = new WebhookVerificationService();
 
   /**
    * アクセストークンを使用してGitHub APIクライアントを初期化
@@ -113,10 +114,10 @@ export class GitHubService {
   }
 
   /**
-   * Webhookリクエストの署名を検証
+   * Webhookリクエストの署名（X-Hub-Signature-256）を生のリクエストボディで検証
    */
   verifyWebhookSignature(
-    payload: string,
+    payload: Buffer | undefined,
     signature: string,
     secret: string
   ): boolean {
@@ -126,11 +127,10 @@ export class GitHubService {
     }
 
     try {
-      const hmac = crypto.createHmac("sha1", secret);
-      const digest = "sha1=" + hmac.update(payload).digest("hex");
-      return crypto.timingSafeEqual(
-        Buffer.from(digest),
-        Buffer.from(signature)
+      return this.webhookVerificationService.verifyHmacSignature(
+        payload,
+        signature,
+        secret
       );
     } catch (error) {
       console.error("署名検証エラー:", error);
@@ -476,44 +476,273 @@ export class GitHubService {
   }
 
   /**
-   * PRの差分を取得
+   * PRにレビューを作成（行に紐づくレビューコメントをまとめて投稿）
+   * 作成されたレビューコメントの一覧を返す
    */
-  async getPullRequestDiff(
+  async createPullRequestReview(
     owner: string,
     repo: string,
-    pullNumber: number
-  ): Promise<any> {
+    pullNumber: number,
+    review: {
+      commitId?: string;
+      body?: string;
+      comments: Array<{
+        path: string;
+        line: number;
+        startLine?: number;
+        body: string;
+      }>;
+    }
+  ): Promise<{ id: number; comments: any[] }> {
     if (!this.axiosInstance) {
       throw new Error("GitHub APIが初期化されていません");
     }
 
     try {
-      console.log(`PR #${pullNumber} (${owner}/${repo}) の差分を取得します`);
+      console.log(
+        `PR #${pullNumber} (${owner}/${repo}) に${review.comments.length}件の行コメントを含むレビューを作成します`
+      );
+      const response = await this.axiosInstance.post(
+        `/repos/${owner}/${repo}/pulls/${pullNumber}/reviews`,
+        {
+          commit_id: review.commitId,
+          body: review.body,
+          event: "COMMENT",
+          comments: review.comments.map((comment) => ({
+            path: comment.path,
+            line: comment.line,
+            side: "RIGHT",
+            ...(comment.startLine && comment.startLine < comment.line
+              ? { start_line: comment.startLine, start_side: "RIGHT" }
+              : {}),
+            body: comment.body,
+          })),
+        }
+      );
 
-      // 変更されたファイル一覧を取得
-      const filesResponse = await this.axiosInstance.get(
-        `/repos/${owner}/${repo}/pulls/${pullNumber}/files`,
+      // 作成されたレビューに属するコメントのIDを取得
+      const commentsResponse = await this.axiosInstance.get(
+        `/repos/${owner}/${repo}/pulls/${pullNumber}/reviews/${response.data.id}/comments`,
+        { params: { per_page: 100 } }
+      );
+
+      return { id: response.data.id, comments: commentsResponse.data };
+    } catch (error: any) {
+      console.error(
+        `PRレビュー作成エラー (${owner}/${repo}#${pullNumber}):`,
+        error
+      );
+      throw new Error(
+        `PRにレビューを作成できませんでした: ${error.message || "不明なエラー"}`
+      );
+    }
+  }
+
+  /**
+   * コミットにチェックランを作成
+   * Checks API は GitHub App のトークンでのみ利用できるため、個人アクセストークンでは 403 になる
+   */
+  async createCheckRun(
+    owner: string,
+    repo: string,
+    checkRun: {
+      name: string;
+      headSha: string;
+      status?: "queued" | "in_progress" | "completed";
+      title?: string;
+      summary?: string;
+    }
+  ): Promise<any> {
+    if (!this.axiosInstance) {
+      throw new Error("GitHub APIが初期化されていません");
+    }
+
+    console.log(
+      `コミット ${checkRun.headSha.substring(
+        0,
+        7
+      )} (${owner}/${repo}) にチェックランを作成します`
+    );
+    const response = await this.axiosInstance.post(
+      `/repos/${owner}/${repo}/check-runs`,
+      {
+        name: checkRun.name,
+        head_sha: checkRun.headSha,
+        status: checkRun.status || "in_progress",
+        started_at: new Date().toISOString(),
+        ...(checkRun.title
+          ? {
+              output: {
+                title: checkRun.title,
+                summary: checkRun.summary || "",
+              },
+            }
+          : {}),
+      }
+    );
+
+    return response.data;
+  }
+
+  /**
+   * チェックランを完了状態に更新
+   * アノテーションは1リクエストあたり50件までのため分割して送信する
+   */
+  async completeCheckRun(
+    owner: string,
+    repo: string,
+    checkRunId: number,
+    result: {
+      conclusion: "success" | "failure" | "neutral" | "action_required";
+      title: string;
+      summary: string;
+      annotations?: Array<{
+        path: string;
+        start_line: number;
+        end_line: number;
+        annotation_level: "notice" | "warning" | "failure";
+        title?: string;
+        message: string;
+      }>;
+    }
+  ): Promise<any> {
+    if (!this.axiosInstance) {
+      throw new Error("GitHub APIが初期化されていません");
+    }
+
+    const MAX_ANNOTATIONS_PER_REQUEST = 50;
+    const annotations = result.annotations || [];
+    let response;
+
+    // 最後のリクエストで完了状態にする
+    for (
+      let offset = 0;
+      offset === 0 || offset < annotations.length;
+      offset += MAX_ANNOTATIONS_PER_REQUEST
+    ) {
+      const isLast = offset + MAX_ANNOTATIONS_PER_REQUEST >= annotations.length;
+      response = await this.axiosInstance.patch(
+        `/repos/${owner}/${repo}/check-runs/${checkRunId}`,
         {
-          // 最大100件のファイルを取得（必要に応じてページネーション対応）
-          params: { per_page: 100 },
+          ...(isLast
+            ? {
+                status: "completed",
+                conclusion: result.conclusion,
+                completed_at: new Date().toISOString(),
+              }
+            : {}),
+          output: {
+            title: result.title,
+            summary: result.summary,
+            annotations: annotations.slice(
+              offset,
+              offset + MAX_ANNOTATIONS_PER_REQUEST
+            ),
+          },
         }
       );
+    }
+
+    return response?.data;
+  }
+
+  /**
+   * コミットステータスを作成（Checks API を利用できないトークン向けの代替）
+   */
+  async createCommitStatus(
+    owner: string,
+    repo: string,
+    sha: string,
+    status: {
+      state: "pending" | "success" | "failure" | "error";
+      context: string;
+      description: string;
+      targetUrl?: string;
+    }
+  ): Promise<any> {
+    if (!this.axiosInstance) {
+      throw new Error("GitHub APIが初期化されていません");
+    }
+
+    const response = await this.axiosInstance.post(
+      `/repos/${owner}/${repo}/statuses/${sha}`,
+      {
+        state: status.state,
+        context: status.context,
+        // description は140文字まで
+        description: status.description.substring(0, 140),
+        target_url: status.targetUrl,
+      }
+    );
+
+    return response.data;
+  }
+
+  /**
+   * PRの差分を取得
+   * includeContent が false の場合は各ファイルの全文取得を省略する（パッチのみ必要な場合）
+   */
+  async getPullRequestDiff(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    options: { includeContent?: boolean; sinceSha?: string } = {}
+  ): Promise<any> {
+    if (!this.axiosInstance) {
+      throw new Error("GitHub APIが初期化されていません");
+    }
+
+    try {
+      console.log(
+        `PR #${pullNumber} (${owner}/${repo}) の差分を取得します${
+          options.sinceSha ? ` (${options.sinceSha.substring(0, 7)} 以降)` : ""
+        }`
+      );
 
-      // PR詳細情報も取得
+      // PR詳細情報を取得
       const prDetails = await this.getPullRequestDetails(
         owner,
         repo,
         pullNumber
       );
 
+      // 変更されたファイル一覧を取得
+      // sinceSha が指定された場合は、そのコミットからヘッドまでの差分のみを対象にする
+      let files: any[];
+      let comparison = null;
+      if (options.sinceSha) {
+        const compareData = await this.compareCommits(
+          owner,
+          repo,
+          options.sinceSha,
+          prDetails.head.sha
+        );
+        files = compareData.files || [];
+        comparison = {
+          baseSha: options.sinceSha,
+          headSha: prDetails.head.sha,
+          status: compareData.status,
+          totalCommits: compareData.total_commits,
+        };
+      } else {
+        const filesResponse = await this.axiosInstance.get(
+          `/repos/${owner}/${repo}/pulls/${pullNumber}/files`,
+          {
+            // 最大100件のファイルを取得（必要に応じてページネーション対応）
+            params: { per_page: 100 },
+          }
+        );
+        files = filesResponse.data;
+      }
+
       // 変更ファイルを解析
       const changedFiles = [];
 
-      for (const file of filesResponse.data) {
+      for (const file of files) {
         let fileContent = null;
 
         // 追加または変更されたファイルの場合、内容を取得
-        if (file.status !== "removed") {
+        if (file.status !== "removed" && options.includeContent !== false) {
           try {
             // ファイル内容を取得（ヘッドブランチの最新バージョン）
             const contentResponse = await this.axiosInstance.get(
@@ -560,11 +789,13 @@ export class GitHubService {
           description: prDetails.body || "",
           base: prDetails.base.ref,
           head: prDetails.head.ref,
+          headSha: prDetails.head.sha,
           author: prDetails.user.login,
           createdAt: prDetails.created_at,
           updatedAt: prDetails.updated_at,
         },
         changedFiles,
+        comparison, // 差分レビューの場合の比較範囲（通常は null）
         isFullCodeExtracted: true, // 全文抽出を行ったことを示すフラグ
       };
     } catch (error: any) {
@@ -646,6 +877,14 @@ export class GitHubService {
     }
   }
 
+  /**
+   * クローンしたリポジトリのHEADのコミットSHAを取得
+   */
+  async getHeadCommitSha(repoDir: string): Promise<string> {
+    const { stdout } = await execPromise(`cd ${repoDir} && git rev-parse HEAD`);
+    return stdout.trim();
+  }
+
   /**
    * コミット情報の取得
    */
@@ -668,6 +907,41 @@ export class GitHubService {
     }
   }
 
+  /**
+   * 2つのコミット間の比較（差分ファイルとコミット数）を取得
+   */
+  async compareCommits(
+    owner: string,
+    repo: string,
+    baseSha: string,
+    headSha: string
+  ): Promise<any> {
+    if (!this.axiosInstance) {
+      throw new Error("GitHub APIが初期化されていません");
+    }
+
+    try {
+      console.log(
+        `コミットを比較: ${owner}/${repo} ${baseSha.substring(
+          0,
+          7
+        )}...${headSha.substring(0, 7)}`
+      );
+      const response = await this.axiosInstance.get(
+        `/repos/${owner}/${repo}/compare/${baseSha}...${headSha}`
+      );
+      return response.data;
+    } catch (error: any) {
+      console.error(
+        `コミット比較エラー (${owner}/${repo} ${baseSha}...${headSha}):`,
+        error.message
+      );
+      throw new Error(
+        `コミットの比較に失敗しました: ${error.message || "不明なエラー"}`
+      );
+    }
+  }
+
   /**
    * リポジトリのブランチ一覧を取得
    */
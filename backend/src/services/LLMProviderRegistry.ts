@@ -0,0 +1,392 @@
+// backend/src/services/LLMProviderRegistry.ts
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { BaseLanguageModelInput } from "@langchain/core/language_models/base";
+import { AIMessageChunk } from "@langchain/core/messages";
+import { Runnable } from "@langchain/core/runnables";
+import { FakeListChatModel } from "@langchain/core/utils/testing";
+import { ChatOpenAI } from "@langchain/openai";
+import { ChatAnthropic } from "@langchain/anthropic";
+import {
+  AIFeature,
+  DEFAULT_AI_FEATURE_CONFIGS,
+  DEFAULT_FAKE_RESPONSES,
+  LLM_PROVIDER_NAMES,
+  LLMFeatureConfig,
+  LLMProviderName,
+  LLMRoutingRule,
+} from "../constants/AIFeatures";
+
+export interface ChatModelOptions {
+  streaming?: boolean;
+}
+
+/**
+ * 各サービスが利用するチャットモデル（フォールバック付きの場合を含む）
+ */
+export type ChatModelRunnable = Runnable<
+  BaseLanguageModelInput,
+  AIMessageChunk
+>;
+
+export type LLMProviderFactory = (
+  feature: AIFeature,
+  config: LLMFeatureConfig,
+  options: ChatModelOptions
+) => BaseChatModel;
+
+/**
+ * LLMプロバイダーのレジストリ
+ *
+ * 各AIサービスはモデルを直接生成せず、機能キーを指定してここからモデルを取得する。
+ * 機能ごとのプロバイダー・モデル名・温度・タイムアウトは環境変数で切り替えられる。
+ *
+ *   LLM_PROVIDER=fake                      全機能のプロバイダーを一括で切り替え（CI用）
+ *   LLM_CODE_REVIEW_PROVIDER=openai        機能ごとのプロバイダー
+ *   LLM_CODE_REVIEW_MODEL=gpt-4o           機能ごとのモデル名
+ *   LLM_CODE_REVIEW_TEMPERATURE=0.1        機能ごとの温度
+ *   LLM_CODE_REVIEW_TIMEOUT_MS=120000      機能ごとのタイムアウト
+ *   LLM_CODE_REVIEW_MAX_TOKENS=4000        機能ごとの最大トークン数
+ *
+ * 管理画面で設定されたルーティングルール（ai_model_routes）がある機能は、
+ * 環境変数よりもそちらが優先される。ルールが更新されるとモデルのキャッシュを
+ * 破棄するため、次の呼び出しから新しい設定が使われる。
+ */
+export class LLMProviderRegistry {
+  private static instance: LLMProviderRegistry;
+  private factories: Map<LLMProviderName, LLMProviderFactory> = new Map();
+  private routingRules: Map<AIFeature, LLMRoutingRule> = new Map();
+  private modelCache: Map<string, ChatModelRunnable> = new Map();
+
+  private constructor() {
+    this.register("openai", (feature, config, options) =>
+      this.createOpenAIModel(config, options)
+    );
+    this.register("anthropic", (feature, config, options) =>
+      this.createAnthropicModel(config, options)
+    );
+    this.register("openai_compatible", (feature, config, options) =>
+      this.createOpenAICompatibleModel(config, options)
+    );
+    this.register("fake", (feature) => this.createFakeModel(feature));
+  }
+
+  /**
+   * シングルトンインスタンスを取得
+   */
+  public static getInstance(): LLMProviderRegistry {
+    if (!LLMProviderRegistry.instance) {
+      LLMProviderRegistry.instance = new LLMProviderRegistry();
+    }
+    return LLMProviderRegistry.instance;
+  }
+
+  /**
+   * プロバイダーを登録（既存の登録は上書き）
+   */
+  public register(provider: LLMProviderName, factory: LLMProviderFactory) {
+    this.factories.set(provider, factory);
+  }
+
+  /**
+   * 管理画面のルーティングルールを反映（キャッシュ済みのモデルは破棄）
+   * 定期的な再読み込みで内容が変わっていない場合は何もせず false を返す
+   */
+  public setRoutingRules(
+    rules: LLMRoutingRule[] | Map<AIFeature, LLMRoutingRule>
+  ): boolean {
+    const routingRules =
+      rules instanceof Map
+        ? new Map(rules)
+        : new Map(rules.map((rule) => [rule.feature, rule]));
+    if (
+      this.serializeRoutingRules(routingRules) ===
+      this.serializeRoutingRules(this.routingRules)
+    ) {
+      return false;
+    }
+
+    this.routingRules = routingRules;
+    this.modelCache.clear();
+    console.log(
+      `AIモデルのルーティングルールを更新しました: ${this.routingRules.size}件`
+    );
+    return true;
+  }
+
+  /**
+   * 機能に設定されているルーティングルールを取得
+   */
+  public getRoutingRule(feature: AIFeature): LLMRoutingRule | undefined {
+    return this.routingRules.get(feature);
+  }
+
+  /**
+   * 機能の設定を解決（ルーティングルール > 環境変数 > デフォルト設定）
+   */
+  public getFeatureConfig(feature: AIFeature): LLMFeatureConfig {
+    const rule = this.routingRules.get(feature);
+    if (rule) {
+      return {
+        provider: rule.provider,
+        model: rule.model,
+        temperature: rule.temperature,
+        timeoutMs: rule.timeoutMs,
+        maxTokens: rule.maxTokens,
+      };
+    }
+
+    return this.getEnvironmentConfig(feature);
+  }
+
+  /**
+   * ルーティングルールを除いた設定（デフォルト設定 + 環境変数）
+   */
+  public getEnvironmentConfig(feature: AIFeature): LLMFeatureConfig {
+    const defaults = DEFAULT_AI_FEATURE_CONFIGS[feature];
+    const prefix = `LLM_${feature.toUpperCase()}_`;
+
+    const provider =
+      this.parseProvider(process.env[`${prefix}PROVIDER`]) ||
+      this.parseProvider(process.env.LLM_PROVIDER) ||
+      defaults.provider;
+
+    // プロバイダーを切り替えた場合、デフォルトのモデル名はそのプロバイダーのものを使う
+    const model =
+      process.env[`${prefix}MODEL`] ||
+      (provider === defaults.provider
+        ? this.getLegacyModelOverride(feature, provider) || defaults.model
+        : this.getDefaultModelForProvider(provider));
+
+    return {
+      provider,
+      model,
+      temperature: this.parseNumber(
+        process.env[`${prefix}TEMPERATURE`],
+        defaults.temperature
+      ),
+      timeoutMs: this.parseNumber(
+        process.env[`${prefix}TIMEOUT_MS`],
+        defaults.timeoutMs
+      ),
+      maxTokens: this.parseNumber(
+        process.env[`${prefix}MAX_TOKENS`],
+        defaults.maxTokens
+      ),
+    };
+  }
+
+  /**
+   * 機能に対応するチャットモデルを取得（フォールバック付き・キャッシュあり）
+   * ルールの変更を反映するため、サービスは呼び出しのたびにこのメソッドを使う
+   */
+  public getChatModel(
+    feature: AIFeature,
+    options: ChatModelOptions = {}
+  ): ChatModelRunnable {
+    const cacheKey = `${feature}:${options.streaming ? "stream" : "invoke"}`;
+    const cached = this.modelCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const primary = this.createChatModel(feature, options);
+    const fallbacks = (this.routingRules.get(feature)?.fallbacks || []).map(
+      (config) => this.createChatModelFromConfig(feature, config, options)
+    );
+
+    const model: ChatModelRunnable =
+      fallbacks.length > 0 ? primary.withFallbacks({ fallbacks }) : primary;
+
+    this.modelCache.set(cacheKey, model);
+    return model;
+  }
+
+  /**
+   * 機能に対応するチャットモデルを生成（フォールバックなし）
+   */
+  public createChatModel(
+    feature: AIFeature,
+    options: ChatModelOptions = {}
+  ): BaseChatModel {
+    const config = this.getFeatureConfig(feature);
+    return this.createChatModelFromConfig(feature, config, options);
+  }
+
+  /**
+   * 設定を指定してチャットモデルを生成
+   */
+  public createChatModelFromConfig(
+    feature: AIFeature,
+    config: LLMFeatureConfig,
+    options: ChatModelOptions = {}
+  ): BaseChatModel {
+    const factory = this.factories.get(config.provider);
+    if (!factory) {
+      throw new Error(`未登録のLLMプロバイダーです: ${config.provider}`);
+    }
+
+    console.log(
+      `LLMモデルを初期化します: feature=${feature}, provider=${config.provider}, model=${config.model}`
+    );
+    return factory(feature, config, options);
+  }
+
+  /**
+   * OpenAIモデルを生成
+   * ※ 各モデルクラスとBaseChatModelの型比較はtscの再帰上限を超えるため明示的に変換する
+   */
+  private createOpenAIModel(
+    config: LLMFeatureConfig,
+    options: ChatModelOptions
+  ): BaseChatModel {
+    if (!process.env.OPENAI_API_KEY) {
+      console.warn("OpenAI APIキーが環境変数に設定されていません");
+    }
+
+    return new ChatOpenAI({
+      modelName: config.model,
+      temperature: config.temperature,
+      maxTokens: config.maxTokens,
+      openAIApiKey: process.env.OPENAI_API_KEY,
+      streaming: options.streaming,
+      timeout: config.timeoutMs,
+    }) as unknown as BaseChatModel;
+  }
+
+  /**
+   * Anthropicモデルを生成
+   */
+  private createAnthropicModel(
+    config: LLMFeatureConfig,
+    options: ChatModelOptions
+  ): BaseChatModel {
+    if (!process.env.ANTHROPIC_API_KEY) {
+      console.warn("Anthropic APIキーが環境変数に設定されていません");
+    }
+
+    return new ChatAnthropic({
+      modelName: config.model,
+      temperature: config.temperature,
+      maxTokens: config.maxTokens,
+      anthropicApiKey: process.env.ANTHROPIC_API_KEY,
+      streaming: options.streaming,
+      clientOptions: { timeout: config.timeoutMs },
+    }) as unknown as BaseChatModel;
+  }
+
+  /**
+   * OpenAI互換のローカルエンドポイント用モデルを生成
+   */
+  private createOpenAICompatibleModel(
+    config: LLMFeatureConfig,
+    options: ChatModelOptions
+  ): BaseChatModel {
+    const baseURL = process.env.LLM_LOCAL_BASE_URL;
+    if (!baseURL) {
+      console.warn("LLM_LOCAL_BASE_URL が環境変数に設定されていません");
+    }
+
+    return new ChatOpenAI({
+      modelName: config.model,
+      temperature: config.temperature,
+      maxTokens: config.maxTokens,
+      // ローカルエンドポイントはキー不要なことが多いが、SDKは空文字を許容しない
+      openAIApiKey: process.env.LLM_LOCAL_API_KEY || "not-needed",
+      streaming: options.streaming,
+      timeout: config.timeoutMs,
+      configuration: { baseURL },
+    }) as unknown as BaseChatModel;
+  }
+
+  /**
+   * テスト用の決定的なモデルを生成
+   * LLM_FAKE_RESPONSES（JSON配列）が設定されていればその応答を順番に返す
+   */
+  private createFakeModel(feature: AIFeature): BaseChatModel {
+    let responses = DEFAULT_FAKE_RESPONSES[feature];
+
+    if (process.env.LLM_FAKE_RESPONSES) {
+      try {
+        const parsed = JSON.parse(process.env.LLM_FAKE_RESPONSES);
+        if (Array.isArray(parsed) && parsed.length > 0) {
+          responses = parsed.map((response) =>
+            typeof response === "string" ? response : JSON.stringify(response)
+          );
+        }
+      } catch (error) {
+        console.warn("LLM_FAKE_RESPONSES のJSON解析に失敗しました:", error);
+      }
+    }
+
+    return new FakeListChatModel({ responses });
+  }
+
+  /**
+   * 既存の環境変数（OPENAI_MODEL）との互換性を維持
+   */
+  private getLegacyModelOverride(
+    feature: AIFeature,
+    provider: LLMProviderName
+  ): string | undefined {
+    if (
+      provider === "openai" &&
+      (feature === AIFeature.AI_CHAT ||
+        feature === AIFeature.CRITERIA_GENERATION)
+    ) {
+      return process.env.OPENAI_MODEL;
+    }
+    return undefined;
+  }
+
+  /**
+   * ルーティングルールの比較用の文字列（機能順に並べる）
+   */
+  private serializeRoutingRules(rules: Map<AIFeature, LLMRoutingRule>): string {
+    return JSON.stringify(
+      Array.from(rules.entries()).sort(([a], [b]) => a.localeCompare(b))
+    );
+  }
+
+  /**
+   * プロバイダーごとのデフォルトモデル名
+   */
+  private getDefaultModelForProvider(provider: LLMProviderName): string {
+    switch (provider) {
+      case "openai":
+        return process.env.OPENAI_MODEL || "gpt-4o";
+      case "anthropic":
+        return process.env.ANTHROPIC_MODEL || "claude-3-7-sonnet-20250219";
+      case "openai_compatible":
+        return process.env.LLM_LOCAL_MODEL || "llama3";
+      case "fake":
+        return "fake";
+    }
+  }
+
+  private parseProvider(value?: string): LLMProviderName | undefined {
+    if (!value) {
+      return undefined;
+    }
+    if (!LLM_PROVIDER_NAMES.includes(value as LLMProviderName)) {
+      console.warn(`不明なLLMプロバイダーが指定されました: ${value}`);
+      return undefined;
+    }
+    return value as LLMProviderName;
+  }
+
+  private parseNumber(value: string | undefined, fallback: number): number;
+  private parseNumber(
+    value: string | undefined,
+    fallback: number | undefined
+  ): number | undefined;
+  private parseNumber(
+    value: string | undefined,
+    fallback: number | undefined
+  ): number | undefined {
+    if (value === undefined || value === "") {
+      return fallback;
+    }
+    const parsed = Number(value);
+    return isNaN(parsed) ? fallback : parsed;
+  }
+}
@@ -0,0 +1,125 @@
+// backend/src/services/LLMUsageCallbackHandler.ts
+import { BaseCallbackHandler } from "@langchain/core/callbacks/base";
+import { Serialized } from "@langchain/core/load/serializable";
+import { BaseMessage } from "@langchain/core/messages";
+import { LLMResult } from "@langchain/core/outputs";
+import { LLMUsageStatus } from "../models/LLMUsageLog";
+
+export interface LLMUsageEntry {
+  provider: string | null;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  status: LLMUsageStatus;
+  errorMessage?: string;
+}
+
+/**
+ * チャットモデルの呼び出し開始・終了を捕捉してトークン数とレイテンシを記録するハンドラー
+ * フォールバックが発生した場合は失敗したモデルの呼び出しもエラーとして記録される
+ */
+export class LLMUsageCallbackHandler extends BaseCallbackHandler {
+  name = "llm_usage_callback_handler";
+
+  private runs = new Map<
+    string,
+    { startedAt: number; provider: string | null; model: string }
+  >();
+
+  constructor(private onRecord: (entry: LLMUsageEntry) => Promise<void>) {
+    super();
+  }
+
+  handleChatModelStart(
+    llm: Serialized,
+    _messages: BaseMessage[][],
+    runId: string,
+    _parentRunId?: string,
+    extraParams?: Record<string, unknown>,
+    _tags?: string[],
+    metadata?: Record<string, unknown>
+  ) {
+    const invocationParams = (extraParams?.invocation_params || {}) as Record<
+      string,
+      unknown
+    >;
+    const model =
+      (metadata?.ls_model_name as string) ||
+      (invocationParams.model as string) ||
+      (invocationParams.modelName as string) ||
+      llm.id[llm.id.length - 1];
+
+    this.runs.set(runId, {
+      startedAt: Date.now(),
+      provider: (metadata?.ls_provider as string) || null,
+      model,
+    });
+  }
+
+  async handleLLMEnd(output: LLMResult, runId: string) {
+    const run = this.runs.get(runId);
+    if (!run) return;
+    this.runs.delete(runId);
+
+    const { promptTokens, completionTokens } = extractTokenUsage(output);
+    await this.onRecord({
+      provider: run.provider,
+      model: run.model,
+      promptTokens,
+      completionTokens,
+      latencyMs: Date.now() - run.startedAt,
+      status: LLMUsageStatus.SUCCESS,
+    });
+  }
+
+  async handleLLMError(err: Error, runId: string) {
+    const run = this.runs.get(runId);
+    if (!run) return;
+    this.runs.delete(runId);
+
+    await this.onRecord({
+      provider: run.provider,
+      model: run.model,
+      promptTokens: 0,
+      completionTokens: 0,
+      latencyMs: Date.now() - run.startedAt,
+      status: LLMUsageStatus.ERROR,
+      errorMessage: err?.message,
+    });
+  }
+}
+
+/**
+ * プロバイダーごとに異なるトークン使用量の形式を吸収する
+ * （usage_metadata > OpenAIの tokenUsage > Anthropicの usage の順に参照）
+ */
+export function extractTokenUsage(output: LLMResult): {
+  promptTokens: number;
+  completionTokens: number;
+} {
+  let promptTokens = 0;
+  let completionTokens = 0;
+
+  output.generations.flat().forEach((generation) => {
+    const usage = (generation as { message?: any }).message?.usage_metadata;
+    if (usage) {
+      promptTokens += usage.input_tokens || 0;
+      completionTokens += usage.output_tokens || 0;
+    }
+  });
+
+  if (promptTokens === 0 && completionTokens === 0 && output.llmOutput) {
+    const tokenUsage = output.llmOutput.tokenUsage;
+    const usage = output.llmOutput.usage;
+    if (tokenUsage) {
+      promptTokens = tokenUsage.promptTokens || 0;
+      completionTokens = tokenUsage.completionTokens || 0;
+    } else if (usage) {
+      promptTokens = usage.input_tokens || 0;
+      completionTokens = usage.output_tokens || 0;
+    }
+  }
+
+  return { promptTokens, completionTokens };
+}
@@ -0,0 +1,222 @@
+// backend/src/services/LLMUsageService.ts
+import { BaseCallbackHandler } from "@langchain/core/callbacks/base";
+import { AppDataSource } from "../index";
+import { LLMUsageLog, LLMUsageStatus } from "../models/LLMUsageLog";
+import { AIFeature, AI_FEATURE_LABELS } from "../constants/AIFeatures";
+import { estimateLLMCost } from "../constants/LLMPricing";
+import {
+  LLMUsageCallbackHandler,
+  LLMUsageEntry,
+} from "./LLMUsageCallbackHandler";
+
+/**
+ * LLM呼び出しを記録する際の紐付け情報
+ */
+export interface LLMUsageContext {
+  feature: AIFeature;
+  userId?: number | null;
+  reviewId?: number | null;
+  submissionId?: number | null;
+}
+
+export type LLMCostGroupBy = "user" | "group" | "project" | "month" | "feature";
+
+export interface LLMCostReportFilter {
+  startDate?: Date;
+  endDate?: Date;
+  featureKey?: string;
+}
+
+export interface LLMCostReportRow {
+  key: string;
+  label: string;
+  call_count: number;
+  error_count: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  estimated_cost: number;
+  avg_latency_ms: number;
+}
+
+export class LLMUsageService {
+  // AIサービスはDB初期化前に生成されることがあるため、リポジトリは利用時に取得する
+  private get usageLogRepository() {
+    return AppDataSource.getRepository(LLMUsageLog);
+  }
+
+  /**
+   * LLM呼び出しに渡すコールバックを生成
+   * 例: chain.invoke(input, { callbacks: llmUsageService.createCallbacks({ feature, userId }) })
+   */
+  createCallbacks(context: LLMUsageContext): BaseCallbackHandler[] {
+    return [
+      new LLMUsageCallbackHandler((entry) => this.recordUsage(context, entry)),
+    ];
+  }
+
+  /**
+   * 1回分のLLM呼び出しを記録（記録の失敗でAI機能を止めないよう例外は握りつぶす）
+   */
+  private async recordUsage(
+    context: LLMUsageContext,
+    entry: LLMUsageEntry
+  ): Promise<void> {
+    if (!AppDataSource.isInitialized) {
+      return;
+    }
+
+    try {
+      const log = this.usageLogRepository.create({
+        user_id: context.userId ?? null,
+        review_id: context.reviewId ?? null,
+        submission_id: context.submissionId ?? null,
+        feature_key: context.feature,
+        provider: entry.provider,
+        model: entry.model.substring(0, 255),
+        prompt_tokens: entry.promptTokens,
+        completion_tokens: entry.completionTokens,
+        total_tokens: entry.promptTokens + entry.completionTokens,
+        latency_ms: entry.latencyMs,
+        estimated_cost: estimateLLMCost(
+          entry.model,
+          entry.promptTokens,
+          entry.completionTokens
+        ).toFixed(6),
+        status: entry.status,
+        error_message: entry.errorMessage || null,
+      });
+      await this.usageLogRepository.save(log);
+    } catch (error) {
+      console.error("LLM利用ログの記録中にエラーが発生しました:", error);
+    }
+  }
+
+  /**
+   * コストレポートを取得
+   * グループ別集計では複数グループに所属するユーザーの利用は各グループに計上される
+   */
+  async getCostReport(
+    groupBy: LLMCostGroupBy,
+    filter: LLMCostReportFilter = {}
+  ): Promise<{ summary: LLMCostReportRow; rows: LLMCostReportRow[] }> {
+    const queryBuilder = this.usageLogRepository
+      .createQueryBuilder("log")
+      .select("COUNT(log.id)", "call_count")
+      .addSelect(
+        `SUM(CASE WHEN log.status = '${LLMUsageStatus.ERROR}' THEN 1 ELSE 0 END)`,
+        "error_count"
+      )
+      .addSelect("COALESCE(SUM(log.prompt_tokens), 0)", "prompt_tokens")
+      .addSelect("COALESCE(SUM(log.completion_tokens), 0)", "completion_tokens")
+      .addSelect("COALESCE(SUM(log.total_tokens), 0)", "total_tokens")
+      .addSelect("COALESCE(SUM(log.estimated_cost), 0)", "estimated_cost")
+      .addSelect("COALESCE(AVG(log.latency_ms), 0)", "avg_latency_ms");
+
+    if (filter.startDate) {
+      queryBuilder.andWhere("log.created_at >= :startDate", {
+        startDate: filter.startDate,
+      });
+    }
+    if (filter.endDate) {
+      queryBuilder.andWhere("log.created_at <= :endDate", {
+        endDate: filter.endDate,
+      });
+    }
+    if (filter.featureKey) {
+      queryBuilder.andWhere("log.feature_key = :featureKey", {
+        featureKey: filter.featureKey,
+      });
+    }
+
+    // グループ化前の条件で全体の合計を取得
+    const summaryRaw = await queryBuilder.clone().getRawOne();
+
+    switch (groupBy) {
+      case "user":
+        queryBuilder
+          .leftJoin("users", "user", "user.id = log.user_id")
+          .addSelect("log.user_id", "key")
+          .addSelect("user.name", "label")
+          .groupBy("log.user_id")
+          .addGroupBy("user.name");
+        break;
+      case "group":
+        queryBuilder
+          .innerJoin(
+            "user_group_members",
+            "member",
+            "member.user_id = log.user_id"
+          )
+          .innerJoin(
+            "user_groups",
+            "user_group",
+            "user_group.id = member.group_id"
+          )
+          .addSelect("user_group.id", "key")
+          .addSelect("user_group.name", "label")
+          .groupBy("user_group.id")
+          .addGroupBy("user_group.name");
+        break;
+      case "project":
+        queryBuilder
+          .innerJoin("reviews", "review", "review.id = log.review_id")
+          .innerJoin("projects", "project", "project.id = review.project_id")
+          .addSelect("project.id", "key")
+          .addSelect("project.name", "label")
+          .groupBy("project.id")
+          .addGroupBy("project.name");
+        break;
+      case "month":
+        queryBuilder
+          .addSelect("DATE_FORMAT(log.created_at, '%Y-%m')", "key")
+          .addSelect("DATE_FORMAT(log.created_at, '%Y-%m')", "label")
+          .groupBy("key");
+        break;
+      case "feature":
+        queryBuilder
+          .addSelect("log.feature_key", "key")
+          .addSelect("log.feature_key", "label")
+          .groupBy("log.feature_key");
+        break;
+    }
+
+    const rawRows = await queryBuilder
+      .orderBy(groupBy === "month" ? "key" : "estimated_cost", "DESC")
+      .getRawMany();
+
+    return {
+      summary: this.toReportRow("total", "合計", summaryRaw || {}),
+      rows: rawRows.map((raw) =>
+        this.toReportRow(
+          raw.key === null ? "unknown" : String(raw.key),
+          (groupBy === "feature" && AI_FEATURE_LABELS[raw.key as AIFeature]) ||
+            raw.label ||
+            "不明",
+          raw
+        )
+      ),
+    };
+  }
+
+  /**
+   * 集計結果（MySQLのSUMやdecimalは文字列で返る）を数値に変換
+   */
+  private toReportRow(
+    key: string,
+    label: string,
+    raw: Record<string, any>
+  ): LLMCostReportRow {
+    return {
+      key,
+      label,
+      call_count: parseInt(raw.call_count) || 0,
+      error_count: parseInt(raw.error_count) || 0,
+      prompt_tokens: parseInt(raw.prompt_tokens) || 0,
+      completion_tokens: parseInt(raw.completion_tokens) || 0,
+      total_tokens: parseInt(raw.total_tokens) || 0,
+      estimated_cost: parseFloat(raw.estimated_cost) || 0,
+      avg_latency_ms: Math.round(parseFloat(raw.avg_latency_ms) || 0),
+    };
+  }
+}
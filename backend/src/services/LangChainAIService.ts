@@ -1,30 +1,29 @@
 // backend/src/services/LangChainAIService.ts
-import { ChatAnthropic } from "@langchain/anthropic";
 import { PromptTemplate } from "@langchain/core/prompts";
 import { StringOutputParser } from "@langchain/core/output_parsers";
 import { Document } from "langchain/document";
 import { StructuredOutputParser } from "langchain/output_parsers";
 import { z } from "zod";
+import { ChatModelRunnable, LLMProviderRegistry } from "./LLMProviderRegistry";
+import { AIFeature } from "../constants/AIFeatures";
+import { LLMUsageService } from "./LLMUsageService";
 
 export class LangChainAIService {
-  private model: ChatAnthropic;
   private outputParser: StringOutputParser;
+  private llmUsageService: LLMUsageService;
 
   constructor() {
-    // APIキーを環境変数から取得
-    const apiKey = process.env.ANTHROPIC_API_KEY;
-    if (!apiKey) {
-      throw new Error("ANTHROPIC_API_KEY is not set in environment variables");
-    }
-
-    // Claude 3.7 Sonnetモデルの初期化
-    this.model = new ChatAnthropic({
-      apiKey,
-      modelName: "claude-3-7-sonnet-20250219", // 最新の Claude 3.7 Sonnet モデル
-      temperature: 0.3, // レポート生成では一貫性が重要なので低い温度設定
-    });
-
     this.outputParser = new StringOutputParser();
+    this.llmUsageService = new LLMUsageService();
+  }
+
+  /**
+   * モデルを取得（管理画面のルーティング設定を即時反映するため都度解決する）
+   */
+  private get model(): ChatModelRunnable {
+    return LLMProviderRegistry.getInstance().getChatModel(
+      AIFeature.ANALYTICS_INSIGHTS
+    );
   }
 
   /**
@@ -74,7 +73,11 @@ ${outputParser.getFormatInstructions()}
       });
 
       // モデルにクエリを送信
-      const response = await this.model.invoke(input);
+      const response = await this.model.invoke(input, {
+        callbacks: this.llmUsageService.createCallbacks({
+          feature: AIFeature.ANALYTICS_INSIGHTS,
+        }),
+      });
       // レスポンスをパース
       return outputParser.parse(response.content.toString());
     } catch (error) {
@@ -1,12 +1,14 @@
 // backend/src/services/LearningAIService.ts
-import { ChatOpenAI } from "@langchain/openai";
-import { ChatAnthropic } from "@langchain/anthropic";
 import { StringOutputParser } from "@langchain/core/output_parsers";
 import { PromptTemplate } from "@langchain/core/prompts";
 import { StructuredOutputParser } from "langchain/output_parsers";
 import { z } from "zod";
 import { GoogleCustomSearch } from "@langchain/community/tools/google_custom_search";
 import { Tool } from "langchain/tools";
+import { ChatModelRunnable, LLMProviderRegistry } from "./LLMProviderRegistry";
+import { AIFeature } from "../constants/AIFeatures";
+import { BaseCallbackHandler } from "@langchain/core/callbacks/base";
+import { LLMUsageService } from "./LLMUsageService";
 
 // 検索クエリと説明用のスキーマ
 const searchQuerySchema = z.object({
@@ -55,25 +57,16 @@ const learningResponseSchema = z.object({
 });
 
 export class LearningAIService {
-  //   private model: ChatAnthropic;
-  private model: ChatOpenAI;
   private outputParser: StringOutputParser;
   private structuredParser: StructuredOutputParser<
     typeof learningResponseSchema
   >;
   private searchTool: Tool | null = null;
+  private llmUsageService: LLMUsageService;
 
   constructor() {
-    // 使用するLLMモデルを初期化
-    // this.model = new ChatAnthropic({
-    this.model = new ChatOpenAI({
-      modelName: "gpt-4o",
-      temperature: 0.2,
-      maxTokens: 5000,
-      openAIApiKey: process.env.OPENAI_API_KEY,
-    });
-
     this.outputParser = new StringOutputParser();
+    this.llmUsageService = new LLMUsageService();
 
     // 構造化出力パーサーを初期化
     this.structuredParser = StructuredOutputParser.fromZodSchema(
@@ -84,6 +77,15 @@ export class LearningAIService {
     this.initializeSearchTools();
   }
 
+  /**
+   * モデルを取得（管理画面のルーティング設定を即時反映するため都度解決する）
+   */
+  private get model(): ChatModelRunnable {
+    return LLMProviderRegistry.getInstance().getChatModel(
+      AIFeature.LEARNING_CHAT
+    );
+  }
+
   /**
    * 検索ツールの初期化
    */
@@ -106,7 +108,8 @@ export class LearningAIService {
    */
   async getEducationalResponse(
     userMessage: string,
-    chatMode: string = "general"
+    chatMode: string = "general",
+    userId?: number
   ): Promise<string> {
     try {
       console.log(
@@ -116,8 +119,18 @@ export class LearningAIService {
         )}..."`
       );
 
+      // 1回の質問で行う複数のLLM呼び出しを同じユーザーに紐付けて記録する
+      const callbacks = this.llmUsageService.createCallbacks({
+        feature: AIFeature.LEARNING_CHAT,
+        userId,
+      });
+
       // 質問からキーワードと検索クエリを抽出
-      const searchData = await this.extractSearchQueries(userMessage, chatMode);
+      const searchData = await this.extractSearchQueries(
+        userMessage,
+        chatMode,
+        callbacks
+      );
       console.log("Extracted search data:", searchData);
 
       // 検索クエリを使用してリファレンスを検索
@@ -133,7 +146,8 @@ export class LearningAIService {
         userMessage,
         chatMode,
         searchData,
-        references
+        references,
+        callbacks
       );
 
       return response;
@@ -150,7 +164,8 @@ export class LearningAIService {
    */
   private async extractSearchQueries(
     userMessage: string,
-    chatMode: string
+    chatMode: string,
+    callbacks: BaseCallbackHandler[]
   ): Promise<z.infer<typeof searchQuerySchema>> {
     // プロンプトテンプレートを作成
     const promptTemplate = PromptTemplate.fromTemplate(`
@@ -180,11 +195,14 @@ export class LearningAIService {
       // LLMにクエリを送信
       const chain = promptTemplate.pipe(this.model).pipe(this.structuredParser);
 
-      const result = await chain.invoke({
-        userMessage,
-        chatMode,
-        format_instructions: this.structuredParser.getFormatInstructions(),
-      });
+      const result = await chain.invoke(
+        {
+          userMessage,
+          chatMode,
+          format_instructions: this.structuredParser.getFormatInstructions(),
+        },
+        { callbacks }
+      );
 
       return result.search_and_reference as z.infer<typeof searchQuerySchema>;
     } catch (error) {
@@ -406,7 +424,8 @@ export class LearningAIService {
     userMessage: string,
     chatMode: string,
     searchData: z.infer<typeof searchQuerySchema>,
-    references: string[]
+    references: string[],
+    callbacks: BaseCallbackHandler[]
   ): Promise<string> {
     // プロンプトテンプレートを作成
     const promptTemplate = PromptTemplate.fromTemplate(`
@@ -462,12 +481,15 @@ export class LearningAIService {
       // LLMにクエリを送信
       const chain = promptTemplate.pipe(this.model).pipe(this.outputParser);
 
-      const response = await chain.invoke({
-        userMessage,
-        chatMode,
-        searchData: JSON.stringify(searchData, null, 2),
-        references: references.join("\n"),
-      });
+      const response = await chain.invoke(
+        {
+          userMessage,
+          chatMode,
+          searchData: JSON.stringify(searchData, null, 2),
+          references: references.join("\n"),
+        },
+        { callbacks }
+      );
 
       return response;
     } catch (error) {
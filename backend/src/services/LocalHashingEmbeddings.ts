@@ -0,0 +1,109 @@
+// backend/src/services/LocalHashingEmbeddings.ts
+import { Embeddings, EmbeddingsParams } from "@langchain/core/embeddings";
+
+export interface LocalHashingEmbeddingsParams extends EmbeddingsParams {
+  dimensions?: number;
+}
+
+// 特徴量ごとの重み（単語そのものを最も重視する）
+const TOKEN_WEIGHT = 1.0;
+const BIGRAM_WEIGHT = 0.5;
+const TRIGRAM_WEIGHT = 0.3;
+
+/**
+ * 外部APIやモデルファイルを使わずにCPUだけで計算する埋め込み
+ *
+ * 単語・隣接する単語の組・文字3-gramを特徴量とし、ハッシュで固定長のベクトルに
+ * 割り当てる（feature hashing）。意味的な近さは捉えられないが、識別子や語句が
+ * 共通するコードほど近くなるため、閉域環境やテストでの類似検索に使用する。
+ * 同じ入力には常に同じベクトルを返す。
+ */
+export class LocalHashingEmbeddings extends Embeddings {
+  readonly dimensions: number;
+
+  constructor(params: LocalHashingEmbeddingsParams = {}) {
+    super(params);
+    this.dimensions = params.dimensions ?? 512;
+  }
+
+  async embedDocuments(documents: string[]): Promise<number[][]> {
+    return documents.map((document) => this.embed(document));
+  }
+
+  async embedQuery(document: string): Promise<number[]> {
+    return this.embed(document);
+  }
+
+  /**
+   * テキストを正規化済みのベクトルに変換
+   */
+  embed(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const tokens = this.tokenize(text);
+
+    const features = new Map<string, { count: number; weight: number }>();
+    const addFeature = (feature: string, weight: number) => {
+      const entry = features.get(feature);
+      if (entry) {
+        entry.count++;
+      } else {
+        features.set(feature, { count: 1, weight });
+      }
+    };
+
+    tokens.forEach((token, index) => {
+      addFeature(`t:${token}`, TOKEN_WEIGHT);
+      if (index > 0) {
+        addFeature(`b:${tokens[index - 1]} ${token}`, BIGRAM_WEIGHT);
+      }
+      const padded = `^${token}$`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        addFeature(`c:${padded.substring(i, i + 3)}`, TRIGRAM_WEIGHT);
+      }
+    });
+
+    // 出現回数は対数で抑え、符号もハッシュで決めて衝突による偏りを打ち消す
+    features.forEach(({ count, weight }, feature) => {
+      const hash = this.hash(feature);
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimensions] += sign * weight * (1 + Math.log(count));
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value ** 2, 0));
+    return norm > 0 ? vector.map((value) => value / norm) : vector;
+  }
+
+  /**
+   * 識別子を単語に分解して小文字にそろえる
+   * camelCase / snake_case は分割し、日本語などの連続する文字は2文字ずつに区切る
+   */
+  private tokenize(text: string): string[] {
+    const words =
+      text
+        .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+        .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+        .match(/[\p{L}\p{N}]+/gu) || [];
+
+    return words.flatMap((word) => {
+      const lower = word.toLowerCase();
+      if (/^[\x00-\x7f]+$/.test(lower) || lower.length < 2) {
+        return [lower];
+      }
+      return Array.from({ length: lower.length - 1 }, (_, i) =>
+        lower.substring(i, i + 2)
+      );
+    });
+  }
+
+  /**
+   * FNV-1a（32bit）
+   */
+  private hash(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
@@ -0,0 +1,251 @@
+// backend/src/services/MySQLVectorStore.ts
+import { In, Repository } from "typeorm";
+import { Document, DocumentInterface } from "@langchain/core/documents";
+import { EmbeddingsInterface } from "@langchain/core/embeddings";
+import { VectorStore } from "@langchain/core/vectorstores";
+import { VectorDocument } from "../models/VectorDocument";
+import * as crypto from "crypto";
+
+export type MetadataFilter = Record<string, any>;
+
+export interface MySQLVectorStoreArgs {
+  collectionName: string;
+  // ベクトルを作成した埋め込みモデル（別のモデルのベクトルは検索対象外）
+  embeddingModel: string;
+  repository: Repository<VectorDocument>;
+}
+
+// 検索・削除時に一度に読み込む行数
+const SCAN_BATCH_SIZE = 500;
+// 一度に保存・削除する行数
+const WRITE_BATCH_SIZE = 200;
+
+/**
+ * コサイン類似度（どちらかが零ベクトルなら0）
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    return 0;
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * メタデータがフィルタに一致するか
+ * Chromaのwhere句のうち、等価比較・$eq・$ne・$in に対応する
+ */
+export function matchesMetadataFilter(
+  metadata: Record<string, any>,
+  filter?: MetadataFilter
+): boolean {
+  if (!filter) {
+    return true;
+  }
+  return Object.entries(filter).every(([key, condition]) => {
+    const value = metadata[key];
+    if (
+      condition &&
+      typeof condition === "object" &&
+      !Array.isArray(condition)
+    ) {
+      if ("$in" in condition) {
+        return (condition.$in as unknown[]).includes(value);
+      }
+      if ("$ne" in condition) {
+        return value !== condition.$ne;
+      }
+      if ("$eq" in condition) {
+        return value === condition.$eq;
+      }
+      return false;
+    }
+    return value === condition;
+  });
+}
+
+/**
+ * アプリのMySQLにベクトルを保存するベクトルストア
+ *
+ * 類似検索はコレクション内のベクトルとの総当たりで計算するため、大規模なリポジトリには向かないが、
+ * 外部のベクトルDBなしで動作する。スコアはChroma（cosine）と同じく距離（1 - 類似度）で、小さいほど近い。
+ */
+export class MySQLVectorStore extends VectorStore {
+  declare FilterType: MetadataFilter;
+
+  private collectionName: string;
+  private embeddingModel: string;
+  private repository: Repository<VectorDocument>;
+
+  _vectorstoreType(): string {
+    return "mysql";
+  }
+
+  constructor(embeddings: EmbeddingsInterface, args: MySQLVectorStoreArgs) {
+    super(embeddings, args);
+    this.collectionName = args.collectionName;
+    this.embeddingModel = args.embeddingModel;
+    this.repository = args.repository;
+  }
+
+  /**
+   * ドキュメントをベクトル化して保存
+   */
+  async addDocuments(
+    documents: DocumentInterface[],
+    options?: { ids?: string[] }
+  ): Promise<string[]> {
+    const vectors = await this.embeddings.embedDocuments(
+      documents.map((document) => document.pageContent)
+    );
+    return this.addVectors(vectors, documents, options);
+  }
+
+  /**
+   * ベクトルを保存（同じIDのドキュメントは置き換える）
+   */
+  async addVectors(
+    vectors: number[][],
+    documents: DocumentInterface[],
+    options?: { ids?: string[] }
+  ): Promise<string[]> {
+    const ids =
+      options?.ids || documents.map(() => crypto.randomUUID() as string);
+    if (ids.length !== documents.length) {
+      throw new Error("ドキュメントとIDの数が一致しません");
+    }
+
+    await this.deleteByIds(ids);
+
+    const entities = documents.map((document, index) =>
+      this.repository.create({
+        collection_name: this.collectionName,
+        document_id: ids[index],
+        content: document.pageContent,
+        metadata: JSON.stringify(document.metadata || {}),
+        embedding: JSON.stringify(vectors[index]),
+        embedding_model: this.embeddingModel,
+      })
+    );
+    for (let i = 0; i < entities.length; i += WRITE_BATCH_SIZE) {
+      await this.repository.save(entities.slice(i, i + WRITE_BATCH_SIZE));
+    }
+
+    return ids;
+  }
+
+  /**
+   * ドキュメントを削除
+   * IDもフィルタも指定しない場合（ids: [] を含む）はコレクション内のすべてを削除する
+   */
+  async delete(params?: {
+    ids?: string[];
+    filter?: MetadataFilter;
+  }): Promise<void> {
+    if (params?.ids && params.ids.length > 0) {
+      await this.deleteByIds(params.ids);
+      return;
+    }
+
+    if (params?.filter) {
+      const ids: string[] = [];
+      await this.scan(
+        ["document_id", "metadata"],
+        (row) => {
+          if (matchesMetadataFilter(JSON.parse(row.metadata), params.filter)) {
+            ids.push(row.document_id);
+          }
+        },
+        { allModels: true }
+      );
+      await this.deleteByIds(ids);
+      return;
+    }
+
+    await this.repository.delete({ collection_name: this.collectionName });
+  }
+
+  /**
+   * ベクトルに近いドキュメントを検索
+   */
+  async similaritySearchVectorWithScore(
+    query: number[],
+    k: number,
+    filter?: MetadataFilter
+  ): Promise<[Document, number][]> {
+    let results: [Document, number][] = [];
+
+    await this.scan(
+      ["document_id", "content", "metadata", "embedding"],
+      (row) => {
+        const metadata = JSON.parse(row.metadata);
+        if (!matchesMetadataFilter(metadata, filter)) {
+          return;
+        }
+        const distance = 1 - cosineSimilarity(query, JSON.parse(row.embedding));
+        results.push([
+          new Document({
+            pageContent: row.content,
+            metadata,
+            id: row.document_id,
+          }),
+          distance,
+        ]);
+      },
+      {
+        // 読み込みごとに上位k件だけを残してメモリを抑える
+        onBatch: () => {
+          results = results.sort((a, b) => a[1] - b[1]).slice(0, k);
+        },
+      }
+    );
+
+    return results;
+  }
+
+  /**
+   * コレクション内の行を順に読み込む
+   * allModels を指定しない場合は、現在の埋め込みモデルで作成された行だけを対象にする
+   */
+  private async scan(
+    select: (keyof VectorDocument)[],
+    onRow: (row: VectorDocument) => void,
+    options: { allModels?: boolean; onBatch?: () => void } = {}
+  ): Promise<void> {
+    for (let skip = 0; ; skip += SCAN_BATCH_SIZE) {
+      const rows = await this.repository.find({
+        select: ["id", ...select],
+        where: options.allModels
+          ? { collection_name: this.collectionName }
+          : {
+              collection_name: this.collectionName,
+              embedding_model: this.embeddingModel,
+            },
+        order: { id: "ASC" },
+        skip,
+        take: SCAN_BATCH_SIZE,
+      });
+      rows.forEach(onRow);
+      options.onBatch?.();
+      if (rows.length < SCAN_BATCH_SIZE) {
+        return;
+      }
+    }
+  }
+
+  private async deleteByIds(ids: string[]): Promise<void> {
+    for (let i = 0; i < ids.length; i += WRITE_BATCH_SIZE) {
+      await this.repository.delete({
+        collection_name: this.collectionName,
+        document_id: In(ids.slice(i, i + WRITE_BATCH_SIZE)),
+      });
+    }
+  }
+}
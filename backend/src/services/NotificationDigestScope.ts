@@ -0,0 +1,49 @@
+// backend/src/services/NotificationDigestScope.ts
+import { GroupMemberRole } from "../models/UserGroupMember";
+
+export interface DigestMembership {
+  group_id: number;
+  role: GroupMemberRole;
+  group?: { is_active: boolean } | null;
+}
+
+export interface DigestScope {
+  memberIds: number[]; // レビュー・評価を集計するユーザー
+  projectIds: number[]; // レビューを集計するプロジェクト
+}
+
+/**
+ * ダイジェストに含めるレビューの範囲を決める
+ *
+ * グループ全体の動きを受け取れるのは管理者と、グループのマネージャーだけ。
+ * それ以外のメンバーには自分のレビューだけをまとめる。
+ * @param groupMembers 受信者が所属するグループのメンバー
+ * @param projectIds 受信者が参加しているプロジェクト（管理者のみ対象）
+ */
+export function resolveDigestScope(
+  userId: number,
+  isAdmin: boolean,
+  memberships: DigestMembership[],
+  groupMembers: { group_id: number; user_id: number }[],
+  projectIds: number[]
+): DigestScope {
+  const groupWideIds = memberships
+    .filter(
+      (membership) =>
+        membership.group?.is_active &&
+        (isAdmin || membership.role === GroupMemberRole.MANAGER)
+    )
+    .map((membership) => membership.group_id);
+
+  return {
+    memberIds: Array.from(
+      new Set([
+        userId,
+        ...groupMembers
+          .filter((member) => groupWideIds.includes(member.group_id))
+          .map((member) => member.user_id),
+      ])
+    ),
+    projectIds: isAdmin ? projectIds : [],
+  };
+}
@@ -0,0 +1,413 @@
+// backend/src/services/NotificationDigestService.ts
+import { Brackets, In } from "typeorm";
+import { AppDataSource } from "../index";
+import { NotificationSettings } from "../models/NotificationSettings";
+import { Notification } from "../models/Notification";
+import { UserGroupMember } from "../models/UserGroupMember";
+import { UserProject } from "../models/UserProject";
+import { Review, ReviewStatus } from "../models/Review";
+import { Feedback, FeedbackPriority } from "../models/Feedback";
+import { Evaluation } from "../models/Evaluation";
+import { User, UserRole } from "../models/User";
+import {
+  NotificationDigest,
+  NotificationTemplateService,
+} from "./NotificationTemplateService";
+import {
+  DEFAULT_TIMEZONE,
+  DigestPeriod,
+  NotificationScheduleService,
+} from "./NotificationScheduleService";
+import { SmtpMailer } from "./SmtpMailer";
+import { resolveDigestScope } from "./NotificationDigestScope";
+
+// ダイジェストと保留中のメールを確認する間隔
+const CHECK_INTERVAL_MS = 5 * 60 * 1000;
+// 複数のプロセスで同時に送信しないためのMySQLのロック名
+const SCHEDULER_LOCK_NAME = "code_reviewer_notification_digest";
+
+/**
+ * 通知のダイジェストと、通知しない時間帯に保留したメールを定期的に送信するサービス
+ * ダイジェストには受信者が見てよい範囲（resolveDigestScope）のレビューの動きをまとめる
+ * 複数のプロセスで起動しても、MySQLのロックを取得できたプロセスだけが送信する
+ */
+export class NotificationDigestService {
+  private static instance: NotificationDigestService;
+  private settingsRepository =
+    AppDataSource.getRepository(NotificationSettings);
+  private notificationRepository = AppDataSource.getRepository(Notification);
+  private groupMemberRepository = AppDataSource.getRepository(UserGroupMember);
+  private userProjectRepository = AppDataSource.getRepository(UserProject);
+  private reviewRepository = AppDataSource.getRepository(Review);
+  private feedbackRepository = AppDataSource.getRepository(Feedback);
+  private evaluationRepository = AppDataSource.getRepository(Evaluation);
+  private userRepository = AppDataSource.getRepository(User);
+  private templateService = new NotificationTemplateService(
+    process.env.FRONTEND_URL || "http://localhost:3000"
+  );
+  private scheduleService = new NotificationScheduleService();
+  private timer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+
+  /**
+   * シングルトンインスタンスを取得
+   */
+  public static getInstance(): NotificationDigestService {
+    if (!NotificationDigestService.instance) {
+      NotificationDigestService.instance = new NotificationDigestService();
+    }
+    return NotificationDigestService.instance;
+  }
+
+  /**
+   * 定期的な送信を開始
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.runScheduledDeliveries().catch((error) => {
+        console.error("通知の定期送信エラー:", error);
+      });
+    }, CHECK_INTERVAL_MS);
+    console.log("通知のダイジェスト送信を開始しました");
+  }
+
+  /**
+   * 定期的な送信を停止
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * 保留中のメールと、送信時刻を過ぎたダイジェストを送信
+   */
+  async runScheduledDeliveries(now: Date = new Date()): Promise<void> {
+    // 前回の処理が終わっていない場合は重複して送信しないようスキップする
+    if (this.isRunning) {
+      return;
+    }
+
+    this.isRunning = true;
+    try {
+      await this.withSchedulerLock(async () => {
+        await this.sendHeldEmails(now);
+        await this.sendDueDigests(now);
+      });
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * 他のプロセスが送信中でない場合だけ処理を実行
+   * GET_LOCK は接続ごとのロックのため、専用の接続で取得・解放する
+   */
+  private async withSchedulerLock(task: () => Promise<void>): Promise<void> {
+    const queryRunner = AppDataSource.createQueryRunner();
+    await queryRunner.connect();
+    try {
+      const [row] = await queryRunner.query(
+        "SELECT GET_LOCK(?, 0) AS acquired",
+        [SCHEDULER_LOCK_NAME]
+      );
+      if (Number(row?.acquired) !== 1) {
+        return;
+      }
+
+      try {
+        await task();
+      } finally {
+        await queryRunner.query("SELECT RELEASE_LOCK(?)", [
+          SCHEDULER_LOCK_NAME,
+        ]);
+      }
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  /**
+   * 受信者のダイジェストを作成
+   * 通知の種類ごとの設定が無効な項目は集計しない
+   */
+  async buildDigest(
+    settings: NotificationSettings,
+    period: DigestPeriod
+  ): Promise<NotificationDigest> {
+    const userId = settings.user_id;
+    const user =
+      settings.user ||
+      (await this.userRepository.findOne({ where: { id: userId } }));
+
+    // 所属するグループのメンバーと、参加しているプロジェクト
+    const memberships = await this.groupMemberRepository.find({
+      where: { user_id: userId },
+      relations: ["group"],
+    });
+    const groupIds = memberships
+      .filter((membership) => membership.group?.is_active)
+      .map((membership) => membership.group_id);
+    const groupMembers = groupIds.length
+      ? await this.groupMemberRepository.find({
+          where: { group_id: In(groupIds) },
+        })
+      : [];
+    const projectIds = (
+      await this.userProjectRepository.find({ where: { user_id: userId } })
+    ).map((userProject) => userProject.project_id);
+    const scope = resolveDigestScope(
+      userId,
+      user?.role === UserRole.ADMIN,
+      memberships,
+      groupMembers,
+      projectIds
+    );
+    const memberIds = scope.memberIds;
+
+    // レビューの対象（範囲内のユーザーのレビューか、範囲内のプロジェクトのレビュー）
+    const inScope = new Brackets((qb) => {
+      qb.where("review.user_id IN (:...memberIds)", { memberIds });
+      if (scope.projectIds.length > 0) {
+        qb.orWhere("review.project_id IN (:...projectIds)", {
+          projectIds: scope.projectIds,
+        });
+      }
+    });
+
+    const completedReviews = settings.review_completed
+      ? await this.reviewRepository
+          .createQueryBuilder("review")
+          .leftJoinAndSelect("review.user", "user")
+          .where("review.status = :status", { status: ReviewStatus.COMPLETED })
+          .andWhere("review.updated_at BETWEEN :start AND :end", period)
+          .andWhere(inScope)
+          .orderBy("review.updated_at", "ASC")
+          .getMany()
+      : [];
+
+    const highPriorityFeedbacks = settings.feedback_received
+      ? await this.feedbackRepository
+          .createQueryBuilder("feedback")
+          .innerJoinAndSelect("feedback.submission", "submission")
+          .innerJoinAndSelect("submission.review", "review")
+          .leftJoinAndSelect("review.user", "user")
+          .where("feedback.priority = :priority", {
+            priority: FeedbackPriority.HIGH,
+          })
+          .andWhere("feedback.is_resolved = :resolved", { resolved: false })
+          .andWhere("feedback.created_at BETWEEN :start AND :end", period)
+          .andWhere(inScope)
+          .orderBy("feedback.created_at", "ASC")
+          .getMany()
+      : [];
+
+    const levelChanges = settings.level_changed
+      ? await this.findLevelChanges(memberIds, period)
+      : [];
+
+    const unreadCount = await this.notificationRepository.count({
+      where: { user_id: userId, is_read: false },
+    });
+
+    return {
+      mode:
+        settings.delivery_mode === "weekly_digest"
+          ? "weekly_digest"
+          : "daily_digest",
+      periodStart: period.start,
+      periodEnd: period.end,
+      timeZone: NotificationScheduleService.isValidTimeZone(settings.timezone)
+        ? settings.timezone
+        : DEFAULT_TIMEZONE,
+      completedReviews: completedReviews.map((review) => ({
+        reviewId: review.id,
+        reviewTitle: review.title,
+        authorName: review.user?.name || "",
+      })),
+      highPriorityFeedbacks: highPriorityFeedbacks.map((feedback) => ({
+        reviewId: feedback.submission.review.id,
+        reviewTitle: feedback.submission.review.title,
+        authorName: feedback.submission.review.user?.name || "",
+        problemPoint: feedback.problem_point,
+      })),
+      levelChanges,
+      unreadCount,
+    };
+  }
+
+  /**
+   * 期間中にスキルレベルが変わったユーザー（直前の評価と比較する）
+   */
+  private async findLevelChanges(
+    userIds: number[],
+    period: DigestPeriod
+  ): Promise<NotificationDigest["levelChanges"]> {
+    const evaluations = await this.evaluationRepository
+      .createQueryBuilder("evaluation")
+      .leftJoinAndSelect("evaluation.user", "user")
+      .where("evaluation.user_id IN (:...userIds)", { userIds })
+      .andWhere("evaluation.created_at BETWEEN :start AND :end", period)
+      .orderBy("evaluation.created_at", "ASC")
+      .addOrderBy("evaluation.id", "ASC")
+      .getMany();
+
+    const changes: NotificationDigest["levelChanges"] = [];
+    const lastLevels = new Map<number, string | null>();
+
+    for (const evaluation of evaluations) {
+      if (!lastLevels.has(evaluation.user_id)) {
+        const previous = await this.evaluationRepository
+          .createQueryBuilder("evaluation")
+          .where("evaluation.user_id = :userId", {
+            userId: evaluation.user_id,
+          })
+          .andWhere("evaluation.created_at < :start", period)
+          .orderBy("evaluation.created_at", "DESC")
+          .addOrderBy("evaluation.id", "DESC")
+          .getOne();
+        lastLevels.set(evaluation.user_id, previous?.overall_level || null);
+      }
+
+      const previousLevel = lastLevels.get(evaluation.user_id);
+      if (previousLevel && previousLevel !== evaluation.overall_level) {
+        changes.push({
+          userName: evaluation.user?.name || "",
+          previousLevel,
+          newLevel: evaluation.overall_level,
+        });
+      }
+      lastLevels.set(evaluation.user_id, evaluation.overall_level);
+    }
+
+    return changes;
+  }
+
+  /**
+   * 送信時刻を過ぎたダイジェストを送信
+   */
+  private async sendDueDigests(now: Date): Promise<void> {
+    const mailer = SmtpMailer.fromEnv();
+    if (!mailer) {
+      return;
+    }
+
+    const candidates = await this.settingsRepository.find({
+      where: {
+        email_notifications: true,
+        delivery_mode: In(["daily_digest", "weekly_digest"]),
+      },
+      relations: ["user"],
+    });
+
+    for (const settings of candidates) {
+      const period = this.scheduleService.getDueDigestPeriod(settings, now);
+      if (!period || !settings.user) {
+        continue;
+      }
+
+      try {
+        const digest = await this.buildDigest(settings, period);
+        const isEmpty =
+          digest.completedReviews.length === 0 &&
+          digest.highPriorityFeedbacks.length === 0 &&
+          digest.levelChanges.length === 0 &&
+          digest.unreadCount === 0;
+
+        // 期間中に動きがなければ送信しない
+        if (!isEmpty && settings.user.email) {
+          const rendered = this.templateService.renderDigest(
+            digest,
+            settings.language || "ja",
+            settings.user.name
+          );
+          await mailer.send({
+            to: settings.user.email,
+            subject: rendered.emailSubject,
+            text: rendered.emailText,
+          });
+        }
+
+        await this.settingsRepository.update(settings.id, {
+          last_digest_sent_at: now,
+        });
+      } catch (error) {
+        console.error(
+          `ユーザー ${settings.user_id} へのダイジェスト送信に失敗しました:`,
+          error
+        );
+      }
+    }
+  }
+
+  /**
+   * 通知しない時間帯が終わったユーザーに、保留していた通知をまとめて送信
+   */
+  private async sendHeldEmails(now: Date): Promise<void> {
+    const pending = await this.notificationRepository.find({
+      where: { email_pending: true },
+      order: { created_at: "ASC", id: "ASC" },
+    });
+    if (pending.length === 0) {
+      return;
+    }
+
+    const byUser = new Map<number, Notification[]>();
+    pending.forEach((notification) => {
+      byUser.set(notification.user_id, [
+        ...(byUser.get(notification.user_id) || []),
+        notification,
+      ]);
+    });
+
+    const mailer = SmtpMailer.fromEnv();
+
+    for (const [userId, notifications] of byUser) {
+      try {
+        const settings = await this.settingsRepository.findOne({
+          where: { user_id: userId },
+        });
+        if (settings && this.scheduleService.isInQuietHours(settings, now)) {
+          continue;
+        }
+
+        // 保留中にメール通知を無効にした場合やダイジェストに切り替えた場合は送信しない
+        const user = await this.userRepository.findOne({
+          where: { id: userId },
+        });
+        if (
+          mailer &&
+          user?.email &&
+          settings?.email_notifications &&
+          settings.delivery_mode === "immediate"
+        ) {
+          const rendered = this.templateService.renderHeldNotifications(
+            notifications,
+            settings.language || "ja",
+            user.name
+          );
+          await mailer.send({
+            to: user.email,
+            subject: rendered.emailSubject,
+            text: rendered.emailText,
+          });
+        }
+
+        await this.notificationRepository.update(
+          { id: In(notifications.map((notification) => notification.id)) },
+          { email_pending: false }
+        );
+      } catch (error) {
+        console.error(
+          `ユーザー ${userId} への保留中の通知の送信に失敗しました:`,
+          error
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,221 @@
+// backend/src/services/NotificationScheduleService.ts
+import { NotificationSettings } from "../models/NotificationSettings";
+
+export type NotificationScheduleSettings = Pick<
+  NotificationSettings,
+  | "delivery_mode"
+  | "digest_hour"
+  | "quiet_hours_start"
+  | "quiet_hours_end"
+  | "timezone"
+  | "last_digest_sent_at"
+>;
+
+export interface DigestPeriod {
+  start: Date;
+  end: Date;
+}
+
+interface LocalDateTime {
+  year: number;
+  month: number; // 1〜12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = 日曜日
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+export const DEFAULT_TIMEZONE = "Asia/Tokyo";
+
+/**
+ * 通知の送信時刻（通知しない時間帯・ダイジェストの送信タイミング）を判定するサービス
+ * 時刻はすべてユーザーが設定したタイムゾーンで判定する
+ */
+export class NotificationScheduleService {
+  /**
+   * IANAのタイムゾーン名として有効かどうか
+   */
+  static isValidTimeZone(timeZone: string): boolean {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * 通知しない時間帯かどうか
+   * 開始と終了が同じ場合（または未設定の場合）は無効として扱う
+   */
+  isInQuietHours(
+    settings: Pick<
+      NotificationScheduleSettings,
+      "quiet_hours_start" | "quiet_hours_end" | "timezone"
+    >,
+    now: Date = new Date()
+  ): boolean {
+    const start = this.parseTime(settings.quiet_hours_start);
+    const end = this.parseTime(settings.quiet_hours_end);
+    if (start === null || end === null || start === end) {
+      return false;
+    }
+
+    const local = this.toLocal(now, settings.timezone);
+    const minutes = local.hour * 60 + local.minute;
+
+    // 22:00〜07:00 のように日をまたぐ場合
+    return start < end
+      ? minutes >= start && minutes < end
+      : minutes >= start || minutes < end;
+  }
+
+  /**
+   * 直近のダイジェストの送信予定時刻（now 以前で最も新しいもの）
+   * 日次は毎日 digest_hour 時、週次は毎週月曜日の digest_hour 時
+   */
+  getLatestDigestSlot(
+    settings: Pick<
+      NotificationScheduleSettings,
+      "delivery_mode" | "digest_hour" | "timezone"
+    >,
+    now: Date = new Date()
+  ): Date | null {
+    if (settings.delivery_mode === "immediate") {
+      return null;
+    }
+
+    const timeZone = this.resolveTimeZone(settings.timezone);
+    const local = this.toLocal(now, timeZone);
+    const weekly = settings.delivery_mode === "weekly_digest";
+    // 週次の場合は今週の月曜日を起点にする
+    const daysBack = weekly ? (local.weekday + 6) % 7 : 0;
+
+    let slot = this.fromLocal(
+      local.year,
+      local.month,
+      local.day - daysBack,
+      settings.digest_hour,
+      timeZone
+    );
+    if (slot.getTime() > now.getTime()) {
+      slot = this.fromLocal(
+        local.year,
+        local.month,
+        local.day - daysBack - (weekly ? 7 : 1),
+        settings.digest_hour,
+        timeZone
+      );
+    }
+    return slot;
+  }
+
+  /**
+   * 送信すべきダイジェストの集計期間
+   * 送信予定時刻を過ぎていて、まだ送信していない場合だけ返す（通知しない時間帯は終わるまで待つ）
+   */
+  getDueDigestPeriod(
+    settings: NotificationScheduleSettings,
+    now: Date = new Date()
+  ): DigestPeriod | null {
+    const slot = this.getLatestDigestSlot(settings, now);
+    if (!slot) {
+      return null;
+    }
+
+    const lastSentAt = settings.last_digest_sent_at
+      ? new Date(settings.last_digest_sent_at)
+      : null;
+    if (lastSentAt && lastSentAt.getTime() >= slot.getTime()) {
+      return null;
+    }
+    if (this.isInQuietHours(settings, now)) {
+      return null;
+    }
+
+    // 初回は1日分（週次は1週間分）を集計する
+    const periodMs =
+      settings.delivery_mode === "weekly_digest" ? 7 * DAY_MS : DAY_MS;
+    return {
+      start: lastSentAt || new Date(slot.getTime() - periodMs),
+      end: now,
+    };
+  }
+
+  /**
+   * HH:MM を0時からの分数に変換
+   */
+  private parseTime(value: string | null | undefined): number | null {
+    const match = value?.match(/^([01]\d|2[0-3]):([0-5]\d)$/);
+    return match ? parseInt(match[1]) * 60 + parseInt(match[2]) : null;
+  }
+
+  private resolveTimeZone(timeZone: string | null | undefined): string {
+    return timeZone && NotificationScheduleService.isValidTimeZone(timeZone)
+      ? timeZone
+      : DEFAULT_TIMEZONE;
+  }
+
+  /**
+   * 指定したタイムゾーンでの日時に変換
+   */
+  private toLocal(date: Date, timeZone: string): LocalDateTime {
+    const parts = new Intl.DateTimeFormat("en-US", {
+      timeZone: this.resolveTimeZone(timeZone),
+      hour12: false,
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      weekday: "short",
+    }).formatToParts(date);
+    const get = (type: Intl.DateTimeFormatPartTypes) =>
+      parts.find((part) => part.type === type)?.value || "";
+
+    return {
+      year: parseInt(get("year")),
+      month: parseInt(get("month")),
+      day: parseInt(get("day")),
+      // 環境によって0時が "24" になるため補正する
+      hour: parseInt(get("hour")) % 24,
+      minute: parseInt(get("minute")),
+      weekday: WEEKDAYS.indexOf(get("weekday")),
+    };
+  }
+
+  /**
+   * タイムゾーンでの日時（日は月の範囲外でもよい）をUTCの日時に変換
+   */
+  private fromLocal(
+    year: number,
+    month: number,
+    day: number,
+    hour: number,
+    timeZone: string
+  ): Date {
+    const wallClock = Date.UTC(year, month - 1, day, hour);
+    // 一度求めた日時の時差で補正し直すことで、夏時間の切り替えにも対応する
+    let utc = wallClock - this.getOffsetMs(new Date(wallClock), timeZone);
+    utc = wallClock - this.getOffsetMs(new Date(utc), timeZone);
+    return new Date(utc);
+  }
+
+  /**
+   * UTCとの時差（ミリ秒）
+   */
+  private getOffsetMs(date: Date, timeZone: string): number {
+    const local = this.toLocal(date, timeZone);
+    const asUtc = Date.UTC(
+      local.year,
+      local.month - 1,
+      local.day,
+      local.hour,
+      local.minute
+    );
+    const truncated = Math.floor(date.getTime() / 60000) * 60000;
+    return asUtc - truncated;
+  }
+}
@@ -1,11 +1,40 @@
 // backend/src/services/NotificationService.ts
 import { AppDataSource } from "../index";
 import { NotificationSettings } from "../models/NotificationSettings";
+import { Notification, NotificationType } from "../models/Notification";
+import { UserGroupMember } from "../models/UserGroupMember";
 import { User } from "../models/User";
+import {
+  NotificationEvent,
+  NotificationTemplateService,
+  RenderedNotification,
+} from "./NotificationTemplateService";
+import { SmtpMailer } from "./SmtpMailer";
+import { ChatWebhookService } from "./ChatWebhookService";
+import { NotificationScheduleService } from "./NotificationScheduleService";
 
+interface DeliveryOptions {
+  personal?: boolean;
+  groups?: boolean;
+}
+
+/**
+ * 通知の設定と配信を行うサービス
+ * ダイジェストの送信と、通知しない時間帯に保留したメールの送信は NotificationDigestService が行う
+ *
+ *   FRONTEND_URL  メール・チャットに載せるリンクの基準URL
+ *   SMTP_*        メール送信の設定（SmtpMailer を参照）
+ */
 export class NotificationService {
   private notificationSettingsRepository =
     AppDataSource.getRepository(NotificationSettings);
+  private notificationRepository = AppDataSource.getRepository(Notification);
+  private groupMemberRepository = AppDataSource.getRepository(UserGroupMember);
+  private templateService = new NotificationTemplateService(
+    process.env.FRONTEND_URL || "http://localhost:3000"
+  );
+  private chatWebhookService = new ChatWebhookService();
+  private scheduleService = new NotificationScheduleService();
 
   /**
    * ユーザーの通知設定を取得
@@ -87,56 +116,245 @@ export class NotificationService {
   }
 
   /**
-   * 通知を送信（メール or システム通知）
-   * 注: 実際のメール送信機能は別途実装が必要
+   * イベントの通知を配信（受信箱・メール・所属グループのチャット）
+   * 配信の失敗は呼び出し元に伝播させない
+   * @param options.personal false の場合は本人への通知（受信箱・メール）を行わない
+   * @param options.groups false の場合はグループのチャットに投稿しない
+   * 本人への通知は本人の通知設定、グループのチャットへの投稿はグループの設定で配信するか決める
+   * @returns 本人またはグループのいずれかに配信した場合は true
+   */
+  async notify(
+    userId: number,
+    event: NotificationEvent,
+    options: DeliveryOptions = {}
+  ): Promise<boolean> {
+    return this.deliver(userId, event.type, event, options);
+  }
+
+  /**
+   * 件名と本文を指定して通知を送信
    */
   async sendNotification(
     userId: number,
     notificationType: string,
     title: string,
     message: string
+  ): Promise<boolean> {
+    const type = Object.values(NotificationType).includes(
+      notificationType as NotificationType
+    )
+      ? (notificationType as NotificationType)
+      : NotificationType.SYSTEM;
+
+    return this.deliver(userId, type, {
+      type: NotificationType.SYSTEM,
+      title,
+      message,
+    });
+  }
+
+  /**
+   * 受信箱の通知一覧を取得（新しい順）
+   */
+  async getNotifications(
+    userId: number,
+    options: { unreadOnly?: boolean; limit?: number; offset?: number } = {}
+  ): Promise<{ items: Notification[]; total: number; unreadCount: number }> {
+    const [items, total] = await this.notificationRepository.findAndCount({
+      where: options.unreadOnly
+        ? { user_id: userId, is_read: false }
+        : { user_id: userId },
+      order: { created_at: "DESC", id: "DESC" },
+      take: options.limit || 20,
+      skip: options.offset || 0,
+    });
+    const unreadCount = await this.getUnreadCount(userId);
+
+    return { items, total, unreadCount };
+  }
+
+  /**
+   * 未読の通知の件数を取得
+   */
+  async getUnreadCount(userId: number): Promise<number> {
+    return this.notificationRepository.count({
+      where: { user_id: userId, is_read: false },
+    });
+  }
+
+  /**
+   * 通知を既読にする
+   * @returns 本人の通知が見つかった場合は true
+   */
+  async markAsRead(userId: number, notificationId: number): Promise<boolean> {
+    const notification = await this.notificationRepository.findOne({
+      where: { id: notificationId, user_id: userId },
+    });
+    if (!notification) {
+      return false;
+    }
+    if (!notification.is_read) {
+      notification.is_read = true;
+      notification.read_at = new Date();
+      await this.notificationRepository.save(notification);
+    }
+    return true;
+  }
+
+  /**
+   * すべての通知を既読にする
+   * @returns 既読にした件数
+   */
+  async markAllAsRead(userId: number): Promise<number> {
+    const result = await this.notificationRepository.update(
+      { user_id: userId, is_read: false },
+      { is_read: true, read_at: new Date() }
+    );
+    return result.affected || 0;
+  }
+
+  private async deliver(
+    userId: number,
+    type: NotificationType,
+    event: NotificationEvent,
+    { personal = true, groups = true }: DeliveryOptions = {}
   ): Promise<boolean> {
     try {
       // ユーザーの通知設定を取得
       const settings = await this.getNotificationSettings(userId);
+      const user = settings.user;
+      let delivered = false;
 
-      // 通知タイプに応じた設定をチェック
-      let shouldSend = false;
-
-      switch (notificationType) {
-        case "review_completed":
-          shouldSend = settings.review_completed;
-          break;
-        case "feedback_received":
-          shouldSend = settings.feedback_received;
-          break;
-        case "level_changed":
-          shouldSend = settings.level_changed;
-          break;
-        case "system":
-          shouldSend = settings.system_notifications;
-          break;
-        default:
-          shouldSend = true;
-      }
+      if (personal && this.isEnabled(settings, type)) {
+        const rendered = this.templateService.render(
+          event,
+          settings.language || "ja",
+          { kind: "personal", recipientName: user.name }
+        );
 
-      if (!shouldSend) {
-        return false;
-      }
+        // メール通知が有効な場合、ダイジェストを選んでいなければ送信する
+        // 通知しない時間帯は送信を保留し、時間帯が終わった後にまとめて送信する
+        const sendsEmail =
+          settings.email_notifications &&
+          (settings.delivery_mode || "immediate") === "immediate";
+        const holdsEmail =
+          sendsEmail && this.scheduleService.isInQuietHours(settings);
 
-      // メール通知が有効な場合
-      if (settings.email_notifications) {
-        // TODO: 実際のメール送信処理を実装
-        console.log(`メール通知送信（仮）: ${title} - ${message}`);
+        // 受信箱に記録
+        await this.notificationRepository.save(
+          this.notificationRepository.create({
+            user_id: userId,
+            type,
+            title: rendered.title.substring(0, 255),
+            message: rendered.message,
+            link: rendered.link,
+            email_pending: holdsEmail,
+          })
+        );
+
+        if (sendsEmail && !holdsEmail) {
+          await this.sendEmail(user, rendered);
+        }
+        delivered = true;
       }
 
-      // システム通知を記録（将来的な実装用）
-      console.log(`システム通知記録（仮）: ${title} - ${message}`);
+      if (groups && (await this.postToGroups(user, type, event))) {
+        delivered = true;
+      }
 
-      return true;
+      return delivered;
     } catch (error) {
       console.error("通知送信エラー:", error);
       return false;
     }
   }
+
+  private isEnabled(
+    settings: NotificationSettings,
+    type: NotificationType
+  ): boolean {
+    switch (type) {
+      case NotificationType.REVIEW_COMPLETED:
+        return settings.review_completed;
+      case NotificationType.FEEDBACK_RECEIVED:
+        return settings.feedback_received;
+      case NotificationType.LEVEL_CHANGED:
+        return settings.level_changed;
+      case NotificationType.SYSTEM:
+        return settings.system_notifications;
+      default:
+        return true;
+    }
+  }
+
+  private async sendEmail(
+    user: User,
+    rendered: RenderedNotification
+  ): Promise<void> {
+    // SMTPが設定されていない環境ではメールを送信しない
+    const mailer = SmtpMailer.fromEnv();
+    if (!mailer || !user.email) {
+      return;
+    }
+
+    try {
+      await mailer.send({
+        to: user.email,
+        subject: rendered.emailSubject,
+        text: rendered.emailText,
+      });
+    } catch (error) {
+      console.error(`ユーザー ${user.id} へのメール送信に失敗しました:`, error);
+    }
+  }
+
+  /**
+   * ユーザーが所属するグループのうち、Webhookが設定されこの種類の通知を投稿するチャットに投稿
+   * @returns 投稿先のグループがあった場合は true
+   */
+  private async postToGroups(
+    user: User,
+    type: NotificationType,
+    event: NotificationEvent
+  ): Promise<boolean> {
+    const memberships = await this.groupMemberRepository.find({
+      where: { user_id: user.id },
+      relations: ["group"],
+    });
+    const groups = memberships
+      .map((membership) => membership.group)
+      .filter(
+        (group) =>
+          group &&
+          group.is_active &&
+          group.webhook_url &&
+          this.chatWebhookService.isEventEnabled(group, type)
+      );
+    if (groups.length === 0) {
+      return false;
+    }
+
+    const rendered = this.templateService.render(event, "ja", {
+      kind: "group",
+      subjectName: user.name,
+    });
+
+    await Promise.all(
+      groups.map(async (group) => {
+        try {
+          await this.chatWebhookService.send(
+            group.webhook_url!,
+            group.webhook_format,
+            rendered
+          );
+        } catch (error) {
+          console.error(
+            `グループ ${group.id} のWebhookへの投稿に失敗しました:`,
+            error instanceof Error ? error.message : error
+          );
+        }
+      })
+    );
+    return true;
+  }
 }
@@ -0,0 +1,473 @@
+// backend/src/services/NotificationTemplateService.ts
+import { NotificationType } from "../models/Notification";
+import { NotificationLanguage } from "../models/NotificationSettings";
+
+/**
+ * 通知のきっかけとなるイベント
+ */
+export type NotificationEvent =
+  | {
+      type: NotificationType.REVIEW_COMPLETED;
+      reviewId: number;
+      reviewTitle: string;
+      feedbackCount: number;
+    }
+  | {
+      type: NotificationType.FEEDBACK_RECEIVED;
+      reviewId: number;
+      reviewTitle: string;
+      checkedCount: number;
+      totalCount: number;
+      actorName: string | null; // チェックを変更した人（本人の場合は null）
+    }
+  | {
+      type: NotificationType.LEVEL_CHANGED;
+      previousLevel: string;
+      newLevel: string;
+    }
+  | {
+      type: NotificationType.SYSTEM;
+      title: string;
+      message: string;
+      link?: string | null;
+    };
+
+/**
+ * 通知の宛先
+ * personal は本人宛て（受信箱・メール）、group はグループのチャット宛て（本人の名前を含める）
+ */
+export type NotificationAudience =
+  | { kind: "personal"; recipientName: string }
+  | { kind: "group"; subjectName: string };
+
+export interface RenderedNotification {
+  title: string;
+  message: string;
+  link: string | null; // 画面のパス
+  url: string | null; // メール・チャットに載せる絶対URL
+  emailSubject: string;
+  emailText: string;
+}
+
+/**
+ * 通知のダイジェスト（受信者の所属グループ・プロジェクトの期間中の動き）
+ */
+export interface NotificationDigest {
+  mode: "daily_digest" | "weekly_digest";
+  periodStart: Date;
+  periodEnd: Date;
+  timeZone: string;
+  completedReviews: {
+    reviewId: number;
+    reviewTitle: string;
+    authorName: string;
+  }[];
+  highPriorityFeedbacks: {
+    reviewId: number;
+    reviewTitle: string;
+    authorName: string;
+    problemPoint: string;
+  }[];
+  levelChanges: {
+    userName: string;
+    previousLevel: string;
+    newLevel: string;
+  }[];
+  unreadCount: number; // 受信者の未読の通知
+}
+
+export interface RenderedEmail {
+  emailSubject: string;
+  emailText: string;
+}
+
+// ダイジェストの各項目に載せる最大件数
+const MAX_DIGEST_ITEMS = 20;
+
+/**
+ * 通知の件名・本文を言語ごとのテンプレートから作成するサービス
+ */
+export class NotificationTemplateService {
+  constructor(private baseUrl: string = "") {}
+
+  render(
+    event: NotificationEvent,
+    language: NotificationLanguage,
+    audience: NotificationAudience
+  ): RenderedNotification {
+    const { title, message, link } =
+      language === "en"
+        ? this.renderEnglish(event, audience)
+        : this.renderJapanese(event, audience);
+    const url = link ? this.toUrl(link) : null;
+
+    return {
+      title,
+      message,
+      link,
+      url,
+      emailSubject: `[Code Reviewer] ${title}`,
+      emailText: this.buildEmailText(message, url, language, audience),
+    };
+  }
+
+  /**
+   * ダイジェストのメールを作成
+   */
+  renderDigest(
+    digest: NotificationDigest,
+    language: NotificationLanguage,
+    recipientName: string
+  ): RenderedEmail {
+    const en = language === "en";
+    const formatDate = (date: Date) =>
+      date.toLocaleString(en ? "en-US" : "ja-JP", {
+        timeZone: digest.timeZone,
+        month: "numeric",
+        day: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+      });
+    const period = `${formatDate(digest.periodStart)} - ${formatDate(
+      digest.periodEnd
+    )}`;
+    const title = en
+      ? `${digest.mode === "weekly_digest" ? "Weekly" : "Daily"} digest`
+      : `${digest.mode === "weekly_digest" ? "週間" : "日次"}ダイジェスト`;
+
+    const sections = en
+      ? [
+          this.buildSection(
+            `Completed reviews (${digest.completedReviews.length})`,
+            digest.completedReviews.map(
+              (item) =>
+                `${item.authorName}: "${item.reviewTitle}" ${this.toUrl(
+                  `/dashboard/reviews/${item.reviewId}`
+                )}`
+            ),
+            language
+          ),
+          this.buildSection(
+            `Unresolved high-priority feedback (${digest.highPriorityFeedbacks.length})`,
+            digest.highPriorityFeedbacks.map(
+              (item) =>
+                `${item.authorName}: "${item.reviewTitle}" - ${this.truncate(
+                  item.problemPoint
+                )}`
+            ),
+            language
+          ),
+          this.buildSection(
+            `Skill level changes (${digest.levelChanges.length})`,
+            digest.levelChanges.map(
+              (item) =>
+                `${item.userName}: ${item.previousLevel} -> ${item.newLevel}`
+            ),
+            language
+          ),
+        ]
+      : [
+          this.buildSection(
+            `完了したレビュー（${digest.completedReviews.length}件）`,
+            digest.completedReviews.map(
+              (item) =>
+                `${item.authorName}さん「${item.reviewTitle}」 ${this.toUrl(
+                  `/dashboard/reviews/${item.reviewId}`
+                )}`
+            ),
+            language
+          ),
+          this.buildSection(
+            `未解決の優先度「高」の指摘（${digest.highPriorityFeedbacks.length}件）`,
+            digest.highPriorityFeedbacks.map(
+              (item) =>
+                `${item.authorName}さん「${item.reviewTitle}」: ${this.truncate(
+                  item.problemPoint
+                )}`
+            ),
+            language
+          ),
+          this.buildSection(
+            `スキルレベルの変化（${digest.levelChanges.length}件）`,
+            digest.levelChanges.map(
+              (item) =>
+                `${item.userName}さん: ${item.previousLevel} → ${item.newLevel}`
+            ),
+            language
+          ),
+        ];
+
+    const unread =
+      digest.unreadCount > 0
+        ? en
+          ? [
+              `You have ${
+                digest.unreadCount
+              } unread notifications: ${this.toUrl(
+                "/dashboard/notifications"
+              )}`,
+              "",
+            ]
+          : [
+              `未読の通知が ${digest.unreadCount}件あります: ${this.toUrl(
+                "/dashboard/notifications"
+              )}`,
+              "",
+            ]
+        : [];
+
+    const lines = [
+      en ? `Hello ${recipientName},` : `${recipientName} さん`,
+      "",
+      en
+        ? `Here is the activity in your groups and projects (${period}).`
+        : `所属しているグループ・プロジェクトの動きをお知らせします（${period}）。`,
+      "",
+      ...sections.flatMap((section) => [...section, ""]),
+      ...unread,
+      ...this.buildFooter(language),
+    ];
+
+    return {
+      emailSubject: `[Code Reviewer] ${title} (${period})`,
+      emailText: lines.join("\n"),
+    };
+  }
+
+  /**
+   * 通知しない時間帯に保留していた通知をまとめたメールを作成
+   */
+  renderHeldNotifications(
+    notifications: { title: string; message: string; link: string | null }[],
+    language: NotificationLanguage,
+    recipientName: string
+  ): RenderedEmail {
+    const en = language === "en";
+    const items = notifications.flatMap((notification) => [
+      `- ${notification.title}`,
+      `  ${notification.message}`,
+      ...(notification.link ? [`  ${this.toUrl(notification.link)}`] : []),
+    ]);
+    const lines = [
+      en ? `Hello ${recipientName},` : `${recipientName} さん`,
+      "",
+      en
+        ? `You received ${notifications.length} notifications during your quiet hours.`
+        : `通知しない時間帯に ${notifications.length}件の通知がありました。`,
+      "",
+      ...items,
+      "",
+      ...this.buildFooter(language),
+    ];
+
+    return {
+      emailSubject: en
+        ? `[Code Reviewer] ${notifications.length} notifications during quiet hours`
+        : `[Code Reviewer] 通知しない時間帯の通知（${notifications.length}件）`,
+      emailText: lines.join("\n"),
+    };
+  }
+
+  /**
+   * パスワード再設定のメールを作成
+   */
+  renderPasswordReset(
+    resetUrl: string,
+    expiresInMinutes: number,
+    language: NotificationLanguage,
+    recipientName: string
+  ): RenderedEmail {
+    const lines =
+      language === "en"
+        ? [
+            `Hello ${recipientName},`,
+            "",
+            "We received a request to reset your password. Open the link below to set a new password.",
+            "",
+            resetUrl,
+            "",
+            `This link expires in ${expiresInMinutes} minutes and can be used only once.`,
+            "If you did not request a password reset, you can ignore this email.",
+            "",
+            "--",
+            "Code Reviewer",
+          ]
+        : [
+            `${recipientName} さん`,
+            "",
+            "パスワードの再設定を受け付けました。次のリンクから新しいパスワードを設定してください。",
+            "",
+            resetUrl,
+            "",
+            `このリンクの有効期限は${expiresInMinutes}分で、一度だけ使用できます。`,
+            "心当たりがない場合は、このメールを破棄してください。",
+            "",
+            "--",
+            "Code Reviewer",
+          ];
+
+    return {
+      emailSubject:
+        language === "en"
+          ? "[Code Reviewer] Reset your password"
+          : "[Code Reviewer] パスワードの再設定",
+      emailText: lines.join("\n"),
+    };
+  }
+
+  private renderJapanese(
+    event: NotificationEvent,
+    audience: NotificationAudience
+  ): { title: string; message: string; link: string | null } {
+    const who =
+      audience.kind === "group" ? `${audience.subjectName}さんの` : "";
+
+    switch (event.type) {
+      case NotificationType.REVIEW_COMPLETED:
+        return {
+          title: "AIレビューが完了しました",
+          message: `${who}「${event.reviewTitle}」のレビューが完了しました（指摘 ${event.feedbackCount}件）。`,
+          link: `/dashboard/reviews/${event.reviewId}`,
+        };
+      case NotificationType.FEEDBACK_RECEIVED:
+        return {
+          title: "フィードバックのチェック状況が更新されました",
+          message:
+            `${who}「${event.reviewTitle}」のフィードバックが` +
+            `${
+              event.actorName ? `${event.actorName}さんにより` : ""
+            }更新されました` +
+            `（チェック済み ${event.checkedCount}/${event.totalCount}件）。`,
+          link: `/dashboard/reviews/${event.reviewId}`,
+        };
+      case NotificationType.LEVEL_CHANGED:
+        return {
+          title: "スキルレベルが変わりました",
+          message: `${who}スキルレベルが ${event.previousLevel} から ${event.newLevel} に変わりました。`,
+          link: "/dashboard/progress",
+        };
+      case NotificationType.SYSTEM:
+        return {
+          title: event.title,
+          message: event.message,
+          link: event.link || null,
+        };
+    }
+  }
+
+  private renderEnglish(
+    event: NotificationEvent,
+    audience: NotificationAudience
+  ): { title: string; message: string; link: string | null } {
+    const whose =
+      audience.kind === "group" ? `${audience.subjectName}'s` : "Your";
+    const ofWhom =
+      audience.kind === "group" ? `${audience.subjectName}'s` : "your";
+
+    switch (event.type) {
+      case NotificationType.REVIEW_COMPLETED:
+        return {
+          title: "AI review completed",
+          message: `${whose} review "${event.reviewTitle}" is complete (${
+            event.feedbackCount
+          } ${event.feedbackCount === 1 ? "issue" : "issues"} found).`,
+          link: `/dashboard/reviews/${event.reviewId}`,
+        };
+      case NotificationType.FEEDBACK_RECEIVED:
+        return {
+          title: "Feedback checklist updated",
+          message:
+            `Feedback on ${ofWhom} review "${event.reviewTitle}" was updated` +
+            `${event.actorName ? ` by ${event.actorName}` : ""}` +
+            ` (${event.checkedCount}/${event.totalCount} checked).`,
+          link: `/dashboard/reviews/${event.reviewId}`,
+        };
+      case NotificationType.LEVEL_CHANGED:
+        return {
+          title: "Skill level changed",
+          message: `${whose} skill level changed from ${event.previousLevel} to ${event.newLevel}.`,
+          link: "/dashboard/progress",
+        };
+      case NotificationType.SYSTEM:
+        return {
+          title: event.title,
+          message: event.message,
+          link: event.link || null,
+        };
+    }
+  }
+
+  private buildEmailText(
+    message: string,
+    url: string | null,
+    language: NotificationLanguage,
+    audience: NotificationAudience
+  ): string {
+    const name = audience.kind === "personal" ? audience.recipientName : "";
+    const lines =
+      language === "en"
+        ? [
+            `Hello ${name},`,
+            "",
+            message,
+            ...(url ? ["", `Details: ${url}`] : []),
+            "",
+            ...this.buildFooter(language),
+          ]
+        : [
+            `${name} さん`,
+            "",
+            message,
+            ...(url ? ["", `詳細: ${url}`] : []),
+            "",
+            ...this.buildFooter(language),
+          ];
+    return lines.join("\n");
+  }
+
+  private buildFooter(language: NotificationLanguage): string[] {
+    return language === "en"
+      ? [
+          "--",
+          "Code Reviewer",
+          "You can change which notifications you receive in Settings > Notifications.",
+        ]
+      : [
+          "--",
+          "Code Reviewer",
+          "通知の受け取り方は「設定 > 通知」から変更できます。",
+        ];
+  }
+
+  /**
+   * ダイジェストの項目（見出しと箇条書き。多い場合は残りの件数を表示）
+   */
+  private buildSection(
+    heading: string,
+    items: string[],
+    language: NotificationLanguage
+  ): string[] {
+    if (items.length === 0) {
+      return [`■ ${heading}`, language === "en" ? "  None" : "  なし"];
+    }
+    const rest = items.length - MAX_DIGEST_ITEMS;
+    return [
+      `■ ${heading}`,
+      ...items.slice(0, MAX_DIGEST_ITEMS).map((item) => `- ${item}`),
+      ...(rest > 0
+        ? [language === "en" ? `  and ${rest} more` : `  ほか ${rest}件`]
+        : []),
+    ];
+  }
+
+  private truncate(text: string, length: number = 80): string {
+    const singleLine = text.replace(/\s+/g, " ").trim();
+    return singleLine.length > length
+      ? `${singleLine.substring(0, length)}…`
+      : singleLine;
+  }
+
+  private toUrl(link: string): string {
+    return `${this.baseUrl.replace(/\/+$/, "")}${link}`;
+  }
+}
@@ -0,0 +1,302 @@
+// backend/src/services/OidcClient.ts
+import axios from "axios";
+import {
+  createHash,
+  createPublicKey,
+  JsonWebKey,
+  KeyObject,
+  randomBytes,
+} from "crypto";
+import jwt, { JwtHeader } from "jsonwebtoken";
+import { OidcProviderConfig } from "./SsoProviderRegistry";
+
+interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+  token_endpoint_auth_methods_supported?: string[];
+}
+
+// JWKSの公開鍵（createPublicKey には Node.js の JsonWebKey として渡す）
+interface Jwk extends JsonWebKey {
+  kid?: string;
+  kty: string;
+  use?: string;
+  [key: string]: unknown;
+}
+
+export type OidcClaims = Record<string, unknown> & { sub: string };
+
+// ディスカバリー文書・公開鍵のキャッシュ時間
+const CACHE_TTL_MS = 60 * 60 * 1000;
+// IdPとサーバーの時計のずれの許容範囲（秒）
+const CLOCK_TOLERANCE_SECONDS = 60;
+const SIGNING_ALGORITHMS: jwt.Algorithm[] = [
+  "RS256",
+  "RS384",
+  "RS512",
+  "PS256",
+  "PS384",
+  "PS512",
+  "ES256",
+  "ES384",
+  "ES512",
+];
+
+const discoveryCache: Map<
+  string,
+  { discovery: OidcDiscovery; fetchedAt: number }
+> = new Map();
+const jwksCache: Map<string, { keys: Jwk[]; fetchedAt: number }> = new Map();
+
+/**
+ * OpenID Connect のクライアント（認可コードフロー + PKCE）
+ * エンドポイントはIdPのディスカバリー文書（/.well-known/openid-configuration）から取得する
+ */
+export class OidcClient {
+  constructor(
+    private config: OidcProviderConfig,
+    private redirectUri: string
+  ) {}
+
+  /**
+   * PKCEのコード検証子を生成
+   */
+  static generateCodeVerifier(): string {
+    return randomBytes(32).toString("base64url");
+  }
+
+  static getCodeChallenge(codeVerifier: string): string {
+    return createHash("sha256").update(codeVerifier).digest("base64url");
+  }
+
+  /**
+   * キャッシュを破棄（テスト用）
+   */
+  static clearCache(): void {
+    discoveryCache.clear();
+    jwksCache.clear();
+  }
+
+  /**
+   * IdPの認可エンドポイントのURL
+   */
+  async buildAuthorizationUrl(params: {
+    state: string;
+    nonce: string;
+    codeVerifier: string;
+  }): Promise<string> {
+    const discovery = await this.getDiscovery();
+    const url = new URL(discovery.authorization_endpoint);
+    url.searchParams.set("response_type", "code");
+    url.searchParams.set("client_id", this.config.client_id);
+    url.searchParams.set("redirect_uri", this.redirectUri);
+    url.searchParams.set("scope", this.config.scopes.join(" "));
+    url.searchParams.set("state", params.state);
+    url.searchParams.set("nonce", params.nonce);
+    url.searchParams.set(
+      "code_challenge",
+      OidcClient.getCodeChallenge(params.codeVerifier)
+    );
+    url.searchParams.set("code_challenge_method", "S256");
+    return url.toString();
+  }
+
+  /**
+   * 認可コードをトークンに交換し、IDトークンを検証してクレームを返す
+   * IDトークンにメールアドレスが含まれない場合はUserInfoエンドポイントから補う
+   */
+  async authenticate(params: {
+    code: string;
+    codeVerifier: string;
+    nonce: string;
+  }): Promise<OidcClaims> {
+    const discovery = await this.getDiscovery();
+    const tokens = await this.exchangeCode(discovery, params);
+    const claims = await this.verifyIdToken(tokens.id_token, params.nonce);
+
+    if (!claims.email && discovery.userinfo_endpoint && tokens.access_token) {
+      const response = await axios.get(discovery.userinfo_endpoint, {
+        headers: { Authorization: `Bearer ${tokens.access_token}` },
+        timeout: 10000,
+      });
+      // 別のユーザーの情報が返された場合は使わない
+      if (response.data?.sub === claims.sub) {
+        return { ...response.data, ...claims, email: response.data.email };
+      }
+    }
+
+    return claims;
+  }
+
+  /**
+   * IDトークンの署名・発行者・対象・有効期限・nonceを検証
+   */
+  async verifyIdToken(idToken: string, nonce: string): Promise<OidcClaims> {
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === "string") {
+      throw new Error("IDトークンの形式が正しくありません");
+    }
+
+    const key = await this.getSigningKey(decoded.header);
+    let payload: jwt.JwtPayload;
+    try {
+      payload = jwt.verify(idToken, key, {
+        algorithms: SIGNING_ALGORITHMS,
+        issuer: this.config.issuer,
+        audience: this.config.client_id,
+        clockTolerance: CLOCK_TOLERANCE_SECONDS,
+      }) as jwt.JwtPayload;
+    } catch (error) {
+      throw new Error(
+        `IDトークンの検証に失敗しました: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
+    if (payload.nonce !== nonce) {
+      throw new Error("IDトークンの nonce が一致しません");
+    }
+    // 複数の対象に発行されたトークンは、このクライアントに発行されたものだけ受け付ける
+    if (
+      Array.isArray(payload.aud) &&
+      payload.aud.length > 1 &&
+      payload.azp !== this.config.client_id
+    ) {
+      throw new Error("IDトークンの発行先（azp）が一致しません");
+    }
+    if (!payload.sub) {
+      throw new Error("IDトークンに sub が含まれていません");
+    }
+
+    return payload as OidcClaims;
+  }
+
+  private async exchangeCode(
+    discovery: OidcDiscovery,
+    params: { code: string; codeVerifier: string }
+  ): Promise<{ id_token: string; access_token?: string }> {
+    const body = new URLSearchParams({
+      grant_type: "authorization_code",
+      code: params.code,
+      redirect_uri: this.redirectUri,
+      client_id: this.config.client_id,
+      code_verifier: params.codeVerifier,
+    });
+    const headers: Record<string, string> = {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Accept: "application/json",
+    };
+
+    // クライアント認証は client_secret_basic を優先し、対応していないIdPでは client_secret_post を使う
+    if (this.config.client_secret) {
+      const methods = discovery.token_endpoint_auth_methods_supported;
+      if (!methods || methods.includes("client_secret_basic")) {
+        const credentials = `${encodeURIComponent(
+          this.config.client_id
+        )}:${encodeURIComponent(this.config.client_secret)}`;
+        headers.Authorization = `Basic ${Buffer.from(credentials).toString(
+          "base64"
+        )}`;
+      } else {
+        body.set("client_secret", this.config.client_secret);
+      }
+    }
+
+    try {
+      const response = await axios.post(
+        discovery.token_endpoint,
+        body.toString(),
+        { headers, timeout: 10000 }
+      );
+      if (!response.data?.id_token) {
+        throw new Error("トークンレスポンスに id_token が含まれていません");
+      }
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response) {
+        throw new Error(
+          `認可コードの交換に失敗しました: ${
+            error.response.data?.error_description ||
+            error.response.data?.error ||
+            error.response.status
+          }`
+        );
+      }
+      throw error;
+    }
+  }
+
+  private async getDiscovery(): Promise<OidcDiscovery> {
+    const cached = discoveryCache.get(this.config.issuer);
+    if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+      return cached.discovery;
+    }
+
+    const response = await axios.get(
+      `${this.config.issuer.replace(
+        /\/+$/,
+        ""
+      )}/.well-known/openid-configuration`,
+      { timeout: 10000 }
+    );
+    const discovery: OidcDiscovery = response.data;
+    if (discovery.issuer !== this.config.issuer) {
+      throw new Error(
+        `ディスカバリー文書の issuer が設定と一致しません: ${discovery.issuer}`
+      );
+    }
+
+    discoveryCache.set(this.config.issuer, {
+      discovery,
+      fetchedAt: Date.now(),
+    });
+    return discovery;
+  }
+
+  /**
+   * IDトークンのヘッダーの kid に対応する公開鍵
+   * 見つからない場合は鍵の更新（ローテーション）に備えて一度だけ取得し直す
+   */
+  private async getSigningKey(header: JwtHeader): Promise<KeyObject> {
+    const discovery = await this.getDiscovery();
+    const findKey = (keys: Jwk[]) =>
+      keys.find(
+        (key) =>
+          (!key.use || key.use === "sig") &&
+          (header.kid ? key.kid === header.kid : keys.length === 1)
+      );
+
+    let key = findKey(await this.getJwks(discovery.jwks_uri, false));
+    if (!key) {
+      key = findKey(await this.getJwks(discovery.jwks_uri, true));
+    }
+    if (!key) {
+      throw new Error("IDトークンの署名に対応する公開鍵が見つかりません");
+    }
+
+    return createPublicKey({ key, format: "jwk" });
+  }
+
+  private async getJwks(
+    jwksUri: string,
+    forceRefresh: boolean
+  ): Promise<Jwk[]> {
+    const cached = jwksCache.get(jwksUri);
+    if (
+      !forceRefresh &&
+      cached &&
+      Date.now() - cached.fetchedAt < CACHE_TTL_MS
+    ) {
+      return cached.keys;
+    }
+
+    const response = await axios.get(jwksUri, { timeout: 10000 });
+    const keys: Jwk[] = response.data?.keys || [];
+    jwksCache.set(jwksUri, { keys, fetchedAt: Date.now() });
+    return keys;
+  }
+}
@@ -0,0 +1,339 @@
+// backend/src/services/ProgressMetricsService.ts
+
+// 改善指標の算出に必要な最小件数（これ未満の場合は数値を返さない）
+export const MIN_FEEDBACKS_FOR_IMPROVEMENT = 5;
+export const MIN_EVALUATIONS_FOR_LEVEL_HISTORY = 2;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// フィードバックカテゴリの表示名
+const CATEGORY_LABELS: Record<string, string> = {
+  code_quality: "コード品質",
+  security: "セキュリティ",
+  performance: "パフォーマンス",
+  best_practice: "ベストプラクティス",
+  readability: "可読性",
+  functionality: "機能性",
+  maintainability: "保守性",
+  architecture: "アーキテクチャ",
+  other: "その他",
+};
+
+/**
+ * 指標の算出結果
+ * データが不足している場合は推測値を返さず、その旨と必要件数を返す
+ */
+export type MetricResult<T> =
+  | { status: "ok"; data: T }
+  | {
+      status: "insufficient_data";
+      reason: string;
+      required: number;
+      actual: number;
+    };
+
+export interface FeedbackMetricInput {
+  submission_id: number;
+  category: string | null;
+  is_resolved: boolean;
+  is_checked: boolean;
+  checked_at: Date | null;
+  created_at: Date;
+}
+
+export interface SubmissionMetricInput {
+  id: number;
+  created_at: Date;
+}
+
+export interface EvaluationMetricInput {
+  overall_level: string;
+  created_at: Date;
+  submission_id: number;
+  review_id: number | null;
+}
+
+export interface ImprovementMetrics {
+  resolvedRate: number;
+  resolvedCount: number;
+  totalCount: number;
+  // カテゴリごとの対応率（前半のフィードバックと後半のフィードバックの比較）
+  improvementByType: {
+    category: string;
+    type: string;
+    initial: number;
+    current: number;
+  }[];
+  resolutionTimeByCategory: {
+    category: string;
+    type: string;
+    resolvedCount: number;
+    averageHours: number;
+    medianHours: number;
+  }[];
+  recurrenceByCategory: {
+    category: string;
+    type: string;
+    occurrences: number;
+    submissionCount: number;
+    recurrenceRate: number;
+  }[];
+  monthlyResolutionRate: {
+    month: string;
+    total: number;
+    resolved: number;
+    rate: number;
+  }[];
+}
+
+export interface LevelTransition {
+  level: string;
+  previousLevel: string | null;
+  date: string;
+  submissionId: number;
+  reviewId: number | null;
+}
+
+/**
+ * フィードバックの対応状況と評価履歴から進捗指標を算出するサービス
+ */
+export class ProgressMetricsService {
+  /**
+   * フィードバックの改善指標を算出
+   */
+  calculateImprovementMetrics(
+    feedbacks: FeedbackMetricInput[],
+    submissions: SubmissionMetricInput[]
+  ): MetricResult<ImprovementMetrics> {
+    if (feedbacks.length < MIN_FEEDBACKS_FOR_IMPROVEMENT) {
+      return {
+        status: "insufficient_data",
+        reason: "改善状況を算出するためのフィードバックが不足しています",
+        required: MIN_FEEDBACKS_FOR_IMPROVEMENT,
+        actual: feedbacks.length,
+      };
+    }
+
+    const resolvedCount = feedbacks.filter((fb) => this.isResolved(fb)).length;
+
+    return {
+      status: "ok",
+      data: {
+        resolvedRate: this.toPercentage(resolvedCount, feedbacks.length),
+        resolvedCount,
+        totalCount: feedbacks.length,
+        improvementByType: this.calculateImprovementByType(feedbacks),
+        resolutionTimeByCategory: this.calculateResolutionTime(feedbacks),
+        recurrenceByCategory: this.calculateRecurrence(feedbacks, submissions),
+        monthlyResolutionRate: this.calculateMonthlyResolutionRate(feedbacks),
+      },
+    };
+  }
+
+  /**
+   * 評価履歴からスキルレベルの推移を求める
+   * 最初の評価と、レベルが変化した評価のみを返す
+   */
+  calculateLevelTransitions(
+    evaluations: EvaluationMetricInput[]
+  ): MetricResult<LevelTransition[]> {
+    if (evaluations.length < MIN_EVALUATIONS_FOR_LEVEL_HISTORY) {
+      return {
+        status: "insufficient_data",
+        reason: "レベルの推移を算出するための評価が不足しています",
+        required: MIN_EVALUATIONS_FOR_LEVEL_HISTORY,
+        actual: evaluations.length,
+      };
+    }
+
+    const sorted = [...evaluations].sort(
+      (a, b) => a.created_at.getTime() - b.created_at.getTime()
+    );
+
+    const transitions: LevelTransition[] = [];
+    let previousLevel: string | null = null;
+
+    sorted.forEach((evaluation) => {
+      if (evaluation.overall_level === previousLevel) {
+        return;
+      }
+
+      transitions.push({
+        level: evaluation.overall_level,
+        previousLevel,
+        date: evaluation.created_at.toISOString(),
+        submissionId: evaluation.submission_id,
+        reviewId: evaluation.review_id,
+      });
+      previousLevel = evaluation.overall_level;
+    });
+
+    return { status: "ok", data: transitions };
+  }
+
+  /**
+   * カテゴリごとに、古い半分と新しい半分のフィードバックの対応率を比較
+   * 比較には2件以上のフィードバックが必要なため、1件のみのカテゴリは除外する
+   */
+  private calculateImprovementByType(
+    feedbacks: FeedbackMetricInput[]
+  ): ImprovementMetrics["improvementByType"] {
+    return Array.from(this.groupByCategory(feedbacks).entries())
+      .filter(([, items]) => items.length >= 2)
+      .map(([category, items]) => {
+        const sorted = [...items].sort(
+          (a, b) => a.created_at.getTime() - b.created_at.getTime()
+        );
+        const half = Math.floor(sorted.length / 2);
+        const earlier = sorted.slice(0, half);
+        const later = sorted.slice(half);
+
+        return {
+          category,
+          type: this.getCategoryLabel(category),
+          initial: this.toPercentage(
+            earlier.filter((fb) => this.isResolved(fb)).length,
+            earlier.length
+          ),
+          current: this.toPercentage(
+            later.filter((fb) => this.isResolved(fb)).length,
+            later.length
+          ),
+        };
+      });
+  }
+
+  /**
+   * カテゴリごとの解決までの時間（作成からチェックまで）
+   * チェック日時が記録されていないフィードバックは対象外
+   */
+  private calculateResolutionTime(
+    feedbacks: FeedbackMetricInput[]
+  ): ImprovementMetrics["resolutionTimeByCategory"] {
+    return Array.from(this.groupByCategory(feedbacks).entries())
+      .map(([category, items]) => {
+        const hours = items
+          .filter((fb) => fb.is_checked && fb.checked_at)
+          .map(
+            (fb) =>
+              Math.max(
+                0,
+                (fb.checked_at as Date).getTime() - fb.created_at.getTime()
+              ) / HOUR_MS
+          )
+          .sort((a, b) => a - b);
+
+        return { category, hours };
+      })
+      .filter(({ hours }) => hours.length > 0)
+      .map(({ category, hours }) => ({
+        category,
+        type: this.getCategoryLabel(category),
+        resolvedCount: hours.length,
+        averageHours: this.round(
+          hours.reduce((sum, h) => sum + h, 0) / hours.length
+        ),
+        medianHours: this.round(this.median(hours)),
+      }));
+  }
+
+  /**
+   * 同じカテゴリの指摘が提出をまたいで繰り返されている割合
+   * 最初に指摘された提出より後の提出のうち、再び同じカテゴリの指摘を受けた提出の割合
+   */
+  private calculateRecurrence(
+    feedbacks: FeedbackMetricInput[],
+    submissions: SubmissionMetricInput[]
+  ): ImprovementMetrics["recurrenceByCategory"] {
+    const sortedSubmissions = [...submissions].sort(
+      (a, b) => a.created_at.getTime() - b.created_at.getTime()
+    );
+
+    return Array.from(this.groupByCategory(feedbacks).entries())
+      .map(([category, items]) => {
+        const submissionIds = new Set(items.map((fb) => fb.submission_id));
+        const firstIndex = sortedSubmissions.findIndex((s) =>
+          submissionIds.has(s.id)
+        );
+        const laterSubmissions =
+          firstIndex >= 0 ? sortedSubmissions.slice(firstIndex + 1) : [];
+        const recurred = laterSubmissions.filter((s) =>
+          submissionIds.has(s.id)
+        ).length;
+
+        return {
+          category,
+          type: this.getCategoryLabel(category),
+          occurrences: items.length,
+          submissionCount: submissionIds.size,
+          recurrenceRate: this.toPercentage(recurred, laterSubmissions.length),
+        };
+      })
+      .sort((a, b) => b.recurrenceRate - a.recurrenceRate);
+  }
+
+  /**
+   * フィードバックが作成された月ごとの対応率
+   */
+  private calculateMonthlyResolutionRate(
+    feedbacks: FeedbackMetricInput[]
+  ): ImprovementMetrics["monthlyResolutionRate"] {
+    const monthly = new Map<string, { total: number; resolved: number }>();
+
+    feedbacks.forEach((fb) => {
+      const monthKey = `${fb.created_at.getFullYear()}-${String(
+        fb.created_at.getMonth() + 1
+      ).padStart(2, "0")}`;
+      const entry = monthly.get(monthKey) || { total: 0, resolved: 0 };
+      entry.total++;
+      if (this.isResolved(fb)) {
+        entry.resolved++;
+      }
+      monthly.set(monthKey, entry);
+    });
+
+    return Array.from(monthly.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([month, { total, resolved }]) => ({
+        month,
+        total,
+        resolved,
+        rate: this.toPercentage(resolved, total),
+      }));
+  }
+
+  // 解決済みフラグまたはチェックリストのチェックで対応済みとみなす
+  private isResolved(feedback: FeedbackMetricInput): boolean {
+    return feedback.is_resolved || feedback.is_checked;
+  }
+
+  private groupByCategory(
+    feedbacks: FeedbackMetricInput[]
+  ): Map<string, FeedbackMetricInput[]> {
+    const groups = new Map<string, FeedbackMetricInput[]>();
+    feedbacks.forEach((fb) => {
+      const category = fb.category || "other";
+      groups.set(category, [...(groups.get(category) || []), fb]);
+    });
+    return groups;
+  }
+
+  private getCategoryLabel(category: string): string {
+    return CATEGORY_LABELS[category] || category;
+  }
+
+  private toPercentage(count: number, total: number): number {
+    return total > 0 ? Math.round((count / total) * 100) : 0;
+  }
+
+  private median(sorted: number[]): number {
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0
+      ? (sorted[middle - 1] + sorted[middle]) / 2
+      : sorted[middle];
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+}
@@ -1,10 +1,12 @@
 // backend/src/services/ProgressService.ts
+import { In } from "typeorm";
 import { AppDataSource } from "../index";
 import { User } from "../models/User";
 import { Review } from "../models/Review";
 import { CodeSubmission, SubmissionStatus } from "../models/CodeSubmission";
 import { Feedback, FeedbackPriority } from "../models/Feedback";
 import { Evaluation, SkillLevel } from "../models/Evaluation";
+import { ProgressMetricsService } from "./ProgressMetricsService";
 
 export class ProgressService {
   private userRepository = AppDataSource.getRepository(User);
@@ -12,6 +14,7 @@ export class ProgressService {
   private submissionRepository = AppDataSource.getRepository(CodeSubmission);
   private feedbackRepository = AppDataSource.getRepository(Feedback);
   private evaluationRepository = AppDataSource.getRepository(Evaluation);
+  private progressMetricsService = new ProgressMetricsService();
 
   /**
    * ユーザーの進捗概要を取得
@@ -61,16 +64,30 @@ export class ProgressService {
             bestPractices: 60,
           };
 
-      // 実際のデータがまだ少ない場合は、モックデータも使用
+      // 評価履歴からレベルの推移を算出（評価が不足している場合はその旨を返す）
+      const evaluations = await this.evaluationRepository.find({
+        where: { user_id: userId },
+        relations: ["submission"],
+        order: { created_at: "ASC" },
+      });
+      const levelHistory =
+        this.progressMetricsService.calculateLevelTransitions(
+          evaluations.map((evaluation) => ({
+            overall_level: evaluation.overall_level,
+            created_at: evaluation.created_at,
+            submission_id: evaluation.submission_id,
+            review_id: evaluation.submission?.review_id ?? null,
+          }))
+        );
+
       return {
         userId,
         reviewCount,
         submissionCount,
         currentLevel,
         skillScores,
-        // 実データが揃うまでモックデータを使用
-        levelHistory: await this.getMockLevelHistory(userId),
-        feedbackSummary: await this.getMockFeedbackSummary(userId),
+        levelHistory,
+        feedbackSummary: await this.getUserFeedbackStats(userId),
       };
     } catch (error) {
       console.error("進捗概要取得エラー:", error);
@@ -252,16 +269,13 @@ export class ProgressService {
         where: { review: { user_id: userId } },
       });
 
-      if (submissions.length === 0) {
-        return this.getMockFeedbackSummary(userId);
-      }
-
-      const submissionIds = submissions.map((s) => s.id);
-
       // フィードバックを取得
-      const feedbacks = await this.feedbackRepository.find({
-        where: { submission_id: { $in: submissionIds } as any },
-      });
+      const feedbacks =
+        submissions.length > 0
+          ? await this.feedbackRepository.find({
+              where: { submission_id: In(submissions.map((s) => s.id)) },
+            })
+          : [];
 
       // 優先度別の集計
       const priorityCounts = {
@@ -337,11 +351,15 @@ export class ProgressService {
           { priority: "low", count: priorityCounts.low },
         ],
         typeDistribution,
-        improvement: this.getMockImprovementData(), // 改善データはモック
+        // フィードバックが不足している場合は insufficient_data を返す
+        improvement: this.progressMetricsService.calculateImprovementMetrics(
+          feedbacks,
+          submissions
+        ),
       };
     } catch (error) {
       console.error("フィードバック統計取得エラー:", error);
-      return this.getMockFeedbackSummary(userId);
+      throw error;
     }
   }
 
@@ -363,42 +381,6 @@ export class ProgressService {
     return Math.round(arr.reduce((sum, val) => sum + val, 0) / arr.length);
   }
 
-  /**
-   * モックデータ: レベル履歴
-   */
-  private async getMockLevelHistory(userId: number): Promise<any[]> {
-    // 実際のユーザーIDを使って一貫したモックデータを生成
-    const seed = userId;
-    const startLevel = seed % 5 === 0 ? "D" : seed % 3 === 0 ? "C" : "E";
-
-    const history = [];
-    let currentLevel = startLevel;
-
-    // 過去5回分のレベル変化をシミュレート
-    for (let i = 0; i < 5; i++) {
-      if (currentLevel === "E" && Math.random() > 0.3) {
-        currentLevel = "D";
-      } else if (currentLevel === "D" && Math.random() > 0.4) {
-        currentLevel = "C";
-      } else if (currentLevel === "C" && Math.random() > 0.6) {
-        currentLevel = "B";
-      } else if (currentLevel === "B" && Math.random() > 0.8) {
-        currentLevel = "A";
-      }
-
-      const date = new Date();
-      date.setMonth(date.getMonth() - (4 - i));
-
-      history.push({
-        level: currentLevel,
-        date: date.toISOString(),
-        reviewId: 1000 + i,
-      });
-    }
-
-    return history;
-  }
-
   /**
    * モックデータ: レビュー履歴
    */
@@ -536,59 +518,4 @@ export class ProgressService {
 
     return result;
   }
-
-  /**
-   * モックデータ: フィードバック概要
-   */
-  private async getMockFeedbackSummary(userId: number): Promise<any> {
-    // ユーザーIDを使って一貫したデータを生成
-    const seed = userId;
-    const totalFeedbacks = 30 + (seed % 20);
-    const resolvedFeedbacks = Math.floor(totalFeedbacks * 0.7);
-
-    return {
-      totalFeedbacks,
-      priorityDistribution: [
-        { priority: "high", count: Math.floor(totalFeedbacks * 0.2) },
-        { priority: "medium", count: Math.floor(totalFeedbacks * 0.5) },
-        {
-          priority: "low",
-          count:
-            totalFeedbacks -
-            Math.floor(totalFeedbacks * 0.2) -
-            Math.floor(totalFeedbacks * 0.5),
-        },
-      ],
-      typeDistribution: [
-        { type: "コードスタイル", count: Math.floor(totalFeedbacks * 0.25) },
-        { type: "命名規則", count: Math.floor(totalFeedbacks * 0.15) },
-        { type: "パフォーマンス", count: Math.floor(totalFeedbacks * 0.15) },
-        { type: "エラーハンドリング", count: Math.floor(totalFeedbacks * 0.1) },
-        { type: "セキュリティ", count: Math.floor(totalFeedbacks * 0.1) },
-        { type: "ドキュメント", count: Math.floor(totalFeedbacks * 0.1) },
-        { type: "テスト", count: Math.floor(totalFeedbacks * 0.1) },
-        {
-          type: "その他",
-          count: totalFeedbacks - Math.floor(totalFeedbacks * 0.95),
-        },
-      ],
-      improvement: this.getMockImprovementData(),
-    };
-  }
-
-  /**
-   * モックデータ: 改善状況
-   */
-  private getMockImprovementData(): any {
-    return {
-      resolvedRate: 75,
-      improvementByType: [
-        { type: "コードスタイル", initial: 10, current: 85 },
-        { type: "命名規則", initial: 20, current: 80 },
-        { type: "パフォーマンス", initial: 15, current: 65 },
-        { type: "エラーハンドリング", initial: 10, current: 70 },
-        { type: "セキュリティ", initial: 5, current: 60 },
-      ],
-    };
-  }
 }
@@ -0,0 +1,264 @@
+// backend/src/services/PullRequestDiffAnchorService.ts
+
+/**
+ * 差分パッチ中でコメント可能な変更後（RIGHT側）の行
+ */
+export interface DiffLine {
+  line: number; // 変更後ファイルの行番号
+  content: string;
+  isAdded: boolean;
+  hunkIndex: number;
+}
+
+/**
+ * PRレビューコメントを付与する位置
+ * startLine がある場合は複数行コメントになる
+ */
+export interface DiffAnchor {
+  path: string;
+  line: number;
+  startLine?: number;
+}
+
+/**
+ * スニペットと行単位で完全に一致した差分上の範囲
+ */
+export interface ExactDiffRange extends DiffAnchor {
+  lines: DiffLine[];
+}
+
+export interface PatchedFile {
+  filePath: string;
+  status?: string;
+  patch?: string;
+}
+
+// 照合に使う最小文字数（"}" や "return;" などの誤一致を避ける）
+const MIN_SINGLE_LINE_LENGTH = 12;
+
+/**
+ * GitHubの差分ハンクを解析し、フィードバックのコードスニペットに対応する行を特定するサービス
+ * DBやAPIに依存しないため、GitHubへ送信する前の位置計算だけを担当する
+ */
+export class PullRequestDiffAnchorService {
+  /**
+   * パッチを解析してコメント可能な行（追加行と文脈行）を取得
+   */
+  parsePatch(patch: string): DiffLine[] {
+    const lines: DiffLine[] = [];
+    let currentLine = 0;
+    let hunkIndex = -1;
+
+    for (const rawLine of patch.split("\n")) {
+      const hunkHeader = rawLine.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+      if (hunkHeader) {
+        currentLine = parseInt(hunkHeader[1]);
+        hunkIndex++;
+        continue;
+      }
+
+      // 最初のハンクより前の行や "\ No newline at end of file" は対象外
+      if (hunkIndex < 0 || rawLine.startsWith("\\")) {
+        continue;
+      }
+
+      if (rawLine.startsWith("-")) {
+        continue;
+      }
+
+      lines.push({
+        line: currentLine,
+        content: rawLine.substring(1),
+        isAdded: rawLine.startsWith("+"),
+        hunkIndex,
+      });
+      currentLine++;
+    }
+
+    return lines;
+  }
+
+  /**
+   * コードスニペットに一致する差分上の位置を探す
+   * スニペット全体が連続して一致する箇所を優先し、見つからなければ特徴的な1行で照合する
+   */
+  findAnchor(codeSnippet: string, files: PatchedFile[]): DiffAnchor | null {
+    const snippetLines = this.normalizeSnippet(codeSnippet);
+    if (snippetLines.join("").length < MIN_SINGLE_LINE_LENGTH) {
+      return null;
+    }
+
+    const candidates = files
+      .filter((file) => file.patch && file.status !== "removed")
+      .map((file) => ({
+        path: file.filePath,
+        lines: this.parsePatch(file.patch as string).filter(
+          (line) => line.content.trim() !== ""
+        ),
+      }));
+
+    // スニペット全体の一致（追加行を含む箇所を優先）
+    let fallbackMatch: DiffAnchor | null = null;
+    for (const candidate of candidates) {
+      for (const match of this.findSequence(candidate.lines, snippetLines)) {
+        const anchor = {
+          path: candidate.path,
+          line: match[match.length - 1].line,
+          startLine: match.length > 1 ? match[0].line : undefined,
+        };
+        if (match.some((line) => line.isAdded)) {
+          return anchor;
+        }
+        fallbackMatch = fallbackMatch || anchor;
+      }
+    }
+    if (fallbackMatch) {
+      return fallbackMatch;
+    }
+
+    // 特徴的な1行での一致（差分全体で一意に決まる場合のみ）
+    for (const snippetLine of snippetLines) {
+      if (snippetLine.length < MIN_SINGLE_LINE_LENGTH) {
+        continue;
+      }
+
+      const matches = candidates.flatMap((candidate) =>
+        candidate.lines
+          .filter((line) => this.normalizeLine(line.content) === snippetLine)
+          .map((line) => ({ path: candidate.path, line: line.line }))
+      );
+      if (matches.length === 1) {
+        return matches[0];
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * スニペットと行単位で完全に一致する範囲を探す（提案ブロックで置き換える範囲の検証用）
+   * 空行を含めて連続して一致し、差分全体で一箇所に決まる場合のみ返す
+   */
+  findExactRange(
+    codeSnippet: string,
+    files: PatchedFile[]
+  ): ExactDiffRange | null {
+    const snippetLines = this.stripCodeFence(codeSnippet).map((line) =>
+      this.normalizeLine(line)
+    );
+    if (snippetLines.join("").length < MIN_SINGLE_LINE_LENGTH) {
+      return null;
+    }
+
+    const matches: ExactDiffRange[] = [];
+    for (const file of files) {
+      if (!file.patch || file.status === "removed") {
+        continue;
+      }
+
+      const lines = this.parsePatch(file.patch);
+      for (const match of this.findSequence(lines, snippetLines)) {
+        matches.push({
+          path: file.filePath,
+          line: match[match.length - 1].line,
+          startLine: match.length > 1 ? match[0].line : undefined,
+          lines: match,
+        });
+      }
+    }
+
+    return matches.length === 1 ? matches[0] : null;
+  }
+
+  /**
+   * 修正後のコードのインデントを置き換え対象の行に揃える
+   * AIが先頭のインデントを省略して返すことが多いため、不足分だけを各行に補う
+   */
+  alignIndentation(suggestedCode: string, originalLines: DiffLine[]): string {
+    const suggestedLines = this.stripCodeFence(suggestedCode);
+    const getIndent = (line: string) => line.match(/^\s*/)?.[0] || "";
+
+    const originalFirst = originalLines.find((l) => l.content.trim() !== "");
+    const suggestedFirst = suggestedLines.find((line) => line.trim() !== "");
+    if (!originalFirst || !suggestedFirst) {
+      return suggestedLines.join("\n");
+    }
+
+    const originalIndent = getIndent(originalFirst.content);
+    const suggestedIndent = getIndent(suggestedFirst);
+    if (
+      suggestedIndent.length >= originalIndent.length ||
+      !originalIndent.endsWith(suggestedIndent)
+    ) {
+      return suggestedLines.join("\n");
+    }
+
+    const delta = originalIndent.substring(
+      0,
+      originalIndent.length - suggestedIndent.length
+    );
+    return suggestedLines
+      .map((line) => (line.trim() === "" ? line : delta + line))
+      .join("\n");
+  }
+
+  /**
+   * 同じハンク内で連続して一致する行の並びを列挙
+   */
+  private findSequence(
+    lines: DiffLine[],
+    snippetLines: string[]
+  ): DiffLine[][] {
+    const matches: DiffLine[][] = [];
+
+    for (let i = 0; i + snippetLines.length <= lines.length; i++) {
+      const window = lines.slice(i, i + snippetLines.length);
+      const isMatch = window.every(
+        (line, index) =>
+          line.hunkIndex === window[0].hunkIndex &&
+          this.normalizeLine(line.content) === snippetLines[index]
+      );
+      if (isMatch) {
+        matches.push(window);
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * スニペットを照合用に正規化（コードフェンス・差分記号・省略記号・空行を除去）
+   */
+  private normalizeSnippet(codeSnippet: string): string[] {
+    return this.stripCodeFence(codeSnippet)
+      .map((line) => line.replace(/^\+(?!\+)/, ""))
+      .map((line) => this.normalizeLine(line))
+      .filter(
+        (line) =>
+          line !== "" && !/^(\/\/|#)?\s*(\.\.\.|…)+\s*(\(.*\))?$/.test(line)
+      );
+  }
+
+  /**
+   * コードフェンスと前後の空行を取り除いて行に分割
+   */
+  private stripCodeFence(code: string): string[] {
+    const lines = code
+      .replace(/\r\n/g, "\n")
+      .split("\n")
+      .filter((line) => !line.trim().startsWith("```"));
+
+    while (lines.length > 0 && lines[0].trim() === "") {
+      lines.shift();
+    }
+    while (lines.length > 0 && lines[lines.length - 1].trim() === "") {
+      lines.pop();
+    }
+
+    return lines;
+  }
+
+  private normalizeLine(line: string): string {
+    return line.trim().replace(/\s+/g, " ");
+  }
+}
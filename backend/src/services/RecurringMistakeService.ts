@@ -0,0 +1,164 @@
+// backend/src/services/RecurringMistakeService.ts
+import crypto from "crypto";
+import { In } from "typeorm";
+import { AppDataSource } from "../index";
+import { Feedback } from "../models/Feedback";
+import { FeedbackEmbedding } from "../models/FeedbackEmbedding";
+import { CodeEmbeddingService } from "./CodeEmbeddingService";
+import {
+  ClusterableFeedback,
+  FeedbackClusteringService,
+  RecurringIssue,
+} from "./FeedbackClusteringService";
+
+// 一度にベクトル化するフィードバックの件数
+const EMBEDDING_BATCH_SIZE = 50;
+// ベクトル化するコードスニペットの最大文字数
+const MAX_SNIPPET_LENGTH = 500;
+
+/**
+ * 研修生が過去のレビューで繰り返し指摘されている問題を検出するサービス
+ */
+export class RecurringMistakeService {
+  private feedbackRepository = AppDataSource.getRepository(Feedback);
+  private feedbackEmbeddingRepository =
+    AppDataSource.getRepository(FeedbackEmbedding);
+  private codeEmbeddingService = new CodeEmbeddingService();
+  private clusteringService = new FeedbackClusteringService();
+
+  /**
+   * ユーザーの繰り返し指摘を取得
+   */
+  async getRecurringMistakes(userId: number): Promise<RecurringIssue[]> {
+    const feedbacks = await this.getUserFeedbacks(userId);
+    if (feedbacks.length === 0) {
+      return [];
+    }
+
+    const embeddings = await this.ensureEmbeddings(userId, feedbacks);
+
+    const clusterable: ClusterableFeedback[] = feedbacks.flatMap((feedback) => {
+      const embedding = embeddings.get(feedback.id);
+      if (!embedding) {
+        return [];
+      }
+      return [
+        {
+          feedback_id: feedback.id,
+          submission_id: feedback.submission_id,
+          review_id: feedback.submission.review_id,
+          category: feedback.category,
+          priority: feedback.priority,
+          problem_point: feedback.problem_point,
+          created_at: feedback.created_at,
+          embedding,
+        },
+      ];
+    });
+
+    return this.clusteringService.findRecurringIssues(clusterable);
+  }
+
+  /**
+   * AIレビューのプロンプトに含める繰り返し指摘の説明を取得
+   * 検出に失敗してもレビューは続行できるよう、エラー時は空文字を返す
+   */
+  async getPromptContext(userId: number): Promise<string> {
+    try {
+      const issues = await this.getRecurringMistakes(userId);
+      return this.clusteringService.formatPromptContext(issues);
+    } catch (error) {
+      console.error("繰り返し指摘の検出中にエラーが発生しました:", error);
+      return "";
+    }
+  }
+
+  /**
+   * ユーザーが受けた問題の指摘を取得
+   * AIが「基準を満たしている」と判定したフィードバック（システムによるチェック済み）は除外する
+   */
+  private async getUserFeedbacks(userId: number): Promise<Feedback[]> {
+    return this.feedbackRepository
+      .createQueryBuilder("feedback")
+      .innerJoinAndSelect("feedback.submission", "submission")
+      .innerJoin("submission.review", "review")
+      .where("review.user_id = :userId", { userId })
+      .andWhere("(feedback.checked_by IS NULL OR feedback.checked_by <> 0)")
+      .orderBy("feedback.created_at", "ASC")
+      .getMany();
+  }
+
+  /**
+   * フィードバックのベクトルを取得し、未計算・内容が変わったものだけをベクトル化して保存
+   */
+  private async ensureEmbeddings(
+    userId: number,
+    feedbacks: Feedback[]
+  ): Promise<Map<number, number[]>> {
+    const model = this.codeEmbeddingService.getEmbeddingModelName();
+    const stored = await this.feedbackEmbeddingRepository.find({
+      where: { feedback_id: In(feedbacks.map((f) => f.id)) },
+    });
+    const storedByFeedbackId = new Map(stored.map((e) => [e.feedback_id, e]));
+
+    const result = new Map<number, number[]>();
+    const pending: { feedback: Feedback; text: string; hash: string }[] = [];
+
+    feedbacks.forEach((feedback) => {
+      const text = this.toEmbeddingText(feedback);
+      const hash = crypto.createHash("sha256").update(text).digest("hex");
+      const existing = storedByFeedbackId.get(feedback.id);
+
+      if (
+        existing &&
+        existing.content_hash === hash &&
+        existing.model === model
+      ) {
+        result.set(feedback.id, JSON.parse(existing.embedding));
+      } else {
+        pending.push({ feedback, text, hash });
+      }
+    });
+
+    for (let i = 0; i < pending.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = pending.slice(i, i + EMBEDDING_BATCH_SIZE);
+      const vectors = await this.codeEmbeddingService.embedTexts(
+        batch.map((item) => item.text)
+      );
+
+      const entities = batch.map((item, index) => {
+        const entity =
+          storedByFeedbackId.get(item.feedback.id) ||
+          this.feedbackEmbeddingRepository.create({
+            feedback_id: item.feedback.id,
+          });
+        entity.user_id = userId;
+        entity.content_hash = item.hash;
+        entity.embedding = JSON.stringify(vectors[index]);
+        entity.model = model;
+        result.set(item.feedback.id, vectors[index]);
+        return entity;
+      });
+
+      await this.feedbackEmbeddingRepository.save(entities);
+    }
+
+    if (pending.length > 0) {
+      console.log(
+        `ユーザー #${userId} のフィードバック ${pending.length} 件をベクトル化しました`
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * ベクトル化するテキスト（問題点と該当コード）
+   */
+  private toEmbeddingText(feedback: Feedback): string {
+    const snippet = feedback.code_snippet
+      ? `\n${feedback.code_snippet.substring(0, MAX_SNIPPET_LENGTH)}`
+      : "";
+    return `${feedback.problem_point}${snippet}`;
+  }
+}
@@ -0,0 +1,103 @@
+// backend/src/services/RepositoryContextBuilder.ts
+import { Document } from "@langchain/core/documents";
+
+// 関連コードを検索する変更ファイル数の上限
+const DEFAULT_MAX_FILES = 5;
+// プロンプトに含める関連コードの上限
+const DEFAULT_MAX_SNIPPETS = 5;
+// 1件の関連コードとしてプロンプトに含める文字数の上限
+const SNIPPET_MAX_LENGTH = 800;
+
+/**
+ * 関連コードの検索に使用するベクトル検索（RepositoryVectorSearchService）
+ */
+export interface RepositoryCodeSearch {
+  isCollectionIndexed(collectionName: string): Promise<boolean>;
+  searchSimilarCodeForDiff(
+    collectionName: string,
+    diffContent: string,
+    limit: number
+  ): Promise<{ document: Document; score: number }[]>;
+  formatSourceLocation(metadata: Record<string, any> | undefined): string;
+}
+
+/**
+ * PRで変更されたファイル（GitHubの差分データの changedFiles）
+ */
+export interface RepositoryChangedFile {
+  filePath: string;
+  status?: string;
+  patch?: string;
+}
+
+/**
+ * PRの変更内容に類似するベースブランチのコードを検索し、レビュー用のプロンプトに含める文字列を構築する
+ */
+export class RepositoryContextBuilder {
+  constructor(
+    private search: RepositoryCodeSearch,
+    private maxFiles: number = DEFAULT_MAX_FILES,
+    private maxSnippets: number = DEFAULT_MAX_SNIPPETS
+  ) {}
+
+  /**
+   * 関連コードのプロンプトを構築
+   * インデックスが未作成の場合や関連コードが見つからない場合は空文字を返す
+   */
+  async build(
+    collectionName: string,
+    changedFiles: RepositoryChangedFile[]
+  ): Promise<string> {
+    if (!(await this.search.isCollectionIndexed(collectionName))) {
+      console.log(
+        `コレクション ${collectionName} はインデックスが未作成のため、関連コードを参照しません`
+      );
+      return "";
+    }
+
+    // 変更対象のファイル自身（変更前の内容）は関連コードから除外する
+    const changedPaths = new Set(changedFiles.map((file) => file.filePath));
+    const seen = new Set<string>();
+    const snippets: { location: string; symbols: string; content: string }[] =
+      [];
+
+    for (const file of changedFiles
+      .filter((file) => file.patch && file.status !== "removed")
+      .slice(0, this.maxFiles)) {
+      const results = await this.search.searchSimilarCodeForDiff(
+        collectionName,
+        file.patch!,
+        2
+      );
+
+      results.forEach(({ document }) => {
+        const source = String(document.metadata?.source || "");
+        const key = `${source}#${document.metadata?.chunk || 1}`;
+        if (!source || changedPaths.has(source) || seen.has(key)) {
+          return;
+        }
+        seen.add(key);
+        snippets.push({
+          location: this.search.formatSourceLocation(document.metadata),
+          symbols: document.metadata?.symbols || "",
+          content: document.pageContent,
+        });
+      });
+    }
+
+    return snippets
+      .slice(0, this.maxSnippets)
+      .map(
+        (snippet, index) =>
+          `## 関連コード ${index + 1}: ${snippet.location}${
+            snippet.symbols ? ` (${snippet.symbols})` : ""
+          }\n\n\`\`\`\n${
+            snippet.content.length > SNIPPET_MAX_LENGTH
+              ? snippet.content.substring(0, SNIPPET_MAX_LENGTH) +
+                "...(省略)..."
+              : snippet.content
+          }\n\`\`\``
+      )
+      .join("\n\n");
+  }
+}
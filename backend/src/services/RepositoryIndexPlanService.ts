@@ -0,0 +1,82 @@
+// backend/src/services/RepositoryIndexPlanService.ts
+
+/**
+ * インデックス対象のファイル（パスと内容のハッシュ）
+ */
+export interface IndexableFile {
+  path: string;
+  hash: string;
+}
+
+/**
+ * 差分インデックスの更新計画
+ */
+export interface RepositoryIndexPlan {
+  added: string[]; // 新たに登録するファイル
+  changed: string[]; // 内容が変わり再登録するファイル
+  removed: string[]; // リポジトリから削除されベクトルを消すファイル
+  unchanged: string[]; // 変更がなくそのまま残すファイル
+}
+
+/**
+ * リポジトリの現在のファイルと登録済みのファイルを比較し、
+ * ベクトルインデックスの差分更新の計画を立てるサービス
+ */
+export class RepositoryIndexPlanService {
+  /**
+   * 差分更新の計画を作成
+   * @param current リポジトリの現在のファイル
+   * @param indexed インデックスに登録済みのファイル
+   */
+  planUpdate(
+    current: IndexableFile[],
+    indexed: IndexableFile[]
+  ): RepositoryIndexPlan {
+    const indexedHashes = new Map(
+      indexed.map((file) => [file.path, file.hash])
+    );
+    const currentPaths = new Set(current.map((file) => file.path));
+
+    const plan: RepositoryIndexPlan = {
+      added: [],
+      changed: [],
+      removed: [],
+      unchanged: [],
+    };
+
+    current.forEach((file) => {
+      const indexedHash = indexedHashes.get(file.path);
+      if (indexedHash === undefined) {
+        plan.added.push(file.path);
+      } else if (indexedHash !== file.hash) {
+        plan.changed.push(file.path);
+      } else {
+        plan.unchanged.push(file.path);
+      }
+    });
+
+    indexed.forEach((file) => {
+      if (!currentPaths.has(file.path)) {
+        plan.removed.push(file.path);
+      }
+    });
+
+    (Object.keys(plan) as (keyof RepositoryIndexPlan)[]).forEach((key) =>
+      plan[key].sort()
+    );
+
+    return plan;
+  }
+
+  /**
+   * ベクトルストアに登録するドキュメントのID
+   * 同じファイル・チャンクには常に同じIDを割り当て、差し替えや削除に使用する
+   */
+  buildVectorId(
+    collectionName: string,
+    filePath: string,
+    chunkIndex: number
+  ): string {
+    return `${collectionName}:${filePath}#${chunkIndex}`;
+  }
+}
@@ -0,0 +1,165 @@
+// backend/src/services/RepositoryIndexUpdater.ts
+import { Document } from "@langchain/core/documents";
+import { RepositoryIndexedFile } from "../models/RepositoryIndexedFile";
+import {
+  RepositoryIndexPlan,
+  RepositoryIndexPlanService,
+} from "./RepositoryIndexPlanService";
+import { CodeChunkingService } from "./CodeChunkingService";
+
+// 一度にベクトルストアへ登録するファイル数
+const INDEX_FILE_BATCH_SIZE = 20;
+
+/**
+ * インデックス対象として読み込んだファイル
+ */
+export interface RepositoryFile {
+  path: string;
+  extension: string;
+  content: string;
+  hash: string;
+}
+
+/**
+ * 登録済みファイルの保存先（repository_indexed_files テーブル）
+ */
+export interface IndexedFileStore {
+  create(collectionName: string, filePath: string): RepositoryIndexedFile;
+  save(files: RepositoryIndexedFile[]): Promise<unknown>;
+  remove(files: RepositoryIndexedFile[]): Promise<unknown>;
+}
+
+/**
+ * 差分更新に使用するベクトルストアの操作
+ */
+export interface IndexVectorStore {
+  addDocuments(
+    documents: Document[],
+    options: { ids: string[] }
+  ): Promise<unknown>;
+  delete(params: { ids: string[] }): Promise<void>;
+}
+
+/**
+ * リポジトリの現在のファイルと登録済みのファイルを比較し、
+ * 追加・変更されたファイルの登録と変更・削除されたファイルの古いベクトルの削除を行う
+ */
+export class RepositoryIndexUpdater {
+  private indexPlanService = new RepositoryIndexPlanService();
+  private chunkingService = new CodeChunkingService();
+
+  constructor(private fileStore: IndexedFileStore) {}
+
+  /**
+   * コミット時点のファイルでインデックスを差分更新
+   * @param rechunk チャンク分割方式が変わった場合は true（すべてのファイルを登録し直す）
+   */
+  async applyUpdate(options: {
+    collectionName: string;
+    commitSha: string;
+    vectorStore: IndexVectorStore;
+    files: RepositoryFile[];
+    indexedFiles: RepositoryIndexedFile[];
+    rechunk: boolean;
+  }): Promise<RepositoryIndexPlan> {
+    const { collectionName, commitSha, vectorStore, files, indexedFiles } =
+      options;
+
+    const plan = this.indexPlanService.planUpdate(
+      files.map((file) => ({ path: file.path, hash: file.hash })),
+      indexedFiles.map((file) => ({
+        path: file.file_path,
+        hash: options.rechunk ? "" : file.content_hash,
+      }))
+    );
+    console.log(
+      `インデックス更新計画: 追加 ${plan.added.length}件, 変更 ${plan.changed.length}件, 削除 ${plan.removed.length}件, 変更なし ${plan.unchanged.length}件`
+    );
+
+    // 変更・削除されたファイルの古いベクトルを削除
+    const indexedByPath = new Map(
+      indexedFiles.map((file) => [file.file_path, file])
+    );
+    const staleIds = [...plan.changed, ...plan.removed].flatMap(
+      (filePath) =>
+        JSON.parse(indexedByPath.get(filePath)!.vector_ids) as string[]
+    );
+    if (staleIds.length > 0) {
+      await vectorStore.delete({ ids: staleIds });
+      console.log(
+        `ベクトルストアから${staleIds.length}個の古いドキュメントを削除しました`
+      );
+    }
+    if (plan.removed.length > 0) {
+      await this.fileStore.remove(
+        plan.removed.map((filePath) => indexedByPath.get(filePath)!)
+      );
+    }
+
+    // 追加・変更されたファイルを登録
+    const filesByPath = new Map(files.map((file) => [file.path, file]));
+    const targets = [...plan.added, ...plan.changed].map(
+      (filePath) => filesByPath.get(filePath)!
+    );
+
+    for (let i = 0; i < targets.length; i += INDEX_FILE_BATCH_SIZE) {
+      const batch = targets.slice(i, i + INDEX_FILE_BATCH_SIZE);
+      const documents: Document[] = [];
+      const ids: string[] = [];
+
+      const entities = batch.map((file) => {
+        const fileDocuments = this.buildFileDocuments(file);
+        const fileIds = fileDocuments.map((_, index) =>
+          this.indexPlanService.buildVectorId(collectionName, file.path, index)
+        );
+        documents.push(...fileDocuments);
+        ids.push(...fileIds);
+
+        const entity =
+          indexedByPath.get(file.path) ||
+          this.fileStore.create(collectionName, file.path);
+        entity.content_hash = file.hash;
+        entity.chunk_count = fileDocuments.length;
+        entity.vector_ids = JSON.stringify(fileIds);
+        entity.commit_sha = commitSha;
+        return entity;
+      });
+
+      if (documents.length > 0) {
+        await vectorStore.addDocuments(documents, { ids });
+      }
+      await this.fileStore.save(entities);
+      console.log(
+        `ベクトルストアに${documents.length}個のドキュメントを追加しました (${
+          i + batch.length
+        }/${targets.length}ファイル)`
+      );
+    }
+
+    return plan;
+  }
+
+  /**
+   * ファイルをベクトルストアに登録するドキュメントに変換
+   * 関数・クラスの境界で分割し、シンボル名と行範囲をメタデータに含める
+   */
+  buildFileDocuments(file: RepositoryFile): Document[] {
+    const chunks = this.chunkingService.chunk(file.content, file.extension);
+    return chunks.map(
+      (chunk, index) =>
+        new Document({
+          pageContent: chunk.content,
+          metadata: {
+            source: file.path,
+            chunk: index + 1,
+            totalChunks: chunks.length,
+            extension: file.extension,
+            startLine: chunk.startLine,
+            endLine: chunk.endLine,
+            symbols: chunk.symbols.join(", "),
+            chunkStrategy: chunk.strategy,
+          },
+        })
+    );
+  }
+}
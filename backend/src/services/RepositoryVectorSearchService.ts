@@ -1,11 +1,24 @@
 // backend/src/services/RepositoryVectorSearchService.ts
 import { AppDataSource } from "../index";
 import { Document } from "@langchain/core/documents";
-import { Chroma } from "@langchain/community/vectorstores/chroma";
-import { OpenAIEmbeddings } from "@langchain/openai";
+import { VectorStore } from "@langchain/core/vectorstores";
 import { BacklogService } from "./BacklogService";
+import { GitHubService } from "./GitHubService";
 import { CodeEmbedding } from "../models/CodeEmbedding";
 import { CodeSubmission } from "../models/CodeSubmission";
+import { RepositoryIndexedFile } from "../models/RepositoryIndexedFile";
+import {
+  RepositoryIndexState,
+  RepositoryIndexStatus,
+} from "../models/RepositoryIndexState";
+import {
+  RepositoryFile,
+  RepositoryIndexUpdater,
+} from "./RepositoryIndexUpdater";
+import { CODE_CHUNKING_VERSION } from "./CodeChunkingService";
+import { EmbeddingProviderRegistry } from "./EmbeddingProviderRegistry";
+import { VectorStoreFactory } from "./VectorStoreFactory";
+import * as crypto from "crypto";
 import * as fs from "fs";
 import * as path from "path";
 import { promisify } from "util";
@@ -14,19 +27,67 @@ const readFilePromise = promisify(fs.readFile);
 const writeFilePromise = promisify(fs.writeFile);
 const mkdirPromise = promisify(fs.mkdir);
 
+// インデックス対象の拡張子
+const SUPPORTED_EXTENSIONS = [
+  ".js",
+  ".ts",
+  ".jsx",
+  ".tsx",
+  ".py",
+  ".java",
+  ".c",
+  ".cpp",
+  ".cs",
+  ".php",
+  ".rb",
+  ".go",
+  ".swift",
+  ".kt",
+  ".html",
+  ".css",
+  ".scss",
+  ".json",
+  ".md",
+  ".txt",
+];
+
+/**
+ * インデックスを作成するリポジトリの取得方法
+ */
+interface RepositorySource {
+  collectionName: string;
+  projectKey: string;
+  repositoryName: string;
+  branch: string;
+  clone: () => Promise<string>;
+  getHeadCommitSha: (repoDir: string) => Promise<string>;
+  cleanup: (repoDir: string) => Promise<void>;
+}
+
 export class RepositoryVectorSearchService {
-  private embeddings: OpenAIEmbeddings;
   private backlogService: BacklogService;
   private codeEmbeddingRepository = AppDataSource.getRepository(CodeEmbedding);
   private submissionRepository = AppDataSource.getRepository(CodeSubmission);
+  private indexStateRepository =
+    AppDataSource.getRepository(RepositoryIndexState);
+  private indexedFileRepository = AppDataSource.getRepository(
+    RepositoryIndexedFile
+  );
+  private indexUpdater = new RepositoryIndexUpdater({
+    create: (collectionName, filePath) =>
+      this.indexedFileRepository.create({
+        collection_name: collectionName,
+        file_path: filePath,
+      }),
+    save: (files) => this.indexedFileRepository.save(files),
+    remove: (files) => this.indexedFileRepository.remove(files),
+  });
+  private embeddingRegistry = EmbeddingProviderRegistry.getInstance();
+  private vectorStoreFactory = new VectorStoreFactory();
   private vectorStoreDirectory = path.join(__dirname, "../../vector-db");
   private tempDirectory = path.join(__dirname, "../../temp");
 
   constructor() {
-    this.embeddings = new OpenAIEmbeddings({
-      openAIApiKey: process.env.OPENAI_API_KEY,
-      modelName: "text-embedding-ada-002",
-    });
     this.backlogService = new BacklogService();
 
     // ディレクトリが存在しない場合は作成
@@ -55,60 +116,259 @@ export class RepositoryVectorSearchService {
   }
 
   /**
-   * リポジトリのコードをベクトル化
+   * コレクション名を構築
    */
-  async vectorizeRepository(
+  getCollectionName(
     projectKey: string,
     repositoryName: string,
     branch: string = "master"
-  ): Promise<string> {
-    const collectionName = `${projectKey}_${repositoryName}_${branch}`.replace(
+  ): string {
+    return `${projectKey}_${repositoryName}_${branch}`.replace(
       /[^a-zA-Z0-9_]/g,
       "_"
     );
+  }
+
+  /**
+   * リポジトリのインデックス状態を取得
+   */
+  async getIndexStatus(
+    projectKey: string,
+    repositoryName: string,
+    branch: string = "master"
+  ): Promise<RepositoryIndexState | null> {
+    return this.indexStateRepository.findOne({
+      where: {
+        collection_name: this.getCollectionName(
+          projectKey,
+          repositoryName,
+          branch
+        ),
+      },
+    });
+  }
+
+  /**
+   * GitHubリポジトリのコレクション名を構築
+   * Backlogのプロジェクトキーと衝突しないよう接頭辞を付ける
+   */
+  getGitHubCollectionName(
+    owner: string,
+    repositoryName: string,
+    branch: string
+  ): string {
+    return `github_${owner}_${repositoryName}_${branch}`.replace(
+      /[^a-zA-Z0-9_]/g,
+      "_"
+    );
+  }
+
+  /**
+   * コレクションに現在の埋め込みモデルで作成したインデックスがあるか確認
+   */
+  async isCollectionIndexed(collectionName: string): Promise<boolean> {
+    const state = await this.indexStateRepository.findOne({
+      where: { collection_name: collectionName },
+    });
+    if (!state || !state.last_succeeded_at || state.file_count === 0) {
+      return false;
+    }
+    if (!this.isBuiltWithCurrentEmbedding(state)) {
+      console.warn(
+        `コレクション ${collectionName} は別の埋め込みモデル（${state.embedding_model} / ${state.vector_store}）で作成されているため、再作成するまで検索に使用しません`
+      );
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * インデックスが現在の埋め込みモデル・ベクトルストアで作成されたものか
+   * モデルが異なるベクトルは比較できないため、一致しない場合は作り直す必要がある
+   */
+  isBuiltWithCurrentEmbedding(state: RepositoryIndexState): boolean {
+    return (
+      state.embedding_model === this.embeddingRegistry.getModelId() &&
+      state.vector_store === this.embeddingRegistry.getVectorStoreBackend()
+    );
+  }
+
+  /**
+   * リポジトリのコードをベクトル化
+   */
+  async vectorizeRepository(
+    projectKey: string,
+    repositoryName: string,
+    branch: string = "master"
+  ): Promise<string> {
+    return this.indexRepository({
+      collectionName: this.getCollectionName(
+        projectKey,
+        repositoryName,
+        branch
+      ),
+      projectKey,
+      repositoryName,
+      branch,
+      // 履歴は不要なため浅いクローン
+      clone: () =>
+        this.backlogService.cloneRepository(
+          projectKey,
+          repositoryName,
+          branch,
+          true
+        ),
+      getHeadCommitSha: (repoDir) =>
+        this.backlogService.getHeadCommitSha(repoDir),
+      cleanup: (repoDir) => this.backlogService.cleanupRepository(repoDir),
+    });
+  }
+
+  /**
+   * GitHubリポジトリのコードをベクトル化
+   */
+  async vectorizeGitHubRepository(
+    owner: string,
+    repositoryName: string,
+    branch: string,
+    accessToken: string
+  ): Promise<string> {
+    const githubService = new GitHubService();
+    githubService.initializeWithToken(accessToken);
+
+    return this.indexRepository({
+      collectionName: this.getGitHubCollectionName(
+        owner,
+        repositoryName,
+        branch
+      ),
+      projectKey: owner,
+      repositoryName,
+      branch,
+      clone: () => githubService.cloneRepository(owner, repositoryName, branch),
+      getHeadCommitSha: (repoDir) => githubService.getHeadCommitSha(repoDir),
+      cleanup: (repoDir) => githubService.cleanupRepository(repoDir),
+    });
+  }
+
+  /**
+   * リポジトリのコードをインデックスに登録
+   * 前回のインデックス作成以降に追加・変更されたファイルだけを登録し、
+   * 削除されたファイルのベクトルはコレクションから取り除く
+   */
+  private async indexRepository(source: RepositorySource): Promise<string> {
+    const { collectionName, projectKey, repositoryName, branch } = source;
     console.log(
       `リポジトリをベクトル化: ${projectKey}/${repositoryName} (${branch}) → コレクション ${collectionName}`
     );
 
+    // インデックス状態を実行中にする
+    const state =
+      (await this.indexStateRepository.findOne({
+        where: { collection_name: collectionName },
+      })) ||
+      this.indexStateRepository.create({
+        collection_name: collectionName,
+        project_key: projectKey,
+        repository_name: repositoryName,
+        branch,
+      });
+    const previousStatus = state.status;
+    state.status = RepositoryIndexStatus.RUNNING;
+    state.last_run_at = new Date();
+    state.last_error = null;
+    await this.indexStateRepository.save(state);
+
     let repoDir = "";
     try {
       // リポジトリをクローン
-      repoDir = await this.backlogService.cloneRepository(
-        projectKey,
-        repositoryName,
-        branch
-      );
-      console.log(`リポジトリをクローン完了: ${repoDir}`);
+      repoDir = await source.clone();
+      const commitSha = await source.getHeadCommitSha(repoDir);
+      console.log(`リポジトリをクローン完了: ${repoDir} (${commitSha})`);
 
-      // ベクトルストアを初期化
-      let vectorStore = await this.initializeVectorStore(collectionName);
+      // チャンク分割方式が変わった場合は、すべてのファイルを登録し直す
+      const rechunk = state.chunking_version !== CODE_CHUNKING_VERSION;
+      // 埋め込みモデルやベクトルストアが変わった場合は、インデックスを作り直す
+      const rebuild = !this.isBuiltWithCurrentEmbedding(state);
 
-      // コードファイルを検索して読み込み
-      const documents = await this.loadRepositoryDocuments(repoDir);
-      console.log(
-        `${documents.length}個のドキュメントをリポジトリから読み込みました`
-      );
+      // 前回成功時からコミットが進んでいなければ何もしない
+      if (
+        previousStatus === RepositoryIndexStatus.SUCCEEDED &&
+        state.last_commit_sha === commitSha &&
+        !rechunk &&
+        !rebuild
+      ) {
+        console.log(
+          `コミット ${commitSha} はインデックス済みのため、ベクトル化をスキップします`
+        );
+        await this.completeIndexRun(state, commitSha, 0, 0, 0);
+        return collectionName;
+      }
 
-      if (documents.length > 0) {
-        // ドキュメントをベクトルストアに追加
-        await vectorStore.addDocuments(documents);
+      // コードファイルを検索して読み込み
+      const files = await this.collectRepositoryFiles(repoDir);
+      let indexedFiles = await this.indexedFileRepository.find({
+        where: { collection_name: collectionName },
+      });
+      if (rebuild && indexedFiles.length > 0) {
         console.log(
-          `ベクトルストアに${documents.length}個のドキュメントを追加しました`
+          `埋め込みモデルが変わったため、インデックスを作り直します: ${
+            state.embedding_model
+          } (${
+            state.vector_store
+          }) → ${this.embeddingRegistry.getModelId()} (${this.embeddingRegistry.getVectorStoreBackend()})`
         );
+        await this.indexedFileRepository.remove(indexedFiles);
+        indexedFiles = [];
+      }
+
+      // ベクトルストアを初期化
+      const vectorStore = await this.initializeVectorStore(collectionName);
+
+      // ファイル単位の管理を始める前や別のモデルで登録されたベクトルは、一括で削除する
+      if (indexedFiles.length === 0) {
+        await this.clearUntrackedDocuments(vectorStore, collectionName);
       }
 
+      // 追加・変更されたファイルを登録し、変更・削除されたファイルの古いベクトルを削除
+      const plan = await this.indexUpdater.applyUpdate({
+        collectionName,
+        commitSha,
+        vectorStore,
+        files,
+        indexedFiles,
+        rechunk,
+      });
+
+      await this.completeIndexRun(
+        state,
+        commitSha,
+        plan.added.length,
+        plan.changed.length,
+        plan.removed.length
+      );
+
       return collectionName;
     } catch (error) {
       console.error(
         `リポジトリのベクトル化エラー ${projectKey}/${repositoryName}:`,
         error
       );
+
+      state.status = RepositoryIndexStatus.FAILED;
+      state.last_error = error instanceof Error ? error.message : String(error);
+      await this.indexStateRepository
+        .save(state)
+        .catch((saveError) =>
+          console.error("インデックス状態の保存エラー:", saveError)
+        );
+
       throw error;
     } finally {
       // 一時ディレクトリの削除
       if (repoDir && fs.existsSync(repoDir)) {
         try {
-          await this.backlogService.cleanupRepository(repoDir);
+          await source.cleanup(repoDir);
           console.log(
             `リポジトリディレクトリをクリーンアップしました: ${repoDir}`
           );
@@ -122,6 +382,59 @@ export class RepositoryVectorSearchService {
     }
   }
 
+  /**
+   * インデックス作成の成功を記録
+   */
+  private async completeIndexRun(
+    state: RepositoryIndexState,
+    commitSha: string,
+    addedFiles: number,
+    updatedFiles: number,
+    removedFiles: number
+  ): Promise<void> {
+    const indexedFiles = await this.indexedFileRepository.find({
+      where: { collection_name: state.collection_name },
+    });
+
+    state.status = RepositoryIndexStatus.SUCCEEDED;
+    state.last_commit_sha = commitSha;
+    state.chunking_version = CODE_CHUNKING_VERSION;
+    state.embedding_model = this.embeddingRegistry.getModelId();
+    state.vector_store = this.embeddingRegistry.getVectorStoreBackend();
+    state.file_count = indexedFiles.length;
+    state.chunk_count = indexedFiles.reduce(
+      (sum, file) => sum + file.chunk_count,
+      0
+    );
+    state.last_added_files = addedFiles;
+    state.last_updated_files = updatedFiles;
+    state.last_removed_files = removedFiles;
+    state.last_succeeded_at = new Date();
+    await this.indexStateRepository.save(state);
+  }
+
+  /**
+   * ファイル単位で管理されていないベクトルをコレクションから削除
+   */
+  private async clearUntrackedDocuments(
+    vectorStore: VectorStore,
+    collectionName: string
+  ): Promise<void> {
+    try {
+      await vectorStore.delete({
+        filter: { extension: { $in: SUPPORTED_EXTENSIONS } },
+      });
+      console.log(
+        `コレクション ${collectionName} の既存ドキュメントを削除しました`
+      );
+    } catch (error) {
+      console.warn(
+        `コレクション ${collectionName} の既存ドキュメント削除に失敗しました:`,
+        error
+      );
+    }
+  }
+
   /**
    * ベクトルストアで類似コードを検索
    */
@@ -156,32 +469,12 @@ export class RepositoryVectorSearchService {
   }
 
   /**
-   * リポジトリからドキュメントをロード
+   * リポジトリからインデックス対象のファイルを読み込み
    */
-  private async loadRepositoryDocuments(repoDir: string): Promise<Document[]> {
-    const documents: Document[] = [];
-    const supportedExtensions = [
-      ".js",
-      ".ts",
-      ".jsx",
-      ".tsx",
-      ".py",
-      ".java",
-      ".c",
-      ".cpp",
-      ".cs",
-      ".php",
-      ".rb",
-      ".go",
-      ".swift",
-      ".kt",
-      ".html",
-      ".css",
-      ".scss",
-      ".json",
-      ".md",
-      ".txt",
-    ];
+  private async collectRepositoryFiles(
+    repoDir: string
+  ): Promise<RepositoryFile[]> {
+    const files: RepositoryFile[] = [];
 
     // リポジトリディレクトリを再帰的に探索
     const exploreDirectory = async (
@@ -204,39 +497,15 @@ export class RepositoryVectorSearchService {
         // ファイルの場合はサポートされている拡張子のみ処理
         else if (entry.isFile()) {
           const ext = path.extname(entry.name).toLowerCase();
-          if (supportedExtensions.includes(ext)) {
+          if (SUPPORTED_EXTENSIONS.includes(ext)) {
             try {
-              // ファイルを読み込みドキュメントとして追加
               const content = await readFilePromise(fullPath, "utf8");
-
-              // サイズが大きすぎる場合は分割
-              if (content.length > 8000) {
-                // 長いファイルを複数のチャンクに分割
-                const chunks = this.splitContentIntoChunks(content, 6000);
-                chunks.forEach((chunk, index) => {
-                  documents.push(
-                    new Document({
-                      pageContent: chunk,
-                      metadata: {
-                        source: relPath,
-                        chunk: index + 1,
-                        totalChunks: chunks.length,
-                        extension: ext,
-                      },
-                    })
-                  );
-                });
-              } else {
-                documents.push(
-                  new Document({
-                    pageContent: content,
-                    metadata: {
-                      source: relPath,
-                      extension: ext,
-                    },
-                  })
-                );
-              }
+              files.push({
+                path: relPath,
+                extension: ext,
+                content,
+                hash: crypto.createHash("sha256").update(content).digest("hex"),
+              });
             } catch (error) {
               console.error(`ファイル読み込みエラー ${fullPath}:`, error);
             }
@@ -246,7 +515,20 @@ export class RepositoryVectorSearchService {
     };
 
     await exploreDirectory(repoDir);
-    return documents;
+    return files;
+  }
+
+  /**
+   * 検索結果のメタデータから引用元（ファイル:行範囲）を組み立てる
+   */
+  formatSourceLocation(metadata: Record<string, any> | undefined): string {
+    const source = metadata?.source || "不明なファイル";
+    if (!metadata?.startLine || !metadata?.endLine) {
+      return source;
+    }
+    return metadata.startLine === metadata.endLine
+      ? `${source}:${metadata.startLine}`
+      : `${source}:${metadata.startLine}-${metadata.endLine}`;
   }
 
   // 差分コードに関連する類似コードを検索するメソッド
@@ -434,72 +716,14 @@ export class RepositoryVectorSearchService {
     }
   }
 
-  /**
-   * テキストを複数のチャンクに分割
-   */
-  private splitContentIntoChunks(content: string, chunkSize: number): string[] {
-    const chunks: string[] = [];
-    let currentChunk = "";
-    const lines = content.split("\n");
-
-    for (const line of lines) {
-      if (currentChunk.length + line.length + 1 > chunkSize) {
-        chunks.push(currentChunk);
-        currentChunk = line;
-      } else {
-        currentChunk += (currentChunk ? "\n" : "") + line;
-      }
-    }
-
-    if (currentChunk) {
-      chunks.push(currentChunk);
-    }
-
-    return chunks;
-  }
-
   /**
    * ベクトルストアを初期化
    */
-  private async initializeVectorStore(collectionName: string): Promise<Chroma> {
+  private async initializeVectorStore(
+    collectionName: string
+  ): Promise<VectorStore> {
     try {
-      // v0.3でのChroma初期化
-      const chromaUrl = `http://${process.env.CHROMA_HOST || "localhost"}:${
-        process.env.CHROMA_PORT || "8000"
-      }`;
-
-      console.log(
-        `Chromaに接続: ${chromaUrl} (コレクション ${collectionName})`
-      );
-
-      try {
-        // 既存のコレクションへの接続試行
-        return await Chroma.fromExistingCollection(
-          new OpenAIEmbeddings({
-            openAIApiKey: process.env.OPENAI_API_KEY,
-            modelName: "text-embedding-ada-002",
-          }),
-          {
-            collectionName: collectionName,
-            url: chromaUrl,
-          }
-        );
-      } catch (error) {
-        console.log(`新規コレクション作成: ${collectionName}`);
-
-        // 新規コレクション作成
-        return await Chroma.fromDocuments(
-          [], // 空のドキュメント配列
-          new OpenAIEmbeddings({
-            openAIApiKey: process.env.OPENAI_API_KEY,
-            modelName: "text-embedding-ada-002",
-          }),
-          {
-            collectionName: collectionName,
-            url: chromaUrl,
-          }
-        );
-      }
+      return await this.vectorStoreFactory.open(collectionName);
     } catch (error) {
       console.error(`ベクトルストア初期化エラー (${collectionName}):`, error);
       throw error;
@@ -524,10 +748,7 @@ export class RepositoryVectorSearchService {
       );
 
       // コレクション名を構築
-      const collectionName = `${projectKey}_${repositoryName}_master`.replace(
-        /[^a-zA-Z0-9_]/g,
-        "_"
-      );
+      const collectionName = this.getCollectionName(projectKey, repositoryName);
 
       // 類似コードを検索
       const similarCode = await this.searchSimilarCodeBySnippet(
@@ -544,8 +765,11 @@ export class RepositoryVectorSearchService {
       let context = `# ${projectKey}/${repositoryName} のリポジトリから抽出した関連コード\n\n`;
 
       similarCode.forEach((code, index) => {
-        const filePath = code.metadata?.source || "不明なファイル";
-        context += `## サンプル ${index + 1}: ${filePath}\n\n`;
+        const location = this.formatSourceLocation(code.metadata);
+        const symbols = code.metadata?.symbols
+          ? ` (${code.metadata.symbols})`
+          : "";
+        context += `## サンプル ${index + 1}: ${location}${symbols}\n\n`;
         context += "```\n";
         context +=
           code.content.length > 800
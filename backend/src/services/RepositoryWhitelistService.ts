@@ -8,6 +8,7 @@ import {
   RepositoryStatus,
 } from "../models/BacklogRepository";
 import { RepositoryVectorSearchService } from "./RepositoryVectorSearchService";
+import { RepositoryIndexState } from "../models/RepositoryIndexState";
 
 // 設定ファイルのパス
 const CONFIG_DIR = path.join(__dirname, "../../config");
@@ -30,6 +31,16 @@ export interface WhitelistedRepository {
   notes?: string;
 }
 
+/**
+ * ベクトルインデックスの状態を付加したホワイトリストの項目
+ */
+export interface WhitelistedRepositoryWithIndexStatus
+  extends WhitelistedRepository {
+  indexStatus: RepositoryIndexState | null;
+  // インデックスが現在の埋め込みモデルで作成されているか（異なる場合は再作成が必要）
+  indexUsesCurrentEmbedding: boolean;
+}
+
 /**
  * リポジトリのホワイトリストを管理するサービス
  * 自動レビュー返信を許可するリポジトリを制御します
@@ -114,6 +125,32 @@ export class RepositoryWhitelistService {
     return [...this.whitelist];
   }
 
+  /**
+   * ベクトルインデックスの状態を含めてホワイトリストを取得
+   */
+  public async getWhitelistWithIndexStatus(): Promise<
+    WhitelistedRepositoryWithIndexStatus[]
+  > {
+    const whitelist = await this.getWhitelist();
+    return Promise.all(
+      whitelist.map(async (repo) => {
+        const indexStatus = await this.repositoryVectorService.getIndexStatus(
+          repo.projectKey,
+          repo.repositoryName
+        );
+        return {
+          ...repo,
+          indexStatus,
+          indexUsesCurrentEmbedding:
+            !!indexStatus &&
+            this.repositoryVectorService.isBuiltWithCurrentEmbedding(
+              indexStatus
+            ),
+        };
+      })
+    );
+  }
+
   /**
    * リポジトリがホワイトリストに登録されているか確認
    */
@@ -197,6 +234,29 @@ export class RepositoryWhitelistService {
     return newEntry;
   }
 
+  /**
+   * ホワイトリストのリポジトリのベクトルインデックスを更新
+   * 前回以降に変更されたファイルだけをバックグラウンドで再登録する
+   */
+  public async reindexRepository(
+    projectKey: string,
+    repositoryName: string
+  ): Promise<boolean> {
+    if (!(await this.isWhitelisted(projectKey, repositoryName))) {
+      return false;
+    }
+
+    this.triggerBackgroundVectorization(projectKey, repositoryName).catch(
+      (error) =>
+        console.error(
+          `バックグラウンドベクトル化エラー ${projectKey}/${repositoryName}:`,
+          error
+        )
+    );
+
+    return true;
+  }
+
   /**
    * バックグラウンドでベクトル化処理を開始
    */
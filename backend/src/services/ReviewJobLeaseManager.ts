@@ -0,0 +1,221 @@
+// backend/src/services/ReviewJobLeaseManager.ts
+import { ReviewJob, ReviewJobStatus } from "../models/ReviewJob";
+
+/**
+ * レビュージョブの保存先（ReviewQueueService ではDBのテーブル、テストではメモリ上）
+ */
+export interface ReviewJobStore {
+  /** 実行時刻を過ぎた待機中のジョブ（実行時刻順） */
+  findRunnable(now: Date, limit: number): Promise<ReviewJob[]>;
+  /** 処理中のジョブ（lockedBefore を指定した場合はそれより前にリースを取得・延長したもの） */
+  findProcessing(lockedBefore?: Date): Promise<ReviewJob[]>;
+  /**
+   * status と attempts が読み込んだ時点から変わっていない場合だけ更新する
+   * attempts を楽観ロックのバージョンとして使い、他ワーカーとの取り合いを防ぐ
+   */
+  updateIfUnchanged(
+    job: Pick<ReviewJob, "id" | "status" | "attempts">,
+    changes: Partial<ReviewJob>
+  ): Promise<boolean>;
+}
+
+export interface ReviewJobLeaseOptions {
+  workerId: string; // "<ホスト名>:<プロセスID>"
+  leaseMs: number;
+  baseRetryDelayMs: number;
+  maxRetryDelayMs: number;
+  // 同じホストのプロセスが生きているか（テストで差し替える）
+  isProcessAlive?: (pid: number) => boolean;
+}
+
+/**
+ * プロセスが生きているか（シグナル0は存在確認のみで、権限がない場合も生きている）
+ */
+export function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * レビュージョブのリース（locked_by / locked_at）の取得・解放・回収
+ */
+export class ReviewJobLeaseManager {
+  private isProcessAlive: (pid: number) => boolean;
+
+  constructor(
+    private store: ReviewJobStore,
+    private options: ReviewJobLeaseOptions
+  ) {
+    this.isProcessAlive = options.isProcessAlive || isProcessAlive;
+  }
+
+  /**
+   * 実行可能なジョブのリースを取得する
+   */
+  async claimNext(now: Date = new Date()): Promise<ReviewJob | null> {
+    const candidates = await this.store.findRunnable(now, 5);
+
+    for (const candidate of candidates) {
+      const claimed = await this.store.updateIfUnchanged(candidate, {
+        status: ReviewJobStatus.PROCESSING,
+        locked_by: this.options.workerId,
+        locked_at: now,
+        attempts: candidate.attempts + 1,
+      });
+
+      if (claimed) {
+        candidate.status = ReviewJobStatus.PROCESSING;
+        candidate.locked_by = this.options.workerId;
+        candidate.locked_at = now;
+        candidate.attempts += 1;
+        return candidate;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 処理中のジョブを解放し、バックオフ後に再実行またはデッドレターにする
+   * 他のワーカーがすでに回収していた場合は何もせず false を返す
+   */
+  async release(
+    job: ReviewJob,
+    reason: string,
+    now: Date = new Date()
+  ): Promise<boolean> {
+    const isDead = job.attempts >= job.max_attempts;
+    const released = await this.store.updateIfUnchanged(
+      {
+        id: job.id,
+        status: ReviewJobStatus.PROCESSING,
+        attempts: job.attempts,
+      },
+      {
+        status: isDead ? ReviewJobStatus.DEAD : ReviewJobStatus.PENDING,
+        next_run_at: new Date(
+          now.getTime() + this.getBackoffDelayMs(job.attempts)
+        ),
+        last_error: reason,
+        locked_by: null,
+        locked_at: null,
+      }
+    );
+
+    if (released) {
+      console.log(
+        `Released review job #${job.id} (submission ${
+          job.submission_id
+        }): ${reason}${isDead ? " -> dead" : ""}`
+      );
+    }
+    return released;
+  }
+
+  /**
+   * リース期限切れのジョブを解放する
+   */
+  async releaseExpiredLeases(now: Date = new Date()): Promise<ReviewJob[]> {
+    const expiredJobs = await this.store.findProcessing(
+      new Date(now.getTime() - this.options.leaseMs)
+    );
+
+    const released: ReviewJob[] = [];
+    for (const job of expiredJobs) {
+      if (
+        await this.release(job, `リース期限切れ (worker=${job.locked_by})`, now)
+      ) {
+        released.push(job);
+      }
+    }
+    return released;
+  }
+
+  /**
+   * 起動時（まだジョブを取得していない時点）に孤立したジョブを解放する
+   * 同じホストの別のワーカーが保持するジョブは、そのプロセスが停止している場合だけ回収する
+   */
+  async recoverOrphaned(now: Date = new Date()): Promise<ReviewJob[]> {
+    const processingJobs = await this.store.findProcessing();
+
+    const released: ReviewJob[] = [];
+    for (const job of processingJobs) {
+      if (!this.isOrphaned(job, now)) {
+        continue;
+      }
+      if (
+        await this.release(
+          job,
+          `ワーカー ${job.locked_by} の停止により中断されました`,
+          now
+        )
+      ) {
+        released.push(job);
+      }
+    }
+    return released;
+  }
+
+  /**
+   * ジョブを保持するワーカーが停止しているか
+   * - リース期限が切れている
+   * - 自分と同じワーカーIDのリース（起動前の同じPIDのプロセスが保持していたもの）
+   * - 同じホストのワーカーで、そのプロセスが存在しない
+   */
+  isOrphaned(job: ReviewJob, now: Date = new Date()): boolean {
+    if (this.isLeaseExpired(job, now)) {
+      return true;
+    }
+    if (!job.locked_by) {
+      return false;
+    }
+    if (job.locked_by === this.options.workerId) {
+      return true;
+    }
+
+    const worker = this.parseWorkerId(job.locked_by);
+    const self = this.parseWorkerId(this.options.workerId);
+    return (
+      !!worker &&
+      !!self &&
+      worker.hostname === self.hostname &&
+      !this.isProcessAlive(worker.pid)
+    );
+  }
+
+  /**
+   * リース期限が切れているか
+   */
+  isLeaseExpired(job: ReviewJob, now: Date = new Date()): boolean {
+    return (
+      !job.locked_at ||
+      job.locked_at.getTime() < now.getTime() - this.options.leaseMs
+    );
+  }
+
+  /**
+   * 試行回数に応じた指数バックオフ間隔を取得
+   */
+  getBackoffDelayMs(attempts: number): number {
+    const exponent = Math.max(attempts - 1, 0);
+    return Math.min(
+      this.options.baseRetryDelayMs * Math.pow(2, exponent),
+      this.options.maxRetryDelayMs
+    );
+  }
+
+  private parseWorkerId(
+    workerId: string
+  ): { hostname: string; pid: number } | null {
+    const separator = workerId.lastIndexOf(":");
+    const pid = parseInt(workerId.substring(separator + 1), 10);
+    if (separator <= 0 || isNaN(pid)) {
+      return null;
+    }
+    return { hostname: workerId.substring(0, separator), pid };
+  }
+}
@@ -0,0 +1,271 @@
+// backend/src/services/ReviewProgressRelay.ts
+
+/**
+ * レビュー処理の段階
+ */
+export type ReviewProgressStage =
+  | "queued" // キューに追加された
+  | "started" // ワーカーが処理を開始した
+  | "criteria_evaluated" // 評価基準に照らしたコードの分析が完了した
+  | "feedback_saved" // フィードバックを保存した
+  | "sent_to_backlog" // BacklogのPRにレビュー結果を送信した
+  | "sent_to_github" // GitHubのPRにレビュー結果を送信した
+  | "completed" // レビューが完了した
+  | "failed"; // 処理に失敗した（will_retry が true の場合は再試行される）
+
+export interface ReviewProgressEvent {
+  id: number; // SSEのイベントID（review_progress_events の主キー）
+  user_id: number | null; // レビューの提出者（null は管理者にだけ配信する）
+  review_id: number | null;
+  submission_id: number | null;
+  pull_request?: string; // GitHubのプルリクエスト（例: owner/repo#12）
+  stage: ReviewProgressStage;
+  message: string;
+  feedback_count?: number;
+  attempt?: number;
+  will_retry?: boolean;
+  error?: string;
+  timestamp: string;
+}
+
+export type ReviewProgressInput = Omit<
+  ReviewProgressEvent,
+  "id" | "timestamp" | "message"
+> & { message?: string };
+
+export type ReviewProgressListener = (event: ReviewProgressEvent) => void;
+
+/**
+ * 進捗イベントの保存先（ReviewProgressService ではDBのテーブル、テストではメモリ上）
+ */
+export interface ReviewProgressStore {
+  /** イベントを保存し、採番したIDと時刻を付けて返す */
+  append(
+    event: Omit<ReviewProgressEvent, "id" | "timestamp">
+  ): Promise<ReviewProgressEvent>;
+  /** 指定したIDより後のイベント（ID順） */
+  findAfter(
+    afterEventId: number,
+    limit: number
+  ): Promise<ReviewProgressEvent[]>;
+  /** レビューの直近のイベント（ID順） */
+  findRecentByReview(
+    reviewId: number,
+    limit: number
+  ): Promise<ReviewProgressEvent[]>;
+  /** 最新のイベントID（イベントがない場合は0） */
+  getLatestEventId(): Promise<number>;
+  /** 指定した時刻より前のイベントを削除 */
+  deleteBefore(date: Date): Promise<void>;
+}
+
+export interface ReviewProgressRelayOptions {
+  pollIntervalMs: number;
+  retentionMs: number;
+}
+
+// 段階ごとの既定のメッセージ
+const STAGE_MESSAGES: Record<ReviewProgressStage, string> = {
+  queued: "レビュー待ちのキューに追加されました",
+  started: "AIレビューを開始しました",
+  criteria_evaluated: "評価基準に沿ってコードを分析しました",
+  feedback_saved: "フィードバックを保存しました",
+  sent_to_backlog: "Backlogのプルリクエストにレビュー結果を送信しました",
+  sent_to_github: "GitHubのプルリクエストにレビュー結果を送信しました",
+  completed: "レビューが完了しました",
+  failed: "レビューに失敗しました",
+};
+
+// レビューごとに返す経過の最大数
+const MAX_EVENTS_PER_REVIEW = 30;
+// 1回のポーリングで読み込むイベントの最大数
+const POLL_BATCH_SIZE = 200;
+// 古いイベントを削除する間隔
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+const DEFAULT_OPTIONS: ReviewProgressRelayOptions = {
+  pollIntervalMs: 1000,
+  retentionMs: 7 * 24 * 60 * 60 * 1000,
+};
+
+interface Subscriber {
+  userId: number | null;
+  cursor: number; // 配信済みの最後のイベントID
+  listener: ReviewProgressListener;
+}
+
+/**
+ * レビュー処理の進捗イベントを保存先経由で中継する
+ *
+ * ワーカーが publish したイベントを保存し、購読中のクライアントがいる間だけ保存先をポーリングして配信する。
+ * ワーカーとSSEエンドポイントが別のプロセスで動いていても進捗が届く。
+ */
+export class ReviewProgressRelay {
+  private options: ReviewProgressRelayOptions;
+  private subscribers = new Set<Subscriber>();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private isPolling = false;
+  private lastPrunedAt = 0;
+
+  constructor(
+    private store: ReviewProgressStore,
+    options: Partial<ReviewProgressRelayOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * 進捗イベントを保存
+   */
+  async publish(input: ReviewProgressInput): Promise<ReviewProgressEvent> {
+    const event = await this.store.append({
+      ...input,
+      message: input.message || STAGE_MESSAGES[input.stage],
+    });
+    this.pruneIfNeeded();
+    return event;
+  }
+
+  /**
+   * 進捗イベントを購読
+   * @param userId 購読するユーザー（null は全ユーザー。管理者用）
+   * @param afterEventId このIDより後のイベントから配信する
+   * @returns 購読を解除する関数
+   */
+  subscribe(
+    userId: number | null,
+    afterEventId: number,
+    listener: ReviewProgressListener
+  ): () => void {
+    const subscriber: Subscriber = { userId, cursor: afterEventId, listener };
+    this.subscribers.add(subscriber);
+    this.schedulePoll(this.options.pollIntervalMs);
+
+    return () => {
+      this.subscribers.delete(subscriber);
+      if (this.subscribers.size === 0 && this.pollTimer) {
+        clearTimeout(this.pollTimer);
+        this.pollTimer = null;
+      }
+    };
+  }
+
+  /**
+   * レビューの直近の経過を取得（最後にキューに追加されてからのもの）
+   * @param afterEventId このIDより後のイベントだけを返す（再接続時の Last-Event-ID）
+   */
+  async getHistory(
+    reviewId: number,
+    userId: number | null,
+    afterEventId: number = 0
+  ): Promise<ReviewProgressEvent[]> {
+    const events = await this.store.findRecentByReview(
+      reviewId,
+      MAX_EVENTS_PER_REVIEW
+    );
+
+    // 再提出された場合は以前の経過を除く
+    let start = 0;
+    events.forEach((event, index) => {
+      if (event.stage === "queued") {
+        start = index;
+      }
+    });
+
+    return events
+      .slice(start)
+      .filter(
+        (event) =>
+          event.id > afterEventId &&
+          ReviewProgressRelay.isVisible(event, userId)
+      );
+  }
+
+  /**
+   * 最新のイベントID（購読を始める位置）
+   */
+  getLatestEventId(): Promise<number> {
+    return this.store.getLatestEventId();
+  }
+
+  /**
+   * Server-Sent Events の形式に変換
+   */
+  static formatSse(event: ReviewProgressEvent): string {
+    return `id: ${event.id}\nevent: progress\ndata: ${JSON.stringify(
+      event
+    )}\n\n`;
+  }
+
+  private static isVisible(
+    event: ReviewProgressEvent,
+    userId: number | null
+  ): boolean {
+    return userId === null || event.user_id === userId;
+  }
+
+  private schedulePoll(delayMs: number): void {
+    if (this.pollTimer || this.isPolling || this.subscribers.size === 0) {
+      return;
+    }
+    this.pollTimer = setTimeout(() => {
+      this.pollTimer = null;
+      this.poll();
+    }, delayMs);
+  }
+
+  /**
+   * 購読中のクライアントの中で最も古い位置から読み込み、それぞれの位置より後のイベントを配信
+   */
+  private async poll(): Promise<void> {
+    if (this.subscribers.size === 0) {
+      return;
+    }
+
+    this.isPolling = true;
+    let hasMore = false;
+    try {
+      const cursor = Math.min(
+        ...[...this.subscribers].map((subscriber) => subscriber.cursor)
+      );
+      const events = await this.store.findAfter(cursor, POLL_BATCH_SIZE);
+      hasMore = events.length === POLL_BATCH_SIZE;
+
+      for (const subscriber of [...this.subscribers]) {
+        for (const event of events) {
+          if (!this.subscribers.has(subscriber)) {
+            break;
+          }
+          if (event.id <= subscriber.cursor) {
+            continue;
+          }
+          subscriber.cursor = event.id;
+          if (ReviewProgressRelay.isVisible(event, subscriber.userId)) {
+            subscriber.listener(event);
+          }
+        }
+      }
+    } catch (error) {
+      console.error("レビュー進捗イベントの読み込みに失敗しました:", error);
+    } finally {
+      this.isPolling = false;
+      this.schedulePoll(hasMore ? 0 : this.options.pollIntervalMs);
+    }
+  }
+
+  /**
+   * 保持期間を過ぎたイベントを一定間隔で削除
+   */
+  private pruneIfNeeded(): void {
+    const now = Date.now();
+    if (now - this.lastPrunedAt < PRUNE_INTERVAL_MS) {
+      return;
+    }
+    this.lastPrunedAt = now;
+    this.store
+      .deleteBefore(new Date(now - this.options.retentionMs))
+      .catch((error) =>
+        console.error("古いレビュー進捗イベントの削除に失敗しました:", error)
+      );
+  }
+}
@@ -0,0 +1,151 @@
+// backend/src/services/ReviewProgressService.ts
+import { LessThan, MoreThan } from "typeorm";
+import { AppDataSource } from "../index";
+import { ReviewProgressEntry } from "../models/ReviewProgressEntry";
+import {
+  ReviewProgressEvent,
+  ReviewProgressInput,
+  ReviewProgressListener,
+  ReviewProgressRelay,
+  ReviewProgressStage,
+  ReviewProgressStore,
+} from "./ReviewProgressRelay";
+
+/**
+ * レビュー処理の進捗イベントを配信するサービス
+ *
+ * イベントは review_progress_events テーブルに保存し、各プロセスのSSEエンドポイントがテーブルから中継する。
+ * そのため別プロセスのワーカーが処理したレビューの進捗も配信できる。
+ */
+export class ReviewProgressService {
+  private static instance: ReviewProgressService;
+  private entryRepository = AppDataSource.getRepository(ReviewProgressEntry);
+  private relay: ReviewProgressRelay;
+
+  constructor() {
+    this.relay = new ReviewProgressRelay(this.createStore());
+  }
+
+  /**
+   * シングルトンインスタンスを取得
+   */
+  public static getInstance(): ReviewProgressService {
+    if (!ReviewProgressService.instance) {
+      ReviewProgressService.instance = new ReviewProgressService();
+    }
+    return ReviewProgressService.instance;
+  }
+
+  /**
+   * 進捗イベントを保存
+   */
+  publish(input: ReviewProgressInput): Promise<ReviewProgressEvent> {
+    return this.relay.publish(input);
+  }
+
+  /**
+   * 進捗イベントを購読
+   * @param userId 購読するユーザー（null は全ユーザー。管理者用）
+   * @param afterEventId このIDより後のイベントから配信する
+   * @returns 購読を解除する関数
+   */
+  subscribe(
+    userId: number | null,
+    afterEventId: number,
+    listener: ReviewProgressListener
+  ): () => void {
+    return this.relay.subscribe(userId, afterEventId, listener);
+  }
+
+  /**
+   * レビューの直近の経過を取得
+   * @param afterEventId このIDより後のイベントだけを返す（再接続時の Last-Event-ID）
+   */
+  getHistory(
+    reviewId: number,
+    userId: number | null,
+    afterEventId: number = 0
+  ): Promise<ReviewProgressEvent[]> {
+    return this.relay.getHistory(reviewId, userId, afterEventId);
+  }
+
+  /**
+   * 最新のイベントID
+   */
+  getLatestEventId(): Promise<number> {
+    return this.relay.getLatestEventId();
+  }
+
+  /**
+   * 進捗イベントの保存先（review_progress_events テーブル）
+   */
+  private createStore(): ReviewProgressStore {
+    return {
+      append: async (event) => {
+        const entry = await this.entryRepository.save(
+          this.entryRepository.create({
+            user_id: event.user_id,
+            review_id: event.review_id,
+            submission_id: event.submission_id,
+            pull_request: event.pull_request ?? null,
+            stage: event.stage,
+            message: event.message.substring(0, 255),
+            feedback_count: event.feedback_count ?? null,
+            attempt: event.attempt ?? null,
+            will_retry: event.will_retry ?? null,
+            error: event.error ? event.error.substring(0, 500) : null,
+          })
+        );
+        return ReviewProgressService.toEvent(entry);
+      },
+      findAfter: async (afterEventId, limit) => {
+        const entries = await this.entryRepository.find({
+          where: { id: MoreThan(afterEventId) },
+          order: { id: "ASC" },
+          take: limit,
+        });
+        return entries.map(ReviewProgressService.toEvent);
+      },
+      findRecentByReview: async (reviewId, limit) => {
+        const entries = await this.entryRepository.find({
+          where: { review_id: reviewId },
+          order: { id: "DESC" },
+          take: limit,
+        });
+        return entries.reverse().map(ReviewProgressService.toEvent);
+      },
+      getLatestEventId: async () => {
+        const [latest] = await this.entryRepository.find({
+          order: { id: "DESC" },
+          take: 1,
+        });
+        return latest ? latest.id : 0;
+      },
+      deleteBefore: async (date) => {
+        await this.entryRepository.delete({ created_at: LessThan(date) });
+      },
+    };
+  }
+
+  private static toEvent(entry: ReviewProgressEntry): ReviewProgressEvent {
+    return {
+      id: entry.id,
+      user_id: entry.user_id,
+      review_id: entry.review_id,
+      submission_id: entry.submission_id,
+      ...(entry.pull_request ? { pull_request: entry.pull_request } : {}),
+      stage: entry.stage as ReviewProgressStage,
+      message: entry.message,
+      ...(entry.feedback_count !== null
+        ? { feedback_count: entry.feedback_count }
+        : {}),
+      ...(entry.attempt !== null ? { attempt: entry.attempt } : {}),
+      ...(entry.will_retry !== null ? { will_retry: !!entry.will_retry } : {}),
+      ...(entry.error ? { error: entry.error } : {}),
+      timestamp: (entry.created_at
+        ? new Date(entry.created_at)
+        : new Date()
+      ).toISOString(),
+    };
+  }
+}
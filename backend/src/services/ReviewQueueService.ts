@@ -1,31 +1,61 @@
 // backend/src/services/ReviewQueueService.ts
+import os from "os";
+import { FindOptionsWhere, In, LessThan, LessThanOrEqual } from "typeorm";
 import { AIService } from "./AIService";
 import { SubmissionService } from "./SubmissionService";
-import { CodeSubmission, SubmissionStatus } from "../models/CodeSubmission";
+import { SubmissionStatus } from "../models/CodeSubmission";
+import { ReviewJob, ReviewJobStatus } from "../models/ReviewJob";
 import { AppDataSource } from "../index";
 import { ReviewFeedbackSenderService } from "./ReviewFeedbackSenderService"; // 追加
+import { FeedbackService } from "./FeedbackService";
+import { NotificationService } from "./NotificationService";
+import { NotificationType } from "../models/Notification";
+import { Review } from "../models/Review";
+import { ReviewProgressService } from "./ReviewProgressService";
+import { ReviewProgressInput } from "./ReviewProgressRelay";
+import { ReviewJobLeaseManager, ReviewJobStore } from "./ReviewJobLeaseManager";
 
-interface QueueItem {
-  submissionId: number;
-  retryCount: number;
-  addedAt: Date;
-}
-
+/**
+ * DBに永続化されたレビュージョブキュー
+ *
+ * ジョブは review_jobs テーブルに保存され、ワーカーはリース（locked_by / locked_at）
+ * を取得してから処理する。リースが期限切れになったジョブは別のワーカー（または
+ * 再起動後の自分自身）が回収できるため、サーバーが途中で落ちても提出が失われない。
+ */
 export class ReviewQueueService {
   private static instance: ReviewQueueService;
   private aiService: AIService;
   private submissionService: SubmissionService;
   private reviewFeedbackSenderService: ReviewFeedbackSenderService; // 追加
-  private queue: QueueItem[] = []; // 処理待ちの項目
-  private processingItems: Set<number> = new Set(); // 現在処理中の提出ID
+  private feedbackService: FeedbackService;
+  private notificationService: NotificationService;
+  private progressService = ReviewProgressService.getInstance();
+  private jobRepository = AppDataSource.getRepository(ReviewJob);
+  private leaseManager: ReviewJobLeaseManager;
+  private readonly workerId: string;
+  private isStarted: boolean = false;
   private isProcessing: boolean = false;
-  private maxRetries: number = 3; // 最大リトライ回数
-  private retryDelayMs: number = 5000; // リトライ間隔 (5秒)
+  private currentJobId: number | null = null; // 現在処理中のジョブID
+  private pollTimer: NodeJS.Timeout | null = null;
+  private maxAttempts: number = 5; // デッドレターに移すまでの最大試行回数
+  private baseRetryDelayMs: number = 5000; // バックオフの基準間隔 (5秒)
+  private maxRetryDelayMs: number = 10 * 60 * 1000; // バックオフの上限 (10分)
+  private leaseMs: number = 10 * 60 * 1000; // リースの有効期間 (10分)
+  private pollIntervalMs: number = 5000; // ジョブが無い時のポーリング間隔
 
   private constructor() {
     this.aiService = new AIService();
     this.submissionService = new SubmissionService();
     this.reviewFeedbackSenderService = new ReviewFeedbackSenderService(); // 追加
+    this.feedbackService = new FeedbackService();
+    this.notificationService = new NotificationService();
+    this.workerId = `${os.hostname()}:${process.pid}`;
+    this.leaseManager = new ReviewJobLeaseManager(this.createJobStore(), {
+      workerId: this.workerId,
+      leaseMs: this.leaseMs,
+      baseRetryDelayMs: this.baseRetryDelayMs,
+      maxRetryDelayMs: this.maxRetryDelayMs,
+    });
   }
 
   /**
@@ -38,6 +68,37 @@ export class ReviewQueueService {
     return ReviewQueueService.instance;
   }
 
+  /**
+   * ワーカーを起動（サーバー起動時に一度だけ呼び出す）
+   */
+  public async start(): Promise<void> {
+    if (this.isStarted) {
+      return;
+    }
+    this.isStarted = true;
+
+    console.log(`レビューキューワーカーを起動します (worker=${this.workerId})`);
+
+    try {
+      await this.recoverOrphanedJobs();
+    } catch (error) {
+      console.error("孤立したレビュージョブの回収中にエラー:", error);
+    }
+
+    this.scheduleNextPoll(0);
+  }
+
+  /**
+   * ワーカーを停止（処理中のジョブはリース切れ後に回収される）
+   */
+  public stop(): void {
+    this.isStarted = false;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
   /**
    * コード提出をキューに追加
    */
@@ -55,35 +116,41 @@ export class ReviewQueueService {
         return;
       }
 
-      // 既に処理中かチェック
-      if (this.processingItems.has(submissionId)) {
+      // 既に待機中・処理中のジョブがあるかチェック
+      const existingJob = await this.jobRepository.findOne({
+        where: {
+          submission_id: submissionId,
+          status: In([ReviewJobStatus.PENDING, ReviewJobStatus.PROCESSING]),
+        },
+      });
+      if (existingJob) {
         console.log(
-          `Submission ${submissionId} is currently being processed, not adding to queue again`
+          `Submission ${submissionId} already has an active review job #${existingJob.id} (${existingJob.status})`
         );
         return;
       }
 
-      // 既にキューにあるかチェック
-      const existingItem = this.queue.find(
-        (item) => item.submissionId === submissionId
+      const job = await this.jobRepository.save(
+        this.jobRepository.create({
+          submission_id: submissionId,
+          status: ReviewJobStatus.PENDING,
+          attempts: 0,
+          max_attempts: this.maxAttempts,
+          next_run_at: new Date(),
+        })
+      );
+      console.log(
+        `Added submission ${submissionId} to review queue (job #${job.id})`
       );
-      if (existingItem) {
-        console.log(
-          `Submission ${submissionId} is already in queue (added at ${existingItem.addedAt.toISOString()})`
-        );
-        return;
-      }
 
-      // キューに追加
-      this.queue.push({
+      this.publishProgress(
+        await this.submissionService.getReviewBySubmissionId(submissionId),
         submissionId,
-        retryCount: 0,
-        addedAt: new Date(),
-      });
-      console.log(`Added submission ${submissionId} to review queue`);
+        { stage: "queued" }
+      );
 
-      // 処理を開始（実行中でなければ）
-      this.startProcessing();
+      // 待機中であればすぐに処理を開始
+      this.wake();
     } catch (error) {
       console.error(
         `Error verifying submission ${submissionId} before adding to queue:`,
@@ -93,42 +160,164 @@ export class ReviewQueueService {
   }
 
   /**
-   * キュー処理を開始
+   * 起動時に孤立したジョブを回収する
+   * - リース期限が切れたジョブ
+   * - 同じホストで停止したプロセス（以前の自分を含む）が保持していたジョブ
+   *   （同じホストで動いている別のワーカーのジョブはリース期限まで回収しない）
+   * - ジョブを持たないまま submitted 状態で止まっている提出
    */
-  private startProcessing(): void {
-    if (this.isProcessing) {
+  public async recoverOrphanedJobs(): Promise<void> {
+    const orphaned = await this.leaseManager.recoverOrphaned();
+
+    // ジョブが存在しない未レビューの提出をキューに戻す
+    const strandedSubmissions: { id: number }[] = await AppDataSource.query(
+      `
+      SELECT s.id
+      FROM code_submissions s
+      LEFT JOIN review_jobs j ON j.submission_id = s.id
+      WHERE s.status = ? AND j.id IS NULL
+      `,
+      [SubmissionStatus.SUBMITTED]
+    );
+
+    for (const row of strandedSubmissions) {
+      await this.jobRepository.save(
+        this.jobRepository.create({
+          submission_id: row.id,
+          status: ReviewJobStatus.PENDING,
+          attempts: 0,
+          max_attempts: this.maxAttempts,
+          next_run_at: new Date(),
+        })
+      );
+    }
+
+    console.log(
+      `レビュージョブ回収完了: 中断ジョブ=${orphaned.length}件, 未登録の提出=${strandedSubmissions.length}件`
+    );
+  }
+
+  /**
+   * ポーリングを即時実行させる
+   */
+  private wake(): void {
+    if (!this.isStarted || this.isProcessing) {
       return;
     }
+    this.scheduleNextPoll(0);
+  }
 
-    this.isProcessing = true;
-    this.processQueue().catch((error) => {
-      console.error("Error in queue processing:", error);
-      this.isProcessing = false;
-    });
+  /**
+   * 次回のポーリングを予約
+   */
+  private scheduleNextPoll(delayMs: number): void {
+    if (!this.isStarted) {
+      return;
+    }
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+    }
+    this.pollTimer = setTimeout(() => {
+      this.pollTimer = null;
+      this.poll().catch((error) => {
+        console.error("Error in queue processing:", error);
+        this.isProcessing = false;
+        this.scheduleNextPoll(this.pollIntervalMs);
+      });
+    }, delayMs);
   }
 
   /**
-   * キューを順番に処理
+   * ジョブを1件取得して処理する
    */
-  private async processQueue(): Promise<void> {
-    if (this.queue.length === 0) {
-      console.log("Queue is empty, stopping processing");
-      this.isProcessing = false;
+  private async poll(): Promise<void> {
+    if (this.isProcessing) {
       return;
     }
+    this.isProcessing = true;
 
-    // 次の項目を取得（キューからは削除しない）
-    const queueItem = this.queue[0];
-    const { submissionId, retryCount } = queueItem;
+    let processed = false;
+    try {
+      await this.leaseManager.releaseExpiredLeases();
 
-    // 処理中リストに追加
-    this.processingItems.add(submissionId);
+      const job = await this.leaseManager.claimNext();
+      if (job) {
+        processed = true;
+        await this.processJob(job);
+      }
+    } finally {
+      this.isProcessing = false;
+      // ジョブを処理した直後は続けて次を確認し、空ならポーリング間隔だけ待つ
+      this.scheduleNextPoll(processed ? 1000 : this.pollIntervalMs);
+    }
+  }
+
+  /**
+   * ジョブの保存先（review_jobs テーブル）
+   */
+  private createJobStore(): ReviewJobStore {
+    return {
+      findRunnable: (now, limit) =>
+        this.jobRepository.find({
+          where: {
+            status: ReviewJobStatus.PENDING,
+            next_run_at: LessThanOrEqual(now),
+          },
+          order: { next_run_at: "ASC", id: "ASC" },
+          take: limit,
+        }),
+      findProcessing: (lockedBefore) =>
+        this.jobRepository.find({
+          where: lockedBefore
+            ? {
+                status: ReviewJobStatus.PROCESSING,
+                locked_at: LessThan(lockedBefore),
+              }
+            : { status: ReviewJobStatus.PROCESSING },
+        }),
+      updateIfUnchanged: async (job, changes) => {
+        const result = await this.jobRepository
+          .createQueryBuilder()
+          .update(ReviewJob)
+          .set(changes)
+          .where("id = :id", { id: job.id })
+          .andWhere("status = :status", { status: job.status })
+          .andWhere("attempts = :attempts", { attempts: job.attempts })
+          .execute();
+        return !!result.affected;
+      },
+    };
+  }
+
+  /**
+   * 処理中はリースを定期的に延長する
+   */
+  private startLeaseHeartbeat(job: ReviewJob): NodeJS.Timeout {
+    return setInterval(() => {
+      this.jobRepository
+        .update(
+          { id: job.id, locked_by: this.workerId },
+          { locked_at: new Date() }
+        )
+        .catch((error) => {
+          console.error(`Failed to extend lease for job #${job.id}:`, error);
+        });
+    }, Math.floor(this.leaseMs / 3));
+  }
+
+  /**
+   * ジョブを処理
+   */
+  private async processJob(job: ReviewJob): Promise<void> {
+    const { submission_id: submissionId } = job;
+    this.currentJobId = job.id;
+    const heartbeat = this.startLeaseHeartbeat(job);
+    // 進捗の配信先（提出に紐づくレビュー）
+    let review: Review | null = null;
 
     try {
       console.log(
-        `Processing review for submission ${submissionId} (attempt ${
-          retryCount + 1
-        }/${this.maxRetries + 1})`
+        `Processing review for submission ${submissionId} (job #${job.id}, attempt ${job.attempts}/${job.max_attempts})`
       );
 
       // 提出データを取得
@@ -137,131 +326,269 @@ export class ReviewQueueService {
       );
 
       if (!submission) {
-        console.error(`Submission ${submissionId} not found in database`);
+        throw new Error(`Submission ${submissionId} not found in database`);
+      }
 
-        // リトライ回数をチェック
-        if (retryCount >= this.maxRetries) {
-          console.log(
-            `Maximum retry count reached for submission ${submissionId}, removing from queue`
-          );
-          this.queue.shift(); // キューから削除
-        } else {
-          // リトライカウントを増やして待機リストの最後に移動
-          queueItem.retryCount++;
-          this.queue.shift();
-          this.queue.push(queueItem);
-          console.log(
-            `Will retry submission ${submissionId} later (retry ${queueItem.retryCount}/${this.maxRetries})`
-          );
-        }
+      review = await this.submissionService.getReviewBySubmissionId(
+        submission.id
+      );
+
+      // 提出が見つかった場合
+      if (submission.status === SubmissionStatus.REVIEWED) {
+        console.log(`Submission ${submissionId} is already reviewed, skipping`);
       } else {
-        // 提出が見つかった場合
-        if (submission.status === SubmissionStatus.REVIEWED) {
-          console.log(
-            `Submission ${submissionId} is already reviewed, skipping`
-          );
-          this.queue.shift(); // キューから削除
-        } else {
-          // AIレビューを実行
-          await this.aiService.reviewCode(submission);
-          console.log(`Review completed for submission ${submissionId}`);
-
-          // 追加: レビュー結果をBacklogに送信
-          try {
-            // レビューIDを取得
-            const review = await this.submissionService.getReviewBySubmissionId(
-              submission.id
+        this.publishProgress(review, submissionId, {
+          stage: "started",
+          attempt: job.attempts,
+        });
+
+        // AIレビューを実行
+        await this.aiService.reviewCode(submission, (stage, feedbackCount) =>
+          this.publishProgress(review, submissionId, {
+            stage,
+            feedback_count: feedbackCount,
+          })
+        );
+        console.log(`Review completed for submission ${submissionId}`);
+
+        // 提出者にレビュー完了を通知（失敗してもジョブは完了扱い）
+        await this.notifyReviewCompleted(submission.id);
+
+        // 追加: レビュー結果をBacklogに送信
+        try {
+          if (review && review.backlog_pr_id) {
+            console.log(
+              `Sending feedback to Backlog PR for review #${review.id}`
             );
+            const result =
+              await this.reviewFeedbackSenderService.sendReviewFeedbackToPullRequest(
+                review.id
+              );
 
-            if (review && review.backlog_pr_id) {
+            if (result) {
               console.log(
-                `Sending feedback to Backlog PR for review #${review.id}`
+                `Successfully sent feedback to Backlog PR for review #${review.id}`
               );
-              const result =
-                await this.reviewFeedbackSenderService.sendReviewFeedbackToPullRequest(
-                  review.id
-                );
-
-              if (result) {
-                console.log(
-                  `Successfully sent feedback to Backlog PR for review #${review.id}`
-                );
-              } else {
-                console.log(
-                  `Failed to send feedback to Backlog PR for review #${review.id}`
-                );
-              }
+              this.publishProgress(review, submissionId, {
+                stage: "sent_to_backlog",
+              });
             } else {
               console.log(
-                `Review #${review?.id} is not associated with a Backlog PR or not found`
+                `Failed to send feedback to Backlog PR for review #${review.id}`
               );
             }
-          } catch (feedbackError) {
-            console.error(
-              `Error sending feedback to Backlog for submission ${submissionId}:`,
-              feedbackError
+          } else {
+            console.log(
+              `Review #${review?.id} is not associated with a Backlog PR or not found`
             );
-            // フィードバック送信エラーの場合でも処理を続行（定期ジョブで再試行される）
           }
-
-          this.queue.shift(); // キューから削除
+        } catch (feedbackError) {
+          console.error(
+            `Error sending feedback to Backlog for submission ${submissionId}:`,
+            feedbackError
+          );
+          // フィードバック送信エラーの場合でも処理を続行（定期ジョブで再試行される）
         }
       }
+
+      await this.jobRepository.update(
+        { id: job.id, locked_by: this.workerId },
+        {
+          status: ReviewJobStatus.COMPLETED,
+          completed_at: new Date(),
+          last_error: null,
+          locked_by: null,
+          locked_at: null,
+        }
+      );
+      this.publishProgress(review, submissionId, { stage: "completed" });
     } catch (error) {
       console.error(
         `Error processing review for submission ${submissionId}:`,
         error
       );
 
-      // エラーが発生した場合もリトライ回数をチェック
-      if (retryCount >= this.maxRetries) {
-        console.log(
-          `Maximum retry count reached for submission ${submissionId} after error, removing from queue`
-        );
-        this.queue.shift(); // キューから削除
-      } else {
-        // リトライカウントを増やして待機リストの最後に移動
-        queueItem.retryCount++;
-        this.queue.shift();
-        this.queue.push(queueItem);
-        console.log(
-          `Will retry submission ${submissionId} later after error (retry ${queueItem.retryCount}/${this.maxRetries})`
-        );
-      }
+      const message = error instanceof Error ? error.message : String(error);
+      await this.leaseManager.release(job, message.substring(0, 2000));
+      this.publishProgress(review, submissionId, {
+        stage: "failed",
+        attempt: job.attempts,
+        will_retry: job.attempts < job.max_attempts,
+        error: message.substring(0, 500),
+      });
     } finally {
-      // 処理中リストから削除
-      this.processingItems.delete(submissionId);
-
-      // 一度待機してから次の処理
-      setTimeout(
-        () => {
-          this.processQueue().catch((error) => {
-            console.error("Error in queue processing:", error);
-            this.isProcessing = false;
-          });
-        },
-        retryCount > 0 ? this.retryDelayMs : 1000
-      ); // リトライの場合は長めに待機
+      clearInterval(heartbeat);
+      this.currentJobId = null;
+    }
+  }
+
+  /**
+   * レビュー処理の進捗を配信（レビューが見つからない提出は対象外）
+   * 進捗の保存に失敗してもレビュー処理は続ける
+   */
+  private publishProgress(
+    review: Review | null,
+    submissionId: number,
+    progress: Omit<
+      ReviewProgressInput,
+      "user_id" | "review_id" | "submission_id"
+    >
+  ): void {
+    if (!review) {
+      return;
+    }
+    this.progressService
+      .publish({
+        user_id: review.user_id,
+        review_id: review.id,
+        submission_id: submissionId,
+        ...progress,
+      })
+      .catch((error) =>
+        console.error(
+          `Error publishing review progress for submission ${submissionId}:`,
+          error
+        )
+      );
+  }
+
+  /**
+   * レビュー完了を提出者に通知
+   */
+  private async notifyReviewCompleted(submissionId: number): Promise<void> {
+    try {
+      const review = await this.submissionService.getReviewBySubmissionId(
+        submissionId
+      );
+      if (!review) {
+        return;
+      }
+      const feedbacks = await this.feedbackService.getFeedbacksBySubmissionId(
+        submissionId
+      );
+      await this.notificationService.notify(review.user_id, {
+        type: NotificationType.REVIEW_COMPLETED,
+        reviewId: review.id,
+        reviewTitle: review.title,
+        feedbackCount: feedbacks.length,
+      });
+    } catch (error) {
+      console.error(
+        `Error sending review completion notification for submission ${submissionId}:`,
+        error
+      );
     }
   }
 
   /**
    * 現在のキュー状態を取得
+   * ワーカーIDとエラー内容は管理者向けの詳細（includeDetails）を指定した場合だけ含める
    */
-  public getQueueStatus(): {
+  public async getQueueStatus(includeDetails: boolean = false): Promise<{
+    workerId?: string;
     queueLength: number;
     isProcessing: boolean;
+    currentJobId: number | null;
+    counts: Record<ReviewJobStatus, number>;
     processingItems: number[];
-    queueItems: { id: number; retries: number }[];
-  } {
+    queueItems: {
+      id: number;
+      jobId: number;
+      retries: number;
+      nextRunAt: Date;
+      lastError?: string | null;
+    }[];
+  }> {
+    const rows: { status: ReviewJobStatus; count: string }[] =
+      await this.jobRepository
+        .createQueryBuilder("job")
+        .select("job.status", "status")
+        .addSelect("COUNT(*)", "count")
+        .groupBy("job.status")
+        .getRawMany();
+
+    const counts = {
+      [ReviewJobStatus.PENDING]: 0,
+      [ReviewJobStatus.PROCESSING]: 0,
+      [ReviewJobStatus.COMPLETED]: 0,
+      [ReviewJobStatus.DEAD]: 0,
+    };
+    rows.forEach((row) => {
+      counts[row.status] = parseInt(row.count, 10);
+    });
+
+    const activeJobs = await this.jobRepository.find({
+      where: {
+        status: In([ReviewJobStatus.PENDING, ReviewJobStatus.PROCESSING]),
+      },
+      order: { next_run_at: "ASC", id: "ASC" },
+    });
+
     return {
-      queueLength: this.queue.length,
+      ...(includeDetails ? { workerId: this.workerId } : {}),
+      queueLength: counts[ReviewJobStatus.PENDING],
       isProcessing: this.isProcessing,
-      processingItems: Array.from(this.processingItems),
-      queueItems: this.queue.map((item) => ({
-        id: item.submissionId,
-        retries: item.retryCount,
-      })),
+      currentJobId: this.currentJobId,
+      counts,
+      processingItems: activeJobs
+        .filter((job) => job.status === ReviewJobStatus.PROCESSING)
+        .map((job) => job.submission_id),
+      queueItems: activeJobs
+        .filter((job) => job.status === ReviewJobStatus.PENDING)
+        .map((job) => ({
+          id: job.submission_id,
+          jobId: job.id,
+          retries: job.attempts,
+          nextRunAt: job.next_run_at,
+          ...(includeDetails ? { lastError: job.last_error } : {}),
+        })),
     };
   }
+
+  /**
+   * ジョブ一覧を取得（管理者向け）
+   */
+  public async getJobs(options: {
+    status?: ReviewJobStatus;
+    submissionId?: number;
+    limit?: number;
+  }): Promise<ReviewJob[]> {
+    const where: FindOptionsWhere<ReviewJob> = {};
+    if (options.status) {
+      where.status = options.status;
+    }
+    if (options.submissionId) {
+      where.submission_id = options.submissionId;
+    }
+
+    return this.jobRepository.find({
+      where,
+      order: { updated_at: "DESC" },
+      take: options.limit || 50,
+    });
+  }
+
+  /**
+   * デッドレターのジョブを再実行キューに戻す
+   */
+  public async retryDeadJob(jobId: number): Promise<ReviewJob | null> {
+    const job = await this.jobRepository.findOne({ where: { id: jobId } });
+    if (!job) {
+      return null;
+    }
+
+    if (job.status !== ReviewJobStatus.DEAD) {
+      throw new Error("デッドレター状態のジョブのみ再実行できます");
+    }
+
+    job.status = ReviewJobStatus.PENDING;
+    job.attempts = 0;
+    job.next_run_at = new Date();
+    job.locked_by = null;
+    job.locked_at = null;
+    const saved = await this.jobRepository.save(job);
+
+    this.wake();
+    return saved;
+  }
 }
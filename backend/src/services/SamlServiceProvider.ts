@@ -0,0 +1,455 @@
+// backend/src/services/SamlServiceProvider.ts
+import { createPublicKey, KeyObject, randomBytes } from "crypto";
+import { deflateRawSync } from "zlib";
+import { DOMParser, Element } from "@xmldom/xmldom";
+import { SignedXml } from "xml-crypto";
+import { SamlProviderConfig } from "./SsoProviderRegistry";
+
+const PROTOCOL_NS = "urn:oasis:names:tc:SAML:2.0:protocol";
+const ASSERTION_NS = "urn:oasis:names:tc:SAML:2.0:assertion";
+const DSIG_NS = "http://www.w3.org/2000/09/xmldsig#";
+const STATUS_SUCCESS = "urn:oasis:names:tc:SAML:2.0:status:Success";
+const BEARER = "urn:oasis:names:tc:SAML:2.0:cm:bearer";
+const NAMEID_EMAIL = "urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress";
+
+// SHA-1 の署名・ダイジェストは受け付けない
+const SIGNATURE_ALGORITHMS = [
+  "http://www.w3.org/2001/04/xmldsig-more#rsa-sha256",
+  "http://www.w3.org/2001/04/xmldsig-more#rsa-sha512",
+];
+const DIGEST_ALGORITHMS = [
+  "http://www.w3.org/2001/04/xmlenc#sha256",
+  "http://www.w3.org/2001/04/xmlenc#sha512",
+];
+
+// IdPとサーバーの時計のずれの許容範囲
+const CLOCK_SKEW_MS = 3 * 60 * 1000;
+
+/**
+ * 検証済みのアサーションから取り出したユーザー情報
+ */
+export interface SamlProfile {
+  nameId: string;
+  nameIdFormat: string | null;
+  attributes: Record<string, string[]>;
+}
+
+/**
+ * SAML 2.0 のサービスプロバイダー（このアプリ）
+ * 認証要求は HTTP-Redirect、レスポンスは HTTP-POST バインディングで受け取る。
+ * 署名の検証（正規化を含む）は xml-crypto で行い、IdPの証明書だけを使う（レスポンスに含まれる KeyInfo は使わない）。
+ * ユーザー情報は署名で検証された内容からだけ取り出す。
+ */
+export class SamlServiceProvider {
+  private idpPublicKey: KeyObject;
+
+  constructor(
+    private config: SamlProviderConfig,
+    private urls: { entityId: string; acsUrl: string }
+  ) {
+    this.idpPublicKey = createPublicKey(
+      SamlServiceProvider.toPem(config.idp_certificate)
+    );
+  }
+
+  /**
+   * 認証要求のID（XMLのIDとして使えるよう英字で始める）
+   */
+  static generateRequestId(): string {
+    return `_${randomBytes(20).toString("hex")}`;
+  }
+
+  /**
+   * IdPのシングルサインオンURL（認証要求付き）
+   */
+  buildLoginUrl(
+    requestId: string,
+    relayState: string,
+    now = new Date()
+  ): string {
+    const request =
+      `<samlp:AuthnRequest xmlns:samlp="${PROTOCOL_NS}" xmlns:saml="${ASSERTION_NS}"` +
+      ` ID="${requestId}" Version="2.0" IssueInstant="${now.toISOString()}"` +
+      ` Destination="${escapeXml(this.config.entry_point)}"` +
+      ` AssertionConsumerServiceURL="${escapeXml(this.urls.acsUrl)}"` +
+      ` ProtocolBinding="urn:oasis:names:tc:SAML:2.0:bindings:HTTP-POST">` +
+      `<saml:Issuer>${escapeXml(this.urls.entityId)}</saml:Issuer>` +
+      `<samlp:NameIDPolicy Format="${NAMEID_EMAIL}" AllowCreate="true"/>` +
+      `</samlp:AuthnRequest>`;
+
+    const url = new URL(this.config.entry_point);
+    url.searchParams.set(
+      "SAMLRequest",
+      deflateRawSync(Buffer.from(request, "utf8")).toString("base64")
+    );
+    url.searchParams.set("RelayState", relayState);
+    return url.toString();
+  }
+
+  /**
+   * IdPに登録するサービスプロバイダーのメタデータ
+   */
+  buildMetadata(): string {
+    return (
+      `<?xml version="1.0" encoding="UTF-8"?>\n` +
+      `<md:EntityDescriptor xmlns:md="urn:oasis:names:tc:SAML:2.0:metadata" entityID="${escapeXml(
+        this.urls.entityId
+      )}">` +
+      `<md:SPSSODescriptor AuthnRequestsSigned="false" WantAssertionsSigned="true" protocolSupportEnumeration="${PROTOCOL_NS}">` +
+      `<md:NameIDFormat>${NAMEID_EMAIL}</md:NameIDFormat>` +
+      `<md:AssertionConsumerService Binding="urn:oasis:names:tc:SAML:2.0:bindings:HTTP-POST" Location="${escapeXml(
+        this.urls.acsUrl
+      )}" index="0" isDefault="true"/>` +
+      `</md:SPSSODescriptor>` +
+      `</md:EntityDescriptor>`
+    );
+  }
+
+  /**
+   * IdPから受け取ったレスポンス（Base64）を検証してユーザー情報を返す
+   * @param expectedRequestId このアプリが送った認証要求のID（IdP起点のログインは受け付けない）
+   */
+  validateResponse(
+    samlResponse: string,
+    expectedRequestId: string,
+    now = new Date()
+  ): SamlProfile {
+    const xml = Buffer.from(samlResponse, "base64").toString("utf8");
+    let response: Element;
+    try {
+      response = parseXml(xml);
+    } catch (error) {
+      throw new Error("SAMLレスポンスを読み取れませんでした");
+    }
+
+    if (
+      !isElement(response, PROTOCOL_NS, "Response") ||
+      childElements(response, ASSERTION_NS, "EncryptedAssertion").length > 0
+    ) {
+      throw new Error(
+        "SAMLレスポンスの形式に対応していません（暗号化されたアサーションには未対応です）"
+      );
+    }
+
+    const statusCode = firstChild(
+      firstChild(response, PROTOCOL_NS, "Status"),
+      PROTOCOL_NS,
+      "StatusCode"
+    );
+    if (!statusCode || statusCode.getAttribute("Value") !== STATUS_SUCCESS) {
+      throw new Error("IdPでの認証に失敗しました");
+    }
+
+    // 署名の対象外にアサーションを紛れ込ませる攻撃を防ぐため、アサーションは1つだけ受け付ける
+    const assertions = response.getElementsByTagNameNS(
+      ASSERTION_NS,
+      "Assertion"
+    );
+    if (assertions.length !== 1 || assertions[0].parentNode !== response) {
+      throw new Error("SAMLレスポンスにはアサーションが1つだけ必要です");
+    }
+    const assertion = assertions[0];
+
+    // レスポンスとアサーションのどちらか（または両方）が署名されていること
+    const responseSignature = firstChild(response, DSIG_NS, "Signature");
+    const assertionSignature = firstChild(assertion, DSIG_NS, "Signature");
+    if (!responseSignature && !assertionSignature) {
+      throw new Error("SAMLレスポンスが署名されていません");
+    }
+
+    // 以降は署名で検証された（正規化済みの）アサーションだけを参照する
+    let signedAssertion: Element | null = null;
+    if (responseSignature) {
+      const signedResponse = this.verifySignature(
+        xml,
+        responseSignature,
+        response
+      );
+      signedAssertion = firstChild(signedResponse, ASSERTION_NS, "Assertion");
+    }
+    if (assertionSignature) {
+      signedAssertion = this.verifySignature(
+        xml,
+        assertionSignature,
+        assertion
+      );
+    }
+    if (!signedAssertion) {
+      throw new Error("SAMLレスポンスにはアサーションが1つだけ必要です");
+    }
+
+    this.validateResponseAttributes(response, expectedRequestId);
+    this.validateAssertion(signedAssertion, expectedRequestId, now);
+
+    const subject = firstChild(signedAssertion, ASSERTION_NS, "Subject");
+    const nameId = firstChild(subject, ASSERTION_NS, "NameID");
+    if (!nameId || !textContent(nameId).trim()) {
+      throw new Error("アサーションに NameID が含まれていません");
+    }
+
+    const attributes: Record<string, string[]> = {};
+    childElements(signedAssertion, ASSERTION_NS, "AttributeStatement").forEach(
+      (statement) => {
+        childElements(statement, ASSERTION_NS, "Attribute").forEach(
+          (attribute) => {
+            const name = attribute.getAttribute("Name");
+            if (name) {
+              attributes[name] = childElements(
+                attribute,
+                ASSERTION_NS,
+                "AttributeValue"
+              ).map((value) => textContent(value).trim());
+            }
+          }
+        );
+      }
+    );
+
+    return {
+      nameId: textContent(nameId).trim(),
+      nameIdFormat: nameId.getAttribute("Format"),
+      attributes,
+    };
+  }
+
+  private validateResponseAttributes(
+    response: Element,
+    expectedRequestId: string
+  ): void {
+    const destination = response.getAttribute("Destination");
+    if (destination && destination !== this.urls.acsUrl) {
+      throw new Error("SAMLレスポンスの宛先（Destination）が一致しません");
+    }
+    if (response.getAttribute("InResponseTo") !== expectedRequestId) {
+      throw new Error("SAMLレスポンスが認証要求と対応していません");
+    }
+  }
+
+  /**
+   * 発行者・有効期間・対象・サブジェクトの確認情報を検証
+   */
+  private validateAssertion(
+    assertion: Element,
+    expectedRequestId: string,
+    now: Date
+  ): void {
+    const issuer = textContent(
+      firstChild(assertion, ASSERTION_NS, "Issuer")
+    ).trim();
+    if (issuer !== this.config.idp_issuer) {
+      throw new Error(`アサーションの発行者が一致しません: ${issuer}`);
+    }
+
+    const conditions = firstChild(assertion, ASSERTION_NS, "Conditions");
+    if (!conditions) {
+      throw new Error("アサーションに有効期間（Conditions）が含まれていません");
+    }
+    this.validateTimeWindow(conditions, now);
+
+    const audiences = childElements(
+      conditions,
+      ASSERTION_NS,
+      "AudienceRestriction"
+    );
+    if (
+      audiences.length === 0 ||
+      !audiences.every((restriction) =>
+        childElements(restriction, ASSERTION_NS, "Audience").some(
+          (audience) => textContent(audience).trim() === this.urls.entityId
+        )
+      )
+    ) {
+      throw new Error("アサーションの対象（Audience）が一致しません");
+    }
+
+    // 確認方法が bearer で、このアプリのACS宛て・有効期間内・認証要求に対応するもの
+    const subject = firstChild(assertion, ASSERTION_NS, "Subject");
+    const confirmed = childElements(
+      subject || assertion,
+      ASSERTION_NS,
+      "SubjectConfirmation"
+    ).some((confirmation) => {
+      const data = firstChild(
+        confirmation,
+        ASSERTION_NS,
+        "SubjectConfirmationData"
+      );
+      if (confirmation.getAttribute("Method") !== BEARER || !data) {
+        return false;
+      }
+      const notOnOrAfter = data.getAttribute("NotOnOrAfter");
+      const inResponseTo = data.getAttribute("InResponseTo");
+      return (
+        data.getAttribute("Recipient") === this.urls.acsUrl &&
+        !!notOnOrAfter &&
+        now.getTime() < Date.parse(notOnOrAfter) + CLOCK_SKEW_MS &&
+        (!inResponseTo || inResponseTo === expectedRequestId)
+      );
+    });
+    if (!subject || !confirmed) {
+      throw new Error("アサーションのサブジェクトを確認できませんでした");
+    }
+  }
+
+  private validateTimeWindow(conditions: Element, now: Date): void {
+    const notBefore = conditions.getAttribute("NotBefore");
+    const notOnOrAfter = conditions.getAttribute("NotOnOrAfter");
+    if (
+      (notBefore && now.getTime() + CLOCK_SKEW_MS < Date.parse(notBefore)) ||
+      (notOnOrAfter &&
+        now.getTime() >= Date.parse(notOnOrAfter) + CLOCK_SKEW_MS)
+    ) {
+      throw new Error("アサーションの有効期間外です");
+    }
+  }
+
+  /**
+   * 署名（XML Signature）を検証し、署名された要素（正規化済み）を返す
+   * 参照先は署名の親要素そのものであることを確認する（IDの重複は xml-crypto が拒否する）
+   */
+  private verifySignature(
+    xml: string,
+    signature: Element,
+    signedElement: Element
+  ): Element {
+    const invalid = (reason: string): never => {
+      throw new Error(`SAMLレスポンスの署名が正しくありません（${reason}）`);
+    };
+
+    const signedInfo = firstChild(signature, DSIG_NS, "SignedInfo");
+    const signatureMethod = firstChild(signedInfo, DSIG_NS, "SignatureMethod");
+    if (
+      !SIGNATURE_ALGORITHMS.includes(
+        signatureMethod?.getAttribute("Algorithm") || ""
+      )
+    ) {
+      invalid("対応していない署名方式です");
+    }
+
+    const references = childElements(signedInfo, DSIG_NS, "Reference");
+    const id = signedElement.getAttribute("ID");
+    if (
+      references.length !== 1 ||
+      !id ||
+      references[0].getAttribute("URI") !== `#${id}`
+    ) {
+      invalid("署名の対象が一致しません");
+    }
+    const digestMethod = firstChild(references[0], DSIG_NS, "DigestMethod");
+    if (
+      !DIGEST_ALGORITHMS.includes(digestMethod?.getAttribute("Algorithm") || "")
+    ) {
+      invalid("対応していないダイジェスト方式です");
+    }
+
+    const verifier = new SignedXml({
+      publicCert: this.idpPublicKey,
+      getCertFromKeyInfo: () => null,
+    });
+    verifier.loadSignature(signature);
+    let verified = false;
+    try {
+      verified = verifier.checkSignature(xml);
+    } catch (error) {
+      invalid("IdPの証明書で検証できません");
+    }
+    if (!verified) {
+      invalid("内容が改ざんされています");
+    }
+
+    const [signedXml] = verifier.getSignedReferences();
+    if (!signedXml) {
+      invalid("署名の対象が一致しません");
+    }
+    return parseXml(signedXml);
+  }
+
+  /**
+   * 証明書をPEM形式にする（IdPのメタデータに載っているBase64の本文のみの場合に対応）
+   */
+  private static toPem(certificate: string): string {
+    const trimmed = certificate.trim().replace(/\\n/g, "\n");
+    if (trimmed.startsWith("-----BEGIN")) {
+      return trimmed;
+    }
+    const body = trimmed.replace(/\s/g, "").replace(/(.{64})(?!$)/g, "$1\n");
+    return `-----BEGIN CERTIFICATE-----\n${body}\n-----END CERTIFICATE-----`;
+  }
+}
+
+/**
+ * XMLを解析してルート要素を返す
+ * DTDは受け付けない（XXE対策）
+ */
+function parseXml(xml: string): Element {
+  const document = new DOMParser({
+    onError: (level, message) => {
+      if (level !== "warning") {
+        throw new Error(message);
+      }
+    },
+  }).parseFromString(xml, "text/xml");
+  if (document.doctype || !document.documentElement) {
+    throw new Error("DTDを含むXMLには対応していません");
+  }
+  return document.documentElement;
+}
+
+function isElement(
+  element: Element | null,
+  namespace: string,
+  localName: string
+): boolean {
+  return (
+    !!element &&
+    element.namespaceURI === namespace &&
+    element.localName === localName
+  );
+}
+
+/**
+ * 名前空間と名前が一致する子要素
+ */
+function childElements(
+  parent: Element | null,
+  namespace: string,
+  localName: string
+): Element[] {
+  const elements: Element[] = [];
+  if (!parent) {
+    return elements;
+  }
+  for (let index = 0; index < parent.childNodes.length; index++) {
+    const node = parent.childNodes[index];
+    if (
+      node.nodeType === node.ELEMENT_NODE &&
+      isElement(node as Element, namespace, localName)
+    ) {
+      elements.push(node as Element);
+    }
+  }
+  return elements;
+}
+
+function firstChild(
+  parent: Element | null,
+  namespace: string,
+  localName: string
+): Element | null {
+  return childElements(parent, namespace, localName)[0] || null;
+}
+
+function textContent(element: Element | null): string {
+  return element?.textContent || "";
+}
+
+/**
+ * テキストをXMLの文字データ・属性値として出力できるようにエスケープ
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,123 @@
+// backend/src/services/SimilarReviewRankingService.ts
+
+/**
+ * ベクトル検索でヒットしたコード提出
+ * distance はベクトルストアの距離（小さいほど近い）
+ */
+export interface SubmissionSearchHit {
+  submission_id: number;
+  review_id: number;
+  distance: number;
+}
+
+/**
+ * レビュー単位にまとめた類似結果
+ */
+export interface RankedReviewMatch {
+  review_id: number;
+  submission_id: number; // 最も近かったコード提出
+  similarity: number; // 0〜1（大きいほど近い）
+}
+
+export interface RankOptions {
+  excludeReviewId: number; // 検索元のレビュー
+  allowedReviewIds: Set<number> | null; // 閲覧できるレビュー（null は制限なし）
+  limit: number;
+  minSimilarity?: number;
+}
+
+export interface ReviewAuthor {
+  id: number;
+  name: string;
+  isTrainee: boolean;
+}
+
+/**
+ * 類似する過去のレビューの順位付けと、投稿者名の匿名化を行うサービス
+ */
+export class SimilarReviewRankingService {
+  /**
+   * ベクトルストアの距離を類似度（0〜1）に変換
+   * Chroma（cosine）・MySQLのどちらも 1 - コサイン類似度 を返す
+   */
+  toSimilarity(distance: number): number {
+    return Math.min(1, Math.max(0, 1 - distance));
+  }
+
+  /**
+   * 検索結果をレビュー単位にまとめ、閲覧できるものだけを類似度順に並べる
+   * 同じレビューの複数バージョンがヒットした場合は最も近いものを採用する
+   */
+  rank(hits: SubmissionSearchHit[], options: RankOptions): RankedReviewMatch[] {
+    const minSimilarity = options.minSimilarity ?? 0;
+    const best = new Map<number, RankedReviewMatch>();
+
+    hits.forEach((hit) => {
+      if (
+        hit.review_id === options.excludeReviewId ||
+        (options.allowedReviewIds &&
+          !options.allowedReviewIds.has(hit.review_id))
+      ) {
+        return;
+      }
+
+      const similarity = this.toSimilarity(hit.distance);
+      if (similarity < minSimilarity) {
+        return;
+      }
+
+      const current = best.get(hit.review_id);
+      if (!current || similarity > current.similarity) {
+        best.set(hit.review_id, {
+          review_id: hit.review_id,
+          submission_id: hit.submission_id,
+          similarity,
+        });
+      }
+    });
+
+    return Array.from(best.values())
+      .sort((a, b) => b.similarity - a.similarity || a.review_id - b.review_id)
+      .slice(0, options.limit);
+  }
+
+  /**
+   * 投稿者の表示名を決める
+   * 匿名化する場合、閲覧者本人以外の研修生は「受講者A」「受講者B」…と表示する
+   * （同じ投稿者には同じ表示名を割り当てる）
+   */
+  buildAuthorLabels(
+    authors: ReviewAuthor[],
+    viewerId: number,
+    anonymize: boolean
+  ): Map<number, string> {
+    const labels = new Map<number, string>();
+    let anonymousCount = 0;
+
+    authors.forEach((author) => {
+      if (labels.has(author.id)) {
+        return;
+      }
+      if (anonymize && author.isTrainee && author.id !== viewerId) {
+        labels.set(author.id, `受講者${this.toAlphabet(anonymousCount++)}`);
+      } else {
+        labels.set(author.id, author.name);
+      }
+    });
+
+    return labels;
+  }
+
+  /**
+   * 0 → A, 25 → Z, 26 → AA
+   */
+  private toAlphabet(index: number): string {
+    let label = "";
+    let value = index;
+    do {
+      label = String.fromCharCode(65 + (value % 26)) + label;
+      value = Math.floor(value / 26) - 1;
+    } while (value >= 0);
+    return label;
+  }
+}
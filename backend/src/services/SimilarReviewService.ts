@@ -0,0 +1,350 @@
+// backend/src/services/SimilarReviewService.ts
+import { In } from "typeorm";
+import { AppDataSource } from "../index";
+import { Review } from "../models/Review";
+import { CodeSubmission } from "../models/CodeSubmission";
+import { CodeEmbedding } from "../models/CodeEmbedding";
+import { FeedbackPriority } from "../models/Feedback";
+import { UserRole } from "../models/User";
+import { CodeEmbeddingService } from "./CodeEmbeddingService";
+import { ReviewService } from "./ReviewService";
+import {
+  SimilarReviewRankingService,
+  SubmissionSearchHit,
+} from "./SimilarReviewRankingService";
+
+export type SimilarReviewScope = "project" | "organization";
+
+// ベクトル検索で取得する候補数（閲覧できないレビューを除いた後に上限まで残るよう多めに取る）
+const SEARCH_CANDIDATES = 50;
+// 1件あたりに表示する主な指摘の数
+const KEY_FEEDBACK_LIMIT = 3;
+// 返却するコードの最大文字数
+const MAX_CODE_LENGTH = 1500;
+// 起動時に一度にベクトル化する提出の件数
+const BACKFILL_BATCH_SIZE = 20;
+
+const PRIORITY_ORDER: Record<FeedbackPriority, number> = {
+  [FeedbackPriority.HIGH]: 0,
+  [FeedbackPriority.MEDIUM]: 1,
+  [FeedbackPriority.LOW]: 2,
+};
+
+export interface SimilarReviewViewer {
+  id: number;
+  isAdmin: boolean;
+}
+
+export interface SimilarReviewItem {
+  review_id: number;
+  review_title: string;
+  review_status: string;
+  project: { id: number; name: string } | null;
+  author_name: string;
+  is_own_review: boolean;
+  similarity: number;
+  matched_submission: {
+    id: number;
+    version: number;
+    code_excerpt: string;
+  };
+  key_feedbacks: {
+    id: number;
+    problem_point: string;
+    suggestion: string;
+    priority: FeedbackPriority;
+    category: string | null;
+    is_resolved: boolean;
+  }[];
+  resolution: {
+    resolved_count: number;
+    total_count: number;
+    // 指摘を受けて提出し直した最新のコード（再提出がなければ null）
+    fixed_submission: {
+      id: number;
+      version: number;
+      code_excerpt: string;
+    } | null;
+  };
+}
+
+export interface SimilarReviewResult {
+  scope: SimilarReviewScope;
+  anonymized: boolean;
+  items: SimilarReviewItem[];
+}
+
+/**
+ * 過去のコード提出から類似するレビューを探すサービス
+ * 研修生が同じような課題を他の人がどう直したかを参考にできるようにする
+ *
+ *   SIMILAR_REVIEWS_ANONYMIZE=true             他の研修生の名前を匿名で表示する
+ *   SIMILAR_REVIEWS_SHARE_ACROSS_PROJECTS=true 研修生にも所属外のプロジェクトのレビューを表示する
+ */
+export class SimilarReviewService {
+  private reviewRepository = AppDataSource.getRepository(Review);
+  private submissionRepository = AppDataSource.getRepository(CodeSubmission);
+  private codeEmbeddingService = new CodeEmbeddingService();
+  private reviewService = new ReviewService();
+  private rankingService = new SimilarReviewRankingService();
+
+  /**
+   * レビューの最新の提出に類似する過去のレビューを取得
+   */
+  async findSimilarReviews(
+    review: Review,
+    viewer: SimilarReviewViewer,
+    scope: SimilarReviewScope,
+    limit: number
+  ): Promise<SimilarReviewResult> {
+    const anonymized =
+      !viewer.isAdmin && process.env.SIMILAR_REVIEWS_ANONYMIZE === "true";
+    const result: SimilarReviewResult = { scope, anonymized, items: [] };
+
+    const latestSubmission = await this.submissionRepository.findOne({
+      where: { review_id: review.id },
+      order: { version: "DESC" },
+    });
+    if (!latestSubmission) {
+      return result;
+    }
+
+    const allowedReviewIds = await this.getAllowedReviewIds(
+      review,
+      viewer,
+      scope
+    );
+    if (allowedReviewIds && allowedReviewIds.size === 0) {
+      return result;
+    }
+
+    const searchResults = await this.codeEmbeddingService.similarCodeSearch(
+      latestSubmission.code_content,
+      SEARCH_CANDIDATES
+    );
+    const hits: SubmissionSearchHit[] = searchResults.flatMap(
+      ({ document, score }) => {
+        const submissionId = Number(document.metadata?.submission_id);
+        const reviewId = Number(document.metadata?.review_id);
+        return submissionId && reviewId
+          ? [
+              {
+                submission_id: submissionId,
+                review_id: reviewId,
+                distance: score,
+              },
+            ]
+          : [];
+      }
+    );
+
+    const matches = this.rankingService.rank(hits, {
+      excludeReviewId: review.id,
+      allowedReviewIds,
+      limit,
+    });
+    if (matches.length === 0) {
+      return result;
+    }
+
+    const matchedReviewIds = matches.map((match) => match.review_id);
+    const [reviews, submissions] = await Promise.all([
+      this.reviewRepository.find({
+        where: { id: In(matchedReviewIds) },
+        relations: ["user", "project"],
+      }),
+      this.submissionRepository.find({
+        where: { review_id: In(matchedReviewIds) },
+        relations: ["feedbacks"],
+        order: { version: "ASC" },
+      }),
+    ]);
+    const reviewsById = new Map(reviews.map((r) => [r.id, r]));
+
+    const authorLabels = this.rankingService.buildAuthorLabels(
+      matches.flatMap((match) => {
+        const matchedReview = reviewsById.get(match.review_id);
+        return matchedReview?.user
+          ? [
+              {
+                id: matchedReview.user.id,
+                name: matchedReview.user.name,
+                isTrainee: matchedReview.user.role === UserRole.TRAINEE,
+              },
+            ]
+          : [];
+      }),
+      viewer.id,
+      anonymized
+    );
+
+    result.items = matches.flatMap((match) => {
+      const matchedReview = reviewsById.get(match.review_id);
+      const reviewSubmissions = submissions.filter(
+        (submission) => submission.review_id === match.review_id
+      );
+      const matchedSubmission = reviewSubmissions.find(
+        (submission) => submission.id === match.submission_id
+      );
+      // 検索後に削除されたレビュー・提出は除外する
+      if (!matchedReview || !matchedSubmission) {
+        return [];
+      }
+
+      const feedbacks = matchedSubmission.feedbacks || [];
+      const latest = reviewSubmissions[reviewSubmissions.length - 1];
+
+      return [
+        {
+          review_id: matchedReview.id,
+          review_title: matchedReview.title,
+          review_status: matchedReview.status,
+          project: matchedReview.project
+            ? { id: matchedReview.project.id, name: matchedReview.project.name }
+            : null,
+          author_name: authorLabels.get(matchedReview.user_id) || "不明",
+          is_own_review: matchedReview.user_id === viewer.id,
+          similarity: Math.round(match.similarity * 1000) / 1000,
+          matched_submission: {
+            id: matchedSubmission.id,
+            version: matchedSubmission.version,
+            code_excerpt: this.truncate(matchedSubmission.code_content),
+          },
+          key_feedbacks: [...feedbacks]
+            .sort(
+              (a, b) =>
+                PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] ||
+                a.id - b.id
+            )
+            .slice(0, KEY_FEEDBACK_LIMIT)
+            .map((feedback) => ({
+              id: feedback.id,
+              problem_point: feedback.problem_point,
+              suggestion: feedback.suggestion,
+              priority: feedback.priority,
+              category: feedback.category || null,
+              is_resolved: feedback.is_resolved || feedback.is_checked,
+            })),
+          resolution: {
+            resolved_count: feedbacks.filter(
+              (feedback) => feedback.is_resolved || feedback.is_checked
+            ).length,
+            total_count: feedbacks.length,
+            fixed_submission:
+              latest.version > matchedSubmission.version
+                ? {
+                    id: latest.id,
+                    version: latest.version,
+                    code_excerpt: this.truncate(latest.code_content),
+                  }
+                : null,
+          },
+        },
+      ];
+    });
+
+    return result;
+  }
+
+  /**
+   * コード提出をベクトル化して類似検索の対象にする（バックグラウンド実行）
+   */
+  indexSubmissionInBackground(submission: CodeSubmission): void {
+    this.codeEmbeddingService.createEmbedding(submission).catch((error) => {
+      console.error(
+        `コード提出 ${submission.id} のベクトル化に失敗しました:`,
+        error
+      );
+    });
+  }
+
+  /**
+   * まだベクトル化されていない過去の提出をベクトル化
+   * @returns ベクトル化した件数
+   */
+  async backfillEmbeddings(): Promise<number> {
+    let indexed = 0;
+    let lastId = 0;
+
+    for (;;) {
+      const submissions = await this.submissionRepository
+        .createQueryBuilder("submission")
+        .leftJoin(
+          CodeEmbedding,
+          "embedding",
+          "embedding.submission_id = submission.id"
+        )
+        .where("embedding.id IS NULL")
+        .andWhere("submission.id > :lastId", { lastId })
+        .orderBy("submission.id", "ASC")
+        .take(BACKFILL_BATCH_SIZE)
+        .getMany();
+      if (submissions.length === 0) {
+        break;
+      }
+
+      for (const submission of submissions) {
+        try {
+          await this.codeEmbeddingService.createEmbedding(submission);
+          indexed++;
+        } catch (error) {
+          console.error(
+            `コード提出 ${submission.id} のベクトル化に失敗しました:`,
+            error
+          );
+        }
+      }
+      lastId = submissions[submissions.length - 1].id;
+    }
+
+    if (indexed > 0) {
+      console.log(`過去のコード提出 ${indexed}件をベクトル化しました`);
+    }
+    return indexed;
+  }
+
+  /**
+   * 検索対象にできるレビューのID（null は制限なし）
+   */
+  private async getAllowedReviewIds(
+    review: Review,
+    viewer: SimilarReviewViewer,
+    scope: SimilarReviewScope
+  ): Promise<Set<number> | null> {
+    // 閲覧者がアクセスできるレビュー（管理者・共有設定がある場合は全体）
+    const shareAll =
+      viewer.isAdmin ||
+      (scope === "organization" &&
+        process.env.SIMILAR_REVIEWS_SHARE_ACROSS_PROJECTS === "true");
+    const accessible = shareAll
+      ? null
+      : new Set<number>(
+          (await this.reviewService.getUserAccessibleReviews(viewer.id)).map(
+            (r) => r.id
+          )
+        );
+
+    if (scope === "organization") {
+      return accessible;
+    }
+
+    if (!review.project_id) {
+      return new Set();
+    }
+    const projectReviews = await this.reviewRepository.find({
+      select: ["id"],
+      where: { project_id: review.project_id },
+    });
+    return new Set(
+      projectReviews
+        .map((r) => r.id)
+        .filter((id) => !accessible || accessible.has(id))
+    );
+  }
+
+  private truncate(code: string): string {
+    return code.length > MAX_CODE_LENGTH
+      ? code.substring(0, MAX_CODE_LENGTH) + "\n...(省略)..."
+      : code;
+  }
+}
@@ -0,0 +1,303 @@
+// backend/src/services/SmtpMailer.ts
+import net from "net";
+import tls from "tls";
+import os from "os";
+import crypto from "crypto";
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // 接続時からTLSを使う（465番ポートなど）
+  user?: string;
+  password?: string;
+  requireTls?: boolean; // 認証情報をTLSなしで送らない（既定は true）
+  from: string; // 例: "Code Reviewer <noreply@example.com>"
+  timeoutMs?: number;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+// 応答を待つ時間の既定値
+const DEFAULT_TIMEOUT_MS = 30000;
+
+/**
+ * SMTPサーバーにメールを送信するクライアント
+ *
+ * EHLO → （STARTTLS）→ AUTH LOGIN → MAIL FROM → RCPT TO → DATA → QUIT の順に送信する。
+ * 本文はUTF-8のプレーンテキストをBase64で送る。
+ *
+ *   SMTP_HOST     未設定の場合はメール送信を行わない
+ *   SMTP_PORT     既定は 587（SMTP_SECURE=true の場合は 465）
+ *   SMTP_SECURE   true の場合は接続時からTLSを使う
+ *   SMTP_USER / SMTP_PASSWORD  設定されている場合は AUTH LOGIN で認証する
+ *   SMTP_REQUIRE_TLS  false 以外の場合、TLSを使えないサーバーには認証情報を送らずに送信を中止する
+ *   SMTP_FROM     送信元アドレス
+ */
+export class SmtpMailer {
+  private socket: net.Socket | null = null;
+  private buffer = "";
+  private pendingLines: string[] = [];
+  private waiter: {
+    resolve: (reply: SmtpReply) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private config: SmtpConfig) {}
+
+  /**
+   * 環境変数から作成（SMTP_HOST が未設定の場合は null）
+   */
+  static fromEnv(): SmtpMailer | null {
+    const host = process.env.SMTP_HOST;
+    if (!host) {
+      return null;
+    }
+    const secure = process.env.SMTP_SECURE === "true";
+    return new SmtpMailer({
+      host,
+      port: parseInt(process.env.SMTP_PORT || (secure ? "465" : "587"), 10),
+      secure,
+      user: process.env.SMTP_USER || undefined,
+      password: process.env.SMTP_PASSWORD || undefined,
+      requireTls: process.env.SMTP_REQUIRE_TLS !== "false",
+      from: process.env.SMTP_FROM || "Code Reviewer <noreply@localhost>",
+    });
+  }
+
+  /**
+   * メールを1通送信
+   * 1通ごとに接続し、送信後に切断する
+   */
+  async send(message: MailMessage): Promise<void> {
+    try {
+      await this.connect();
+      await this.expect(this.readReply(), [220]);
+
+      const ehlo = await this.command(`EHLO ${os.hostname()}`, [250]);
+      let capabilities = ehlo.lines.map((line) => line.toUpperCase());
+      let encrypted = this.config.secure;
+
+      if (
+        !this.config.secure &&
+        capabilities.some((line) => line.startsWith("STARTTLS"))
+      ) {
+        await this.command("STARTTLS", [220]);
+        await this.upgradeToTls();
+        encrypted = true;
+        const secureEhlo = await this.command(`EHLO ${os.hostname()}`, [250]);
+        capabilities = secureEhlo.lines.map((line) => line.toUpperCase());
+      }
+
+      if (this.config.user && this.config.password) {
+        if (!encrypted && this.config.requireTls !== false) {
+          throw new Error(
+            "SMTPサーバーがSTARTTLSに対応していないため、認証情報を送信せずに中止しました（平文での認証を許可する場合は SMTP_REQUIRE_TLS=false）"
+          );
+        }
+        await this.command("AUTH LOGIN", [334]);
+        await this.command(this.toBase64(this.config.user), [334]);
+        await this.command(this.toBase64(this.config.password), [235]);
+      }
+
+      await this.command(
+        `MAIL FROM:<${SmtpMailer.extractAddress(this.config.from)}>`,
+        [250]
+      );
+      await this.command(
+        `RCPT TO:<${SmtpMailer.extractAddress(message.to)}>`,
+        [250, 251]
+      );
+      await this.command("DATA", [354]);
+      await this.command(
+        `${SmtpMailer.buildMessage(this.config.from, message)}\r\n.`,
+        [250]
+      );
+      await this.command("QUIT", [221]).catch(() => undefined);
+    } finally {
+      this.close();
+    }
+  }
+
+  /**
+   * 送信するメッセージ（ヘッダーと本文）を作成
+   */
+  static buildMessage(
+    from: string,
+    message: MailMessage,
+    date: Date = new Date()
+  ): string {
+    const domain = SmtpMailer.extractAddress(from).split("@")[1] || "localhost";
+    const body = Buffer.from(message.text.replace(/\r?\n/g, "\r\n"), "utf8")
+      .toString("base64")
+      .replace(/.{1,76}/g, "$&\r\n")
+      .trimEnd();
+
+    return [
+      `From: ${from}`,
+      `To: ${message.to}`,
+      `Subject: ${SmtpMailer.encodeHeader(message.subject)}`,
+      `Date: ${date.toUTCString()}`,
+      `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+      "MIME-Version: 1.0",
+      "Content-Type: text/plain; charset=UTF-8",
+      "Content-Transfer-Encoding: base64",
+      "",
+      body,
+    ].join("\r\n");
+  }
+
+  /**
+   * "名前 <address>" 形式からアドレスだけを取り出す
+   */
+  static extractAddress(value: string): string {
+    const match = value.match(/<([^>]+)>/);
+    return (match ? match[1] : value).trim();
+  }
+
+  /**
+   * ASCII以外を含むヘッダーをMIMEエンコード
+   */
+  static encodeHeader(value: string): string {
+    return /^[\x20-\x7e]*$/.test(value)
+      ? value
+      : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+  }
+
+  private connect(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const { host, port, secure } = this.config;
+      const onError = (error: Error) => reject(error);
+      const socket = secure
+        ? tls.connect({ host, port, servername: host }, () => resolve())
+        : net.connect({ host, port }, () => resolve());
+      socket.once("error", onError);
+      this.attach(socket);
+    });
+  }
+
+  private upgradeToTls(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const plain = this.socket!;
+      // 以降の読み書きはTLSソケット経由で行う
+      plain.removeAllListeners();
+      plain.setTimeout(0);
+      plain.on("error", () => undefined);
+      const secureSocket = tls.connect(
+        { socket: plain, servername: this.config.host },
+        () => resolve()
+      );
+      secureSocket.once("error", reject);
+      this.attach(secureSocket);
+    });
+  }
+
+  private attach(socket: net.Socket): void {
+    this.socket = socket;
+    this.buffer = "";
+    socket.setEncoding("utf8");
+    socket.setTimeout(this.config.timeoutMs || DEFAULT_TIMEOUT_MS, () => {
+      this.fail(new Error("SMTPサーバーからの応答がタイムアウトしました"));
+    });
+    socket.on("data", (chunk: string) => {
+      this.buffer += chunk;
+      let index: number;
+      while ((index = this.buffer.indexOf("\r\n")) >= 0) {
+        this.pendingLines.push(this.buffer.substring(0, index));
+        this.buffer = this.buffer.substring(index + 2);
+      }
+      this.flush();
+    });
+    socket.on("error", (error) => this.fail(error));
+    socket.on("close", () =>
+      this.fail(new Error("SMTPサーバーとの接続が切断されました"))
+    );
+  }
+
+  /**
+   * 受信済みの行から応答（複数行の場合は "250-" が続き "250 " で終わる）を取り出す
+   */
+  private flush(): void {
+    if (!this.waiter) {
+      return;
+    }
+    const lastIndex = this.pendingLines.findIndex((line) =>
+      /^\d{3}(?: |$)/.test(line)
+    );
+    if (lastIndex < 0) {
+      return;
+    }
+    const lines = this.pendingLines.splice(0, lastIndex + 1);
+    const waiter = this.waiter;
+    this.waiter = null;
+    waiter.resolve({
+      code: parseInt(lines[lastIndex].substring(0, 3), 10),
+      lines: lines.map((line) => line.substring(4)),
+    });
+  }
+
+  private fail(error: Error): void {
+    this.failure = this.failure || error;
+    if (this.waiter) {
+      const waiter = this.waiter;
+      this.waiter = null;
+      waiter.reject(this.failure);
+    }
+  }
+
+  private readReply(): Promise<SmtpReply> {
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+      this.flush();
+      if (this.waiter && this.failure) {
+        this.fail(this.failure);
+      }
+    });
+  }
+
+  private async command(line: string, expected: number[]): Promise<SmtpReply> {
+    this.socket!.write(`${line}\r\n`);
+    return this.expect(this.readReply(), expected);
+  }
+
+  private async expect(
+    replyPromise: Promise<SmtpReply>,
+    expected: number[]
+  ): Promise<SmtpReply> {
+    const reply = await replyPromise;
+    if (!expected.includes(reply.code)) {
+      throw new Error(
+        `SMTPサーバーがエラーを返しました: ${reply.code} ${reply.lines.join(
+          " "
+        )}`
+      );
+    }
+    return reply;
+  }
+
+  private close(): void {
+    if (this.socket) {
+      this.socket.removeAllListeners();
+      this.socket.on("error", () => undefined);
+      this.socket.destroy();
+      this.socket = null;
+    }
+    this.buffer = "";
+    this.pendingLines = [];
+    this.waiter = null;
+    this.failure = null;
+  }
+
+  private toBase64(value: string): string {
+    return Buffer.from(value, "utf8").toString("base64");
+  }
+}
@@ -0,0 +1,270 @@
+// backend/src/services/SsoProviderRegistry.ts
+import { readFileSync } from "fs";
+import { z } from "zod";
+import { UserRole } from "../models/User";
+
+const claimMappingSchema = z.object({
+  email: z.string().default("email"),
+  name: z.string().default("name"),
+  department: z.string().default("department"),
+  join_year: z.string().default("join_year"),
+  groups: z.string().default("groups"),
+});
+
+const baseProviderSchema = z.object({
+  id: z
+    .string()
+    .regex(/^[a-z0-9_-]+$/, "id は英小文字・数字・-・_ で指定してください"),
+  name: z.string().min(1),
+  // ログインを許可するメールアドレスのドメイン（未指定の場合は制限しない）
+  // 指定した場合は、同じメールアドレスの既存ユーザー（管理者を除く）を初回ログイン時に紐付ける
+  allowed_domains: z.array(z.string()).default([]),
+  // 未登録のメールアドレスの場合にユーザーを自動作成するかどうか
+  auto_provision: z.boolean().default(true),
+  // クレーム（SAMLの場合は属性）の名前
+  claims: claimMappingSchema.default({}),
+  // IdPのグループ名 → ユーザーグループ（user_groups.id）
+  group_mapping: z.record(z.number().int().positive()).default({}),
+});
+
+const oidcProviderSchema = baseProviderSchema.extend({
+  type: z.literal("oidc"),
+  issuer: z.string().url(),
+  client_id: z.string().min(1),
+  client_secret: z.string().optional(),
+  scopes: z.array(z.string()).default(["openid", "email", "profile"]),
+});
+
+const samlProviderSchema = baseProviderSchema.extend({
+  type: z.literal("saml"),
+  // IdPのシングルサインオンURL（HTTP-Redirect バインディング）
+  entry_point: z.string().url(),
+  // IdPのエンティティID（レスポンスの Issuer）
+  idp_issuer: z.string().min(1),
+  // IdPの署名用証明書（PEM、またはBase64の本文のみ）
+  idp_certificate: z.string().min(1),
+  // 未指定の場合はメタデータのURLをエンティティIDにする
+  sp_entity_id: z.string().optional(),
+});
+
+const providersSchema = z.array(
+  z.discriminatedUnion("type", [oidcProviderSchema, samlProviderSchema])
+);
+
+export type OidcProviderConfig = z.infer<typeof oidcProviderSchema>;
+export type SamlProviderConfig = z.infer<typeof samlProviderSchema>;
+export type SsoProviderConfig = OidcProviderConfig | SamlProviderConfig;
+export type SsoProviderInput = z.input<typeof providersSchema>[number];
+
+/**
+ * ログイン画面に表示するプロバイダーの情報
+ */
+export interface SsoProviderSummary {
+  id: string;
+  name: string;
+  type: SsoProviderConfig["type"];
+}
+
+/**
+ * IdPから受け取ったクレームを変換したユーザー情報
+ */
+export interface SsoProfile {
+  providerId: string;
+  subject: string;
+  email: string;
+  name: string;
+  department: string | null;
+  join_year: number | null;
+  // 対応付けたユーザーグループ（グループのクレームがない場合は null）
+  groupIds: number[] | null;
+}
+
+/**
+ * シングルサインオンのプロバイダー設定
+ *
+ *   SSO_PROVIDERS_FILE=./sso-providers.json   プロバイダー設定のJSONファイル
+ *   SSO_PROVIDERS=[{...}]                      プロバイダー設定（JSON配列、ファイルより優先）
+ *   SSO_BASE_URL=http://localhost:3001         IdPに登録するコールバックURLの基準（バックエンドの公開URL）
+ *
+ * 設定が不正な場合はエラーを記録し、シングルサインオンを無効にする（パスワードでのログインは使える）。
+ */
+export class SsoProviderRegistry {
+  private static instance: SsoProviderRegistry;
+  private providers: Map<string, SsoProviderConfig> = new Map();
+
+  constructor(providers: SsoProviderInput[], private baseUrl: string) {
+    providersSchema.parse(providers).forEach((provider) => {
+      if (this.providers.has(provider.id)) {
+        throw new Error(`SSOプロバイダーのIDが重複しています: ${provider.id}`);
+      }
+      this.providers.set(provider.id, provider);
+    });
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+  }
+
+  /**
+   * シングルトンインスタンスを取得
+   */
+  public static getInstance(): SsoProviderRegistry {
+    if (!SsoProviderRegistry.instance) {
+      SsoProviderRegistry.instance = SsoProviderRegistry.fromEnv();
+    }
+    return SsoProviderRegistry.instance;
+  }
+
+  /**
+   * 環境変数から設定を読み込む
+   */
+  static fromEnv(): SsoProviderRegistry {
+    const baseUrl =
+      process.env.SSO_BASE_URL ||
+      `http://localhost:${process.env.PORT || 3001}`;
+
+    try {
+      let json = process.env.SSO_PROVIDERS;
+      if (!json && process.env.SSO_PROVIDERS_FILE) {
+        json = readFileSync(process.env.SSO_PROVIDERS_FILE, "utf8");
+      }
+      return new SsoProviderRegistry(json ? JSON.parse(json) : [], baseUrl);
+    } catch (error) {
+      console.error(
+        "SSOプロバイダーの設定が不正なため、シングルサインオンを無効にします:",
+        error
+      );
+      return new SsoProviderRegistry([], baseUrl);
+    }
+  }
+
+  list(): SsoProviderSummary[] {
+    return Array.from(this.providers.values()).map((provider) => ({
+      id: provider.id,
+      name: provider.name,
+      type: provider.type,
+    }));
+  }
+
+  get(providerId: string): SsoProviderConfig | null {
+    return this.providers.get(providerId) || null;
+  }
+
+  /**
+   * OIDCのリダイレクトURI
+   */
+  getOidcRedirectUri(provider: OidcProviderConfig): string {
+    return `${this.baseUrl}/api/auth/sso/${provider.id}/callback`;
+  }
+
+  /**
+   * SAMLのサービスプロバイダー（このアプリ）のエンティティIDとACSのURL
+   */
+  getSamlServiceProviderUrls(provider: SamlProviderConfig): {
+    entityId: string;
+    acsUrl: string;
+  } {
+    return {
+      entityId:
+        provider.sp_entity_id ||
+        `${this.baseUrl}/api/auth/sso/${provider.id}/metadata`,
+      acsUrl: `${this.baseUrl}/api/auth/sso/${provider.id}/acs`,
+    };
+  }
+
+  /**
+   * IdPのクレームをユーザー情報に変換
+   * メールアドレスが確認されていない場合（OIDCで email_verified が true でない場合）や、許可されていないドメインの場合はエラー
+   */
+  mapProfile(
+    provider: SsoProviderConfig,
+    subject: string,
+    claims: Record<string, unknown>
+  ): SsoProfile {
+    const email = this.firstValue(claims[provider.claims.email])?.toLowerCase();
+    if (!email || !/^[^\s@]+@[^\s@]+$/.test(email)) {
+      throw new Error("IdPからメールアドレスを取得できませんでした");
+    }
+    if (provider.type === "oidc" && claims.email_verified !== true) {
+      throw new Error("IdPでメールアドレスが確認されていません");
+    }
+
+    const domain = email.split("@")[1];
+    if (
+      provider.allowed_domains.length > 0 &&
+      !provider.allowed_domains.some(
+        (allowed) => allowed.toLowerCase() === domain
+      )
+    ) {
+      throw new Error(
+        `このメールアドレスのドメイン（${domain}）ではログインできません`
+      );
+    }
+
+    // 入社年は年のみ（2023）・日付（2023-04-01）のどちらでも受け付ける
+    const joinYearMatch = /^(\d{4})/.exec(
+      this.firstValue(claims[provider.claims.join_year]) || ""
+    );
+
+    return {
+      providerId: provider.id,
+      subject,
+      email,
+      name:
+        this.firstValue(claims[provider.claims.name]) || email.split("@")[0],
+      department: this.firstValue(claims[provider.claims.department]),
+      join_year: joinYearMatch ? parseInt(joinYearMatch[1]) : null,
+      groupIds: this.mapGroups(provider, claims[provider.claims.groups]),
+    };
+  }
+
+  /**
+   * IdPで初めてログインしたユーザーを、同じメールアドレスの既存ユーザーに紐付けてよいか
+   * 許可するドメインを指定したプロバイダーで、そのドメインのメールアドレスの場合だけ紐付ける。
+   * 管理者のアカウントはIdP経由では紐付けない。
+   */
+  canLinkExistingUser(
+    provider: SsoProviderConfig,
+    user: { email: string; role: UserRole }
+  ): boolean {
+    const domain = user.email.toLowerCase().split("@")[1];
+    return (
+      user.role !== UserRole.ADMIN &&
+      provider.allowed_domains.some(
+        (allowed) => allowed.toLowerCase() === domain
+      )
+    );
+  }
+
+  /**
+   * 同期の対象となるユーザーグループ（グループの対応付けに含まれるもの）
+   */
+  getManagedGroupIds(provider: SsoProviderConfig): number[] {
+    return Array.from(new Set(Object.values(provider.group_mapping)));
+  }
+
+  private mapGroups(
+    provider: SsoProviderConfig,
+    value: unknown
+  ): number[] | null {
+    if (
+      Object.keys(provider.group_mapping).length === 0 ||
+      value === undefined ||
+      value === null
+    ) {
+      return null;
+    }
+
+    const groups = (Array.isArray(value) ? value : [value]).map(String);
+    const groupIds = groups
+      .filter((group) => provider.group_mapping.hasOwnProperty(group))
+      .map((group) => provider.group_mapping[group]);
+    return Array.from(new Set(groupIds));
+  }
+
+  private firstValue(value: unknown): string | null {
+    const first = Array.isArray(value) ? value[0] : value;
+    if (first === undefined || first === null) {
+      return null;
+    }
+    const text = String(first).trim();
+    return text || null;
+  }
+}
@@ -0,0 +1,466 @@
+// backend/src/services/SsoService.ts
+import { In, IsNull, LessThan, MoreThan, Not } from "typeorm";
+import { AppDataSource } from "../index";
+import { User } from "../models/User";
+import { UserSsoIdentity } from "../models/UserSsoIdentity";
+import { SsoLoginRequest } from "../models/SsoLoginRequest";
+import { GroupMemberRole, UserGroupMember } from "../models/UserGroupMember";
+import { AuthSecurityService } from "./AuthSecurityService";
+import { AuthService, ClientInfo } from "./AuthService";
+import { OidcClient } from "./OidcClient";
+import { SamlServiceProvider } from "./SamlServiceProvider";
+import {
+  OidcProviderConfig,
+  SamlProviderConfig,
+  SsoProfile,
+  SsoProviderConfig,
+  SsoProviderRegistry,
+  SsoProviderSummary,
+} from "./SsoProviderRegistry";
+import { UserService } from "./UserService";
+
+// IdPでの認証を待つ時間
+const LOGIN_REQUEST_TTL_MS = 10 * 60 * 1000;
+// フロントエンドがチケットをセッションと交換するまでの時間
+const TICKET_TTL_MS = 60 * 1000;
+const DEFAULT_REDIRECT_PATH = "/dashboard";
+const INVALID_LOGIN_REQUEST_MESSAGE =
+  "ログインの有効期限が切れたか、すでに使用されています。もう一度ログインしてください";
+
+/**
+ * シングルサインオン（OIDC・SAML）でのログイン
+ *
+ * IdPで認証されたユーザーは保存済みの外部ID（プロバイダーとサブジェクト）で特定し、未登録の場合は作成する。
+ * 同じメールアドレスの既存ユーザーは、プロバイダーの許可ドメインに含まれる場合だけ紐付ける（管理者は紐付けない）。
+ * state はブラウザのクッキーにも保存し、IdPから戻ってきたブラウザがログインを開始したブラウザであることを確認する。
+ * 部署・入社年はIdPのクレームで更新し、グループの対応付けがある場合はユーザーグループの所属も同期する。
+ */
+export class SsoService {
+  private registry = SsoProviderRegistry.getInstance();
+  private userService = new UserService();
+  private authService = new AuthService();
+  private userRepository = AppDataSource.getRepository(User);
+  private identityRepository = AppDataSource.getRepository(UserSsoIdentity);
+  private loginRequestRepository = AppDataSource.getRepository(SsoLoginRequest);
+  private groupMemberRepository = AppDataSource.getRepository(UserGroupMember);
+
+  getProviders(): SsoProviderSummary[] {
+    return this.registry.list();
+  }
+
+  /**
+   * ログインを開始し、リダイレクト先のIdPのURLと state（クッキーに保存する値）を返す
+   */
+  async startLogin(
+    providerId: string,
+    redirectPath?: string
+  ): Promise<{ url: string; state: string }> {
+    const provider = this.getProvider(providerId);
+    const now = new Date();
+
+    // 期限切れのログイン要求を削除
+    await this.loginRequestRepository.delete({ expires_at: LessThan(now) });
+
+    const state = AuthSecurityService.generateToken();
+    const loginRequest = this.loginRequestRepository.create({
+      provider_id: provider.id,
+      state_hash: AuthSecurityService.hashToken(state),
+      redirect_path: this.sanitizeRedirectPath(redirectPath),
+      expires_at: new Date(now.getTime() + LOGIN_REQUEST_TTL_MS),
+    });
+
+    let url: string;
+    if (provider.type === "oidc") {
+      loginRequest.code_verifier = OidcClient.generateCodeVerifier();
+      loginRequest.nonce = AuthSecurityService.generateToken();
+      url = await this.createOidcClient(provider).buildAuthorizationUrl({
+        state,
+        nonce: loginRequest.nonce,
+        codeVerifier: loginRequest.code_verifier,
+      });
+    } else {
+      loginRequest.saml_request_id = SamlServiceProvider.generateRequestId();
+      url = this.createSamlServiceProvider(provider).buildLoginUrl(
+        loginRequest.saml_request_id,
+        state,
+        now
+      );
+    }
+
+    await this.loginRequestRepository.save(loginRequest);
+    return { url, state };
+  }
+
+  /**
+   * OIDCのコールバック（認可コード）を処理し、認証されたユーザーをログイン要求に記録する
+   */
+  async handleOidcCallback(
+    providerId: string,
+    code: string,
+    state: string
+  ): Promise<void> {
+    const provider = this.getProvider(providerId);
+    if (provider.type !== "oidc") {
+      throw new Error("このプロバイダーはOIDCではありません");
+    }
+
+    const loginRequest = await this.consumeLoginRequest(provider.id, state);
+    const claims = await this.createOidcClient(provider).authenticate({
+      code,
+      codeVerifier: loginRequest.code_verifier || "",
+      nonce: loginRequest.nonce || "",
+    });
+
+    const profile = this.registry.mapProfile(provider, claims.sub, claims);
+    await this.completeLogin(provider, profile, loginRequest);
+  }
+
+  /**
+   * SAMLのレスポンス（ACSにPOSTされたもの）を処理し、認証されたユーザーをログイン要求に記録する
+   */
+  async handleSamlResponse(
+    providerId: string,
+    samlResponse: string,
+    relayState: string
+  ): Promise<void> {
+    const provider = this.getProvider(providerId);
+    if (provider.type !== "saml") {
+      throw new Error("このプロバイダーはSAMLではありません");
+    }
+
+    const loginRequest = await this.consumeLoginRequest(
+      provider.id,
+      relayState
+    );
+    const assertion = this.createSamlServiceProvider(provider).validateResponse(
+      samlResponse,
+      loginRequest.saml_request_id || ""
+    );
+
+    // メールアドレスの属性がない場合は、メールアドレス形式の NameID を使う
+    const claims: Record<string, unknown> = { ...assertion.attributes };
+    if (
+      claims[provider.claims.email] === undefined &&
+      assertion.nameIdFormat?.endsWith(":emailAddress")
+    ) {
+      claims[provider.claims.email] = assertion.nameId;
+    }
+
+    const profile = this.registry.mapProfile(
+      provider,
+      assertion.nameId,
+      claims
+    );
+    await this.completeLogin(provider, profile, loginRequest);
+  }
+
+  /**
+   * 認証が済んだログイン要求に、セッションと交換するチケットを発行する（一度だけ発行できる）
+   * 呼び出し元で state がログインを開始したブラウザのクッキーと一致することを確認しておく
+   */
+  async issueTicket(providerId: string, state: string): Promise<string> {
+    const loginRequest = await this.loginRequestRepository.findOne({
+      where: {
+        provider_id: providerId,
+        state_hash: AuthSecurityService.hashToken(state || ""),
+        user_id: Not(IsNull()),
+        ticket_hash: IsNull(),
+        expires_at: MoreThan(new Date()),
+      },
+    });
+    if (!loginRequest) {
+      throw new Error(INVALID_LOGIN_REQUEST_MESSAGE);
+    }
+
+    const ticket = AuthSecurityService.generateToken();
+    const result = await this.loginRequestRepository.update(
+      { id: loginRequest.id, ticket_hash: IsNull() },
+      { ticket_hash: AuthSecurityService.hashToken(ticket) }
+    );
+    if (!result.affected) {
+      throw new Error(INVALID_LOGIN_REQUEST_MESSAGE);
+    }
+    return ticket;
+  }
+
+  /**
+   * チケットをセッションに交換（一度だけ使用できる）
+   */
+  async exchangeTicket(
+    ticket: string,
+    client: ClientInfo = {}
+  ): Promise<{
+    user: Omit<User, "password">;
+    sessionToken: string;
+    redirectPath: string;
+  }> {
+    const loginRequest = await this.loginRequestRepository.findOne({
+      where: {
+        ticket_hash: AuthSecurityService.hashToken(ticket),
+        user_id: Not(IsNull()),
+        expires_at: MoreThan(new Date()),
+      },
+    });
+    if (!loginRequest) {
+      throw new Error(INVALID_LOGIN_REQUEST_MESSAGE);
+    }
+
+    // 同時に使われた場合も一度だけ有効になるよう、削除できた場合だけセッションを作成する
+    const result = await this.loginRequestRepository.delete({
+      id: loginRequest.id,
+    });
+    const user = await this.userRepository.findOne({
+      where: { id: loginRequest.user_id! },
+    });
+    if (!result.affected || !user) {
+      throw new Error(INVALID_LOGIN_REQUEST_MESSAGE);
+    }
+
+    const session = await this.authService.loginWithSso(user, client);
+    return {
+      ...session,
+      redirectPath: loginRequest.redirect_path || DEFAULT_REDIRECT_PATH,
+    };
+  }
+
+  /**
+   * SAMLのサービスプロバイダーのメタデータ
+   */
+  getSamlMetadata(providerId: string): string {
+    const provider = this.getProvider(providerId);
+    if (provider.type !== "saml") {
+      throw new Error("このプロバイダーはSAMLではありません");
+    }
+    return this.createSamlServiceProvider(provider).buildMetadata();
+  }
+
+  private getProvider(providerId: string): SsoProviderConfig {
+    const provider = this.registry.get(providerId);
+    if (!provider) {
+      throw new Error("SSOプロバイダーが見つかりません");
+    }
+    return provider;
+  }
+
+  private createOidcClient(provider: OidcProviderConfig): OidcClient {
+    return new OidcClient(provider, this.registry.getOidcRedirectUri(provider));
+  }
+
+  private createSamlServiceProvider(
+    provider: SamlProviderConfig
+  ): SamlServiceProvider {
+    return new SamlServiceProvider(
+      provider,
+      this.registry.getSamlServiceProviderUrls(provider)
+    );
+  }
+
+  /**
+   * state に対応するログイン要求を使用済みにして返す
+   */
+  private async consumeLoginRequest(
+    providerId: string,
+    state: string
+  ): Promise<SsoLoginRequest> {
+    const loginRequest = await this.loginRequestRepository.findOne({
+      where: {
+        provider_id: providerId,
+        state_hash: AuthSecurityService.hashToken(state || ""),
+      },
+    });
+    if (
+      !loginRequest ||
+      loginRequest.completed_at ||
+      new Date() > loginRequest.expires_at
+    ) {
+      throw new Error(INVALID_LOGIN_REQUEST_MESSAGE);
+    }
+
+    const result = await this.loginRequestRepository.update(
+      { id: loginRequest.id, completed_at: IsNull() },
+      { completed_at: new Date() }
+    );
+    if (!result.affected) {
+      throw new Error(INVALID_LOGIN_REQUEST_MESSAGE);
+    }
+    return loginRequest;
+  }
+
+  /**
+   * ユーザーを特定（または作成）してログイン要求に記録
+   */
+  private async completeLogin(
+    provider: SsoProviderConfig,
+    profile: SsoProfile,
+    loginRequest: SsoLoginRequest
+  ): Promise<void> {
+    const user = await this.findOrProvisionUser(provider, profile);
+    try {
+      await this.syncGroupMemberships(provider, user.id, profile.groupIds);
+    } catch (error) {
+      // グループの対応付けの誤りなどでログインを止めない
+      console.error(`ユーザー ${user.id} のグループの同期エラー:`, error);
+    }
+
+    await this.loginRequestRepository.update(loginRequest.id, {
+      user_id: user.id,
+      expires_at: new Date(Date.now() + TICKET_TTL_MS),
+    });
+  }
+
+  private async findOrProvisionUser(
+    provider: SsoProviderConfig,
+    profile: SsoProfile
+  ): Promise<User> {
+    const identity = await this.identityRepository.findOne({
+      where: { provider_id: provider.id, subject: profile.subject },
+      relations: ["user"],
+    });
+
+    let user: User | null = identity ? identity.user : null;
+    if (!user) {
+      user = await this.findLinkableUser(provider, profile);
+    }
+    if (!user) {
+      if (!provider.auto_provision) {
+        throw new Error(
+          "このアカウントは登録されていません。管理者にお問い合わせください"
+        );
+      }
+
+      // パスワードでのログインは使わないため、推測できないパスワードを設定する
+      user = await this.userService.createUser({
+        name: profile.name,
+        email: profile.email,
+        password: AuthSecurityService.generateToken(),
+        department: profile.department || undefined,
+        join_year: profile.join_year || undefined,
+      });
+      console.log(`SSO（${provider.id}）でユーザー ${user.id} を作成しました`);
+    } else {
+      // 部署・入社年はIdPの情報を正とする（クレームがない場合は変更しない）
+      const updates: Partial<User> = {};
+      if (profile.department && profile.department !== user.department) {
+        updates.department = profile.department;
+      }
+      if (profile.join_year && profile.join_year !== user.join_year) {
+        updates.join_year = profile.join_year;
+      }
+      if (Object.keys(updates).length > 0) {
+        await this.userRepository.update(user.id, updates);
+        Object.assign(user, updates);
+      }
+    }
+
+    if (identity) {
+      await this.identityRepository.update(identity.id, {
+        email: profile.email,
+        last_login_at: new Date(),
+      });
+    } else {
+      await this.identityRepository.save(
+        this.identityRepository.create({
+          user_id: user.id,
+          provider_id: provider.id,
+          subject: profile.subject.substring(0, 255),
+          email: profile.email,
+          last_login_at: new Date(),
+        })
+      );
+    }
+
+    return user;
+  }
+
+  /**
+   * 外部IDが未登録の場合に、同じメールアドレスの既存ユーザーを紐付けの対象として返す
+   * 許可ドメイン外・管理者・すでに別のサブジェクトと紐付いているユーザーは紐付けない
+   */
+  private async findLinkableUser(
+    provider: SsoProviderConfig,
+    profile: SsoProfile
+  ): Promise<User | null> {
+    const user = await this.userService.findByEmail(profile.email);
+    if (!user) {
+      return null;
+    }
+
+    const linked = await this.identityRepository.findOne({
+      where: { provider_id: provider.id, user_id: user.id },
+    });
+    if (linked || !this.registry.canLinkExistingUser(provider, user)) {
+      console.warn(
+        `SSO（${provider.id}）のサブジェクト ${profile.subject} を既存のユーザー ${user.id} に紐付けませんでした`
+      );
+      throw new Error(
+        "このメールアドレスのアカウントはすでに登録されています。シングルサインオンとの紐付けは管理者にお問い合わせください"
+      );
+    }
+
+    console.log(
+      `SSO（${provider.id}）のサブジェクトを既存のユーザー ${user.id} に紐付けます`
+    );
+    return user;
+  }
+
+  /**
+   * IdPのグループに合わせてユーザーグループの所属を同期
+   * 対応付けに含まれるグループだけを対象にし、管理者として所属しているグループからは外さない
+   */
+  private async syncGroupMemberships(
+    provider: SsoProviderConfig,
+    userId: number,
+    groupIds: number[] | null
+  ): Promise<void> {
+    const managedGroupIds = this.registry.getManagedGroupIds(provider);
+    if (groupIds === null || managedGroupIds.length === 0) {
+      return;
+    }
+
+    const memberships = await this.groupMemberRepository.find({
+      where: { user_id: userId, group_id: In(managedGroupIds) },
+    });
+    const currentGroupIds = memberships.map(
+      (membership) => membership.group_id
+    );
+
+    const toAdd = groupIds.filter(
+      (groupId) => !currentGroupIds.includes(groupId)
+    );
+    const toRemove = memberships.filter(
+      (membership) =>
+        !groupIds.includes(membership.group_id) &&
+        membership.role === GroupMemberRole.MEMBER
+    );
+
+    if (toAdd.length > 0) {
+      await this.groupMemberRepository.save(
+        toAdd.map((groupId) =>
+          this.groupMemberRepository.create({
+            group_id: groupId,
+            user_id: userId,
+            role: GroupMemberRole.MEMBER,
+          })
+        )
+      );
+    }
+    if (toRemove.length > 0) {
+      await this.groupMemberRepository.remove(toRemove);
+    }
+  }
+
+  /**
+   * ログイン後の表示先（外部のURLへのリダイレクトは受け付けない）
+   */
+  private sanitizeRedirectPath(redirectPath?: string): string {
+    if (
+      !redirectPath ||
+      !redirectPath.startsWith("/") ||
+      redirectPath.startsWith("//") ||
+      redirectPath.includes("\\")
+    ) {
+      return DEFAULT_REDIRECT_PATH;
+    }
+    return redirectPath.substring(0, 500);
+  }
+}
@@ -2,6 +2,7 @@
 import { AppDataSource } from "../index";
 import { CodeSubmission, SubmissionStatus } from "../models/CodeSubmission";
 import { Review } from "../models/Review";
+import { CriteriaSnapshot } from "./EvaluationScoringService";
 
 export class SubmissionService {
   private submissionRepository = AppDataSource.getRepository(CodeSubmission);
@@ -84,6 +85,20 @@ export class SubmissionService {
     return this.getSubmissionById(id);
   }
 
+  /**
+   * レビューに使用した評価基準を記録
+   */
+  async recordReviewCriteria(
+    id: number,
+    snapshot: CriteriaSnapshot
+  ): Promise<void> {
+    await this.submissionRepository.update(id, {
+      criteria_academic_year: snapshot.academic_year,
+      criteria_version: snapshot.version,
+      criteria_snapshot: JSON.stringify(snapshot),
+    });
+  }
+
   /**
    * レビューIDに紐づく最新のコード提出を取得
    */
@@ -0,0 +1,105 @@
+// backend/src/services/UsageBudgetPolicy.ts
+import { UsageBudget, UsageBudgetPeriod } from "../models/UsageBudget";
+
+export interface UsageBudgetEvaluation {
+  limit: number;
+  used: number;
+  remaining: number;
+  ratio: number;
+  warning: boolean;
+  exceeded: boolean;
+  resets_at: Date;
+}
+
+export interface FeatureUsageDecision {
+  canUse: boolean;
+  reason?: "daily_limit" | "budget_exceeded";
+  warning: boolean;
+}
+
+/**
+ * 集計期間の開始日時を取得（週は月曜始まり）
+ */
+export function getBudgetPeriodStart(
+  period: UsageBudgetPeriod,
+  now: Date
+): Date {
+  const start = new Date(now);
+  start.setHours(0, 0, 0, 0);
+
+  if (period === UsageBudgetPeriod.WEEKLY) {
+    const daysSinceMonday = (start.getDay() + 6) % 7;
+    start.setDate(start.getDate() - daysSinceMonday);
+  } else if (period === UsageBudgetPeriod.MONTHLY) {
+    start.setDate(1);
+  }
+
+  return start;
+}
+
+/**
+ * 次の集計期間の開始日時（予算がリセットされる日時）を取得
+ */
+export function getNextBudgetPeriodStart(
+  period: UsageBudgetPeriod,
+  start: Date
+): Date {
+  const next = new Date(start);
+
+  if (period === UsageBudgetPeriod.DAILY) {
+    next.setDate(next.getDate() + 1);
+  } else if (period === UsageBudgetPeriod.WEEKLY) {
+    next.setDate(next.getDate() + 7);
+  } else {
+    next.setMonth(next.getMonth() + 1);
+  }
+
+  return next;
+}
+
+/**
+ * 期間内の消費量から予算の状態（警告・超過）を判定
+ */
+export function evaluateUsageBudget(
+  budget: Pick<UsageBudget, "limit_value" | "warning_threshold" | "period">,
+  used: number,
+  now: Date
+): UsageBudgetEvaluation {
+  const limit = parseFloat(budget.limit_value);
+  const ratio = limit > 0 ? used / limit : 1;
+
+  return {
+    limit,
+    used,
+    remaining: Math.max(0, limit - used),
+    ratio,
+    warning: ratio >= budget.warning_threshold,
+    exceeded: used >= limit,
+    resets_at: getNextBudgetPeriodStart(
+      budget.period,
+      getBudgetPeriodStart(budget.period, now)
+    ),
+  };
+}
+
+/**
+ * 呼び出し回数の上限と予算から機能を利用できるか判定する
+ * 管理者が付与した一時解除の期間中はすべての上限を適用しない
+ */
+export function decideFeatureUsage(options: {
+  remaining: number;
+  budgets: Pick<UsageBudgetEvaluation, "warning" | "exceeded">[];
+  hasOverride: boolean;
+}): FeatureUsageDecision {
+  const warning = options.budgets.some((budget) => budget.warning);
+  if (options.hasOverride) {
+    return { canUse: true, warning };
+  }
+  if (options.remaining <= 0) {
+    return { canUse: false, reason: "daily_limit", warning };
+  }
+  if (options.budgets.some((budget) => budget.exceeded)) {
+    return { canUse: false, reason: "budget_exceeded", warning };
+  }
+  return { canUse: true, warning };
+}
@@ -0,0 +1,357 @@
+// backend/src/services/UsageBudgetService.ts
+import { FindOperator, In, MoreThan } from "typeorm";
+import { AppDataSource } from "../index";
+import {
+  UsageBudget,
+  UsageBudgetMetric,
+  UsageBudgetPeriod,
+  UsageBudgetScope,
+} from "../models/UsageBudget";
+import { UsageLimitOverride } from "../models/UsageLimitOverride";
+import { LLMUsageLog } from "../models/LLMUsageLog";
+import { UserGroupMember } from "../models/UserGroupMember";
+import { UserProject } from "../models/UserProject";
+import { UserGroup } from "../models/UserGroup";
+import { Project } from "../models/Project";
+import { User } from "../models/User";
+import { evaluateUsageBudget, getBudgetPeriodStart } from "./UsageBudgetPolicy";
+
+export interface UsageBudgetInput {
+  scope: UsageBudgetScope;
+  scope_id: number;
+  feature_key?: string | null;
+  metric: UsageBudgetMetric;
+  period: UsageBudgetPeriod;
+  limit_value: number;
+  warning_threshold?: number;
+  description?: string;
+  is_active?: boolean;
+}
+
+export interface UsageBudgetStatus {
+  budget_id: number;
+  scope: UsageBudgetScope;
+  scope_id: number;
+  scope_name: string;
+  feature_key: string | null;
+  metric: UsageBudgetMetric;
+  period: UsageBudgetPeriod;
+  limit: number;
+  used: number;
+  remaining: number;
+  ratio: number;
+  warning: boolean;
+  exceeded: boolean;
+  resets_at: Date;
+}
+
+export class UsageBudgetService {
+  private budgetRepository = AppDataSource.getRepository(UsageBudget);
+  private overrideRepository = AppDataSource.getRepository(UsageLimitOverride);
+  private llmUsageLogRepository = AppDataSource.getRepository(LLMUsageLog);
+  private groupMemberRepository = AppDataSource.getRepository(UserGroupMember);
+  private userProjectRepository = AppDataSource.getRepository(UserProject);
+
+  /**
+   * すべての予算を取得（管理者用）
+   */
+  async getAllBudgets(): Promise<Array<UsageBudget & { scope_name: string }>> {
+    const budgets = await this.budgetRepository.find({
+      order: { scope: "ASC", scope_id: "ASC", created_at: "ASC" },
+    });
+
+    return Promise.all(
+      budgets.map(async (budget) => ({
+        ...budget,
+        scope_name: await this.getScopeName(budget.scope, budget.scope_id),
+      }))
+    );
+  }
+
+  /**
+   * 予算の適用範囲として選択できるユーザー・グループ・プロジェクトを取得
+   */
+  async getScopeOptions(): Promise<
+    Record<UsageBudgetScope, Array<{ id: number; name: string }>>
+  > {
+    const [users, groups, projects] = await Promise.all([
+      AppDataSource.getRepository(User).find({
+        select: ["id", "name"],
+        order: { name: "ASC" },
+      }),
+      AppDataSource.getRepository(UserGroup).find({
+        select: ["id", "name"],
+        where: { is_active: true },
+        order: { name: "ASC" },
+      }),
+      AppDataSource.getRepository(Project).find({
+        select: ["id", "name"],
+        order: { name: "ASC" },
+      }),
+    ]);
+
+    return {
+      [UsageBudgetScope.USER]: users,
+      [UsageBudgetScope.GROUP]: groups,
+      [UsageBudgetScope.PROJECT]: projects,
+    };
+  }
+
+  /**
+   * 予算を作成
+   */
+  async createBudget(input: UsageBudgetInput): Promise<UsageBudget> {
+    const budget = this.budgetRepository.create({
+      ...input,
+      feature_key: input.feature_key || null,
+      limit_value: String(input.limit_value),
+    });
+    return this.budgetRepository.save(budget);
+  }
+
+  /**
+   * 予算を更新
+   */
+  async updateBudget(
+    id: number,
+    input: Partial<UsageBudgetInput>
+  ): Promise<UsageBudget | null> {
+    const budget = await this.budgetRepository.findOne({ where: { id } });
+    if (!budget) {
+      return null;
+    }
+
+    const { limit_value, feature_key, ...rest } = input;
+    Object.assign(budget, rest);
+    if (limit_value !== undefined) {
+      budget.limit_value = String(limit_value);
+    }
+    if (feature_key !== undefined) {
+      budget.feature_key = feature_key || null;
+    }
+
+    return this.budgetRepository.save(budget);
+  }
+
+  /**
+   * 予算を削除
+   */
+  async deleteBudget(id: number): Promise<boolean> {
+    const result = await this.budgetRepository.delete(id);
+    return (result.affected || 0) > 0;
+  }
+
+  /**
+   * 有効な一時解除の一覧を取得（管理者用）
+   */
+  async getActiveOverrides(): Promise<UsageLimitOverride[]> {
+    return this.overrideRepository.find({
+      where: { expires_at: MoreThan(new Date()) },
+      relations: ["user"],
+      order: { expires_at: "ASC" },
+    });
+  }
+
+  /**
+   * 新入社員に一時的な制限解除を付与
+   */
+  async grantOverride(
+    userId: number,
+    options: { featureKey?: string | null; expiresAt: Date; reason?: string },
+    grantedBy?: number
+  ): Promise<UsageLimitOverride> {
+    const user = await AppDataSource.getRepository(User).findOne({
+      where: { id: userId },
+    });
+    if (!user) {
+      throw new Error("指定されたユーザーが見つかりません");
+    }
+
+    if (options.expiresAt <= new Date()) {
+      throw new Error("有効期限は現在より後の日時を指定してください");
+    }
+
+    const override = this.overrideRepository.create({
+      user_id: userId,
+      feature_key: options.featureKey || null,
+      expires_at: options.expiresAt,
+      reason: options.reason,
+      granted_by: grantedBy ?? null,
+    });
+    return this.overrideRepository.save(override);
+  }
+
+  /**
+   * 一時解除を取り消す
+   */
+  async revokeOverride(id: number): Promise<boolean> {
+    const result = await this.overrideRepository.delete(id);
+    return (result.affected || 0) > 0;
+  }
+
+  /**
+   * ユーザーに有効な一時解除を取得
+   */
+  async getActiveOverride(
+    userId: number,
+    featureKey: string
+  ): Promise<UsageLimitOverride | null> {
+    const overrides = await this.overrideRepository.find({
+      where: { user_id: userId, expires_at: MoreThan(new Date()) },
+      order: { expires_at: "DESC" },
+    });
+
+    return (
+      overrides.find(
+        (override) =>
+          override.feature_key === null || override.feature_key === featureKey
+      ) || null
+    );
+  }
+
+  /**
+   * ユーザーに適用される予算と現在の消費状況を取得
+   * featureKey を省略した場合は全機能の予算を返す
+   */
+  async getBudgetStatuses(
+    userId: number,
+    featureKey?: string
+  ): Promise<UsageBudgetStatus[]> {
+    const budgets = await this.getApplicableBudgets(userId);
+    const now = new Date();
+
+    const targetBudgets = budgets.filter(
+      (budget) =>
+        !featureKey ||
+        budget.feature_key === null ||
+        budget.feature_key === featureKey
+    );
+
+    return Promise.all(
+      targetBudgets.map(async (budget) => {
+        const periodStart = getBudgetPeriodStart(budget.period, now);
+        const used = await this.getConsumption(budget, periodStart);
+
+        return {
+          budget_id: budget.id,
+          scope: budget.scope,
+          scope_id: budget.scope_id,
+          scope_name: await this.getScopeName(budget.scope, budget.scope_id),
+          feature_key: budget.feature_key,
+          metric: budget.metric,
+          period: budget.period,
+          ...evaluateUsageBudget(budget, used, now),
+        };
+      })
+    );
+  }
+
+  /**
+   * ユーザー本人・所属グループ・参加プロジェクトの有効な予算を取得
+   */
+  private async getApplicableBudgets(userId: number): Promise<UsageBudget[]> {
+    const [memberships, userProjects] = await Promise.all([
+      this.groupMemberRepository.find({ where: { user_id: userId } }),
+      this.userProjectRepository.find({ where: { user_id: userId } }),
+    ]);
+
+    const conditions: Array<{
+      scope: UsageBudgetScope;
+      scope_id: number | FindOperator<number>;
+      is_active: boolean;
+    }> = [{ scope: UsageBudgetScope.USER, scope_id: userId, is_active: true }];
+
+    if (memberships.length > 0) {
+      conditions.push({
+        scope: UsageBudgetScope.GROUP,
+        scope_id: In(memberships.map((member) => member.group_id)),
+        is_active: true,
+      });
+    }
+    if (userProjects.length > 0) {
+      conditions.push({
+        scope: UsageBudgetScope.PROJECT,
+        scope_id: In(userProjects.map((project) => project.project_id)),
+        is_active: true,
+      });
+    }
+
+    return this.budgetRepository.find({ where: conditions });
+  }
+
+  /**
+   * 予算の期間内の消費量を LLM 利用ログから集計
+   * プロジェクト予算はプロジェクトに属するレビューに紐付いた呼び出しを合計する
+   */
+  private async getConsumption(
+    budget: UsageBudget,
+    periodStart: Date
+  ): Promise<number> {
+    const column =
+      budget.metric === UsageBudgetMetric.TOKENS
+        ? "log.total_tokens"
+        : "log.estimated_cost";
+
+    const queryBuilder = this.llmUsageLogRepository
+      .createQueryBuilder("log")
+      .select(`COALESCE(SUM(${column}), 0)`, "used")
+      .where("log.created_at >= :periodStart", { periodStart });
+
+    if (budget.feature_key) {
+      queryBuilder.andWhere("log.feature_key = :featureKey", {
+        featureKey: budget.feature_key,
+      });
+    }
+
+    switch (budget.scope) {
+      case UsageBudgetScope.USER:
+        queryBuilder.andWhere("log.user_id = :scopeId", {
+          scopeId: budget.scope_id,
+        });
+        break;
+      case UsageBudgetScope.GROUP:
+        queryBuilder.andWhere(
+          "log.user_id IN (SELECT member.user_id FROM user_group_members member WHERE member.group_id = :scopeId)",
+          { scopeId: budget.scope_id }
+        );
+        break;
+      case UsageBudgetScope.PROJECT:
+        queryBuilder.innerJoin(
+          "reviews",
+          "review",
+          "review.id = log.review_id AND review.project_id = :scopeId",
+          { scopeId: budget.scope_id }
+        );
+        break;
+    }
+
+    const result = await queryBuilder.getRawOne();
+    return parseFloat(result?.used) || 0;
+  }
+
+  /**
+   * 予算の適用範囲の表示名を取得
+   */
+  private async getScopeName(
+    scope: UsageBudgetScope,
+    scopeId: number
+  ): Promise<string> {
+    let entity: { name: string } | null = null;
+
+    if (scope === UsageBudgetScope.USER) {
+      entity = await AppDataSource.getRepository(User).findOne({
+        where: { id: scopeId },
+      });
+    } else if (scope === UsageBudgetScope.GROUP) {
+      entity = await AppDataSource.getRepository(UserGroup).findOne({
+        where: { id: scopeId },
+      });
+    } else if (scope === UsageBudgetScope.PROJECT) {
+      entity = await AppDataSource.getRepository(Project).findOne({
+        where: { id: scopeId },
+      });
+    }
+
+    return entity?.name || `#${scopeId}`;
+  }
+}
@@ -4,11 +4,27 @@ import { Between, LessThan } from "typeorm";
 import { UsageLimit } from "../models/UsageLimit";
 import { UsageLog } from "../models/UsageLog";
 import { User } from "../models/User";
+import { UsageBudgetService, UsageBudgetStatus } from "./UsageBudgetService";
+import { decideFeatureUsage } from "./UsageBudgetPolicy";
+
+// 呼び出し回数の上限がない場合（管理者）に返す値
+const UNLIMITED_USAGE = 999;
+
+export interface FeatureUsageCheck {
+  canUse: boolean;
+  remaining: number;
+  limit: number;
+  reason?: "daily_limit" | "budget_exceeded";
+  warning?: boolean; // いずれかの予算が警告しきい値を超えている
+  budgets?: UsageBudgetStatus[];
+  overrideExpiresAt?: Date; // 一時解除中の場合の有効期限
+}
 
 export class UsageLimitService {
   private usageLimitRepository = AppDataSource.getRepository(UsageLimit);
   private usageLogRepository = AppDataSource.getRepository(UsageLog);
   private userRepository = AppDataSource.getRepository(User);
+  private usageBudgetService = new UsageBudgetService();
 
   /**
    * 特定の機能の利用制限を取得
@@ -116,18 +132,24 @@ export class UsageLimitService {
 
   /**
    * 利用可能かどうかチェック
+   * 呼び出し回数の上限を確認したうえで、ユーザー・グループ・プロジェクトの予算を確認する
+   * （トークン数は呼び出し後に記録されるため、上限に達した次の呼び出しから停止する）
    */
   async canUseFeature(
     userId: number,
     featureKey: string
-  ): Promise<{ canUse: boolean; remaining: number; limit: number }> {
+  ): Promise<FeatureUsageCheck> {
     // 管理者は常に利用可能
     const user = await this.userRepository.findOne({
       where: { id: userId },
     });
 
     if (user && user.role === "admin") {
-      return { canUse: true, remaining: 999, limit: 999 };
+      return {
+        canUse: true,
+        remaining: UNLIMITED_USAGE,
+        limit: UNLIMITED_USAGE,
+      };
     }
 
     const limit = await this.getLimitByFeature(featureKey);
@@ -135,11 +157,26 @@ export class UsageLimitService {
       return { canUse: false, remaining: 0, limit: 0 };
     }
 
-    const remaining = await this.getRemainingUsage(userId, featureKey);
+    const [remaining, budgets, override] = await Promise.all([
+      this.getRemainingUsage(userId, featureKey),
+      this.usageBudgetService.getBudgetStatuses(userId, featureKey),
+      this.usageBudgetService.getActiveOverride(userId, featureKey),
+    ]);
+
+    const decision = decideFeatureUsage({
+      remaining,
+      budgets,
+      hasOverride: override !== null,
+    });
+
     return {
-      canUse: remaining > 0,
+      canUse: decision.canUse,
       remaining,
       limit: limit.daily_limit,
+      reason: decision.reason,
+      warning: decision.warning,
+      budgets,
+      overrideExpiresAt: override?.expires_at,
     };
   }
 
@@ -152,6 +189,9 @@ export class UsageLimitService {
       limit: number;
       remaining: number;
       canUse: boolean;
+      warning?: boolean;
+      budgets?: UsageBudgetStatus[];
+      overrideExpiresAt?: Date;
     };
   }> {
     try {
@@ -205,11 +245,35 @@ export class UsageLimitService {
 
           const remaining = Math.max(0, limit.daily_limit - used);
 
+          let budgets: UsageBudgetStatus[] = [];
+          let overrideExpiresAt: Date | undefined;
+          try {
+            budgets = await this.usageBudgetService.getBudgetStatuses(
+              userId,
+              limit.feature_key
+            );
+            const override = await this.usageBudgetService.getActiveOverride(
+              userId,
+              limit.feature_key
+            );
+            overrideExpiresAt = override?.expires_at;
+          } catch (error) {
+            console.error(
+              `予算の取得エラー (feature: ${limit.feature_key}):`,
+              error
+            );
+          }
+
           result[limit.feature_key] = {
             used,
             limit: limit.daily_limit,
             remaining,
-            canUse: remaining > 0,
+            canUse:
+              overrideExpiresAt !== undefined ||
+              (remaining > 0 && !budgets.some((budget) => budget.exceeded)),
+            warning: budgets.some((budget) => budget.warning),
+            budgets,
+            overrideExpiresAt,
           };
         }
       }
@@ -5,6 +5,19 @@ import { UserGroupMember, GroupMemberRole } from "../models/UserGroupMember";
 import { User } from "../models/User";
 import { In } from "typeorm";
 
+/**
+ * グループのメンバーとして返すユーザー情報（パスワードやログインのロック状態は含めない）
+ */
+export type GroupUserSummary = Pick<
+  User,
+  "id" | "name" | "email" | "department" | "role"
+>;
+
+export type GroupMemberSummary = Pick<
+  UserGroupMember,
+  "id" | "group_id" | "user_id" | "role" | "joined_at"
+> & { user: GroupUserSummary };
+
 export class UserGroupService {
   private groupRepository = AppDataSource.getRepository(UserGroup);
   private groupMemberRepository = AppDataSource.getRepository(UserGroupMember);
@@ -178,10 +191,8 @@ export class UserGroupService {
   /**
    * グループのメンバー一覧を取得
    */
-  async getGroupMembers(
-    groupId: number
-  ): Promise<(UserGroupMember & { user: User })[]> {
-    return this.groupMemberRepository.find({
+  async getGroupMembers(groupId: number): Promise<GroupMemberSummary[]> {
+    const memberships = await this.groupMemberRepository.find({
       where: { group_id: groupId },
       relations: ["user"],
       order: {
@@ -189,6 +200,15 @@ export class UserGroupService {
         joined_at: "ASC",
       },
     });
+
+    return memberships.map((membership) => ({
+      id: membership.id,
+      group_id: membership.group_id,
+      user_id: membership.user_id,
+      role: membership.role,
+      joined_at: membership.joined_at,
+      user: UserGroupService.toUserSummary(membership.user),
+    }));
   }
 
   /**
@@ -205,7 +225,7 @@ export class UserGroupService {
   /**
    * 同じグループに所属するユーザーを取得
    */
-  async getUsersInSameGroups(userId: number): Promise<User[]> {
+  async getUsersInSameGroups(userId: number): Promise<GroupUserSummary[]> {
     // ユーザーが所属するグループIDを取得
     const userGroupIds = await this.groupMemberRepository
       .find({
@@ -227,13 +247,26 @@ export class UserGroupService {
     });
 
     // ユーザー自身を除き、重複を排除
-    const userMap = new Map<number, User>();
+    const userMap = new Map<number, GroupUserSummary>();
     groupMemberships.forEach((membership) => {
       if (membership.user_id !== userId) {
-        userMap.set(membership.user_id, membership.user);
+        userMap.set(
+          membership.user_id,
+          UserGroupService.toUserSummary(membership.user)
+        );
       }
     });
 
     return Array.from(userMap.values());
   }
+
+  private static toUserSummary(user: User): GroupUserSummary {
+    return {
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      department: user.department,
+      role: user.role,
+    };
+  }
 }
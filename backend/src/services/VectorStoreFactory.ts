@@ -0,0 +1,62 @@
+// backend/src/services/VectorStoreFactory.ts
+import { AppDataSource } from "../index";
+import { VectorStore } from "@langchain/core/vectorstores";
+import { Chroma } from "@langchain/community/vectorstores/chroma";
+import { VectorDocument } from "../models/VectorDocument";
+import { EmbeddingProviderRegistry } from "./EmbeddingProviderRegistry";
+import { MySQLVectorStore } from "./MySQLVectorStore";
+
+export interface VectorStoreOptions {
+  // Chromaのコレクションを新規作成するときのメタデータ
+  collectionMetadata?: Record<string, any>;
+}
+
+/**
+ * 設定されたベクトルストア（Chroma / MySQL）と埋め込みモデルでコレクションを開く
+ */
+export class VectorStoreFactory {
+  private registry = EmbeddingProviderRegistry.getInstance();
+  private vectorDocumentRepository =
+    AppDataSource.getRepository(VectorDocument);
+
+  /**
+   * コレクションのベクトルストアを取得（存在しない場合は作成）
+   */
+  async open(
+    collectionName: string,
+    options: VectorStoreOptions = {}
+  ): Promise<VectorStore> {
+    const embeddings = this.registry.getEmbeddings();
+
+    if (this.registry.getVectorStoreBackend() === "mysql") {
+      return new MySQLVectorStore(embeddings, {
+        collectionName,
+        embeddingModel: this.registry.getModelId(),
+        repository: this.vectorDocumentRepository,
+      });
+    }
+
+    const chromaUrl = `http://${process.env.CHROMA_HOST || "localhost"}:${
+      process.env.CHROMA_PORT || "8000"
+    }`;
+    console.log(`Chromaに接続: ${chromaUrl} (コレクション ${collectionName})`);
+
+    try {
+      // 既存のコレクションへの接続試行
+      return await Chroma.fromExistingCollection(embeddings, {
+        collectionName,
+        url: chromaUrl,
+        collectionMetadata: options.collectionMetadata,
+      });
+    } catch (error) {
+      console.log(`新規コレクション作成: ${collectionName}`);
+
+      // 新規コレクション作成
+      return await Chroma.fromDocuments([], embeddings, {
+        collectionName,
+        url: chromaUrl,
+        collectionMetadata: options.collectionMetadata,
+      });
+    }
+  }
+}
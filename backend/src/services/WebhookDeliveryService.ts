@@ -0,0 +1,84 @@
+// backend/src/services/WebhookDeliveryService.ts
+import { LessThan } from "typeorm";
+import { AppDataSource } from "../index";
+import { WebhookDelivery, WebhookSource } from "../models/WebhookDelivery";
+
+// 配信記録の保持期間
+const RETENTION_DAYS = 30;
+// 古い配信記録の削除を行う間隔
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+let lastPurgedAt = 0;
+
+/**
+ * 受信したWebhookの配信IDを記録し、同じ配信の再送・リプレイを検出するサービス
+ */
+export class WebhookDeliveryService {
+  private deliveryRepository = AppDataSource.getRepository(WebhookDelivery);
+
+  /**
+   * 配信を記録する
+   * @returns 初めて受信した配信であれば true、既に受信済みであれば false
+   */
+  async registerDelivery(
+    source: WebhookSource,
+    deliveryId: string,
+    eventType?: string
+  ): Promise<boolean> {
+    await this.purgeExpiredDeliveries();
+
+    try {
+      await this.deliveryRepository.insert({
+        source,
+        delivery_id: deliveryId.substring(0, 100),
+        event_type: eventType ? eventType.substring(0, 100) : null,
+      });
+      return true;
+    } catch (error: any) {
+      if (error?.code === "ER_DUP_ENTRY") {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 処理に失敗した配信の記録を取り消す（再送で改めて処理できるようにする）
+   */
+  async releaseDelivery(
+    source: WebhookSource,
+    deliveryId: string
+  ): Promise<void> {
+    try {
+      await this.deliveryRepository.delete({
+        source,
+        delivery_id: deliveryId.substring(0, 100),
+      });
+    } catch (error) {
+      console.error(`Webhook配信記録の取り消しエラー (${deliveryId}):`, error);
+    }
+  }
+
+  /**
+   * 保持期間を過ぎた配信記録を削除（一定間隔ごとに実行）
+   */
+  private async purgeExpiredDeliveries(): Promise<void> {
+    const now = Date.now();
+    if (now - lastPurgedAt < PURGE_INTERVAL_MS) {
+      return;
+    }
+    lastPurgedAt = now;
+
+    try {
+      const threshold = new Date(now - RETENTION_DAYS * 24 * 60 * 60 * 1000);
+      const result = await this.deliveryRepository.delete({
+        received_at: LessThan(threshold),
+      });
+      if (result.affected) {
+        console.log(`古いWebhook配信記録を${result.affected}件削除しました`);
+      }
+    } catch (error) {
+      console.error("Webhook配信記録の削除エラー:", error);
+    }
+  }
+}
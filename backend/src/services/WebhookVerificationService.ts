@@ -0,0 +1,100 @@
+// backend/src/services/WebhookVerificationService.ts
+import crypto from "crypto";
+
+// 配信を受け付けるイベント発生時刻からの最大経過時間（古い配信のリプレイ対策）
+const DEFAULT_MAX_AGE_SECONDS = 10 * 60;
+
+/**
+ * Webhookの署名・共有トークン・配信時刻を検証するサービス
+ * DBに依存しない検証処理のみを担当し、配信IDの重複チェックは WebhookDeliveryService が行う
+ */
+export class WebhookVerificationService {
+  private maxAgeMs: number;
+
+  constructor(maxAgeSeconds?: number) {
+    this.maxAgeMs =
+      (maxAgeSeconds ??
+        parseInt(
+          process.env.WEBHOOK_MAX_AGE_SECONDS || `${DEFAULT_MAX_AGE_SECONDS}`
+        )) * 1000;
+  }
+
+  /**
+   * 受信した生のリクエストボディに対する HMAC-SHA256 署名（"sha256=<hex>" 形式）を検証
+   */
+  verifyHmacSignature(
+    rawBody: Buffer | undefined,
+    signatureHeader: string | undefined,
+    secret: string
+  ): boolean {
+    if (!rawBody || !signatureHeader || !secret) {
+      return false;
+    }
+
+    if (!signatureHeader.startsWith("sha256=")) {
+      return false;
+    }
+
+    const expected =
+      "sha256=" +
+      crypto.createHmac("sha256", secret).update(rawBody).digest("hex");
+    return this.safeCompare(expected, signatureHeader);
+  }
+
+  /**
+   * URLなどで渡された共有トークンを検証（署名を送れない送信元向け）
+   */
+  verifySharedToken(token: string | undefined, secret: string): boolean {
+    if (!token || !secret) {
+      return false;
+    }
+    return this.safeCompare(secret, token);
+  }
+
+  /**
+   * イベント発生時刻が許容範囲外（古すぎる、または未来すぎる）かどうか
+   * 時刻が取得できないイベントは配信IDの重複チェックのみで判定する
+   */
+  isStale(
+    eventTime: string | Date | undefined | null,
+    now: Date = new Date()
+  ): boolean {
+    if (!eventTime) {
+      return false;
+    }
+
+    const time = new Date(eventTime).getTime();
+    if (isNaN(time)) {
+      return false;
+    }
+
+    return Math.abs(now.getTime() - time) > this.maxAgeMs;
+  }
+
+  /**
+   * GitHubのペイロードからイベントの発生時刻を取得
+   */
+  getGitHubEventTime(eventType: string, payload: any): string | undefined {
+    switch (eventType) {
+      case "issue_comment":
+      case "pull_request_review_comment":
+        return payload.comment?.updated_at || payload.comment?.created_at;
+      case "pull_request":
+        return payload.pull_request?.updated_at;
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * 定数時間での文字列比較（ハッシュ化して長さの違いによる例外や時間差を避ける）
+   */
+  private safeCompare(expected: string, actual: string): boolean {
+    const expectedDigest = crypto
+      .createHash("sha256")
+      .update(expected)
+      .digest();
+    const actualDigest = crypto.createHash("sha256").update(actual).digest();
+    return crypto.timingSafeEqual(expectedDigest, actualDigest);
+  }
+}
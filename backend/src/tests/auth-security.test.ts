@@ -0,0 +1,170 @@
+import { AuthSecurityService } from "../services/AuthSecurityService";
+import { NotificationTemplateService } from "../services/NotificationTemplateService";
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+async function runAuthSecurityTests() {
+  console.log("認証のセキュリティポリシーのテストを開始します...\n");
+
+  const results: { case: string; passed: boolean; detail: string }[] = [];
+  const security = new AuthSecurityService({
+    maxFailedAttempts: 3,
+    lockoutMinutes: 15,
+    sessionIdleDays: 7,
+    sessionMaxDays: 30,
+    sessionRenewIntervalMinutes: 5,
+    passwordResetTokenMinutes: 60,
+  });
+  const now = new Date("2026-01-05T00:00:00Z");
+
+  // テストケース1: 連続したログイン失敗でロックし、期限が過ぎたら解除する
+  let state = { failed_login_count: 0, locked_until: null as Date | null };
+  const history: string[] = [];
+  for (let i = 0; i < 3; i++) {
+    state = security.registerFailure(state, now);
+    history.push(
+      `${state.failed_login_count}:${security.isLocked(state, now)}`
+    );
+  }
+  const lockedUntil = state.locked_until;
+  const afterLock = new Date(now.getTime() + 16 * MINUTE_MS);
+  const retried = security.registerFailure(state, afterLock);
+  results.push({
+    case: "ログイン失敗によるアカウントロック",
+    passed:
+      history.join(",") === "1:false,2:false,0:true" &&
+      lockedUntil?.toISOString() === "2026-01-05T00:15:00.000Z" &&
+      security.isLocked(state, new Date(now.getTime() + 14 * MINUTE_MS)) &&
+      !security.isLocked(state, afterLock) &&
+      retried.failed_login_count === 1 &&
+      retried.locked_until === null,
+    detail: JSON.stringify({ history, lockedUntil, retried }),
+  });
+
+  // テストケース2: セッションの有効期限の延長（スライディング方式と最長日数）
+  const session = {
+    created_at: now,
+    expires_at: security.getSessionExpiry(now),
+    last_active_at: now,
+  };
+  const soon = security.getSessionRenewal(
+    session,
+    new Date(now.getTime() + 2 * MINUTE_MS)
+  );
+  const nextDay = new Date(now.getTime() + DAY_MS);
+  const renewed = security.getSessionRenewal(session, nextDay);
+  const nearMax = new Date(now.getTime() + 28 * DAY_MS);
+  const capped = security.getSessionRenewal(
+    { ...session, last_active_at: new Date(now.getTime() + 27 * DAY_MS) },
+    nearMax
+  );
+  const legacy = security.getSessionRenewal(
+    { ...session, last_active_at: null },
+    nextDay
+  );
+  results.push({
+    case: "セッションの有効期限の延長",
+    passed:
+      session.expires_at.toISOString() === "2026-01-12T00:00:00.000Z" &&
+      soon === null &&
+      renewed?.expires_at.toISOString() === "2026-01-13T00:00:00.000Z" &&
+      renewed?.last_active_at?.getTime() === nextDay.getTime() &&
+      capped?.expires_at.toISOString() === "2026-02-04T00:00:00.000Z" &&
+      legacy !== null,
+    detail: JSON.stringify({ renewed, capped }),
+  });
+
+  // テストケース3: パスワード再設定用トークン
+  const token = AuthSecurityService.generateToken();
+  const otherToken = AuthSecurityService.generateToken();
+  const hash = AuthSecurityService.hashToken(token);
+  results.push({
+    case: "パスワード再設定用トークン",
+    passed:
+      /^[0-9a-f]{64}$/.test(token) &&
+      token !== otherToken &&
+      /^[0-9a-f]{64}$/.test(hash) &&
+      hash !== token &&
+      hash === AuthSecurityService.hashToken(token) &&
+      security.getPasswordResetExpiry(now).toISOString() ===
+        "2026-01-05T01:00:00.000Z",
+    detail: hash,
+  });
+
+  // テストケース4: 再設定メールの本文
+  const templates = new NotificationTemplateService("http://localhost:3000");
+  const ja = templates.renderPasswordReset(
+    "http://localhost:3000/reset-password?token=abc",
+    60,
+    "ja",
+    "佐藤"
+  );
+  const en = templates.renderPasswordReset(
+    "http://localhost:3000/reset-password?token=abc",
+    30,
+    "en",
+    "Sato"
+  );
+  results.push({
+    case: "パスワード再設定メール",
+    passed:
+      ja.emailSubject === "[Code Reviewer] パスワードの再設定" &&
+      ja.emailText.startsWith("佐藤 さん") &&
+      ja.emailText.includes("http://localhost:3000/reset-password?token=abc") &&
+      ja.emailText.includes("有効期限は60分") &&
+      en.emailSubject === "[Code Reviewer] Reset your password" &&
+      en.emailText.includes("expires in 30 minutes"),
+    detail: JSON.stringify(ja.emailSubject),
+  });
+
+  // テストケース5: User-Agent からの端末名
+  const devices = [
+    AuthSecurityService.describeDevice(
+      "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36"
+    ),
+    AuthSecurityService.describeDevice(
+      "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.1 Safari/605.1.15"
+    ),
+    AuthSecurityService.describeDevice(
+      "Mozilla/5.0 (iPhone; CPU iPhone OS 17_1 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.1 Mobile/15E148 Safari/604.1"
+    ),
+    AuthSecurityService.describeDevice(
+      "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.0.0"
+    ),
+    AuthSecurityService.describeDevice(
+      "Mozilla/5.0 (X11; Linux x86_64; rv:121.0) Gecko/20100101 Firefox/121.0"
+    ),
+    AuthSecurityService.describeDevice("curl/8.4.0"),
+    AuthSecurityService.describeDevice(null),
+  ];
+  results.push({
+    case: "端末名の表示",
+    passed:
+      devices.join(",") ===
+      "Chrome（Windows）,Safari（macOS）,Safari（iOS）,Edge（Windows）,Firefox（Linux）,不明な端末,不明な端末",
+    detail: JSON.stringify(devices),
+  });
+
+  // 結果のサマリーを表示
+  console.log("=== テスト結果 ===");
+  results.forEach((result) => {
+    console.log(
+      `${result.passed ? "✅ 成功" : "❌ 失敗"} ${result.case}: ${
+        result.detail
+      }`
+    );
+  });
+  console.log(`\n総テスト数: ${results.length}`);
+  console.log(`成功: ${results.filter((r) => r.passed).length}`);
+  console.log(`失敗: ${results.filter((r) => !r.passed).length}`);
+
+  if (results.some((r) => !r.passed)) {
+    process.exit(1);
+  }
+}
+
+runAuthSecurityTests().catch((error) => {
+  console.error("テスト実行中にエラーが発生しました:", error);
+  process.exit(1);
+});
@@ -0,0 +1,158 @@
+import { CodeChunkingService } from "../services/CodeChunkingService";
+
+async function runCodeChunkingTests() {
+  console.log("コードのチャンク分割テストを開始します...\n");
+
+  // テストしやすいよう小さな上限で分割する
+  const service = new CodeChunkingService(400, 120);
+  const results: { case: string; passed: boolean; detail: string }[] = [];
+
+  const describe = (chunks: ReturnType<CodeChunkingService["chunk"]>) =>
+    JSON.stringify(
+      chunks.map((c) => [c.startLine, c.endLine, c.symbols, c.strategy])
+    );
+
+  // テストケース1: TypeScriptの関数・クラスの境界で分割する
+  const body = (name: string) =>
+    Array.from(
+      { length: 6 },
+      (_, i) => `  const ${name}Value${i} = compute("${name}", ${i});`
+    ).join("\n");
+  const tsSource = [
+    'import { compute } from "./compute";', // 1
+    "", // 2
+    "/**", // 3
+    " * 合計を計算する", // 4
+    " */", // 5
+    "export function sum(items: number[]): number {", // 6
+    body("sum"), // 7-12
+    "  return items.reduce((a, b) => a + b, 0);", // 13
+    "}", // 14
+    "", // 15
+    "export class Cart {", // 16
+    "  private items: number[] = [];", // 17
+    "", // 18
+    "  add(item: number): void {", // 19
+    body("add"), // 20-25
+    "    this.items.push(item);", // 26
+    "  }", // 27
+    "", // 28
+    "  total(): number {", // 29
+    body("total"), // 30-35
+    '    return sum(this.items.filter((i) => i > 0 && i !== "{"));', // 36
+    "  }", // 37
+    "}", // 38
+  ].join("\n");
+  const tsChunks = service.chunk(tsSource, ".ts");
+  const sumChunk = tsChunks.find((c) => c.symbols.includes("sum"));
+  const addChunk = tsChunks.find((c) => c.symbols.includes("Cart.add"));
+  const totalChunk = tsChunks.find((c) => c.symbols.includes("Cart.total"));
+  results.push({
+    case: "TypeScriptの宣言単位での分割",
+    passed:
+      !!sumChunk &&
+      sumChunk.startLine === 1 &&
+      sumChunk.endLine === 14 &&
+      sumChunk.content.includes("合計を計算する") &&
+      !!addChunk &&
+      addChunk.endLine === 27 &&
+      !!totalChunk &&
+      totalChunk.startLine === 29 &&
+      totalChunk.endLine === 38 &&
+      tsChunks.every((c) => c.strategy === "syntax"),
+    detail: describe(tsChunks),
+  });
+
+  // テストケース2: Pythonはインデントで範囲を判定する
+  const pySource = [
+    "import os", // 1
+    "", // 2
+    "@decorator", // 3
+    "def load(path):", // 4
+    '    """', // 5
+    "def inside_docstring():", // 6
+    '    """', // 7
+    ...Array.from(
+      { length: 5 },
+      (_, i) => `    value_${i} = os.path.join(path, "file_${i}")`
+    ), // 8-12
+    "    return path", // 13
+    "", // 14
+    "def save(", // 15
+    "    path,", // 16
+    "):", // 17
+    ...Array.from(
+      { length: 6 },
+      (_, i) => `    result_${i} = os.path.exists(path + "${i}")`
+    ), // 18-23
+    "    return True", // 24
+  ].join("\n");
+  const pyChunks = service.chunk(pySource, ".py");
+  const loadChunk = pyChunks.find((c) => c.symbols.includes("load"));
+  const saveChunk = pyChunks.find((c) => c.symbols.includes("save"));
+  results.push({
+    case: "Pythonの宣言単位での分割",
+    passed:
+      !!loadChunk &&
+      loadChunk.content.includes("@decorator") &&
+      loadChunk.endLine === 13 &&
+      !pyChunks.some((c) => c.symbols.includes("inside_docstring")) &&
+      !!saveChunk &&
+      saveChunk.startLine === 15 &&
+      saveChunk.endLine === 24,
+    detail: describe(pyChunks),
+  });
+
+  // テストケース3: 大きすぎる関数や未対応の言語は文字数で分割する
+  const longFunction = [
+    "func Process() {",
+    ...Array.from(
+      { length: 30 },
+      (_, i) => `\tfmt.Println("processing step number ${i}")`
+    ),
+    "}",
+  ].join("\n");
+  const goChunks = service.chunk(longFunction, ".go");
+  const textChunks = service.chunk(
+    Array.from({ length: 40 }, (_, i) => `line ${i} of the note`).join("\n"),
+    ".md"
+  );
+  results.push({
+    case: "文字数での分割",
+    passed:
+      goChunks.length > 1 &&
+      goChunks.every(
+        (c) =>
+          c.strategy === "size" &&
+          c.symbols.join() === "Process" &&
+          c.content.length <= 400
+      ) &&
+      goChunks[0].startLine === 1 &&
+      goChunks[goChunks.length - 1].endLine === 32 &&
+      textChunks.length > 1 &&
+      textChunks.every((c) => c.strategy === "size" && c.symbols.length === 0),
+    detail: `${describe(goChunks)} ${describe(textChunks)}`,
+  });
+
+  // 結果のサマリーを表示
+  console.log("=== テスト結果 ===");
+  results.forEach((result) => {
+    console.log(
+      `${result.passed ? "✅ 成功" : "❌ 失敗"} ${result.case}: ${
+        result.detail
+      }`
+    );
+  });
+  console.log(`\n総テスト数: ${results.length}`);
+  console.log(`成功: ${results.filter((r) => r.passed).length}`);
+  console.log(`失敗: ${results.filter((r) => !r.passed).length}`);
+
+  if (results.some((r) => !r.passed)) {
+    process.exit(1);
+  }
+}
+
+runCodeChunkingTests().catch((error) => {
+  console.error("テスト実行中にエラーが発生しました:", error);
+  process.exit(1);
+});
@@ -0,0 +1,167 @@
+import { StringOutputParser } from "@langchain/core/output_parsers";
+import { AIFeature } from "../constants/AIFeatures";
+import { SkillLevel } from "../models/Evaluation";
+import {
+  CriteriaEvaluationStore,
+  CriteriaScoringService,
+} from "../services/CriteriaScoringService";
+import {
+  CriteriaScore,
+  EvaluationScoringService,
+} from "../services/EvaluationScoringService";
+import { LLMProviderRegistry } from "../services/LLMProviderRegistry";
+
+/**
+ * evaluations テーブルの代わりにメモリ上に評価を保存するストア
+ */
+class MemoryEvaluationStore implements CriteriaEvaluationStore {
+  saved: {
+    user_id: number;
+    submission_id: number;
+    criteria_scores: CriteriaScore[];
+    overall_score: number;
+  }[] = [];
+  private scoringService = new EvaluationScoringService();
+
+  async saveReviewEvaluation(evaluationData: {
+    user_id: number;
+    submission_id: number;
+    criteria_scores: CriteriaScore[];
+  }) {
+    const overall_score = this.scoringService.calculateOverallScore(
+      evaluationData.criteria_scores
+    );
+    this.saved.push({ ...evaluationData, overall_score });
+    return { overall_level: SkillLevel.C, overall_score };
+  }
+}
+
+// 初期データ（CreateEvaluationCriteria マイグレーション）の評価基準
+const SEEDED_CRITERIA = [
+  "code_quality",
+  "readability",
+  "efficiency",
+  "best_practices",
+].map((key, index) => ({
+  key,
+  name: key,
+  min_score: 0,
+  max_score: 10,
+  weight: 1.0,
+  display_order: index + 1,
+}));
+
+async function runCriteriaScoringTests() {
+  console.log(
+    "評価基準による採点（fakeプロバイダー）のテストを開始します...\n"
+  );
+
+  const registry = LLMProviderRegistry.getInstance();
+  const results: { case: string; passed: boolean; detail: string }[] = [];
+  process.env.LLM_PROVIDER = "fake";
+  delete process.env.LLM_FAKE_RESPONSES;
+
+  // テストケース1: レビューと同じ順番（分析 → 採点）で呼び出し、採点結果を保存する
+  const store = new MemoryEvaluationStore();
+  const service = new CriteriaScoringService(
+    () => registry.getChatModel(AIFeature.CODE_REVIEW),
+    store
+  );
+  const analysis = JSON.parse(
+    await registry
+      .getChatModel(AIFeature.CODE_REVIEW)
+      .pipe(new StringOutputParser())
+      .invoke("コードを評価基準に照らして評価してください")
+  );
+  await service.saveCriteriaEvaluation(
+    { id: 10, code_content: "console.log(1);" },
+    7,
+    SEEDED_CRITERIA
+  );
+  const saved = store.saved[0];
+  results.push({
+    case: "fakeプロバイダーでの採点と保存",
+    passed:
+      Array.isArray(analysis) &&
+      analysis[0].category === "code_quality" &&
+      store.saved.length === 1 &&
+      saved.user_id === 7 &&
+      saved.submission_id === 10 &&
+      saved.criteria_scores.map((score) => score.key).join(",") ===
+        "code_quality,readability,efficiency,best_practices" &&
+      saved.criteria_scores.every(
+        (score) => score.score === 5 && score.rationale.length > 0
+      ) &&
+      saved.overall_score === 5,
+    detail: JSON.stringify(
+      store.saved.map((evaluation) => [
+        evaluation.overall_score,
+        evaluation.criteria_scores.map((score) => score.key),
+      ])
+    ),
+  });
+
+  // テストケース2: 採点結果を解釈できない場合は保存せず、レビューを失敗させない
+  process.env.LLM_FAKE_RESPONSES = JSON.stringify(["採点できませんでした"]);
+  const failingStore = new MemoryEvaluationStore();
+  const failingModel = registry.createChatModel(AIFeature.CODE_REVIEW);
+  let thrown = false;
+  try {
+    await new CriteriaScoringService(
+      () => failingModel,
+      failingStore
+    ).saveCriteriaEvaluation(
+      { id: 11, code_content: "console.log(2);" },
+      7,
+      SEEDED_CRITERIA
+    );
+  } catch (error) {
+    thrown = true;
+  }
+  delete process.env.LLM_FAKE_RESPONSES;
+  results.push({
+    case: "採点の失敗",
+    passed: !thrown && failingStore.saved.length === 0,
+    detail: `例外=${thrown}, 保存=${failingStore.saved.length}`,
+  });
+
+  // テストケース3: 評価基準がない場合はモデルを呼び出さない
+  let called = false;
+  const emptyStore = new MemoryEvaluationStore();
+  await new CriteriaScoringService(() => {
+    called = true;
+    return registry.getChatModel(AIFeature.CODE_REVIEW);
+  }, emptyStore).saveCriteriaEvaluation(
+    { id: 12, code_content: "console.log(3);" },
+    7,
+    []
+  );
+  results.push({
+    case: "評価基準がない場合",
+    passed: !called && emptyStore.saved.length === 0,
+    detail: `呼び出し=${called}`,
+  });
+  delete process.env.LLM_PROVIDER;
+
+  // 結果のサマリーを表示
+  console.log("=== テスト結果 ===");
+  results.forEach((result) => {
+    console.log(
+      `${result.passed ? "✅ 成功" : "❌ 失敗"} ${result.case}: ${
+        result.detail
+      }`
+    );
+  });
+  console.log(`\n総テスト数: ${results.length}`);
+  console.log(`成功: ${results.filter((r) => r.passed).length}`);
+  console.log(`失敗: ${results.filter((r) => !r.passed).length}`);
+
+  if (results.some((r) => !r.passed)) {
+    process.exit(1);
+  }
+}
+
+runCriteriaScoringTests().catch((error) => {
+  console.error("テスト実行中にエラーが発生しました:", error);
+  process.exit(1);
+});
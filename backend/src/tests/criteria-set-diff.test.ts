@@ -0,0 +1,97 @@
+import {
+  CriteriaSetDiffService,
+  CriteriaSetItem,
+} from "../services/CriteriaSetDiffService";
+
+const BASE_ITEMS: CriteriaSetItem[] = [
+  {
+    criteria_id: 1,
+    key: "code_quality",
+    name: "コード品質",
+    description: "コードの品質、堅牢性、エラー処理など",
+    min_score: 0,
+    max_score: 10,
+    weight: 1.0,
+    is_active: true,
+    display_order: 1,
+  },
+  {
+    criteria_id: 2,
+    key: "readability",
+    name: "可読性",
+    description: "コードの読みやすさ、命名規則、コメントなど",
+    min_score: 0,
+    max_score: 10,
+    weight: 1.0,
+    is_active: true,
+    display_order: 2,
+  },
+];
+
+async function runCriteriaSetDiffTests() {
+  console.log("評価基準セットの差分テストを開始します...\n");
+
+  const service = new CriteriaSetDiffService();
+  const results: { case: string; passed: boolean; detail: string }[] = [];
+
+  // テストケース1: 追加・削除・変更された評価基準を検出する
+  const nextItems: CriteriaSetItem[] = [
+    { ...BASE_ITEMS[0], weight: 2.0, is_active: false },
+    {
+      criteria_id: 3,
+      key: "testing",
+      name: "テスト",
+      description: "",
+      min_score: 1,
+      max_score: 5,
+      weight: 1.0,
+      is_active: true,
+      display_order: 3,
+    },
+  ];
+  const diff = service.diff(BASE_ITEMS, nextItems);
+  results.push({
+    case: "追加・削除・変更の検出",
+    passed:
+      diff.added.length === 1 &&
+      diff.added[0].key === "testing" &&
+      diff.removed.length === 1 &&
+      diff.removed[0].key === "readability" &&
+      diff.changed.length === 1 &&
+      diff.changed[0].changes.map((c) => c.field).join(",") ===
+        "weight,is_active",
+    detail: JSON.stringify(diff.changed),
+  });
+
+  // テストケース2: 並び順が違うだけ、または内容が同じ場合は変更なし
+  const reordered = [...BASE_ITEMS].reverse();
+  results.push({
+    case: "変更なしの判定",
+    passed:
+      !service.hasChanges(BASE_ITEMS, reordered) &&
+      service.hasChanges(BASE_ITEMS, nextItems),
+    detail: `${service.hasChanges(BASE_ITEMS, reordered)}`,
+  });
+
+  // 結果のサマリーを表示
+  console.log("=== テスト結果 ===");
+  results.forEach((result) => {
+    console.log(
+      `${result.passed ? "✅ 成功" : "❌ 失敗"} ${result.case}: ${
+        result.detail
+      }`
+    );
+  });
+  console.log(`\n総テスト数: ${results.length}`);
+  console.log(`成功: ${results.filter((r) => r.passed).length}`);
+  console.log(`失敗: ${results.filter((r) => !r.passed).length}`);
+
+  if (results.some((r) => !r.passed)) {
+    process.exit(1);
+  }
+}
+
+runCriteriaSetDiffTests().catch((error) => {
+  console.error("テスト実行中にエラーが発生しました:", error);
+  process.exit(1);
+});
@@ -0,0 +1,121 @@
+import { EvaluationScoringService } from "../services/EvaluationScoringService";
+
+async function runEvaluationScoringTests() {
+  console.log("評価基準による採点テストを開始します...\n");
+
+  const service = new EvaluationScoringService();
+  const criteria = [
+    {
+      key: "code_quality",
+      name: "コード品質",
+      min_score: 0,
+      max_score: 10,
+      weight: 1.0,
+      yearWeight: 2.0,
+    },
+    {
+      key: "readability",
+      name: "可読性",
+      min_score: 0,
+      max_score: 10,
+      weight: 1.0,
+    },
+    {
+      key: "testing",
+      name: "テスト",
+      min_score: 1,
+      max_score: 5,
+      weight: 1.0,
+      yearWeight: 1.0,
+    },
+  ];
+  const results: { case: string; passed: boolean; detail: string }[] = [];
+
+  // テストケース1: 範囲外のスコアは丸め、年度別の重みを優先する
+  const scores = service.buildCriteriaScores(criteria, [
+    { key: "code_quality", score: 12, rationale: " 例外処理が丁寧です " },
+    { key: "readability", score: -3, rationale: "命名が不明瞭です" },
+    { key: "testing", score: 3, rationale: "主要な分岐のみテストがあります" },
+    { key: "unknown", score: 5, rationale: "存在しない基準" },
+  ]);
+  results.push({
+    case: "スコアの丸めと重み",
+    passed:
+      scores.length === 3 &&
+      scores[0].score === 10 &&
+      scores[0].weight === 2.0 &&
+      scores[0].rationale === "例外処理が丁寧です" &&
+      scores[1].score === 0 &&
+      scores[2].min_score === 1,
+    detail: JSON.stringify(scores.map((s) => [s.key, s.score, s.weight])),
+  });
+
+  // テストケース2: 範囲の異なる基準を正規化して重み付け平均する
+  // (10 * 2 + 0 * 1 + 5 * 1) / 4 = 6.25
+  const overall = service.calculateOverallScore(scores);
+  results.push({
+    case: "総合スコアの計算",
+    passed: overall === 6.25,
+    detail: `${overall}`,
+  });
+
+  // テストケース3: 採点されなかった基準は除外し、固定カラムは0で埋める
+  const partial = service.buildCriteriaScores(criteria, [
+    { key: "readability", score: 7.6, rationale: "読みやすい構成です" },
+  ]);
+  const columns = service.toLegacyScoreColumns(partial);
+  results.push({
+    case: "未採点の基準と固定カラム",
+    passed:
+      partial.length === 1 &&
+      columns.readability_score === 8 &&
+      columns.code_quality_score === 0 &&
+      columns.best_practices_score === 0 &&
+      service.calculateOverallScore([]) === 0,
+    detail: JSON.stringify(columns),
+  });
+
+  // テストケース4: スナップショットは年度別の重みを反映し、内容が変わるとバージョンが変わる
+  const snapshot = service.createCriteriaSnapshot(2025, criteria);
+  const reordered = service.createCriteriaSnapshot(
+    2025,
+    [...criteria].reverse()
+  );
+  const reweighted = service.createCriteriaSnapshot(2025, [
+    { ...criteria[0], yearWeight: 3.0 },
+    criteria[1],
+    criteria[2],
+  ]);
+  results.push({
+    case: "評価基準のスナップショット",
+    passed:
+      snapshot.criteria[0].weight === 2.0 &&
+      snapshot.version === reordered.version &&
+      snapshot.version !== reweighted.version &&
+      snapshot.version !==
+        service.createCriteriaSnapshot(2024, criteria).version,
+    detail: `${snapshot.version}, ${reweighted.version}`,
+  });
+
+  // 結果のサマリーを表示
+  console.log("=== テスト結果 ===");
+  results.forEach((result) => {
+    console.log(
+      `${result.passed ? "✅ 成功" : "❌ 失敗"} ${result.case}: ${
+        result.detail
+      }`
+    );
+  });
+  console.log(`\n総テスト数: ${results.length}`);
+  console.log(`成功: ${results.filter((r) => r.passed).length}`);
+  console.log(`失敗: ${results.filter((r) => !r.passed).length}`);
+
+  if (results.some((r) => !r.passed)) {
+    process.exit(1);
+  }
+}
+
+runEvaluationScoringTests().catch((error) => {
+  console.error("テスト実行中にエラーが発生しました:", error);
+  process.exit(1);
+});
@@ -0,0 +1,124 @@
+import { FeedbackClusteringService } from "../services/FeedbackClusteringService";
+
+async function runFeedbackClusteringTests() {
+  console.log("繰り返し指摘の検出テストを開始します...\n");
+
+  const service = new FeedbackClusteringService();
+  const results: { case: string; passed: boolean; detail: string }[] = [];
+
+  const feedback = (
+    id: number,
+    reviewId: number,
+    embedding: number[],
+    problemPoint: string,
+    createdAt: Date
+  ) => ({
+    feedback_id: id,
+    submission_id: id * 10,
+    review_id: reviewId,
+    category: "security",
+    priority: "high",
+    problem_point: problemPoint,
+    created_at: createdAt,
+    embedding,
+  });
+
+  // SQLインジェクションの指摘（互いに類似）と、無関係な指摘
+  const feedbacks = [
+    feedback(
+      3,
+      2,
+      [0.95, 0.05, 0],
+      "SQLを文字列連結で組み立てています",
+      new Date(2025, 4, 1)
+    ),
+    feedback(
+      1,
+      1,
+      [1, 0, 0],
+      "SQLインジェクションの危険があります",
+      new Date(2025, 3, 1)
+    ),
+    feedback(2, 1, [0, 1, 0], "変数名が分かりにくいです", new Date(2025, 3, 2)),
+    feedback(
+      4,
+      3,
+      [0.9, 0.1, 0.05],
+      "クエリにユーザー入力を直接埋め込んでいます",
+      new Date(2025, 5, 1)
+    ),
+  ];
+
+  // テストケース1: 複数のレビューにまたがる類似の指摘をまとめる
+  const issues = service.findRecurringIssues(feedbacks);
+  results.push({
+    case: "繰り返し指摘の検出",
+    passed:
+      issues.length === 1 &&
+      issues[0].occurrences === 3 &&
+      issues[0].review_count === 3 &&
+      issues[0].feedback_ids.join(",") === "1,3,4" &&
+      issues[0].first_seen.getTime() === new Date(2025, 3, 1).getTime() &&
+      issues[0].last_seen.getTime() === new Date(2025, 5, 1).getTime() &&
+      issues[0].summary === "クエリにユーザー入力を直接埋め込んでいます",
+    detail: JSON.stringify(
+      issues.map((i) => [i.feedback_ids, i.occurrences, i.review_count])
+    ),
+  });
+
+  // テストケース2: 同じレビューの再提出で繰り返された指摘は繰り返しに数えない
+  const sameReview = service.findRecurringIssues([
+    feedback(
+      1,
+      1,
+      [1, 0, 0],
+      "SQLインジェクションの危険があります",
+      new Date(2025, 3, 1)
+    ),
+    feedback(
+      2,
+      1,
+      [1, 0, 0],
+      "SQLインジェクションの危険があります",
+      new Date(2025, 3, 2)
+    ),
+  ]);
+  results.push({
+    case: "同じレビュー内の指摘",
+    passed: sameReview.length === 0,
+    detail: JSON.stringify(sameReview),
+  });
+
+  // テストケース3: プロンプト用の説明に回数と日付を含める
+  const context = service.formatPromptContext(issues);
+  results.push({
+    case: "プロンプト用の説明",
+    passed:
+      context.startsWith("1. クエリにユーザー入力を直接埋め込んでいます") &&
+      context.includes("3件のレビューで計3回指摘") &&
+      service.formatPromptContext([]) === "",
+    detail: context,
+  });
+
+  // 結果のサマリーを表示
+  console.log("=== テスト結果 ===");
+  results.forEach((result) => {
+    console.log(
+      `${result.passed ? "✅ 成功" : "❌ 失敗"} ${result.case}: ${
+        result.detail
+      }`
+    );
+  });
+  console.log(`\n総テスト数: ${results.length}`);
+  console.log(`成功: ${results.filter((r) => r.passed).length}`);
+  console.log(`失敗: ${results.filter((r) => !r.passed).length}`);
+
+  if (results.some((r) => !r.passed)) {
+    process.exit(1);
+  }
+}
+
+runFeedbackClusteringTests().catch((error) => {
+  console.error("テスト実行中にエラーが発生しました:", error);
+  process.exit(1);
+});
@@ -0,0 +1,110 @@
+import { GitHubPushReviewScheduler } from "../services/GitHubPushReviewScheduler";
+
+const DEBOUNCE_MS = 50;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function runPushReviewSchedulerTests() {
+  console.log("プッシュ時の差分レビュー予約テストを開始します...\n");
+
+  const results: { case: string; passed: boolean; detail: string }[] = [];
+
+  // テストケース1: 連続したプッシュは最後のプッシュから待機後に1回だけレビューする
+  const burstCalls: string[] = [];
+  const burstScheduler = new GitHubPushReviewScheduler(
+    async (owner, repo, prNumber) => {
+      burstCalls.push(`${owner}/${repo}#${prNumber}`);
+    },
+    DEBOUNCE_MS
+  );
+  burstScheduler.schedule("octo", "app", 1, "sha-1");
+  await wait(DEBOUNCE_MS / 2);
+  burstScheduler.schedule("octo", "app", 1, "sha-2");
+  await wait(DEBOUNCE_MS / 2);
+  burstScheduler.schedule("octo", "app", 1, "sha-3");
+  const scheduledBeforeRun = burstScheduler.isScheduled("octo", "app", 1);
+  await wait(DEBOUNCE_MS * 2);
+  results.push({
+    case: "連続プッシュのデバウンス",
+    passed:
+      scheduledBeforeRun &&
+      burstCalls.length === 1 &&
+      !burstScheduler.isScheduled("octo", "app", 1),
+    detail: `実行回数=${burstCalls.length}`,
+  });
+
+  // テストケース2: 同じヘッドコミットの再予約（定期チェック）では待機時間を延長しない
+  const sameShaCalls: number[] = [];
+  const sameShaScheduler = new GitHubPushReviewScheduler(
+    async (owner, repo, prNumber) => {
+      sameShaCalls.push(prNumber);
+    },
+    DEBOUNCE_MS
+  );
+  const first = sameShaScheduler.schedule("octo", "app", 2, "sha-a");
+  await wait(DEBOUNCE_MS / 2);
+  const second = sameShaScheduler.schedule("octo", "app", 2, "sha-a");
+  await wait(DEBOUNCE_MS * 0.75);
+  results.push({
+    case: "同一コミットの再予約",
+    passed: first && !second && sameShaCalls.length === 1,
+    detail: `予約=${first}/${second}, 実行回数=${sameShaCalls.length}`,
+  });
+
+  // テストケース3: レビュー実行中のプッシュは終了後に改めてレビューする
+  const runningCalls: number[] = [];
+  const runningScheduler = new GitHubPushReviewScheduler(async () => {
+    runningCalls.push(Date.now());
+    await wait(DEBOUNCE_MS * 2);
+  }, DEBOUNCE_MS);
+  runningScheduler.schedule("octo", "app", 3, "sha-x");
+  await wait(DEBOUNCE_MS * 1.5);
+  runningScheduler.schedule("octo", "app", 3, "sha-y");
+  await wait(DEBOUNCE_MS * 1.5);
+  const callsWhileRunning = runningCalls.length;
+  await wait(DEBOUNCE_MS * 4);
+  results.push({
+    case: "実行中のプッシュ",
+    passed: callsWhileRunning === 1 && runningCalls.length === 2,
+    detail: `実行中=${callsWhileRunning}, 最終=${runningCalls.length}`,
+  });
+
+  // テストケース4: 取り消した予約は実行しない
+  const cancelCalls: number[] = [];
+  const cancelScheduler = new GitHubPushReviewScheduler(
+    async (owner, repo, prNumber) => {
+      cancelCalls.push(prNumber);
+    },
+    DEBOUNCE_MS
+  );
+  cancelScheduler.schedule("octo", "app", 4, "sha-c");
+  cancelScheduler.cancel("octo", "app", 4);
+  await wait(DEBOUNCE_MS * 2);
+  results.push({
+    case: "予約の取り消し",
+    passed: cancelCalls.length === 0,
+    detail: `実行回数=${cancelCalls.length}`,
+  });
+
+  // 結果のサマリーを表示
+  console.log("=== テスト結果 ===");
+  results.forEach((result) => {
+    console.log(
+      `${result.passed ? "✅ 成功" : "❌ 失敗"} ${result.case}: ${
+        result.detail
+      }`
+    );
+  });
+  console.log(`\n総テスト数: ${results.length}`);
+  console.log(`成功: ${results.filter((r) => r.passed).length}`);
+  console.log(`失敗: ${results.filter((r) => !r.passed).length}`);
+
+  if (results.some((r) => !r.passed)) {
+    process.exit(1);
+  }
+}
+
+runPushReviewSchedulerTests().catch((error) => {
+  console.error("テスト実行中にエラーが発生しました:", error);
+  process.exit(1);
+});
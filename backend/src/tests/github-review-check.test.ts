@@ -0,0 +1,103 @@
+import { GitHubReviewCheckService } from "../services/GitHubReviewCheckService";
+import { GitHubCheckGatingPolicy } from "../models/GitHubRepository";
+import { FeedbackCategory, FeedbackPriority } from "../models/Feedback";
+
+async function runReviewCheckTests() {
+  console.log("AIレビューチェックの判定テストを開始します...\n");
+
+  const service = new GitHubReviewCheckService();
+  const feedbacks = [
+    {
+      feedback_type: "strength",
+      category: FeedbackCategory.READABILITY,
+      point: "関数名が明確です",
+    },
+    {
+      feedback_type: "improvement",
+      category: FeedbackCategory.SECURITY,
+      point: "SQLインジェクションの危険があります",
+      priority: FeedbackPriority.HIGH,
+    },
+    {
+      feedback_type: "improvement",
+      category: FeedbackCategory.PERFORMANCE,
+      point: "ループ内でクエリを発行しています",
+      priority: FeedbackPriority.HIGH,
+    },
+    {
+      feedback_type: "improvement",
+      category: FeedbackCategory.READABILITY,
+      point: "変数名が短すぎます",
+      priority: FeedbackPriority.LOW,
+    },
+  ];
+  const results: { case: string; passed: boolean; detail: string }[] = [];
+
+  // テストケース1: 方針ごとにブロックする指摘の数が変わる
+  const counts = {
+    none: service.evaluateFeedbacks(feedbacks, GitHubCheckGatingPolicy.NONE),
+    highSecurity: service.evaluateFeedbacks(
+      feedbacks,
+      GitHubCheckGatingPolicy.HIGH_SECURITY
+    ),
+    highPriority: service.evaluateFeedbacks(
+      feedbacks,
+      GitHubCheckGatingPolicy.HIGH_PRIORITY
+    ),
+    anyImprovement: service.evaluateFeedbacks(
+      feedbacks,
+      GitHubCheckGatingPolicy.ANY_IMPROVEMENT
+    ),
+  };
+  results.push({
+    case: "方針ごとの判定",
+    passed:
+      counts.none.conclusion === "neutral" &&
+      counts.highSecurity.conclusion === "failure" &&
+      counts.highSecurity.blockingCount === 1 &&
+      counts.highPriority.blockingCount === 2 &&
+      counts.anyImprovement.blockingCount === 3,
+    detail: Object.entries(counts)
+      .map(
+        ([key, result]) =>
+          `${key}=${result.conclusion}(${result.blockingCount})`
+      )
+      .join(", "),
+  });
+
+  // テストケース2: 解決済みや優先度のない指摘はブロックしない
+  const resolved = service.evaluateFeedbacks(
+    [
+      { ...feedbacks[1], is_resolved: true },
+      { ...feedbacks[2], priority: undefined },
+    ],
+    GitHubCheckGatingPolicy.HIGH_PRIORITY
+  );
+  results.push({
+    case: "解決済み・優先度なし",
+    passed: resolved.conclusion === "success" && resolved.blockingCount === 0,
+    detail: `${resolved.conclusion}: ${resolved.title}`,
+  });
+
+  // 結果のサマリーを表示
+  console.log("=== テスト結果 ===");
+  results.forEach((result) => {
+    console.log(
+      `${result.passed ? "✅ 成功" : "❌ 失敗"} ${result.case}: ${
+        result.detail
+      }`
+    );
+  });
+  console.log(`\n総テスト数: ${results.length}`);
+  console.log(`成功: ${results.filter((r) => r.passed).length}`);
+  console.log(`失敗: ${results.filter((r) => !r.passed).length}`);
+
+  if (results.some((r) => !r.passed)) {
+    process.exit(1);
+  }
+}
+
+runReviewCheckTests().catch((error) => {
+  console.error("テスト実行中にエラーが発生しました:", error);
+  process.exit(1);
+});
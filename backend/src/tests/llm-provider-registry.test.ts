@@ -0,0 +1,169 @@
+import { StringOutputParser } from "@langchain/core/output_parsers";
+import { PromptTemplate } from "@langchain/core/prompts";
+import { LLMProviderRegistry } from "../services/LLMProviderRegistry";
+import {
+  AIFeature,
+  DEFAULT_AI_FEATURE_CONFIGS,
+  DEFAULT_FAKE_RESPONSES,
+  LLMRoutingRule,
+} from "../constants/AIFeatures";
+
+async function runLLMProviderTests() {
+  console.log("LLMプロバイダーレジストリのテストを開始します...\n");
+
+  const registry = LLMProviderRegistry.getInstance();
+  const results: { case: string; passed: boolean; detail: string }[] = [];
+
+  // テストケース1: 環境変数がなければデフォルト設定が使われる
+  delete process.env.LLM_PROVIDER;
+  delete process.env.LLM_CODE_REVIEW_PROVIDER;
+  delete process.env.LLM_CODE_REVIEW_MODEL;
+  delete process.env.LLM_CODE_REVIEW_MODEL;
+  const defaultConfig = registry.getFeatureConfig(AIFeature.CODE_REVIEW);
+  results.push({
+    case: "デフォルト設定",
+    passed:
+      defaultConfig.provider ===
+        DEFAULT_AI_FEATURE_CONFIGS[AIFeature.CODE_REVIEW].provider &&
+      defaultConfig.model ===
+        DEFAULT_AI_FEATURE_CONFIGS[AIFeature.CODE_REVIEW].model,
+    detail: `${defaultConfig.provider}/${defaultConfig.model}`,
+  });
+
+  // テストケース2: LLM_PROVIDER で全機能を切り替え、機能ごとの設定が優先される
+  process.env.LLM_PROVIDER = "fake";
+  process.env.LLM_AI_CHAT_PROVIDER = "openai";
+  process.env.LLM_AI_CHAT_TEMPERATURE = "0.5";
+  const reviewConfig = registry.getFeatureConfig(AIFeature.CODE_REVIEW);
+  const chatConfig = registry.getFeatureConfig(AIFeature.AI_CHAT);
+  results.push({
+    case: "環境変数による上書き",
+    passed:
+      reviewConfig.provider === "fake" &&
+      reviewConfig.model === "fake" &&
+      chatConfig.provider === "openai" &&
+      chatConfig.temperature === 0.5,
+    detail: `code_review=${reviewConfig.provider}, ai_chat=${chatConfig.provider}(${chatConfig.temperature})`,
+  });
+  delete process.env.LLM_AI_CHAT_PROVIDER;
+  delete process.env.LLM_AI_CHAT_TEMPERATURE;
+
+  // テストケース3: fakeプロバイダーはチェーン内で決定的な応答を返す
+  const model = registry.createChatModel(AIFeature.CODE_REVIEW);
+  const chain = PromptTemplate.fromTemplate("{code}")
+    .pipe(model)
+    .pipe(new StringOutputParser());
+  const first = await chain.invoke({ code: "console.log(1);" });
+  const expected = DEFAULT_FAKE_RESPONSES[AIFeature.CODE_REVIEW][0];
+  results.push({
+    case: "fakeプロバイダーの応答",
+    passed: first === expected && Array.isArray(JSON.parse(first)),
+    detail: first.substring(0, 80),
+  });
+
+  // テストケース4: LLM_FAKE_RESPONSES の応答を順番に返す
+  process.env.LLM_FAKE_RESPONSES = JSON.stringify(["one", "two"]);
+  const listModel = registry.createChatModel(AIFeature.AI_CHAT);
+  const listChain = listModel.pipe(new StringOutputParser());
+  const responses = [
+    await listChain.invoke("a"),
+    await listChain.invoke("b"),
+    await listChain.invoke("c"),
+  ];
+  results.push({
+    case: "LLM_FAKE_RESPONSES",
+    passed: responses.join(",") === "one,two,one",
+    detail: responses.join(","),
+  });
+  delete process.env.LLM_FAKE_RESPONSES;
+  delete process.env.LLM_PROVIDER;
+
+  // テストケース5: 管理画面のルーティングルールが環境変数より優先され、フォールバックが設定される
+  process.env.LLM_CODE_REVIEW_PROVIDER = "fake";
+  process.env.LLM_CODE_REVIEW_MODEL = "fake-env";
+  registry.setRoutingRules([
+    {
+      feature: AIFeature.CODE_REVIEW,
+      provider: "fake",
+      model: "fake-primary",
+      temperature: 0,
+      timeoutMs: 1000,
+      fallbacks: [
+        {
+          provider: "fake",
+          model: "fake-fallback",
+          temperature: 0,
+          timeoutMs: 1000,
+        },
+      ],
+    },
+  ]);
+  const routedConfig = registry.getFeatureConfig(AIFeature.CODE_REVIEW);
+  const routedModel = registry.getChatModel(AIFeature.CODE_REVIEW);
+  const routedFallbacks = (routedModel as { fallbacks?: unknown[] }).fallbacks;
+  const cachedModel = registry.getChatModel(AIFeature.CODE_REVIEW);
+  registry.setRoutingRules([]);
+  const resetModel = registry.getChatModel(AIFeature.CODE_REVIEW);
+  results.push({
+    case: "ルーティングルール",
+    passed:
+      routedConfig.model === "fake-primary" &&
+      routedFallbacks?.length === 1 &&
+      cachedModel === routedModel &&
+      resetModel !== routedModel &&
+      registry.getFeatureConfig(AIFeature.CODE_REVIEW).model === "fake-env",
+    detail: `${routedConfig.provider}/${routedConfig.model}, fallbacks=${routedFallbacks?.length}`,
+  });
+  delete process.env.LLM_CODE_REVIEW_PROVIDER;
+  delete process.env.LLM_CODE_REVIEW_MODEL;
+
+  // テストケース6: 同じルールを再読み込みしてもキャッシュ済みのモデルを破棄しない
+  const chatRule = (): LLMRoutingRule => ({
+    feature: AIFeature.AI_CHAT,
+    provider: "fake",
+    model: "fake-chat",
+    temperature: 0,
+    timeoutMs: 1000,
+    fallbacks: [],
+  });
+  const firstUpdate = registry.setRoutingRules([chatRule()]);
+  const chatModel = registry.getChatModel(AIFeature.AI_CHAT);
+  const unchangedUpdate = registry.setRoutingRules([chatRule()]);
+  const unchangedModel = registry.getChatModel(AIFeature.AI_CHAT);
+  const changedUpdate = registry.setRoutingRules([
+    { ...chatRule(), model: "fake-chat-2" },
+  ]);
+  results.push({
+    case: "ルーティングルールの再読み込み",
+    passed:
+      firstUpdate &&
+      !unchangedUpdate &&
+      unchangedModel === chatModel &&
+      changedUpdate &&
+      registry.getChatModel(AIFeature.AI_CHAT) !== chatModel,
+    detail: `更新=${firstUpdate}/${unchangedUpdate}/${changedUpdate}`,
+  });
+  registry.setRoutingRules([]);
+
+  // 結果のサマリーを表示
+  console.log("=== テスト結果 ===");
+  results.forEach((result) => {
+    console.log(
+      `${result.passed ? "✅ 成功" : "❌ 失敗"} ${result.case}: ${
+        result.detail
+      }`
+    );
+  });
+  console.log(`\n総テスト数: ${results.length}`);
+  console.log(`成功: ${results.filter((r) => r.passed).length}`);
+  console.log(`失敗: ${results.filter((r) => !r.passed).length}`);
+
+  if (results.some((r) => !r.passed)) {
+    process.exit(1);
+  }
+}
+
+runLLMProviderTests().catch((error) => {
+  console.error("テスト実行中にエラーが発生しました:", error);
+  process.exit(1);
+});
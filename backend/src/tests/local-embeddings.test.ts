@@ -0,0 +1,149 @@
+import { LocalHashingEmbeddings } from "../services/LocalHashingEmbeddings";
+import { EmbeddingProviderRegistry } from "../services/EmbeddingProviderRegistry";
+import {
+  cosineSimilarity,
+  matchesMetadataFilter,
+} from "../services/MySQLVectorStore";
+
+async function runLocalEmbeddingsTests() {
+  console.log("ローカル埋め込みとベクトル検索のテストを開始します...\n");
+
+  const embeddings = new LocalHashingEmbeddings({ dimensions: 256 });
+  const results: { case: string; passed: boolean; detail: string }[] = [];
+
+  // テストケース1: 同じ入力には同じ正規化済みベクトルを返す
+  const [first, second] = await embeddings.embedDocuments([
+    "function calculateTotal(items) {}",
+    "function calculateTotal(items) {}",
+  ]);
+  const norm = Math.sqrt(first.reduce((sum, value) => sum + value ** 2, 0));
+  const empty = await embeddings.embedQuery("");
+  results.push({
+    case: "決定的で正規化されたベクトル",
+    passed:
+      first.length === 256 &&
+      JSON.stringify(first) === JSON.stringify(second) &&
+      Math.abs(norm - 1) < 1e-9 &&
+      empty.every((value) => value === 0),
+    detail: `次元数=${first.length}, ノルム=${norm.toFixed(6)}`,
+  });
+
+  // テストケース2: 識別子や語句が共通するコードほど近くなる
+  const documents = [
+    "export function calculateCartTotal(cartItems: CartItem[]) { return cartItems.reduce((sum, item) => sum + item.price, 0); }",
+    "export async function authenticateUser(email: string, password: string) { const user = await findUserByEmail(email); }",
+    "export function formatDate(date: Date) { return date.toISOString().split('T')[0]; }",
+    "ユーザーのパスワードをハッシュ化して保存する",
+  ];
+  const vectors = await embeddings.embedDocuments(documents);
+  const rank = async (query: string) => {
+    const queryVector = await embeddings.embedQuery(query);
+    return vectors
+      .map((vector, index) => ({
+        index,
+        score: cosineSimilarity(queryVector, vector),
+      }))
+      .sort((a, b) => b.score - a.score);
+  };
+  const cartRanking = await rank("cart_items total price");
+  const authRanking = await rank("def authenticate_user(email, password):");
+  const japaneseRanking = await rank("パスワードのハッシュ化");
+  results.push({
+    case: "類似度の順位",
+    passed:
+      cartRanking[0].index === 0 &&
+      authRanking[0].index === 1 &&
+      japaneseRanking[0].index === 3 &&
+      cartRanking[0].score > cartRanking[1].score,
+    detail: JSON.stringify(
+      [cartRanking, authRanking, japaneseRanking].map((ranking) =>
+        ranking.map((r) => `${r.index}:${r.score.toFixed(3)}`)
+      )
+    ),
+  });
+
+  // テストケース3: メタデータのフィルタ（Chromaのwhere句と同じ書き方）
+  const metadata = { source: "src/cart.ts", extension: ".ts", chunk: 1 };
+  results.push({
+    case: "メタデータのフィルタ",
+    passed:
+      matchesMetadataFilter(metadata) &&
+      matchesMetadataFilter(metadata, { extension: { $in: [".ts", ".js"] } }) &&
+      matchesMetadataFilter(metadata, { source: "src/cart.ts", chunk: 1 }) &&
+      !matchesMetadataFilter(metadata, { extension: { $in: [".py"] } }) &&
+      !matchesMetadataFilter(metadata, { chunk: { $ne: 1 } }) &&
+      cosineSimilarity([1, 0], [0, 0]) === 0 &&
+      cosineSimilarity([1, 0], [1, 0, 0]) === 0,
+    detail: JSON.stringify(metadata),
+  });
+
+  // テストケース4: 環境変数で埋め込みプロバイダーとベクトルストアを切り替える
+  const registry = EmbeddingProviderRegistry.getInstance();
+  const originalEnv = {
+    EMBEDDING_PROVIDER: process.env.EMBEDDING_PROVIDER,
+    EMBEDDING_MODEL: process.env.EMBEDDING_MODEL,
+    EMBEDDING_LOCAL_DIMENSIONS: process.env.EMBEDDING_LOCAL_DIMENSIONS,
+    VECTOR_STORE: process.env.VECTOR_STORE,
+  };
+  delete process.env.EMBEDDING_PROVIDER;
+  delete process.env.EMBEDDING_MODEL;
+  delete process.env.VECTOR_STORE;
+  const defaultModelId = registry.getModelId();
+  const defaultBackend = registry.getVectorStoreBackend();
+
+  process.env.EMBEDDING_PROVIDER = "local";
+  process.env.EMBEDDING_LOCAL_DIMENSIONS = "64";
+  process.env.VECTOR_STORE = "mysql";
+  const localEmbeddings = registry.getEmbeddings();
+  const cached = registry.getEmbeddings() === localEmbeddings;
+  const localModelId = registry.getModelId();
+  const localBackend = registry.getVectorStoreBackend();
+  const localVector = await localEmbeddings.embedQuery("const value = 1;");
+
+  process.env.EMBEDDING_PROVIDER = "unknown";
+  const fallbackModelId = registry.getModelId();
+
+  Object.entries(originalEnv).forEach(([key, value]) => {
+    if (value === undefined) {
+      delete process.env[key];
+    } else {
+      process.env[key] = value;
+    }
+  });
+
+  results.push({
+    case: "プロバイダーの切り替え",
+    passed:
+      defaultModelId === "text-embedding-ada-002" &&
+      defaultBackend === "chroma" &&
+      localEmbeddings instanceof LocalHashingEmbeddings &&
+      cached &&
+      localModelId === "local/hashing-64" &&
+      localBackend === "mysql" &&
+      localVector.length === 64 &&
+      fallbackModelId === "text-embedding-ada-002",
+    detail: `${defaultModelId}/${defaultBackend} → ${localModelId}/${localBackend}`,
+  });
+
+  // 結果のサマリーを表示
+  console.log("=== テスト結果 ===");
+  results.forEach((result) => {
+    console.log(
+      `${result.passed ? "✅ 成功" : "❌ 失敗"} ${result.case}: ${
+        result.detail
+      }`
+    );
+  });
+  console.log(`\n総テスト数: ${results.length}`);
+  console.log(`成功: ${results.filter((r) => r.passed).length}`);
+  console.log(`失敗: ${results.filter((r) => !r.passed).length}`);
+
+  if (results.some((r) => !r.passed)) {
+    process.exit(1);
+  }
+}
+
+runLocalEmbeddingsTests().catch((error) => {
+  console.error("テスト実行中にエラーが発生しました:", error);
+  process.exit(1);
+});
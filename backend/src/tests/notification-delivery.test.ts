@@ -0,0 +1,314 @@
+import net from "net";
+import { AddressInfo } from "net";
+import { NotificationType } from "../models/Notification";
+import { NotificationTemplateService } from "../services/NotificationTemplateService";
+import { SmtpMailer } from "../services/SmtpMailer";
+import { ChatWebhookService } from "../services/ChatWebhookService";
+
+interface ReceivedMail {
+  commands: string[];
+  data: string;
+}
+
+/**
+ * テスト用のSMTPサーバー（受信したメールを記録するだけ）
+ * rejectRecipient を指定した場合は RCPT TO に 550 を返す
+ * sessions には接続ごとに受信したコマンドを記録する（送信が完了しなかった接続も含む）
+ */
+function startSmtpSink(options: { rejectRecipient?: boolean } = {}): Promise<{
+  port: number;
+  mails: ReceivedMail[];
+  sessions: string[][];
+  close: () => void;
+}> {
+  const mails: ReceivedMail[] = [];
+  const sessions: string[][] = [];
+
+  const server = net.createServer((socket) => {
+    const mail: ReceivedMail = { commands: [], data: "" };
+    sessions.push(mail.commands);
+    let buffer = "";
+    let inData = false;
+    let authStep = 0; // AUTH LOGIN で受け取るユーザー名・パスワードの残り
+    socket.setEncoding("utf8");
+    socket.write("220 localhost ESMTP test\r\n");
+
+    socket.on("data", (chunk: string) => {
+      buffer += chunk;
+      if (inData) {
+        const end = buffer.indexOf("\r\n.\r\n");
+        if (end < 0) {
+          return;
+        }
+        mail.data = buffer.substring(0, end);
+        buffer = buffer.substring(end + 5);
+        inData = false;
+        mails.push(mail);
+        socket.write("250 OK queued\r\n");
+      }
+
+      let index: number;
+      while (!inData && (index = buffer.indexOf("\r\n")) >= 0) {
+        const line = buffer.substring(0, index);
+        buffer = buffer.substring(index + 2);
+        mail.commands.push(line);
+
+        if (authStep === 2) {
+          authStep = 1;
+          socket.write("334 UGFzc3dvcmQ6\r\n");
+        } else if (authStep === 1) {
+          authStep = 0;
+          socket.write("235 Authentication successful\r\n");
+        } else if (line.startsWith("EHLO")) {
+          socket.write("250-localhost\r\n250-AUTH LOGIN\r\n250 8BITMIME\r\n");
+        } else if (line === "AUTH LOGIN") {
+          authStep = 2;
+          socket.write("334 VXNlcm5hbWU6\r\n");
+        } else if (line.startsWith("MAIL FROM")) {
+          socket.write("250 OK\r\n");
+        } else if (line.startsWith("RCPT TO")) {
+          socket.write(
+            options.rejectRecipient ? "550 No such user\r\n" : "250 OK\r\n"
+          );
+        } else if (line === "DATA") {
+          inData = true;
+          socket.write("354 End data with <CR><LF>.<CR><LF>\r\n");
+        } else if (line === "QUIT") {
+          socket.end("221 Bye\r\n");
+        } else {
+          socket.write("500 Unknown command\r\n");
+        }
+      }
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      resolve({
+        port: (server.address() as AddressInfo).port,
+        mails,
+        sessions,
+        close: () => server.close(),
+      });
+    });
+  });
+}
+
+async function runNotificationDeliveryTests() {
+  console.log("通知配信のテストを開始します...\n");
+
+  const results: { case: string; passed: boolean; detail: string }[] = [];
+  const templates = new NotificationTemplateService("http://localhost:3000/");
+
+  // テストケース1: 日本語・英語のテンプレート
+  const event = {
+    type: NotificationType.REVIEW_COMPLETED as const,
+    reviewId: 12,
+    reviewTitle: "ログイン画面",
+    feedbackCount: 3,
+  };
+  const ja = templates.render(event, "ja", {
+    kind: "personal",
+    recipientName: "佐藤",
+  });
+  const en = templates.render(event, "en", {
+    kind: "personal",
+    recipientName: "Sato",
+  });
+  results.push({
+    case: "日本語・英語のテンプレート",
+    passed:
+      ja.title === "AIレビューが完了しました" &&
+      ja.message.includes("「ログイン画面」") &&
+      ja.message.includes("指摘 3件") &&
+      ja.url === "http://localhost:3000/dashboard/reviews/12" &&
+      ja.emailText.startsWith("佐藤 さん") &&
+      ja.emailText.includes(
+        "詳細: http://localhost:3000/dashboard/reviews/12"
+      ) &&
+      en.title === "AI review completed" &&
+      en.message ===
+        'Your review "ログイン画面" is complete (3 issues found).' &&
+      en.emailText.startsWith("Hello Sato,"),
+    detail: JSON.stringify({ ja: ja.message, en: en.message }),
+  });
+
+  // テストケース2: グループ宛ての本文とチャットのペイロード
+  const group = templates.render(
+    {
+      type: NotificationType.LEVEL_CHANGED,
+      previousLevel: "C",
+      newLevel: "B",
+    },
+    "ja",
+    { kind: "group", subjectName: "鈴木" }
+  );
+  const webhook = new ChatWebhookService();
+  const slack = webhook.buildPayload("slack", group) as { text: string };
+  const teams = webhook.buildPayload("teams", group) as any;
+  results.push({
+    case: "グループ宛ての通知とWebhookのペイロード",
+    passed:
+      group.message === "鈴木さんのスキルレベルが C から B に変わりました。" &&
+      slack.text ===
+        "*スキルレベルが変わりました*\n鈴木さんのスキルレベルが C から B に変わりました。\n<http://localhost:3000/dashboard/progress|開く>" &&
+      teams["@type"] === "MessageCard" &&
+      teams.potentialAction[0].targets[0].uri ===
+        "http://localhost:3000/dashboard/progress",
+    detail: JSON.stringify({ slack, teams }),
+  });
+
+  // テストケース3: SMTPサーバーへの送信（認証・日本語の件名と本文）
+  // テスト用サーバーはSTARTTLSに対応しないため、平文での認証を許可する
+  const sink = await startSmtpSink();
+  try {
+    const mailer = new SmtpMailer({
+      host: "127.0.0.1",
+      port: sink.port,
+      secure: false,
+      user: "mailer",
+      password: "secret",
+      requireTls: false,
+      from: "Code Reviewer <noreply@example.com>",
+      timeoutMs: 5000,
+    });
+    await mailer.send({
+      to: "sato@example.com",
+      subject: ja.emailSubject,
+      text: ja.emailText,
+    });
+
+    const mail = sink.mails[0];
+    const [headers, body] = (mail?.data || "").split("\r\n\r\n");
+    const decodedBody = Buffer.from(body || "", "base64").toString("utf8");
+    const subjectMatch = headers?.match(/Subject: =\?UTF-8\?B\?(.+)\?=/);
+    const decodedSubject = subjectMatch
+      ? Buffer.from(subjectMatch[1], "base64").toString("utf8")
+      : "";
+    results.push({
+      case: "SMTPでのメール送信",
+      passed:
+        sink.mails.length === 1 &&
+        mail.commands.includes(Buffer.from("mailer").toString("base64")) &&
+        mail.commands.includes(Buffer.from("secret").toString("base64")) &&
+        mail.commands.includes("MAIL FROM:<noreply@example.com>") &&
+        mail.commands.includes("RCPT TO:<sato@example.com>") &&
+        mail.commands[mail.commands.length - 1] === "QUIT" &&
+        decodedSubject === "[Code Reviewer] AIレビューが完了しました" &&
+        decodedBody.includes("「ログイン画面」のレビューが完了しました"),
+      detail: JSON.stringify({ commands: mail?.commands, decodedSubject }),
+    });
+  } finally {
+    sink.close();
+  }
+
+  // テストケース4: SMTPサーバーがエラーを返した場合
+  const rejectingSink = await startSmtpSink({ rejectRecipient: true });
+  try {
+    const mailer = new SmtpMailer({
+      host: "127.0.0.1",
+      port: rejectingSink.port,
+      secure: false,
+      from: "noreply@example.com",
+      timeoutMs: 5000,
+    });
+    let errorMessage = "";
+    try {
+      await mailer.send({
+        to: "unknown@example.com",
+        subject: "test",
+        text: "",
+      });
+    } catch (error) {
+      errorMessage = error instanceof Error ? error.message : String(error);
+    }
+    results.push({
+      case: "SMTPエラーの検出",
+      passed: errorMessage.includes("550") && rejectingSink.mails.length === 0,
+      detail: errorMessage,
+    });
+  } finally {
+    rejectingSink.close();
+  }
+
+  // テストケース5: TLSを使えないサーバーには認証情報を送らない
+  const plainSink = await startSmtpSink();
+  try {
+    const mailer = new SmtpMailer({
+      host: "127.0.0.1",
+      port: plainSink.port,
+      secure: false,
+      user: "mailer",
+      password: "secret",
+      from: "noreply@example.com",
+      timeoutMs: 5000,
+    });
+    let errorMessage = "";
+    try {
+      await mailer.send({ to: "sato@example.com", subject: "test", text: "" });
+    } catch (error) {
+      errorMessage = error instanceof Error ? error.message : String(error);
+    }
+    // 切断がサーバーに届くのを待つ
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    results.push({
+      case: "TLSなしでの認証の拒否",
+      passed:
+        errorMessage.includes("STARTTLS") &&
+        plainSink.mails.length === 0 &&
+        plainSink.sessions.length === 1 &&
+        !plainSink.sessions[0].some(
+          (command) =>
+            command === "AUTH LOGIN" ||
+            command === Buffer.from("secret").toString("base64")
+        ),
+      detail: `${errorMessage} / ${JSON.stringify(plainSink.sessions)}`,
+    });
+  } finally {
+    plainSink.close();
+  }
+
+  // テストケース6: グループのチャットにはグループで選んだ種類の通知だけを投稿する
+  const groupSettings = {
+    webhook_review_completed: true,
+    webhook_feedback_received: false,
+    webhook_level_changed: true,
+  };
+  results.push({
+    case: "グループの投稿設定",
+    passed:
+      webhook.isEventEnabled(
+        groupSettings,
+        NotificationType.REVIEW_COMPLETED
+      ) &&
+      !webhook.isEventEnabled(
+        groupSettings,
+        NotificationType.FEEDBACK_RECEIVED
+      ) &&
+      webhook.isEventEnabled(groupSettings, NotificationType.LEVEL_CHANGED) &&
+      !webhook.isEventEnabled(groupSettings, NotificationType.SYSTEM),
+    detail: JSON.stringify(groupSettings),
+  });
+
+  // 結果のサマリーを表示
+  console.log("=== テスト結果 ===");
+  results.forEach((result) => {
+    console.log(
+      `${result.passed ? "✅ 成功" : "❌ 失敗"} ${result.case}: ${
+        result.detail
+      }`
+    );
+  });
+  console.log(`\n総テスト数: ${results.length}`);
+  console.log(`成功: ${results.filter((r) => r.passed).length}`);
+  console.log(`失敗: ${results.filter((r) => !r.passed).length}`);
+
+  if (results.some((r) => !r.passed)) {
+    process.exit(1);
+  }
+}
+
+runNotificationDeliveryTests().catch((error) => {
+  console.error("テスト実行中にエラーが発生しました:", error);
+  process.exit(1);
+});
@@ -0,0 +1,305 @@
+import { NotificationScheduleService } from "../services/NotificationScheduleService";
+import { NotificationTemplateService } from "../services/NotificationTemplateService";
+import { resolveDigestScope } from "../services/NotificationDigestScope";
+import { GroupMemberRole } from "../models/UserGroupMember";
+
+async function runNotificationDigestTests() {
+  console.log("通知のダイジェスト・通知しない時間帯のテストを開始します...\n");
+
+  const results: { case: string; passed: boolean; detail: string }[] = [];
+  const schedule = new NotificationScheduleService();
+  const templates = new NotificationTemplateService("http://localhost:3000");
+
+  // テストケース1: 通知しない時間帯（日をまたぐ場合・タイムゾーン）
+  const overnight = {
+    quiet_hours_start: "22:00",
+    quiet_hours_end: "07:00",
+    timezone: "Asia/Tokyo",
+  };
+  const quietChecks = [
+    // 23:30 JST
+    schedule.isInQuietHours(overnight, new Date("2026-01-05T14:30:00Z")),
+    // 08:00 JST
+    !schedule.isInQuietHours(overnight, new Date("2026-01-05T23:00:00Z")),
+    // 06:59 JST
+    schedule.isInQuietHours(overnight, new Date("2026-01-05T21:59:00Z")),
+    // 10:00 EST（ニューヨークの日中）
+    schedule.isInQuietHours(
+      {
+        quiet_hours_start: "09:00",
+        quiet_hours_end: "17:00",
+        timezone: "America/New_York",
+      },
+      new Date("2026-01-05T15:00:00Z")
+    ),
+    // 開始と終了が同じ場合は無効
+    !schedule.isInQuietHours(
+      { ...overnight, quiet_hours_end: "22:00" },
+      new Date("2026-01-05T13:00:00Z")
+    ),
+    !schedule.isInQuietHours(
+      { ...overnight, quiet_hours_start: null },
+      new Date("2026-01-05T14:30:00Z")
+    ),
+  ];
+  results.push({
+    case: "通知しない時間帯の判定",
+    passed: quietChecks.every(Boolean),
+    detail: JSON.stringify(quietChecks),
+  });
+
+  // テストケース2: 日次ダイジェストの送信タイミングと集計期間
+  const daily = {
+    delivery_mode: "daily_digest" as const,
+    digest_hour: 9,
+    quiet_hours_start: null,
+    quiet_hours_end: null,
+    timezone: "Asia/Tokyo",
+    last_digest_sent_at: null,
+  };
+  // 10:30 JST は当日 09:00 JST の送信時刻を過ぎている
+  const firstPeriod = schedule.getDueDigestPeriod(
+    daily,
+    new Date("2026-01-05T01:30:00Z")
+  );
+  const alreadySent = schedule.getDueDigestPeriod(
+    { ...daily, last_digest_sent_at: new Date("2026-01-05T00:05:00Z") },
+    new Date("2026-01-05T01:30:00Z")
+  );
+  // 08:30 JST の時点では前日 09:00 JST が直近の送信時刻
+  const beforeHour = schedule.getLatestDigestSlot(
+    daily,
+    new Date("2026-01-04T23:30:00Z")
+  );
+  const nextPeriod = schedule.getDueDigestPeriod(
+    { ...daily, last_digest_sent_at: new Date("2026-01-04T00:05:00Z") },
+    new Date("2026-01-05T00:10:00Z")
+  );
+  results.push({
+    case: "日次ダイジェストの送信タイミング",
+    passed:
+      firstPeriod?.start.toISOString() === "2026-01-04T00:00:00.000Z" &&
+      firstPeriod?.end.toISOString() === "2026-01-05T01:30:00.000Z" &&
+      alreadySent === null &&
+      beforeHour?.toISOString() === "2026-01-04T00:00:00.000Z" &&
+      nextPeriod?.start.toISOString() === "2026-01-04T00:05:00.000Z" &&
+      schedule.getLatestDigestSlot(
+        { ...daily, delivery_mode: "immediate" },
+        new Date()
+      ) === null,
+    detail: JSON.stringify({ firstPeriod, beforeHour, nextPeriod }),
+  });
+
+  // テストケース3: 週次ダイジェスト（月曜日）と夏時間・通知しない時間帯
+  const weeklySlot = schedule.getLatestDigestSlot(
+    { delivery_mode: "weekly_digest", digest_hour: 9, timezone: "Asia/Tokyo" },
+    // 2026-01-07（水）12:00 JST
+    new Date("2026-01-07T03:00:00Z")
+  );
+  const dstSlot = schedule.getLatestDigestSlot(
+    {
+      delivery_mode: "weekly_digest",
+      digest_hour: 9,
+      timezone: "America/New_York",
+    },
+    // 夏時間開始（2026-03-08）直後の火曜日
+    new Date("2026-03-10T15:00:00Z")
+  );
+  const mondayBeforeHour = schedule.getLatestDigestSlot(
+    { delivery_mode: "weekly_digest", digest_hour: 9, timezone: "Asia/Tokyo" },
+    // 2026-01-05（月）08:00 JST
+    new Date("2026-01-04T23:00:00Z")
+  );
+  const heldByQuietHours = schedule.getDueDigestPeriod(
+    {
+      ...daily,
+      digest_hour: 6,
+      quiet_hours_start: "22:00",
+      quiet_hours_end: "07:00",
+    },
+    // 06:30 JST
+    new Date("2026-01-04T21:30:00Z")
+  );
+  results.push({
+    case: "週次ダイジェストと夏時間・通知しない時間帯",
+    passed:
+      weeklySlot?.toISOString() === "2026-01-05T00:00:00.000Z" &&
+      dstSlot?.toISOString() === "2026-03-09T13:00:00.000Z" &&
+      mondayBeforeHour?.toISOString() === "2025-12-29T00:00:00.000Z" &&
+      heldByQuietHours === null &&
+      NotificationScheduleService.isValidTimeZone("Europe/London") &&
+      !NotificationScheduleService.isValidTimeZone("Mars/Olympus"),
+    detail: JSON.stringify({ weeklySlot, dstSlot, mondayBeforeHour }),
+  });
+
+  // テストケース4: ダイジェストのメール本文
+  const digest = templates.renderDigest(
+    {
+      mode: "weekly_digest",
+      periodStart: new Date("2025-12-29T00:00:00Z"),
+      periodEnd: new Date("2026-01-05T00:00:00Z"),
+      timeZone: "Asia/Tokyo",
+      completedReviews: Array.from({ length: 25 }, (_, i) => ({
+        reviewId: i + 1,
+        reviewTitle: `課題${i + 1}`,
+        authorName: "佐藤",
+      })),
+      highPriorityFeedbacks: [
+        {
+          reviewId: 3,
+          reviewTitle: "課題3",
+          authorName: "佐藤",
+          problemPoint: "SQLを文字列結合で\n組み立てています",
+        },
+      ],
+      levelChanges: [],
+      unreadCount: 2,
+    },
+    "ja",
+    "鈴木"
+  );
+  const englishDigest = templates.renderDigest(
+    {
+      mode: "daily_digest",
+      periodStart: new Date("2026-01-04T00:00:00Z"),
+      periodEnd: new Date("2026-01-05T00:00:00Z"),
+      timeZone: "UTC",
+      completedReviews: [],
+      highPriorityFeedbacks: [],
+      levelChanges: [{ userName: "Sato", previousLevel: "C", newLevel: "B" }],
+      unreadCount: 0,
+    },
+    "en",
+    "Suzuki"
+  );
+  results.push({
+    case: "ダイジェストのメール本文",
+    passed:
+      digest.emailSubject.startsWith("[Code Reviewer] 週間ダイジェスト") &&
+      digest.emailText.startsWith("鈴木 さん") &&
+      digest.emailText.includes("■ 完了したレビュー（25件）") &&
+      digest.emailText.includes(
+        "- 佐藤さん「課題1」 http://localhost:3000/dashboard/reviews/1"
+      ) &&
+      !digest.emailText.includes("「課題21」") &&
+      digest.emailText.includes("ほか 5件") &&
+      digest.emailText.includes(
+        "- 佐藤さん「課題3」: SQLを文字列結合で 組み立てています"
+      ) &&
+      digest.emailText.includes("■ スキルレベルの変化（0件）\n  なし") &&
+      digest.emailText.includes("未読の通知が 2件あります") &&
+      englishDigest.emailSubject.startsWith("[Code Reviewer] Daily digest") &&
+      englishDigest.emailText.includes("- Sato: C -> B") &&
+      englishDigest.emailText.includes("■ Completed reviews (0)\n  None") &&
+      !englishDigest.emailText.includes("unread"),
+    detail: JSON.stringify({
+      subject: digest.emailSubject,
+      en: englishDigest.emailSubject,
+    }),
+  });
+
+  // テストケース5: 通知しない時間帯に保留した通知のまとめ
+  const held = templates.renderHeldNotifications(
+    [
+      {
+        title: "AIレビューが完了しました",
+        message: "「ログイン画面」のレビューが完了しました（指摘 3件）。",
+        link: "/dashboard/reviews/12",
+      },
+      {
+        title: "メンテナンスのお知らせ",
+        message: "明日の10時からメンテナンスを行います。",
+        link: null,
+      },
+    ],
+    "ja",
+    "佐藤"
+  );
+  results.push({
+    case: "保留した通知のまとめ",
+    passed:
+      held.emailSubject === "[Code Reviewer] 通知しない時間帯の通知（2件）" &&
+      held.emailText.includes("- AIレビューが完了しました") &&
+      held.emailText.includes("  http://localhost:3000/dashboard/reviews/12") &&
+      held.emailText.includes("- メンテナンスのお知らせ"),
+    detail: JSON.stringify(held.emailSubject),
+  });
+
+  // テストケース6: グループ全体の動きはマネージャーと管理者だけに含める
+  const activeGroup = { is_active: true };
+  const groupMembers = [
+    { group_id: 1, user_id: 10 },
+    { group_id: 1, user_id: 11 },
+    { group_id: 1, user_id: 12 },
+    { group_id: 2, user_id: 10 },
+    { group_id: 2, user_id: 20 },
+    { group_id: 3, user_id: 10 },
+    { group_id: 3, user_id: 30 },
+  ];
+  const memberScope = resolveDigestScope(
+    11,
+    false,
+    [{ group_id: 1, role: GroupMemberRole.MEMBER, group: activeGroup }],
+    groupMembers,
+    [5]
+  );
+  const managerScope = resolveDigestScope(
+    10,
+    false,
+    [
+      { group_id: 1, role: GroupMemberRole.MANAGER, group: activeGroup },
+      { group_id: 2, role: GroupMemberRole.MEMBER, group: activeGroup },
+      {
+        group_id: 3,
+        role: GroupMemberRole.MANAGER,
+        group: { is_active: false },
+      },
+    ],
+    groupMembers,
+    [5]
+  );
+  const adminScope = resolveDigestScope(
+    20,
+    true,
+    [{ group_id: 2, role: GroupMemberRole.MEMBER, group: activeGroup }],
+    groupMembers,
+    [5]
+  );
+  results.push({
+    case: "ダイジェストの集計範囲",
+    passed:
+      memberScope.memberIds.join(",") === "11" &&
+      memberScope.projectIds.length === 0 &&
+      managerScope.memberIds.sort().join(",") === "10,11,12" &&
+      managerScope.projectIds.length === 0 &&
+      adminScope.memberIds.sort().join(",") === "10,20" &&
+      adminScope.projectIds.join(",") === "5",
+    detail: JSON.stringify({
+      member: memberScope,
+      manager: managerScope,
+      admin: adminScope,
+    }),
+  });
+
+  // 結果のサマリーを表示
+  console.log("=== テスト結果 ===");
+  results.forEach((result) => {
+    console.log(
+      `${result.passed ? "✅ 成功" : "❌ 失敗"} ${result.case}: ${
+        result.detail
+      }`
+    );
+  });
+  console.log(`\n総テスト数: ${results.length}`);
+  console.log(`成功: ${results.filter((r) => r.passed).length}`);
+  console.log(`失敗: ${results.filter((r) => !r.passed).length}`);
+
+  if (results.some((r) => !r.passed)) {
+    process.exit(1);
+  }
+}
+
+runNotificationDigestTests().catch((error) => {
+  console.error("テスト実行中にエラーが発生しました:", error);
+  process.exit(1);
+});
@@ -0,0 +1,141 @@
+import { ProgressMetricsService } from "../services/ProgressMetricsService";
+
+async function runProgressMetricsTests() {
+  console.log("進捗指標の算出テストを開始します...\n");
+
+  const service = new ProgressMetricsService();
+  const results: { case: string; passed: boolean; detail: string }[] = [];
+
+  const submissions = [
+    { id: 1, created_at: new Date(2025, 3, 1, 10) },
+    { id: 2, created_at: new Date(2025, 3, 10, 10) },
+    { id: 3, created_at: new Date(2025, 4, 5, 10) },
+  ];
+  const feedback = (
+    submissionId: number,
+    category: string | null,
+    createdAt: Date,
+    options: { resolved?: boolean; checkedAt?: Date } = {}
+  ) => ({
+    submission_id: submissionId,
+    category,
+    is_resolved: options.resolved ?? false,
+    is_checked: options.checkedAt !== undefined,
+    checked_at: options.checkedAt ?? null,
+    created_at: createdAt,
+  });
+
+  // テストケース1: フィードバックが不足している場合は数値を返さない
+  const insufficient = service.calculateImprovementMetrics(
+    [feedback(1, "security", new Date(2025, 3, 1, 10))],
+    submissions
+  );
+  results.push({
+    case: "フィードバック不足",
+    passed:
+      insufficient.status === "insufficient_data" &&
+      insufficient.required === 5 &&
+      insufficient.actual === 1,
+    detail: JSON.stringify(insufficient),
+  });
+
+  // テストケース2: 対応率・解決時間・再発率・月別推移を算出する
+  const feedbacks = [
+    feedback(1, "security", new Date(2025, 3, 1, 10), {
+      checkedAt: new Date(2025, 3, 1, 14),
+    }),
+    feedback(1, "readability", new Date(2025, 3, 1, 10)),
+    feedback(2, "security", new Date(2025, 3, 10, 10), {
+      checkedAt: new Date(2025, 3, 11, 10),
+    }),
+    feedback(3, "security", new Date(2025, 4, 5, 10), { resolved: true }),
+    feedback(3, null, new Date(2025, 4, 5, 10)),
+  ];
+  const metrics = service.calculateImprovementMetrics(feedbacks, submissions);
+  if (metrics.status === "ok") {
+    const security = metrics.data.recurrenceByCategory.find(
+      (r) => r.category === "security"
+    );
+    const readability = metrics.data.recurrenceByCategory.find(
+      (r) => r.category === "readability"
+    );
+    const time = metrics.data.resolutionTimeByCategory;
+    results.push({
+      case: "改善指標の算出",
+      passed:
+        metrics.data.resolvedRate === 60 &&
+        // 2件目の提出と3件目の提出の両方で再び指摘されている
+        security?.recurrenceRate === 100 &&
+        readability?.recurrenceRate === 0 &&
+        time.length === 1 &&
+        time[0].averageHours === 14 &&
+        time[0].medianHours === 14 &&
+        metrics.data.monthlyResolutionRate.length === 2 &&
+        metrics.data.monthlyResolutionRate[0].rate === 67 &&
+        metrics.data.monthlyResolutionRate[1].rate === 50 &&
+        metrics.data.recurrenceByCategory.some((r) => r.category === "other"),
+      detail: JSON.stringify(metrics.data),
+    });
+  } else {
+    results.push({
+      case: "改善指標の算出",
+      passed: false,
+      detail: JSON.stringify(metrics),
+    });
+  }
+
+  // テストケース3: レベルが変化した評価のみを推移として返す
+  const evaluation = (
+    level: string,
+    createdAt: Date,
+    submissionId: number
+  ) => ({
+    overall_level: level,
+    created_at: createdAt,
+    submission_id: submissionId,
+    review_id: 10,
+  });
+  const transitions = service.calculateLevelTransitions([
+    evaluation("C", new Date(2025, 4, 5), 3),
+    evaluation("D", new Date(2025, 3, 1), 1),
+    evaluation("D", new Date(2025, 3, 10), 2),
+  ]);
+  const single = service.calculateLevelTransitions([
+    evaluation("D", new Date(2025, 3, 1), 1),
+  ]);
+  results.push({
+    case: "レベル推移",
+    passed:
+      transitions.status === "ok" &&
+      transitions.data.length === 2 &&
+      transitions.data[0].level === "D" &&
+      transitions.data[0].previousLevel === null &&
+      transitions.data[1].level === "C" &&
+      transitions.data[1].previousLevel === "D" &&
+      transitions.data[1].submissionId === 3 &&
+      single.status === "insufficient_data",
+    detail: JSON.stringify(transitions),
+  });
+
+  // 結果のサマリーを表示
+  console.log("=== テスト結果 ===");
+  results.forEach((result) => {
+    console.log(
+      `${result.passed ? "✅ 成功" : "❌ 失敗"} ${result.case}: ${
+        result.detail
+      }`
+    );
+  });
+  console.log(`\n総テスト数: ${results.length}`);
+  console.log(`成功: ${results.filter((r) => r.passed).length}`);
+  console.log(`失敗: ${results.filter((r) => !r.passed).length}`);
+
+  if (results.some((r) => !r.passed)) {
+    process.exit(1);
+  }
+}
+
+runProgressMetricsTests().catch((error) => {
+  console.error("テスト実行中にエラーが発生しました:", error);
+  process.exit(1);
+});
@@ -0,0 +1,126 @@
+import { PullRequestDiffAnchorService } from "../services/PullRequestDiffAnchorService";
+
+const SAMPLE_PATCH = [
+  "@@ -10,6 +10,8 @@ export class UserService {",
+  "   async findUser(id: number) {",
+  "-    const user = await this.repo.findOne(id);",
+  "+    const user = await this.repo.findOne({ where: { id } });",
+  "+    if (!user) throw new Error('not found');",
+  "     return user;",
+  "   }",
+  " ",
+  "@@ -40,3 +42,4 @@ export class UserService {",
+  "   async removeUser(id: number) {",
+  "+    console.log('removing user', id);",
+  "     await this.repo.delete(id);",
+  "   }",
+].join("\n");
+
+async function runDiffAnchorTests() {
+  console.log("PR差分の行特定テストを開始します...\n");
+
+  const service = new PullRequestDiffAnchorService();
+  const files = [
+    { filePath: "src/UserService.ts", status: "modified", patch: SAMPLE_PATCH },
+  ];
+  const results: { case: string; passed: boolean; detail: string }[] = [];
+
+  // テストケース1: ハンクヘッダーから変更後の行番号を計算できる
+  const lines = service.parsePatch(SAMPLE_PATCH);
+  const addedLines = lines.filter((line) => line.isAdded);
+  results.push({
+    case: "パッチの解析",
+    passed:
+      addedLines.length === 3 &&
+      addedLines[0].line === 11 &&
+      addedLines[1].line === 12 &&
+      addedLines[2].line === 43 &&
+      addedLines[2].hunkIndex === 1,
+    detail: addedLines.map((line) => line.line).join(", "),
+  });
+
+  // テストケース2: 複数行のスニペットは開始行と終了行に紐づく
+  const multiLine = service.findAnchor(
+    "```ts\nconst user = await this.repo.findOne({ where: { id } });\nif (!user) throw new Error('not found');\n```",
+    files
+  );
+  results.push({
+    case: "複数行スニペット",
+    passed:
+      multiLine?.path === "src/UserService.ts" &&
+      multiLine.startLine === 11 &&
+      multiLine.line === 12,
+    detail: JSON.stringify(multiLine),
+  });
+
+  // テストケース3: 省略記号や差分記号を含むスニペットも特徴的な1行で紐づく
+  const singleLine = service.findAnchor(
+    "+  async findUser(id: number) {\n  // ...\n  return user;",
+    files
+  );
+  results.push({
+    case: "1行での照合",
+    passed: singleLine?.line === 10 && singleLine.startLine === undefined,
+    detail: JSON.stringify(singleLine),
+  });
+
+  // テストケース4: 差分に含まれないコードは紐づけない
+  const notFound = service.findAnchor("return this.cache.get(key);", files);
+  const tooShort = service.findAnchor("}", files);
+  results.push({
+    case: "差分外のスニペット",
+    passed: notFound === null && tooShort === null,
+    detail: `${JSON.stringify(notFound)}, ${JSON.stringify(tooShort)}`,
+  });
+
+  // テストケース5: 提案ブロックは完全に一致する範囲でのみ作成し、インデントを補う
+  const exactRange = service.findExactRange(
+    "const user = await this.repo.findOne({ where: { id } });\nif (!user) throw new Error('not found');",
+    files
+  );
+  const aligned = exactRange
+    ? service.alignIndentation(
+        "```ts\nconst user = await this.repo.findOneBy({ id });\nif (!user) throw new Error('not found');\n```",
+        exactRange.lines
+      )
+    : "";
+  const partialRange = service.findExactRange(
+    "const user = await this.repo.findOne({ where: { id } });\n// ...\nreturn user;",
+    files
+  );
+  results.push({
+    case: "提案ブロックの範囲検証",
+    passed:
+      exactRange?.startLine === 11 &&
+      exactRange.line === 12 &&
+      aligned.split("\n")[0] ===
+        "    const user = await this.repo.findOneBy({ id });" &&
+      aligned.split("\n").length === 2 &&
+      partialRange === null,
+    detail: `${JSON.stringify(
+      exactRange && { ...exactRange, lines: undefined }
+    )}, partial=${JSON.stringify(partialRange)}`,
+  });
+
+  // 結果のサマリーを表示
+  console.log("=== テスト結果 ===");
+  results.forEach((result) => {
+    console.log(
+      `${result.passed ? "✅ 成功" : "❌ 失敗"} ${result.case}: ${
+        result.detail
+      }`
+    );
+  });
+  console.log(`\n総テスト数: ${results.length}`);
+  console.log(`成功: ${results.filter((r) => r.passed).length}`);
+  console.log(`失敗: ${results.filter((r) => !r.passed).length}`);
+
+  if (results.some((r) => !r.passed)) {
+    process.exit(1);
+  }
+}
+
+runDiffAnchorTests().catch((error) => {
+  console.error("テスト実行中にエラーが発生しました:", error);
+  process.exit(1);
+});
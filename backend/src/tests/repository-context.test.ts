@@ -0,0 +1,192 @@
+import { Document } from "@langchain/core/documents";
+import {
+  RepositoryCodeSearch,
+  RepositoryContextBuilder,
+} from "../services/RepositoryContextBuilder";
+
+/**
+ * 差分ごとに決まった検索結果を返すベクトル検索
+ */
+class FakeRepositoryCodeSearch implements RepositoryCodeSearch {
+  searchedPatches: string[] = [];
+
+  constructor(
+    private indexed: boolean,
+    private resultsByPatch: Record<string, Document[]>
+  ) {}
+
+  async isCollectionIndexed(): Promise<boolean> {
+    return this.indexed;
+  }
+
+  async searchSimilarCodeForDiff(
+    _collectionName: string,
+    diffContent: string
+  ): Promise<{ document: Document; score: number }[]> {
+    this.searchedPatches.push(diffContent);
+    return (this.resultsByPatch[diffContent] || []).map((document) => ({
+      document,
+      score: 0.9,
+    }));
+  }
+
+  formatSourceLocation(metadata: Record<string, any> | undefined): string {
+    return `${metadata?.source}:${metadata?.startLine}-${metadata?.endLine}`;
+  }
+}
+
+function codeDocument(
+  source: string,
+  chunk: number,
+  content: string,
+  symbols: string = ""
+): Document {
+  return new Document({
+    pageContent: content,
+    metadata: { source, chunk, startLine: 1, endLine: 10, symbols },
+  });
+}
+
+async function runRepositoryContextTests() {
+  console.log("リポジトリの関連コード構築テストを開始します...\n");
+
+  const results: { case: string; passed: boolean; detail: string }[] = [];
+
+  // テストケース1: インデックスが未作成の場合は検索せずに空文字を返す
+  const notIndexed = new FakeRepositoryCodeSearch(false, {
+    "+a": [codeDocument("src/util.ts", 1, "export const util = 1;")],
+  });
+  const notIndexedContext = await new RepositoryContextBuilder(
+    notIndexed
+  ).build("github_octo_app_main", [{ filePath: "src/a.ts", patch: "+a" }]);
+  results.push({
+    case: "インデックス未作成",
+    passed: notIndexedContext === "" && notIndexed.searchedPatches.length === 0,
+    detail: `検索回数=${notIndexed.searchedPatches.length}`,
+  });
+
+  // テストケース2: 関連コードを見出し（ファイル:行範囲とシンボル）付きで出力する
+  const search = new FakeRepositoryCodeSearch(true, {
+    "+a": [
+      codeDocument("src/util.ts", 1, "export function util() {}", "util"),
+      codeDocument("src/helper.ts", 1, "export const helper = 1;"),
+    ],
+  });
+  const context = await new RepositoryContextBuilder(search).build(
+    "github_octo_app_main",
+    [{ filePath: "src/a.ts", patch: "+a" }]
+  );
+  results.push({
+    case: "関連コードの出力",
+    passed:
+      context.includes("## 関連コード 1: src/util.ts:1-10 (util)") &&
+      context.includes("export function util() {}") &&
+      context.includes("## 関連コード 2: src/helper.ts:1-10\n") &&
+      !context.includes("関連コード 3"),
+    detail: context.split("\n")[0],
+  });
+
+  // テストケース3: 変更対象のファイル自身と重複するチャンクは除外する
+  const duplicated = new FakeRepositoryCodeSearch(true, {
+    "+a": [
+      codeDocument("src/b.ts", 1, "旧バージョンのb"),
+      codeDocument("src/util.ts", 1, "export const util = 1;"),
+    ],
+    "+b": [
+      codeDocument("src/a.ts", 1, "旧バージョンのa"),
+      codeDocument("src/util.ts", 1, "export const util = 1;"),
+    ],
+  });
+  const dedupedContext = await new RepositoryContextBuilder(duplicated).build(
+    "github_octo_app_main",
+    [
+      { filePath: "src/a.ts", patch: "+a" },
+      { filePath: "src/b.ts", patch: "+b" },
+    ]
+  );
+  results.push({
+    case: "変更ファイルと重複の除外",
+    passed:
+      (dedupedContext.match(/## 関連コード/g) || []).length === 1 &&
+      dedupedContext.includes("src/util.ts") &&
+      !dedupedContext.includes("旧バージョン"),
+    detail: `件数=${(dedupedContext.match(/## 関連コード/g) || []).length}`,
+  });
+
+  // テストケース4: 削除されたファイルや差分のないファイルでは検索しない
+  const skipped = new FakeRepositoryCodeSearch(true, {});
+  await new RepositoryContextBuilder(skipped).build("github_octo_app_main", [
+    { filePath: "src/removed.ts", status: "removed", patch: "-removed" },
+    { filePath: "image.png", status: "added" },
+    { filePath: "src/c.ts", status: "modified", patch: "+c" },
+  ]);
+  results.push({
+    case: "検索対象のファイル",
+    passed: skipped.searchedPatches.join(",") === "+c",
+    detail: skipped.searchedPatches.join(","),
+  });
+
+  // テストケース5: 検索するファイル数と関連コードの件数に上限を設ける
+  const manyResults: Record<string, Document[]> = {};
+  const manyFiles = [1, 2, 3].map((n) => {
+    manyResults[`+f${n}`] = [
+      codeDocument(`src/related${n}a.ts`, 1, `related ${n}a`),
+      codeDocument(`src/related${n}b.ts`, 1, `related ${n}b`),
+    ];
+    return { filePath: `src/f${n}.ts`, patch: `+f${n}` };
+  });
+  const limited = new FakeRepositoryCodeSearch(true, manyResults);
+  const limitedContext = await new RepositoryContextBuilder(
+    limited,
+    2,
+    3
+  ).build("github_octo_app_main", manyFiles);
+  results.push({
+    case: "件数の上限",
+    passed:
+      limited.searchedPatches.join(",") === "+f1,+f2" &&
+      (limitedContext.match(/## 関連コード/g) || []).length === 3 &&
+      !limitedContext.includes("related 2b"),
+    detail: `検索=${limited.searchedPatches.join(",")}, 件数=${
+      (limitedContext.match(/## 関連コード/g) || []).length
+    }`,
+  });
+
+  // テストケース6: 長いコードは省略して出力する
+  const longSearch = new FakeRepositoryCodeSearch(true, {
+    "+a": [codeDocument("src/long.ts", 1, "x".repeat(1000))],
+  });
+  const longContext = await new RepositoryContextBuilder(longSearch).build(
+    "github_octo_app_main",
+    [{ filePath: "src/a.ts", patch: "+a" }]
+  );
+  results.push({
+    case: "長いコードの省略",
+    passed:
+      longContext.includes("x".repeat(800) + "...(省略)...") &&
+      !longContext.includes("x".repeat(801)),
+    detail: `文字数=${longContext.length}`,
+  });
+
+  // 結果のサマリーを表示
+  console.log("=== テスト結果 ===");
+  results.forEach((result) => {
+    console.log(
+      `${result.passed ? "✅ 成功" : "❌ 失敗"} ${result.case}: ${
+        result.detail
+      }`
+    );
+  });
+  console.log(`\n総テスト数: ${results.length}`);
+  console.log(`成功: ${results.filter((r) => r.passed).length}`);
+  console.log(`失敗: ${results.filter((r) => !r.passed).length}`);
+
+  if (results.some((r) => !r.passed)) {
+    process.exit(1);
+  }
+}
+
+runRepositoryContextTests().catch((error) => {
+  console.error("テスト実行中にエラーが発生しました:", error);
+  process.exit(1);
+});
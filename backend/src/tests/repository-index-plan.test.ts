@@ -0,0 +1,82 @@
+import { RepositoryIndexPlanService } from "../services/RepositoryIndexPlanService";
+
+async function runRepositoryIndexPlanTests() {
+  console.log("リポジトリの差分インデックス計画テストを開始します...\n");
+
+  const service = new RepositoryIndexPlanService();
+  const results: { case: string; passed: boolean; detail: string }[] = [];
+
+  // テストケース1: 初回は全ファイルを追加する
+  const initial = service.planUpdate(
+    [
+      { path: "src/b.ts", hash: "b1" },
+      { path: "src/a.ts", hash: "a1" },
+    ],
+    []
+  );
+  results.push({
+    case: "初回のインデックス作成",
+    passed:
+      initial.added.join(",") === "src/a.ts,src/b.ts" &&
+      initial.changed.length === 0 &&
+      initial.removed.length === 0 &&
+      initial.unchanged.length === 0,
+    detail: JSON.stringify(initial),
+  });
+
+  // テストケース2: 追加・変更・削除・変更なしを振り分ける
+  const plan = service.planUpdate(
+    [
+      { path: "src/a.ts", hash: "a1" },
+      { path: "src/b.ts", hash: "b2" },
+      { path: "src/d.ts", hash: "d1" },
+    ],
+    [
+      { path: "src/a.ts", hash: "a1" },
+      { path: "src/b.ts", hash: "b1" },
+      { path: "src/c.ts", hash: "c1" },
+    ]
+  );
+  results.push({
+    case: "差分の振り分け",
+    passed:
+      plan.added.join(",") === "src/d.ts" &&
+      plan.changed.join(",") === "src/b.ts" &&
+      plan.removed.join(",") === "src/c.ts" &&
+      plan.unchanged.join(",") === "src/a.ts",
+    detail: JSON.stringify(plan),
+  });
+
+  // テストケース3: 同じファイル・チャンクには同じIDを割り当てる
+  const id = service.buildVectorId("PRJ_repo_master", "src/a.ts", 2);
+  results.push({
+    case: "ドキュメントIDの生成",
+    passed:
+      id === service.buildVectorId("PRJ_repo_master", "src/a.ts", 2) &&
+      id !== service.buildVectorId("PRJ_repo_master", "src/a.ts", 1) &&
+      id !== service.buildVectorId("PRJ_repo_develop", "src/a.ts", 2),
+    detail: id,
+  });
+
+  // 結果のサマリーを表示
+  console.log("=== テスト結果 ===");
+  results.forEach((result) => {
+    console.log(
+      `${result.passed ? "✅ 成功" : "❌ 失敗"} ${result.case}: ${
+        result.detail
+      }`
+    );
+  });
+  console.log(`\n総テスト数: ${results.length}`);
+  console.log(`成功: ${results.filter((r) => r.passed).length}`);
+  console.log(`失敗: ${results.filter((r) => !r.passed).length}`);
+
+  if (results.some((r) => !r.passed)) {
+    process.exit(1);
+  }
+}
+
+runRepositoryIndexPlanTests().catch((error) => {
+  console.error("テスト実行中にエラーが発生しました:", error);
+  process.exit(1);
+});
@@ -0,0 +1,267 @@
+import { Document } from "@langchain/core/documents";
+import { RepositoryIndexedFile } from "../models/RepositoryIndexedFile";
+import {
+  IndexVectorStore,
+  IndexedFileStore,
+  RepositoryFile,
+  RepositoryIndexUpdater,
+} from "../services/RepositoryIndexUpdater";
+
+const COLLECTION = "github_octo_app_main";
+
+/**
+ * repository_indexed_files テーブルの代わりにメモリ上で登録済みファイルを管理するストア
+ */
+class MemoryIndexedFileStore implements IndexedFileStore {
+  files = new Map<string, RepositoryIndexedFile>();
+
+  create(collectionName: string, filePath: string): RepositoryIndexedFile {
+    const file = new RepositoryIndexedFile();
+    file.collection_name = collectionName;
+    file.file_path = filePath;
+    return file;
+  }
+
+  async save(files: RepositoryIndexedFile[]): Promise<void> {
+    files.forEach((file) => this.files.set(file.file_path, file));
+  }
+
+  async remove(files: RepositoryIndexedFile[]): Promise<void> {
+    files.forEach((file) => this.files.delete(file.file_path));
+  }
+
+  list(): RepositoryIndexedFile[] {
+    return [...this.files.values()];
+  }
+}
+
+/**
+ * IDでドキュメントを管理するベクトルストア
+ */
+class MemoryVectorStore implements IndexVectorStore {
+  documents = new Map<string, Document>();
+  deletedIds: string[] = [];
+  addedIds: string[] = [];
+
+  async addDocuments(
+    documents: Document[],
+    options: { ids: string[] }
+  ): Promise<void> {
+    documents.forEach((document, index) =>
+      this.documents.set(options.ids[index], document)
+    );
+    this.addedIds.push(...options.ids);
+  }
+
+  async delete(params: { ids: string[] }): Promise<void> {
+    params.ids.forEach((id) => this.documents.delete(id));
+    this.deletedIds.push(...params.ids);
+  }
+
+  sources(): string[] {
+    return [
+      ...new Set(
+        [...this.documents.values()].map((document) =>
+          String(document.metadata.source)
+        )
+      ),
+    ].sort();
+  }
+}
+
+function repositoryFile(path: string, content: string): RepositoryFile {
+  return {
+    path,
+    extension: path.substring(path.lastIndexOf(".")),
+    content,
+    hash: `hash-of-${content}`,
+  };
+}
+
+async function runRepositoryIndexUpdateTests() {
+  console.log("プッシュ時のインデックス差分更新テストを開始します...\n");
+
+  const results: { case: string; passed: boolean; detail: string }[] = [];
+
+  const store = new MemoryIndexedFileStore();
+  const vectorStore = new MemoryVectorStore();
+  const updater = new RepositoryIndexUpdater(store);
+
+  // テストケース1: 初回はすべてのファイルを登録する
+  const initialFiles = [
+    repositoryFile("src/a.ts", "export const a = 1;"),
+    repositoryFile("src/b.ts", "export const b = 1;"),
+    repositoryFile("src/c.ts", "export const c = 1;"),
+  ];
+  const initialPlan = await updater.applyUpdate({
+    collectionName: COLLECTION,
+    commitSha: "sha-1",
+    vectorStore,
+    files: initialFiles,
+    indexedFiles: store.list(),
+    rechunk: false,
+  });
+  results.push({
+    case: "初回のインデックス作成",
+    passed:
+      initialPlan.added.length === 3 &&
+      store.files.size === 3 &&
+      vectorStore.sources().join(",") === "src/a.ts,src/b.ts,src/c.ts" &&
+      store.list().every((file) => file.commit_sha === "sha-1"),
+    detail: `登録ファイル=${store.files.size}, ベクトル=${vectorStore.documents.size}`,
+  });
+
+  // テストケース2: プッシュで変更されたファイルは古いベクトルを消して登録し直す
+  const unchangedBefore = store.files.get("src/a.ts")!;
+  const staleIdsOfB: string[] = JSON.parse(
+    store.files.get("src/b.ts")!.vector_ids
+  );
+  vectorStore.addedIds = [];
+  vectorStore.deletedIds = [];
+  const pushPlan = await updater.applyUpdate({
+    collectionName: COLLECTION,
+    commitSha: "sha-2",
+    vectorStore,
+    files: [
+      repositoryFile("src/a.ts", "export const a = 1;"),
+      repositoryFile("src/b.ts", "export const b = 2;"),
+      repositoryFile("src/d.ts", "export const d = 1;"),
+    ],
+    indexedFiles: store.list(),
+    rechunk: false,
+  });
+  const changedB = store.files.get("src/b.ts")!;
+  const bDocuments = (JSON.parse(changedB.vector_ids) as string[]).map(
+    (id) => vectorStore.documents.get(id)?.pageContent
+  );
+  results.push({
+    case: "変更されたファイルの再登録",
+    passed:
+      pushPlan.changed.join(",") === "src/b.ts" &&
+      pushPlan.added.join(",") === "src/d.ts" &&
+      staleIdsOfB.every((id) => vectorStore.deletedIds.includes(id)) &&
+      bDocuments.join("") === "export const b = 2;" &&
+      changedB.content_hash === "hash-of-export const b = 2;" &&
+      changedB.commit_sha === "sha-2",
+    detail: `変更=${pushPlan.changed.join(",")}, 追加=${pushPlan.added.join(
+      ","
+    )}, 内容=${bDocuments.join("")}`,
+  });
+
+  // テストケース3: プッシュで削除されたファイルはベクトルと登録を削除する
+  results.push({
+    case: "削除されたファイルの除去",
+    passed:
+      pushPlan.removed.join(",") === "src/c.ts" &&
+      !store.files.has("src/c.ts") &&
+      vectorStore.sources().join(",") === "src/a.ts,src/b.ts,src/d.ts",
+    detail: `削除=${pushPlan.removed.join(",")}, 残り=${vectorStore
+      .sources()
+      .join(",")}`,
+  });
+
+  // テストケース4: 変更のないファイルは登録し直さない
+  const aIds: string[] = JSON.parse(unchangedBefore.vector_ids);
+  results.push({
+    case: "変更のないファイル",
+    passed:
+      pushPlan.unchanged.join(",") === "src/a.ts" &&
+      store.files.get("src/a.ts")!.commit_sha === "sha-1" &&
+      aIds.every(
+        (id) =>
+          !vectorStore.addedIds.includes(id) &&
+          !vectorStore.deletedIds.includes(id)
+      ),
+    detail: `追加ID=${vectorStore.addedIds.length}, 削除ID=${vectorStore.deletedIds.length}`,
+  });
+
+  // テストケース5: チャンク数が減ったファイルでは余ったチャンクのベクトルも残らない
+  const longContent = Array.from(
+    { length: 3 },
+    (_, index) =>
+      `export function f${index}() {\n${"  const value = 1;\n".repeat(
+        40
+      )}  return value;\n}\n`
+  ).join("\n");
+  await updater.applyUpdate({
+    collectionName: COLLECTION,
+    commitSha: "sha-3",
+    vectorStore,
+    files: [
+      repositoryFile("src/a.ts", "export const a = 1;"),
+      repositoryFile("src/b.ts", longContent),
+      repositoryFile("src/d.ts", "export const d = 1;"),
+    ],
+    indexedFiles: store.list(),
+    rechunk: false,
+  });
+  const longChunkCount = store.files.get("src/b.ts")!.chunk_count;
+  await updater.applyUpdate({
+    collectionName: COLLECTION,
+    commitSha: "sha-4",
+    vectorStore,
+    files: [
+      repositoryFile("src/a.ts", "export const a = 1;"),
+      repositoryFile("src/b.ts", "export const b = 3;"),
+      repositoryFile("src/d.ts", "export const d = 1;"),
+    ],
+    indexedFiles: store.list(),
+    rechunk: false,
+  });
+  const bChunks = [...vectorStore.documents.values()].filter(
+    (document) => document.metadata.source === "src/b.ts"
+  );
+  results.push({
+    case: "チャンク数が減ったファイル",
+    passed:
+      longChunkCount > 1 &&
+      bChunks.length === 1 &&
+      bChunks[0].pageContent === "export const b = 3;",
+    detail: `変更前チャンク=${longChunkCount}, 変更後チャンク=${bChunks.length}`,
+  });
+
+  // テストケース6: チャンク分割方式が変わった場合は内容が同じでも登録し直す
+  const rechunkPlan = await updater.applyUpdate({
+    collectionName: COLLECTION,
+    commitSha: "sha-4",
+    vectorStore,
+    files: [
+      repositoryFile("src/a.ts", "export const a = 1;"),
+      repositoryFile("src/b.ts", "export const b = 3;"),
+      repositoryFile("src/d.ts", "export const d = 1;"),
+    ],
+    indexedFiles: store.list(),
+    rechunk: true,
+  });
+  results.push({
+    case: "チャンク分割方式の変更",
+    passed:
+      rechunkPlan.changed.join(",") === "src/a.ts,src/b.ts,src/d.ts" &&
+      vectorStore.documents.size === 3,
+    detail: `変更=${rechunkPlan.changed.join(",")}, ベクトル=${
+      vectorStore.documents.size
+    }`,
+  });
+
+  // 結果のサマリーを表示
+  console.log("=== テスト結果 ===");
+  results.forEach((result) => {
+    console.log(
+      `${result.passed ? "✅ 成功" : "❌ 失敗"} ${result.case}: ${
+        result.detail
+      }`
+    );
+  });
+  console.log(`\n総テスト数: ${results.length}`);
+  console.log(`成功: ${results.filter((r) => r.passed).length}`);
+  console.log(`失敗: ${results.filter((r) => !r.passed).length}`);
+
+  if (results.some((r) => !r.passed)) {
+    process.exit(1);
+  }
+}
+
+runRepositoryIndexUpdateTests().catch((error) => {
+  console.error("テスト実行中にエラーが発生しました:", error);
+  process.exit(1);
+});
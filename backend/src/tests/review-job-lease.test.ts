@@ -0,0 +1,276 @@
+import { ReviewJob, ReviewJobStatus } from "../models/ReviewJob";
+import {
+  ReviewJobLeaseManager,
+  ReviewJobStore,
+} from "../services/ReviewJobLeaseManager";
+
+const LEASE_MS = 10 * 60 * 1000;
+const NOW = new Date("2026-01-05T00:00:00Z");
+
+/**
+ * メモリ上のジョブの保存先（DBと同じく、読み込んだジョブは複製を返す）
+ */
+class MemoryReviewJobStore implements ReviewJobStore {
+  jobs: ReviewJob[] = [];
+
+  add(values: Partial<ReviewJob>): ReviewJob {
+    const job = Object.assign(new ReviewJob(), {
+      id: this.jobs.length + 1,
+      submission_id: this.jobs.length + 100,
+      status: ReviewJobStatus.PENDING,
+      attempts: 0,
+      max_attempts: 5,
+      next_run_at: NOW,
+      last_error: null,
+      locked_by: null,
+      locked_at: null,
+      ...values,
+    });
+    this.jobs.push(job);
+    return job;
+  }
+
+  get(id: number): ReviewJob {
+    return this.jobs.find((job) => job.id === id)!;
+  }
+
+  async findRunnable(now: Date, limit: number): Promise<ReviewJob[]> {
+    return this.jobs
+      .filter(
+        (job) =>
+          job.status === ReviewJobStatus.PENDING &&
+          job.next_run_at.getTime() <= now.getTime()
+      )
+      .sort((a, b) => a.next_run_at.getTime() - b.next_run_at.getTime())
+      .slice(0, limit)
+      .map((job) => ({ ...job }));
+  }
+
+  async findProcessing(lockedBefore?: Date): Promise<ReviewJob[]> {
+    return this.jobs
+      .filter(
+        (job) =>
+          job.status === ReviewJobStatus.PROCESSING &&
+          (!lockedBefore ||
+            (!!job.locked_at &&
+              job.locked_at.getTime() < lockedBefore.getTime()))
+      )
+      .map((job) => ({ ...job }));
+  }
+
+  async updateIfUnchanged(
+    expected: Pick<ReviewJob, "id" | "status" | "attempts">,
+    changes: Partial<ReviewJob>
+  ): Promise<boolean> {
+    const job = this.get(expected.id);
+    if (
+      !job ||
+      job.status !== expected.status ||
+      job.attempts !== expected.attempts
+    ) {
+      return false;
+    }
+    Object.assign(job, changes);
+    return true;
+  }
+}
+
+function createManager(
+  store: ReviewJobStore,
+  workerId: string,
+  alivePids: number[] = []
+): ReviewJobLeaseManager {
+  return new ReviewJobLeaseManager(store, {
+    workerId,
+    leaseMs: LEASE_MS,
+    baseRetryDelayMs: 5000,
+    maxRetryDelayMs: 60 * 1000,
+    isProcessAlive: (pid) => alivePids.includes(pid),
+  });
+}
+
+async function runReviewJobLeaseTests() {
+  console.log("レビュージョブのリース管理のテストを開始します...\n");
+
+  const results: { case: string; passed: boolean; detail: string }[] = [];
+
+  // テストケース1: 実行時刻を過ぎたジョブだけリースを取得し、試行回数を増やす
+  const claimStore = new MemoryReviewJobStore();
+  const future = claimStore.add({
+    next_run_at: new Date(NOW.getTime() + 60000),
+  });
+  const runnable = claimStore.add({ attempts: 1 });
+  const worker = createManager(claimStore, "host-a:100");
+  const claimed = await worker.claimNext(NOW);
+  const nothingLeft = await worker.claimNext(NOW);
+  results.push({
+    case: "リースの取得",
+    passed:
+      claimed?.id === runnable.id &&
+      claimStore.get(runnable.id).status === ReviewJobStatus.PROCESSING &&
+      claimStore.get(runnable.id).locked_by === "host-a:100" &&
+      claimStore.get(runnable.id).attempts === 2 &&
+      claimStore.get(future.id).status === ReviewJobStatus.PENDING &&
+      nothingLeft === null,
+    detail: `取得=${claimed?.id}, 試行回数=${
+      claimStore.get(runnable.id).attempts
+    }, 2回目=${nothingLeft?.id}`,
+  });
+
+  // テストケース2: 同時に取得しても1つのワーカーだけがリースを得る
+  const raceStore = new MemoryReviewJobStore();
+  raceStore.add({});
+  const [first, second] = await Promise.all([
+    createManager(raceStore, "host-a:100").claimNext(NOW),
+    createManager(raceStore, "host-b:200").claimNext(NOW),
+  ]);
+  results.push({
+    case: "同時取得",
+    passed:
+      [first, second].filter((job) => job !== null).length === 1 &&
+      raceStore.get(1).attempts === 1,
+    detail: `取得=${first?.locked_by ?? "-"}/${
+      second?.locked_by ?? "-"
+    }, 試行回数=${raceStore.get(1).attempts}`,
+  });
+
+  // テストケース3: 解放するとバックオフ後に再実行し、上限に達したらデッドレターにする
+  const releaseStore = new MemoryReviewJobStore();
+  releaseStore.add({ attempts: 2 });
+  releaseStore.add({ attempts: 4, max_attempts: 5 });
+  const releaser = createManager(releaseStore, "host-a:100");
+  const retrying = (await releaser.claimNext(NOW))!;
+  await releaser.release(retrying, "一時的なエラー", NOW);
+  const lastAttempt = (await releaser.claimNext(NOW))!;
+  await releaser.release(lastAttempt, "一時的なエラー", NOW);
+  const retried = releaseStore.get(retrying.id);
+  results.push({
+    case: "解放とバックオフ",
+    passed:
+      retried.status === ReviewJobStatus.PENDING &&
+      retried.next_run_at.getTime() === NOW.getTime() + 20000 &&
+      retried.locked_by === null &&
+      retried.last_error === "一時的なエラー" &&
+      releaseStore.get(lastAttempt.id).status === ReviewJobStatus.DEAD,
+    detail: `状態=${retried.status}/${
+      releaseStore.get(lastAttempt.id).status
+    }, 待機=${retried.next_run_at.getTime() - NOW.getTime()}ms`,
+  });
+
+  // テストケース4: リース期限が切れたジョブだけ解放し、延長中のジョブは残す
+  const expiryStore = new MemoryReviewJobStore();
+  const expired = expiryStore.add({
+    status: ReviewJobStatus.PROCESSING,
+    attempts: 1,
+    locked_by: "host-b:200",
+    locked_at: new Date(NOW.getTime() - LEASE_MS - 1000),
+  });
+  const active = expiryStore.add({
+    status: ReviewJobStatus.PROCESSING,
+    attempts: 1,
+    locked_by: "host-b:201",
+    locked_at: new Date(NOW.getTime() - LEASE_MS / 2),
+  });
+  const releasedExpired = await createManager(
+    expiryStore,
+    "host-a:100"
+  ).releaseExpiredLeases(NOW);
+  results.push({
+    case: "リース期限切れの解放",
+    passed:
+      releasedExpired.length === 1 &&
+      expiryStore.get(expired.id).status === ReviewJobStatus.PENDING &&
+      expiryStore.get(active.id).status === ReviewJobStatus.PROCESSING,
+    detail: `解放=${releasedExpired.map((job) => job.id).join(",")}`,
+  });
+
+  // テストケース5: 起動時は停止したワーカーのジョブだけ回収し、同じホストで動いているワーカーのジョブは残す
+  const recoveryStore = new MemoryReviewJobStore();
+  const fresh = new Date(NOW.getTime() - 1000);
+  const liveSibling = recoveryStore.add({
+    status: ReviewJobStatus.PROCESSING,
+    attempts: 1,
+    locked_by: "host-a:101",
+    locked_at: fresh,
+  });
+  const deadSibling = recoveryStore.add({
+    status: ReviewJobStatus.PROCESSING,
+    attempts: 1,
+    locked_by: "host-a:102",
+    locked_at: fresh,
+  });
+  const previousSelf = recoveryStore.add({
+    status: ReviewJobStatus.PROCESSING,
+    attempts: 1,
+    locked_by: "host-a:100",
+    locked_at: fresh,
+  });
+  const otherHost = recoveryStore.add({
+    status: ReviewJobStatus.PROCESSING,
+    attempts: 1,
+    locked_by: "host-b:102",
+    locked_at: fresh,
+  });
+  const recovered = await createManager(
+    recoveryStore,
+    "host-a:100",
+    [100, 101]
+  ).recoverOrphaned(NOW);
+  const recoveredIds = recovered.map((job) => job.id);
+  results.push({
+    case: "起動時の回収",
+    passed:
+      recoveredIds.length === 2 &&
+      recoveredIds.includes(deadSibling.id) &&
+      recoveredIds.includes(previousSelf.id) &&
+      recoveryStore.get(liveSibling.id).status === ReviewJobStatus.PROCESSING &&
+      recoveryStore.get(otherHost.id).status === ReviewJobStatus.PROCESSING,
+    detail: `回収=${recovered.map((job) => job.locked_by).join(",")}`,
+  });
+
+  // テストケース6: 回収後に別のワーカーが取得したジョブは、元のワーカーから解放できない
+  const staleStore = new MemoryReviewJobStore();
+  staleStore.add({});
+  const slowWorker = createManager(staleStore, "host-a:100");
+  const slowJob = (await slowWorker.claimNext(NOW))!;
+  const later = new Date(NOW.getTime() + LEASE_MS + 1000);
+  const otherWorker = createManager(staleStore, "host-b:200");
+  await otherWorker.releaseExpiredLeases(later);
+  const reclaimed = await otherWorker.claimNext(
+    new Date(later.getTime() + 60000)
+  );
+  const staleRelease = await slowWorker.release(slowJob, "遅れた失敗", later);
+  results.push({
+    case: "回収済みジョブの解放",
+    passed:
+      reclaimed?.id === slowJob.id &&
+      !staleRelease &&
+      staleStore.get(slowJob.id).locked_by === "host-b:200" &&
+      staleStore.get(slowJob.id).status === ReviewJobStatus.PROCESSING,
+    detail: `解放=${staleRelease}, 保持=${
+      staleStore.get(slowJob.id).locked_by
+    }`,
+  });
+
+  // 結果のサマリーを表示
+  console.log("=== テスト結果 ===");
+  results.forEach((result) => {
+    console.log(
+      `${result.passed ? "✅ 成功" : "❌ 失敗"} ${result.case}: ${
+        result.detail
+      }`
+    );
+  });
+  console.log(`\n総テスト数: ${results.length}`);
+  console.log(`成功: ${results.filter((r) => r.passed).length}`);
+  console.log(`失敗: ${results.filter((r) => !r.passed).length}`);
+
+  if (results.some((r) => !r.passed)) {
+    process.exit(1);
+  }
+}
+
+runReviewJobLeaseTests().catch((error) => {
+  console.error("テスト実行中にエラーが発生しました:", error);
+  process.exit(1);
+});
@@ -0,0 +1,273 @@
+import {
+  ReviewProgressEvent,
+  ReviewProgressRelay,
+  ReviewProgressStore,
+} from "../services/ReviewProgressRelay";
+
+/**
+ * review_progress_events テーブルの代わりにメモリ上でイベントを管理するストア
+ */
+class MemoryReviewProgressStore implements ReviewProgressStore {
+  events: ReviewProgressEvent[] = [];
+  private lastId = 0;
+
+  async append(
+    event: Omit<ReviewProgressEvent, "id" | "timestamp">
+  ): Promise<ReviewProgressEvent> {
+    const saved = {
+      ...event,
+      id: ++this.lastId,
+      timestamp: new Date().toISOString(),
+    };
+    this.events.push(saved);
+    return saved;
+  }
+
+  async findAfter(
+    afterEventId: number,
+    limit: number
+  ): Promise<ReviewProgressEvent[]> {
+    return this.events
+      .filter((event) => event.id > afterEventId)
+      .slice(0, limit);
+  }
+
+  async findRecentByReview(
+    reviewId: number,
+    limit: number
+  ): Promise<ReviewProgressEvent[]> {
+    return this.events
+      .filter((event) => event.review_id === reviewId)
+      .slice(-limit);
+  }
+
+  async getLatestEventId(): Promise<number> {
+    return this.lastId;
+  }
+
+  async deleteBefore(date: Date): Promise<void> {
+    this.events = this.events.filter(
+      (event) => new Date(event.timestamp) >= date
+    );
+  }
+}
+
+const POLL_INTERVAL_MS = 10;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function runReviewProgressTests() {
+  console.log("レビュー進捗の配信テストを開始します...\n");
+
+  const store = new MemoryReviewProgressStore();
+  // ワーカーのプロセスとSSEエンドポイントのプロセスは保存先だけを共有する
+  const worker = new ReviewProgressRelay(store, {
+    pollIntervalMs: POLL_INTERVAL_MS,
+  });
+  const web = new ReviewProgressRelay(store, {
+    pollIntervalMs: POLL_INTERVAL_MS,
+  });
+  const results: { case: string; passed: boolean; detail: string }[] = [];
+
+  // テストケース1: 別プロセスで保存されたイベントを、研修生には自分のレビューの分だけ中継する
+  const traineeEvents: ReviewProgressEvent[] = [];
+  const adminEvents: ReviewProgressEvent[] = [];
+  const start = await web.getLatestEventId();
+  const unsubscribeTrainee = web.subscribe(7, start, (event) =>
+    traineeEvents.push(event)
+  );
+  const unsubscribeAdmin = web.subscribe(null, start, (event) =>
+    adminEvents.push(event)
+  );
+
+  await worker.publish({
+    user_id: 7,
+    review_id: 1,
+    submission_id: 10,
+    stage: "queued",
+  });
+  await worker.publish({
+    user_id: 8,
+    review_id: 2,
+    submission_id: 20,
+    stage: "queued",
+  });
+  await worker.publish({
+    user_id: 7,
+    review_id: 1,
+    submission_id: 10,
+    stage: "feedback_saved",
+    feedback_count: 4,
+  });
+  await wait(POLL_INTERVAL_MS * 5);
+  unsubscribeTrainee();
+  await worker.publish({
+    user_id: 7,
+    review_id: 1,
+    submission_id: 10,
+    stage: "completed",
+  });
+  await wait(POLL_INTERVAL_MS * 5);
+
+  results.push({
+    case: "ユーザーごとの中継と購読解除",
+    passed:
+      traineeEvents.map((e) => e.stage).join(",") === "queued,feedback_saved" &&
+      traineeEvents[0].message === "レビュー待ちのキューに追加されました" &&
+      traineeEvents[1].feedback_count === 4 &&
+      adminEvents.length === 4 &&
+      traineeEvents[1].id > traineeEvents[0].id,
+    detail: JSON.stringify(traineeEvents.map((e) => [e.id, e.stage])),
+  });
+
+  // テストケース2: 提出者のいないGitHubのPRレビューの進捗は管理者にだけ中継する
+  const githubStart = await web.getLatestEventId();
+  const traineeGitHubEvents: ReviewProgressEvent[] = [];
+  const unsubscribeTraineeGitHub = web.subscribe(7, githubStart, (event) =>
+    traineeGitHubEvents.push(event)
+  );
+  await worker.publish({
+    user_id: null,
+    review_id: null,
+    submission_id: null,
+    pull_request: "octo/app#12",
+    stage: "sent_to_github",
+    feedback_count: 3,
+  });
+  await wait(POLL_INTERVAL_MS * 5);
+  unsubscribeTraineeGitHub();
+  unsubscribeAdmin();
+  const githubEvent = adminEvents[adminEvents.length - 1];
+  results.push({
+    case: "GitHubへの送信の段階",
+    passed:
+      githubEvent.stage === "sent_to_github" &&
+      githubEvent.message ===
+        "GitHubのプルリクエストにレビュー結果を送信しました" &&
+      githubEvent.pull_request === "octo/app#12" &&
+      traineeGitHubEvents.length === 0,
+    detail: `${githubEvent.stage}: ${githubEvent.message}`,
+  });
+
+  // テストケース3: 途中から接続した場合の経過と再接続時の Last-Event-ID
+  const history = await web.getHistory(1, 7);
+  const afterSecond = await web.getHistory(1, 7, history[1].id);
+  results.push({
+    case: "経過の再送",
+    passed:
+      history.map((e) => e.stage).join(",") ===
+        "queued,feedback_saved,completed" &&
+      afterSecond.map((e) => e.stage).join(",") === "completed" &&
+      (await web.getHistory(1, 8)).length === 0 &&
+      (await web.getHistory(1, null)).length === 3,
+    detail: JSON.stringify(history.map((e) => e.stage)),
+  });
+
+  // テストケース4: 再提出でキューに追加されたら以前の経過を返さない
+  await worker.publish({
+    user_id: 7,
+    review_id: 1,
+    submission_id: 11,
+    stage: "queued",
+  });
+  const failed = await worker.publish({
+    user_id: 7,
+    review_id: 1,
+    submission_id: 11,
+    stage: "failed",
+    will_retry: true,
+    error: "timeout",
+  });
+  const resubmitted = await web.getHistory(1, 7);
+  results.push({
+    case: "再提出時の経過のリセット",
+    passed:
+      resubmitted.map((e) => `${e.submission_id}:${e.stage}`).join(",") ===
+        "11:queued,11:failed" && failed.will_retry === true,
+    detail: JSON.stringify(resubmitted.map((e) => e.stage)),
+  });
+
+  // テストケース5: 購読時の位置より前のイベントは配信しない
+  const lateEvents: ReviewProgressEvent[] = [];
+  const unsubscribeLate = web.subscribe(
+    null,
+    await web.getLatestEventId(),
+    (event) => lateEvents.push(event)
+  );
+  await wait(POLL_INTERVAL_MS * 5);
+  await worker.publish({
+    user_id: 8,
+    review_id: 2,
+    submission_id: 20,
+    stage: "started",
+  });
+  await wait(POLL_INTERVAL_MS * 5);
+  unsubscribeLate();
+  results.push({
+    case: "購読開始位置",
+    passed:
+      lateEvents.map((e) => `${e.review_id}:${e.stage}`).join(",") ===
+      "2:started",
+    detail: JSON.stringify(lateEvents.map((e) => e.stage)),
+  });
+
+  // テストケース6: 保持期間を過ぎたイベントを削除する
+  const pruneStore = new MemoryReviewProgressStore();
+  const pruning = new ReviewProgressRelay(pruneStore, { retentionMs: 1000 });
+  const old = await pruneStore.append({
+    user_id: 7,
+    review_id: 3,
+    submission_id: 30,
+    stage: "completed",
+    message: "レビューが完了しました",
+  });
+  old.timestamp = new Date(Date.now() - 5000).toISOString();
+  await pruning.publish({
+    user_id: 7,
+    review_id: 4,
+    submission_id: 40,
+    stage: "queued",
+  });
+  await wait(POLL_INTERVAL_MS);
+  results.push({
+    case: "古いイベントの削除",
+    passed:
+      pruneStore.events.length === 1 && pruneStore.events[0].review_id === 4,
+    detail: `残り=${pruneStore.events.map((e) => e.review_id).join(",")}`,
+  });
+
+  // テストケース7: Server-Sent Events の形式
+  const sse = ReviewProgressRelay.formatSse(failed);
+  const [idLine, eventLine, dataLine] = sse.split("\n");
+  results.push({
+    case: "SSEの形式",
+    passed:
+      idLine === `id: ${failed.id}` &&
+      eventLine === "event: progress" &&
+      JSON.parse(dataLine.replace(/^data: /, "")).error === "timeout" &&
+      sse.endsWith("\n\n"),
+    detail: JSON.stringify(sse),
+  });
+
+  // 結果のサマリーを表示
+  console.log("=== テスト結果 ===");
+  results.forEach((result) => {
+    console.log(
+      `${result.passed ? "✅ 成功" : "❌ 失敗"} ${result.case}: ${
+        result.detail
+      }`
+    );
+  });
+  console.log(`\n総テスト数: ${results.length}`);
+  console.log(`成功: ${results.filter((r) => r.passed).length}`);
+  console.log(`失敗: ${results.filter((r) => !r.passed).length}`);
+
+  if (results.some((r) => !r.passed)) {
+    process.exit(1);
+  }
+}
+
+runReviewProgressTests().catch((error) => {
+  console.error("テスト実行中にエラーが発生しました:", error);
+  process.exit(1);
+});
@@ -0,0 +1,90 @@
+import { SimilarReviewRankingService } from "../services/SimilarReviewRankingService";
+
+async function runSimilarReviewsTests() {
+  console.log("類似レビューの順位付けテストを開始します...\n");
+
+  const service = new SimilarReviewRankingService();
+  const results: { case: string; passed: boolean; detail: string }[] = [];
+
+  const hits = [
+    { submission_id: 10, review_id: 1, distance: 0.05 }, // 検索元のレビュー
+    { submission_id: 20, review_id: 2, distance: 0.3 },
+    { submission_id: 21, review_id: 2, distance: 0.1 }, // 同じレビューの別バージョン
+    { submission_id: 30, review_id: 3, distance: 0.2 },
+    { submission_id: 40, review_id: 4, distance: 0.15 }, // 閲覧できないレビュー
+    { submission_id: 50, review_id: 5, distance: 1.4 },
+  ];
+
+  // テストケース1: レビュー単位にまとめ、検索元と閲覧できないレビューを除外する
+  const ranked = service.rank(hits, {
+    excludeReviewId: 1,
+    allowedReviewIds: new Set([1, 2, 3, 5]),
+    limit: 5,
+  });
+  results.push({
+    case: "レビュー単位の順位付け",
+    passed:
+      ranked.map((r) => r.review_id).join(",") === "2,3,5" &&
+      ranked[0].submission_id === 21 &&
+      Math.abs(ranked[0].similarity - 0.9) < 1e-9 &&
+      ranked[2].similarity === 0,
+    detail: JSON.stringify(ranked),
+  });
+
+  // テストケース2: 制限なし・件数の上限・最低類似度
+  const limited = service.rank(hits, {
+    excludeReviewId: 1,
+    allowedReviewIds: null,
+    limit: 2,
+    minSimilarity: 0.5,
+  });
+  results.push({
+    case: "上限と最低類似度",
+    passed: limited.map((r) => r.review_id).join(",") === "2,4",
+    detail: JSON.stringify(limited),
+  });
+
+  // テストケース3: 他の研修生の名前だけを匿名化する
+  const authors = [
+    { id: 7, name: "佐藤", isTrainee: true },
+    { id: 8, name: "鈴木", isTrainee: true },
+    { id: 7, name: "佐藤", isTrainee: true },
+    { id: 1, name: "管理者", isTrainee: false },
+    { id: 9, name: "本人", isTrainee: true },
+  ];
+  const anonymized = service.buildAuthorLabels(authors, 9, true);
+  const named = service.buildAuthorLabels(authors, 9, false);
+  results.push({
+    case: "投稿者名の匿名化",
+    passed:
+      anonymized.get(7) === "受講者A" &&
+      anonymized.get(8) === "受講者B" &&
+      anonymized.get(1) === "管理者" &&
+      anonymized.get(9) === "本人" &&
+      named.get(7) === "佐藤" &&
+      named.get(8) === "鈴木",
+    detail: JSON.stringify(Array.from(anonymized.entries())),
+  });
+
+  // 結果のサマリーを表示
+  console.log("=== テスト結果 ===");
+  results.forEach((result) => {
+    console.log(
+      `${result.passed ? "✅ 成功" : "❌ 失敗"} ${result.case}: ${
+        result.detail
+      }`
+    );
+  });
+  console.log(`\n総テスト数: ${results.length}`);
+  console.log(`成功: ${results.filter((r) => r.passed).length}`);
+  console.log(`失敗: ${results.filter((r) => !r.passed).length}`);
+
+  if (results.some((r) => !r.passed)) {
+    process.exit(1);
+  }
+}
+
+runSimilarReviewsTests().catch((error) => {
+  console.error("テスト実行中にエラーが発生しました:", error);
+  process.exit(1);
+});
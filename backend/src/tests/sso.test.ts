@@ -0,0 +1,605 @@
+import { generateKeyPairSync, KeyObject } from "crypto";
+import http from "http";
+import { AddressInfo } from "net";
+import { inflateRawSync } from "zlib";
+import jwt from "jsonwebtoken";
+import { SignedXml } from "xml-crypto";
+import { UserRole } from "../models/User";
+import { OidcClient } from "../services/OidcClient";
+import { SamlServiceProvider } from "../services/SamlServiceProvider";
+import {
+  OidcProviderConfig,
+  SamlProviderConfig,
+  SsoProviderRegistry,
+} from "../services/SsoProviderRegistry";
+
+const SAML_PROTOCOL = "urn:oasis:names:tc:SAML:2.0:protocol";
+const SAML_ASSERTION = "urn:oasis:names:tc:SAML:2.0:assertion";
+const EXC_C14N = "http://www.w3.org/2001/10/xml-exc-c14n#";
+
+interface IssuedCode {
+  codeChallenge: string;
+  redirectUri: string;
+  claims: Record<string, unknown>;
+}
+
+/**
+ * テスト用のIdP（ディスカバリー・JWKS・トークンエンドポイント）
+ * トークンエンドポイントではクライアント認証とPKCEのコード検証子を検証する
+ */
+function startMockOidcProvider(signingKey: KeyObject, jwk: object) {
+  const codes: Map<string, IssuedCode> = new Map();
+  let issuer = "";
+  let idTokenKey = signingKey;
+
+  const server = http.createServer((req, res) => {
+    const send = (status: number, body: object) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.url === "/.well-known/openid-configuration") {
+      return send(200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`,
+        token_endpoint_auth_methods_supported: ["client_secret_basic"],
+      });
+    }
+    if (req.url === "/jwks") {
+      return send(200, {
+        keys: [{ ...jwk, kid: "key-1", use: "sig", alg: "RS256" }],
+      });
+    }
+    if (req.url === "/token" && req.method === "POST") {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        const params = new URLSearchParams(body);
+        const issued = codes.get(params.get("code") || "");
+        const expectedAuth = `Basic ${Buffer.from(
+          "code-reviewer:secret"
+        ).toString("base64")}`;
+
+        if (req.headers.authorization !== expectedAuth) {
+          return send(401, { error: "invalid_client" });
+        }
+        if (
+          !issued ||
+          params.get("redirect_uri") !== issued.redirectUri ||
+          OidcClient.getCodeChallenge(params.get("code_verifier") || "") !==
+            issued.codeChallenge
+        ) {
+          return send(400, {
+            error: "invalid_grant",
+            error_description: "PKCE verification failed",
+          });
+        }
+
+        codes.delete(params.get("code")!);
+        send(200, {
+          access_token: "access-token",
+          token_type: "Bearer",
+          id_token: jwt.sign(issued.claims, idTokenKey, {
+            algorithm: "RS256",
+            keyid: "key-1",
+            issuer,
+            audience: "code-reviewer",
+            expiresIn: 300,
+          }),
+        });
+      });
+      return;
+    }
+    send(404, { error: "not_found" });
+  });
+
+  return {
+    codes,
+    server,
+    setIdTokenKey: (key: KeyObject) => (idTokenKey = key),
+    listen: () =>
+      new Promise<string>((resolve) => {
+        server.listen(0, "127.0.0.1", () => {
+          issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+          resolve(issuer);
+        });
+      }),
+  };
+}
+
+/**
+ * IdPとして要素（ID属性で指定）に署名する（署名は最初の Issuer の直後に挿入）
+ */
+function signXml(xml: string, id: string, privateKey: KeyObject): string {
+  const signer = new SignedXml({
+    privateKey: privateKey.export({ format: "pem", type: "pkcs8" }),
+    signatureAlgorithm: "http://www.w3.org/2001/04/xmldsig-more#rsa-sha256",
+    canonicalizationAlgorithm: EXC_C14N,
+  });
+  signer.addReference({
+    xpath: `//*[@ID='${id}']`,
+    transforms: [
+      "http://www.w3.org/2000/09/xmldsig#enveloped-signature",
+      EXC_C14N,
+    ],
+    digestAlgorithm: "http://www.w3.org/2001/04/xmlenc#sha256",
+  });
+  signer.computeSignature(xml, {
+    prefix: "ds",
+    location: { reference: "//*[local-name(.)='Issuer']", action: "after" },
+  });
+  return signer.getSignedXml();
+}
+
+function buildAssertion(options: {
+  id: string;
+  requestId: string;
+  audience: string;
+  acsUrl: string;
+  email: string;
+}): string {
+  return (
+    `<saml:Assertion xmlns:saml="${SAML_ASSERTION}" ID="${options.id}" IssueInstant="2026-01-05T00:00:00Z" Version="2.0">` +
+    `<saml:Issuer>https://idp.example.com/saml</saml:Issuer>` +
+    `<saml:Subject>` +
+    `<saml:NameID Format="urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress">${options.email}</saml:NameID>` +
+    `<saml:SubjectConfirmation Method="urn:oasis:names:tc:SAML:2.0:cm:bearer">` +
+    `<saml:SubjectConfirmationData InResponseTo="${options.requestId}" NotOnOrAfter="2026-01-05T00:05:00Z" Recipient="${options.acsUrl}"></saml:SubjectConfirmationData>` +
+    `</saml:SubjectConfirmation>` +
+    `</saml:Subject>` +
+    `<saml:Conditions NotBefore="2026-01-04T23:59:00Z" NotOnOrAfter="2026-01-05T00:05:00Z">` +
+    `<saml:AudienceRestriction><saml:Audience>${options.audience}</saml:Audience></saml:AudienceRestriction>` +
+    `</saml:Conditions>` +
+    `<saml:AttributeStatement>` +
+    `<saml:Attribute Name="department"><saml:AttributeValue>開発部</saml:AttributeValue></saml:Attribute>` +
+    `<saml:Attribute Name="groups"><saml:AttributeValue>trainees-2024</saml:AttributeValue><saml:AttributeValue>everyone</saml:AttributeValue></saml:Attribute>` +
+    `</saml:AttributeStatement>` +
+    `</saml:Assertion>`
+  );
+}
+
+function buildResponseXml(
+  requestId: string,
+  acsUrl: string,
+  body: string
+): string {
+  return (
+    `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<samlp:Response xmlns:samlp="${SAML_PROTOCOL}" xmlns:saml="${SAML_ASSERTION}" ID="_response1" Version="2.0"\n` +
+    `    IssueInstant="2026-01-05T00:00:00Z" Destination="${acsUrl}" InResponseTo="${requestId}">\n` +
+    `  <saml:Issuer>https://idp.example.com/saml</saml:Issuer>\n` +
+    `  <samlp:Status><samlp:StatusCode Value="urn:oasis:names:tc:SAML:2.0:status:Success"/></samlp:Status>\n` +
+    `  ${body}\n` +
+    `</samlp:Response>`
+  );
+}
+
+function buildResponse(
+  requestId: string,
+  acsUrl: string,
+  body: string
+): string {
+  return Buffer.from(
+    buildResponseXml(requestId, acsUrl, body),
+    "utf8"
+  ).toString("base64");
+}
+
+function errorMessage(action: () => unknown): string {
+  try {
+    action();
+    return "";
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+async function asyncErrorMessage(action: () => Promise<unknown>) {
+  try {
+    await action();
+    return "";
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+async function runSsoTests() {
+  console.log("シングルサインオン（OIDC・SAML）のテストを開始します...\n");
+
+  const results: { case: string; passed: boolean; detail: string }[] = [];
+  const idpKeys = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  const otherKeys = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  const mockIdp = startMockOidcProvider(
+    idpKeys.privateKey,
+    idpKeys.publicKey.export({ format: "jwk" })
+  );
+  const issuer = await mockIdp.listen();
+
+  const registry = new SsoProviderRegistry(
+    [
+      {
+        id: "okta",
+        name: "Okta",
+        type: "oidc",
+        issuer,
+        client_id: "code-reviewer",
+        client_secret: "secret",
+        allowed_domains: ["example.co.jp"],
+        claims: { join_year: "hire_date" },
+        group_mapping: { "trainees-2024": 3, mentors: 5 },
+      },
+      {
+        id: "azure",
+        name: "Microsoft",
+        type: "saml",
+        entry_point: "https://idp.example.com/saml/sso?tenant=1",
+        idp_issuer: "https://idp.example.com/saml",
+        idp_certificate: idpKeys.publicKey
+          .export({ format: "pem", type: "spki" })
+          .toString(),
+        group_mapping: { "trainees-2024": 3 },
+      },
+    ],
+    "http://localhost:3001/"
+  );
+  const oidcProvider = registry.get("okta") as OidcProviderConfig;
+  const samlProvider = registry.get("azure") as SamlProviderConfig;
+
+  try {
+    // テストケース1: クレームからのユーザー情報の作成
+    const profile = registry.mapProfile(oidcProvider, "00u1", {
+      email: "Sato.Taro@Example.co.jp",
+      email_verified: true,
+      name: "佐藤 太郎",
+      department: "開発部",
+      hire_date: "2024-04-01",
+      groups: ["trainees-2024", "everyone"],
+    });
+    const withoutGroups = registry.mapProfile(oidcProvider, "00u2", {
+      email: "suzuki@example.co.jp",
+      email_verified: true,
+    });
+    const mappingErrors = [
+      errorMessage(() =>
+        registry.mapProfile(oidcProvider, "00u3", {
+          email: "someone@gmail.com",
+          email_verified: true,
+        })
+      ),
+      errorMessage(() =>
+        registry.mapProfile(oidcProvider, "00u4", {
+          email: "tanaka@example.co.jp",
+          email_verified: false,
+        })
+      ),
+      errorMessage(() => registry.mapProfile(oidcProvider, "00u5", {})),
+      // email_verified がないクレームも確認済みとして扱わない
+      errorMessage(() =>
+        registry.mapProfile(oidcProvider, "00u6", {
+          email: "tanaka@example.co.jp",
+        })
+      ),
+    ];
+    const invalidConfig = errorMessage(
+      () =>
+        new SsoProviderRegistry(
+          [
+            { id: "dup", name: "A", type: "oidc", issuer, client_id: "a" },
+            { id: "dup", name: "B", type: "oidc", issuer, client_id: "b" },
+          ],
+          "http://localhost:3001"
+        )
+    );
+    results.push({
+      case: "クレームからのユーザー情報",
+      passed:
+        profile.email === "sato.taro@example.co.jp" &&
+        profile.name === "佐藤 太郎" &&
+        profile.department === "開発部" &&
+        profile.join_year === 2024 &&
+        JSON.stringify(profile.groupIds) === "[3]" &&
+        withoutGroups.name === "suzuki" &&
+        withoutGroups.groupIds === null &&
+        withoutGroups.join_year === null &&
+        mappingErrors[0].includes("gmail.com") &&
+        mappingErrors[1] === "IdPでメールアドレスが確認されていません" &&
+        mappingErrors[2] === "IdPからメールアドレスを取得できませんでした" &&
+        mappingErrors[3] === "IdPでメールアドレスが確認されていません" &&
+        invalidConfig.includes("dup") &&
+        JSON.stringify(registry.getManagedGroupIds(oidcProvider)) === "[3,5]" &&
+        JSON.stringify(registry.list().map((item) => item.id)) ===
+          '["okta","azure"]',
+      detail: JSON.stringify({ profile, mappingErrors }),
+    });
+
+    // テストケース2: OIDCの認可コードフロー（PKCE）
+    const redirectUri = registry.getOidcRedirectUri(oidcProvider);
+    const client = new OidcClient(oidcProvider, redirectUri);
+    const codeVerifier = OidcClient.generateCodeVerifier();
+    const authorizationUrl = new URL(
+      await client.buildAuthorizationUrl({
+        state: "state-1",
+        nonce: "nonce-1",
+        codeVerifier,
+      })
+    );
+    // IdPでのログインが済んだものとして認可コードを発行
+    const issueCode = (code: string, claims: Record<string, unknown>) =>
+      mockIdp.codes.set(code, {
+        codeChallenge: authorizationUrl.searchParams.get("code_challenge")!,
+        redirectUri: authorizationUrl.searchParams.get("redirect_uri")!,
+        claims: { sub: "00u1", nonce: "nonce-1", ...claims },
+      });
+    issueCode("code-1", {
+      email: "sato@example.co.jp",
+      email_verified: true,
+      groups: ["mentors"],
+    });
+    const claims = await client.authenticate({
+      code: "code-1",
+      codeVerifier,
+      nonce: "nonce-1",
+    });
+    results.push({
+      case: "OIDCの認可コードフロー",
+      passed:
+        authorizationUrl.origin + authorizationUrl.pathname ===
+          `${issuer}/authorize` &&
+        authorizationUrl.searchParams.get("code_challenge_method") === "S256" &&
+        authorizationUrl.searchParams.get("client_id") === "code-reviewer" &&
+        authorizationUrl.searchParams.get("scope") === "openid email profile" &&
+        redirectUri === "http://localhost:3001/api/auth/sso/okta/callback" &&
+        claims.sub === "00u1" &&
+        claims.email === "sato@example.co.jp" &&
+        JSON.stringify(
+          registry.mapProfile(oidcProvider, claims.sub, claims).groupIds
+        ) === "[5]",
+      detail: JSON.stringify(claims),
+    });
+
+    // テストケース3: OIDCの検証エラー（PKCE・nonce・署名・対象）
+    issueCode("code-2", { email: "sato@example.co.jp" });
+    const wrongVerifier = await asyncErrorMessage(() =>
+      client.authenticate({
+        code: "code-2",
+        codeVerifier: OidcClient.generateCodeVerifier(),
+        nonce: "nonce-1",
+      })
+    );
+    issueCode("code-3", { email: "sato@example.co.jp" });
+    const wrongNonce = await asyncErrorMessage(() =>
+      client.authenticate({ code: "code-3", codeVerifier, nonce: "nonce-2" })
+    );
+    mockIdp.setIdTokenKey(otherKeys.privateKey);
+    issueCode("code-4", { email: "sato@example.co.jp" });
+    const forged = await asyncErrorMessage(() =>
+      client.authenticate({ code: "code-4", codeVerifier, nonce: "nonce-1" })
+    );
+    mockIdp.setIdTokenKey(idpKeys.privateKey);
+    const otherClient = new OidcClient(
+      { ...oidcProvider, client_id: "another-app", client_secret: undefined },
+      redirectUri
+    );
+    const wrongAudience = await asyncErrorMessage(() =>
+      otherClient.verifyIdToken(
+        jwt.sign({ sub: "00u1", nonce: "nonce-1" }, idpKeys.privateKey, {
+          algorithm: "RS256",
+          keyid: "key-1",
+          issuer,
+          audience: "code-reviewer",
+        }),
+        "nonce-1"
+      )
+    );
+    results.push({
+      case: "OIDCの検証エラー",
+      passed:
+        wrongVerifier ===
+          "認可コードの交換に失敗しました: PKCE verification failed" &&
+        wrongNonce === "IDトークンの nonce が一致しません" &&
+        forged.startsWith(
+          "IDトークンの検証に失敗しました: invalid signature"
+        ) &&
+        wrongAudience.startsWith(
+          "IDトークンの検証に失敗しました: jwt audience invalid"
+        ),
+      detail: JSON.stringify({
+        wrongVerifier,
+        wrongNonce,
+        forged,
+        wrongAudience,
+      }),
+    });
+
+    // テストケース4: 既存ユーザーとの紐付け（許可ドメインを指定したプロバイダーのみ・管理者は除く）
+    results.push({
+      case: "既存ユーザーとの紐付け",
+      passed:
+        registry.canLinkExistingUser(oidcProvider, {
+          email: "Sato@Example.co.jp",
+          role: UserRole.TRAINEE,
+        }) &&
+        !registry.canLinkExistingUser(oidcProvider, {
+          email: "admin@example.co.jp",
+          role: UserRole.ADMIN,
+        }) &&
+        !registry.canLinkExistingUser(oidcProvider, {
+          email: "sato@example.com",
+          role: UserRole.TRAINEE,
+        }) &&
+        !registry.canLinkExistingUser(samlProvider, {
+          email: "sato@example.co.jp",
+          role: UserRole.TRAINEE,
+        }),
+      detail: JSON.stringify(oidcProvider.allowed_domains),
+    });
+
+    // テストケース5: SAMLの認証要求・メタデータ・署名付きアサーション
+    const urls = registry.getSamlServiceProviderUrls(samlProvider);
+    const serviceProvider = new SamlServiceProvider(samlProvider, urls);
+    const requestId = SamlServiceProvider.generateRequestId();
+    const loginUrl = new URL(
+      serviceProvider.buildLoginUrl(requestId, "relay-1")
+    );
+    const authnRequest = inflateRawSync(
+      Buffer.from(loginUrl.searchParams.get("SAMLRequest")!, "base64")
+    ).toString("utf8");
+    const assertionOptions = {
+      id: "_assertion1",
+      requestId,
+      audience: urls.entityId,
+      acsUrl: urls.acsUrl,
+      email: "Sato@example.co.jp",
+    };
+    const signedAssertion = signXml(
+      buildAssertion(assertionOptions),
+      "_assertion1",
+      idpKeys.privateKey
+    );
+    const now = new Date("2026-01-05T00:01:00Z");
+    const samlProfile = serviceProvider.validateResponse(
+      buildResponse(requestId, urls.acsUrl, signedAssertion),
+      requestId,
+      now
+    );
+    // レスポンス全体への署名（アサーションは親要素の名前空間宣言を使う）
+    const signedResponse = signXml(
+      buildResponseXml(
+        requestId,
+        urls.acsUrl,
+        buildAssertion(assertionOptions).replace(
+          ` xmlns:saml="${SAML_ASSERTION}"`,
+          ""
+        )
+      ),
+      "_response1",
+      idpKeys.privateKey
+    );
+    const responseProfile = serviceProvider.validateResponse(
+      Buffer.from(signedResponse, "utf8").toString("base64"),
+      requestId,
+      now
+    );
+    results.push({
+      case: "SAMLのログイン",
+      passed:
+        loginUrl.searchParams.get("tenant") === "1" &&
+        loginUrl.searchParams.get("RelayState") === "relay-1" &&
+        authnRequest.includes(`ID="${requestId}"`) &&
+        authnRequest.includes(
+          `AssertionConsumerServiceURL="http://localhost:3001/api/auth/sso/azure/acs"`
+        ) &&
+        serviceProvider
+          .buildMetadata()
+          .includes(
+            `entityID="http://localhost:3001/api/auth/sso/azure/metadata"`
+          ) &&
+        samlProfile.nameId === "Sato@example.co.jp" &&
+        JSON.stringify(samlProfile.attributes.groups) ===
+          '["trainees-2024","everyone"]' &&
+        samlProfile.attributes.department[0] === "開発部" &&
+        responseProfile.nameId === "Sato@example.co.jp" &&
+        responseProfile.attributes.department[0] === "開発部",
+      detail: JSON.stringify(samlProfile),
+    });
+
+    // テストケース6: SAMLの検証エラー（改ざん・署名のすり替え・期限・対象・要求との対応）
+    const validate = (
+      body: string,
+      options: { requestId?: string; at?: Date } = {}
+    ) =>
+      errorMessage(() =>
+        serviceProvider.validateResponse(
+          buildResponse(requestId, urls.acsUrl, body),
+          options.requestId || requestId,
+          options.at || now
+        )
+      );
+    const evilAssertion = buildAssertion({
+      ...assertionOptions,
+      id: "_evil",
+      email: "admin@example.co.jp",
+    });
+    const samlErrors = {
+      tampered: validate(signedAssertion.replace("開発部", "人事部")),
+      wrapped: validate(
+        `<samlp:Extensions>${signedAssertion}</samlp:Extensions>${evilAssertion}`
+      ),
+      unsigned: validate(evilAssertion),
+      otherKey: validate(
+        signXml(
+          buildAssertion(assertionOptions),
+          "_assertion1",
+          otherKeys.privateKey
+        )
+      ),
+      expired: validate(signedAssertion, {
+        at: new Date("2026-01-05T01:00:00Z"),
+      }),
+      otherRequest: validate(signedAssertion, { requestId: "_other" }),
+      audience: validate(
+        signXml(
+          buildAssertion({ ...assertionOptions, audience: "urn:other-app" }),
+          "_assertion1",
+          idpKeys.privateKey
+        )
+      ),
+      sha1: validate(
+        signedAssertion.replace("xmldsig-more#rsa-sha256", "xmldsig#rsa-sha1")
+      ),
+      doctype: errorMessage(() =>
+        serviceProvider.validateResponse(
+          Buffer.from(
+            `<!DOCTYPE r [<!ENTITY x SYSTEM "file:///etc/passwd">]><r>&x;</r>`
+          ).toString("base64"),
+          requestId,
+          now
+        )
+      ),
+    };
+    results.push({
+      case: "SAMLの検証エラー",
+      passed:
+        samlErrors.tampered.includes("改ざん") &&
+        samlErrors.wrapped ===
+          "SAMLレスポンスにはアサーションが1つだけ必要です" &&
+        samlErrors.unsigned === "SAMLレスポンスが署名されていません" &&
+        samlErrors.otherKey.includes("IdPの証明書で検証できません") &&
+        samlErrors.expired === "アサーションの有効期間外です" &&
+        samlErrors.otherRequest ===
+          "SAMLレスポンスが認証要求と対応していません" &&
+        samlErrors.audience ===
+          "アサーションの対象（Audience）が一致しません" &&
+        samlErrors.sha1.includes("対応していない署名方式") &&
+        samlErrors.doctype === "SAMLレスポンスを読み取れませんでした",
+      detail: JSON.stringify(samlErrors),
+    });
+  } finally {
+    mockIdp.server.close();
+    OidcClient.clearCache();
+  }
+
+  // 結果のサマリーを表示
+  console.log("=== テスト結果 ===");
+  results.forEach((result) => {
+    console.log(
+      `${result.passed ? "✅ 成功" : "❌ 失敗"} ${result.case}: ${
+        result.detail
+      }`
+    );
+  });
+  console.log(`\n総テスト数: ${results.length}`);
+  console.log(`成功: ${results.filter((r) => r.passed).length}`);
+  console.log(`失敗: ${results.filter((r) => !r.passed).length}`);
+
+  if (results.some((r) => !r.passed)) {
+    process.exit(1);
+  }
+}
+
+runSsoTests().catch((error) => {
+  console.error("テスト実行中にエラーが発生しました:", error);
+  process.exit(1);
+});
@@ -0,0 +1,175 @@
+import { UsageBudgetPeriod } from "../models/UsageBudget";
+import { estimateLLMCost } from "../constants/LLMPricing";
+import {
+  decideFeatureUsage,
+  evaluateUsageBudget,
+  getBudgetPeriodStart,
+} from "../services/UsageBudgetPolicy";
+
+// 2026-01-07（水）12:00（ローカル時刻）
+const NOW = new Date(2026, 0, 7, 12, 0, 0);
+
+async function runUsageBudgetTests() {
+  console.log("利用予算のテストを開始します...\n");
+
+  const results: { case: string; passed: boolean; detail: string }[] = [];
+
+  // テストケース1: 呼び出しごとの消費量を積み上げ、警告しきい値と上限で状態が変わる
+  const tokenBudget = {
+    limit_value: "10000.000000",
+    warning_threshold: 0.8,
+    period: UsageBudgetPeriod.DAILY,
+  };
+  const calls = [3000, 4000, 1500, 1500];
+  let used = 0;
+  const states = calls.map((tokens) => {
+    used += tokens;
+    const status = evaluateUsageBudget(tokenBudget, used, NOW);
+    return status.exceeded ? "exceeded" : status.warning ? "warning" : "ok";
+  });
+  const finalStatus = evaluateUsageBudget(tokenBudget, used, NOW);
+  results.push({
+    case: "トークン予算の積み上げ",
+    passed:
+      states.join(",") === "ok,ok,warning,exceeded" &&
+      finalStatus.remaining === 0 &&
+      finalStatus.ratio === 1,
+    detail: states.join(","),
+  });
+
+  // テストケース2: コスト予算は推定コストを合計して判定する
+  const costBudget = {
+    limit_value: "1.000000",
+    warning_threshold: 0.5,
+    period: UsageBudgetPeriod.MONTHLY,
+  };
+  const cost =
+    estimateLLMCost("gpt-4o", 100_000, 20_000) +
+    estimateLLMCost("gpt-4o-mini", 1_000_000, 0);
+  const costStatus = evaluateUsageBudget(costBudget, cost, NOW);
+  results.push({
+    case: "コスト予算",
+    passed:
+      Math.abs(cost - 0.6) < 1e-9 &&
+      costStatus.warning &&
+      !costStatus.exceeded &&
+      Math.abs(costStatus.remaining - 0.4) < 1e-9,
+    detail: `used=${cost.toFixed(4)}, warning=${costStatus.warning}, exceeded=${
+      costStatus.exceeded
+    }`,
+  });
+
+  // テストケース3: 上限0の予算は常に超過として扱う
+  const zeroStatus = evaluateUsageBudget(
+    { ...tokenBudget, limit_value: "0" },
+    0,
+    NOW
+  );
+  results.push({
+    case: "上限0の予算",
+    passed: zeroStatus.exceeded && zeroStatus.warning,
+    detail: `exceeded=${zeroStatus.exceeded}`,
+  });
+
+  // テストケース4: 集計期間の開始とリセット日時（週は月曜始まり）
+  const dailyStart = getBudgetPeriodStart(UsageBudgetPeriod.DAILY, NOW);
+  const weeklyStart = getBudgetPeriodStart(UsageBudgetPeriod.WEEKLY, NOW);
+  const monthlyStart = getBudgetPeriodStart(UsageBudgetPeriod.MONTHLY, NOW);
+  const weeklyReset = evaluateUsageBudget(
+    { ...tokenBudget, period: UsageBudgetPeriod.WEEKLY },
+    0,
+    NOW
+  ).resets_at;
+  const monthlyReset = evaluateUsageBudget(costBudget, 0, NOW).resets_at;
+  results.push({
+    case: "集計期間",
+    passed:
+      dailyStart.getTime() === new Date(2026, 0, 7).getTime() &&
+      weeklyStart.getTime() === new Date(2026, 0, 5).getTime() &&
+      monthlyStart.getTime() === new Date(2026, 0, 1).getTime() &&
+      weeklyReset.getTime() === new Date(2026, 0, 12).getTime() &&
+      monthlyReset.getTime() === new Date(2026, 1, 1).getTime(),
+    detail: `週=${weeklyStart.toDateString()}〜${weeklyReset.toDateString()}`,
+  });
+
+  // テストケース5: 回数の上限に余裕があっても予算を超えていれば停止する
+  const exceeded = { warning: true, exceeded: true };
+  const warning = { warning: true, exceeded: false };
+  const withoutLimit = decideFeatureUsage({
+    remaining: 10,
+    budgets: [warning, exceeded],
+    hasOverride: false,
+  });
+  const withinBudget = decideFeatureUsage({
+    remaining: 10,
+    budgets: [warning],
+    hasOverride: false,
+  });
+  results.push({
+    case: "回数の上限内での予算",
+    passed:
+      !withoutLimit.canUse &&
+      withoutLimit.reason === "budget_exceeded" &&
+      withinBudget.canUse &&
+      withinBudget.warning,
+    detail: `超過=${withoutLimit.canUse}/${withoutLimit.reason}, 警告=${withinBudget.canUse}/${withinBudget.warning}`,
+  });
+
+  // テストケース6: 回数の上限は予算より先に判定する
+  const dailyLimited = decideFeatureUsage({
+    remaining: 0,
+    budgets: [exceeded],
+    hasOverride: false,
+  });
+  const available = decideFeatureUsage({
+    remaining: 3,
+    budgets: [],
+    hasOverride: false,
+  });
+  results.push({
+    case: "回数の上限",
+    passed:
+      !dailyLimited.canUse &&
+      dailyLimited.reason === "daily_limit" &&
+      available.canUse &&
+      !available.warning,
+    detail: `${dailyLimited.reason}, 残りあり=${available.canUse}`,
+  });
+
+  // テストケース7: 一時解除の期間中は回数・予算の上限を適用しない（警告は表示する）
+  const overridden = decideFeatureUsage({
+    remaining: 0,
+    budgets: [exceeded],
+    hasOverride: true,
+  });
+  results.push({
+    case: "一時解除",
+    passed:
+      overridden.canUse &&
+      overridden.reason === undefined &&
+      overridden.warning,
+    detail: `canUse=${overridden.canUse}, warning=${overridden.warning}`,
+  });
+
+  // 結果のサマリーを表示
+  console.log("=== テスト結果 ===");
+  results.forEach((result) => {
+    console.log(
+      `${result.passed ? "✅ 成功" : "❌ 失敗"} ${result.case}: ${
+        result.detail
+      }`
+    );
+  });
+  console.log(`\n総テスト数: ${results.length}`);
+  console.log(`成功: ${results.filter((r) => r.passed).length}`);
+  console.log(`失敗: ${results.filter((r) => !r.passed).length}`);
+
+  if (results.some((r) => !r.passed)) {
+    process.exit(1);
+  }
+}
+
+runUsageBudgetTests().catch((error) => {
+  console.error("テスト実行中にエラーが発生しました:", error);
+  process.exit(1);
+});
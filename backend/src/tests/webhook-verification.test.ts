@@ -0,0 +1,103 @@
+import crypto from "crypto";
+import { WebhookVerificationService } from "../services/WebhookVerificationService";
+
+async function runWebhookVerificationTests() {
+  console.log("Webhook検証テストを開始します...\n");
+
+  const service = new WebhookVerificationService(600);
+  const secret = "test-webhook-secret";
+  // GitHubが送信するバイト列（JSON.stringify の結果とは空白や順序が異なる）
+  const rawBody = Buffer.from('{"action": "opened",\n  "number": 1}');
+  const sign = (algorithm: string, body: Buffer) =>
+    `${algorithm}=` +
+    crypto.createHmac(algorithm, secret).update(body).digest("hex");
+  const results: { case: string; passed: boolean; detail: string }[] = [];
+
+  // テストケース1: 生のボディに対する SHA-256 署名のみを受け付ける
+  const valid = service.verifyHmacSignature(
+    rawBody,
+    sign("sha256", rawBody),
+    secret
+  );
+  const reserialized = service.verifyHmacSignature(
+    Buffer.from(JSON.stringify(JSON.parse(rawBody.toString()))),
+    sign("sha256", rawBody),
+    secret
+  );
+  const legacySha1 = service.verifyHmacSignature(
+    rawBody,
+    sign("sha1", rawBody),
+    secret
+  );
+  const truncated = service.verifyHmacSignature(
+    rawBody,
+    sign("sha256", rawBody).substring(0, 20),
+    secret
+  );
+  results.push({
+    case: "署名の検証",
+    passed: valid && !reserialized && !legacySha1 && !truncated,
+    detail: `正規=${valid}, 再シリアライズ=${reserialized}, sha1=${legacySha1}, 途中まで=${truncated}`,
+  });
+
+  // テストケース2: 共有トークンの検証
+  const tokenOk = service.verifySharedToken(secret, secret);
+  const tokenNg = service.verifySharedToken(`${secret}x`, secret);
+  const tokenEmpty = service.verifySharedToken(undefined, secret);
+  results.push({
+    case: "共有トークンの検証",
+    passed: tokenOk && !tokenNg && !tokenEmpty,
+    detail: `一致=${tokenOk}, 不一致=${tokenNg}, 未指定=${tokenEmpty}`,
+  });
+
+  // テストケース3: 許容時間を過ぎた（または未来すぎる）イベントは古い配信とみなす
+  const now = new Date("2024-04-01T12:00:00Z");
+  const fresh = service.isStale("2024-04-01T11:55:00Z", now);
+  const old = service.isStale("2024-04-01T11:40:00Z", now);
+  const future = service.isStale("2024-04-01T12:30:00Z", now);
+  const unknown = service.isStale(undefined, now);
+  results.push({
+    case: "配信時刻の検証",
+    passed: !fresh && old && future && !unknown,
+    detail: `5分前=${fresh}, 20分前=${old}, 30分後=${future}, 不明=${unknown}`,
+  });
+
+  // テストケース4: イベントごとに発生時刻を取得する
+  const commentTime = service.getGitHubEventTime("issue_comment", {
+    comment: { created_at: "2024-04-01T11:00:00Z" },
+  });
+  const prTime = service.getGitHubEventTime("pull_request", {
+    pull_request: { updated_at: "2024-04-01T11:30:00Z" },
+  });
+  const pingTime = service.getGitHubEventTime("ping", {});
+  results.push({
+    case: "イベント時刻の取得",
+    passed:
+      commentTime === "2024-04-01T11:00:00Z" &&
+      prTime === "2024-04-01T11:30:00Z" &&
+      pingTime === undefined,
+    detail: `${commentTime}, ${prTime}, ${pingTime}`,
+  });
+
+  // 結果のサマリーを表示
+  console.log("=== テスト結果 ===");
+  results.forEach((result) => {
+    console.log(
+      `${result.passed ? "✅ 成功" : "❌ 失敗"} ${result.case}: ${
+        result.detail
+      }`
+    );
+  });
+  console.log(`\n総テスト数: ${results.length}`);
+  console.log(`成功: ${results.filter((r) => r.passed).length}`);
+  console.log(`失敗: ${results.filter((r) => !r.passed).length}`);
+
+  if (results.some((r) => !r.passed)) {
+    process.exit(1);
+  }
+}
+
+runWebhookVerificationTests().catch((error) => {
+  console.error("テスト実行中にエラーが発生しました:", error);
+  process.exit(1);
+});
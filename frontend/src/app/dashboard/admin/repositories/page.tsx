@@ -47,12 +47,29 @@ import {
 } from "lucide-react";
 import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
 
+interface IndexStatus {
+  status: "running" | "succeeded" | "failed";
+  last_commit_sha: string | null;
+  file_count: number;
+  chunk_count: number;
+  last_added_files: number;
+  last_updated_files: number;
+  last_removed_files: number;
+  last_error: string | null;
+  last_run_at: string | null;
+  last_succeeded_at: string | null;
+  embedding_model: string | null;
+  vector_store: string;
+}
+
 interface Repository {
   projectKey: string;
   repositoryName: string;
   allowAutoReply: boolean;
   notes?: string;
   addedAt: string;
+  indexStatus?: IndexStatus | null;
+  indexUsesCurrentEmbedding?: boolean;
 }
 
 interface Project {
@@ -342,6 +359,98 @@ export default function RepositoriesManagementPage() {
     }
   };
 
+  // ベクトルインデックスを更新
+  const handleReindexRepository = async (repo: Repository) => {
+    try {
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL}/api/admin/repository-whitelist/${repo.projectKey}/${repo.repositoryName}/reindex`,
+        {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error("インデックスの更新に失敗しました");
+      }
+
+      // 実行中として表示を更新
+      setRepositories((prev) =>
+        prev.map((r) =>
+          r.projectKey === repo.projectKey &&
+          r.repositoryName === repo.repositoryName &&
+          r.indexStatus
+            ? { ...r, indexStatus: { ...r.indexStatus, status: "running" } }
+            : r
+        )
+      );
+
+      toast({
+        title: "インデックス更新",
+        description: "変更されたファイルのインデックス更新を開始しました",
+      });
+    } catch (error) {
+      console.error("インデックス更新エラー:", error);
+      toast({
+        title: "更新エラー",
+        description: "インデックスの更新に失敗しました",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // インデックス状態の表示
+  const renderIndexStatus = (
+    indexStatus?: IndexStatus | null,
+    usesCurrentEmbedding?: boolean
+  ) => {
+    if (!indexStatus) {
+      return <span className="text-muted-foreground">未作成</span>;
+    }
+
+    return (
+      <div className="space-y-1 text-sm">
+        {indexStatus.status === "succeeded" && !usesCurrentEmbedding ? (
+          <Badge
+            className="bg-yellow-100 text-yellow-800 hover:bg-yellow-200"
+            title="埋め込みモデルが変更されたため、再インデックスが必要です"
+          >
+            要再作成
+          </Badge>
+        ) : indexStatus.status === "succeeded" ? (
+          <Badge className="bg-green-100 text-green-800 hover:bg-green-200">
+            最新
+          </Badge>
+        ) : indexStatus.status === "running" ? (
+          <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-200">
+            更新中
+          </Badge>
+        ) : (
+          <Badge variant="destructive" title={indexStatus.last_error || ""}>
+            失敗
+          </Badge>
+        )}
+        <div>
+          {indexStatus.file_count}ファイル / {indexStatus.chunk_count}チャンク
+        </div>
+        <div className="text-xs text-muted-foreground">
+          {indexStatus.last_commit_sha
+            ? `コミット ${indexStatus.last_commit_sha.substring(0, 7)}`
+            : "コミット -"}
+          {indexStatus.last_run_at &&
+            ` ・ ${new Date(indexStatus.last_run_at).toLocaleString()}`}
+        </div>
+        {indexStatus.embedding_model && (
+          <div className="text-xs text-muted-foreground">
+            {indexStatus.embedding_model} ({indexStatus.vector_store})
+          </div>
+        )}
+      </div>
+    );
+  };
+
   // リポジトリの同期処理
   const handleSyncRepositories = async () => {
     setIsSyncingRepos(true);
@@ -586,6 +695,7 @@ export default function RepositoriesManagementPage() {
                         <TableHead>リポジトリ名</TableHead>
                         <TableHead>自動返信</TableHead>
                         <TableHead>追加日時</TableHead>
+                        <TableHead>インデックス</TableHead>
                         <TableHead>メモ</TableHead>
                         <TableHead className="text-right">操作</TableHead>
                       </TableRow>
@@ -621,8 +731,23 @@ export default function RepositoriesManagementPage() {
                           <TableCell>
                             {new Date(repo.addedAt).toLocaleString()}
                           </TableCell>
+                          <TableCell>
+                            {renderIndexStatus(
+                              repo.indexStatus,
+                              repo.indexUsesCurrentEmbedding
+                            )}
+                          </TableCell>
                           <TableCell>{repo.notes || "-"}</TableCell>
                           <TableCell className="text-right">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="インデックスを更新"
+                              disabled={repo.indexStatus?.status === "running"}
+                              onClick={() => handleReindexRepository(repo)}
+                            >
+                              <RefreshCw className="h-4 w-4" />
+                            </Button>
                             <Button
                               variant="ghost"
                               size="icon"
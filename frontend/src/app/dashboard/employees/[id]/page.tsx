@@ -8,10 +8,12 @@ import {
   Card,
   CardHeader,
   CardTitle,
+  CardDescription,
   CardContent,
   CardFooter,
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import {
   Dialog,
@@ -42,6 +44,7 @@ import {
   CheckCircle,
   AlertCircle,
   ChevronRight,
+  Repeat,
 } from "lucide-react";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -59,6 +62,31 @@ interface Employee {
   updated_at: string;
 }
 
+// 繰り返し指摘されている問題の型定義
+interface RecurringMistake {
+  summary: string;
+  category: string | null;
+  occurrences: number;
+  review_count: number;
+  feedback_ids: number[];
+  review_ids: number[];
+  first_seen: string;
+  last_seen: string;
+}
+
+// フィードバックカテゴリの表示名
+const CATEGORY_LABELS: Record<string, string> = {
+  code_quality: "コード品質",
+  security: "セキュリティ",
+  performance: "パフォーマンス",
+  best_practice: "ベストプラクティス",
+  readability: "可読性",
+  functionality: "機能性",
+  maintainability: "保守性",
+  architecture: "アーキテクチャ",
+  other: "その他",
+};
+
 // 編集フォームのバリデーションスキーマ
 const formSchema = z.object({
   name: z.string().min(1, "名前は必須です"),
@@ -85,6 +113,10 @@ export default function EmployeeDetailPage({
   params: { id: string };
 }) {
   const [employee, setEmployee] = useState<Employee | null>(null);
+  const [recurringMistakes, setRecurringMistakes] = useState<
+    RecurringMistake[]
+  >([]);
+  const [isLoadingMistakes, setIsLoadingMistakes] = useState(true);
   const [isLoading, setIsLoading] = useState(true);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isPasswordDialogOpen, setIsPasswordDialogOpen] = useState(false);
@@ -170,6 +202,37 @@ export default function EmployeeDetailPage({
     }
   }, [params.id, token, toast, reset]);
 
+  // 繰り返し指摘されている問題を取得
+  useEffect(() => {
+    const fetchRecurringMistakes = async () => {
+      try {
+        const response = await fetch(
+          `${process.env.NEXT_PUBLIC_API_URL}/api/employees/${params.id}/recurring-mistakes`,
+          {
+            headers: {
+              Authorization: `Bearer ${token}`,
+            },
+          }
+        );
+
+        if (!response.ok) {
+          throw new Error("繰り返し指摘の取得に失敗しました");
+        }
+
+        const data = await response.json();
+        setRecurringMistakes(data.data || []);
+      } catch (error) {
+        console.error("繰り返し指摘取得エラー:", error);
+      } finally {
+        setIsLoadingMistakes(false);
+      }
+    };
+
+    if (token) {
+      fetchRecurringMistakes();
+    }
+  }, [params.id, token]);
+
   // 日付をフォーマット
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -490,6 +553,65 @@ export default function EmployeeDetailPage({
         </CardFooter>
       </Card>
 
+      {/* 繰り返し指摘されている問題 */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Repeat className="mr-2 h-5 w-5" />
+            繰り返し指摘されている問題
+          </CardTitle>
+          <CardDescription>
+            複数のレビューで同じ内容の指摘を受けている問題です。AIレビューでは、これらの問題が再び見つかった場合に優先度を上げて指摘します
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoadingMistakes ? (
+            <p className="text-center text-gray-500 py-6">読み込み中...</p>
+          ) : recurringMistakes.length === 0 ? (
+            <p className="text-center text-gray-500 py-6">
+              繰り返し指摘されている問題はありません
+            </p>
+          ) : (
+            <ul className="space-y-3">
+              {recurringMistakes.map((mistake) => (
+                <li
+                  key={mistake.feedback_ids[0]}
+                  className="border rounded-md p-4 space-y-2"
+                >
+                  <div className="flex items-start justify-between gap-4">
+                    <p className="font-medium">{mistake.summary}</p>
+                    <Badge variant="destructive" className="shrink-0">
+                      {mistake.occurrences}回
+                    </Badge>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-500">
+                    {mistake.category && (
+                      <Badge variant="outline">
+                        {CATEGORY_LABELS[mistake.category] || mistake.category}
+                      </Badge>
+                    )}
+                    <span>{mistake.review_count}件のレビュー</span>
+                    <span>初回: {formatDate(mistake.first_seen)}</span>
+                    <span>直近: {formatDate(mistake.last_seen)}</span>
+                  </div>
+                  <div className="flex flex-wrap gap-2 text-sm">
+                    {mistake.review_ids.map((reviewId) => (
+                      <Link
+                        key={reviewId}
+                        href={`/dashboard/reviews/${reviewId}`}
+                        className="text-blue-600 hover:underline"
+                      >
+                        レビュー #{reviewId}
+                      </Link>
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
       {/* 編集ダイアログ */}
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
         <DialogContent className="sm:max-w-md">
@@ -17,6 +17,14 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Form,
   FormControl,
@@ -36,6 +44,15 @@ import { MemberSelector } from "@/components/members/MemberSelector";
 const groupSchema = z.object({
   name: z.string().min(1, "グループ名は必須です"),
   description: z.string().optional(),
+  webhook_url: z
+    .string()
+    .url("有効なURLを入力してください")
+    .startsWith("https://", "Webhook URLはhttpsで指定してください")
+    .or(z.literal("")),
+  webhook_format: z.enum(["slack", "teams"]),
+  webhook_review_completed: z.boolean(),
+  webhook_feedback_received: z.boolean(),
+  webhook_level_changed: z.boolean(),
 });
 
 type GroupFormValues = z.infer<typeof groupSchema>;
@@ -47,6 +64,19 @@ interface SelectedMember {
   role: string;
 }
 
+// チャットに投稿する通知の種類
+const webhookEventToggles: {
+  name:
+    | "webhook_review_completed"
+    | "webhook_feedback_received"
+    | "webhook_level_changed";
+  label: string;
+}[] = [
+  { name: "webhook_review_completed", label: "レビュー完了" },
+  { name: "webhook_feedback_received", label: "フィードバックのチェック" },
+  { name: "webhook_level_changed", label: "スキルレベルの変化" },
+];
+
 // グループメンバーの役割オプション
 const groupRoles = [
   { value: "manager", label: "管理者" },
@@ -70,6 +100,11 @@ export default function EditGroupPage({ params }: { params: { id: string } }) {
     defaultValues: {
       name: "",
       description: "",
+      webhook_url: "",
+      webhook_format: "slack",
+      webhook_review_completed: true,
+      webhook_feedback_received: true,
+      webhook_level_changed: true,
     },
   });
 
@@ -101,6 +136,13 @@ export default function EditGroupPage({ params }: { params: { id: string } }) {
         form.reset({
           name: groupData.data.name,
           description: groupData.data.description || "",
+          webhook_url: groupData.data.webhook_url || "",
+          webhook_format: groupData.data.webhook_format || "slack",
+          webhook_review_completed:
+            groupData.data.webhook_review_completed ?? true,
+          webhook_feedback_received:
+            groupData.data.webhook_feedback_received ?? true,
+          webhook_level_changed: groupData.data.webhook_level_changed ?? true,
         });
 
         // グループメンバーを取得
@@ -177,7 +219,11 @@ export default function EditGroupPage({ params }: { params: { id: string } }) {
             "Content-Type": "application/json",
             Authorization: `Bearer ${token}`,
           },
-          body: JSON.stringify(data),
+          body: JSON.stringify({
+            ...data,
+            // 空欄の場合はWebhookへの投稿を停止する
+            webhook_url: data.webhook_url || null,
+          }),
         }
       );
 
@@ -363,6 +409,80 @@ export default function EditGroupPage({ params }: { params: { id: string } }) {
                       </FormItem>
                     )}
                   />
+
+                  <FormField
+                    control={form.control}
+                    name="webhook_url"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>チャット通知のWebhook URL</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="https://hooks.slack.com/services/..."
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          下で選んだ種類のメンバーの通知をチャットに投稿します（空欄の場合は投稿しません）
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="webhook_format"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Webhookの形式</FormLabel>
+                        <Select
+                          value={field.value}
+                          onValueChange={field.onChange}
+                        >
+                          <FormControl>
+                            <SelectTrigger className="w-60">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="slack">Slack</SelectItem>
+                            <SelectItem value="teams">
+                              Microsoft Teams
+                            </SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <div className="space-y-3">
+                    <FormLabel>チャットに投稿する通知</FormLabel>
+                    <FormDescription>
+                      メンバー個人の通知設定とは別に、グループのチャットに投稿する種類を選びます
+                    </FormDescription>
+                    {webhookEventToggles.map((toggle) => (
+                      <FormField
+                        key={toggle.name}
+                        control={form.control}
+                        name={toggle.name}
+                        render={({ field }) => (
+                          <FormItem className="flex items-center justify-between">
+                            <FormLabel className="font-normal">
+                              {toggle.label}
+                            </FormLabel>
+                            <FormControl>
+                              <Switch
+                                checked={field.value}
+                                onCheckedChange={field.onChange}
+                              />
+                            </FormControl>
+                          </FormItem>
+                        )}
+                      />
+                    ))}
+                  </div>
                 </CardContent>
                 <CardFooter className="flex justify-between">
                   <Button
@@ -0,0 +1,276 @@
+// frontend/src/app/dashboard/notifications/page.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/components/ui/use-toast";
+import { NOTIFICATIONS_UPDATED_EVENT } from "@/components/notifications/NotificationBell";
+import {
+  Bell,
+  CheckCheck,
+  CheckCircle,
+  ClipboardCheck,
+  TrendingUp,
+} from "lucide-react";
+
+type NotificationType =
+  | "review_completed"
+  | "feedback_received"
+  | "level_changed"
+  | "system";
+
+interface NotificationItem {
+  id: number;
+  type: NotificationType;
+  title: string;
+  message: string;
+  link: string | null;
+  is_read: boolean;
+  created_at: string;
+}
+
+// 1ページに表示する件数
+const PAGE_SIZE = 20;
+
+// 通知の種類に応じたアイコン
+const getTypeIcon = (type: NotificationType) => {
+  switch (type) {
+    case "review_completed":
+      return <CheckCircle className="h-5 w-5 text-green-600 shrink-0" />;
+    case "feedback_received":
+      return <ClipboardCheck className="h-5 w-5 text-blue-600 shrink-0" />;
+    case "level_changed":
+      return <TrendingUp className="h-5 w-5 text-indigo-600 shrink-0" />;
+    default:
+      return <Bell className="h-5 w-5 text-gray-500 shrink-0" />;
+  }
+};
+
+export default function NotificationsPage() {
+  const { token } = useAuth();
+  const { toast } = useToast();
+  const router = useRouter();
+  const [notifications, setNotifications] = useState<NotificationItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [page, setPage] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // 通知一覧を取得
+  const fetchNotifications = async () => {
+    try {
+      setIsLoading(true);
+      const params = new URLSearchParams({
+        limit: String(PAGE_SIZE),
+        offset: String(page * PAGE_SIZE),
+        unread: String(unreadOnly),
+      });
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL}/api/notifications?${params}`,
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error("通知の取得に失敗しました");
+      }
+
+      const data = await response.json();
+      setNotifications(data.data.items);
+      setTotal(data.data.total);
+      setUnreadCount(data.data.unreadCount);
+    } catch (error) {
+      console.error("通知取得エラー:", error);
+      toast({
+        title: "エラーが発生しました",
+        description: "通知の取得に失敗しました",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (token) {
+      fetchNotifications();
+    }
+  }, [token, page, unreadOnly]);
+
+  // 通知を既読にしてリンク先を開く
+  const handleOpen = async (notification: NotificationItem) => {
+    if (!notification.is_read) {
+      try {
+        await fetch(
+          `${process.env.NEXT_PUBLIC_API_URL}/api/notifications/${notification.id}/read`,
+          {
+            method: "PATCH",
+            headers: {
+              Authorization: `Bearer ${token}`,
+            },
+          }
+        );
+        setNotifications((prev) =>
+          prev.map((item) =>
+            item.id === notification.id ? { ...item, is_read: true } : item
+          )
+        );
+        setUnreadCount((prev) => Math.max(0, prev - 1));
+        window.dispatchEvent(new Event(NOTIFICATIONS_UPDATED_EVENT));
+      } catch (error) {
+        console.error("通知既読エラー:", error);
+      }
+    }
+
+    if (notification.link) {
+      router.push(notification.link);
+    }
+  };
+
+  // すべて既読にする
+  const handleMarkAllAsRead = async () => {
+    try {
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL}/api/notifications/read-all`,
+        {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error("通知の更新に失敗しました");
+      }
+
+      window.dispatchEvent(new Event(NOTIFICATIONS_UPDATED_EVENT));
+      if (page === 0) {
+        fetchNotifications();
+      } else {
+        setPage(0);
+      }
+    } catch (error) {
+      console.error("通知一括既読エラー:", error);
+      toast({
+        title: "エラーが発生しました",
+        description: "通知を既読にできませんでした",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">通知</h1>
+          <p className="text-gray-500 mt-1">未読 {unreadCount}件</p>
+        </div>
+        <div className="flex space-x-2">
+          <Button
+            variant={unreadOnly ? "default" : "outline"}
+            onClick={() => {
+              setUnreadOnly(!unreadOnly);
+              setPage(0);
+            }}
+          >
+            未読のみ
+          </Button>
+          <Button
+            variant="outline"
+            onClick={handleMarkAllAsRead}
+            disabled={unreadCount === 0}
+            className="flex items-center"
+          >
+            <CheckCheck className="mr-2 h-4 w-4" />
+            すべて既読にする
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <p className="p-6 text-sm text-gray-500">読み込み中...</p>
+          ) : notifications.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500">
+              {unreadOnly ? "未読の通知はありません" : "通知はありません"}
+            </p>
+          ) : (
+            <ul className="divide-y">
+              {notifications.map((notification) => (
+                <li key={notification.id}>
+                  <button
+                    onClick={() => handleOpen(notification)}
+                    className={`w-full text-left flex items-start p-4 hover:bg-gray-50 ${
+                      notification.is_read ? "" : "bg-indigo-50/50"
+                    }`}
+                  >
+                    {getTypeIcon(notification.type)}
+                    <div className="ml-3 flex-1">
+                      <div className="flex items-center justify-between">
+                        <p
+                          className={`text-sm ${
+                            notification.is_read ? "" : "font-semibold"
+                          }`}
+                        >
+                          {notification.title}
+                        </p>
+                        <span className="text-xs text-gray-500 ml-4 shrink-0">
+                          {new Date(notification.created_at).toLocaleString(
+                            "ja-JP"
+                          )}
+                        </span>
+                      </div>
+                      <p className="text-sm text-gray-600 mt-1">
+                        {notification.message}
+                      </p>
+                    </div>
+                    {!notification.is_read && (
+                      <Badge className="ml-3 shrink-0">未読</Badge>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      {totalPages > 1 && (
+        <div className="flex justify-center items-center space-x-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(page - 1)}
+            disabled={page === 0}
+          >
+            前へ
+          </Button>
+          <span className="text-sm text-gray-500">
+            {page + 1} / {totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(page + 1)}
+            disabled={page + 1 >= totalPages}
+          >
+            次へ
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
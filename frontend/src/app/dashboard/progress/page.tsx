@@ -85,24 +85,58 @@ interface ProgressSummary {
     efficiency: number;
     bestPractices: number;
   };
-  levelHistory: {
-    level: string;
-    date: string;
-    reviewId: number;
-  }[];
-  feedbackSummary: {
-    totalFeedbacks: number;
-    priorityDistribution: { priority: string; count: number }[];
-    typeDistribution: { type: string; count: number }[];
-    improvement: {
-      resolvedRate: number;
-      improvementByType: {
-        type: string;
-        initial: number;
-        current: number;
-      }[];
+  levelHistory: MetricResult<
+    {
+      level: string;
+      previousLevel: string | null;
+      date: string;
+      submissionId: number;
+      reviewId: number | null;
+    }[]
+  >;
+  feedbackSummary: FeedbackStats;
+}
+
+// データが不足している指標は数値の代わりに insufficient_data が返される
+type MetricResult<T> =
+  | { status: "ok"; data: T }
+  | {
+      status: "insufficient_data";
+      reason: string;
+      required: number;
+      actual: number;
     };
-  };
+
+interface ImprovementMetrics {
+  resolvedRate: number;
+  resolvedCount: number;
+  totalCount: number;
+  improvementByType: {
+    category: string;
+    type: string;
+    initial: number;
+    current: number;
+  }[];
+  resolutionTimeByCategory: {
+    category: string;
+    type: string;
+    resolvedCount: number;
+    averageHours: number;
+    medianHours: number;
+  }[];
+  recurrenceByCategory: {
+    category: string;
+    type: string;
+    occurrences: number;
+    submissionCount: number;
+    recurrenceRate: number;
+  }[];
+  monthlyResolutionRate: {
+    month: string;
+    total: number;
+    resolved: number;
+    rate: number;
+  }[];
 }
 
 interface ReviewHistoryItem {
@@ -131,14 +165,7 @@ interface FeedbackStats {
   totalFeedbacks: number;
   priorityDistribution: { priority: string; count: number }[];
   typeDistribution: { type: string; count: number }[];
-  improvement: {
-    resolvedRate: number;
-    improvementByType: {
-      type: string;
-      initial: number;
-      current: number;
-    }[];
-  };
+  improvement: MetricResult<ImprovementMetrics>;
 }
 
 export default function ProgressPage() {
@@ -276,6 +303,30 @@ export default function ProgressPage() {
     }
   }, [selectedPeriod, token]);
 
+  // 算出済みの改善指標（データ不足の場合は null）
+  const improvement =
+    feedbackStats?.improvement.status === "ok"
+      ? feedbackStats.improvement.data
+      : null;
+  const resolvedRate = improvement?.resolvedRate ?? 0;
+
+  // データ不足の指標に表示するメッセージ
+  const renderInsufficientData = (result?: MetricResult<unknown>) => (
+    <div className="flex flex-col items-center justify-center py-8 text-center text-gray-500">
+      <AlertCircle className="h-8 w-8 mb-2 text-gray-400" />
+      <p className="text-sm">
+        {result?.status === "insufficient_data"
+          ? result.reason
+          : "データを読み込んでいます"}
+      </p>
+      {result?.status === "insufficient_data" && (
+        <p className="text-xs mt-1">
+          （{result.actual}/{result.required}件）
+        </p>
+      )}
+    </div>
+  );
+
   // 日付をフォーマット
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -634,36 +685,44 @@ export default function ProgressPage() {
               <CardDescription>スキルレベルの変化履歴</CardDescription>
             </CardHeader>
             <CardContent>
-              <div className="relative">
-                <div className="absolute top-0 left-7 h-full w-0.5 bg-gray-200"></div>
-                <ul className="space-y-4">
-                  {summary?.levelHistory.map((history, index) => (
-                    <li key={index} className="ml-7 relative">
-                      <div
-                        className="absolute -left-9 mt-1 w-7 h-7 rounded-full flex items-center justify-center text-white text-xs font-medium z-10"
-                        style={{
-                          backgroundColor: getLevelColor(history.level),
-                        }}
-                      >
-                        {history.level}
-                      </div>
-                      <div className="border rounded-md p-3">
-                        <div className="flex justify-between">
-                          <span className="font-medium">
-                            {getLevelLabel(history.level)}
-                          </span>
-                          <span className="text-sm text-gray-500">
-                            {formatDate(history.date)}
-                          </span>
+              {summary?.levelHistory.status === "ok" ? (
+                <div className="relative">
+                  <div className="absolute top-0 left-7 h-full w-0.5 bg-gray-200"></div>
+                  <ul className="space-y-4">
+                    {summary.levelHistory.data.map((history, index) => (
+                      <li key={index} className="ml-7 relative">
+                        <div
+                          className="absolute -left-9 mt-1 w-7 h-7 rounded-full flex items-center justify-center text-white text-xs font-medium z-10"
+                          style={{
+                            backgroundColor: getLevelColor(history.level),
+                          }}
+                        >
+                          {history.level}
                         </div>
-                        <p className="text-sm text-gray-600 mt-1">
-                          レビューID: {history.reviewId}
-                        </p>
-                      </div>
-                    </li>
-                  ))}
-                </ul>
-              </div>
+                        <div className="border rounded-md p-3">
+                          <div className="flex justify-between">
+                            <span className="font-medium">
+                              {getLevelLabel(history.level)}
+                            </span>
+                            <span className="text-sm text-gray-500">
+                              {formatDate(history.date)}
+                            </span>
+                          </div>
+                          <p className="text-sm text-gray-600 mt-1">
+                            {history.previousLevel
+                              ? `${history.previousLevel} → ${history.level}`
+                              : "最初の評価"}
+                            {history.reviewId &&
+                              ` ・ レビューID: ${history.reviewId}`}
+                          </p>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ) : (
+                renderInsufficientData(summary?.levelHistory)
+              )}
             </CardContent>
           </Card>
         </TabsContent>
@@ -812,7 +871,7 @@ export default function ProgressPage() {
                     <li className="flex items-start">
                       <CheckCircle className="h-4 w-4 text-green-500 mr-2 mt-0.5" />
                       <span>
-                        {(feedbackStats?.improvement?.resolvedRate ?? 0) > 70
+                        {resolvedRate > 70
                           ? "フィードバックに対する対応率が高く、改善意欲があります"
                           : "継続的に成長する姿勢が見られます"}
                       </span>
@@ -942,108 +1001,104 @@ export default function ProgressPage() {
             </CardHeader>
             <CardContent className="pt-2">
               <div className="space-y-6">
-                <div className="flex flex-col md:flex-row items-center md:justify-between">
-                  <div className="w-48 h-48 mb-4 md:mb-0">
-                    <ResponsiveContainer width="100%" height="100%">
-                      <PieChart>
-                        <Pie
-                          data={[
-                            {
-                              name: "対応済み",
-                              value:
-                                (feedbackStats?.totalFeedbacks || 0) *
-                                (feedbackStats?.improvement.resolvedRate || 0) *
-                                0.01,
-                            },
-                            {
-                              name: "未対応",
-                              value:
-                                (feedbackStats?.totalFeedbacks || 0) *
-                                (100 -
-                                  (feedbackStats?.improvement.resolvedRate ||
-                                    0)) *
-                                0.01,
-                            },
-                          ]}
-                          cx="50%"
-                          cy="50%"
-                          innerRadius={40}
-                          outerRadius={70}
-                          fill="#8884d8"
-                          paddingAngle={2}
-                          dataKey="value"
-                        >
-                          <Cell fill="#4caf50" />
-                          <Cell fill="#f44336" />
-                        </Pie>
-                        <Tooltip
-                          formatter={(value) => [
-                            `${Math.round(Number(value))}件`,
-                            "",
-                          ]}
-                        />
-                      </PieChart>
-                    </ResponsiveContainer>
-                  </div>
+                {improvement ? (
+                  <div className="flex flex-col md:flex-row items-center md:justify-between">
+                    <div className="w-48 h-48 mb-4 md:mb-0">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <PieChart>
+                          <Pie
+                            data={[
+                              {
+                                name: "対応済み",
+                                value:
+                                  (feedbackStats?.totalFeedbacks || 0) *
+                                  resolvedRate *
+                                  0.01,
+                              },
+                              {
+                                name: "未対応",
+                                value:
+                                  (feedbackStats?.totalFeedbacks || 0) *
+                                  (100 - resolvedRate) *
+                                  0.01,
+                              },
+                            ]}
+                            cx="50%"
+                            cy="50%"
+                            innerRadius={40}
+                            outerRadius={70}
+                            fill="#8884d8"
+                            paddingAngle={2}
+                            dataKey="value"
+                          >
+                            <Cell fill="#4caf50" />
+                            <Cell fill="#f44336" />
+                          </Pie>
+                          <Tooltip
+                            formatter={(value) => [
+                              `${Math.round(Number(value))}件`,
+                              "",
+                            ]}
+                          />
+                        </PieChart>
+                      </ResponsiveContainer>
+                    </div>
 
-                  <div className="md:flex-1 md:ml-8">
-                    <div className="mb-4">
-                      <div className="flex items-center justify-between mb-1">
-                        <div className="flex items-center">
-                          <div className="w-3 h-3 bg-green-500 rounded-full mr-2"></div>
-                          <span className="text-sm">
-                            対応済み ({feedbackStats?.improvement.resolvedRate}
-                            %)
+                    <div className="md:flex-1 md:ml-8">
+                      <div className="mb-4">
+                        <div className="flex items-center justify-between mb-1">
+                          <div className="flex items-center">
+                            <div className="w-3 h-3 bg-green-500 rounded-full mr-2"></div>
+                            <span className="text-sm">
+                              対応済み ({resolvedRate}
+                              %)
+                            </span>
+                          </div>
+                          <span className="text-sm font-medium">
+                            {Math.round(
+                              ((feedbackStats?.totalFeedbacks || 0) *
+                                resolvedRate) /
+                                100
+                            )}
+                            件
                           </span>
                         </div>
-                        <span className="text-sm font-medium">
-                          {Math.round(
-                            ((feedbackStats?.totalFeedbacks || 0) *
-                              (feedbackStats?.improvement.resolvedRate || 0)) /
-                              100
-                          )}
-                          件
-                        </span>
+                        <Progress
+                          value={resolvedRate}
+                          className="h-2"
+                          indicatorColor="bg-green-500"
+                        />
                       </div>
-                      <Progress
-                        value={feedbackStats?.improvement.resolvedRate || 0}
-                        className="h-2"
-                        indicatorColor="bg-green-500"
-                      />
-                    </div>
 
-                    <div>
-                      <div className="flex items-center justify-between mb-1">
-                        <div className="flex items-center">
-                          <div className="w-3 h-3 bg-red-500 rounded-full mr-2"></div>
-                          <span className="text-sm">
-                            未対応 (
-                            {100 -
-                              (feedbackStats?.improvement.resolvedRate || 0)}
-                            %)
+                      <div>
+                        <div className="flex items-center justify-between mb-1">
+                          <div className="flex items-center">
+                            <div className="w-3 h-3 bg-red-500 rounded-full mr-2"></div>
+                            <span className="text-sm">
+                              未対応 ({100 - resolvedRate}
+                              %)
+                            </span>
+                          </div>
+                          <span className="text-sm font-medium">
+                            {Math.round(
+                              ((feedbackStats?.totalFeedbacks || 0) *
+                                (100 - resolvedRate)) /
+                                100
+                            )}
+                            件
                           </span>
                         </div>
-                        <span className="text-sm font-medium">
-                          {Math.round(
-                            ((feedbackStats?.totalFeedbacks || 0) *
-                              (100 -
-                                (feedbackStats?.improvement.resolvedRate ||
-                                  0))) /
-                              100
-                          )}
-                          件
-                        </span>
+                        <Progress
+                          value={100 - resolvedRate}
+                          className="h-2 bg-gray-200"
+                          indicatorColor="bg-red-500"
+                        />
                       </div>
-                      <Progress
-                        value={
-                          100 - (feedbackStats?.improvement.resolvedRate || 0)
-                        }
-                        className="h-2 bg-gray-200"
-                        indicatorColor="bg-red-500"
-                      />
                     </div>
                   </div>
-                </div>
+                ) : (
+                  renderInsufficientData(feedbackStats?.improvement)
+                )}
 
                 <div>
                   <h3 className="font-medium mb-3">優先度別フィードバック</h3>
@@ -1129,31 +1184,118 @@ export default function ProgressPage() {
             <CardHeader>
               <CardTitle>スキル改善グラフ</CardTitle>
               <CardDescription>
-                フィードバックにより改善されたスキル
+                カテゴリごとの対応率（以前のフィードバックと最近のフィードバックの比較）
               </CardDescription>
             </CardHeader>
             <CardContent className="pt-2">
-              <div className="h-[400px]">
-                <ResponsiveContainer width="100%" height="100%">
-                  <BarChart
-                    data={feedbackStats?.improvement.improvementByType || []}
-                    margin={{
-                      top: 20,
-                      right: 30,
-                      left: 20,
-                      bottom: 10,
-                    }}
-                  >
-                    <CartesianGrid strokeDasharray="3 3" />
-                    <XAxis dataKey="type" />
-                    <YAxis domain={[0, 100]} />
-                    <Tooltip />
-                    <Legend />
-                    <Bar dataKey="initial" name="初期値" fill="#ff8042" />
-                    <Bar dataKey="current" name="現在値" fill="#82ca9d" />
-                  </BarChart>
-                </ResponsiveContainer>
-              </div>
+              {improvement ? (
+                <div className="h-[400px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart
+                      data={improvement.improvementByType}
+                      margin={{
+                        top: 20,
+                        right: 30,
+                        left: 20,
+                        bottom: 10,
+                      }}
+                    >
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="type" />
+                      <YAxis domain={[0, 100]} />
+                      <Tooltip />
+                      <Legend />
+                      <Bar dataKey="initial" name="以前" fill="#ff8042" />
+                      <Bar dataKey="current" name="最近" fill="#82ca9d" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              ) : (
+                renderInsufficientData(feedbackStats?.improvement)
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>月別の対応率</CardTitle>
+              <CardDescription>
+                フィードバックを受けた月ごとの対応済みの割合
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="pt-2">
+              {improvement ? (
+                <div className="h-[300px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={improvement.monthlyResolutionRate}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="month" />
+                      <YAxis domain={[0, 100]} />
+                      <Tooltip formatter={(value) => [`${value}%`, "対応率"]} />
+                      <Line
+                        type="monotone"
+                        dataKey="rate"
+                        name="対応率"
+                        stroke="#4caf50"
+                      />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              ) : (
+                renderInsufficientData(feedbackStats?.improvement)
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>カテゴリ別の解決時間と再発率</CardTitle>
+              <CardDescription>
+                チェックされるまでの時間と、同じカテゴリの指摘が以降の提出で繰り返された割合
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {improvement ? (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>カテゴリ</TableHead>
+                        <TableHead>指摘数</TableHead>
+                        <TableHead>再発率</TableHead>
+                        <TableHead>解決までの時間（平均 / 中央値）</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {improvement.recurrenceByCategory.map((item) => {
+                        const resolution =
+                          improvement.resolutionTimeByCategory.find(
+                            (r) => r.category === item.category
+                          );
+                        return (
+                          <TableRow key={item.category}>
+                            <TableCell className="font-medium">
+                              {item.type}
+                            </TableCell>
+                            <TableCell>
+                              {item.occurrences}件（{item.submissionCount}
+                              回の提出）
+                            </TableCell>
+                            <TableCell>{item.recurrenceRate}%</TableCell>
+                            <TableCell>
+                              {resolution
+                                ? `${resolution.averageHours}時間 / ${resolution.medianHours}時間`
+                                : "-"}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              ) : (
+                renderInsufficientData(feedbackStats?.improvement)
+              )}
             </CardContent>
           </Card>
         </TabsContent>
@@ -27,6 +27,8 @@ import {
 } from "lucide-react";
 // import ReviewAIChat from "@/components/ai/ReviewAIChat";
 import ModernReviewAIChat from "@/components/ai/ModernReviewAIChat";
+import { SimilarReviewsPanel } from "@/components/reviews/SimilarReviewsPanel";
+import { ReviewProgressTimeline } from "@/components/reviews/ReviewProgressTimeline";
 
 // Monaco Editor をクライアントサイドのみでロード
 const MonacoEditor = dynamic(() => import("react-monaco-editor"), {
@@ -315,6 +317,12 @@ export default function ReviewDetailPage({
         </div>
       </div>
 
+      {/* AIレビューの進捗（完了・失敗時にレビュー詳細を再取得） */}
+      <ReviewProgressTimeline
+        reviewId={review.id}
+        onFinished={() => setRefreshTrigger((prev) => prev + 1)}
+      />
+
       <Card>
         <CardHeader className="bg-gray-50">
           <div className="flex justify-between items-start">
@@ -477,6 +485,13 @@ export default function ReviewDetailPage({
           {/* ============================================== */}
         </CardFooter>
       </Card>
+
+      {/* 類似する過去のレビュー */}
+      <SimilarReviewsPanel
+        reviewId={review.id}
+        refreshKey={review.submissions?.length || 0}
+      />
+
       {/* AIチャットボットを追加 */}
       {!isLoading && review && (
         <ModernReviewAIChat
@@ -8,7 +8,11 @@ import { Separator } from "@/components/ui/separator";
 import { Button } from "@/components/ui/button";
 import { toast } from "@/components/ui/use-toast";
 import { UsageLimitSettings } from "@/components/admin/UsageLimitSettings";
+import { UsageBudgetSettings } from "@/components/admin/UsageBudgetSettings";
+import { AIModelRoutingSettings } from "@/components/admin/AIModelRoutingSettings";
 import { GitHubRepositoryList } from "@/components/github/GitHubRepositoryList";
+import { NotificationSettingsForm } from "@/components/notifications/NotificationSettingsForm";
+import { SecuritySettings } from "@/components/settings/SecuritySettings";
 import {
   AlertCircle,
   UserCog,
@@ -18,6 +22,8 @@ import {
   User,
   Github,
   Server,
+  Cpu,
+  Wallet,
 } from "lucide-react";
 
 export default function SettingsPage() {
@@ -59,6 +65,16 @@ export default function SettingsPage() {
       label: "利用制限",
       component: <UsageLimitSettings />,
     },
+    {
+      id: "budgets",
+      label: "利用予算",
+      component: <UsageBudgetSettings />,
+    },
+    {
+      id: "ai-models",
+      label: "AIモデル",
+      component: <AIModelRoutingSettings />,
+    },
     {
       id: "github",
       label: "GitHub連携",
@@ -137,11 +153,11 @@ export default function SettingsPage() {
         </TabsContent>
 
         <TabsContent value="notifications">
-          <PlaceholderSettingsContent title="通知" />
+          <NotificationSettingsForm />
         </TabsContent>
 
         <TabsContent value="security">
-          <PlaceholderSettingsContent title="セキュリティ" />
+          <SecuritySettings />
         </TabsContent>
 
         {isAdmin && (
@@ -162,6 +178,10 @@ export default function SettingsPage() {
                     {tab.id === "usage-limits" && (
                       <UserCog className="w-4 h-4 mr-2" />
                     )}
+                    {tab.id === "budgets" && (
+                      <Wallet className="w-4 h-4 mr-2" />
+                    )}
+                    {tab.id === "ai-models" && <Cpu className="w-4 h-4 mr-2" />}
                     {tab.id === "system" && <Server className="w-4 h-4 mr-2" />}
                     {tab.label}
                   </TabsTrigger>
@@ -1,18 +1,49 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { useAuth } from "@/contexts/AuthContext";
 
-export default function LoginPage() {
+type SsoProvider = {
+  id: string;
+  name: string;
+  type: "oidc" | "saml";
+};
+
+export default function LoginPage({
+  searchParams,
+}: {
+  searchParams: { sso_error?: string };
+}) {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
-  const [error, setError] = useState("");
+  // シングルサインオンに失敗した場合はエラーの内容が渡される
+  const [error, setError] = useState(searchParams.sso_error || "");
   const [isLoading, setIsLoading] = useState(false);
+  const [ssoProviders, setSsoProviders] = useState<SsoProvider[]>([]);
   const { login } = useAuth();
   const router = useRouter();
 
+  // 設定されているSSOプロバイダーを取得
+  useEffect(() => {
+    const fetchSsoProviders = async () => {
+      try {
+        const response = await fetch(
+          `${process.env.NEXT_PUBLIC_API_URL}/api/auth/sso/providers`
+        );
+        if (response.ok) {
+          const data = await response.json();
+          setSsoProviders(data.data);
+        }
+      } catch (error) {
+        console.error("SSOプロバイダー取得エラー:", error);
+      }
+    };
+
+    fetchSsoProviders();
+  }, []);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
@@ -97,6 +128,30 @@ export default function LoginPage() {
             </button>
           </div>
 
+          {ssoProviders.length > 0 && (
+            <div className="space-y-3">
+              <div className="relative">
+                <div className="absolute inset-0 flex items-center">
+                  <div className="w-full border-t border-gray-300" />
+                </div>
+                <div className="relative flex justify-center text-sm">
+                  <span className="bg-white px-2 text-gray-500">
+                    または会社のアカウントでログイン
+                  </span>
+                </div>
+              </div>
+              {ssoProviders.map((provider) => (
+                <a
+                  key={provider.id}
+                  href={`${process.env.NEXT_PUBLIC_API_URL}/api/auth/sso/${provider.id}/login`}
+                  className="flex w-full justify-center rounded-md bg-white py-2 px-3 text-sm font-semibold text-gray-900 ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+                >
+                  {provider.name}でログイン
+                </a>
+              ))}
+            </div>
+          )}
+
           <div className="flex items-center justify-between">
             <div className="text-sm">
               <Link
@@ -106,6 +161,14 @@ export default function LoginPage() {
                 アカウントをお持ちでない方はこちら
               </Link>
             </div>
+            <div className="text-sm">
+              <Link
+                href="/forgot-password"
+                className="font-medium text-indigo-600 hover:text-indigo-500"
+              >
+                パスワードをお忘れの方
+              </Link>
+            </div>
           </div>
         </form>
       </div>
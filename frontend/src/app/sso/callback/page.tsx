@@ -0,0 +1,72 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { useAuth } from "@/contexts/AuthContext";
+
+export default function SsoCallbackPage({
+  searchParams,
+}: {
+  searchParams: { ticket?: string };
+}) {
+  const ticket = searchParams.ticket || "";
+  const [error, setError] = useState("");
+  const { loginWithSsoTicket } = useAuth();
+  const router = useRouter();
+  // チケットは一度しか使えないため、二重に交換しない
+  const exchanged = useRef(false);
+
+  useEffect(() => {
+    if (exchanged.current) {
+      return;
+    }
+    exchanged.current = true;
+
+    if (!ticket) {
+      setError("ログインの情報がありません。もう一度ログインしてください");
+      return;
+    }
+
+    const exchangeTicket = async () => {
+      try {
+        const redirectPath = await loginWithSsoTicket(ticket);
+        router.replace(redirectPath || "/dashboard");
+      } catch (error) {
+        setError(
+          error instanceof Error
+            ? error.message
+            : "ログイン中にエラーが発生しました"
+        );
+      }
+    };
+
+    exchangeTicket();
+  }, [ticket]);
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="w-full max-w-md space-y-6 text-center">
+        <h1 className="text-3xl font-bold tracking-tight">
+          コードレビューツール
+        </h1>
+
+        {error ? (
+          <>
+            <div className="rounded-md bg-red-50 p-4">
+              <div className="text-sm text-red-700">{error}</div>
+            </div>
+            <Link
+              href="/login"
+              className="text-sm font-medium text-indigo-600 hover:text-indigo-500"
+            >
+              ログイン画面に戻る
+            </Link>
+          </>
+        ) : (
+          <p className="text-sm text-gray-600">ログインしています...</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,500 @@
+// frontend/src/components/admin/AIModelRoutingSettings.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  CardFooter,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/components/ui/use-toast";
+import { Cpu, RotateCw, Save, Plus, Trash2, Undo2 } from "lucide-react";
+
+interface ModelConfig {
+  provider: string;
+  model: string;
+  temperature: number;
+  timeoutMs: number;
+  maxTokens?: number;
+}
+
+interface ModelRoute {
+  feature_key: string;
+  label: string;
+  route: {
+    id: number;
+    provider: string;
+    model: string;
+    temperature: number;
+    max_tokens: number | null;
+    timeout_ms: number | null;
+    is_active: boolean;
+    updated_at: string;
+  } | null;
+  effective: ModelConfig;
+  fallbacks: ModelConfig[];
+}
+
+interface ModelDraft {
+  provider: string;
+  model: string;
+  temperature: string;
+  max_tokens: string;
+  timeout_ms: string;
+}
+
+interface RouteDraft extends ModelDraft {
+  fallbacks: ModelDraft[];
+}
+
+// フォールバックとして設定できる最大数（バックエンドの検証と合わせる）
+const MAX_FALLBACKS = 3;
+
+// プロバイダー名を表示用に変換
+const getProviderName = (provider: string) => {
+  switch (provider) {
+    case "openai":
+      return "OpenAI";
+    case "anthropic":
+      return "Anthropic";
+    case "openai_compatible":
+      return "OpenAI互換（ローカル）";
+    case "fake":
+      return "テスト用（Fake）";
+    default:
+      return provider;
+  }
+};
+
+const toModelDraft = (config: ModelConfig): ModelDraft => ({
+  provider: config.provider,
+  model: config.model,
+  temperature: String(config.temperature),
+  max_tokens: config.maxTokens ? String(config.maxTokens) : "",
+  timeout_ms: config.timeoutMs ? String(config.timeoutMs) : "",
+});
+
+// 空欄はnull（デフォルト値を使用）として送信する
+const toOptionalInt = (value: string) => {
+  const numValue = parseInt(value);
+  return isNaN(numValue) ? null : numValue;
+};
+
+export function AIModelRoutingSettings() {
+  const { token, user } = useAuth();
+  const { toast } = useToast();
+  const [routes, setRoutes] = useState<ModelRoute[]>([]);
+  const [providers, setProviders] = useState<string[]>([]);
+  const [drafts, setDrafts] = useState<{ [key: string]: RouteDraft }>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+
+  // AIモデル設定を取得
+  const fetchRoutes = async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL}/api/settings/ai-models`,
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error("AIモデル設定の取得に失敗しました");
+      }
+
+      const data = await response.json();
+      setRoutes(data.data.routes);
+      setProviders(data.data.providers);
+
+      // 編集用の状態を現在の有効設定で初期化
+      const initialDrafts: { [key: string]: RouteDraft } = {};
+      data.data.routes.forEach((route: ModelRoute) => {
+        initialDrafts[route.feature_key] = {
+          ...toModelDraft(route.effective),
+          fallbacks: route.fallbacks.map(toModelDraft),
+        };
+      });
+      setDrafts(initialDrafts);
+    } catch (error) {
+      console.error("AIモデル設定取得エラー:", error);
+      toast({
+        title: "エラーが発生しました",
+        description: "AIモデル設定の取得に失敗しました",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // 初回読み込み時にデータを取得
+  useEffect(() => {
+    if (token && user?.role === "admin") {
+      fetchRoutes();
+    }
+  }, [token, user?.role]);
+
+  // 主モデルの入力値を更新
+  const updateDraft = (
+    featureKey: string,
+    field: keyof ModelDraft,
+    value: string
+  ) => {
+    setDrafts({
+      ...drafts,
+      [featureKey]: { ...drafts[featureKey], [field]: value },
+    });
+  };
+
+  // フォールバックの入力値を更新
+  const updateFallback = (
+    featureKey: string,
+    index: number,
+    field: keyof ModelDraft,
+    value: string
+  ) => {
+    const fallbacks = drafts[featureKey].fallbacks.map((fallback, i) =>
+      i === index ? { ...fallback, [field]: value } : fallback
+    );
+    setDrafts({
+      ...drafts,
+      [featureKey]: { ...drafts[featureKey], fallbacks },
+    });
+  };
+
+  const addFallback = (featureKey: string) => {
+    const draft = drafts[featureKey];
+    if (draft.fallbacks.length >= MAX_FALLBACKS) return;
+
+    setDrafts({
+      ...drafts,
+      [featureKey]: {
+        ...draft,
+        fallbacks: [
+          ...draft.fallbacks,
+          {
+            provider: providers[0] || "openai",
+            model: "",
+            temperature: "",
+            max_tokens: "",
+            timeout_ms: "",
+          },
+        ],
+      },
+    });
+  };
+
+  const removeFallback = (featureKey: string, index: number) => {
+    const draft = drafts[featureKey];
+    setDrafts({
+      ...drafts,
+      [featureKey]: {
+        ...draft,
+        fallbacks: draft.fallbacks.filter((_, i) => i !== index),
+      },
+    });
+  };
+
+  // AIモデル設定を保存
+  const handleSave = async (featureKey: string) => {
+    const draft = drafts[featureKey];
+    const temperature = parseFloat(draft.temperature);
+
+    if (!draft.model.trim() || isNaN(temperature)) {
+      toast({
+        title: "入力エラー",
+        description: "モデル名と温度を入力してください",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (draft.fallbacks.some((fallback) => !fallback.model.trim())) {
+      toast({
+        title: "入力エラー",
+        description: "フォールバックのモデル名を入力してください",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setSavingKey(featureKey);
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL}/api/settings/ai-models/${featureKey}`,
+        {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify({
+            provider: draft.provider,
+            model: draft.model.trim(),
+            temperature,
+            max_tokens: toOptionalInt(draft.max_tokens),
+            timeout_ms: toOptionalInt(draft.timeout_ms),
+            fallbacks: draft.fallbacks.map((fallback) => {
+              const fallbackTemperature = parseFloat(fallback.temperature);
+              return {
+                provider: fallback.provider,
+                model: fallback.model.trim(),
+                temperature: isNaN(fallbackTemperature)
+                  ? undefined
+                  : fallbackTemperature,
+                max_tokens: toOptionalInt(fallback.max_tokens),
+                timeout_ms: toOptionalInt(fallback.timeout_ms),
+              };
+            }),
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error("AIモデル設定の更新に失敗しました");
+      }
+
+      toast({
+        title: "更新しました",
+        description: "AIモデル設定を更新しました",
+      });
+      fetchRoutes();
+    } catch (error) {
+      console.error("AIモデル設定更新エラー:", error);
+      toast({
+        title: "エラーが発生しました",
+        description: "AIモデル設定の更新に失敗しました",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  // 管理画面の設定を削除して環境変数・デフォルト設定に戻す
+  const handleReset = async (featureKey: string) => {
+    try {
+      setSavingKey(featureKey);
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL}/api/settings/ai-models/${featureKey}`,
+        {
+          method: "DELETE",
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error("AIモデル設定のリセットに失敗しました");
+      }
+
+      toast({
+        title: "リセットしました",
+        description: "AIモデル設定をデフォルトに戻しました",
+      });
+      fetchRoutes();
+    } catch (error) {
+      console.error("AIモデル設定リセットエラー:", error);
+      toast({
+        title: "エラーが発生しました",
+        description: "AIモデル設定のリセットに失敗しました",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  // モデル設定の入力行
+  const renderModelFields = (
+    draft: ModelDraft,
+    onChange: (field: keyof ModelDraft, value: string) => void,
+    isFallback = false
+  ) => (
+    <div className="grid grid-cols-1 md:grid-cols-5 gap-2 flex-1">
+      <Select
+        value={draft.provider}
+        onValueChange={(value) => onChange("provider", value)}
+      >
+        <SelectTrigger>
+          <SelectValue placeholder="プロバイダー" />
+        </SelectTrigger>
+        <SelectContent>
+          {providers.map((provider) => (
+            <SelectItem key={provider} value={provider}>
+              {getProviderName(provider)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        placeholder="モデル名"
+        value={draft.model}
+        onChange={(e) => onChange("model", e.target.value)}
+        className="md:col-span-2"
+      />
+      <Input
+        type="number"
+        step="0.1"
+        min="0"
+        max="2"
+        placeholder={isFallback ? "温度（主モデルと同じ）" : "温度"}
+        value={draft.temperature}
+        onChange={(e) => onChange("temperature", e.target.value)}
+      />
+      <div className="grid grid-cols-2 gap-2">
+        <Input
+          type="number"
+          min="1"
+          placeholder="最大トークン"
+          value={draft.max_tokens}
+          onChange={(e) => onChange("max_tokens", e.target.value)}
+        />
+        <Input
+          type="number"
+          min="1"
+          placeholder="タイムアウト(ms)"
+          value={draft.timeout_ms}
+          onChange={(e) => onChange("timeout_ms", e.target.value)}
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Cpu className="h-5 w-5 mr-2" />
+          AIモデル設定
+        </CardTitle>
+        <CardDescription>
+          機能ごとに使用するAIプロバイダー・モデルとフォールバックを設定します。変更は再起動なしで反映されます
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center items-center py-4">
+            <RotateCw className="h-4 w-4 animate-spin mr-2" />
+            読み込み中...
+          </div>
+        ) : (
+          routes.map((route) => {
+            const draft = drafts[route.feature_key];
+            if (!draft) return null;
+            const isSaving = savingKey === route.feature_key;
+
+            return (
+              <div
+                key={route.feature_key}
+                className="border rounded-lg p-4 space-y-3"
+              >
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{route.label}</span>
+                    {route.route ? (
+                      <Badge>管理画面で設定</Badge>
+                    ) : (
+                      <Badge variant="outline">デフォルト</Badge>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    {route.route && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleReset(route.feature_key)}
+                        disabled={isSaving}
+                      >
+                        <Undo2 className="h-4 w-4 mr-2" />
+                        デフォルトに戻す
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      onClick={() => handleSave(route.feature_key)}
+                      disabled={isSaving}
+                    >
+                      <Save className="h-4 w-4 mr-2" />
+                      更新
+                    </Button>
+                  </div>
+                </div>
+
+                {renderModelFields(draft, (field, value) =>
+                  updateDraft(route.feature_key, field, value)
+                )}
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-muted-foreground">
+                      フォールバック（主モデルが失敗した場合に上から順に使用）
+                    </span>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => addFallback(route.feature_key)}
+                      disabled={draft.fallbacks.length >= MAX_FALLBACKS}
+                    >
+                      <Plus className="h-4 w-4 mr-2" />
+                      追加
+                    </Button>
+                  </div>
+                  {draft.fallbacks.map((fallback, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      {renderModelFields(
+                        fallback,
+                        (field, value) =>
+                          updateFallback(
+                            route.feature_key,
+                            index,
+                            field,
+                            value
+                          ),
+                        true
+                      )}
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => removeFallback(route.feature_key, index)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+
+      <CardFooter className="flex justify-end">
+        <Button variant="outline" onClick={fetchRoutes}>
+          <RotateCw className="h-4 w-4 mr-2" />
+          リロード
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,888 @@
+// frontend/src/components/admin/CriteriaVersionHistory.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  GitCompare,
+  History,
+  Copy,
+  RotateCcw,
+  Send,
+  Edit,
+  Trash2,
+  Save,
+  X,
+} from "lucide-react";
+
+interface CriteriaSetItem {
+  criteria_id: number;
+  key: string;
+  name: string;
+  description: string;
+  min_score: number;
+  max_score: number;
+  weight: number;
+  is_active: boolean;
+  display_order: number;
+}
+
+interface CriteriaSetVersion {
+  id: number;
+  academic_year: number;
+  version_number: number | null;
+  status: "draft" | "published";
+  criteria: CriteriaSetItem[];
+  content_hash: string;
+  change_note: string | null;
+  source_version_id: number | null;
+  author: { id: number; name: string } | null;
+  created_at: string;
+  published_at: string | null;
+}
+
+interface CriteriaSetDiff {
+  added: CriteriaSetItem[];
+  removed: CriteriaSetItem[];
+  changed: Array<{
+    key: string;
+    name: string;
+    changes: Array<{
+      field: keyof CriteriaSetItem;
+      before: string | number | boolean;
+      after: string | number | boolean;
+    }>;
+  }>;
+}
+
+interface AcademicYear {
+  id: number;
+  academic_year: number;
+  name: string;
+  is_current: boolean;
+}
+
+// 確認ダイアログで実行する操作
+type PendingAction =
+  | { type: "rollback"; version: CriteriaSetVersion }
+  | { type: "publish"; version: CriteriaSetVersion }
+  | { type: "discard"; version: CriteriaSetVersion };
+
+const FIELD_LABELS: Record<string, string> = {
+  name: "名前",
+  description: "説明",
+  min_score: "最小スコア",
+  max_score: "最大スコア",
+  weight: "重み",
+  is_active: "有効",
+  display_order: "表示順",
+};
+
+const formatValue = (value: string | number | boolean) => {
+  if (typeof value === "boolean") {
+    return value ? "有効" : "無効";
+  }
+  return value === "" ? "（なし）" : String(value);
+};
+
+const getVersionLabel = (version: CriteriaSetVersion) =>
+  version.status === "draft" ? "下書き" : `v${version.version_number}`;
+
+export function CriteriaVersionHistory() {
+  const { token } = useAuth();
+  const { toast } = useToast();
+  const [years, setYears] = useState<AcademicYear[]>([]);
+  const [selectedYear, setSelectedYear] = useState<number | null>(null);
+  const [versions, setVersions] = useState<CriteriaSetVersion[]>([]);
+  const [compareFrom, setCompareFrom] = useState<string>("");
+  const [compareTo, setCompareTo] = useState<string>("");
+  const [diff, setDiff] = useState<CriteriaSetDiff | null>(null);
+  const [cloneForm, setCloneForm] = useState({
+    source_year: "",
+    target_year: "",
+    change_note: "",
+  });
+  const [editingDraft, setEditingDraft] = useState<CriteriaSetVersion | null>(
+    null
+  );
+  const [draftNote, setDraftNote] = useState("");
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(
+    null
+  );
+  const [actionNote, setActionNote] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const authHeaders = {
+    "Content-Type": "application/json",
+    Authorization: `Bearer ${token}`,
+  };
+
+  // 年度一覧を取得
+  useEffect(() => {
+    const fetchYears = async () => {
+      try {
+        const response = await fetch(
+          `${process.env.NEXT_PUBLIC_API_URL}/api/evaluation-criteria/years`,
+          { headers: authHeaders }
+        );
+        if (!response.ok) {
+          throw new Error("年度一覧の取得に失敗しました");
+        }
+
+        const data = await response.json();
+        const yearList: AcademicYear[] = data.data || [];
+        setYears(yearList);
+
+        const current = yearList.find((y) => y.is_current) || yearList[0];
+        if (current) {
+          setSelectedYear(current.academic_year);
+          setCloneForm((form) => ({
+            ...form,
+            source_year: String(current.academic_year),
+            target_year: String(current.academic_year + 1),
+          }));
+        }
+      } catch (error) {
+        console.error("年度一覧取得エラー:", error);
+      }
+    };
+
+    if (token) {
+      fetchYears();
+    }
+  }, [token]);
+
+  // 選択した年度のバージョン一覧を取得
+  const fetchVersions = async (year: number) => {
+    try {
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL}/api/evaluation-criteria/versions?year=${year}`,
+        { headers: authHeaders }
+      );
+      if (!response.ok) {
+        throw new Error("バージョン履歴の取得に失敗しました");
+      }
+
+      const data = await response.json();
+      const versionList: CriteriaSetVersion[] = data.data || [];
+      setVersions(versionList);
+
+      // 最新の2つの公開済みバージョンを比較対象の初期値にする
+      const published = versionList.filter((v) => v.status === "published");
+      setCompareTo(published[0] ? String(published[0].id) : "");
+      setCompareFrom(published[1] ? String(published[1].id) : "");
+      setDiff(null);
+    } catch (error) {
+      console.error("バージョン履歴取得エラー:", error);
+      toast({
+        title: "エラー",
+        description: "バージョン履歴の取得に失敗しました",
+        variant: "destructive",
+      });
+    }
+  };
+
+  useEffect(() => {
+    if (token && selectedYear) {
+      fetchVersions(selectedYear);
+    }
+  }, [token, selectedYear]);
+
+  // APIを呼び出して結果をトーストで通知する
+  const submitRequest = async (
+    path: string,
+    method: string,
+    body?: unknown
+  ): Promise<any | null> => {
+    try {
+      setIsSubmitting(true);
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL}${path}`,
+        {
+          method,
+          headers: authHeaders,
+          body: body ? JSON.stringify(body) : undefined,
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || "処理に失敗しました");
+      }
+
+      if (data.message) {
+        toast({ title: "完了しました", description: data.message });
+      }
+      return data;
+    } catch (error) {
+      console.error("評価基準バージョン操作エラー:", error);
+      toast({
+        title: "エラー",
+        description:
+          error instanceof Error ? error.message : "処理に失敗しました",
+        variant: "destructive",
+      });
+      return null;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // 2つのバージョンを比較
+  const handleCompare = async () => {
+    if (!compareFrom || !compareTo) return;
+
+    const data = await submitRequest(
+      `/api/evaluation-criteria/versions/diff?from=${compareFrom}&to=${compareTo}`,
+      "GET"
+    );
+    if (data) {
+      setDiff(data.data.diff);
+    }
+  };
+
+  // 年度の評価基準セットを下書きとして複製
+  const handleClone = async () => {
+    const sourceYear = parseInt(cloneForm.source_year);
+    const targetYear = parseInt(cloneForm.target_year);
+    if (isNaN(sourceYear) || isNaN(targetYear)) {
+      toast({
+        title: "入力エラー",
+        description: "複製元と複製先の年度を入力してください",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const data = await submitRequest(
+      "/api/evaluation-criteria/versions/clone",
+      "POST",
+      {
+        source_year: sourceYear,
+        target_year: targetYear,
+        change_note: cloneForm.change_note || undefined,
+      }
+    );
+    if (data) {
+      setCloneForm({ ...cloneForm, change_note: "" });
+      if (!years.some((y) => y.academic_year === targetYear)) {
+        // 公開前の年度も履歴を確認できるよう選択肢に追加
+        setYears([
+          ...years,
+          {
+            id: 0,
+            academic_year: targetYear,
+            name: `${targetYear}年度`,
+            is_current: false,
+          },
+        ]);
+      }
+      if (selectedYear === targetYear) {
+        fetchVersions(targetYear);
+      } else {
+        setSelectedYear(targetYear);
+      }
+      startEditingDraft(data.data);
+    }
+  };
+
+  // 下書きの編集を開始
+  const startEditingDraft = (version: CriteriaSetVersion) => {
+    setEditingDraft({
+      ...version,
+      criteria: version.criteria.map((item) => ({ ...item })),
+    });
+    setDraftNote(version.change_note || "");
+  };
+
+  // 下書きの項目を変更
+  const updateDraftItem = (
+    criteriaId: number,
+    changes: Partial<Pick<CriteriaSetItem, "weight" | "is_active">>
+  ) => {
+    if (!editingDraft) return;
+    setEditingDraft({
+      ...editingDraft,
+      criteria: editingDraft.criteria.map((item) =>
+        item.criteria_id === criteriaId ? { ...item, ...changes } : item
+      ),
+    });
+  };
+
+  // 下書きを保存
+  const handleSaveDraft = async () => {
+    if (!editingDraft) return;
+
+    const data = await submitRequest(
+      `/api/evaluation-criteria/versions/${editingDraft.id}`,
+      "PUT",
+      {
+        criteria: editingDraft.criteria.map((item) => ({
+          criteria_id: item.criteria_id,
+          weight: item.weight,
+          is_active: item.is_active,
+        })),
+        change_note: draftNote,
+      }
+    );
+    if (data) {
+      setEditingDraft(null);
+      if (selectedYear) fetchVersions(selectedYear);
+    }
+  };
+
+  // 確認ダイアログで選択された操作を実行
+  const handleConfirmAction = async () => {
+    if (!pendingAction) return;
+
+    const { type, version } = pendingAction;
+    const body = { change_note: actionNote || undefined };
+    const data =
+      type === "rollback"
+        ? await submitRequest(
+            `/api/evaluation-criteria/versions/${version.id}/rollback`,
+            "POST",
+            body
+          )
+        : type === "publish"
+        ? await submitRequest(
+            `/api/evaluation-criteria/versions/${version.id}/publish`,
+            "POST",
+            body
+          )
+        : await submitRequest(
+            `/api/evaluation-criteria/versions/${version.id}`,
+            "DELETE"
+          );
+
+    setPendingAction(null);
+    setActionNote("");
+    if (data) {
+      if (editingDraft?.id === version.id) {
+        setEditingDraft(null);
+      }
+      if (selectedYear) fetchVersions(selectedYear);
+    }
+  };
+
+  const latestPublishedId = versions.find((v) => v.status === "published")?.id;
+
+  const renderDiff = () => {
+    if (!diff) return null;
+
+    const hasChanges =
+      diff.added.length > 0 ||
+      diff.removed.length > 0 ||
+      diff.changed.length > 0;
+
+    if (!hasChanges) {
+      return (
+        <p className="text-sm text-gray-500">
+          2つのバージョンの内容に違いはありません
+        </p>
+      );
+    }
+
+    return (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-[100px]">種類</TableHead>
+            <TableHead className="w-[200px]">評価基準</TableHead>
+            <TableHead>変更内容</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {diff.added.map((item) => (
+            <TableRow key={`added-${item.key}`}>
+              <TableCell>
+                <Badge className="bg-green-100 text-green-800">追加</Badge>
+              </TableCell>
+              <TableCell className="font-medium">{item.name}</TableCell>
+              <TableCell className="text-sm">
+                重み {item.weight} / {item.min_score}〜{item.max_score}点 /{" "}
+                {item.is_active ? "有効" : "無効"}
+              </TableCell>
+            </TableRow>
+          ))}
+          {diff.removed.map((item) => (
+            <TableRow key={`removed-${item.key}`}>
+              <TableCell>
+                <Badge className="bg-red-100 text-red-800">削除</Badge>
+              </TableCell>
+              <TableCell className="font-medium">{item.name}</TableCell>
+              <TableCell className="text-sm text-gray-500">
+                この年度の評価基準から外れました
+              </TableCell>
+            </TableRow>
+          ))}
+          {diff.changed.map((item) => (
+            <TableRow key={`changed-${item.key}`}>
+              <TableCell>
+                <Badge className="bg-yellow-100 text-yellow-800">変更</Badge>
+              </TableCell>
+              <TableCell className="font-medium">{item.name}</TableCell>
+              <TableCell className="text-sm space-y-1">
+                {item.changes.map((change) => (
+                  <div key={change.field}>
+                    <span className="text-gray-500">
+                      {FIELD_LABELS[change.field] || change.field}:
+                    </span>{" "}
+                    <span className="line-through text-red-600">
+                      {formatValue(change.before)}
+                    </span>{" "}
+                    →{" "}
+                    <span className="text-green-700">
+                      {formatValue(change.after)}
+                    </span>
+                  </div>
+                ))}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* バージョン履歴 */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <History className="mr-2 h-5 w-5" />
+            評価基準セットの履歴
+          </CardTitle>
+          <CardDescription>
+            年度ごとの評価基準セットの変更履歴です。公開済みのバージョンは変更されず、過去のバージョンに戻すこともできます
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Select
+            value={selectedYear ? String(selectedYear) : ""}
+            onValueChange={(value) => setSelectedYear(parseInt(value))}
+          >
+            <SelectTrigger className="w-[200px]">
+              <SelectValue placeholder="年度を選択" />
+            </SelectTrigger>
+            <SelectContent>
+              {years.map((year) => (
+                <SelectItem
+                  key={year.academic_year}
+                  value={String(year.academic_year)}
+                >
+                  {year.name}
+                  {year.is_current ? "（現在）" : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[100px]">バージョン</TableHead>
+                  <TableHead>変更内容</TableHead>
+                  <TableHead className="w-[140px]">変更者</TableHead>
+                  <TableHead className="w-[180px]">日時</TableHead>
+                  <TableHead className="text-right">操作</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {versions.length === 0 ? (
+                  <TableRow>
+                    <TableCell
+                      colSpan={5}
+                      className="text-center py-4 text-gray-500"
+                    >
+                      この年度のバージョンはまだありません
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  versions.map((version) => (
+                    <TableRow key={version.id}>
+                      <TableCell>
+                        {version.status === "draft" ? (
+                          <Badge variant="outline">下書き</Badge>
+                        ) : (
+                          <span className="font-medium">
+                            {getVersionLabel(version)}
+                            {version.id === latestPublishedId && (
+                              <Badge className="ml-2 bg-green-100 text-green-800">
+                                適用中
+                              </Badge>
+                            )}
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell className="max-w-md text-sm">
+                        {version.change_note || "—"}
+                        <div className="text-xs text-gray-400">
+                          有効な評価基準{" "}
+                          {version.criteria.filter((c) => c.is_active).length}件
+                          / {version.content_hash}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {version.author?.name || "システム"}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {new Date(
+                          version.published_at || version.created_at
+                        ).toLocaleString("ja-JP")}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end space-x-2">
+                          {version.status === "draft" ? (
+                            <>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => startEditingDraft(version)}
+                              >
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                size="sm"
+                                disabled={isSubmitting}
+                                onClick={() =>
+                                  setPendingAction({
+                                    type: "publish",
+                                    version,
+                                  })
+                                }
+                              >
+                                <Send className="mr-1 h-4 w-4" />
+                                公開
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="text-red-600 hover:text-red-700"
+                                disabled={isSubmitting}
+                                onClick={() =>
+                                  setPendingAction({
+                                    type: "discard",
+                                    version,
+                                  })
+                                }
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </>
+                          ) : (
+                            version.id !== latestPublishedId && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={isSubmitting}
+                                onClick={() =>
+                                  setPendingAction({
+                                    type: "rollback",
+                                    version,
+                                  })
+                                }
+                              >
+                                <RotateCcw className="mr-1 h-4 w-4" />
+                                このバージョンに戻す
+                              </Button>
+                            )
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* 下書きの編集 */}
+      {editingDraft && (
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              {editingDraft.academic_year}年度の下書きを編集
+            </CardTitle>
+            <CardDescription>
+              公開するまで、この年度のレビューには反映されません
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>評価基準</TableHead>
+                  <TableHead className="w-[120px]">重み</TableHead>
+                  <TableHead className="w-[100px] text-center">有効</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {editingDraft.criteria.map((item) => (
+                  <TableRow key={item.criteria_id}>
+                    <TableCell>
+                      <div className="font-medium">{item.name}</div>
+                      <div className="text-xs text-gray-500">
+                        {item.description}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.1"
+                        value={item.weight}
+                        onChange={(e) =>
+                          updateDraftItem(item.criteria_id, {
+                            weight: parseFloat(e.target.value) || 0,
+                          })
+                        }
+                      />
+                    </TableCell>
+                    <TableCell className="text-center">
+                      <Switch
+                        checked={item.is_active}
+                        onCheckedChange={(checked) =>
+                          updateDraftItem(item.criteria_id, {
+                            is_active: checked,
+                          })
+                        }
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <Textarea
+              value={draftNote}
+              onChange={(e) => setDraftNote(e.target.value)}
+              placeholder="変更内容のメモ"
+              rows={2}
+            />
+          </CardContent>
+          <CardFooter className="flex justify-between">
+            <Button variant="outline" onClick={() => setEditingDraft(null)}>
+              <X className="mr-2 h-4 w-4" />
+              閉じる
+            </Button>
+            <Button onClick={handleSaveDraft} disabled={isSubmitting}>
+              <Save className="mr-2 h-4 w-4" />
+              下書きを保存
+            </Button>
+          </CardFooter>
+        </Card>
+      )}
+
+      {/* バージョンの比較 */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <GitCompare className="mr-2 h-5 w-5" />
+            バージョンの比較
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={compareFrom} onValueChange={setCompareFrom}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue placeholder="比較元" />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.map((version) => (
+                  <SelectItem key={version.id} value={String(version.id)}>
+                    {getVersionLabel(version)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span>→</span>
+            <Select value={compareTo} onValueChange={setCompareTo}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue placeholder="比較先" />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.map((version) => (
+                  <SelectItem key={version.id} value={String(version.id)}>
+                    {getVersionLabel(version)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              onClick={handleCompare}
+              disabled={!compareFrom || !compareTo || isSubmitting}
+            >
+              差分を表示
+            </Button>
+          </div>
+          {renderDiff()}
+        </CardContent>
+      </Card>
+
+      {/* 年度間の複製 */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Copy className="mr-2 h-5 w-5" />
+            別の年度に複製
+          </CardTitle>
+          <CardDescription>
+            年度の評価基準セットを別の年度の下書きとして複製します。内容を調整してから公開してください
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">複製元の年度</label>
+              <Select
+                value={cloneForm.source_year}
+                onValueChange={(value) =>
+                  setCloneForm({ ...cloneForm, source_year: value })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="年度を選択" />
+                </SelectTrigger>
+                <SelectContent>
+                  {years.map((year) => (
+                    <SelectItem
+                      key={year.academic_year}
+                      value={String(year.academic_year)}
+                    >
+                      {year.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">複製先の年度</label>
+              <Input
+                type="number"
+                min="2000"
+                max="2100"
+                value={cloneForm.target_year}
+                onChange={(e) =>
+                  setCloneForm({ ...cloneForm, target_year: e.target.value })
+                }
+              />
+            </div>
+          </div>
+          <Textarea
+            value={cloneForm.change_note}
+            onChange={(e) =>
+              setCloneForm({ ...cloneForm, change_note: e.target.value })
+            }
+            placeholder="変更内容のメモ（任意）"
+            rows={2}
+          />
+        </CardContent>
+        <CardFooter className="flex justify-end">
+          <Button onClick={handleClone} disabled={isSubmitting}>
+            <Copy className="mr-2 h-4 w-4" />
+            下書きとして複製
+          </Button>
+        </CardFooter>
+      </Card>
+
+      {/* 操作の確認ダイアログ */}
+      <AlertDialog
+        open={pendingAction !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setPendingAction(null);
+            setActionNote("");
+          }
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingAction?.type === "rollback"
+                ? "このバージョンに戻す"
+                : pendingAction?.type === "publish"
+                ? "下書きを公開"
+                : "下書きを破棄"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingAction?.type === "rollback"
+                ? `${
+                    pendingAction.version.academic_year
+                  }年度の評価基準セットを${getVersionLabel(
+                    pendingAction.version
+                  )}の内容に戻し、新しいバージョンとして記録します。評価基準の名前や説明は他の年度とも共有されています。`
+                : pendingAction?.type === "publish"
+                ? `${pendingAction.version.academic_year}年度の評価基準セットとして公開し、以降のレビューに適用します。`
+                : "この下書きを破棄してもよろしいですか？この操作は元に戻せません。"}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {pendingAction?.type !== "discard" && (
+            <Textarea
+              value={actionNote}
+              onChange={(e) => setActionNote(e.target.value)}
+              placeholder="変更内容のメモ（任意）"
+              rows={2}
+            />
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel>キャンセル</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmAction}
+              className={
+                pendingAction?.type === "discard"
+                  ? "bg-red-600 hover:bg-red-700"
+                  : ""
+              }
+            >
+              実行
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
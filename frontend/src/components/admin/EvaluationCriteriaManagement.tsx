@@ -53,6 +53,7 @@ import {
   Copy,
 } from "lucide-react";
 import LoadingSpinner from "@/components/ui/loading-spinner";
+import { CriteriaVersionHistory } from "@/components/admin/CriteriaVersionHistory";
 
 // 評価基準の型定義
 interface EvaluationCriterion {
@@ -473,6 +474,7 @@ export function EvaluationCriteriaManagement() {
         <TabsList>
           <TabsTrigger value="criteria">評価基準管理</TabsTrigger>
           <TabsTrigger value="year-settings">年度別設定</TabsTrigger>
+          <TabsTrigger value="versions">バージョン履歴</TabsTrigger>
         </TabsList>
 
         {/* 評価基準管理タブ */}
@@ -864,6 +866,11 @@ export function EvaluationCriteriaManagement() {
             </CardFooter>
           </Card>
         </TabsContent>
+
+        {/* バージョン履歴タブ */}
+        <TabsContent value="versions" className="space-y-6">
+          <CriteriaVersionHistory />
+        </TabsContent>
       </Tabs>
 
       {/* 削除確認ダイアログ */}
@@ -0,0 +1,695 @@
+// frontend/src/components/admin/UsageBudgetSettings.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
+import { useToast } from "@/components/ui/use-toast";
+import { Wallet, RotateCw, Plus, Trash2, Unlock } from "lucide-react";
+
+type BudgetScope = "user" | "group" | "project";
+type BudgetMetric = "tokens" | "cost";
+type BudgetPeriod = "daily" | "weekly" | "monthly";
+
+interface UsageBudget {
+  id: number;
+  scope: BudgetScope;
+  scope_id: number;
+  scope_name: string;
+  feature_key: string | null;
+  metric: BudgetMetric;
+  period: BudgetPeriod;
+  limit_value: string;
+  warning_threshold: number;
+  description: string | null;
+  is_active: boolean;
+}
+
+interface UsageOverride {
+  id: number;
+  user_id: number;
+  feature_key: string | null;
+  expires_at: string;
+  reason: string | null;
+  user: { id: number; name: string } | null;
+}
+
+interface ScopeOption {
+  id: number;
+  name: string;
+}
+
+// 「全機能」を表すSelectの値（SelectItemは空文字を値にできないため）
+const ALL_FEATURES = "all";
+
+const SCOPE_LABELS: Record<BudgetScope, string> = {
+  user: "ユーザー",
+  group: "グループ",
+  project: "プロジェクト",
+};
+
+const PERIOD_LABELS: Record<BudgetPeriod, string> = {
+  daily: "日",
+  weekly: "週",
+  monthly: "月",
+};
+
+// 機能名を日本語に変換
+const getFeatureName = (featureKey: string | null) => {
+  switch (featureKey) {
+    case null:
+      return "全機能";
+    case "code_review":
+      return "AIコードレビュー";
+    case "ai_chat":
+      return "AIチャット";
+    default:
+      return featureKey;
+  }
+};
+
+const formatLimit = (metric: BudgetMetric, value: string | number) => {
+  const numValue = typeof value === "string" ? parseFloat(value) : value;
+  return metric === "cost"
+    ? `$${numValue.toFixed(2)}`
+    : `${Math.round(numValue).toLocaleString()}トークン`;
+};
+
+// datetime-local の初期値（1週間後）
+const getDefaultExpiry = () => {
+  const date = new Date();
+  date.setDate(date.getDate() + 7);
+  date.setMinutes(date.getMinutes() - date.getTimezoneOffset());
+  return date.toISOString().slice(0, 16);
+};
+
+const initialBudgetForm = {
+  scope: "user" as BudgetScope,
+  scope_id: "",
+  feature_key: ALL_FEATURES,
+  metric: "tokens" as BudgetMetric,
+  period: "monthly" as BudgetPeriod,
+  limit_value: "",
+  warning_threshold: "80",
+  description: "",
+};
+
+export function UsageBudgetSettings() {
+  const { token, user } = useAuth();
+  const { toast } = useToast();
+  const [budgets, setBudgets] = useState<UsageBudget[]>([]);
+  const [overrides, setOverrides] = useState<UsageOverride[]>([]);
+  const [featureKeys, setFeatureKeys] = useState<string[]>([]);
+  const [scopeOptions, setScopeOptions] = useState<
+    Record<BudgetScope, ScopeOption[]>
+  >({ user: [], group: [], project: [] });
+  const [budgetForm, setBudgetForm] = useState(initialBudgetForm);
+  const [overrideForm, setOverrideForm] = useState({
+    user_id: "",
+    feature_key: ALL_FEATURES,
+    expires_at: getDefaultExpiry(),
+    reason: "",
+  });
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const authHeaders = {
+    "Content-Type": "application/json",
+    Authorization: `Bearer ${token}`,
+  };
+
+  // 予算・一時解除・選択肢をまとめて取得
+  const fetchData = async () => {
+    try {
+      setIsLoading(true);
+      const [budgetsRes, overridesRes, scopesRes, limitsRes] =
+        await Promise.all(
+          [
+            "/api/usage-limits/budgets",
+            "/api/usage-limits/overrides",
+            "/api/usage-limits/budgets/scopes",
+            "/api/usage-limits",
+          ].map((path) =>
+            fetch(`${process.env.NEXT_PUBLIC_API_URL}${path}`, {
+              headers: authHeaders,
+            })
+          )
+        );
+
+      if (
+        !budgetsRes.ok ||
+        !overridesRes.ok ||
+        !scopesRes.ok ||
+        !limitsRes.ok
+      ) {
+        throw new Error("利用予算の取得に失敗しました");
+      }
+
+      const [budgetsData, overridesData, scopesData, limitsData] =
+        await Promise.all([
+          budgetsRes.json(),
+          overridesRes.json(),
+          scopesRes.json(),
+          limitsRes.json(),
+        ]);
+
+      setBudgets(budgetsData.data);
+      setOverrides(overridesData.data);
+      setScopeOptions(scopesData.data);
+      setFeatureKeys(
+        limitsData.data.map(
+          (limit: { feature_key: string }) => limit.feature_key
+        )
+      );
+    } catch (error) {
+      console.error("利用予算取得エラー:", error);
+      toast({
+        title: "エラーが発生しました",
+        description: "利用予算の取得に失敗しました",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // 初回読み込み時にデータを取得
+  useEffect(() => {
+    if (token && user?.role === "admin") {
+      fetchData();
+    }
+  }, [token, user?.role]);
+
+  // APIを呼び出して結果をトーストで通知し、一覧を再取得する
+  const submitRequest = async (
+    path: string,
+    method: string,
+    successMessage: string,
+    body?: unknown
+  ) => {
+    try {
+      setIsSubmitting(true);
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL}${path}`,
+        {
+          method,
+          headers: authHeaders,
+          body: body ? JSON.stringify(body) : undefined,
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "処理に失敗しました");
+      }
+
+      toast({
+        title: "更新しました",
+        description: successMessage,
+      });
+      fetchData();
+      return true;
+    } catch (error) {
+      console.error("利用予算更新エラー:", error);
+      toast({
+        title: "エラーが発生しました",
+        description:
+          error instanceof Error ? error.message : "処理に失敗しました",
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // 予算を作成
+  const handleCreateBudget = async () => {
+    const scopeId = parseInt(budgetForm.scope_id);
+    const limitValue = parseFloat(budgetForm.limit_value);
+    const warningThreshold = parseFloat(budgetForm.warning_threshold);
+
+    if (isNaN(scopeId) || isNaN(limitValue) || limitValue <= 0) {
+      toast({
+        title: "入力エラー",
+        description: "適用対象と上限値を入力してください",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const created = await submitRequest(
+      "/api/usage-limits/budgets",
+      "POST",
+      "予算を作成しました",
+      {
+        scope: budgetForm.scope,
+        scope_id: scopeId,
+        feature_key:
+          budgetForm.feature_key === ALL_FEATURES
+            ? null
+            : budgetForm.feature_key,
+        metric: budgetForm.metric,
+        period: budgetForm.period,
+        limit_value: limitValue,
+        warning_threshold: isNaN(warningThreshold)
+          ? undefined
+          : Math.min(100, Math.max(0, warningThreshold)) / 100,
+        description: budgetForm.description || undefined,
+      }
+    );
+
+    if (created) {
+      setBudgetForm(initialBudgetForm);
+    }
+  };
+
+  // 一時解除を付与
+  const handleGrantOverride = async () => {
+    const userId = parseInt(overrideForm.user_id);
+    if (isNaN(userId) || !overrideForm.expires_at) {
+      toast({
+        title: "入力エラー",
+        description: "対象ユーザーと有効期限を入力してください",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const granted = await submitRequest(
+      "/api/usage-limits/overrides",
+      "POST",
+      "一時的な制限解除を付与しました",
+      {
+        user_id: userId,
+        feature_key:
+          overrideForm.feature_key === ALL_FEATURES
+            ? null
+            : overrideForm.feature_key,
+        expires_at: new Date(overrideForm.expires_at).toISOString(),
+        reason: overrideForm.reason || undefined,
+      }
+    );
+
+    if (granted) {
+      setOverrideForm({
+        user_id: "",
+        feature_key: ALL_FEATURES,
+        expires_at: getDefaultExpiry(),
+        reason: "",
+      });
+    }
+  };
+
+  const renderFeatureSelect = (
+    value: string,
+    onChange: (value: string) => void
+  ) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue placeholder="対象機能" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_FEATURES}>全機能</SelectItem>
+        {featureKeys.map((featureKey) => (
+          <SelectItem key={featureKey} value={featureKey}>
+            {getFeatureName(featureKey)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const loadingRow = (colSpan: number) => (
+    <TableRow>
+      <TableCell colSpan={colSpan} className="text-center py-4">
+        <div className="flex justify-center items-center">
+          <RotateCw className="h-4 w-4 animate-spin mr-2" />
+          読み込み中...
+        </div>
+      </TableCell>
+    </TableRow>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Wallet className="h-5 w-5 mr-2" />
+          利用予算
+        </CardTitle>
+        <CardDescription>
+          ユーザー・グループ・プロジェクトごとにトークン数や推定コストの上限を設定します。上限に達すると該当機能は利用できなくなります
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent>
+        <Tabs defaultValue="budgets">
+          <TabsList className="mb-4">
+            <TabsTrigger value="budgets">予算</TabsTrigger>
+            <TabsTrigger value="overrides">一時解除</TabsTrigger>
+          </TabsList>
+
+          {/* 予算タブ */}
+          <TabsContent value="budgets" className="space-y-4">
+            <div className="border rounded-lg p-4 space-y-3">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+                <Select
+                  value={budgetForm.scope}
+                  onValueChange={(value) =>
+                    setBudgetForm({
+                      ...budgetForm,
+                      scope: value as BudgetScope,
+                      scope_id: "",
+                    })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="適用範囲" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(SCOPE_LABELS) as BudgetScope[]).map(
+                      (scope) => (
+                        <SelectItem key={scope} value={scope}>
+                          {SCOPE_LABELS[scope]}
+                        </SelectItem>
+                      )
+                    )}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={budgetForm.scope_id}
+                  onValueChange={(value) =>
+                    setBudgetForm({ ...budgetForm, scope_id: value })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="適用対象" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {scopeOptions[budgetForm.scope].map((option) => (
+                      <SelectItem key={option.id} value={String(option.id)}>
+                        {option.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {renderFeatureSelect(budgetForm.feature_key, (value) =>
+                  setBudgetForm({ ...budgetForm, feature_key: value })
+                )}
+                <Input
+                  placeholder="説明（任意）"
+                  value={budgetForm.description}
+                  onChange={(e) =>
+                    setBudgetForm({
+                      ...budgetForm,
+                      description: e.target.value,
+                    })
+                  }
+                />
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-5 gap-2">
+                <Select
+                  value={budgetForm.metric}
+                  onValueChange={(value) =>
+                    setBudgetForm({
+                      ...budgetForm,
+                      metric: value as BudgetMetric,
+                    })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="単位" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="tokens">トークン数</SelectItem>
+                    <SelectItem value="cost">推定コスト（USD）</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={budgetForm.period}
+                  onValueChange={(value) =>
+                    setBudgetForm({
+                      ...budgetForm,
+                      period: value as BudgetPeriod,
+                    })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="期間" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="daily">毎日</SelectItem>
+                    <SelectItem value="weekly">毎週（月曜開始）</SelectItem>
+                    <SelectItem value="monthly">毎月</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min="0"
+                  step={budgetForm.metric === "cost" ? "0.01" : "1000"}
+                  placeholder="上限値"
+                  value={budgetForm.limit_value}
+                  onChange={(e) =>
+                    setBudgetForm({
+                      ...budgetForm,
+                      limit_value: e.target.value,
+                    })
+                  }
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  max="100"
+                  placeholder="警告する割合(%)"
+                  value={budgetForm.warning_threshold}
+                  onChange={(e) =>
+                    setBudgetForm({
+                      ...budgetForm,
+                      warning_threshold: e.target.value,
+                    })
+                  }
+                />
+                <Button onClick={handleCreateBudget} disabled={isSubmitting}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  予算を追加
+                </Button>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>適用対象</TableHead>
+                  <TableHead>機能</TableHead>
+                  <TableHead>上限</TableHead>
+                  <TableHead>警告</TableHead>
+                  <TableHead>有効</TableHead>
+                  <TableHead className="text-right">アクション</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  loadingRow(6)
+                ) : budgets.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-4">
+                      設定されている予算はありません
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  budgets.map((budget) => (
+                    <TableRow key={budget.id}>
+                      <TableCell className="font-medium">
+                        <Badge variant="outline" className="mr-2">
+                          {SCOPE_LABELS[budget.scope]}
+                        </Badge>
+                        {budget.scope_name}
+                        {budget.description && (
+                          <div className="text-xs text-muted-foreground">
+                            {budget.description}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {getFeatureName(budget.feature_key)}
+                      </TableCell>
+                      <TableCell>
+                        {formatLimit(budget.metric, budget.limit_value)}/
+                        {PERIOD_LABELS[budget.period]}
+                      </TableCell>
+                      <TableCell>
+                        {Math.round(budget.warning_threshold * 100)}%
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={budget.is_active}
+                          disabled={isSubmitting}
+                          onCheckedChange={(checked) =>
+                            submitRequest(
+                              `/api/usage-limits/budgets/${budget.id}`,
+                              "PATCH",
+                              checked
+                                ? "予算を有効にしました"
+                                : "予算を無効にしました",
+                              { is_active: checked }
+                            )
+                          }
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={isSubmitting}
+                          onClick={() =>
+                            submitRequest(
+                              `/api/usage-limits/budgets/${budget.id}`,
+                              "DELETE",
+                              "予算を削除しました"
+                            )
+                          }
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </TabsContent>
+
+          {/* 一時解除タブ */}
+          <TabsContent value="overrides" className="space-y-4">
+            <div className="border rounded-lg p-4">
+              <div className="grid grid-cols-1 md:grid-cols-5 gap-2">
+                <Select
+                  value={overrideForm.user_id}
+                  onValueChange={(value) =>
+                    setOverrideForm({ ...overrideForm, user_id: value })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="対象ユーザー" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {scopeOptions.user.map((option) => (
+                      <SelectItem key={option.id} value={String(option.id)}>
+                        {option.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {renderFeatureSelect(overrideForm.feature_key, (value) =>
+                  setOverrideForm({ ...overrideForm, feature_key: value })
+                )}
+                <Input
+                  type="datetime-local"
+                  value={overrideForm.expires_at}
+                  onChange={(e) =>
+                    setOverrideForm({
+                      ...overrideForm,
+                      expires_at: e.target.value,
+                    })
+                  }
+                />
+                <Input
+                  placeholder="理由（任意）"
+                  value={overrideForm.reason}
+                  onChange={(e) =>
+                    setOverrideForm({ ...overrideForm, reason: e.target.value })
+                  }
+                />
+                <Button onClick={handleGrantOverride} disabled={isSubmitting}>
+                  <Unlock className="h-4 w-4 mr-2" />
+                  制限を解除
+                </Button>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>ユーザー</TableHead>
+                  <TableHead>機能</TableHead>
+                  <TableHead>有効期限</TableHead>
+                  <TableHead>理由</TableHead>
+                  <TableHead className="text-right">アクション</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  loadingRow(5)
+                ) : overrides.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center py-4">
+                      有効な一時解除はありません
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  overrides.map((override) => (
+                    <TableRow key={override.id}>
+                      <TableCell className="font-medium">
+                        {override.user?.name || `#${override.user_id}`}
+                      </TableCell>
+                      <TableCell>
+                        {getFeatureName(override.feature_key)}
+                      </TableCell>
+                      <TableCell>
+                        {new Date(override.expires_at).toLocaleString("ja-JP")}
+                      </TableCell>
+                      <TableCell>{override.reason || "-"}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={isSubmitting}
+                          onClick={() =>
+                            submitRequest(
+                              `/api/usage-limits/overrides/${override.id}`,
+                              "DELETE",
+                              "一時解除を取り消しました"
+                            )
+                          }
+                        >
+                          取り消す
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
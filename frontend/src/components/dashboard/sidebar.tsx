@@ -21,6 +21,7 @@ import {
   MessagesSquare,
 } from "lucide-react";
 import { UsageLimitBadge } from "@/components/usage/UsageLimitBadge";
+import { NotificationBell } from "@/components/notifications/NotificationBell";
 
 export function Sidebar() {
   const { user, logout } = useAuth();
@@ -155,7 +156,10 @@ export function Sidebar() {
         <div className="flex flex-col h-full">
           {/* ヘッダー */}
           <div className="p-4 border-b">
-            <h2 className="text-xl font-bold">コードレビューツール</h2>
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-bold">コードレビューツール</h2>
+              <NotificationBell />
+            </div>
             <div className="mt-2 text-sm text-gray-600">
               <p>{user?.name}</p>
               <p>{user?.role === "admin" ? "管理者" : "新入社員"}</p>
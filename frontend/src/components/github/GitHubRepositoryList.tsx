@@ -39,6 +39,13 @@ import {
 } from "@/components/ui/alert-dialog";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   GitFork,
   Plus,
@@ -62,6 +69,26 @@ import {
   CardFooter,
 } from "@/components/ui/card";
 
+// チェックによるマージ判定の方針
+type CheckGatingPolicy =
+  | "none"
+  | "high_security"
+  | "high_priority"
+  | "any_improvement";
+
+const CHECK_GATING_POLICY_OPTIONS: {
+  value: CheckGatingPolicy;
+  label: string;
+}[] = [
+  { value: "none", label: "結果の表示のみ（マージをブロックしない）" },
+  {
+    value: "high_security",
+    label: "優先度「高」のセキュリティ指摘が残っていれば失敗",
+  },
+  { value: "high_priority", label: "優先度「高」の指摘が残っていれば失敗" },
+  { value: "any_improvement", label: "改善提案が1件でも残っていれば失敗" },
+];
+
 // リポジトリの型定義
 interface GitHubRepository {
   id: number;
@@ -71,6 +98,9 @@ interface GitHubRepository {
   webhook_secret: string | null;
   is_active: boolean;
   allow_auto_review: boolean;
+  review_on_push: boolean;
+  checks_enabled: boolean;
+  check_gating_policy: CheckGatingPolicy;
   created_at: string;
   updated_at: string;
 }
@@ -83,6 +113,9 @@ interface RepositoryFormValues {
   webhook_secret: string;
   is_active: boolean;
   allow_auto_review: boolean;
+  review_on_push: boolean;
+  checks_enabled: boolean;
+  check_gating_policy: CheckGatingPolicy;
 }
 
 export function GitHubRepositoryList() {
@@ -250,6 +283,9 @@ export function GitHubRepositoryList() {
     webhook_secret: "",
     is_active: true,
     allow_auto_review: true,
+    review_on_push: false,
+    checks_enabled: false,
+    check_gating_policy: "high_security",
   };
 
   // フォームの値とバリデーション状態
@@ -342,6 +378,9 @@ export function GitHubRepositoryList() {
       webhook_secret: repository.webhook_secret || "",
       is_active: repository.is_active,
       allow_auto_review: repository.allow_auto_review,
+      review_on_push: repository.review_on_push,
+      checks_enabled: repository.checks_enabled,
+      check_gating_policy: repository.check_gating_policy || "high_security",
     });
     setIsEditDialogOpen(true);
   };
@@ -682,6 +721,77 @@ export function GitHubRepositoryList() {
                             }
                           />
                         </div>
+
+                        <div className="flex items-center justify-between space-y-0 rounded-md border p-3">
+                          <div className="space-y-0.5">
+                            <Label htmlFor="review_on_push">
+                              プッシュ時に差分を再レビュー
+                            </Label>
+                            <p className="text-sm text-muted-foreground">
+                              レビュー済みのPRに新しいコミットがプッシュされたら、前回のレビュー以降の変更だけを自動で再レビューします
+                            </p>
+                          </div>
+                          <Switch
+                            id="review_on_push"
+                            name="review_on_push"
+                            checked={formValues.review_on_push}
+                            onCheckedChange={(checked) =>
+                              handleSwitchChange("review_on_push", checked)
+                            }
+                          />
+                        </div>
+
+                        <div className="space-y-3 rounded-md border p-3">
+                          <div className="flex items-center justify-between space-y-0">
+                            <div className="space-y-0.5">
+                              <Label htmlFor="checks_enabled">
+                                チェックでマージ可否を判定
+                              </Label>
+                              <p className="text-sm text-muted-foreground">
+                                レビュー結果をPRのチェックとして報告します。ブランチ保護の必須チェックに「AIコードレビュー」を指定するとマージを制御できます
+                              </p>
+                            </div>
+                            <Switch
+                              id="checks_enabled"
+                              name="checks_enabled"
+                              checked={formValues.checks_enabled}
+                              onCheckedChange={(checked) =>
+                                handleSwitchChange("checks_enabled", checked)
+                              }
+                            />
+                          </div>
+                          {formValues.checks_enabled && (
+                            <div className="space-y-2">
+                              <Label htmlFor="check_gating_policy">
+                                判定方針
+                              </Label>
+                              <Select
+                                value={formValues.check_gating_policy}
+                                onValueChange={(value) =>
+                                  setFormValues((prev) => ({
+                                    ...prev,
+                                    check_gating_policy:
+                                      value as CheckGatingPolicy,
+                                  }))
+                                }
+                              >
+                                <SelectTrigger id="check_gating_policy">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {CHECK_GATING_POLICY_OPTIONS.map((option) => (
+                                    <SelectItem
+                                      key={option.value}
+                                      value={option.value}
+                                    >
+                                      {option.label}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          )}
+                        </div>
                       </>
                     )}
                   </div>
@@ -799,6 +909,74 @@ export function GitHubRepositoryList() {
                       }
                     />
                   </div>
+
+                  <div className="flex items-center justify-between space-y-0 rounded-md border p-3">
+                    <div className="space-y-0.5">
+                      <Label htmlFor="review_on_push">
+                        プッシュ時に差分を再レビュー
+                      </Label>
+                      <p className="text-sm text-muted-foreground">
+                        レビュー済みのPRに新しいコミットがプッシュされたら、前回のレビュー以降の変更だけを自動で再レビューします
+                      </p>
+                    </div>
+                    <Switch
+                      id="review_on_push"
+                      name="review_on_push"
+                      checked={formValues.review_on_push}
+                      onCheckedChange={(checked) =>
+                        handleSwitchChange("review_on_push", checked)
+                      }
+                    />
+                  </div>
+
+                  <div className="space-y-3 rounded-md border p-3">
+                    <div className="flex items-center justify-between space-y-0">
+                      <div className="space-y-0.5">
+                        <Label htmlFor="checks_enabled">
+                          チェックでマージ可否を判定
+                        </Label>
+                        <p className="text-sm text-muted-foreground">
+                          レビュー結果をPRのチェックとして報告します。ブランチ保護の必須チェックに「AIコードレビュー」を指定するとマージを制御できます
+                        </p>
+                      </div>
+                      <Switch
+                        id="checks_enabled"
+                        name="checks_enabled"
+                        checked={formValues.checks_enabled}
+                        onCheckedChange={(checked) =>
+                          handleSwitchChange("checks_enabled", checked)
+                        }
+                      />
+                    </div>
+                    {formValues.checks_enabled && (
+                      <div className="space-y-2">
+                        <Label htmlFor="check_gating_policy">判定方針</Label>
+                        <Select
+                          value={formValues.check_gating_policy}
+                          onValueChange={(value) =>
+                            setFormValues((prev) => ({
+                              ...prev,
+                              check_gating_policy: value as CheckGatingPolicy,
+                            }))
+                          }
+                        >
+                          <SelectTrigger id="check_gating_policy">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {CHECK_GATING_POLICY_OPTIONS.map((option) => (
+                              <SelectItem
+                                key={option.value}
+                                value={option.value}
+                              >
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+                  </div>
                 </div>
 
                 <DialogFooter>
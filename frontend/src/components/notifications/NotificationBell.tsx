@@ -0,0 +1,73 @@
+// frontend/src/components/notifications/NotificationBell.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { Bell } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+
+// 受信箱で既読にしたときに未読件数を更新するためのイベント名
+export const NOTIFICATIONS_UPDATED_EVENT = "notifications:updated";
+
+// 未読件数を再取得する間隔
+const POLL_INTERVAL_MS = 60000;
+
+/**
+ * サイドバーに表示する通知ベル（未読件数付き）
+ */
+export function NotificationBell() {
+  const { token } = useAuth();
+  const pathname = usePathname();
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  useEffect(() => {
+    if (!token) {
+      return;
+    }
+
+    const fetchUnreadCount = async () => {
+      try {
+        const response = await fetch(
+          `${process.env.NEXT_PUBLIC_API_URL}/api/notifications/unread-count`,
+          {
+            headers: {
+              Authorization: `Bearer ${token}`,
+            },
+          }
+        );
+        if (!response.ok) {
+          return;
+        }
+        const data = await response.json();
+        setUnreadCount(data.data.count);
+      } catch (error) {
+        console.error("未読件数取得エラー:", error);
+      }
+    };
+
+    fetchUnreadCount();
+    const timer = setInterval(fetchUnreadCount, POLL_INTERVAL_MS);
+    window.addEventListener(NOTIFICATIONS_UPDATED_EVENT, fetchUnreadCount);
+
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener(NOTIFICATIONS_UPDATED_EVENT, fetchUnreadCount);
+    };
+  }, [token, pathname]);
+
+  return (
+    <Link
+      href="/dashboard/notifications"
+      className="relative p-2 rounded-md text-gray-600 hover:bg-gray-100"
+      aria-label={unreadCount > 0 ? `通知（未読 ${unreadCount}件）` : "通知"}
+    >
+      <Bell className="h-5 w-5" aria-hidden="true" />
+      {unreadCount > 0 && (
+        <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-500 text-white text-xs font-medium flex items-center justify-center">
+          {unreadCount > 99 ? "99+" : unreadCount}
+        </span>
+      )}
+    </Link>
+  );
+}
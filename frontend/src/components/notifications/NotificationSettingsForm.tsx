@@ -0,0 +1,411 @@
+// frontend/src/components/notifications/NotificationSettingsForm.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/components/ui/use-toast";
+import { Save } from "lucide-react";
+
+interface NotificationSettings {
+  email_notifications: boolean;
+  review_completed: boolean;
+  feedback_received: boolean;
+  level_changed: boolean;
+  system_notifications: boolean;
+  language: "ja" | "en";
+  delivery_mode: DeliveryMode;
+  digest_hour: number;
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  timezone: string;
+}
+
+type DeliveryMode = "immediate" | "daily_digest" | "weekly_digest";
+
+type ToggleKey =
+  | "review_completed"
+  | "feedback_received"
+  | "level_changed"
+  | "system_notifications";
+
+// 通知の種類ごとの切り替え
+const TYPE_TOGGLES: { key: ToggleKey; label: string; description: string }[] = [
+  {
+    key: "review_completed",
+    label: "レビュー完了",
+    description: "AIレビューが完了したときに通知します",
+  },
+  {
+    key: "feedback_received",
+    label: "フィードバックのチェック",
+    description:
+      "管理者がフィードバックのチェック状態を変更したときに通知します",
+  },
+  {
+    key: "level_changed",
+    label: "スキルレベルの変化",
+    description: "評価によってスキルレベルが変わったときに通知します",
+  },
+  {
+    key: "system_notifications",
+    label: "システムからのお知らせ",
+    description: "メンテナンスなどのお知らせを通知します",
+  },
+];
+
+// メール通知の送り方
+const DELIVERY_MODES: { value: DeliveryMode; label: string }[] = [
+  { value: "immediate", label: "都度送信" },
+  { value: "daily_digest", label: "1日1回まとめて送信" },
+  { value: "weekly_digest", label: "週1回（月曜日）まとめて送信" },
+];
+
+// 選択肢に表示するタイムゾーン（保存済みの値が含まれない場合は追加して表示する）
+const TIMEZONES = [
+  "Asia/Tokyo",
+  "Asia/Seoul",
+  "Asia/Shanghai",
+  "Asia/Singapore",
+  "Asia/Kolkata",
+  "Europe/London",
+  "Europe/Berlin",
+  "America/New_York",
+  "America/Los_Angeles",
+  "UTC",
+];
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+/**
+ * 通知設定フォーム
+ */
+export function NotificationSettingsForm() {
+  const { token } = useAuth();
+  const { toast } = useToast();
+  const [settings, setSettings] = useState<NotificationSettings | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const response = await fetch(
+          `${process.env.NEXT_PUBLIC_API_URL}/api/settings/notifications`,
+          {
+            headers: {
+              Authorization: `Bearer ${token}`,
+            },
+          }
+        );
+
+        if (!response.ok) {
+          throw new Error("通知設定の取得に失敗しました");
+        }
+
+        const data = await response.json();
+        setSettings({
+          ...data.data,
+          language: data.data.language || "ja",
+          delivery_mode: data.data.delivery_mode || "immediate",
+          digest_hour: data.data.digest_hour ?? 9,
+          timezone: data.data.timezone || "Asia/Tokyo",
+        });
+      } catch (error) {
+        console.error("通知設定取得エラー:", error);
+        toast({
+          title: "エラーが発生しました",
+          description: "通知設定の取得に失敗しました",
+          variant: "destructive",
+        });
+      }
+    };
+
+    if (token) {
+      fetchSettings();
+    }
+  }, [token]);
+
+  const handleSave = async () => {
+    if (!settings) {
+      return;
+    }
+
+    // 通知しない時間帯は開始・終了の両方を指定する
+    if (!settings.quiet_hours_start !== !settings.quiet_hours_end) {
+      toast({
+        title: "入力内容を確認してください",
+        description: "通知しない時間帯は開始と終了の両方を指定してください",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL}/api/settings/notifications`,
+        {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify({
+            email_notifications: settings.email_notifications,
+            review_completed: settings.review_completed,
+            feedback_received: settings.feedback_received,
+            level_changed: settings.level_changed,
+            system_notifications: settings.system_notifications,
+            language: settings.language,
+            delivery_mode: settings.delivery_mode,
+            digest_hour: settings.digest_hour,
+            quiet_hours_start: settings.quiet_hours_start || null,
+            quiet_hours_end: settings.quiet_hours_end || null,
+            timezone: settings.timezone,
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error("通知設定の更新に失敗しました");
+      }
+
+      toast({
+        title: "保存しました",
+        description: "通知設定を更新しました",
+      });
+    } catch (error) {
+      console.error("通知設定更新エラー:", error);
+      toast({
+        title: "エラーが発生しました",
+        description: "通知設定の更新に失敗しました",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!settings) {
+    return <p className="text-sm text-gray-500">読み込み中...</p>;
+  }
+
+  const timezones = TIMEZONES.includes(settings.timezone)
+    ? TIMEZONES
+    : [settings.timezone, ...TIMEZONES];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>通知設定</CardTitle>
+        <CardDescription>
+          通知はアプリ内の通知一覧に届きます。メール通知を有効にすると、同じ内容をメールでも受け取れます。
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {TYPE_TOGGLES.map((toggle) => (
+          <div key={toggle.key} className="flex items-center justify-between">
+            <div>
+              <Label htmlFor={`notification-${toggle.key}`}>
+                {toggle.label}
+              </Label>
+              <p className="text-sm text-gray-500">{toggle.description}</p>
+            </div>
+            <Switch
+              id={`notification-${toggle.key}`}
+              checked={settings[toggle.key]}
+              onCheckedChange={(checked) =>
+                setSettings({ ...settings, [toggle.key]: checked })
+              }
+            />
+          </div>
+        ))}
+
+        <div className="border-t pt-6 flex items-center justify-between">
+          <div>
+            <Label htmlFor="notification-email">メール通知</Label>
+            <p className="text-sm text-gray-500">
+              登録しているメールアドレスにも通知を送信します
+            </p>
+          </div>
+          <Switch
+            id="notification-email"
+            checked={settings.email_notifications}
+            onCheckedChange={(checked) =>
+              setSettings({ ...settings, email_notifications: checked })
+            }
+          />
+        </div>
+
+        {settings.email_notifications && (
+          <>
+            <div className="flex items-center justify-between">
+              <div>
+                <Label>メールの送り方</Label>
+                <p className="text-sm text-gray-500">
+                  まとめて送信する場合は、所属するグループ・プロジェクトの完了したレビュー、未解決の優先度「高」の指摘、スキルレベルの変化を1通のメールにまとめます
+                </p>
+              </div>
+              <Select
+                value={settings.delivery_mode}
+                onValueChange={(value) =>
+                  setSettings({
+                    ...settings,
+                    delivery_mode: value as DeliveryMode,
+                  })
+                }
+              >
+                <SelectTrigger className="w-56 shrink-0">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DELIVERY_MODES.map((mode) => (
+                    <SelectItem key={mode.value} value={mode.value}>
+                      {mode.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {settings.delivery_mode !== "immediate" && (
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label>まとめて送信する時刻</Label>
+                  <p className="text-sm text-gray-500">
+                    選択したタイムゾーンの時刻で送信します
+                  </p>
+                </div>
+                <Select
+                  value={String(settings.digest_hour)}
+                  onValueChange={(value) =>
+                    setSettings({ ...settings, digest_hour: parseInt(value) })
+                  }
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {HOURS.map((hour) => (
+                      <SelectItem key={hour} value={String(hour)}>
+                        {`${String(hour).padStart(2, "0")}:00`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="quiet-hours-start">通知しない時間帯</Label>
+                <p className="text-sm text-gray-500">
+                  この時間帯のメールは保留し、時間帯が終わった後にまとめて送信します
+                </p>
+              </div>
+              <div className="flex items-center space-x-2 shrink-0">
+                <Input
+                  id="quiet-hours-start"
+                  type="time"
+                  className="w-28"
+                  value={settings.quiet_hours_start || ""}
+                  onChange={(e) =>
+                    setSettings({
+                      ...settings,
+                      quiet_hours_start: e.target.value || null,
+                    })
+                  }
+                />
+                <span className="text-sm text-gray-500">〜</span>
+                <Input
+                  type="time"
+                  className="w-28"
+                  value={settings.quiet_hours_end || ""}
+                  onChange={(e) =>
+                    setSettings({
+                      ...settings,
+                      quiet_hours_end: e.target.value || null,
+                    })
+                  }
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <Label>タイムゾーン</Label>
+                <p className="text-sm text-gray-500">
+                  通知しない時間帯とまとめて送信する時刻の基準になります
+                </p>
+              </div>
+              <Select
+                value={settings.timezone}
+                onValueChange={(value) =>
+                  setSettings({ ...settings, timezone: value })
+                }
+              >
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {timezones.map((timezone) => (
+                    <SelectItem key={timezone} value={timezone}>
+                      {timezone}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </>
+        )}
+
+        <div className="flex items-center justify-between">
+          <div>
+            <Label>通知の言語</Label>
+            <p className="text-sm text-gray-500">
+              通知の件名・本文の言語を選択します
+            </p>
+          </div>
+          <Select
+            value={settings.language}
+            onValueChange={(value) =>
+              setSettings({ ...settings, language: value as "ja" | "en" })
+            }
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="ja">日本語</SelectItem>
+              <SelectItem value="en">English</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardContent>
+      <CardFooter>
+        <Button onClick={handleSave} disabled={isSaving}>
+          <Save className="mr-2 h-4 w-4" />
+          {isSaving ? "保存中..." : "保存"}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,305 @@
+// frontend/src/components/reviews/ReviewProgressTimeline.tsx
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  AlertCircle,
+  CheckCircle,
+  Clock,
+  Code,
+  GitPullRequest,
+  ListChecks,
+  Loader2,
+  Save,
+} from "lucide-react";
+
+type ReviewProgressStage =
+  | "queued"
+  | "started"
+  | "criteria_evaluated"
+  | "feedback_saved"
+  | "sent_to_backlog"
+  | "sent_to_github"
+  | "completed"
+  | "failed";
+
+interface ReviewProgressEvent {
+  id: number;
+  review_id: number | null;
+  submission_id: number | null;
+  pull_request?: string;
+  stage: ReviewProgressStage;
+  message: string;
+  feedback_count?: number;
+  attempt?: number;
+  will_retry?: boolean;
+  error?: string;
+  timestamp: string;
+}
+
+interface ReviewProgressTimelineProps {
+  reviewId: number;
+  // レビューが完了・失敗したときに呼び出す（レビュー詳細の再取得用）
+  onFinished?: (event: ReviewProgressEvent) => void;
+}
+
+// 切断後に再接続するまでの待機時間
+const RECONNECT_DELAY_MS = 3000;
+
+// 段階ごとのアイコン
+const getStageIcon = (event: ReviewProgressEvent) => {
+  switch (event.stage) {
+    case "queued":
+      return <Clock className="h-4 w-4 text-yellow-600" />;
+    case "started":
+      return <Code className="h-4 w-4 text-blue-600" />;
+    case "criteria_evaluated":
+      return <ListChecks className="h-4 w-4 text-blue-600" />;
+    case "feedback_saved":
+      return <Save className="h-4 w-4 text-blue-600" />;
+    case "sent_to_backlog":
+    case "sent_to_github":
+      return <GitPullRequest className="h-4 w-4 text-indigo-600" />;
+    case "completed":
+      return <CheckCircle className="h-4 w-4 text-green-600" />;
+    case "failed":
+      return (
+        <AlertCircle
+          className={`h-4 w-4 ${
+            event.will_retry ? "text-yellow-600" : "text-red-600"
+          }`}
+        />
+      );
+  }
+};
+
+// イベントの補足情報
+const getEventDetail = (event: ReviewProgressEvent) => {
+  if (event.stage === "failed") {
+    return event.will_retry
+      ? `${event.error || "エラーが発生しました"}（自動的に再試行します）`
+      : event.error || null;
+  }
+  if (event.stage === "started" && event.attempt && event.attempt > 1) {
+    return `${event.attempt}回目の試行`;
+  }
+  if (event.feedback_count !== undefined) {
+    return `指摘 ${event.feedback_count}件`;
+  }
+  return null;
+};
+
+/**
+ * SSEのメッセージ（空行区切りのブロック）を解析
+ */
+const parseSseBlock = (
+  block: string
+): { id?: string; event: string; data: string } | null => {
+  let id: string | undefined;
+  let event = "message";
+  const data: string[] = [];
+
+  block.split("\n").forEach((line) => {
+    if (line.startsWith(":")) {
+      return; // コメント（ハートビート）
+    }
+    const separator = line.indexOf(":");
+    const field = separator < 0 ? line : line.substring(0, separator);
+    const value =
+      separator < 0 ? "" : line.substring(separator + 1).replace(/^ /, "");
+
+    if (field === "id") {
+      id = value;
+    } else if (field === "event") {
+      event = value;
+    } else if (field === "data") {
+      data.push(value);
+    }
+  });
+
+  return data.length > 0 ? { id, event, data: data.join("\n") } : null;
+};
+
+/**
+ * AIレビューの進捗をリアルタイムに表示するタイムライン
+ * 認証ヘッダーを付けるため EventSource ではなく fetch でストリームを読み取る
+ */
+export function ReviewProgressTimeline({
+  reviewId,
+  onFinished,
+}: ReviewProgressTimelineProps) {
+  const { token } = useAuth();
+  const [events, setEvents] = useState<ReviewProgressEvent[]>([]);
+  const [isConnected, setIsConnected] = useState(false);
+  const onFinishedRef = useRef(onFinished);
+
+  useEffect(() => {
+    onFinishedRef.current = onFinished;
+  }, [onFinished]);
+
+  useEffect(() => {
+    if (!token) {
+      return;
+    }
+
+    const controller = new AbortController();
+    let lastEventId = "";
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const handleEvent = (event: ReviewProgressEvent) => {
+      setEvents((prev) => {
+        if (prev.some((item) => item.id === event.id)) {
+          return prev;
+        }
+        // 再提出でキューに追加された場合は新しい経過として表示する
+        return event.stage === "queued" ? [event] : [...prev, event];
+      });
+
+      if (event.stage === "completed" || event.stage === "failed") {
+        onFinishedRef.current?.(event);
+      }
+    };
+
+    const connect = async () => {
+      try {
+        const headers: Record<string, string> = {
+          Authorization: `Bearer ${token}`,
+        };
+        if (lastEventId) {
+          headers["Last-Event-ID"] = lastEventId;
+        }
+
+        const response = await fetch(
+          `${process.env.NEXT_PUBLIC_API_URL}/api/reviews/progress/stream?reviewId=${reviewId}`,
+          { headers, signal: controller.signal }
+        );
+
+        if (!response.ok || !response.body) {
+          throw new Error("レビューの進捗の取得に失敗しました");
+        }
+
+        setIsConnected(true);
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = "";
+
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+
+          buffer += decoder.decode(value, { stream: true }).replace(/\r/g, "");
+          let separator: number;
+          while ((separator = buffer.indexOf("\n\n")) >= 0) {
+            const message = parseSseBlock(buffer.substring(0, separator));
+            buffer = buffer.substring(separator + 2);
+
+            if (!message) {
+              continue;
+            }
+            if (message.id) {
+              lastEventId = message.id;
+            }
+            if (message.event === "progress") {
+              try {
+                handleEvent(JSON.parse(message.data));
+              } catch (e) {
+                console.error("進捗イベントの解析エラー:", e);
+              }
+            }
+          }
+        }
+      } catch (error) {
+        if (controller.signal.aborted) {
+          return;
+        }
+        console.error("レビュー進捗ストリームエラー:", error);
+      }
+
+      // サーバー側の切断やネットワークエラーの場合は再接続する
+      setIsConnected(false);
+      if (!controller.signal.aborted) {
+        reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+      }
+    };
+
+    connect();
+
+    return () => {
+      controller.abort();
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+      }
+    };
+  }, [reviewId, token]);
+
+  // 進捗を受信するまでは表示しない
+  if (events.length === 0) {
+    return null;
+  }
+
+  const latest = events[events.length - 1];
+  const isRunning =
+    latest.stage !== "completed" &&
+    !(latest.stage === "failed" && !latest.will_retry);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg flex items-center">
+            {isRunning && (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin text-blue-600" />
+            )}
+            AIレビューの進捗
+          </CardTitle>
+          <Badge variant={isConnected ? "secondary" : "outline"}>
+            {isConnected ? "リアルタイム更新中" : "再接続中..."}
+          </Badge>
+        </div>
+        <CardDescription>
+          提出 #{latest.submission_id} のレビュー処理の経過です
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ol className="relative border-l border-gray-200 ml-2">
+          {events.map((event) => {
+            const detail = getEventDetail(event);
+            return (
+              <li key={event.id} className="mb-4 ml-6 last:mb-0">
+                <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-white ring-4 ring-white">
+                  {getStageIcon(event)}
+                </span>
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-medium">{event.message}</p>
+                  <span className="text-xs text-gray-500 ml-4 shrink-0">
+                    {new Date(event.timestamp).toLocaleTimeString("ja-JP")}
+                  </span>
+                </div>
+                {detail && (
+                  <p
+                    className={`text-xs mt-1 ${
+                      event.stage === "failed" && !event.will_retry
+                        ? "text-red-600"
+                        : "text-gray-500"
+                    }`}
+                  >
+                    {detail}
+                  </p>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,271 @@
+// frontend/src/components/reviews/SimilarReviewsPanel.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  AlertCircle,
+  AlertTriangle,
+  CheckCircle,
+  Info,
+  Users,
+} from "lucide-react";
+
+type SimilarReviewScope = "project" | "organization";
+
+interface SimilarReviewItem {
+  review_id: number;
+  review_title: string;
+  review_status: string;
+  project: { id: number; name: string } | null;
+  author_name: string;
+  is_own_review: boolean;
+  similarity: number;
+  matched_submission: {
+    id: number;
+    version: number;
+    code_excerpt: string;
+  };
+  key_feedbacks: {
+    id: number;
+    problem_point: string;
+    suggestion: string;
+    priority: "high" | "medium" | "low";
+    category: string | null;
+    is_resolved: boolean;
+  }[];
+  resolution: {
+    resolved_count: number;
+    total_count: number;
+    fixed_submission: {
+      id: number;
+      version: number;
+      code_excerpt: string;
+    } | null;
+  };
+}
+
+interface SimilarReviewsPanelProps {
+  reviewId: number;
+  // 提出が増えたときに再取得するためのキー
+  refreshKey?: number;
+}
+
+// 優先度に基づくアイコン
+const getPriorityIcon = (priority: string) => {
+  switch (priority) {
+    case "high":
+      return <AlertCircle className="h-4 w-4 text-red-500 shrink-0" />;
+    case "medium":
+      return <AlertTriangle className="h-4 w-4 text-amber-500 shrink-0" />;
+    default:
+      return <Info className="h-4 w-4 text-blue-500 shrink-0" />;
+  }
+};
+
+/**
+ * 類似する過去のレビューのパネル
+ * 同じような課題で受けた指摘と、その後どう修正したかを表示する
+ */
+export function SimilarReviewsPanel({
+  reviewId,
+  refreshKey,
+}: SimilarReviewsPanelProps) {
+  const { user, token } = useAuth();
+  const [scope, setScope] = useState<SimilarReviewScope>("project");
+  const [items, setItems] = useState<SimilarReviewItem[]>([]);
+  const [anonymized, setAnonymized] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  const isAdmin = user?.role === "admin";
+
+  useEffect(() => {
+    const fetchSimilarReviews = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(
+          `${process.env.NEXT_PUBLIC_API_URL}/api/reviews/${reviewId}/similar?scope=${scope}`,
+          {
+            headers: {
+              Authorization: `Bearer ${token}`,
+            },
+          }
+        );
+
+        if (!response.ok) {
+          throw new Error("類似レビューの取得に失敗しました");
+        }
+
+        const data = await response.json();
+        setItems(data.data.items);
+        setAnonymized(data.data.anonymized);
+      } catch (fetchError) {
+        console.error("類似レビュー取得エラー:", fetchError);
+        setError("類似レビューを取得できませんでした");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    if (token) {
+      fetchSimilarReviews();
+    }
+  }, [reviewId, scope, token, refreshKey]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle className="flex items-center text-lg">
+              <Users className="h-5 w-5 mr-2" />
+              類似する過去のレビュー
+            </CardTitle>
+            <CardDescription>
+              似たコードで受けた指摘と、その後の修正内容を参考にできます
+              {anonymized && "（他の研修生の名前は匿名で表示しています）"}
+            </CardDescription>
+          </div>
+          <div className="flex space-x-1">
+            <Button
+              size="sm"
+              variant={scope === "project" ? "default" : "outline"}
+              onClick={() => setScope("project")}
+            >
+              同じプロジェクト
+            </Button>
+            <Button
+              size="sm"
+              variant={scope === "organization" ? "default" : "outline"}
+              onClick={() => setScope("organization")}
+            >
+              全体
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">読み込み中...</p>
+        ) : error ? (
+          <p className="text-sm text-red-500">{error}</p>
+        ) : items.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            類似する過去のレビューは見つかりませんでした
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {items.map((item) => (
+              <div key={item.review_id} className="border rounded-md p-4">
+                <div className="flex justify-between items-start">
+                  <div>
+                    {isAdmin || item.is_own_review ? (
+                      <Link
+                        href={`/dashboard/reviews/${item.review_id}`}
+                        className="font-medium hover:underline"
+                      >
+                        {item.review_title}
+                      </Link>
+                    ) : (
+                      <span className="font-medium">{item.review_title}</span>
+                    )}
+                    <p className="text-xs text-gray-500 mt-1">
+                      {item.author_name}
+                      {item.project && ` ・ ${item.project.name}`}
+                      {` ・ バージョン ${item.matched_submission.version}`}
+                    </p>
+                  </div>
+                  <Badge variant="outline">
+                    類似度 {Math.round(item.similarity * 100)}%
+                  </Badge>
+                </div>
+
+                {item.key_feedbacks.length > 0 && (
+                  <ul className="mt-3 space-y-2">
+                    {item.key_feedbacks.map((feedback) => (
+                      <li key={feedback.id} className="flex text-sm">
+                        {getPriorityIcon(feedback.priority)}
+                        <div className="ml-2">
+                          <p>{feedback.problem_point}</p>
+                          <p className="text-gray-500">{feedback.suggestion}</p>
+                        </div>
+                        {feedback.is_resolved && (
+                          <CheckCircle className="h-4 w-4 text-green-600 ml-auto shrink-0" />
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                <div className="flex justify-between items-center mt-3 text-xs text-gray-500">
+                  <span>
+                    対応済み {item.resolution.resolved_count}/
+                    {item.resolution.total_count}件
+                    {item.resolution.fixed_submission &&
+                      ` ・ バージョン ${item.resolution.fixed_submission.version} で修正`}
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() =>
+                      setExpanded(
+                        expanded === item.review_id ? null : item.review_id
+                      )
+                    }
+                  >
+                    {expanded === item.review_id
+                      ? "コードを閉じる"
+                      : "コードを見る"}
+                  </Button>
+                </div>
+
+                {expanded === item.review_id && (
+                  <div className="mt-3 grid gap-3 md:grid-cols-2">
+                    <div>
+                      <h4 className="text-xs font-medium mb-1">
+                        指摘を受けたコード（バージョン{" "}
+                        {item.matched_submission.version}）
+                      </h4>
+                      <pre className="bg-gray-900 text-gray-100 text-xs p-3 rounded-md overflow-auto max-h-64">
+                        {item.matched_submission.code_excerpt}
+                      </pre>
+                    </div>
+                    <div>
+                      <h4 className="text-xs font-medium mb-1">
+                        {item.resolution.fixed_submission
+                          ? `修正後のコード（バージョン ${item.resolution.fixed_submission.version}）`
+                          : "修正後のコード"}
+                      </h4>
+                      {item.resolution.fixed_submission ? (
+                        <pre className="bg-gray-900 text-gray-100 text-xs p-3 rounded-md overflow-auto max-h-64">
+                          {item.resolution.fixed_submission.code_excerpt}
+                        </pre>
+                      ) : (
+                        <p className="text-xs text-gray-500 p-3 bg-gray-50 rounded-md">
+                          再提出はありません
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,425 @@
+// frontend/src/components/settings/SecuritySettings.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+import { KeyRound, LogOut, Monitor } from "lucide-react";
+
+interface ActiveSession {
+  id: number;
+  device: string;
+  ip_address: string | null;
+  created_at: string;
+  last_active_at: string | null;
+  expires_at: string;
+  is_current: boolean;
+}
+
+type LoginFailureReason = "unknown_email" | "invalid_password" | "locked";
+
+interface LoginHistoryItem {
+  id: number;
+  succeeded: boolean;
+  failure_reason: LoginFailureReason | null;
+  ip_address: string | null;
+  device: string;
+  created_at: string;
+}
+
+// ログインに失敗した理由の表示名
+const FAILURE_REASON_LABELS: Record<LoginFailureReason, string> = {
+  unknown_email: "メールアドレスの誤り",
+  invalid_password: "パスワードの誤り",
+  locked: "アカウントのロック中",
+};
+
+const formatDateTime = (value: string | null) =>
+  value ? new Date(value).toLocaleString("ja-JP") : "-";
+
+/**
+ * セキュリティ設定（パスワード変更・ログイン中の端末・ログイン履歴）
+ */
+export function SecuritySettings() {
+  const { token } = useAuth();
+  const { toast } = useToast();
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [loginHistory, setLoginHistory] = useState<LoginHistoryItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [passwords, setPasswords] = useState({
+    current_password: "",
+    new_password: "",
+    confirm_password: "",
+  });
+  const [isChangingPassword, setIsChangingPassword] = useState(false);
+
+  // ログイン中の端末とログイン履歴を取得
+  const fetchSecurityInfo = async () => {
+    try {
+      const headers = { Authorization: `Bearer ${token}` };
+      const [sessionsResponse, historyResponse] = await Promise.all([
+        fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/auth/sessions`, {
+          headers,
+        }),
+        fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/auth/login-history`, {
+          headers,
+        }),
+      ]);
+
+      if (!sessionsResponse.ok || !historyResponse.ok) {
+        throw new Error("セキュリティ情報の取得に失敗しました");
+      }
+
+      setSessions((await sessionsResponse.json()).data);
+      setLoginHistory((await historyResponse.json()).data);
+    } catch (error) {
+      console.error("セキュリティ情報取得エラー:", error);
+      toast({
+        title: "エラーが発生しました",
+        description: "ログイン中の端末の取得に失敗しました",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (token) {
+      fetchSecurityInfo();
+    }
+  }, [token]);
+
+  // パスワードを変更（他の端末はログアウトされる）
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (passwords.new_password !== passwords.confirm_password) {
+      toast({
+        title: "入力内容を確認してください",
+        description: "確認用のパスワードが一致しません",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setIsChangingPassword(true);
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL}/api/settings/change-password`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify({
+            current_password: passwords.current_password,
+            new_password: passwords.new_password,
+          }),
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          data.errors?.[0]?.message ||
+            data.message ||
+            "パスワードの変更に失敗しました"
+        );
+      }
+
+      setPasswords({
+        current_password: "",
+        new_password: "",
+        confirm_password: "",
+      });
+      toast({
+        title: "パスワードを変更しました",
+        description: "この端末以外のログインは無効になりました",
+      });
+      fetchSecurityInfo();
+    } catch (error) {
+      toast({
+        title: "エラーが発生しました",
+        description:
+          error instanceof Error
+            ? error.message
+            : "パスワードの変更に失敗しました",
+        variant: "destructive",
+      });
+    } finally {
+      setIsChangingPassword(false);
+    }
+  };
+
+  // 指定した端末をログアウト
+  const handleRevoke = async (session: ActiveSession) => {
+    try {
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL}/api/auth/sessions/${session.id}`,
+        {
+          method: "DELETE",
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error("端末のログアウトに失敗しました");
+      }
+
+      setSessions((prev) => prev.filter((item) => item.id !== session.id));
+      toast({
+        title: "ログアウトしました",
+        description: `${session.device} をログアウトしました`,
+      });
+    } catch (error) {
+      console.error("端末ログアウトエラー:", error);
+      toast({
+        title: "エラーが発生しました",
+        description: "端末のログアウトに失敗しました",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // この端末以外をすべてログアウト
+  const handleRevokeOthers = async () => {
+    try {
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL}/api/auth/sessions/revoke-others`,
+        {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error("端末のログアウトに失敗しました");
+      }
+
+      const data = await response.json();
+      setSessions((prev) => prev.filter((item) => item.is_current));
+      toast({
+        title: "ログアウトしました",
+        description: data.message,
+      });
+    } catch (error) {
+      console.error("端末一括ログアウトエラー:", error);
+      toast({
+        title: "エラーが発生しました",
+        description: "端末のログアウトに失敗しました",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const hasOtherSessions = sessions.some((session) => !session.is_current);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <form onSubmit={handleChangePassword}>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <KeyRound className="mr-2 h-5 w-5" />
+              パスワードの変更
+            </CardTitle>
+            <CardDescription>
+              変更すると、この端末以外でのログインはすべて無効になります
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4 max-w-md">
+            <div className="space-y-2">
+              <Label htmlFor="current-password">現在のパスワード</Label>
+              <Input
+                id="current-password"
+                type="password"
+                autoComplete="current-password"
+                required
+                value={passwords.current_password}
+                onChange={(e) =>
+                  setPasswords({
+                    ...passwords,
+                    current_password: e.target.value,
+                  })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-password">新しいパスワード</Label>
+              <Input
+                id="new-password"
+                type="password"
+                autoComplete="new-password"
+                required
+                minLength={6}
+                value={passwords.new_password}
+                onChange={(e) =>
+                  setPasswords({ ...passwords, new_password: e.target.value })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirm-password">新しいパスワード（確認）</Label>
+              <Input
+                id="confirm-password"
+                type="password"
+                autoComplete="new-password"
+                required
+                value={passwords.confirm_password}
+                onChange={(e) =>
+                  setPasswords({
+                    ...passwords,
+                    confirm_password: e.target.value,
+                  })
+                }
+              />
+            </div>
+          </CardContent>
+          <CardFooter>
+            <Button type="submit" disabled={isChangingPassword}>
+              {isChangingPassword ? "変更中..." : "パスワードを変更"}
+            </Button>
+          </CardFooter>
+        </form>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center">
+                <Monitor className="mr-2 h-5 w-5" />
+                ログイン中の端末
+              </CardTitle>
+              <CardDescription className="mt-1.5">
+                心当たりのない端末はログアウトしてください
+              </CardDescription>
+            </div>
+            <Button
+              variant="outline"
+              onClick={handleRevokeOthers}
+              disabled={!hasOtherSessions}
+            >
+              <LogOut className="mr-2 h-4 w-4" />
+              他の端末をすべてログアウト
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-gray-500">読み込み中...</p>
+          ) : (
+            <ul className="divide-y">
+              {sessions.map((session) => (
+                <li
+                  key={session.id}
+                  className="flex items-center justify-between py-3"
+                >
+                  <div>
+                    <p className="text-sm font-medium flex items-center">
+                      {session.device}
+                      {session.is_current && (
+                        <Badge variant="secondary" className="ml-2">
+                          この端末
+                        </Badge>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {session.ip_address || "IPアドレス不明"} ・ 最終利用{" "}
+                      {formatDateTime(
+                        session.last_active_at || session.created_at
+                      )}{" "}
+                      ・ ログイン {formatDateTime(session.created_at)}
+                    </p>
+                  </div>
+                  {!session.is_current && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRevoke(session)}
+                    >
+                      ログアウト
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>最近のログイン履歴</CardTitle>
+          <CardDescription>
+            失敗が続くと、アカウントは一時的にロックされます
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loginHistory.length === 0 ? (
+            <p className="text-sm text-gray-500">ログイン履歴はありません</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>日時</TableHead>
+                  <TableHead>結果</TableHead>
+                  <TableHead>端末</TableHead>
+                  <TableHead>IPアドレス</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loginHistory.map((attempt) => (
+                  <TableRow key={attempt.id}>
+                    <TableCell>{formatDateTime(attempt.created_at)}</TableCell>
+                    <TableCell>
+                      {attempt.succeeded ? (
+                        <Badge variant="secondary">成功</Badge>
+                      ) : (
+                        <Badge variant="destructive">
+                          失敗
+                          {attempt.failure_reason &&
+                            `（${
+                              FAILURE_REASON_LABELS[attempt.failure_reason]
+                            }）`}
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{attempt.device}</TableCell>
+                    <TableCell>{attempt.ip_address || "-"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
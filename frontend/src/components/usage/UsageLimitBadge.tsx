@@ -1,7 +1,7 @@
 // frontend/src/components/usage/UsageLimitBadge.tsx (最適化版)
 "use client";
 
-import { useUsageLimit } from "@/contexts/UsageLimitContext";
+import { BudgetStatus, useUsageLimit } from "@/contexts/UsageLimitContext";
 import { useCallback, useEffect, useState, memo } from "react";
 import {
   Battery,
@@ -22,6 +22,25 @@ interface UsageLimitBadgeProps {
   showLabel?: boolean;
 }
 
+// 予算の適用範囲・期間の表示名
+const BUDGET_SCOPE_LABELS: Record<BudgetStatus["scope"], string> = {
+  user: "個人",
+  group: "グループ",
+  project: "プロジェクト",
+};
+
+const BUDGET_PERIOD_LABELS: Record<BudgetStatus["period"], string> = {
+  daily: "日",
+  weekly: "週",
+  monthly: "月",
+};
+
+// 予算の消費量を単位付きで表示
+const formatBudgetValue = (value: number, metric: BudgetStatus["metric"]) =>
+  metric === "cost"
+    ? `$${value.toFixed(2)}`
+    : `${Math.round(value).toLocaleString()}トークン`;
+
 // React.memo でコンポーネントをメモ化
 export const UsageLimitBadge = memo(function UsageLimitBadge({
   featureKey,
@@ -57,6 +76,39 @@ export const UsageLimitBadge = memo(function UsageLimitBadge({
     const { remaining, limit } = usageInfo;
     const ratio = remaining / limit;
 
+    // 管理者による一時解除中
+    if (usageInfo.overrideExpiresAt) {
+      return {
+        icon: <BatteryCharging className="h-4 w-4" />,
+        colorClass: "text-green-600",
+        label: "管理者により一時的に制限が解除されています",
+        remaining,
+        limit,
+      };
+    }
+
+    // 回数は残っているが予算の上限に達している
+    if (!usageInfo.canUse && remaining > 0) {
+      return {
+        icon: <BatteryWarning className="h-4 w-4" />,
+        colorClass: "text-red-600",
+        label: "利用予算の上限に達しました",
+        remaining,
+        limit,
+      };
+    }
+
+    // 予算の警告しきい値を超えている
+    if (usageInfo.warning && ratio > 0) {
+      return {
+        icon: <BatteryLow className="h-4 w-4" />,
+        colorClass: "text-yellow-600",
+        label: "利用予算の上限に近づいています",
+        remaining,
+        limit,
+      };
+    }
+
     if (ratio > 0.7) {
       return {
         icon: <Battery className="h-4 w-4" />,
@@ -114,6 +166,7 @@ export const UsageLimitBadge = memo(function UsageLimitBadge({
   }
 
   const { icon, colorClass, label, remaining, limit } = getDisplayInfo();
+  const budgets = getUsageInfo(featureKey)?.budgets || [];
 
   const badgeContent = (
     <div className={`flex items-center text-xs ${colorClass}`}>
@@ -132,6 +185,17 @@ export const UsageLimitBadge = memo(function UsageLimitBadge({
       <p>
         本日の残り回数: {remaining}/{limit}回
       </p>
+      {budgets.map((budget) => (
+        <p
+          key={budget.budget_id}
+          className={budget.warning ? "text-yellow-600" : undefined}
+        >
+          {BUDGET_SCOPE_LABELS[budget.scope]}予算（{budget.scope_name}・
+          {BUDGET_PERIOD_LABELS[budget.period]}）:{" "}
+          {formatBudgetValue(budget.used, budget.metric)}/
+          {formatBudgetValue(budget.limit, budget.metric)}
+        </p>
+      ))}
       <p className="text-xs text-gray-500 mt-1">{label}</p>
     </div>
   );
@@ -20,6 +20,7 @@ type AuthContextType = {
   token: string | null;
   isLoading: boolean;
   login: (email: string, password: string) => Promise<void>;
+  loginWithSsoTicket: (ticket: string) => Promise<string>;
   register: (userData: {
     name: string;
     email: string;
@@ -112,6 +113,43 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // シングルサインオンのチケットでログインし、ログイン後の表示先を返す
+  const loginWithSsoTicket = async (ticket: string) => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL}/api/auth/sso/exchange`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ ticket }),
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "ログインに失敗しました");
+      }
+
+      const data = await response.json();
+      setUser(data.data.user);
+      setToken(data.data.sessionToken);
+
+      // トークンをローカルストレージに保存
+      localStorage.setItem("sessionToken", data.data.sessionToken);
+      return data.data.redirectPath as string;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error("ログイン処理中にエラーが発生しました");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   // 登録関数
   const register = async (userData: {
     name: string;
@@ -182,7 +220,16 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   return (
     <AuthContext.Provider
-      value={{ user, token, isLoading, login, register, logout, updateUser }}
+      value={{
+        user,
+        token,
+        isLoading,
+        login,
+        loginWithSsoTicket,
+        register,
+        logout,
+        updateUser,
+      }}
     >
       {children}
     </AuthContext.Provider>
@@ -13,12 +13,33 @@ import React, {
 import { useAuth } from "./AuthContext";
 import { useToast } from "@/components/ui/use-toast";
 
+// トークン数・推定コストの予算の消費状況
+export interface BudgetStatus {
+  budget_id: number;
+  scope: "user" | "group" | "project";
+  scope_id: number;
+  scope_name: string;
+  feature_key: string | null;
+  metric: "tokens" | "cost";
+  period: "daily" | "weekly" | "monthly";
+  limit: number;
+  used: number;
+  remaining: number;
+  ratio: number;
+  warning: boolean;
+  exceeded: boolean;
+  resets_at: string;
+}
+
 // 利用状況の型定義
 interface FeatureUsage {
   used: number;
   limit: number;
   remaining: number;
   canUse: boolean;
+  warning?: boolean; // いずれかの予算が警告しきい値を超えている
+  budgets?: BudgetStatus[];
+  overrideExpiresAt?: string; // 管理者による一時解除の有効期限
 }
 
 // コンテキストの型定義
@@ -80,6 +101,9 @@ export const UsageLimitProvider: React.FC<UsageLimitProviderProps> = ({
   const fetchPromise = useRef<Promise<void> | null>(null);
   const CACHE_DURATION = 30000; // 30秒
 
+  // 予算の警告を通知済みの機能（同じ警告を繰り返し表示しない）
+  const warnedFeatures = useRef<Set<string>>(new Set());
+
   // デバウンス済みのデータ取得関数
   const fetchUsageLimits = useCallback(
     async (force = false) => {
@@ -161,6 +185,21 @@ export const UsageLimitProvider: React.FC<UsageLimitProviderProps> = ({
               }
 
               setUsageLimits(resultData);
+
+              // 予算の警告しきい値を超えた機能があれば一度だけ通知
+              Object.entries(resultData as { [key: string]: FeatureUsage })
+                .filter(
+                  ([featureKey, usage]) =>
+                    usage.warning && !warnedFeatures.current.has(featureKey)
+                )
+                .forEach(([featureKey]) => {
+                  warnedFeatures.current.add(featureKey);
+                  toast({
+                    title: "利用予算の上限に近づいています",
+                    description:
+                      "上限に達するとAI機能が利用できなくなります。必要な場合は管理者に相談してください",
+                  });
+                });
             } else {
               console.warn(
                 "APIがエラーを返しました。デフォルト値を使用します。",